@@ -51,6 +51,13 @@ if (fromUrl) {
 
 const pool = mariadb.createPool(poolConfig);
 
+/** Höchstzahl gleichzeitig gehaltener bzw. angeforderter Buchungssperren (Verbindungen des Sperr-Pools) */
+export const BOOKING_LOCK_CONNECTION_LIMIT = 10;
+
+// Eigener Pool für die Buchungssperren (GET_LOCK): Anfragen, die auf eine Sperre warten, belegen so keine
+// Verbindung aus dem Haupt-Pool – die braucht der Inhaber der Sperre für Prüfung und Speichern
+const lockPool = mariadb.createPool({ ...poolConfig, connectionLimit: BOOKING_LOCK_CONNECTION_LIMIT });
+
 /**
  * Hole eine Datenbankverbindung aus dem Pool
  * Diese Funktion wirft einen Fehler, wenn keine Verbindung möglich ist
@@ -70,6 +77,22 @@ export async function getConnection(): Promise<PoolConnection>
     }
 }
 
+/**
+ * Hole eine Verbindung aus dem Sperr-Pool (nur für GET_LOCK/RELEASE_LOCK der Buchungssperren)
+ */
+export async function getLockConnection(): Promise<PoolConnection>
+{
+    try 
+    {
+        return await lockPool.getConnection();
+    } 
+    catch (error) 
+    {
+        logger.error('Failed to get lock connection', error);
+        throw new Error('Database connection failed');    
+    }
+}
+
 /**
  * Teste die Datenbankverbindung beim Start
  */
@@ -106,6 +129,7 @@ export async function closePool(): Promise<void>
     try 
     {
         await pool.end();
+        await lockPool.end();
         logger.info('Database pool closed successfully');    
     } 
     catch (error) 
@@ -0,0 +1,18 @@
+-- Migration: Special availability (closures, holidays, vacations, extra opening windows)
+-- Run on existing DB to enable date-specific exceptions to the weekly availability_rules.
+
+CREATE TABLE IF NOT EXISTS special_availability (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    venue_id INT,
+    staff_member_id INT,
+    date DATE NOT NULL,
+    start_time VARCHAR(5),
+    end_time VARCHAR(5),
+    is_available BOOLEAN NOT NULL DEFAULT FALSE,
+    reason VARCHAR(255),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (venue_id) REFERENCES venues(id) ON DELETE CASCADE,
+    FOREIGN KEY (staff_member_id) REFERENCES staff_members(id) ON DELETE CASCADE,
+    INDEX idx_venue_date (venue_id, date),
+    INDEX idx_staff_date (staff_member_id, date)
+);
@@ -0,0 +1,6 @@
+-- Migration: Buffer/cleanup time per service
+-- Run on existing DB. Buffers block staff/capacity before and after an appointment but are not part of the customer's booking time.
+
+ALTER TABLE services
+    ADD COLUMN buffer_before_minutes INT NOT NULL DEFAULT 0 AFTER requires_staff,
+    ADD COLUMN buffer_after_minutes INT NOT NULL DEFAULT 0 AFTER buffer_before_minutes;
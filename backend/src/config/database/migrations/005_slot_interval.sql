@@ -0,0 +1,8 @@
+-- Migration: Slot start granularity independent of service duration
+-- Run on existing DB. NULL keeps the previous behaviour (slots advance by service duration + buffers).
+
+ALTER TABLE venues
+    ADD COLUMN slot_interval_minutes INT NULL AFTER cancellation_hours;
+
+ALTER TABLE services
+    ADD COLUMN slot_interval_minutes INT NULL AFTER buffer_after_minutes;
@@ -0,0 +1,26 @@
+-- Migration: Restaurant table inventory and table assignment per booking
+-- Run on existing DB. Venues without active tables keep the previous capacity-based availability.
+
+CREATE TABLE IF NOT EXISTS venue_tables (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    venue_id INT NOT NULL,
+    name VARCHAR(50) NOT NULL,
+    area VARCHAR(100),
+    min_seats INT NOT NULL DEFAULT 1,
+    max_seats INT NOT NULL,
+    combine_group VARCHAR(50) COMMENT 'Tische derselben Gruppe können zusammengestellt werden',
+    is_active BOOLEAN DEFAULT TRUE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (venue_id) REFERENCES venues(id) ON DELETE CASCADE,
+    INDEX idx_venue (venue_id)
+);
+
+CREATE TABLE IF NOT EXISTS booking_tables (
+    booking_id INT NOT NULL,
+    table_id INT NOT NULL,
+    PRIMARY KEY (booking_id, table_id),
+    FOREIGN KEY (booking_id) REFERENCES bookings(id) ON DELETE CASCADE,
+    FOREIGN KEY (table_id) REFERENCES venue_tables(id) ON DELETE CASCADE,
+    INDEX idx_table (table_id)
+);
@@ -0,0 +1,20 @@
+-- Migration: Multi-service bookings (ordered list of services per booking)
+-- Run on existing DB. Bookings without items keep using bookings.service_id / staff_member_id / start_time / end_time.
+
+CREATE TABLE IF NOT EXISTS booking_items (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    booking_id INT NOT NULL,
+    position INT NOT NULL DEFAULT 0,
+    service_id INT NOT NULL,
+    staff_member_id INT,
+    start_time VARCHAR(5) NOT NULL,
+    end_time VARCHAR(5) NOT NULL,
+    duration_minutes INT NOT NULL,
+    price DECIMAL(10, 2),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (booking_id) REFERENCES bookings(id) ON DELETE CASCADE,
+    FOREIGN KEY (service_id) REFERENCES services(id) ON DELETE CASCADE,
+    FOREIGN KEY (staff_member_id) REFERENCES staff_members(id) ON DELETE SET NULL,
+    INDEX idx_booking (booking_id),
+    INDEX idx_staff (staff_member_id)
+);
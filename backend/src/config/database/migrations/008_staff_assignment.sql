@@ -0,0 +1,8 @@
+-- Migration: Automatic staff assignment for "no preference" bookings
+-- Run on existing DB. Venues choose how a staff member is picked; staff priority is used by the 'priority' strategy.
+
+ALTER TABLE venues
+    ADD COLUMN staff_assignment_strategy ENUM('round_robin', 'least_booked', 'priority') DEFAULT 'least_booked' AFTER slot_interval_minutes;
+
+ALTER TABLE staff_members
+    ADD COLUMN assignment_priority INT DEFAULT 0 AFTER description;
@@ -0,0 +1,30 @@
+-- Migration: Waitlist for fully booked days
+-- Run on existing DB. Freed capacity (cancellations) is offered to waiting customers in order, with a time-limited claim link.
+
+CREATE TABLE IF NOT EXISTS waitlist_entries (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    venue_id INT NOT NULL,
+    service_id INT NOT NULL,
+    customer_id INT NULL,
+    customer_name VARCHAR(255) NOT NULL,
+    customer_email VARCHAR(255) NOT NULL,
+    customer_phone VARCHAR(50),
+    date DATE NOT NULL,
+    time_from VARCHAR(5),                           -- Optionales Zeitfenster (HH:MM); NULL = ganzer Tag
+    time_to VARCHAR(5),
+    party_size INT NOT NULL DEFAULT 1,
+    status ENUM('waiting', 'offered', 'booked', 'expired', 'cancelled') DEFAULT 'waiting',
+    claim_token VARCHAR(36) UNIQUE,                 -- Link aus der Angebots-E-Mail
+    offered_start_time VARCHAR(5),
+    offered_end_time VARCHAR(5),
+    offer_expires_at DATETIME,
+    booking_id INT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (venue_id) REFERENCES venues(id) ON DELETE CASCADE,
+    FOREIGN KEY (service_id) REFERENCES services(id) ON DELETE CASCADE,
+    FOREIGN KEY (customer_id) REFERENCES customers(id) ON DELETE SET NULL,
+    FOREIGN KEY (booking_id) REFERENCES bookings(id) ON DELETE SET NULL,
+    INDEX idx_venue_service_date (venue_id, service_id, date, status),
+    INDEX idx_status_expires (status, offer_expires_at)
+);
@@ -0,0 +1,28 @@
+-- Migration: Recurring booking series (standing appointments)
+-- Run on existing DB. Each occurrence stays a normal booking linked via series_id/series_index.
+
+CREATE TABLE IF NOT EXISTS booking_series (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  venue_id INT NOT NULL,
+  service_id INT NOT NULL,
+  staff_member_id INT,
+  customer_id INT NULL,
+  customer_email VARCHAR(255) NOT NULL,
+  interval_weeks INT NOT NULL DEFAULT 1,
+  start_date DATE NOT NULL,
+  end_date DATE NULL,
+  occurrence_count INT NULL,
+  start_time VARCHAR(5) NOT NULL,
+  end_time VARCHAR(5) NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (venue_id) REFERENCES venues(id) ON DELETE CASCADE,
+  FOREIGN KEY (service_id) REFERENCES services(id) ON DELETE CASCADE,
+  FOREIGN KEY (staff_member_id) REFERENCES staff_members(id) ON DELETE SET NULL,
+  FOREIGN KEY (customer_id) REFERENCES customers(id) ON DELETE SET NULL
+);
+
+ALTER TABLE bookings
+    ADD COLUMN series_id INT NULL AFTER cancellation_reason,
+    ADD COLUMN series_index INT NULL AFTER series_id,
+    ADD CONSTRAINT fk_bookings_series FOREIGN KEY (series_id) REFERENCES booking_series(id) ON DELETE SET NULL,
+    ADD INDEX idx_series (series_id, series_index);
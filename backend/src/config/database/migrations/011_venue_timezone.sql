@@ -0,0 +1,6 @@
+-- Migration: Per-venue time zone
+-- Run on existing DB. Booking dates/times are venue-local; "now", "today", advance and cancellation windows
+-- and reminders are calculated in this zone instead of the server's clock.
+
+ALTER TABLE venues
+    ADD COLUMN timezone VARCHAR(64) NOT NULL DEFAULT 'Europe/Berlin' AFTER country;
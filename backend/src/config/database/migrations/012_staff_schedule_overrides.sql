@@ -0,0 +1,20 @@
+-- Migration: Staff time-off and shift overrides
+-- Run on existing DB. Breaks, absences and date-specific shifts of a staff member for a date range;
+-- time_off removes availability, shift replaces the weekly availability_rules on those days.
+
+CREATE TABLE IF NOT EXISTS staff_schedule_overrides (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    staff_member_id INT NOT NULL,
+    type ENUM('time_off', 'shift') NOT NULL DEFAULT 'time_off',
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    start_time VARCHAR(5),                          -- NULL = ganztägig (nur time_off)
+    end_time VARCHAR(5),
+    reason VARCHAR(255),
+    approved_by INT,                                -- Owner, der den Eintrag angelegt/freigegeben hat
+    approved_at TIMESTAMP NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (staff_member_id) REFERENCES staff_members(id) ON DELETE CASCADE,
+    FOREIGN KEY (approved_by) REFERENCES users(id) ON DELETE SET NULL,
+    INDEX idx_staff_dates (staff_member_id, start_date, end_date)
+);
@@ -0,0 +1,33 @@
+-- Migration: Temporary slot holds during checkout
+-- Run on existing DB. A hold reserves capacity (and tables) for a few minutes; POST /bookings consumes it,
+-- expired holds are removed by the slot-hold cron.
+
+-- Vorläufige Reservierung eines Slots während des Checkouts; zählt bis expires_at als belegt
+CREATE TABLE IF NOT EXISTS slot_holds (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    hold_token VARCHAR(36) NOT NULL UNIQUE,
+    venue_id INT NOT NULL,
+    service_id INT NOT NULL,
+    staff_member_id INT NULL,
+    hold_date DATE NOT NULL,
+    start_time VARCHAR(5) NOT NULL,
+    end_time VARCHAR(5) NOT NULL,
+    party_size INT NOT NULL DEFAULT 1,
+    expires_at DATETIME NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (venue_id) REFERENCES venues(id) ON DELETE CASCADE,
+    FOREIGN KEY (service_id) REFERENCES services(id) ON DELETE CASCADE,
+    FOREIGN KEY (staff_member_id) REFERENCES staff_members(id) ON DELETE CASCADE,
+    INDEX idx_venue_date_expires (venue_id, hold_date, expires_at),
+    INDEX idx_expires (expires_at)
+);
+
+-- Tische, die ein Slot-Hold vorläufig belegt
+CREATE TABLE IF NOT EXISTS slot_hold_tables (
+    hold_id INT NOT NULL,
+    table_id INT NOT NULL,
+    PRIMARY KEY (hold_id, table_id),
+    FOREIGN KEY (hold_id) REFERENCES slot_holds(id) ON DELETE CASCADE,
+    FOREIGN KEY (table_id) REFERENCES venue_tables(id) ON DELETE CASCADE,
+    INDEX idx_table (table_id)
+);
@@ -0,0 +1,37 @@
+-- Migration: Party size limits per venue/service and large-group requests
+-- Run on existing DB. min/max_party_size on venues (default 1-8, the previous fixed limit) and optional overrides on services;
+-- above the online maximum customers send a group request that the owner accepts or declines.
+
+ALTER TABLE venues
+    ADD COLUMN min_party_size INT NOT NULL DEFAULT 1 AFTER staff_assignment_strategy,
+    ADD COLUMN max_party_size INT NOT NULL DEFAULT 8 AFTER min_party_size;
+
+ALTER TABLE services
+    ADD COLUMN min_party_size INT NULL AFTER slot_interval_minutes,
+    ADD COLUMN max_party_size INT NULL AFTER min_party_size;
+
+-- Gruppenanfragen über der Online-Höchstzahl: der Owner nimmt sie mit gewählter Zeit (und Tischen) an oder lehnt ab
+CREATE TABLE IF NOT EXISTS group_requests (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    venue_id INT NOT NULL,
+    service_id INT NULL,
+    customer_id INT NULL,
+    customer_name VARCHAR(255) NOT NULL,
+    customer_email VARCHAR(255) NOT NULL,
+    customer_phone VARCHAR(50),
+    preferred_date DATE NOT NULL,
+    preferred_time VARCHAR(5),                      -- Optional: Wunschzeit (HH:MM)
+    party_size INT NOT NULL,
+    message TEXT,
+    status ENUM('pending', 'accepted', 'declined') DEFAULT 'pending',
+    booking_id INT NULL,                            -- Gesetzt, sobald der Owner die Anfrage angenommen hat
+    decline_reason VARCHAR(500),
+    decided_at TIMESTAMP NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (venue_id) REFERENCES venues(id) ON DELETE CASCADE,
+    FOREIGN KEY (service_id) REFERENCES services(id) ON DELETE SET NULL,
+    FOREIGN KEY (customer_id) REFERENCES customers(id) ON DELETE SET NULL,
+    FOREIGN KEY (booking_id) REFERENCES bookings(id) ON DELETE SET NULL,
+    INDEX idx_venue_status (venue_id, status, preferred_date)
+);
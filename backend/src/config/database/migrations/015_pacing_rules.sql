@@ -0,0 +1,20 @@
+-- Migration: Restaurant pacing (max. covers/parties starting per interval)
+-- Run on existing DB. Venues without active pacing rules keep the previous capacity-based availability.
+
+-- Ankunftssteuerung je Venue und Tageszeit (z.B. Abendservice 18:00-22:00: max. 12 Gäste und 4 Gruppen je 15 Minuten)
+CREATE TABLE IF NOT EXISTS pacing_rules (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    venue_id INT NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    day_of_week INT NULL COMMENT '0 = Sonntag ... 6 = Samstag, NULL = jeden Tag',
+    start_time VARCHAR(5) NOT NULL,
+    end_time VARCHAR(5) NOT NULL,
+    interval_minutes INT NOT NULL DEFAULT 15,
+    max_covers INT NULL COMMENT 'Max. Gäste mit Beginn im Intervall, NULL = unbegrenzt',
+    max_parties INT NULL COMMENT 'Max. Buchungen mit Beginn im Intervall, NULL = unbegrenzt',
+    is_active BOOLEAN DEFAULT TRUE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (venue_id) REFERENCES venues(id) ON DELETE CASCADE,
+    INDEX idx_venue (venue_id)
+);
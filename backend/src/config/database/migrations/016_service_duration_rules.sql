@@ -0,0 +1,15 @@
+-- Migration: Party-size-dependent booking durations
+-- Run on existing DB. Services without duration rules keep their fixed duration_minutes.
+
+-- Dauer je Personenzahl-Bereich einer Leistung (z.B. 1-2 Personen 90 Minuten, 7-10 Personen 150 Minuten)
+CREATE TABLE IF NOT EXISTS service_duration_rules (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    service_id INT NOT NULL,
+    min_party_size INT NOT NULL DEFAULT 1,
+    max_party_size INT NULL COMMENT 'NULL = ohne Obergrenze',
+    duration_minutes INT NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (service_id) REFERENCES services(id) ON DELETE CASCADE,
+    INDEX idx_service (service_id)
+);
@@ -0,0 +1,14 @@
+-- Migration: Controlled overbooking for capacity-based services
+-- Run on existing DB. Default mode 'off' keeps the previous behaviour (never more than capacity).
+-- 'fixed' allows overbooking_value extra guests per slot, 'no_show_rate' derives the extra guests from the venue's
+-- recent no-show rate; both are limited by the hard cap overbooking_cap. Services can override the venue setting (NULL = venue).
+
+ALTER TABLE venues
+    ADD COLUMN overbooking_mode ENUM('off', 'fixed', 'no_show_rate') NOT NULL DEFAULT 'off' AFTER max_party_size,
+    ADD COLUMN overbooking_value INT NOT NULL DEFAULT 0 AFTER overbooking_mode,
+    ADD COLUMN overbooking_cap INT NOT NULL DEFAULT 0 AFTER overbooking_value;
+
+ALTER TABLE services
+    ADD COLUMN overbooking_mode ENUM('off', 'fixed', 'no_show_rate') NULL AFTER max_party_size,
+    ADD COLUMN overbooking_value INT NULL AFTER overbooking_mode,
+    ADD COLUMN overbooking_cap INT NULL AFTER overbooking_value;
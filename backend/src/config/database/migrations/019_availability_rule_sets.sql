@@ -0,0 +1,21 @@
+-- Migration: Seasonal, date-ranged opening hours (availability rule sets)
+-- Run on existing DB. Existing availability_rules keep rule_set_id NULL and form the base schedule that applies
+-- whenever no rule set is in force. A rule set holds its own weekly rules (venue and staff) for valid_from..valid_until
+-- (either side may be open); when several active sets cover a date, the one with the shortest range wins.
+
+CREATE TABLE IF NOT EXISTS availability_rule_sets (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    venue_id INT NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    valid_from DATE NULL COMMENT 'NULL = ohne Anfang',
+    valid_until DATE NULL COMMENT 'NULL = ohne Ende',
+    is_active BOOLEAN DEFAULT TRUE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (venue_id) REFERENCES venues(id) ON DELETE CASCADE,
+    INDEX idx_venue (venue_id)
+);
+
+ALTER TABLE availability_rules
+    ADD COLUMN rule_set_id INT NULL COMMENT 'NULL = Grundplan' AFTER staff_member_id,
+    ADD CONSTRAINT fk_availability_rules_rule_set FOREIGN KEY (rule_set_id) REFERENCES availability_rule_sets(id) ON DELETE CASCADE;
@@ -0,0 +1,7 @@
+-- Migration: Staff-specific duration and price per service
+-- Run on existing DB. NULL keeps the service's duration and price, so existing staff-service links are unchanged.
+-- A staff duration replaces the service duration including its party-size duration rules.
+
+ALTER TABLE staff_services
+    ADD COLUMN duration_minutes INT NULL AFTER service_id,
+    ADD COLUMN price DECIMAL(10, 2) NULL AFTER duration_minutes;
@@ -0,0 +1,16 @@
+-- Migration: Subscribable iCalendar (ICS) feeds per venue and per staff member
+-- Run on existing DB. Feeds are created on first use in the owner settings; without a row there is no feed URL.
+-- The secret token is part of the feed URL; regenerating it invalidates the old URL.
+
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    venue_id INT NOT NULL,
+    staff_member_id INT NULL,
+    token VARCHAR(36) NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (venue_id) REFERENCES venues(id) ON DELETE CASCADE,
+    FOREIGN KEY (staff_member_id) REFERENCES staff_members(id) ON DELETE CASCADE,
+    UNIQUE KEY unique_token (token),
+    INDEX idx_venue (venue_id)
+);
@@ -0,0 +1,29 @@
+-- Migration: Import busy times from external calendars (ICS) per staff member
+-- Run on existing DB. Imported events block the staff member like an absence; calendars with a URL
+-- are re-imported by the cron job, uploaded files only when a new file is uploaded.
+
+CREATE TABLE IF NOT EXISTS staff_external_calendars (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    staff_member_id INT NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    url VARCHAR(500) NULL,
+    event_count INT NOT NULL DEFAULT 0,
+    last_synced_at DATETIME NULL,
+    last_error VARCHAR(255) NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (staff_member_id) REFERENCES staff_members(id) ON DELETE CASCADE,
+    INDEX idx_staff (staff_member_id)
+);
+
+CREATE TABLE IF NOT EXISTS staff_busy_times (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    calendar_id INT NOT NULL,
+    staff_member_id INT NOT NULL,
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    start_time VARCHAR(5) NULL,
+    end_time VARCHAR(5) NULL,
+    FOREIGN KEY (calendar_id) REFERENCES staff_external_calendars(id) ON DELETE CASCADE,
+    FOREIGN KEY (staff_member_id) REFERENCES staff_members(id) ON DELETE CASCADE,
+    INDEX idx_staff_dates (staff_member_id, start_date, end_date)
+);
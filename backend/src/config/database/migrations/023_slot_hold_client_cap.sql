@@ -0,0 +1,7 @@
+-- Migration: Limit active slot holds per client
+-- Run on existing DB. POST /holds stores the client IP; a client may hold only a few slots at once
+-- (SLOT_HOLD_MAX_PER_CLIENT, default 3). Existing holds keep client_ip NULL and do not count.
+
+ALTER TABLE slot_holds
+    ADD COLUMN client_ip VARCHAR(45) NULL AFTER party_size,
+    ADD INDEX idx_client_expires (client_ip, expires_at);
@@ -0,0 +1,6 @@
+-- Migration: Atomic claiming of waitlist offers
+-- Run on existing DB. Claiming an offer first switches it to 'claiming' (only while 'offered' and not expired),
+-- so concurrent claims create at most one booking; a failed booking puts the offer back to 'offered'.
+
+ALTER TABLE waitlist_entries
+    MODIFY COLUMN status ENUM('waiting', 'offered', 'claiming', 'booked', 'expired', 'cancelled') DEFAULT 'waiting';
@@ -0,0 +1,6 @@
+-- Migration: Reserve the offered slot for waitlist offers
+-- Run on existing DB. Each offer places a slot hold for the offer window, so the slot cannot be booked
+-- by someone else before the customer claims it; claiming the offer consumes the hold.
+
+ALTER TABLE waitlist_entries
+    ADD COLUMN hold_token VARCHAR(36) NULL AFTER claim_token;
@@ -17,12 +17,20 @@ CREATE TABLE venues (
     city VARCHAR(255),
     postal_code VARCHAR(20),
     country VARCHAR(3) DEFAULT 'DE',
+    timezone VARCHAR(64) NOT NULL DEFAULT 'Europe/Berlin',  -- IANA-Zeitzone; alle Termine sind Ortszeit des Venues
     description TEXT,
     image_url VARCHAR(500),
     website_url VARCHAR(500),
     booking_advance_days INT DEFAULT 30,
     booking_advance_hours INT DEFAULT 48,
     cancellation_hours INT DEFAULT 24,
+    slot_interval_minutes INT,                      -- Raster für Slot-Startzeiten (z.B. 15); NULL = Dauer des Services
+    staff_assignment_strategy ENUM('round_robin', 'least_booked', 'priority') DEFAULT 'least_booked',  -- Mitarbeiterwahl bei "egal wer"
+    min_party_size INT NOT NULL DEFAULT 1,          -- Online buchbare Personenzahl; darüber nur Gruppenanfrage
+    max_party_size INT NOT NULL DEFAULT 8,
+    overbooking_mode ENUM('off', 'fixed', 'no_show_rate') NOT NULL DEFAULT 'off',  -- Überbuchung kapazitätsbasierter Services
+    overbooking_value INT NOT NULL DEFAULT 0,       -- 'fixed': zusätzliche Gäste je Slot
+    overbooking_cap INT NOT NULL DEFAULT 0,         -- Obergrenze der zusätzlichen Gäste je Slot (gilt für beide Modi)
     require_phone BOOLEAN DEFAULT FALSE,
     require_deposit BOOLEAN DEFAULT FALSE,
     deposit_amount DECIMAL(10, 2),
@@ -40,6 +48,7 @@ CREATE TABLE staff_members (
     email VARCHAR(255),
     phone VARCHAR(20),
     description TEXT,
+    assignment_priority INT DEFAULT 0,              -- Höher = wird bei Strategie 'priority' zuerst vergeben
     is_active BOOLEAN DEFAULT TRUE,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
@@ -56,6 +65,14 @@ CREATE TABLE services (
     price DECIMAL(10, 2),
     capacity INT DEFAULT 1,
     requires_staff BOOLEAN DEFAULT FALSE,
+    buffer_before_minutes INT NOT NULL DEFAULT 0,   -- Vorbereitungszeit vor dem Termin (blockiert Mitarbeiter, nicht für Kunden sichtbar)
+    buffer_after_minutes INT NOT NULL DEFAULT 0,    -- Aufräum-/Reinigungszeit nach dem Termin
+    slot_interval_minutes INT,                      -- Überschreibt das Slot-Raster des Venues; NULL = Venue-Einstellung
+    min_party_size INT,                             -- Überschreibt die Personenzahl-Grenzen des Venues; NULL = Venue-Einstellung
+    max_party_size INT,
+    overbooking_mode ENUM('off', 'fixed', 'no_show_rate'),  -- Überschreibt die Überbuchung des Venues; NULL = Venue-Einstellung
+    overbooking_value INT,
+    overbooking_cap INT,
     is_active BOOLEAN DEFAULT TRUE,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
@@ -67,24 +84,75 @@ CREATE TABLE staff_services (
     id INT AUTO_INCREMENT PRIMARY KEY,
     staff_member_id INT NOT NULL,
     service_id INT NOT NULL,
+    duration_minutes INT,                           -- Überschreibt die Dauer der Leistung für diesen Mitarbeiter; NULL = Leistung
+    price DECIMAL(10, 2),                           -- Überschreibt den Preis der Leistung für diesen Mitarbeiter; NULL = Leistung
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     FOREIGN KEY (staff_member_id) REFERENCES staff_members(id) ON DELETE CASCADE,
     FOREIGN KEY (service_id) REFERENCES services(id) ON DELETE CASCADE,
     UNIQUE KEY unique_staff_service (staff_member_id, service_id)
 );
 
+-- Dauer je Personenzahl-Bereich einer Leistung (ohne passende Regel gilt services.duration_minutes)
+CREATE TABLE service_duration_rules (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    service_id INT NOT NULL,
+    min_party_size INT NOT NULL DEFAULT 1,
+    max_party_size INT NULL COMMENT 'NULL = ohne Obergrenze',
+    duration_minutes INT NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (service_id) REFERENCES services(id) ON DELETE CASCADE,
+    INDEX idx_service (service_id)
+);
+
+-- Saisonale Zeitpläne: Wochenregeln mit Gültigkeitszeitraum (z. B. Sommer/Winter), gelten für Venue und Mitarbeiter.
+-- Regeln ohne rule_set_id sind der Grundplan; bei überlappenden Zeiträumen gilt der kürzeste (spezifischste)
+CREATE TABLE availability_rule_sets (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    venue_id INT NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    valid_from DATE NULL COMMENT 'NULL = ohne Anfang',
+    valid_until DATE NULL COMMENT 'NULL = ohne Ende',
+    is_active BOOLEAN DEFAULT TRUE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (venue_id) REFERENCES venues(id) ON DELETE CASCADE,
+    INDEX idx_venue (venue_id)
+);
+
 -- Availability rules table
 CREATE TABLE availability_rules (
     id INT AUTO_INCREMENT PRIMARY KEY,
     venue_id INT,
     staff_member_id INT,
+    rule_set_id INT NULL COMMENT 'NULL = Grundplan',
     day_of_week INT NOT NULL,
     start_time VARCHAR(5) NOT NULL,
     end_time VARCHAR(5) NOT NULL,
     is_active BOOLEAN DEFAULT TRUE,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     FOREIGN KEY (venue_id) REFERENCES venues(id) ON DELETE CASCADE,
-    FOREIGN KEY (staff_member_id) REFERENCES staff_members(id) ON DELETE CASCADE
+    FOREIGN KEY (staff_member_id) REFERENCES staff_members(id) ON DELETE CASCADE,
+    FOREIGN KEY (rule_set_id) REFERENCES availability_rule_sets(id) ON DELETE CASCADE
+);
+
+
+-- Sonderverfügbarkeit: Schließungen/Feiertage/Urlaub oder zusätzliche Öffnungszeiten an einem Datum
+-- (venue_id ODER staff_member_id gesetzt, analog availability_rules; ohne start/end_time = ganztägig)
+CREATE TABLE special_availability (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    venue_id INT,
+    staff_member_id INT,
+    date DATE NOT NULL,
+    start_time VARCHAR(5),
+    end_time VARCHAR(5),
+    is_available BOOLEAN NOT NULL DEFAULT FALSE,
+    reason VARCHAR(255),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (venue_id) REFERENCES venues(id) ON DELETE CASCADE,
+    FOREIGN KEY (staff_member_id) REFERENCES staff_members(id) ON DELETE CASCADE,
+    INDEX idx_venue_date (venue_id, date),
+    INDEX idx_staff_date (staff_member_id, date)
 );
 
 
@@ -107,6 +175,28 @@ CREATE TABLE customers (
     INDEX idx_verification_token (verification_token)
 );
 
+-- Terminserien (Stammkunden: z. B. alle N Wochen am selben Wochentag zur selben Zeit beim selben Mitarbeiter).
+-- Jeder Termin ist eine eigene Buchung mit series_id/series_index; die Serie hält nur die Regel.
+CREATE TABLE booking_series (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  venue_id INT NOT NULL,
+  service_id INT NOT NULL,
+  staff_member_id INT,
+  customer_id INT NULL,
+  customer_email VARCHAR(255) NOT NULL,
+  interval_weeks INT NOT NULL DEFAULT 1,
+  start_date DATE NOT NULL,
+  end_date DATE NULL,                -- Serie bis einschließlich Datum …
+  occurrence_count INT NULL,         -- … oder feste Anzahl Termine
+  start_time VARCHAR(5) NOT NULL,
+  end_time VARCHAR(5) NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (venue_id) REFERENCES venues(id) ON DELETE CASCADE,
+  FOREIGN KEY (service_id) REFERENCES services(id) ON DELETE CASCADE,
+  FOREIGN KEY (staff_member_id) REFERENCES staff_members(id) ON DELETE SET NULL,
+  FOREIGN KEY (customer_id) REFERENCES customers(id) ON DELETE SET NULL
+);
+
 -- Bookings table (booking_token wird von der Anwendung beim Anlegen gesetzt)
 CREATE TABLE bookings (
   id INT AUTO_INCREMENT PRIMARY KEY,
@@ -131,16 +221,214 @@ CREATE TABLE bookings (
   reminder_sent_at DATETIME,
   cancelled_at DATETIME,
   cancellation_reason VARCHAR(255),
+  series_id INT NULL,                -- Termin einer Serie (booking_series)
+  series_index INT NULL,             -- Position in der Serie (0 = erster Termin)
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
   updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
   FOREIGN KEY (customer_id) REFERENCES customers(id) ON DELETE SET NULL,
   FOREIGN KEY (venue_id) REFERENCES venues(id) ON DELETE CASCADE,
   FOREIGN KEY (service_id) REFERENCES services(id) ON DELETE CASCADE,
   FOREIGN KEY (staff_member_id) REFERENCES staff_members(id) ON DELETE SET NULL,
+  FOREIGN KEY (series_id) REFERENCES booking_series(id) ON DELETE SET NULL,
   INDEX idx_customer_id (customer_id),
   INDEX idx_customer_email (customer_email),
   INDEX idx_booking_date (booking_date),
-  INDEX idx_status (status)
+  INDEX idx_status (status),
+  INDEX idx_series (series_id, series_index)
+);
+
+-- Einzelne Leistungen einer Buchung mit mehreren Leistungen (z. B. Schnitt → Farbe → Föhnen).
+-- bookings.service_id/staff_member_id entsprechen dem ersten Schritt, start_time/end_time umfassen die ganze Kette.
+CREATE TABLE booking_items (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    booking_id INT NOT NULL,
+    position INT NOT NULL DEFAULT 0,
+    service_id INT NOT NULL,
+    staff_member_id INT,
+    start_time VARCHAR(5) NOT NULL,
+    end_time VARCHAR(5) NOT NULL,
+    duration_minutes INT NOT NULL,
+    price DECIMAL(10, 2),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (booking_id) REFERENCES bookings(id) ON DELETE CASCADE,
+    FOREIGN KEY (service_id) REFERENCES services(id) ON DELETE CASCADE,
+    FOREIGN KEY (staff_member_id) REFERENCES staff_members(id) ON DELETE SET NULL,
+    INDEX idx_booking (booking_id),
+    INDEX idx_staff (staff_member_id)
+);
+
+-- Tische eines Venues (Restaurant): Plätze min/max, Bereich (z. B. Terrasse, Innen), kombinierbare Gruppen
+CREATE TABLE venue_tables (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    venue_id INT NOT NULL,
+    name VARCHAR(50) NOT NULL,
+    area VARCHAR(100),
+    min_seats INT NOT NULL DEFAULT 1,
+    max_seats INT NOT NULL,
+    combine_group VARCHAR(50) COMMENT 'Tische derselben Gruppe können zusammengestellt werden',
+    is_active BOOLEAN DEFAULT TRUE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (venue_id) REFERENCES venues(id) ON DELETE CASCADE,
+    INDEX idx_venue (venue_id)
+);
+
+-- Zugewiesene Tische je Buchung (mehrere bei Tischkombination)
+CREATE TABLE booking_tables (
+    booking_id INT NOT NULL,
+    table_id INT NOT NULL,
+    PRIMARY KEY (booking_id, table_id),
+    FOREIGN KEY (booking_id) REFERENCES bookings(id) ON DELETE CASCADE,
+    FOREIGN KEY (table_id) REFERENCES venue_tables(id) ON DELETE CASCADE,
+    INDEX idx_table (table_id)
+);
+
+-- Gemeinsam genutzte Ressourcen eines Venues (Räume, Stühle, Geräte) mit Anzahl gleichwertiger Einheiten,
+-- z. B. 1 Paarraum oder 3 Waschbecken
+CREATE TABLE resources (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    venue_id INT NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    quantity INT NOT NULL DEFAULT 1,
+    is_active BOOLEAN DEFAULT TRUE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (venue_id) REFERENCES venues(id) ON DELETE CASCADE,
+    INDEX idx_venue (venue_id)
+);
+
+-- Benötigte Einheiten je Ressource und Leistung (für die ganze Dauer inkl. Puffer)
+CREATE TABLE service_resources (
+    service_id INT NOT NULL,
+    resource_id INT NOT NULL,
+    quantity INT NOT NULL DEFAULT 1,
+    PRIMARY KEY (service_id, resource_id),
+    FOREIGN KEY (service_id) REFERENCES services(id) ON DELETE CASCADE,
+    FOREIGN KEY (resource_id) REFERENCES resources(id) ON DELETE CASCADE,
+    INDEX idx_resource (resource_id)
+);
+
+-- Belegte Ressourcen je Buchung; bei mehreren Leistungen je Schritt mit dessen Zeit und Service
+CREATE TABLE booking_resources (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    booking_id INT NOT NULL,
+    resource_id INT NOT NULL,
+    service_id INT NOT NULL,
+    quantity INT NOT NULL DEFAULT 1,
+    start_time VARCHAR(5) NOT NULL,
+    end_time VARCHAR(5) NOT NULL,
+    FOREIGN KEY (booking_id) REFERENCES bookings(id) ON DELETE CASCADE,
+    FOREIGN KEY (resource_id) REFERENCES resources(id) ON DELETE CASCADE,
+    FOREIGN KEY (service_id) REFERENCES services(id) ON DELETE CASCADE,
+    INDEX idx_booking (booking_id),
+    INDEX idx_resource (resource_id)
+);
+
+-- Ankunftssteuerung (Pacing) je Venue und Tageszeit: max. Gäste/Gruppen mit Beginn im selben Intervall
+-- (z.B. Abendservice 18:00-22:00: max. 12 Gäste und 4 Gruppen je 15 Minuten); gilt für kapazitätsbasierte Services
+CREATE TABLE pacing_rules (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    venue_id INT NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    day_of_week INT NULL COMMENT '0 = Sonntag ... 6 = Samstag, NULL = jeden Tag',
+    start_time VARCHAR(5) NOT NULL,
+    end_time VARCHAR(5) NOT NULL,
+    interval_minutes INT NOT NULL DEFAULT 15,
+    max_covers INT NULL COMMENT 'Max. Gäste mit Beginn im Intervall, NULL = unbegrenzt',
+    max_parties INT NULL COMMENT 'Max. Buchungen mit Beginn im Intervall, NULL = unbegrenzt',
+    is_active BOOLEAN DEFAULT TRUE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (venue_id) REFERENCES venues(id) ON DELETE CASCADE,
+    INDEX idx_venue (venue_id)
+);
+
+-- Warteliste für ausgebuchte Tage: bei frei werdender Kapazität wird der Reihe nach ein Termin angeboten
+CREATE TABLE waitlist_entries (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    venue_id INT NOT NULL,
+    service_id INT NOT NULL,
+    customer_id INT NULL,
+    customer_name VARCHAR(255) NOT NULL,
+    customer_email VARCHAR(255) NOT NULL,
+    customer_phone VARCHAR(50),
+    date DATE NOT NULL,
+    time_from VARCHAR(5),                           -- Optionales Zeitfenster (HH:MM); NULL = ganzer Tag
+    time_to VARCHAR(5),
+    party_size INT NOT NULL DEFAULT 1,
+    status ENUM('waiting', 'offered', 'claiming', 'booked', 'expired', 'cancelled') DEFAULT 'waiting',  -- 'claiming': Buchung aus dem Angebot wird gerade angelegt
+    claim_token VARCHAR(36) UNIQUE,                 -- Link aus der Angebots-E-Mail
+    hold_token VARCHAR(36) NULL,                    -- Slot-Hold, der den angebotenen Termin bis zum Ablauf reserviert
+    offered_start_time VARCHAR(5),
+    offered_end_time VARCHAR(5),
+    offer_expires_at DATETIME,
+    booking_id INT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (venue_id) REFERENCES venues(id) ON DELETE CASCADE,
+    FOREIGN KEY (service_id) REFERENCES services(id) ON DELETE CASCADE,
+    FOREIGN KEY (customer_id) REFERENCES customers(id) ON DELETE SET NULL,
+    FOREIGN KEY (booking_id) REFERENCES bookings(id) ON DELETE SET NULL,
+    INDEX idx_venue_service_date (venue_id, service_id, date, status),
+    INDEX idx_status_expires (status, offer_expires_at)
+);
+
+-- Gruppenanfragen über der Online-Höchstzahl: der Owner nimmt sie mit gewählter Zeit (und Tischen) an oder lehnt ab
+CREATE TABLE group_requests (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    venue_id INT NOT NULL,
+    service_id INT NULL,
+    customer_id INT NULL,
+    customer_name VARCHAR(255) NOT NULL,
+    customer_email VARCHAR(255) NOT NULL,
+    customer_phone VARCHAR(50),
+    preferred_date DATE NOT NULL,
+    preferred_time VARCHAR(5),                      -- Optional: Wunschzeit (HH:MM)
+    party_size INT NOT NULL,
+    message TEXT,
+    status ENUM('pending', 'accepted', 'declined') DEFAULT 'pending',
+    booking_id INT NULL,                            -- Gesetzt, sobald der Owner die Anfrage angenommen hat
+    decline_reason VARCHAR(500),
+    decided_at TIMESTAMP NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (venue_id) REFERENCES venues(id) ON DELETE CASCADE,
+    FOREIGN KEY (service_id) REFERENCES services(id) ON DELETE SET NULL,
+    FOREIGN KEY (customer_id) REFERENCES customers(id) ON DELETE SET NULL,
+    FOREIGN KEY (booking_id) REFERENCES bookings(id) ON DELETE SET NULL,
+    INDEX idx_venue_status (venue_id, status, preferred_date)
+);
+
+-- Vorläufige Reservierung eines Slots während des Checkouts; zählt bis expires_at als belegt
+CREATE TABLE slot_holds (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    hold_token VARCHAR(36) NOT NULL UNIQUE,
+    venue_id INT NOT NULL,
+    service_id INT NOT NULL,
+    staff_member_id INT NULL,
+    hold_date DATE NOT NULL,
+    start_time VARCHAR(5) NOT NULL,
+    end_time VARCHAR(5) NOT NULL,
+    party_size INT NOT NULL DEFAULT 1,
+    client_ip VARCHAR(45) NULL,                     -- IP des Kunden; begrenzt aktive Holds je Client
+    expires_at DATETIME NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (venue_id) REFERENCES venues(id) ON DELETE CASCADE,
+    FOREIGN KEY (service_id) REFERENCES services(id) ON DELETE CASCADE,
+    FOREIGN KEY (staff_member_id) REFERENCES staff_members(id) ON DELETE CASCADE,
+    INDEX idx_venue_date_expires (venue_id, hold_date, expires_at),
+    INDEX idx_client_expires (client_ip, expires_at),
+    INDEX idx_expires (expires_at)
+);
+
+-- Tische, die ein Slot-Hold vorläufig belegt
+CREATE TABLE slot_hold_tables (
+    hold_id INT NOT NULL,
+    table_id INT NOT NULL,
+    PRIMARY KEY (hold_id, table_id),
+    FOREIGN KEY (hold_id) REFERENCES slot_holds(id) ON DELETE CASCADE,
+    FOREIGN KEY (table_id) REFERENCES venue_tables(id) ON DELETE CASCADE,
+    INDEX idx_table (table_id)
 );
 
 -- Users table (Dashboard-Login: Owner/Staff/System-Admin)
@@ -158,6 +446,70 @@ CREATE TABLE users (
     FOREIGN KEY (venue_id) REFERENCES venues(id) ON DELETE SET NULL
 );
 
+-- Abwesenheiten (Pause, Arzttermin, Urlaub) und Schichtänderungen einzelner Mitarbeiter für einen Datumsbereich
+-- time_off: nicht verfügbar (ohne start/end_time = ganztägig); shift: ersetzt an diesen Tagen die Wochenregeln
+CREATE TABLE staff_schedule_overrides (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    staff_member_id INT NOT NULL,
+    type ENUM('time_off', 'shift') NOT NULL DEFAULT 'time_off',
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    start_time VARCHAR(5),
+    end_time VARCHAR(5),
+    reason VARCHAR(255),
+    approved_by INT,                                -- Owner, der den Eintrag angelegt/freigegeben hat
+    approved_at TIMESTAMP NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (staff_member_id) REFERENCES staff_members(id) ON DELETE CASCADE,
+    FOREIGN KEY (approved_by) REFERENCES users(id) ON DELETE SET NULL,
+    INDEX idx_staff_dates (staff_member_id, start_date, end_date)
+);
+
+-- Abonnierbare Kalender-Feeds (ICS) je Venue bzw. Mitarbeiter; der geheime token ist Teil der Feed-URL
+-- und kann vom Owner neu erzeugt werden (alte URL wird damit ungültig)
+CREATE TABLE calendar_feeds (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    venue_id INT NOT NULL,
+    staff_member_id INT,                            -- NULL = Feed des ganzen Venues
+    token VARCHAR(36) NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    FOREIGN KEY (venue_id) REFERENCES venues(id) ON DELETE CASCADE,
+    FOREIGN KEY (staff_member_id) REFERENCES staff_members(id) ON DELETE CASCADE,
+    UNIQUE KEY unique_token (token),
+    INDEX idx_venue (venue_id)
+);
+
+-- Externe Kalender eines Mitarbeiters (ICS), z. B. für eine zweite Arbeitsstelle: Termine darin blockieren seine Verfügbarkeit.
+-- Mit url wird der Kalender per Cron regelmäßig neu eingelesen; ohne url stammt er aus einer hochgeladenen Datei.
+CREATE TABLE staff_external_calendars (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    staff_member_id INT NOT NULL,
+    name VARCHAR(100) NOT NULL,
+    url VARCHAR(500),                               -- NULL = hochgeladene Datei (kein erneuter Abruf)
+    event_count INT NOT NULL DEFAULT 0,             -- Anzahl eingelesener Termine beim letzten Import
+    last_synced_at DATETIME,
+    last_error VARCHAR(255),                        -- Fehler beim letzten Abruf; die zuvor eingelesenen Termine bleiben gültig
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (staff_member_id) REFERENCES staff_members(id) ON DELETE CASCADE,
+    INDEX idx_staff (staff_member_id)
+);
+
+-- Belegte Zeiten aus externen Kalendern (Ortszeit des Venues), aufgebaut wie eine Abwesenheit in staff_schedule_overrides:
+-- gilt an jedem Tag von start_date bis end_date, ohne Zeiten ganztägig; end_time 00:00 = bis Mitternacht
+CREATE TABLE staff_busy_times (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    calendar_id INT NOT NULL,
+    staff_member_id INT NOT NULL,
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    start_time VARCHAR(5),
+    end_time VARCHAR(5),
+    FOREIGN KEY (calendar_id) REFERENCES staff_external_calendars(id) ON DELETE CASCADE,
+    FOREIGN KEY (staff_member_id) REFERENCES staff_members(id) ON DELETE CASCADE,
+    INDEX idx_staff_dates (staff_member_id, start_date, end_date)
+);
+
 -- Customer preferences
 CREATE TABLE customer_preferences (
     customer_id INT PRIMARY KEY,
@@ -241,7 +593,7 @@ CREATE TABLE booking_audit_log (
     id INT AUTO_INCREMENT PRIMARY KEY,
     booking_id INT NOT NULL,
     venue_id INT NOT NULL,
-    action VARCHAR(50) NOT NULL COMMENT 'status_change, cancel, update',
+    action VARCHAR(50) NOT NULL COMMENT 'status_change, cancel, update, staff_assigned',
     old_status VARCHAR(20) NULL,
     new_status VARCHAR(20) NULL,
     reason VARCHAR(255) NULL COMMENT 'Allgemeiner Grund/Kommentar',
@@ -0,0 +1,147 @@
+// config/utils/timezone.ts
+
+/**
+ * Zeitzonen-Hilfen: Termine werden als Ortszeit des Venues gespeichert (booking_date + start_time),
+ * "jetzt" und "heute" müssen daher immer in der Zeitzone des Venues berechnet werden –
+ * unabhängig von der Server-Zeitzone (z. B. UTC auf Railway) und inkl. Sommer-/Winterzeit.
+ */
+
+/** Fallback für Venues ohne (gültige) Zeitzone */
+export const DEFAULT_TIMEZONE = process.env.DEFAULT_TIMEZONE || 'Europe/Berlin';
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat
+{
+    let formatter = formatterCache.get(timeZone);
+    if (!formatter)
+    {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            year: 'numeric', month: '2-digit', day: '2-digit',
+            hour: '2-digit', minute: '2-digit', second: '2-digit'
+        });
+        formatterCache.set(timeZone, formatter);
+    }
+    return formatter;
+}
+
+/**
+ * Prüft ob ein IANA-Zeitzonenname gültig ist
+ *
+ * @example
+ * isValidTimeZone('Europe/Berlin') // true
+ * isValidTimeZone('Mars/Olympus') // false
+ */
+export function isValidTimeZone(timeZone: string | null | undefined): boolean
+{
+    if (!timeZone) return false;
+    try
+    {
+        getFormatter(timeZone);
+        return true;
+    }
+    catch
+    {
+        return false;
+    }
+}
+
+/** Gibt die Zeitzone des Venues zurück, bei fehlender/ungültiger Angabe DEFAULT_TIMEZONE */
+export function resolveTimeZone(timeZone: string | null | undefined): string
+{
+    return timeZone && isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIMEZONE;
+}
+
+/**
+ * Ortszeit eines Zeitpunkts in der Zeitzone
+ *
+ * @returns date (YYYY-MM-DD) und time (HH:MM:SS)
+ */
+export function getZonedDateTime(timeZone: string | null | undefined, instant: Date = new Date()): { date: string; time: string }
+{
+    const parts: Record<string, string> = {};
+    for (const part of getFormatter(resolveTimeZone(timeZone)).formatToParts(instant)) parts[part.type] = part.value;
+    return {
+        date: `${parts.year}-${parts.month}-${parts.day}`,
+        time: `${parts.hour}:${parts.minute}:${parts.second}`
+    };
+}
+
+/** Heutiges Datum (YYYY-MM-DD) in der Zeitzone des Venues */
+export function getZonedToday(timeZone: string | null | undefined): string
+{
+    return getZonedDateTime(timeZone).date;
+}
+
+/** Abstand der Zeitzone zu UTC in Minuten zu einem Zeitpunkt (z. B. +120 für Sommerzeit in Berlin) */
+function getOffsetMinutes(timeZone: string, instant: number): number
+{
+    const { date, time } = getZonedDateTime(timeZone, new Date(instant));
+    const asUtc = Date.parse(`${date}T${time}Z`);
+    return Math.round((asUtc - Math.floor(instant / 1000) * 1000) / 60000);
+}
+
+/**
+ * Wandelt eine Ortszeit des Venues in einen absoluten Zeitpunkt um.
+ * Bei der Zeitumstellung wird eine nicht existierende Zeit (Lücke) nach vorne verschoben,
+ * eine doppelte Zeit (Überlappung) als Normalzeit (zweites Auftreten) interpretiert.
+ *
+ * @param date - YYYY-MM-DD
+ * @param time - HH:MM oder HH:MM:SS
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string | null | undefined): Date
+{
+    const tz = resolveTimeZone(timeZone);
+    const normalizedTime = time.length === 5 ? `${time}:00` : time;
+    const wallClock = Date.parse(`${date}T${normalizedTime}Z`);
+
+    const firstOffset = getOffsetMinutes(tz, wallClock);
+    let instant = wallClock - firstOffset * 60000;
+    const secondOffset = getOffsetMinutes(tz, instant);
+    if (secondOffset !== firstOffset)
+    {
+        // Zeitumstellung zwischen Schätzung und Ergebnis: mit dem tatsächlichen Offset neu rechnen
+        const corrected = wallClock - secondOffset * 60000;
+        instant = getOffsetMinutes(tz, corrected) === secondOffset ? corrected : Math.max(instant, corrected);
+    }
+    return new Date(instant);
+}
+
+/** Stunden von jetzt bis zu einer Ortszeit des Venues (negativ = vergangen) */
+export function hoursUntil(date: string, time: string, timeZone: string | null | undefined, now: number = Date.now()): number
+{
+    return (zonedTimeToUtc(date, time, timeZone).getTime() - now) / (1000 * 60 * 60);
+}
+
+/** Addiert Tage zu einem Datum (YYYY-MM-DD) ohne Zeitzonen-Einfluss */
+export function addDaysToDate(date: string, days: number): string
+{
+    const d = new Date(`${date}T00:00:00Z`);
+    d.setUTCDate(d.getUTCDate() + days);
+    return d.toISOString().split('T')[0];
+}
+
+/** Anzahl Tage von einem Datum bis zu einem anderen (YYYY-MM-DD), negativ wenn "to" davor liegt */
+export function getDaysBetween(from: string, to: string): number
+{
+    return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / (24 * 60 * 60 * 1000));
+}
+
+/** Wochentag eines Datums (0 = Sonntag, 1 = Montag, ...) ohne Zeitzonen-Einfluss */
+export function getDayOfWeek(date: string): number
+{
+    return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+/**
+ * Datum, an dem ein Termin endet: liegt end_time nicht nach start_time, läuft er über Mitternacht
+ *
+ * @example
+ * getEndDate('2025-03-07', '23:00', '01:00') // '2025-03-08'
+ */
+export function getEndDate(date: string, startTime: string, endTime: string): string
+{
+    return endTime.slice(0, 5) <= startTime.slice(0, 5) ? addDaysToDate(date, 1) : date;
+}
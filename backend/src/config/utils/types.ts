@@ -17,12 +17,49 @@ export interface Service {
   price?: number;
   capacity: number;
   requires_staff: boolean;
+  buffer_before_minutes?: number;   // Puffer vor dem Termin (nur intern, nicht Teil der Kundenzeit)
+  buffer_after_minutes?: number;    // Puffer nach dem Termin (z.B. Reinigung)
+  slot_interval_minutes?: number | null;  // Raster der Startzeiten; null = Venue-Einstellung
+  min_party_size?: number | null;   // Online buchbare Personenzahl; null = Venue-Einstellung
+  max_party_size?: number | null;
+  overbooking_mode?: OverbookingMode | null;   // null = Venue-Einstellung
+  overbooking_value?: number | null;
+  overbooking_cap?: number | null;
+  duration_rules?: ServiceDurationRule[];   // Dauer je Personenzahl (Owner-Ansicht)
+  resources?: ServiceResourceRequirement[]; // Benötigte Ressourcen (Owner-Ansicht)
+  staff?: StaffServiceLink[];               // Mitarbeiter mit abweichender Dauer/Preis (Owner-Ansicht)
+  price_from?: number | null;               // Niedrigster Preis über alle Mitarbeiter (öffentliche Ansicht)
   is_active: boolean;
   created_at: Date;
   updated_at: Date;
 }
 
 
+/**
+ * Dauer einer Leistung je Personenzahl-Bereich (z.B. 2 Personen 90 Minuten, 8 Personen 150 Minuten).
+ * Ohne passende Regel gilt duration_minutes der Leistung.
+ */
+export interface ServiceDurationRule {
+  id: number;
+  service_id: number;
+  min_party_size: number;
+  max_party_size: number | null;  // null = ohne Obergrenze
+  duration_minutes: number;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+/**
+ * Mitarbeiter, der eine Leistung anbietet (staff_services), mit optional abweichender Dauer und abweichendem Preis,
+ * z.B. Senior-Stylistin teurer, Auszubildende länger. null = Wert der Leistung; eine abweichende Dauer ersetzt auch die Dauer-Regeln.
+ */
+export interface StaffServiceLink {
+  staff_member_id: number;
+  staff_member_name?: string;
+  duration_minutes: number | null;
+  price: number | null;
+}
+
 // Staff-Member Types (DB/API verwenden venue_id)
 export interface StaffMember {
   id: number;
@@ -31,6 +68,7 @@ export interface StaffMember {
   email?: string;
   phone?: string;
   description?: string;
+  assignment_priority?: number;     // Höher = wird bei Strategie 'priority' zuerst vergeben
   is_active: boolean;
   created_at: Date;
   updated_at: Date;
@@ -38,6 +76,13 @@ export interface StaffMember {
 
  
 // Venue Types
+
+/** Wie bei "egal wer" ein Mitarbeiter vergeben wird */
+export type StaffAssignmentStrategy = 'round_robin' | 'least_booked' | 'priority';
+
+/** Überbuchung kapazitätsbasierter Services: aus, feste Zahl zusätzlicher Gäste oder aus der No-Show-Quote des Venues */
+export type OverbookingMode = 'off' | 'fixed' | 'no_show_rate';
+
 export interface Venue {
     id: number;
     name: string;
@@ -48,12 +93,20 @@ export interface Venue {
     city?: string;
     postal_code?: string;
     country: string;
+    timezone: string;                      // IANA-Zeitzone (z.B. Europe/Berlin); alle Termine sind Ortszeit des Venues
     description?: string;
     image_url?: string;
     website_url?: string;
     booking_advance_days: number;
     booking_advance_hours: number;         // Mindestvorlaufzeit für Kundenbuchungen (z.B. 48 Stunden)
     cancellation_hours: number;
+    slot_interval_minutes?: number | null; // Raster für Slot-Startzeiten (z.B. alle 15 Min.); null = Service-Dauer
+    staff_assignment_strategy?: StaffAssignmentStrategy;  // Mitarbeiterwahl bei Buchungen ohne Mitarbeiterwunsch
+    min_party_size: number;                // Online buchbare Personenzahl; darüber nur Gruppenanfrage
+    max_party_size: number;
+    overbooking_mode: OverbookingMode;     // Überbuchung je Slot, begrenzt durch overbooking_cap
+    overbooking_value: number;             // 'fixed': zusätzliche Gäste je Slot
+    overbooking_cap: number;               // Obergrenze zusätzlicher Gäste je Slot
     require_phone: boolean;
     require_deposit: boolean;
     deposit_amount?: number;
@@ -85,12 +138,272 @@ export interface TimeSlot {
   remaining_capacity?: number;
 }
 
+/**
+ * Zeitraum in Minuten relativ zu Mitternacht eines Bezugstags.
+ * Kann über den Tag hinausreichen (z. B. 18:00–02:00 → 1080–1560, Vortag 22:00 → -120).
+ */
+export interface MinuteRange {
+  start: number;
+  end: number;
+}
+
 export interface DayAvailability {
   date: string;
   day_of_week: number;
   time_slots: TimeSlot[];
 }
 
+/** Möglicher Start für mehrere Leistungen nacheinander (Leistungskette) inkl. geplanter Schritte */
+export interface ServiceChainSlot {
+  start_time: string;
+  end_time: string;               // Ende der letzten Leistung
+  total_price: number;
+  items: ServiceChainItem[];
+}
+
+/** Tagesstatus im Monatsüberblick: geschlossen/nicht buchbar, ausgebucht oder mit freien Startzeiten */
+export type MonthDayStatus = 'closed' | 'full' | 'available';
+
+export interface MonthDayAvailability {
+  date: string;
+  day_of_week: number;
+  status: MonthDayStatus;
+  available_slots: number;        // Anzahl freier Startzeiten für Service und Personenzahl
+}
+
+/** Monatsüberblick für den Buchungskalender (ein Eintrag je Tag des Monats) */
+export interface MonthAvailability {
+  month: string;                  // YYYY-MM
+  service_id: number;
+  party_size: number;
+  first_available_date: string | null;
+  days: MonthDayAvailability[];
+}
+
+/** Frühester buchbarer Slot ab einem Datum */
+export interface NextAvailableSlot {
+  date: string;
+  start_time: string;
+  end_time: string;
+  remaining_capacity?: number;
+}
+
+/**
+ * Grund, aus dem ein Slot nicht buchbar ist (Diagnose für Owner):
+ * outside_rules = außerhalb der Wochenregeln/Schicht, closure = Schließung, Ausnahme oder Abwesenheit,
+ * off_grid = liegt nicht im Slot-Raster des Tages, past/advance_notice/booking_window = Vorlauf und Buchungszeitraum,
+ * party_size = Personenzahl außerhalb der Online-Grenzen, capacity/staff_booked/no_table/resource/pacing = Belegung
+ */
+export type SlotRejectionCode =
+  | 'outside_rules'
+  | 'closure'
+  | 'off_grid'
+  | 'past'
+  | 'advance_notice'
+  | 'booking_window'
+  | 'party_size'
+  | 'capacity'
+  | 'staff_booked'
+  | 'no_table'
+  | 'resource'
+  | 'pacing'
+  | 'hold';
+
+export interface SlotRejection {
+  code: SlotRejectionCode;
+  message: string;
+  booking_ids?: number[];         // beteiligte Buchungen (Slot-Holds stehen im Grund 'hold')
+}
+
+/** Geprüfter Kandidat mit allen Ablehnungsgründen (available = keine Gründe) */
+export interface SlotExplanation {
+  start_time: string;
+  end_time: string;
+  staff_member_id?: number;
+  available: boolean;
+  remaining_capacity?: number;
+  reasons: SlotRejection[];
+}
+
+/** Erklärung der Verfügbarkeit eines Tages für Service, Personenzahl und ggf. Mitarbeiter */
+export interface AvailabilityExplanation {
+  date: string;
+  service_id: number;
+  staff_member_id: number | null;
+  party_size: number;
+  duration_minutes: number;      // Dauer für die Personenzahl (Mitarbeiter können abweichen)
+  candidates: SlotExplanation[];
+}
+
+/**
+ * Saisonaler Zeitplan mit eigenen Wochenregeln für valid_from bis valid_until (je inkl., null = offen).
+ * Greifen an einem Datum mehrere aktive Zeitpläne, gilt der mit dem kürzesten Zeitraum; ohne Zeitplan der Grundplan.
+ */
+export interface AvailabilityRuleSet {
+  id: number;
+  venue_id: number;
+  name: string;
+  valid_from: string | null;
+  valid_until: string | null;
+  is_active: boolean;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+/** Sonderverfügbarkeit an einem Datum (Schließung/Urlaub oder zusätzliches Öffnungsfenster) */
+export interface SpecialAvailability {
+  id: number;
+  venue_id: number | null;
+  staff_member_id: number | null;
+  date: string;
+  start_time: string | null;      // null = ganztägig
+  end_time: string | null;
+  is_available: boolean;          // false = geschlossen, true = zusätzlich geöffnet
+  reason?: string | null;
+  created_at?: Date;
+}
+
+/**
+ * Abwesenheit oder Schichtänderung eines Mitarbeiters für einen Datumsbereich (start_date bis end_date, je inkl.)
+ * time_off: nicht verfügbar (ohne Zeiten = ganztägig, mit Zeiten z. B. Pause 12:00–13:00 an jedem Tag)
+ * shift: an diesen Tagen gelten statt der Wochenregeln die angegebenen Zeiten
+ */
+export type StaffScheduleOverrideType = 'time_off' | 'shift';
+
+export interface StaffScheduleOverride {
+  id: number;
+  staff_member_id: number;
+  type: StaffScheduleOverrideType;
+  start_date: string;
+  end_date: string;
+  start_time: string | null;
+  end_time: string | null;
+  reason?: string | null;
+  approved_by?: number | null;
+  approved_at?: Date | null;
+  created_at?: Date;
+}
+
+/** Offener Termin, der nicht mehr in die Arbeitszeiten seines Mitarbeiters passt (z. B. nach neuer Abwesenheit) */
+export interface StaffScheduleConflict {
+  booking_id: number;
+  booking_date: string;
+  start_time: string;
+  end_time: string;
+  status: 'pending' | 'confirmed';
+  customer_name: string;
+  service_name: string;
+  staff_member_id: number;
+  staff_member_name: string;
+}
+
+/** Tisch eines Venues (Restaurant); Tische mit gleicher combine_group lassen sich zusammenstellen */
+export interface VenueTable {
+  id: number;
+  venue_id: number;
+  name: string;
+  area?: string | null;           // z.B. Terrasse, Innen
+  min_seats: number;
+  max_seats: number;
+  combine_group?: string | null;  // null = nicht kombinierbar
+  is_active: boolean;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+/**
+ * Gemeinsam genutzte Ressource eines Venues (Raum, Stuhl, Gerät) mit quantity gleichwertigen Einheiten,
+ * z.B. 1 Paarraum oder 3 Waschbecken. Deaktivierte Ressourcen haben keine freie Einheit.
+ */
+export interface Resource {
+  id: number;
+  venue_id: number;
+  name: string;
+  quantity: number;
+  is_active: boolean;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+/** Bedarf einer Leistung an einer Ressource: belegte Einheiten je Buchung (für die ganze Dauer inkl. Puffer) */
+export interface ServiceResourceRequirement {
+  resource_id: number;
+  resource_name?: string;
+  quantity: number;
+}
+
+/** Belegte Ressource einer Buchung (bei mehreren Leistungen je Schritt mit dessen Zeit) */
+export interface BookingResource {
+  resource_id: number;
+  resource_name?: string;
+  service_id: number;
+  quantity: number;
+  start_time: string;             // HH:MM
+  end_time: string;               // HH:MM
+}
+
+/**
+ * Ankunftssteuerung (Pacing) je Venue und Tageszeit: Buchungen kapazitätsbasierter Services, die im selben
+ * Intervall (ab start_time im Raster interval_minutes) beginnen, dürfen max_covers Gäste bzw. max_parties Gruppen
+ * nicht überschreiten (null = unbegrenzt).
+ */
+export interface PacingRule {
+  id: number;
+  venue_id: number;
+  name: string;                   // z.B. Mittagsservice, Abendservice
+  day_of_week: number | null;     // 0 = Sonntag ... 6 = Samstag, null = jeden Tag
+  start_time: string;             // HH:MM, Beginn des Zeitraums (und des Intervall-Rasters)
+  end_time: string;               // HH:MM, Ende des Zeitraums (gleicher Tag)
+  interval_minutes: number;
+  max_covers: number | null;
+  max_parties: number | null;
+  is_active: boolean;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+
+/** Überbuchung einer Leistung an einem Tag (Owner-Übersicht) */
+export interface OverbookingServiceDay
+{
+  service_id: number;
+  service_name: string;
+  capacity: number;
+  mode: OverbookingMode;
+  allowance: number;              // zusätzliche Gäste je Slot (bereits durch die Obergrenze begrenzt)
+  cap: number;
+  peak_covers: number;            // höchste gleichzeitige Belegung des Tages
+  overbooked_covers: number;      // davon über der Kapazität
+}
+
+export interface OverbookingOverview
+{
+  settings: Pick<Venue, 'overbooking_mode' | 'overbooking_value' | 'overbooking_cap'>;
+  no_show_rate: number | null;    // No-Show-Quote der letzten Tage (0–1); null = zu wenige abgeschlossene Buchungen
+  days: { date: string; services: OverbookingServiceDay[] }[];
+}
+
+/** Abonnierbarer Kalender-Feed (ICS) des Venues oder eines Mitarbeiters; der token ist Teil der geheimen Feed-URL */
+export interface CalendarFeed
+{
+  staff_member_id: number | null;     // null = Feed des ganzen Venues
+  staff_member_name: string | null;
+  token: string;
+}
+
+/** Externer Kalender (ICS) eines Mitarbeiters, z. B. einer zweiten Arbeitsstelle; seine Termine blockieren die Verfügbarkeit */
+export interface ExternalCalendar
+{
+  id: number;
+  staff_member_id: number;
+  staff_member_name?: string;
+  name: string;
+  url: string | null;                 // null = hochgeladene Datei (wird nur durch erneutes Hochladen aktualisiert)
+  event_count: number;                // eingelesene Termine im Importzeitraum
+  last_synced_at: string | null;
+  last_error: string | null;          // Fehler beim letzten Abruf; die zuvor eingelesenen Termine bleiben gültig
+}
+
 
 // Booking Types
 
@@ -122,10 +435,47 @@ export interface Booking
   reminder_sent_at?: Date | null;
   cancelled_at?: Date | null;
   cancellation_reason?: string | null;
+  items?: BookingItem[];                        // Nur bei Buchungen mit mehreren Leistungen (Reihenfolge = Ablauf)
+  series_id?: number | null;                    // Optional: Termin einer Serie
+  series_index?: number | null;                 // Position in der Serie (0 = erster Termin)
   created_at: Date;
   updated_at: Date;
 }
 
+/**
+ * Interface für eine einzelne Leistung innerhalb einer Buchung mit mehreren Leistungen
+ * (z.B. Schnitt → Farbe → Föhnen). Jede Leistung hat eigene Zeit, Dauer, Preis und ggf. eigenen Mitarbeiter.
+ */
+export interface BookingItem
+{
+  id: number;
+  booking_id: number;
+  position: number;                             // Reihenfolge (0 = erste Leistung)
+  service_id: number;
+  service_name?: string;
+  staff_member_id?: number | null;
+  staff_member_name?: string | null;
+  start_time: string;                           // Format: HH:MM
+  end_time: string;                             // Format: HH:MM
+  duration_minutes: number;
+  price?: number | null;
+}
+
+/**
+ * Geplanter Schritt einer Leistungskette (vor dem Speichern, daher ohne IDs)
+ */
+export type ServiceChainItem = Omit<BookingItem, 'id' | 'booking_id'>;
+
+/**
+ * Angefragte Leistung in einer Buchung mit mehreren Leistungen
+ * Ohne staff_member_id wird ein passender Mitarbeiter gesucht (bevorzugt derselbe wie im vorherigen Schritt)
+ */
+export interface BookingServiceRequest
+{
+    service_id: number;
+    staff_member_id?: number;
+}
+
 /**
  * Interface für das Erstellen einer neuen Buchung
  * Enthält nur die Felder, die vom Client gesendet werden müssen
@@ -144,7 +494,9 @@ export interface CreateBookingData
     end_time: string;
     party_size: number;
     special_requests?: string;
-    total_amount?: number;
+    total_amount?: number;                      // Wird serverseitig berechnet (Preis der Leistung bzw. des Mitarbeiters, Summe der Kette)
+    services?: BookingServiceRequest[];         // Optional: mehrere Leistungen nacheinander (ersetzt service_id/end_time)
+    hold_token?: string;                        // Optional: Slot-Hold aus dem Checkout, wird beim Buchen eingelöst
 }
 
 /**
@@ -164,6 +516,187 @@ export interface UpdateBookingData
 }
 
 
+/**
+ * Interface für eine Terminserie (z.B. alle 2 Wochen dienstags 10:00 beim selben Mitarbeiter)
+ * Jeder Termin ist eine eigene Buchung mit series_id; die Serie speichert nur die Regel.
+ */
+export interface BookingSeries
+{
+    id: number;
+    venue_id: number;
+    service_id: number;
+    staff_member_id?: number | null;
+    customer_id?: number | null;
+    customer_email: string;
+    interval_weeks: number;
+    start_date: string;                           // Format: YYYY-MM-DD (erster Termin)
+    end_date?: string | null;                     // Entweder Enddatum …
+    occurrence_count?: number | null;             // … oder Anzahl Termine
+    start_time: string;
+    end_time: string;
+    created_at: Date;
+}
+
+/**
+ * Interface für das Anlegen einer Terminserie
+ * Buchungsdaten des ersten Termins + Wiederholungsregel
+ */
+export interface CreateBookingSeriesData extends Omit<CreateBookingData, 'services'>
+{
+    interval_weeks: number;
+    end_date?: string;
+    occurrence_count?: number;
+}
+
+/** Geltungsbereich bei Änderung/Stornierung eines Serientermins: nur dieser oder dieser und alle folgenden */
+export type SeriesScope = 'single' | 'following';
+
+/** Termin einer Serie, der nicht gebucht/geändert werden kann, inkl. Gründen */
+export interface SeriesConflict
+{
+    booking_date: string;
+    booking_id?: number;
+    errors: string[];
+}
+
+/**
+ * Interface für einen Eintrag auf der Warteliste
+ * Kunde wartet auf einen Termin an einem ausgebuchten Tag (optional in einem Zeitfenster)
+ */
+export interface WaitlistEntry
+{
+    id: number;
+    venue_id: number;
+    service_id: number;
+    customer_id?: number | null;
+    customer_name: string;
+    customer_email: string;
+    customer_phone?: string | null;
+    date: string;                                 // Format: YYYY-MM-DD
+    time_from?: string | null;                    // Optional: frühester Start (HH:MM)
+    time_to?: string | null;                      // Optional: spätester Start (HH:MM)
+    party_size: number;
+    status: 'waiting' | 'offered' | 'claiming' | 'booked' | 'expired' | 'cancelled';
+    claim_token?: string | null;                  // Nur bei Angebot: Link zum Einlösen
+    hold_token?: string | null;                   // Slot-Hold, der den angebotenen Termin bis zum Ablauf reserviert
+    offered_start_time?: string | null;
+    offered_end_time?: string | null;
+    offer_expires_at?: Date | null;
+    booking_id?: number | null;                   // Gesetzt, sobald das Angebot eingelöst wurde
+    created_at: Date;
+    updated_at: Date;
+}
+
+/**
+ * Interface für das Eintragen auf die Warteliste
+ */
+export interface CreateWaitlistData
+{
+    venue_id: number;
+    service_id: number;
+    customer_id?: number;
+    customer_name: string;
+    customer_email: string;
+    customer_phone?: string;
+    date: string;
+    time_from?: string;
+    time_to?: string;
+    party_size: number;
+}
+
+/**
+ * Interface für einen Slot-Hold
+ * Vorläufige Reservierung eines Slots während des Checkouts; zählt bis expires_at als belegt
+ */
+export interface SlotHold
+{
+    id: number;
+    hold_token: string;
+    venue_id: number;
+    service_id: number;
+    staff_member_id?: number | null;              // Bei "egal wer" der beim Halten vergebene Mitarbeiter
+    hold_date: string;                            // Format: YYYY-MM-DD
+    start_time: string;
+    end_time: string;
+    party_size: number;
+    expires_at: string;                           // Format: YYYY-MM-DD HH:MM:SS (Serverzeit)
+    expires_in_seconds?: number;                  // Restlaufzeit, unabhängig von der Uhr des Clients
+    price?: number | null;                        // Preis der Leistung bzw. des gehaltenen Mitarbeiters (nur beim Anlegen)
+    created_at: Date;
+}
+
+/**
+ * Interface für das Anlegen eines Slot-Holds
+ */
+export interface CreateSlotHoldData
+{
+    venue_id: number;
+    service_id: number;
+    staff_member_id?: number;
+    date: string;
+    start_time: string;
+    end_time: string;
+    party_size: number;
+}
+
+/**
+ * Interface für eine Gruppenanfrage
+ * Personenzahl über der Online-Höchstzahl: landet beim Owner, der sie mit gewählter Zeit (und Tischen) annimmt oder ablehnt
+ */
+export type GroupRequestStatus = 'pending' | 'accepted' | 'declined';
+
+export interface GroupRequest
+{
+    id: number;
+    venue_id: number;
+    service_id?: number | null;
+    customer_id?: number | null;
+    customer_name: string;
+    customer_email: string;
+    customer_phone?: string | null;
+    preferred_date: string;                       // Format: YYYY-MM-DD
+    preferred_time?: string | null;               // Optional: Wunschzeit (HH:MM)
+    party_size: number;
+    message?: string | null;
+    status: GroupRequestStatus;
+    booking_id?: number | null;                   // Gesetzt, sobald die Anfrage angenommen wurde
+    decline_reason?: string | null;
+    decided_at?: Date | null;
+    created_at: Date;
+    updated_at: Date;
+    service_name?: string | null;                 // Nur in Owner-Listen
+}
+
+/**
+ * Interface für das Senden einer Gruppenanfrage
+ */
+export interface CreateGroupRequestData
+{
+    venue_id: number;
+    service_id?: number;
+    customer_id?: number;
+    customer_name: string;
+    customer_email: string;
+    customer_phone?: string;
+    preferred_date: string;
+    preferred_time?: string;
+    party_size: number;
+    message?: string;
+}
+
+/**
+ * Interface für das Annehmen einer Gruppenanfrage durch den Owner
+ */
+export interface AcceptGroupRequestData
+{
+    booking_date: string;
+    start_time: string;
+    service_id?: number;                          // Pflicht, wenn die Anfrage keine Leistung enthält
+    staff_member_id?: number;
+    table_ids?: number[];                         // Optional: gewählte Tische statt automatischer Tischwahl
+}
+
+
 // Admin User Types
 export type AdminRole = 'admin' | 'owner' | 'staff';
 
@@ -0,0 +1,26 @@
+/**
+ * Externe-Kalender-Job: liest alle externen Kalender mit Feed-URL neu ein, damit neue oder verschobene
+ * Termine der Mitarbeiter ihre Verfügbarkeit blockieren. Läuft per Cron alle 30 Minuten.
+ */
+
+import cron from 'node-cron';
+import { createLogger } from '../config/utils/logger';
+import { ExternalCalendarService } from '../services/external-calendar.service';
+
+const logger = createLogger('external-calendar.job');
+
+export async function runExternalCalendarJob(): Promise<void> {
+  try {
+    await ExternalCalendarService.syncAllCalendars();
+  } catch (err) {
+    logger.error('External calendar job error', err);
+  }
+}
+
+/** Startet den Cron: alle 30 Minuten. */
+export function startExternalCalendarCron(): void {
+  cron.schedule('*/30 * * * *', () => {
+    runExternalCalendarJob();
+  });
+  logger.info('External calendar cron started (every 30 min)');
+}
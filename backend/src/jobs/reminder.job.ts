@@ -6,31 +6,44 @@
 import cron from 'node-cron';
 import { getConnection } from '../config/database';
 import { createLogger } from '../config/utils/logger';
+import { addDaysToDate, getZonedToday, hoursUntil } from '../config/utils/timezone';
 import { sendReminder, getReminderHours } from '../services/email.service';
+import { BookingService } from '../services/booking.service';
 import type { BookingForEmail } from '../services/email.service';
 
 const logger = createLogger('reminder.job');
 
-/** Buchungen, bei denen Termin in reminderWindow (z. B. 23–25 h) liegt, status=confirmed, reminder_sent_at IS NULL */
+/**
+ * Buchungen, bei denen Termin in reminderWindow (z. B. 23–25 h) liegt, status=confirmed, reminder_sent_at IS NULL.
+ * Der Terminbeginn ist Ortszeit des Venues – das Zeitfenster wird daher je Venue-Zeitzone geprüft.
+ */
 async function findBookingsDueForReminder(): Promise<BookingForEmail[]> {
   const hours = getReminderHours();
   const conn = await getConnection();
   try {
+    // Vorfilter per Datum (großzügig wegen Zeitzonen), genaue Prüfung danach
+    const utcToday = getZonedToday('UTC');
     const rows = await conn.query(
       `SELECT b.id, b.customer_name, b.customer_email, b.booking_date, b.start_time, b.end_time,
-              b.special_requests, b.booking_token, v.name as venue_name, s.name as service_name, sm.name as staff_member_name
+              b.special_requests, b.booking_token, b.total_amount, v.name as venue_name, s.name as service_name, sm.name as staff_member_name,
+              v.timezone as venue_timezone
        FROM bookings b
        LEFT JOIN venues v ON b.venue_id = v.id
        LEFT JOIN services s ON b.service_id = s.id
        LEFT JOIN staff_members sm ON b.staff_member_id = sm.id
        WHERE b.status = 'confirmed'
          AND b.reminder_sent_at IS NULL
-         AND b.booking_date >= CURDATE()
-         AND CONCAT(b.booking_date, ' ', b.start_time) BETWEEN
-             DATE_ADD(NOW(), INTERVAL ? HOUR) AND DATE_ADD(NOW(), INTERVAL ? HOUR)`,
-      [hours - 1, hours + 1]
-    ) as (BookingForEmail)[];
-    return Array.isArray(rows) ? rows : [];
+         AND b.booking_date BETWEEN ? AND ?`,
+      [addDaysToDate(utcToday, -1), addDaysToDate(utcToday, Math.ceil((hours + 1) / 24) + 1)]
+    ) as (BookingForEmail & { venue_timezone?: string })[];
+    if (!Array.isArray(rows)) return [];
+    const now = Date.now();
+    const due = rows.filter((b) => {
+      const h = hoursUntil(b.booking_date, b.start_time, b.venue_timezone, now);
+      return h >= hours - 1 && h <= hours + 1;
+    });
+    await BookingService.attachBookingItems(conn, due); // Ablauf bei mehreren Leistungen
+    return due;
   } finally {
     conn.release();
   }
@@ -0,0 +1,26 @@
+/**
+ * Slot-Hold-Job: löscht abgelaufene Slot-Holds aus dem Checkout und gibt deren Kapazität
+ * im Verfügbarkeits-Cache frei. Läuft per Cron jede Minute.
+ */
+
+import cron from 'node-cron';
+import { createLogger } from '../config/utils/logger';
+import { SlotHoldService } from '../services/slot-hold.service';
+
+const logger = createLogger('slot-hold.job');
+
+export async function runSlotHoldJob(): Promise<void> {
+  try {
+    await SlotHoldService.releaseExpiredHolds();
+  } catch (err) {
+    logger.error('Slot hold job error', err);
+  }
+}
+
+/** Startet den Cron: jede Minute. */
+export function startSlotHoldCron(): void {
+  cron.schedule('* * * * *', () => {
+    runSlotHoldJob();
+  });
+  logger.info('Slot hold cron started (every minute)');
+}
@@ -0,0 +1,26 @@
+/**
+ * Wartelisten-Job: lässt abgelaufene Angebote verfallen und bietet den Termin
+ * dem nächsten Eintrag auf der Warteliste an. Läuft per Cron alle 5 Minuten.
+ */
+
+import cron from 'node-cron';
+import { createLogger } from '../config/utils/logger';
+import { WaitlistService } from '../services/waitlist.service';
+
+const logger = createLogger('waitlist.job');
+
+export async function runWaitlistJob(): Promise<void> {
+  try {
+    await WaitlistService.expireOffers();
+  } catch (err) {
+    logger.error('Waitlist job error', err);
+  }
+}
+
+/** Startet den Cron: alle 5 Minuten. */
+export function startWaitlistCron(): void {
+  cron.schedule('*/5 * * * *', () => {
+    runWaitlistJob();
+  });
+  logger.info('Waitlist cron started (every 5 min)');
+}
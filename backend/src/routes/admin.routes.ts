@@ -2,6 +2,7 @@ import { Router, Request, Response } from 'express';
 import { authenticateAndLoadUser, requireSystemAdmin } from '../middleware/auth.middleware';
 import { AdminService } from '../services/admin.service';
 import { createLogger } from '../config/utils/logger';
+import { isValidTimeZone } from '../config/utils/timezone';
 import { getPointsConfig, updatePointsConfig } from '../services/loyalty.service';
 
 const router = Router();
@@ -50,7 +51,7 @@ router.get('/venues/:id', async (req: Request, res: Response) => {
 });
 
 router.post('/venues', async (req: Request, res: Response) => {
-    const { name, type, email, phone, address, city, postal_code, country, description, website_url, booking_advance_days, booking_advance_hours, cancellation_hours, require_phone, require_deposit, deposit_amount, is_active } = req.body;
+    const { name, type, email, phone, address, city, postal_code, country, timezone, description, website_url, booking_advance_days, booking_advance_hours, cancellation_hours, require_phone, require_deposit, deposit_amount, is_active } = req.body;
     if (!name || !type || !email) {
         res.status(400).json({ success: false, message: 'Name, Typ und E-Mail sind erforderlich' });
         return;
@@ -60,9 +61,13 @@ router.post('/venues', async (req: Request, res: Response) => {
         res.status(400).json({ success: false, message: 'Ungültiger Venue-Typ' });
         return;
     }
+    if (timezone !== undefined && !isValidTimeZone(timezone)) {
+        res.status(400).json({ success: false, message: 'Ungültige Zeitzone' });
+        return;
+    }
     try {
         const venue = await AdminService.createVenue({
-            name, type, email, phone, address, city, postal_code, country, description, website_url,
+            name, type, email, phone, address, city, postal_code, country, timezone, description, website_url,
             booking_advance_days, booking_advance_hours, cancellation_hours, require_phone, require_deposit, deposit_amount, is_active,
         });
         res.status(201).json({ success: true, data: venue, message: 'Venue erstellt' });
@@ -86,6 +91,10 @@ router.patch('/venues/:id', async (req: Request, res: Response) => {
             return;
         }
     }
+    if (body.timezone !== undefined && !isValidTimeZone(body.timezone)) {
+        res.status(400).json({ success: false, message: 'Ungültige Zeitzone' });
+        return;
+    }
     try {
         const venue = await AdminService.updateVenue(id, body);
         res.json({ success: true, data: venue, message: 'Venue aktualisiert' });
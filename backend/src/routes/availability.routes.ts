@@ -1,12 +1,18 @@
 import express, { Request, Response } from 'express';
 import { AvailabilityService } from '../services/availability.service';
 import { createLogger } from '../config/utils/logger';
-import { ApiResponse, DayAvailability, Service } from '../config/utils/types';
+import { ApiResponse, DayAvailability, MonthAvailability, NextAvailableSlot, Service, ServiceChainSlot } from '../config/utils/types';
 
 
 const router = express.Router();
 const logger = createLogger('availability.routes');
 
+// Fehlermeldungen des Services, die als 404 zurückgegeben werden
+const NOT_FOUND_ERRORS = ['Venue not found or inactive', 'Service not found'];
+
+// Obergrenze für GET /availability/next?limit=
+const MAX_NEXT_SLOTS = 20;
+
 
 
 
@@ -15,10 +21,11 @@ const logger = createLogger('availability.routes');
  * GET /availability/slots
  * Hole alle verfügbaren Zeitslots für einen bestimmten Tag.
  * Query: venueId, serviceId, date (YYYY-MM-DD), optional partySize, timeWindowStart, timeWindowEnd (HH:MM).
+ * Optional anyStaff=true: "egal wer" – Slots aller qualifizierten Mitarbeiter als eine Liste (ohne staff_member_id).
  */
 router.get('/slots', async (req, res) =>     
 {
-    const { venueId, serviceId, date, partySize, timeWindowStart, timeWindowEnd, excludeBookingId } = req.query;  
+    const { venueId, serviceId, date, partySize, timeWindowStart, timeWindowEnd, excludeBookingId, anyStaff } = req.query;  
 
     if (!venueId || !serviceId || !date)
     {
@@ -31,13 +38,14 @@ router.get('/slots', async (req, res) =>
 
     const partySizeNum = partySize != null && partySize !== '' ? parseInt(String(partySize), 10) : undefined;
     const excludeBookingIdNum = excludeBookingId != null && excludeBookingId !== '' ? parseInt(String(excludeBookingId), 10) : undefined;
-    const opts: { partySize?: number; timeWindowStart?: string; timeWindowEnd?: string; excludeBookingId?: number } = {};
+    const opts: { partySize?: number; timeWindowStart?: string; timeWindowEnd?: string; excludeBookingId?: number; anyStaff?: boolean } = {};
     if (partySizeNum != null && !isNaN(partySizeNum) && partySizeNum >= 1) opts.partySize = partySizeNum;
     if (timeWindowStart && timeWindowEnd) {
         opts.timeWindowStart = timeWindowStart as string;
         opts.timeWindowEnd = timeWindowEnd as string;
     }
     if (excludeBookingIdNum != null && !isNaN(excludeBookingIdNum)) opts.excludeBookingId = excludeBookingIdNum;
+    if (anyStaff === 'true' || anyStaff === '1') opts.anyStaff = true;
     const options = Object.keys(opts).length > 0 ? opts : undefined;
 
     try {
@@ -109,6 +117,185 @@ router.get('/week', async (req, res) =>
     }
 });
 
+/**
+ * GET /availability/month
+ * Monatsüberblick für den Buchungskalender: je Tag geschlossen, ausgebucht oder Anzahl freier Startzeiten
+ * Query: venueId, serviceId, month (YYYY-MM), optional partySize
+ */
+router.get('/month', async (req, res) => 
+{
+    const { venueId, serviceId, month, partySize } = req.query;
+
+    if (!venueId || !serviceId || !month)
+    {
+        logger.warn('Missing one or more required params: venueId, serviceId, month');
+        return res.status(400).json({
+            success: false,
+            message: 'Missing one or more required params: venueId, serviceId, month'
+        } as ApiResponse<void>);
+    }
+
+    if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(String(month)))
+    {
+        logger.warn('Invalid month', { month });
+        return res.status(400).json({
+            success: false,
+            message: 'month must be in format YYYY-MM'
+        } as ApiResponse<void>);
+    }
+
+    const partySizeNum = partySize != null && partySize !== '' ? parseInt(String(partySize), 10) : 1;
+
+    try 
+    {
+        const monthAvailability = await AvailabilityService.getMonthAvailability(
+            Number(venueId),
+            Number(serviceId),
+            String(month),
+            !isNaN(partySizeNum) && partySizeNum >= 1 ? partySizeNum : 1
+        );
+
+        res.json({
+            success: true,
+            message: 'Month availability retrieved successfully',
+            data: monthAvailability
+        } as ApiResponse<MonthAvailability>);
+    } 
+    catch (error) 
+    {
+        const message = error instanceof Error ? error.message : '';
+        if (NOT_FOUND_ERRORS.includes(message))
+        {
+            return res.status(404).json({ success: false, message } as ApiResponse<void>);
+        }
+        logger.error('Error fetching month availability', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to fetch month availability',
+            error: process.env.NODE_ENV === 'development' ? String(error) : undefined
+        } as ApiResponse<void>);
+    }
+});
+
+/**
+ * GET /availability/next
+ * Früheste buchbare Slots (z.B. "nächster freier Termin" im Buchungswidget)
+ * Query: venueId, serviceId, optional partySize, from (YYYY-MM-DD, Standard: heute), limit (1–20, Standard: 1)
+ */
+router.get('/next', async (req, res) => 
+{
+    const { venueId, serviceId, partySize, from, limit } = req.query;
+
+    if (!venueId || !serviceId)
+    {
+        logger.warn('Missing one or more required params: venueId, serviceId');
+        return res.status(400).json({
+            success: false,
+            message: 'Missing one or more required params: venueId, serviceId'
+        } as ApiResponse<void>);
+    }
+
+    if (from && !/^\d{4}-\d{2}-\d{2}$/.test(String(from)))
+    {
+        logger.warn('Invalid from date', { from });
+        return res.status(400).json({
+            success: false,
+            message: 'from must be in format YYYY-MM-DD'
+        } as ApiResponse<void>);
+    }
+
+    const partySizeNum = partySize != null && partySize !== '' ? parseInt(String(partySize), 10) : 1;
+    const limitNum = limit != null && limit !== '' ? parseInt(String(limit), 10) : 1;
+
+    try 
+    {
+        const slots = await AvailabilityService.getNextAvailableSlots(
+            Number(venueId),
+            Number(serviceId),
+            {
+                partySize: !isNaN(partySizeNum) && partySizeNum >= 1 ? partySizeNum : 1,
+                from: from ? String(from) : undefined,
+                limit: !isNaN(limitNum) ? Math.min(MAX_NEXT_SLOTS, Math.max(1, limitNum)) : 1
+            }
+        );
+
+        res.json({
+            success: true,
+            message: slots.length > 0 ? 'Next available slots retrieved successfully' : 'No available slots in booking period',
+            data: slots
+        } as ApiResponse<NextAvailableSlot[]>);
+    } 
+    catch (error) 
+    {
+        const message = error instanceof Error ? error.message : '';
+        if (NOT_FOUND_ERRORS.includes(message))
+        {
+            return res.status(404).json({ success: false, message } as ApiResponse<void>);
+        }
+        logger.error('Error searching next available slots', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to search next available slots',
+            error: process.env.NODE_ENV === 'development' ? String(error) : undefined
+        } as ApiResponse<void>);
+    }
+});
+
+/**
+ * GET /availability/chain
+ * Mögliche Startzeiten für mehrere Leistungen nacheinander (z.B. Schnitt + Farbe + Föhnen).
+ * Query: venueId, serviceIds (kommagetrennt, Reihenfolge = Ablauf, max. 5), date (YYYY-MM-DD), optional partySize.
+ */
+router.get('/chain', async (req, res) => 
+{
+    const { venueId, serviceIds, date, partySize } = req.query;
+
+    if (!venueId || !serviceIds || !date)
+    {
+        logger.warn('Missing one or more required parameters: venueId, serviceIds, date');
+        return res.status(400).json({
+            success: false,
+            message: 'Missing one or more required parameters: venueId, serviceIds, date'
+        } as ApiResponse<void>);
+    }
+
+    const ids = String(serviceIds).split(',').map(id => parseInt(id.trim(), 10));
+    if (ids.length > 5 || ids.some(id => isNaN(id) || id < 1))
+    {
+        logger.warn('Invalid serviceIds', { serviceIds });
+        return res.status(400).json({
+            success: false,
+            message: 'serviceIds must be a comma-separated list of up to 5 service IDs'
+        } as ApiResponse<void>);
+    }
+
+    const partySizeNum = partySize != null && partySize !== '' ? parseInt(String(partySize), 10) : 1;
+
+    try {
+        const slots = await AvailabilityService.getServiceChainSlots(
+            Number(venueId),
+            ids.map(id => ({ service_id: id })),
+            date as string,
+            !isNaN(partySizeNum) && partySizeNum >= 1 ? partySizeNum : 1
+        );
+
+        res.json({
+            success: true,
+            message: 'Service chain slots retrieved successfully',
+            data: slots
+        } as ApiResponse<ServiceChainSlot[]>);
+    } 
+    catch (error) 
+    {
+        logger.error('Error fetching service chain slots', error);
+        res.status(500).json({
+            success: false,
+            message: 'Failed to fetch service chain slots',
+            error: process.env.NODE_ENV === 'development' ? String(error) : undefined
+        } as ApiResponse<void>);
+    }
+});
+
 /**
  * POST /availability/check
  * Prüfe ob ein spezifischer Zeitslot verfügbar ist
@@ -3,6 +3,7 @@
  * 
  * Alle HTTP-Endpunkte für Buchungsoperationen:
  * - POST   /bookings                           -> Neue Buchung erstellen
+ * - POST   /bookings/series                    -> Terminserie erstellen (alle N Wochen)
  * - GET    /bookings/:id                       -> Einzelne Buchung abrufen
  * - GET    /bookings/customer/:email           -> Buchungen eines Kunden abrufen
  * - PATCH  /bookings/manage/:token             -> Buchung aktualisieren (Token-basiert)
@@ -21,10 +22,14 @@
 import express, { Request, Response } from 'express';
 import { createLogger } from '../config/utils/logger';
 import { BookingService } from '../services/booking.service';
+import { BookingSeriesService, MAX_SERIES_OCCURRENCES, SeriesCreateResult } from '../services/booking-series.service';
 import {
     Booking,
     CreateBookingData,
+    CreateBookingSeriesData,
     UpdateBookingData,
+    SeriesConflict,
+    SeriesScope,
     ApiResponse
 } from '../config/utils/types';
 import { getTokenPrefix, validateBookingToken } from '../config/utils/helper';
@@ -38,6 +43,11 @@ const logger = createLogger('booking.routes');
 const MAX_CUSTOMER_NAME = 200;
 const MAX_CUSTOMER_PHONE = 50;
 const MAX_SPECIAL_REQUESTS = 500;
+/** Max. Anzahl Leistungen nacheinander in einer Buchung */
+const MAX_BOOKING_SERVICES = 5;
+/** Terminserien: erlaubte Abstände in Wochen */
+const MAX_SERIES_INTERVAL_WEEKS = 12;
+const SERIES_SCOPES: SeriesScope[] = ['single', 'following'];
 
 
 
@@ -63,11 +73,15 @@ const MAX_SPECIAL_REQUESTS = 500;
  *   customer_phone?: string,       // Optional: Telefonnummer
  *   booking_date: string,          // Format: "YYYY-MM-DD" (z.B. "2025-10-25")
  *   start_time: string,            // Format: "HH:MM" (z.B. "14:00")
- *   end_time: string,              // Format: "HH:MM" (z.B. "15:30")
- *   party_size: number,            // Anzahl Personen (1-8; für mehr bitte anrufen)
+ *   end_time: string,              // Format: "HH:MM" – wird serverseitig aus der Dauer für die Personenzahl neu berechnet
+ *   party_size: number,            // Anzahl Personen (Grenzen je Venue/Service; darüber Gruppenanfrage)
  *   special_requests?: string,     // Optional: Besondere Wünsche
- *   total_amount?: number          // Optional: Gesamtpreis
+ *   services?: [                   // Optional: mehrere Leistungen nacheinander (max. 5);
+ *     { service_id: number, staff_member_id?: number }   // service_id/end_time ergeben sich dann aus der Kette
+ *   ],
+ *   hold_token?: string            // Optional: Slot-Hold aus POST /holds, wird beim Buchen eingelöst
  * }
+ * total_amount wird serverseitig berechnet: Preis der Leistung bzw. abweichender Preis des Mitarbeiters
  * 
  * RESPONSE (Success - 201 Created):
  * {
@@ -94,8 +108,35 @@ router.post('/', optionalCustomerAuth, async (req: Request, res: Response) =>
 
     const bookingData: CreateBookingData = req.body;
 
+    // SCHRITT 0: MEHRERE LEISTUNGEN (optional)
+    // Jede Leistung braucht eine gültige service_id; Start-Service und Ende ergeben sich aus der Kette
+    const hasServiceChain = bookingData.services !== undefined;
+    if (hasServiceChain)
+    {
+        const services = bookingData.services;
+        const validServices = Array.isArray(services) &&
+            services.length >= 1 &&
+            services.length <= MAX_BOOKING_SERVICES &&
+            services.every(step =>
+                step != null &&
+                Number.isInteger(step.service_id) && step.service_id > 0 &&
+                (step.staff_member_id == null || (Number.isInteger(step.staff_member_id) && step.staff_member_id > 0))
+            );
+
+        if (!validServices)
+        {
+            logger.warn('Invalid services list', { services });
+            return res.status(400).json({
+                success: false,
+                message: `services must contain 1-${MAX_BOOKING_SERVICES} entries with a valid service_id`
+            } as ApiResponse<void>);
+        }
+
+        bookingData.service_id = services[0].service_id;
+    }
+
     // SCHRITT 1: VALIDIERUNG DER PFLICHTFELDER
-    // Alle Felder die zwingend erforderlich sind
+    // Alle Felder die zwingend erforderlich sind (end_time entfällt bei mehreren Leistungen)
     const requiredFields = [
         'venue_id',
         'service_id',
@@ -103,7 +144,7 @@ router.post('/', optionalCustomerAuth, async (req: Request, res: Response) =>
         'customer_email',
         'booking_date',
         'start_time',
-        'end_time',
+        ...(hasServiceChain ? [] : ['end_time']),
         'party_size'
     ];
 
@@ -150,7 +191,7 @@ router.post('/', optionalCustomerAuth, async (req: Request, res: Response) =>
     // SCHRITT 4: ZEIT-FORMAT VALIDIERUNG
     // Erwartetes Format: HH:MM (z.B. 14:00, 09:30)
     const timeRegex = /^\d{2}:\d{2}$/;
-    if (!timeRegex.test(bookingData.start_time) || !timeRegex.test(bookingData.end_time))
+    if (!timeRegex.test(bookingData.start_time) || (!hasServiceChain && !timeRegex.test(bookingData.end_time)))
     {
         logger.warn('Invalid time format', {
             start: bookingData.start_time,
@@ -162,13 +203,13 @@ router.post('/', optionalCustomerAuth, async (req: Request, res: Response) =>
         } as ApiResponse<void>);
     }
 
-    // SCHRITT 5: PARTY SIZE VALIDIERUNG (1-8; für mehr Personen bitte anrufen)
-    if (bookingData.party_size < 1 || bookingData.party_size > 8)
+    // SCHRITT 5: PARTY SIZE VALIDIERUNG (mind. 1; die Online-Grenzen von Venue/Service prüft der BookingService)
+    if (!Number.isInteger(bookingData.party_size) || bookingData.party_size < 1)
     {
         logger.warn('Invalid party size', { party_size: bookingData.party_size });
         return res.status(400).json({
             success: false,
-            message: 'Party size must be between 1 and 8. For larger groups please call.'
+            message: 'Party size must be at least 1'
         } as ApiResponse<void>);
     }
 
@@ -193,6 +234,16 @@ router.post('/', optionalCustomerAuth, async (req: Request, res: Response) =>
         } as ApiResponse<void>);
     }
 
+    // SCHRITT 5c: SLOT-HOLD-TOKEN (optional, UUID aus POST /holds)
+    if (bookingData.hold_token != null && !validateBookingToken(bookingData.hold_token))
+    {
+        logger.warn('Invalid hold token format');
+        return res.status(400).json({
+            success: false,
+            message: 'Invalid hold token format'
+        } as ApiResponse<void>);
+    }
+
     // SCHRITT 6: ADD CUSTOMER ID IF AUTHENTICATED
     if (req.customerJwtPayload) {
         bookingData.customer_id = req.customerJwtPayload.customerId;
@@ -241,6 +292,121 @@ router.post('/', optionalCustomerAuth, async (req: Request, res: Response) =>
     }
 });
 
+/**
+ * Prüft die Felder einer Terminserie (Buchungsdaten des ersten Termins + Wiederholungsregel).
+ * Liefert Fehlermeldung oder null.
+ */
+function validateSeriesRequest(data: CreateBookingSeriesData): string | null
+{
+    if (!data.venue_id || !data.service_id || !data.customer_name || !data.customer_email ||
+        !data.booking_date || !data.start_time || !data.end_time || !data.party_size)
+    {
+        return 'Missing required fields: venue_id, service_id, customer_name, customer_email, booking_date, start_time, end_time, party_size';
+    }
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(data.customer_email)) return 'Invalid email format';
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(data.booking_date)) return 'Invalid date format. Expected: YYYY-MM-DD';
+    if (!/^\d{2}:\d{2}$/.test(data.start_time) || !/^\d{2}:\d{2}$/.test(data.end_time)) return 'Invalid time format. Expected: HH:MM';
+    if (!Number.isInteger(data.party_size) || data.party_size < 1) return 'Party size must be at least 1';
+    if (String(data.customer_name).length > MAX_CUSTOMER_NAME) return `customer_name darf maximal ${MAX_CUSTOMER_NAME} Zeichen haben`;
+    if (data.customer_phone != null && String(data.customer_phone).length > MAX_CUSTOMER_PHONE) return `customer_phone darf maximal ${MAX_CUSTOMER_PHONE} Zeichen haben`;
+    if (data.special_requests != null && String(data.special_requests).length > MAX_SPECIAL_REQUESTS) return `special_requests darf maximal ${MAX_SPECIAL_REQUESTS} Zeichen haben`;
+    if (!Number.isInteger(data.interval_weeks) || data.interval_weeks < 1 || data.interval_weeks > MAX_SERIES_INTERVAL_WEEKS)
+    {
+        return `interval_weeks must be between 1 and ${MAX_SERIES_INTERVAL_WEEKS}`;
+    }
+    const hasEndDate = Boolean(data.end_date);
+    const hasCount = data.occurrence_count != null;
+    if (hasEndDate === hasCount) return 'Either end_date or occurrence_count is required';
+    if (data.end_date && (!/^\d{4}-\d{2}-\d{2}$/.test(data.end_date) || data.end_date <= data.booking_date))
+    {
+        return 'end_date must be a date after booking_date';
+    }
+    if (data.occurrence_count != null &&
+        (!Number.isInteger(data.occurrence_count) || data.occurrence_count < 2 || data.occurrence_count > MAX_SERIES_OCCURRENCES))
+    {
+        return `occurrence_count must be between 2 and ${MAX_SERIES_OCCURRENCES}`;
+    }
+    return null;
+}
+
+/**
+ * =====================================================================================================
+ * POST /bookings/series
+ * =====================================================================================================
+ * Erstellt eine Terminserie: derselbe Wochentag, dieselbe Uhrzeit, derselbe Mitarbeiter alle N Wochen
+ * 
+ * REQUEST BODY (CreateBookingSeriesData):
+ * {
+ *   ...wie POST /bookings (ohne services),  // booking_date = erster Termin
+ *   interval_weeks: number,                 // 1-12 (z.B. 4 = alle 4 Wochen)
+ *   end_date?: string,                      // Entweder: Serie bis einschließlich Datum
+ *   occurrence_count?: number,              // Oder: Anzahl Termine (2-52)
+ *   skip_conflicts?: boolean                // true = nur die freien Termine buchen
+ * }
+ * 
+ * RESPONSE:
+ * - 201: { series, bookings, conflicts }   // conflicts nur bei skip_conflicts
+ * - 400: Validierungsfehler
+ * - 409: Termine nicht verfügbar, data = Konflikte pro Termin (ohne skip_conflicts wird nichts gebucht)
+ */
+router.post('/series', optionalCustomerAuth, async (req: Request, res: Response) =>
+{
+    const { skip_conflicts, services, ...seriesData } = (req.body ?? {}) as CreateBookingSeriesData & { skip_conflicts?: boolean; services?: unknown };
+
+    if (services !== undefined)
+    {
+        return res.status(400).json({
+            success: false,
+            message: 'Series are only available for single-service bookings'
+        } as ApiResponse<void>);
+    }
+
+    const validationError = validateSeriesRequest(seriesData);
+    if (validationError)
+    {
+        logger.warn('Invalid series request', { error: validationError });
+        return res.status(400).json({ success: false, message: validationError } as ApiResponse<void>);
+    }
+
+    if (req.customerJwtPayload) seriesData.customer_id = req.customerJwtPayload.customerId;
+
+    try
+    {
+        const result = await BookingSeriesService.createSeries(seriesData, { skipConflicts: skip_conflicts === true });
+
+        if (!result.series)
+        {
+            return res.status(409).json({
+                success: false,
+                message: 'Booking not available: some occurrences are not available',
+                data: result.conflicts
+            } as ApiResponse<SeriesConflict[]>);
+        }
+
+        logger.info('Booking series created', { series_id: result.series.id, bookings: result.bookings.length });
+
+        return res.status(201).json({
+            success: true,
+            message: `${result.bookings.length} bookings created successfully`,
+            data: result
+        } as ApiResponse<SeriesCreateResult>);
+    }
+    catch (error)
+    {
+        logger.error('Error creating booking series', error);
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+        if (errorMessage.includes('not available')) return res.status(409).json({ success: false, message: errorMessage } as ApiResponse<void>);
+        if (errorMessage === 'Series needs at least 2 occurrences') return res.status(400).json({ success: false, message: errorMessage } as ApiResponse<void>);
+
+        return res.status(500).json({
+            success: false,
+            message: 'Failed to create booking series',
+            error: process.env.NODE_ENV === 'development' ? String(error) : undefined
+        } as ApiResponse<void>);
+    }
+});
+
 /**
  * GET /bookings/customer/:email - muss vor GET /:id stehen (Route-Reihenfolge!)
  * Optional: Wenn Kunde eingeloggt ist, dürfen nur Buchungen der eigenen E-Mail abgefragt werden (Datenschutz).
@@ -426,9 +592,10 @@ router.get('/:id', authenticateToken, async (req: Request<{ id: string }>, res:
  *   booking_date?: string,          // Optional: Neues Datum
  *   start_time?: string,            // Optional: Neue Startzeit
  *   end_time?: string,              // Optional: Neue Endzeit
- *   party_size?: number,            // Optional: Neue Personenzahl (1-8)
+ *   party_size?: number,            // Optional: Neue Personenzahl (Grenzen je Venue/Service)
  *   staff_member_id?: number,       // Optional: Anderer Mitarbeiter
- *   special_requests?: string       // Optional: Neue Wünsche
+ *   special_requests?: string,      // Optional: Neue Wünsche
+ *   scope?: 'single' | 'following'  // Optional: Serie – nur dieser oder dieser und alle folgenden Termine
  * }
  * 
  * BEISPIEL:
@@ -461,7 +628,8 @@ router.get('/:id', authenticateToken, async (req: Request<{ id: string }>, res:
 router.patch('/manage/:token', async (req: Request<{ token: string }>, res: Response) => 
 {
     const { token } = req.params;
-    const updates = req.body;
+    // scope: bei Serienterminen "single" (nur dieser) oder "following" (dieser und alle folgenden)
+    const { scope = 'single', ...updates } = req.body ?? {};
 
 
     // ========================================================================
@@ -522,11 +690,19 @@ router.patch('/manage/:token', async (req: Request<{ token: string }>, res: Resp
         } as ApiResponse<void>);
     }
 
-    // party_size 1–8 (wie bei POST /bookings)
-    if (updates.party_size !== undefined && (updates.party_size < 1 || updates.party_size > 8)) {
+    // party_size mind. 1 (wie bei POST /bookings; Online-Grenzen prüft der BookingService)
+    if (updates.party_size !== undefined && (!Number.isInteger(updates.party_size) || updates.party_size < 1)) {
         return res.status(400).json({
             success: false,
-            message: 'Party size must be between 1 and 8. For larger groups please call.'
+            message: 'Party size must be at least 1'
+        } as ApiResponse<void>);
+    }
+
+    if (!SERIES_SCOPES.includes(scope))
+    {
+        return res.status(400).json({
+            success: false,
+            message: `scope must be one of: ${SERIES_SCOPES.join(', ')}`
         } as ApiResponse<void>);
     }
 
@@ -540,19 +716,33 @@ router.patch('/manage/:token', async (req: Request<{ token: string }>, res: Resp
         // 1. Existiert eine Buchung mit diesem Token?
         // 2. Ist der Status updatebar? (nicht cancelled/completed)
         // 3. Wenn Datum/Zeit geändert → Ist der neue Slot verfügbar?
-        const updatedBooking = await BookingService.updateBooking(
-            token, 
+        // Bei Serien (scope "following") werden alle Termine vorab geprüft – ein Konflikt → keine Änderung
+        const result = await BookingSeriesService.updateByToken(
+            token,
+            scope as SeriesScope,
             updates as UpdateBookingData
         );
 
+        if (result.conflicts.length > 0)
+        {
+            return res.status(409).json({
+                success: false,
+                message: 'Update not possible: some occurrences are not available',
+                data: result.conflicts
+            } as ApiResponse<SeriesConflict[]>);
+        }
+
+        const updatedBooking = result.bookings[0];
+
         logger.info('Booking updated successfully', { 
             booking_id: updatedBooking.id,
+            occurrences: result.bookings.length,
             token_used: getTokenPrefix(token)
         });
 
         res.json({
             success: true,
-            message: 'Booking updated successfully',
+            message: result.bookings.length > 1 ? `${result.bookings.length} bookings updated successfully` : 'Booking updated successfully',
             data: updatedBooking
         } as ApiResponse<Booking>);
     } 
@@ -600,9 +790,9 @@ router.patch('/manage/:token', async (req: Request<{ token: string }>, res: Resp
             } as ApiResponse<void>);
         }
 
-        // ERROR 4: SLOT NOT AVAILABLE (neuer Zeitslot ist belegt)
+        // ERROR 4: SLOT NOT AVAILABLE (neuer Zeitslot ist belegt oder wird gerade von einer anderen Anfrage gebucht)
         // 409 Conflict = Ressourcen-Zustand erlaubt Operation nicht
-        if (errorMessage.includes('not available'))
+        if (errorMessage.includes('not available') || errorMessage.startsWith('Update not possible'))
         {
             return res.status(409).json({
                 success: false,
@@ -732,6 +922,7 @@ router.post('/:id/confirm', authenticateToken, requireRole('owner', 'admin', 'st
  *
  * BEISPIEL:
  * { "reason": "Krankheit" }
+ * { "reason": "Umzug", "scope": "following" }   // Serie: dieser und alle folgenden Termine
  * 
  * WAS PASSIERT BEI STORNIERUNG:
  * - Status → 'cancelled'
@@ -761,7 +952,7 @@ router.post('/:id/confirm', authenticateToken, requireRole('owner', 'admin', 'st
 router.post('/manage/:token/cancel', async (req: Request<{ token: string }>, res: Response) => 
 {
     const { token } = req.params;
-    const { reason } = req.body;
+    const { reason, scope = 'single' } = req.body ?? {};
 
     if (!validateBookingToken(token)) {
         logger.warn('Invalid booking token format');
@@ -776,14 +967,23 @@ router.post('/manage/:token/cancel', async (req: Request<{ token: string }>, res
     // ========================================================================
     try 
     {
+        if (!SERIES_SCOPES.includes(scope)) {
+            return res.status(400).json({
+                success: false,
+                message: `scope must be one of: ${SERIES_SCOPES.join(', ')}`
+            } as ApiResponse<void>);
+        }
+
         // Service-Aufruf: bypassPolicy immer false – Kunden müssen Stornierungsfrist einhalten
-        const cancelledBooking = await BookingService.cancelBooking(
+        // Bei Serien optional auch alle folgenden Termine (scope "following")
+        const cancelled = await BookingSeriesService.cancelByToken(
             token,
-            reason,   // Optional: Stornierungsgrund
-            false    // Öffentliche Route: Frist wird nie umgangen
+            scope as SeriesScope,
+            reason    // Optional: Stornierungsgrund
         );
+        const cancelledBooking = cancelled[0];
 
-        logger.info('Booking cancelled successfully', { booking_id: cancelledBooking.id });
+        logger.info('Booking cancelled successfully', { booking_id: cancelledBooking.id, occurrences: cancelled.length });
 
         // Stornierungsmail wird im BookingService.cancelBooking() versendet
 
@@ -0,0 +1,67 @@
+/**
+ * CALENDAR ROUTES
+ *
+ * Öffentliche, über einen geheimen Token geschützte Kalender-Feeds (iCalendar) zum Abonnieren in
+ * Google Kalender, Outlook oder Apple Kalender:
+ * - GET /calendar/venue/:token     -> alle offenen und bestätigten Buchungen des Venues
+ * - GET /calendar/staff/:token     -> Termine eines Mitarbeiters
+ *
+ * Der Token darf mit ".ics" enden. Tokens verwaltet der Owner unter /owner/calendar-feeds.
+ */
+
+import express, { Request, Response } from 'express';
+import { createLogger } from '../config/utils/logger';
+import { CalendarFeedService, CalendarFeedKind } from '../services/calendar-feed.service';
+import { ApiResponse } from '../config/utils/types';
+import { validateBookingToken } from '../config/utils/helper';
+
+const router = express.Router();
+const logger = createLogger('calendar.routes');
+
+
+async function sendCalendar(req: Request, res: Response, kind: CalendarFeedKind)
+{
+    const token = String(req.params.token ?? '').replace(/\.ics$/i, '');
+    if (!validateBookingToken(token))
+    {
+        return res.status(404).json({ success: false, message: 'Calendar not found' } as ApiResponse<void>);
+    }
+
+    try
+    {
+        const calendar = await CalendarFeedService.getCalendar(token, kind);
+        if (!calendar)
+        {
+            return res.status(404).json({ success: false, message: 'Calendar not found' } as ApiResponse<void>);
+        }
+        res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+        res.setHeader('Content-Disposition', `inline; filename="${kind === 'venue' ? 'buchungen' : 'termine'}.ics"`);
+        res.setHeader('Cache-Control', 'no-cache');
+        return res.send(calendar);
+    }
+    catch (error)
+    {
+        logger.error('Error building calendar feed', error);
+        return res.status(500).json({ success: false, message: 'Failed to load calendar' } as ApiResponse<void>);
+    }
+}
+
+
+/**
+ * GET /calendar/venue/:token
+ * Feed des ganzen Venues: eine Veranstaltung je Buchung (Leistung, Kunde, Wünsche).
+ *
+ * RESPONSE: 200 text/calendar, 404 bei unbekanntem Token
+ */
+router.get('/venue/:token', (req: Request, res: Response) => sendCalendar(req, res, 'venue'));
+
+
+/**
+ * GET /calendar/staff/:token
+ * Feed eines Mitarbeiters: nur die Termine bzw. Schritte, die er selbst ausführt.
+ *
+ * RESPONSE: 200 text/calendar, 404 bei unbekanntem Token
+ */
+router.get('/staff/:token', (req: Request, res: Response) => sendCalendar(req, res, 'staff'));
+
+export default router;
@@ -232,10 +232,11 @@ router.post('/bookings/:id/quick-rebook', requireEmailVerified, async (req: Requ
         const { booking_date, start_time, end_time, party_size } = req.body;
 
         const finalPartySize = party_size ?? originalBooking.party_size;
-        if (finalPartySize < 1 || finalPartySize > 8) {
+        // Online-Grenzen von Venue/Service prüft der BookingService
+        if (!Number.isInteger(finalPartySize) || finalPartySize < 1) {
             res.status(400).json({
                 success: false,
-                message: 'Anzahl Personen muss zwischen 1 und 8 liegen. Für mehr Gäste bitte anrufen.'
+                message: 'Anzahl Personen muss mindestens 1 sein'
             });
             return;
         }
@@ -261,8 +262,7 @@ router.post('/bookings/:id/quick-rebook', requireEmailVerified, async (req: Requ
             start_time,
             end_time,
             party_size: finalPartySize,
-            special_requests: originalBooking.special_requests ?? undefined,
-            total_amount: originalBooking.total_amount ?? undefined
+            special_requests: originalBooking.special_requests ?? undefined
         });
 
         res.status(201).json({
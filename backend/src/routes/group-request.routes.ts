@@ -0,0 +1,110 @@
+/**
+ * GROUP REQUEST ROUTES
+ *
+ * Öffentlicher Endpunkt für Gruppen über der Online-Höchstzahl:
+ * - POST /group-requests               -> Gruppenanfrage senden
+ *
+ * Owner-Bearbeitung (annehmen/absagen): siehe owner.routes (/owner/group-requests)
+ */
+
+import express, { Request, Response } from 'express';
+import { createLogger } from '../config/utils/logger';
+import { GroupRequestService } from '../services/group-request.service';
+import { ApiResponse, CreateGroupRequestData, GroupRequest } from '../config/utils/types';
+import { optionalCustomerAuth } from '../middleware/customer-auth.middleware';
+
+const router = express.Router();
+const logger = createLogger('group-request.routes');
+
+/** Max-Längen (wie bei Buchungen) */
+const MAX_CUSTOMER_NAME = 200;
+const MAX_CUSTOMER_PHONE = 50;
+const MAX_MESSAGE = 1000;
+
+
+/**
+ * POST /group-requests
+ * Sendet eine Anfrage für eine Gruppe über der Online-Höchstzahl; der Owner nimmt sie mit einer Zeit an oder sagt ab.
+ *
+ * REQUEST BODY (CreateGroupRequestData):
+ * {
+ *   venue_id: number,
+ *   service_id?: number,
+ *   customer_name: string,
+ *   customer_email: string,
+ *   customer_phone?: string,
+ *   preferred_date: string,        // Format: "YYYY-MM-DD"
+ *   preferred_time?: string,       // Optional: Wunschzeit "HH:MM"
+ *   party_size: number,            // größer als die Online-Höchstzahl
+ *   message?: string
+ * }
+ *
+ * RESPONSE: 201 mit Anfrage, 400 bei Validierungsfehlern, 404 Venue/Leistung unbekannt
+ */
+router.post('/', optionalCustomerAuth, async (req: Request, res: Response) =>
+{
+    const data: CreateGroupRequestData = req.body ?? {};
+
+    if (!data.venue_id || !data.customer_name || !data.customer_email || !data.preferred_date || !data.party_size)
+    {
+        return res.status(400).json({
+            success: false,
+            message: 'Missing required fields: venue_id, customer_name, customer_email, preferred_date, party_size'
+        } as ApiResponse<void>);
+    }
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(data.customer_email))
+    {
+        return res.status(400).json({ success: false, message: 'Invalid email format' } as ApiResponse<void>);
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(data.preferred_date))
+    {
+        return res.status(400).json({ success: false, message: 'Invalid date format. Expected: YYYY-MM-DD' } as ApiResponse<void>);
+    }
+    if (data.preferred_time && !/^\d{2}:\d{2}$/.test(data.preferred_time))
+    {
+        return res.status(400).json({ success: false, message: 'Invalid time format. Expected: HH:MM' } as ApiResponse<void>);
+    }
+    if (!Number.isInteger(data.party_size) || data.party_size < 1)
+    {
+        return res.status(400).json({ success: false, message: 'Party size must be at least 1' } as ApiResponse<void>);
+    }
+    if (data.service_id != null && (!Number.isInteger(data.service_id) || data.service_id < 1))
+    {
+        return res.status(400).json({ success: false, message: 'Invalid service_id' } as ApiResponse<void>);
+    }
+    if (String(data.customer_name).length > MAX_CUSTOMER_NAME)
+    {
+        return res.status(400).json({ success: false, message: `customer_name darf maximal ${MAX_CUSTOMER_NAME} Zeichen haben` } as ApiResponse<void>);
+    }
+    if (data.customer_phone != null && String(data.customer_phone).length > MAX_CUSTOMER_PHONE)
+    {
+        return res.status(400).json({ success: false, message: `customer_phone darf maximal ${MAX_CUSTOMER_PHONE} Zeichen haben` } as ApiResponse<void>);
+    }
+    if (data.message != null && String(data.message).length > MAX_MESSAGE)
+    {
+        return res.status(400).json({ success: false, message: `message darf maximal ${MAX_MESSAGE} Zeichen haben` } as ApiResponse<void>);
+    }
+
+    if (req.customerJwtPayload) data.customer_id = req.customerJwtPayload.customerId;
+
+    try
+    {
+        const request = await GroupRequestService.createRequest(data);
+        return res.status(201).json({
+            success: true,
+            message: 'Group request sent',
+            data: request
+        } as ApiResponse<GroupRequest>);
+    }
+    catch (error)
+    {
+        const msg = error instanceof Error ? error.message : 'Unknown error';
+        if (msg === 'Venue not found' || msg === 'Service not found') return res.status(404).json({ success: false, message: msg } as ApiResponse<void>);
+        if (msg === 'Cannot send a group request for a past date') return res.status(400).json({ success: false, message: msg } as ApiResponse<void>);
+        if (msg.startsWith('Group requests are only needed')) return res.status(400).json({ success: false, message: msg } as ApiResponse<void>);
+        logger.error('Error creating group request', error);
+        return res.status(500).json({ success: false, message: 'Failed to send group request' } as ApiResponse<void>);
+    }
+});
+
+export default router;
@@ -1,11 +1,17 @@
-import { Router, Request, Response } from 'express';
+import { Router, Request, Response, text } from 'express';
 import { authenticateAndLoadUser, requireRole } from '../middleware/auth.middleware';
 import { OwnerService } from '../services/owner.service';
+import type { DurationRuleInput, ServiceResourceInput, StaffServiceInput } from '../services/owner.service';
 import { getAuditLogForBooking } from '../services/audit.service';
 import { BookingService } from '../services/booking.service';
+import { BookingSeriesService } from '../services/booking-series.service';
 import { VenueService } from '../services/venue.service';
+import { GroupRequestService } from '../services/group-request.service';
+import { CalendarFeedService } from '../services/calendar-feed.service';
+import { ExternalCalendarService } from '../services/external-calendar.service';
 import { createLogger } from '../config/utils/logger';
-import { CreateBookingData } from '../config/utils/types';
+import { getDaysBetween, isValidTimeZone } from '../config/utils/timezone';
+import { AcceptGroupRequestData, CreateBookingData, GroupRequestStatus, OverbookingMode, SeriesScope, StaffAssignmentStrategy, UpdateBookingData, WaitlistEntry } from '../config/utils/types';
 
 const router = Router();
 const logger = createLogger('owner.routes');
@@ -13,6 +19,9 @@ const logger = createLogger('owner.routes');
 const MAX_CUSTOMER_NAME = 200;
 const MAX_CUSTOMER_PHONE = 50;
 const MAX_SPECIAL_REQUESTS = 500;
+const MIN_SLOT_INTERVAL = 5;
+const MAX_SLOT_INTERVAL = 240;
+const MAX_PARTY_SIZE_LIMIT = 500;
 
 router.use(authenticateAndLoadUser);
 router.use(requireRole('owner'));
@@ -21,6 +30,91 @@ function getVenueId(req: Request): number | null {
     return req.jwtPayload?.venueId ?? null;
 }
 
+/** Personenzahl-Grenze: null/'' = Standard (Venue), sonst ganze Zahl ab 1; undefined = nicht ändern, NaN = ungültig */
+function parsePartySizeLimit(v: unknown): number | null | undefined {
+    if (v === undefined) return undefined;
+    if (v === null || v === '') return null;
+    const n = typeof v === 'number' ? v : Number(v);
+    return Number.isInteger(n) && n >= 1 && n <= MAX_PARTY_SIZE_LIMIT ? n : NaN;
+}
+
+/** Slot-Raster: null/'' = Standard (Dauer), sonst ganze Minuten im erlaubten Bereich; undefined = nicht ändern, NaN = ungültig */
+function parseSlotInterval(v: unknown): number | null | undefined {
+    if (v === undefined) return undefined;
+    if (v === null || v === '') return null;
+    const n = typeof v === 'number' ? v : Number(v);
+    return Number.isInteger(n) && n >= MIN_SLOT_INTERVAL && n <= MAX_SLOT_INTERVAL ? n : NaN;
+}
+
+const MAX_OVERBOOKING = 100;
+const OVERBOOKING_MODES: OverbookingMode[] = ['off', 'fixed', 'no_show_rate'];
+const MAX_OVERBOOKING_RANGE_DAYS = 31;
+
+/** Überbuchung (zusätzliche Gäste, Obergrenze): null/'' = Standard (Venue), sonst ganze Zahl 0–MAX; undefined = nicht ändern, NaN = ungültig */
+function parseOverbookingNumber(v: unknown): number | null | undefined {
+    if (v === undefined) return undefined;
+    if (v === null || v === '') return null;
+    const n = typeof v === 'number' ? v : Number(v);
+    return Number.isInteger(n) && n >= 0 && n <= MAX_OVERBOOKING ? n : NaN;
+}
+
+const MAX_DURATION_RULES = 20;
+
+/** Dauer-Regeln (Personenzahl-Bereich → Dauer): undefined = nicht ändern, null = ungültig; [] entfernt alle Regeln */
+function parseDurationRules(v: unknown): DurationRuleInput[] | null | undefined {
+    if (v === undefined) return undefined;
+    if (!Array.isArray(v) || v.length > MAX_DURATION_RULES) return null;
+    const rules: DurationRuleInput[] = [];
+    for (const entry of v as Record<string, unknown>[]) {
+        const min = Number(entry?.min_party_size);
+        const max = entry?.max_party_size == null || entry.max_party_size === '' ? null : Number(entry.max_party_size);
+        const duration = Number(entry?.duration_minutes);
+        if (!Number.isInteger(min) || min < 1 || min > MAX_PARTY_SIZE_LIMIT) return null;
+        if (max !== null && (!Number.isInteger(max) || max < 1 || max > MAX_PARTY_SIZE_LIMIT)) return null;
+        if (!Number.isInteger(duration) || duration < 1 || duration > 24 * 60) return null;
+        rules.push({ min_party_size: min, max_party_size: max, duration_minutes: duration });
+    }
+    return rules;
+}
+
+const MAX_RESOURCE_QUANTITY = 100;
+const MAX_SERVICE_RESOURCES = 10;
+
+/** Ressourcenbedarf einer Leistung (Ressource → Anzahl): undefined = nicht ändern, null = ungültig; [] entfernt allen Bedarf */
+function parseServiceResources(v: unknown): ServiceResourceInput[] | null | undefined {
+    if (v === undefined) return undefined;
+    if (!Array.isArray(v) || v.length > MAX_SERVICE_RESOURCES) return null;
+    const resources: ServiceResourceInput[] = [];
+    for (const entry of v as Record<string, unknown>[]) {
+        const resourceId = Number(entry?.resource_id);
+        const quantity = entry?.quantity == null || entry.quantity === '' ? 1 : Number(entry.quantity);
+        if (!Number.isInteger(resourceId) || resourceId < 1) return null;
+        if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_RESOURCE_QUANTITY) return null;
+        resources.push({ resource_id: resourceId, quantity });
+    }
+    return resources;
+}
+
+const MAX_SERVICE_STAFF = 50;
+const MAX_STAFF_PRICE = 100000;
+
+/** Abweichende Dauer/Preis je Mitarbeiter: null/'' = Wert der Leistung; undefined = nicht ändern, null = ungültig */
+function parseServiceStaff(v: unknown): StaffServiceInput[] | null | undefined {
+    if (v === undefined) return undefined;
+    if (!Array.isArray(v) || v.length > MAX_SERVICE_STAFF) return null;
+    const links: StaffServiceInput[] = [];
+    for (const entry of v as Record<string, unknown>[]) {
+        const staffMemberId = Number(entry?.staff_member_id);
+        const duration = entry?.duration_minutes == null || entry.duration_minutes === '' ? null : Number(entry.duration_minutes);
+        const price = entry?.price == null || entry.price === '' ? null : Number(entry.price);
+        if (!Number.isInteger(staffMemberId) || staffMemberId < 1) return null;
+        if (duration !== null && (!Number.isInteger(duration) || duration < 1 || duration > 24 * 60)) return null;
+        if (price !== null && (!Number.isFinite(price) || price < 0 || price > MAX_STAFF_PRICE)) return null;
+        links.push({ staff_member_id: staffMemberId, duration_minutes: duration, price });
+    }
+    return links;
+}
+
 router.get('/bookings', async (req: Request, res: Response) => {
     const venueId = getVenueId(req);
     if (!venueId) {
@@ -97,7 +191,7 @@ router.get('/bookings/:id/audit', async (req: Request, res: Response) => {
 router.patch('/bookings/:id/status', async (req: Request, res: Response) => {
     const venueId = getVenueId(req);
     const bookingId = parseInt(req.params.id);
-    const { status, reason } = req.body;
+    const { status, reason, scope = 'single' } = req.body;
     if (!status) {
         res.status(400).json({ success: false, message: 'Status ist erforderlich' });
         return;
@@ -107,8 +201,18 @@ router.patch('/bookings/:id/status', async (req: Request, res: Response) => {
         res.status(400).json({ success: false, message: 'Ungültiger Status' });
         return;
     }
+    if (!SERIES_SCOPES.includes(scope) || (scope === 'following' && status !== 'cancelled')) {
+        res.status(400).json({ success: false, message: 'Folgetermine können nur gemeinsam storniert werden' });
+        return;
+    }
     try {
         const auditContext = req.user ? { userId: req.user.id, actorType: req.user.role } : undefined;
+        if (scope === 'following' && venueId && auditContext) {
+            // Serie: dieser und alle folgenden Termine
+            const cancelled = await BookingSeriesService.cancelAsOwner(bookingId, scope, reason, auditContext, venueId);
+            res.json({ success: true, data: cancelled[0], message: `${cancelled.length} Termine storniert` });
+            return;
+        }
         const booking = await OwnerService.updateBookingStatus(bookingId, status, reason, auditContext, venueId ?? undefined);
         res.json({ success: true, data: booking, message: 'Status erfolgreich aktualisiert' });
     } catch (error) {
@@ -121,6 +225,55 @@ router.patch('/bookings/:id/status', async (req: Request, res: Response) => {
     }
 });
 
+const SERIES_SCOPES: SeriesScope[] = ['single', 'following'];
+const BOOKING_UPDATE_FIELDS = ['booking_date', 'start_time', 'end_time', 'staff_member_id'];
+
+/** Termin verschieben (Datum/Zeit/Mitarbeiter); bei Serien optional dieser und alle folgenden Termine */
+router.patch('/bookings/:id', async (req: Request, res: Response) => {
+    const venueId = getVenueId(req);
+    if (!venueId) {
+        res.status(403).json({ success: false, message: 'Kein Venue zugewiesen' });
+        return;
+    }
+    const { scope = 'single', ...body } = req.body ?? {};
+    const updates: UpdateBookingData = {};
+    for (const field of BOOKING_UPDATE_FIELDS) {
+        if (body[field] !== undefined) (updates as Record<string, unknown>)[field] = body[field];
+    }
+    if (Object.keys(updates).length === 0 || Object.keys(body).some(field => !BOOKING_UPDATE_FIELDS.includes(field))) {
+        res.status(400).json({ success: false, message: `Erlaubte Felder: ${BOOKING_UPDATE_FIELDS.join(', ')}` });
+        return;
+    }
+    if ((updates.booking_date && !DATE_PATTERN.test(updates.booking_date))
+        || (updates.start_time && !TIME_PATTERN.test(updates.start_time))
+        || (updates.end_time && !TIME_PATTERN.test(updates.end_time))) {
+        res.status(400).json({ success: false, message: 'Ungültiges Datum oder Uhrzeit' });
+        return;
+    }
+    if (!SERIES_SCOPES.includes(scope)) {
+        res.status(400).json({ success: false, message: 'Ungültiger Geltungsbereich' });
+        return;
+    }
+    try {
+        const booking = await OwnerService.getBookingById(venueId, parseInt(req.params.id));
+        if (!booking) {
+            res.status(404).json({ success: false, message: 'Buchung nicht gefunden' });
+            return;
+        }
+        const auditContext = req.user ? { userId: req.user.id, actorType: req.user.role } : undefined;
+        const result = await BookingSeriesService.updateByToken(booking.booking_token, scope, updates, auditContext);
+        if (result.conflicts.length > 0) {
+            res.status(409).json({ success: false, message: 'Nicht alle Termine sind verfügbar', data: result.conflicts });
+            return;
+        }
+        res.json({ success: true, data: result.bookings[0], message: result.bookings.length > 1 ? `${result.bookings.length} Termine geändert` : 'Buchung geändert' });
+    } catch (error) {
+        const msg = (error as Error).message || '';
+        if (msg.startsWith('Update not possible') || msg.startsWith('Cannot update')) res.status(409).json({ success: false, message: msg });
+        else res.status(500).json({ success: false, message: 'Fehler beim Ändern der Buchung' });
+    }
+});
+
 router.get('/stats', async (req: Request, res: Response) => {
     const venueId = getVenueId(req);
     if (!venueId) {
@@ -158,9 +311,19 @@ router.patch('/services/:id', async (req: Request, res: Response) => {
         return;
     }
     const serviceId = parseInt(req.params.id);
-    const { name, description, duration_minutes: rawDuration, price: rawPrice, is_active } = req.body;
+    const { name, description, duration_minutes: rawDuration, price: rawPrice, buffer_before_minutes: rawBufferBefore, buffer_after_minutes: rawBufferAfter, slot_interval_minutes: rawInterval, min_party_size: rawMinParty, max_party_size: rawMaxParty, overbooking_mode, overbooking_value: rawOverbookingValue, overbooking_cap: rawOverbookingCap, duration_rules: rawDurationRules, resources: rawResources, staff: rawStaff, is_active } = req.body;
     const duration_minutes = rawDuration !== undefined && rawDuration !== null ? (typeof rawDuration === 'number' ? rawDuration : Number(rawDuration)) : undefined;
     const price = rawPrice !== undefined && rawPrice !== null ? (typeof rawPrice === 'number' ? rawPrice : Number(rawPrice)) : undefined;
+    const buffer_before_minutes = rawBufferBefore !== undefined && rawBufferBefore !== null ? Number(rawBufferBefore) : undefined;
+    const buffer_after_minutes = rawBufferAfter !== undefined && rawBufferAfter !== null ? Number(rawBufferAfter) : undefined;
+    const slot_interval_minutes = parseSlotInterval(rawInterval);
+    const min_party_size = parsePartySizeLimit(rawMinParty);
+    const max_party_size = parsePartySizeLimit(rawMaxParty);
+    const duration_rules = parseDurationRules(rawDurationRules);
+    const resources = parseServiceResources(rawResources);
+    const staff = parseServiceStaff(rawStaff);
+    const overbooking_value = parseOverbookingNumber(rawOverbookingValue);
+    const overbooking_cap = parseOverbookingNumber(rawOverbookingCap);
     if (duration_minutes !== undefined && (Number.isNaN(duration_minutes) || duration_minutes < 1)) {
         res.status(400).json({ success: false, message: 'duration_minutes muss eine positive Zahl sein' });
         return;
@@ -169,13 +332,48 @@ router.patch('/services/:id', async (req: Request, res: Response) => {
         res.status(400).json({ success: false, message: 'price muss eine gültige Zahl sein' });
         return;
     }
+    for (const [field, value] of [['buffer_before_minutes', buffer_before_minutes], ['buffer_after_minutes', buffer_after_minutes]] as const) {
+        if (value !== undefined && (!Number.isInteger(value) || value < 0 || value > 240)) {
+            res.status(400).json({ success: false, message: `${field} muss eine ganze Zahl zwischen 0 und 240 sein` });
+            return;
+        }
+    }
+    if (Number.isNaN(slot_interval_minutes)) {
+        res.status(400).json({ success: false, message: `slot_interval_minutes muss zwischen ${MIN_SLOT_INTERVAL} und ${MAX_SLOT_INTERVAL} liegen` });
+        return;
+    }
+    if (Number.isNaN(min_party_size) || Number.isNaN(max_party_size)) {
+        res.status(400).json({ success: false, message: `min_party_size/max_party_size müssen zwischen 1 und ${MAX_PARTY_SIZE_LIMIT} liegen` });
+        return;
+    }
+    if (overbooking_mode != null && !OVERBOOKING_MODES.includes(overbooking_mode)) {
+        res.status(400).json({ success: false, message: `overbooking_mode muss einer von ${OVERBOOKING_MODES.join(', ')} sein` });
+        return;
+    }
+    if (Number.isNaN(overbooking_value) || Number.isNaN(overbooking_cap)) {
+        res.status(400).json({ success: false, message: `overbooking_value/overbooking_cap müssen zwischen 0 und ${MAX_OVERBOOKING} liegen` });
+        return;
+    }
+    if (duration_rules === null) {
+        res.status(400).json({ success: false, message: `duration_rules: höchstens ${MAX_DURATION_RULES} Regeln mit Personenzahl 1–${MAX_PARTY_SIZE_LIMIT} und Dauer in Minuten` });
+        return;
+    }
+    if (resources === null) {
+        res.status(400).json({ success: false, message: `resources: höchstens ${MAX_SERVICE_RESOURCES} Ressourcen mit Anzahl 1–${MAX_RESOURCE_QUANTITY}` });
+        return;
+    }
+    if (staff === null) {
+        res.status(400).json({ success: false, message: `staff: höchstens ${MAX_SERVICE_STAFF} Mitarbeiter mit Dauer in Minuten und Preis 0–${MAX_STAFF_PRICE}` });
+        return;
+    }
     try {
-        const service = await OwnerService.updateService(serviceId, { name, description, duration_minutes, price, is_active }, venueId);
+        const service = await OwnerService.updateService(serviceId, { name, description, duration_minutes, price, buffer_before_minutes, buffer_after_minutes, slot_interval_minutes, min_party_size, max_party_size, overbooking_mode: overbooking_mode === '' ? null : overbooking_mode, overbooking_value, overbooking_cap, duration_rules, resources, staff, is_active }, venueId);
         res.json({ success: true, data: service, message: 'Service erfolgreich aktualisiert' });
     } catch (error) {
         const msg = (error as Error).message;
         if (msg === 'Service not found') res.status(404).json({ success: false, message: 'Service nicht gefunden' });
         else if (msg === 'Kein Zugriff auf diesen Service') res.status(403).json({ success: false, message: msg });
+        else if (msg === 'Mindest-Personenzahl darf die Höchst-Personenzahl nicht überschreiten' || msg.startsWith('Dauer-Regel') || msg.startsWith('Ressource') || msg.startsWith('Mitarbeiter')) res.status(400).json({ success: false, message: msg });
         else res.status(500).json({ success: false, message: 'Fehler beim Aktualisieren des Services' });
     }
 });
@@ -195,111 +393,1347 @@ router.get('/availability', async (req: Request, res: Response) => {
     }
 });
 
-router.patch('/availability/:id', async (req: Request, res: Response) => {
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]?[0-9]|2[0-3]):[0-5][0-9]$/;
+const MAX_EXCEPTION_REASON = 255;
+
+/** Prüft Format der Ausnahme-Felder; liefert Fehlermeldung oder null. */
+function validateExceptionBody(body: Record<string, unknown>, requireDate: boolean): string | null {
+    if (requireDate && !body.date) return 'Datum ist erforderlich';
+    if (body.date !== undefined && !DATE_PATTERN.test(String(body.date))) return 'Ungültiges Datum (YYYY-MM-DD)';
+    for (const field of ['start_time', 'end_time']) {
+        const value = body[field];
+        if (value != null && value !== '' && !TIME_PATTERN.test(String(value))) return `Ungültige Uhrzeit für ${field} (HH:MM)`;
+    }
+    if (body.staff_member_id != null && body.staff_member_id !== '' && !Number.isInteger(Number(body.staff_member_id))) return 'Ungültige staff_member_id';
+    if (body.is_available !== undefined && typeof body.is_available !== 'boolean') return 'is_available muss true oder false sein';
+    if (body.reason != null && String(body.reason).length > MAX_EXCEPTION_REASON) return `reason darf maximal ${MAX_EXCEPTION_REASON} Zeichen haben`;
+    return null;
+}
+
+const EXCEPTION_CLIENT_ERRORS = [
+    'Mitarbeiter nicht gefunden',
+    'Start- und Endzeit nur gemeinsam angeben',
+    'Zusätzliche Öffnungszeiten benötigen Start- und Endzeit',
+    'Start- und Endzeit dürfen nicht gleich sein',
+];
+
+router.get('/availability/exceptions', async (req: Request, res: Response) => {
     const venueId = getVenueId(req);
     if (!venueId) {
         res.status(403).json({ success: false, message: 'Kein Venue zugewiesen' });
         return;
     }
-    const ruleId = parseInt(req.params.id);
-    const { start_time, end_time, is_active } = req.body;
+    const from = req.query.from as string | undefined;
+    const to = req.query.to as string | undefined;
+    if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+        res.status(400).json({ success: false, message: 'Ungültiges Datum (YYYY-MM-DD)' });
+        return;
+    }
     try {
-        await OwnerService.updateAvailabilityRule(ruleId, { start_time, end_time, is_active }, venueId);
-        res.json({ success: true, message: 'Verfügbarkeit erfolgreich aktualisiert' });
+        const exceptions = await OwnerService.getAvailabilityExceptions(venueId, { from, to });
+        res.json({ success: true, data: exceptions });
     } catch (error) {
-        const msg = (error as Error).message;
-        if (msg === 'Verfügbarkeitsregel nicht gefunden') res.status(404).json({ success: false, message: msg });
-        else if (msg === 'Kein Zugriff auf diese Verfügbarkeitsregel') res.status(403).json({ success: false, message: msg });
-        else res.status(500).json({ success: false, message: 'Fehler beim Aktualisieren der Verfügbarkeit' });
+        logger.error('Error fetching availability exceptions', error);
+        res.status(500).json({ success: false, message: 'Fehler beim Laden der Ausnahmen' });
     }
 });
 
-router.post('/bookings', async (req: Request, res: Response) => {
+router.post('/availability/exceptions', async (req: Request, res: Response) => {
     const venueId = getVenueId(req);
     if (!venueId) {
         res.status(403).json({ success: false, message: 'Kein Venue zugewiesen' });
         return;
     }
-    const bookingData: CreateBookingData = { ...req.body, venue_id: venueId };
-    const requiredFields = ['service_id', 'customer_name', 'customer_email', 'booking_date', 'start_time', 'end_time', 'party_size'];
-    const missingFields = requiredFields.filter(field => !bookingData[field as keyof CreateBookingData]);
-    if (missingFields.length > 0) {
-        res.status(400).json({ success: false, message: `Fehlende Felder: ${missingFields.join(', ')}` });
+    const body = req.body ?? {};
+    const validationError = validateExceptionBody(body, true);
+    if (validationError) {
+        res.status(400).json({ success: false, message: validationError });
         return;
     }
-    if (String(bookingData.customer_name ?? '').length > MAX_CUSTOMER_NAME) {
-        res.status(400).json({ success: false, message: `customer_name darf maximal ${MAX_CUSTOMER_NAME} Zeichen haben` });
+    const { staff_member_id, date, start_time, end_time, is_available, reason } = body;
+    try {
+        const exception = await OwnerService.createAvailabilityException(venueId, {
+            staff_member_id: staff_member_id != null && staff_member_id !== '' ? Number(staff_member_id) : null,
+            date, start_time, end_time, is_available, reason,
+        });
+        res.status(201).json({ success: true, message: 'Ausnahme erfolgreich angelegt', data: exception });
+    } catch (error) {
+        const msg = (error as Error).message;
+        if (EXCEPTION_CLIENT_ERRORS.includes(msg)) res.status(400).json({ success: false, message: msg });
+        else res.status(500).json({ success: false, message: 'Fehler beim Anlegen der Ausnahme' });
+    }
+});
+
+router.patch('/availability/exceptions/:id', async (req: Request, res: Response) => {
+    const venueId = getVenueId(req);
+    if (!venueId) {
+        res.status(403).json({ success: false, message: 'Kein Venue zugewiesen' });
         return;
     }
-    if (bookingData.customer_phone != null && String(bookingData.customer_phone).length > MAX_CUSTOMER_PHONE) {
-        res.status(400).json({ success: false, message: `customer_phone darf maximal ${MAX_CUSTOMER_PHONE} Zeichen haben` });
+    const exceptionId = parseInt(req.params.id);
+    const body = req.body ?? {};
+    const validationError = validateExceptionBody(body, false);
+    if (validationError) {
+        res.status(400).json({ success: false, message: validationError });
         return;
     }
-    if (bookingData.special_requests != null && String(bookingData.special_requests).length > MAX_SPECIAL_REQUESTS) {
-        res.status(400).json({ success: false, message: `special_requests darf maximal ${MAX_SPECIAL_REQUESTS} Zeichen haben` });
+    const { date, start_time, end_time, is_available, reason } = body;
+    try {
+        await OwnerService.updateAvailabilityException(exceptionId, { date, start_time, end_time, is_available, reason }, venueId);
+        res.json({ success: true, message: 'Ausnahme erfolgreich aktualisiert' });
+    } catch (error) {
+        const msg = (error as Error).message;
+        if (msg === 'Ausnahme nicht gefunden') res.status(404).json({ success: false, message: msg });
+        else if (msg === 'Kein Zugriff auf diese Ausnahme') res.status(403).json({ success: false, message: msg });
+        else if (EXCEPTION_CLIENT_ERRORS.includes(msg)) res.status(400).json({ success: false, message: msg });
+        else res.status(500).json({ success: false, message: 'Fehler beim Aktualisieren der Ausnahme' });
+    }
+});
+
+router.delete('/availability/exceptions/:id', async (req: Request, res: Response) => {
+    const venueId = getVenueId(req);
+    if (!venueId) {
+        res.status(403).json({ success: false, message: 'Kein Venue zugewiesen' });
+        return;
+    }
+    const exceptionId = parseInt(req.params.id);
+    try {
+        await OwnerService.deleteAvailabilityException(exceptionId, venueId);
+        res.json({ success: true, message: 'Ausnahme gelöscht' });
+    } catch (error) {
+        const msg = (error as Error).message;
+        if (msg === 'Ausnahme nicht gefunden') res.status(404).json({ success: false, message: msg });
+        else if (msg === 'Kein Zugriff auf diese Ausnahme') res.status(403).json({ success: false, message: msg });
+        else res.status(500).json({ success: false, message: 'Fehler beim Löschen der Ausnahme' });
+    }
+});
+
+/** Prüft eine neue Wochenregel (Grundplan oder Zeitplan); liefert Fehlermeldung oder null. */
+function validateAvailabilityRuleBody(body: Record<string, unknown>): string | null {
+    const dayOfWeek = Number(body.day_of_week);
+    if (body.day_of_week == null || body.day_of_week === '' || !Number.isInteger(dayOfWeek) || dayOfWeek < 0 || dayOfWeek > 6) return 'day_of_week muss zwischen 0 und 6 liegen';
+    if (!body.start_time || !body.end_time) return 'Start- und Endzeit sind erforderlich';
+    for (const field of ['start_time', 'end_time']) {
+        if (!TIME_PATTERN.test(String(body[field]))) return `Ungültige Uhrzeit für ${field} (HH:MM)`;
+    }
+    for (const field of ['staff_member_id', 'rule_set_id']) {
+        const value = body[field];
+        if (value != null && value !== '' && !Number.isInteger(Number(value))) return `Ungültige ${field}`;
+    }
+    return null;
+}
+
+router.post('/availability', async (req: Request, res: Response) => {
+    const venueId = getVenueId(req);
+    if (!venueId) {
+        res.status(403).json({ success: false, message: 'Kein Venue zugewiesen' });
         return;
     }
-    if (bookingData.party_size < 1 || bookingData.party_size > 8) {
-        res.status(400).json({ success: false, message: 'Anzahl Personen muss zwischen 1 und 8 liegen. Für mehr Gäste bitte anrufen.' });
+    const body = req.body ?? {};
+    const validationError = validateAvailabilityRuleBody(body);
+    if (validationError) {
+        res.status(400).json({ success: false, message: validationError });
         return;
     }
+    const optionalId = (v: unknown) => v != null && v !== '' ? Number(v) : null;
     try {
-        const booking = await BookingService.createBooking(bookingData, true);
-        res.status(201).json({ success: true, data: booking, message: 'Buchung erfolgreich erstellt' });
+        const rule = await OwnerService.createAvailabilityRule(venueId, {
+            staff_member_id: optionalId(body.staff_member_id),
+            rule_set_id: optionalId(body.rule_set_id),
+            day_of_week: Number(body.day_of_week),
+            start_time: String(body.start_time).padStart(5, '0'),
+            end_time: String(body.end_time).padStart(5, '0'),
+        });
+        res.status(201).json({ success: true, message: 'Verfügbarkeit erfolgreich angelegt', data: rule });
     } catch (error) {
-        const msg = (error as Error).message || '';
-        if (msg.includes('not available')) res.status(400).json({ success: false, message: 'Zeitslot nicht verfügbar' });
-        else res.status(500).json({ success: false, message: 'Fehler beim Erstellen der Buchung' });
+        const msg = (error as Error).message;
+        if (msg === 'Zeitplan nicht gefunden') res.status(404).json({ success: false, message: msg });
+        else if (msg === 'Kein Zugriff auf diesen Zeitplan') res.status(403).json({ success: false, message: msg });
+        else if (msg === 'Mitarbeiter nicht gefunden' || msg === 'Start- und Endzeit dürfen nicht gleich sein') res.status(400).json({ success: false, message: msg });
+        else res.status(500).json({ success: false, message: 'Fehler beim Anlegen der Verfügbarkeit' });
     }
 });
 
-router.get('/venue/settings', async (req: Request, res: Response) => {
+router.get('/availability/schedule', async (req: Request, res: Response) => {
     const venueId = getVenueId(req);
     if (!venueId) {
         res.status(403).json({ success: false, message: 'Kein Venue zugewiesen' });
         return;
     }
+    const date = req.query.date as string | undefined;
+    if (!date || !DATE_PATTERN.test(date)) {
+        res.status(400).json({ success: false, message: 'date erforderlich (YYYY-MM-DD)' });
+        return;
+    }
     try {
-        const venue = await VenueService.getVenueById(venueId);
-        if (!venue) {
-            res.status(404).json({ success: false, message: 'Venue nicht gefunden' });
-            return;
-        }
-        res.json({ success: true, data: venue });
+        const schedule = await OwnerService.getAvailabilitySchedule(venueId, date);
+        res.json({ success: true, data: schedule });
     } catch (error) {
-        logger.error('Error fetching venue settings', error);
-        res.status(500).json({ success: false, message: 'Fehler beim Laden der Einstellungen' });
+        logger.error('Error fetching availability schedule', error);
+        res.status(500).json({ success: false, message: 'Fehler beim Laden des gültigen Zeitplans' });
     }
 });
 
-router.patch('/venue/settings', async (req: Request, res: Response) => {
+router.get('/availability/explain', async (req: Request, res: Response) => {
     const venueId = getVenueId(req);
     if (!venueId) {
         res.status(403).json({ success: false, message: 'Kein Venue zugewiesen' });
         return;
     }
-    const { booking_advance_hours: rawAdvance, cancellation_hours: rawCancel, image_url } = req.body;
-    const parseNonNegative = (v: unknown): number | undefined => {
-        if (v === undefined || v === null) return undefined;
-        const n = typeof v === 'number' ? v : Number(v);
-        return (Number.isNaN(n) || n < 0) ? undefined : n;
+    const date = req.query.date as string | undefined;
+    const serviceId = Number(req.query.service_id);
+    const staffMemberId = req.query.staff_member_id ? Number(req.query.staff_member_id) : null;
+    const partySize = req.query.party_size ? Number(req.query.party_size) : 1;
+    if (!date || !DATE_PATTERN.test(date)) {
+        res.status(400).json({ success: false, message: 'date erforderlich (YYYY-MM-DD)' });
+        return;
+    }
+    if (!Number.isInteger(serviceId) || serviceId < 1) {
+        res.status(400).json({ success: false, message: 'service_id erforderlich' });
+        return;
+    }
+    if (staffMemberId !== null && (!Number.isInteger(staffMemberId) || staffMemberId < 1)) {
+        res.status(400).json({ success: false, message: 'Ungültige staff_member_id' });
+        return;
+    }
+    if (!Number.isInteger(partySize) || partySize < 1 || partySize > MAX_PARTY_SIZE_LIMIT) {
+        res.status(400).json({ success: false, message: `party_size muss zwischen 1 und ${MAX_PARTY_SIZE_LIMIT} liegen` });
+        return;
+    }
+    try {
+        const explanation = await OwnerService.explainAvailability(venueId, { date, service_id: serviceId, staff_member_id: staffMemberId, party_size: partySize });
+        res.json({ success: true, data: explanation });
+    } catch (error) {
+        const msg = (error as Error).message;
+        if (msg === 'Service not found') res.status(404).json({ success: false, message: 'Service nicht gefunden' });
+        else if (msg === 'Mitarbeiter bietet diese Leistung nicht an') res.status(400).json({ success: false, message: msg });
+        else res.status(500).json({ success: false, message: 'Fehler beim Prüfen der Verfügbarkeit' });
+    }
+});
+
+const MAX_RULE_SET_NAME = 100;
+
+/** Prüft Format der Zeitplan-Felder; liefert Fehlermeldung oder null. */
+function validateRuleSetBody(body: Record<string, unknown>, requireFields: boolean): string | null {
+    if (requireFields && (body.name == null || String(body.name).trim() === '')) return 'Name ist erforderlich';
+    if (body.name != null && String(body.name).length > MAX_RULE_SET_NAME) return `name darf maximal ${MAX_RULE_SET_NAME} Zeichen haben`;
+    for (const field of ['valid_from', 'valid_until']) {
+        const value = body[field];
+        if (value != null && value !== '' && !DATE_PATTERN.test(String(value))) return `Ungültiges Datum für ${field} (YYYY-MM-DD)`;
+    }
+    if (body.is_active !== undefined && typeof body.is_active !== 'boolean') return 'is_active muss true oder false sein';
+    return null;
+}
+
+/** Normalisiert den Request-Body auf die Zeitplan-Felder (leeres Datum = offener Zeitraum). */
+function parseRuleSetBody(body: Record<string, unknown>) {
+    const optionalDate = (v: unknown) => v === undefined ? undefined : (v === null || v === '' ? null : String(v));
+    return {
+        name: body.name !== undefined ? String(body.name).trim() : undefined,
+        valid_from: optionalDate(body.valid_from),
+        valid_until: optionalDate(body.valid_until),
+        is_active: body.is_active as boolean | undefined,
     };
-    const booking_advance_hours = parseNonNegative(rawAdvance);
-    const cancellation_hours = parseNonNegative(rawCancel);
-    const imageUrl = image_url === undefined ? undefined : (typeof image_url === 'string' ? image_url : image_url === null ? null : undefined);
-    if (rawAdvance !== undefined && rawAdvance !== null && booking_advance_hours === undefined) {
-        res.status(400).json({ success: false, message: 'booking_advance_hours muss eine positive Zahl sein' });
+}
+
+router.get('/availability/rule-sets', async (req: Request, res: Response) => {
+    const venueId = getVenueId(req);
+    if (!venueId) {
+        res.status(403).json({ success: false, message: 'Kein Venue zugewiesen' });
         return;
     }
-    if (rawCancel !== undefined && rawCancel !== null && cancellation_hours === undefined) {
-        res.status(400).json({ success: false, message: 'cancellation_hours muss eine positive Zahl sein' });
+    try {
+        const ruleSets = await OwnerService.getAvailabilityRuleSets(venueId);
+        res.json({ success: true, data: ruleSets });
+    } catch (error) {
+        logger.error('Error fetching availability rule sets', error);
+        res.status(500).json({ success: false, message: 'Fehler beim Laden der Zeitpläne' });
+    }
+});
+
+router.post('/availability/rule-sets', async (req: Request, res: Response) => {
+    const venueId = getVenueId(req);
+    if (!venueId) {
+        res.status(403).json({ success: false, message: 'Kein Venue zugewiesen' });
+        return;
+    }
+    const body = req.body ?? {};
+    const validationError = validateRuleSetBody(body, true);
+    if (validationError) {
+        res.status(400).json({ success: false, message: validationError });
         return;
     }
     try {
-        await OwnerService.updateVenueSettings(venueId, { booking_advance_hours, cancellation_hours, image_url: imageUrl });
-        res.json({ success: true, message: 'Einstellungen erfolgreich aktualisiert' });
+        const ruleSet = await OwnerService.createAvailabilityRuleSet(venueId, parseRuleSetBody(body));
+        res.status(201).json({ success: true, message: 'Zeitplan erfolgreich angelegt', data: ruleSet });
+    } catch (error) {
+        const msg = (error as Error).message;
+        if (msg === 'Gültig ab darf nicht nach Gültig bis liegen') res.status(400).json({ success: false, message: msg });
+        else res.status(500).json({ success: false, message: 'Fehler beim Anlegen des Zeitplans' });
+    }
+});
+
+router.patch('/availability/rule-sets/:id', async (req: Request, res: Response) => {
+    const venueId = getVenueId(req);
+    if (!venueId) {
+        res.status(403).json({ success: false, message: 'Kein Venue zugewiesen' });
+        return;
+    }
+    const ruleSetId = parseInt(req.params.id);
+    const body = req.body ?? {};
+    const validationError = validateRuleSetBody(body, false);
+    if (validationError) {
+        res.status(400).json({ success: false, message: validationError });
+        return;
+    }
+    try {
+        await OwnerService.updateAvailabilityRuleSet(ruleSetId, parseRuleSetBody(body), venueId);
+        res.json({ success: true, message: 'Zeitplan erfolgreich aktualisiert' });
+    } catch (error) {
+        const msg = (error as Error).message;
+        if (msg === 'Zeitplan nicht gefunden') res.status(404).json({ success: false, message: msg });
+        else if (msg === 'Kein Zugriff auf diesen Zeitplan') res.status(403).json({ success: false, message: msg });
+        else if (msg === 'Gültig ab darf nicht nach Gültig bis liegen') res.status(400).json({ success: false, message: msg });
+        else res.status(500).json({ success: false, message: 'Fehler beim Aktualisieren des Zeitplans' });
+    }
+});
+
+router.delete('/availability/rule-sets/:id', async (req: Request, res: Response) => {
+    const venueId = getVenueId(req);
+    if (!venueId) {
+        res.status(403).json({ success: false, message: 'Kein Venue zugewiesen' });
+        return;
+    }
+    const ruleSetId = parseInt(req.params.id);
+    try {
+        await OwnerService.deleteAvailabilityRuleSet(ruleSetId, venueId);
+        res.json({ success: true, message: 'Zeitplan gelöscht' });
+    } catch (error) {
+        const msg = (error as Error).message;
+        if (msg === 'Zeitplan nicht gefunden') res.status(404).json({ success: false, message: msg });
+        else if (msg === 'Kein Zugriff auf diesen Zeitplan') res.status(403).json({ success: false, message: msg });
+        else res.status(500).json({ success: false, message: 'Fehler beim Löschen des Zeitplans' });
+    }
+});
+
+const STAFF_SCHEDULE_TYPES = ['time_off', 'shift'];
+
+/** Prüft Format der Felder einer Abwesenheit/Schichtänderung; liefert Fehlermeldung oder null. */
+function validateStaffScheduleBody(body: Record<string, unknown>, isCreate: boolean): string | null {
+    if (isCreate && (body.staff_member_id == null || !Number.isInteger(Number(body.staff_member_id)))) return 'Mitarbeiter ist erforderlich';
+    if (isCreate && !body.start_date) return 'Startdatum ist erforderlich';
+    if (body.type !== undefined && !STAFF_SCHEDULE_TYPES.includes(String(body.type))) return 'Ungültiger Typ (time_off oder shift)';
+    for (const field of ['start_date', 'end_date']) {
+        const value = body[field];
+        if (value != null && value !== '' && !DATE_PATTERN.test(String(value))) return `Ungültiges Datum für ${field} (YYYY-MM-DD)`;
+    }
+    for (const field of ['start_time', 'end_time']) {
+        const value = body[field];
+        if (value != null && value !== '' && !TIME_PATTERN.test(String(value))) return `Ungültige Uhrzeit für ${field} (HH:MM)`;
+    }
+    if (body.reason != null && String(body.reason).length > MAX_EXCEPTION_REASON) return `reason darf maximal ${MAX_EXCEPTION_REASON} Zeichen haben`;
+    return null;
+}
+
+const STAFF_SCHEDULE_CLIENT_ERRORS = [
+    'Mitarbeiter nicht gefunden',
+    'Enddatum muss am oder nach dem Startdatum liegen',
+    'Start- und Endzeit nur gemeinsam angeben',
+    'Eine Schicht benötigt Start- und Endzeit',
+    'Start- und Endzeit dürfen nicht gleich sein',
+];
+
+router.get('/staff-schedule', async (req: Request, res: Response) => {
+    const venueId = getVenueId(req);
+    if (!venueId) {
+        res.status(403).json({ success: false, message: 'Kein Venue zugewiesen' });
+        return;
+    }
+    const from = req.query.from as string | undefined;
+    const to = req.query.to as string | undefined;
+    const staffMemberId = req.query.staff_member_id ? parseInt(req.query.staff_member_id as string, 10) : undefined;
+    if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+        res.status(400).json({ success: false, message: 'Ungültiges Datum (YYYY-MM-DD)' });
+        return;
+    }
+    try {
+        const overrides = await OwnerService.getStaffScheduleOverrides(venueId, { from, to, staff_member_id: staffMemberId });
+        res.json({ success: true, data: overrides });
+    } catch (error) {
+        logger.error('Error fetching staff schedule overrides', error);
+        res.status(500).json({ success: false, message: 'Fehler beim Laden der Abwesenheiten' });
+    }
+});
+
+router.get('/staff-schedule/conflicts', async (req: Request, res: Response) => {
+    const venueId = getVenueId(req);
+    if (!venueId) {
+        res.status(403).json({ success: false, message: 'Kein Venue zugewiesen' });
+        return;
+    }
+    const from = req.query.from as string | undefined;
+    const to = req.query.to as string | undefined;
+    if (!from || !to || !DATE_PATTERN.test(from) || !DATE_PATTERN.test(to) || to < from) {
+        res.status(400).json({ success: false, message: 'from und to erforderlich (YYYY-MM-DD)' });
+        return;
+    }
+    try {
+        const conflicts = await OwnerService.getStaffScheduleConflicts(venueId, from, to);
+        res.json({ success: true, data: conflicts });
+    } catch (error) {
+        logger.error('Error fetching staff schedule conflicts', error);
+        res.status(500).json({ success: false, message: 'Fehler beim Prüfen der Termine' });
+    }
+});
+
+router.post('/staff-schedule', async (req: Request, res: Response) => {
+    const venueId = getVenueId(req);
+    if (!venueId) {
+        res.status(403).json({ success: false, message: 'Kein Venue zugewiesen' });
+        return;
+    }
+    const body = req.body ?? {};
+    const validationError = validateStaffScheduleBody(body, true);
+    if (validationError) {
+        res.status(400).json({ success: false, message: validationError });
+        return;
+    }
+    const { staff_member_id, type, start_date, end_date, start_time, end_time, reason } = body;
+    try {
+        const result = await OwnerService.createStaffScheduleOverride(venueId, req.user?.id ?? null, {
+            staff_member_id: Number(staff_member_id), type, start_date, end_date, start_time, end_time, reason,
+        });
+        res.status(201).json({ success: true, message: 'Eintrag erfolgreich angelegt', data: result });
     } catch (error) {
-        res.status(500).json({ success: false, message: 'Fehler beim Aktualisieren der Einstellungen' });
+        const msg = (error as Error).message;
+        if (STAFF_SCHEDULE_CLIENT_ERRORS.includes(msg) || msg.startsWith('Zeitraum darf maximal')) res.status(400).json({ success: false, message: msg });
+        else res.status(500).json({ success: false, message: 'Fehler beim Anlegen des Eintrags' });
+    }
+});
+
+router.patch('/staff-schedule/:id', async (req: Request, res: Response) => {
+    const venueId = getVenueId(req);
+    if (!venueId) {
+        res.status(403).json({ success: false, message: 'Kein Venue zugewiesen' });
+        return;
+    }
+    const overrideId = parseInt(req.params.id);
+    const body = req.body ?? {};
+    const validationError = validateStaffScheduleBody(body, false);
+    if (validationError) {
+        res.status(400).json({ success: false, message: validationError });
+        return;
+    }
+    const { type, start_date, end_date, start_time, end_time, reason } = body;
+    try {
+        const result = await OwnerService.updateStaffScheduleOverride(overrideId, req.user?.id ?? null, { type, start_date, end_date, start_time, end_time, reason }, venueId);
+        res.json({ success: true, message: 'Eintrag erfolgreich aktualisiert', data: result });
+    } catch (error) {
+        const msg = (error as Error).message;
+        if (msg === 'Eintrag nicht gefunden') res.status(404).json({ success: false, message: msg });
+        else if (msg === 'Kein Zugriff auf diesen Eintrag') res.status(403).json({ success: false, message: msg });
+        else if (STAFF_SCHEDULE_CLIENT_ERRORS.includes(msg) || msg.startsWith('Zeitraum darf maximal')) res.status(400).json({ success: false, message: msg });
+        else res.status(500).json({ success: false, message: 'Fehler beim Aktualisieren des Eintrags' });
+    }
+});
+
+router.delete('/staff-schedule/:id', async (req: Request, res: Response) => {
+    const venueId = getVenueId(req);
+    if (!venueId) {
+        res.status(403).json({ success: false, message: 'Kein Venue zugewiesen' });
+        return;
+    }
+    const overrideId = parseInt(req.params.id);
+    try {
+        await OwnerService.deleteStaffScheduleOverride(overrideId, venueId);
+        res.json({ success: true, message: 'Eintrag gelöscht' });
+    } catch (error) {
+        const msg = (error as Error).message;
+        if (msg === 'Eintrag nicht gefunden') res.status(404).json({ success: false, message: msg });
+        else if (msg === 'Kein Zugriff auf diesen Eintrag') res.status(403).json({ success: false, message: msg });
+        else res.status(500).json({ success: false, message: 'Fehler beim Löschen des Eintrags' });
+    }
+});
+
+const MAX_CALENDAR_NAME = 100;
+const MAX_CALENDAR_URL = 500;
+const MAX_CALENDAR_FILE = '2mb';
+
+/** ICS-Datei als Request-Body (Content-Type text/calendar) für Upload und erneutes Einlesen */
+const calendarFile = text({ type: 'text/calendar', limit: MAX_CALENDAR_FILE });
+
+/** Name eines externen Kalenders: leer = Standardname; liefert null bei zu langem Namen */
+function parseCalendarName(v: unknown, fallback: string): string | null {
+    const name = v == null ? '' : String(v).trim();
+    if (name.length > MAX_CALENDAR_NAME) return null;
+    return name || fallback;
+}
+
+/** Fehler beim Einlesen externer Kalender auf HTTP-Status abbilden */
+function sendExternalCalendarError(res: Response, error: unknown, fallback: string): void {
+    const msg = (error as Error).message;
+    if (msg === 'Kalender nicht gefunden' || msg === 'Mitarbeiter nicht gefunden') res.status(404).json({ success: false, message: msg });
+    else if (msg === 'Kein Zugriff auf diesen Kalender') res.status(403).json({ success: false, message: msg });
+    else if (msg.startsWith('Kalender:')) res.status(400).json({ success: false, message: msg });
+    else {
+        logger.error(fallback, error);
+        res.status(500).json({ success: false, message: fallback });
+    }
+}
+
+router.get('/external-calendars', async (req: Request, res: Response) => {
+    const venueId = getVenueId(req);
+    if (!venueId) {
+        res.status(403).json({ success: false, message: 'Kein Venue zugewiesen' });
+        return;
+    }
+    try {
+        const calendars = await ExternalCalendarService.getCalendars(venueId);
+        res.json({ success: true, data: calendars });
+    } catch (error) {
+        logger.error('Error fetching external calendars', error);
+        res.status(500).json({ success: false, message: 'Fehler beim Laden der externen Kalender' });
+    }
+});
+
+/** Feed-URL hinterlegen: wird sofort und danach regelmäßig per Cron eingelesen */
+router.post('/external-calendars', async (req: Request, res: Response) => {
+    const venueId = getVenueId(req);
+    if (!venueId) {
+        res.status(403).json({ success: false, message: 'Kein Venue zugewiesen' });
+        return;
+    }
+    const body = req.body ?? {};
+    const staffMemberId = Number(body.staff_member_id);
+    const url = typeof body.url === 'string' ? body.url.trim() : '';
+    const name = parseCalendarName(body.name, 'Externer Kalender');
+    if (!Number.isInteger(staffMemberId) || staffMemberId < 1) {
+        res.status(400).json({ success: false, message: 'Mitarbeiter ist erforderlich' });
+        return;
+    }
+    if (!/^(https|webcal):\/\/\S+$/i.test(url) || url.length > MAX_CALENDAR_URL) {
+        res.status(400).json({ success: false, message: 'Ungültige Feed-URL (https oder webcal)' });
+        return;
+    }
+    if (name === null) {
+        res.status(400).json({ success: false, message: `name darf maximal ${MAX_CALENDAR_NAME} Zeichen haben` });
+        return;
+    }
+    try {
+        const result = await ExternalCalendarService.createCalendar(venueId, { staff_member_id: staffMemberId, name, url });
+        res.status(201).json({ success: true, message: 'Kalender eingelesen', data: result });
+    } catch (error) {
+        sendExternalCalendarError(res, error, 'Fehler beim Einlesen des Kalenders');
+    }
+});
+
+/** ICS-Datei hochladen (Body text/calendar; Mitarbeiter und Name als Query-Parameter) */
+router.post('/external-calendars/upload', calendarFile, async (req: Request, res: Response) => {
+    const venueId = getVenueId(req);
+    if (!venueId) {
+        res.status(403).json({ success: false, message: 'Kein Venue zugewiesen' });
+        return;
+    }
+    const staffMemberId = Number(req.query.staff_member_id);
+    const name = parseCalendarName(req.query.name, 'Hochgeladene Datei');
+    if (!Number.isInteger(staffMemberId) || staffMemberId < 1) {
+        res.status(400).json({ success: false, message: 'Mitarbeiter ist erforderlich' });
+        return;
+    }
+    if (typeof req.body !== 'string' || req.body.trim() === '') {
+        res.status(400).json({ success: false, message: 'ICS-Datei fehlt (Content-Type text/calendar)' });
+        return;
+    }
+    if (name === null) {
+        res.status(400).json({ success: false, message: `name darf maximal ${MAX_CALENDAR_NAME} Zeichen haben` });
+        return;
+    }
+    try {
+        const result = await ExternalCalendarService.createCalendar(venueId, { staff_member_id: staffMemberId, name, content: req.body });
+        res.status(201).json({ success: true, message: 'Kalender eingelesen', data: result });
+    } catch (error) {
+        sendExternalCalendarError(res, error, 'Fehler beim Einlesen des Kalenders');
+    }
+});
+
+/** Neu einlesen: Feed-URL erneut abrufen bzw. bei hochgeladenen Kalendern die neue Datei aus dem Body übernehmen */
+router.post('/external-calendars/:id/sync', calendarFile, async (req: Request, res: Response) => {
+    const venueId = getVenueId(req);
+    if (!venueId) {
+        res.status(403).json({ success: false, message: 'Kein Venue zugewiesen' });
+        return;
+    }
+    const content = typeof req.body === 'string' && req.body.trim() !== '' ? req.body : undefined;
+    try {
+        const result = await ExternalCalendarService.syncCalendar(parseInt(req.params.id), venueId, content);
+        res.json({ success: true, message: 'Kalender eingelesen', data: result });
+    } catch (error) {
+        sendExternalCalendarError(res, error, 'Fehler beim Einlesen des Kalenders');
+    }
+});
+
+router.delete('/external-calendars/:id', async (req: Request, res: Response) => {
+    const venueId = getVenueId(req);
+    if (!venueId) {
+        res.status(403).json({ success: false, message: 'Kein Venue zugewiesen' });
+        return;
+    }
+    try {
+        await ExternalCalendarService.deleteCalendar(parseInt(req.params.id), venueId);
+        res.json({ success: true, message: 'Kalender entfernt' });
+    } catch (error) {
+        sendExternalCalendarError(res, error, 'Fehler beim Entfernen des Kalenders');
+    }
+});
+
+const MAX_TABLE_NAME = 50;
+const MAX_TABLE_AREA = 100;
+const MAX_TABLE_SEATS = 50;
+
+/** Prüft Format der Tisch-Felder; liefert Fehlermeldung oder null. */
+function validateTableBody(body: Record<string, unknown>, requireFields: boolean): string | null {
+    if (requireFields && (body.name == null || String(body.name).trim() === '')) return 'Name ist erforderlich';
+    if (requireFields && body.max_seats == null) return 'max_seats ist erforderlich';
+    if (body.name != null && String(body.name).length > MAX_TABLE_NAME) return `name darf maximal ${MAX_TABLE_NAME} Zeichen haben`;
+    if (body.area != null && String(body.area).length > MAX_TABLE_AREA) return `area darf maximal ${MAX_TABLE_AREA} Zeichen haben`;
+    if (body.combine_group != null && String(body.combine_group).length > MAX_TABLE_NAME) return `combine_group darf maximal ${MAX_TABLE_NAME} Zeichen haben`;
+    for (const field of ['min_seats', 'max_seats']) {
+        const value = body[field];
+        if (value != null && !(Number.isInteger(Number(value)) && Number(value) >= 1 && Number(value) <= MAX_TABLE_SEATS)) return `${field} muss zwischen 1 und ${MAX_TABLE_SEATS} liegen`;
+    }
+    if (body.is_active !== undefined && typeof body.is_active !== 'boolean') return 'is_active muss true oder false sein';
+    return null;
+}
+
+/** Normalisiert den Request-Body auf die Tisch-Felder (Zahlen als number, leere Texte als null). */
+function parseTableBody(body: Record<string, unknown>) {
+    const optionalText = (v: unknown) => v === undefined ? undefined : (v === null || String(v).trim() === '' ? null : String(v).trim());
+    return {
+        name: body.name !== undefined ? String(body.name).trim() : undefined,
+        area: optionalText(body.area),
+        min_seats: body.min_seats != null ? Number(body.min_seats) : undefined,
+        max_seats: body.max_seats != null ? Number(body.max_seats) : undefined,
+        combine_group: optionalText(body.combine_group),
+        is_active: body.is_active as boolean | undefined,
+    };
+}
+
+const TABLE_CLIENT_ERRORS = [
+    'Mindestplätze dürfen die maximalen Plätze nicht überschreiten',
+    'Tisch hat kommende Buchungen und kann nur deaktiviert werden',
+];
+
+router.get('/tables', async (req: Request, res: Response) => {
+    const venueId = getVenueId(req);
+    if (!venueId) {
+        res.status(403).json({ success: false, message: 'Kein Venue zugewiesen' });
+        return;
+    }
+    try {
+        const tables = await OwnerService.getTables(venueId);
+        res.json({ success: true, data: tables });
+    } catch (error) {
+        logger.error('Error fetching tables', error);
+        res.status(500).json({ success: false, message: 'Fehler beim Laden der Tische' });
+    }
+});
+
+router.post('/tables', async (req: Request, res: Response) => {
+    const venueId = getVenueId(req);
+    if (!venueId) {
+        res.status(403).json({ success: false, message: 'Kein Venue zugewiesen' });
+        return;
+    }
+    const body = req.body ?? {};
+    const validationError = validateTableBody(body, true);
+    if (validationError) {
+        res.status(400).json({ success: false, message: validationError });
+        return;
+    }
+    try {
+        const table = await OwnerService.createTable(venueId, parseTableBody(body));
+        res.status(201).json({ success: true, message: 'Tisch erfolgreich angelegt', data: table });
+    } catch (error) {
+        const msg = (error as Error).message;
+        if (TABLE_CLIENT_ERRORS.includes(msg)) res.status(400).json({ success: false, message: msg });
+        else res.status(500).json({ success: false, message: 'Fehler beim Anlegen des Tisches' });
+    }
+});
+
+router.patch('/tables/:id', async (req: Request, res: Response) => {
+    const venueId = getVenueId(req);
+    if (!venueId) {
+        res.status(403).json({ success: false, message: 'Kein Venue zugewiesen' });
+        return;
+    }
+    const tableId = parseInt(req.params.id);
+    const body = req.body ?? {};
+    const validationError = validateTableBody(body, false);
+    if (validationError) {
+        res.status(400).json({ success: false, message: validationError });
+        return;
+    }
+    try {
+        await OwnerService.updateTable(tableId, parseTableBody(body), venueId);
+        res.json({ success: true, message: 'Tisch erfolgreich aktualisiert' });
+    } catch (error) {
+        const msg = (error as Error).message;
+        if (msg === 'Tisch nicht gefunden') res.status(404).json({ success: false, message: msg });
+        else if (msg === 'Kein Zugriff auf diesen Tisch') res.status(403).json({ success: false, message: msg });
+        else if (TABLE_CLIENT_ERRORS.includes(msg)) res.status(400).json({ success: false, message: msg });
+        else res.status(500).json({ success: false, message: 'Fehler beim Aktualisieren des Tisches' });
+    }
+});
+
+router.delete('/tables/:id', async (req: Request, res: Response) => {
+    const venueId = getVenueId(req);
+    if (!venueId) {
+        res.status(403).json({ success: false, message: 'Kein Venue zugewiesen' });
+        return;
+    }
+    const tableId = parseInt(req.params.id);
+    try {
+        await OwnerService.deleteTable(tableId, venueId);
+        res.json({ success: true, message: 'Tisch gelöscht' });
+    } catch (error) {
+        const msg = (error as Error).message;
+        if (msg === 'Tisch nicht gefunden') res.status(404).json({ success: false, message: msg });
+        else if (msg === 'Kein Zugriff auf diesen Tisch') res.status(403).json({ success: false, message: msg });
+        else if (TABLE_CLIENT_ERRORS.includes(msg)) res.status(400).json({ success: false, message: msg });
+        else res.status(500).json({ success: false, message: 'Fehler beim Löschen des Tisches' });
+    }
+});
+
+const MAX_RESOURCE_NAME = 100;
+
+/** Prüft Format der Ressourcen-Felder; liefert Fehlermeldung oder null. */
+function validateResourceBody(body: Record<string, unknown>, requireFields: boolean): string | null {
+    if (requireFields && (body.name == null || String(body.name).trim() === '')) return 'Name ist erforderlich';
+    if (body.name != null && String(body.name).length > MAX_RESOURCE_NAME) return `name darf maximal ${MAX_RESOURCE_NAME} Zeichen haben`;
+    if (body.quantity != null && !(Number.isInteger(Number(body.quantity)) && Number(body.quantity) >= 1 && Number(body.quantity) <= MAX_RESOURCE_QUANTITY)) return `quantity muss zwischen 1 und ${MAX_RESOURCE_QUANTITY} liegen`;
+    if (body.is_active !== undefined && typeof body.is_active !== 'boolean') return 'is_active muss true oder false sein';
+    return null;
+}
+
+/** Normalisiert den Request-Body auf die Ressourcen-Felder. */
+function parseResourceBody(body: Record<string, unknown>) {
+    return {
+        name: body.name !== undefined ? String(body.name).trim() : undefined,
+        quantity: body.quantity != null ? Number(body.quantity) : undefined,
+        is_active: body.is_active as boolean | undefined,
+    };
+}
+
+const RESOURCE_CLIENT_ERRORS = [
+    'Anzahl ist kleiner als der Bedarf einer Leistung',
+    'Ressource hat kommende Buchungen und kann nur deaktiviert werden',
+];
+
+router.get('/resources', async (req: Request, res: Response) => {
+    const venueId = getVenueId(req);
+    if (!venueId) {
+        res.status(403).json({ success: false, message: 'Kein Venue zugewiesen' });
+        return;
+    }
+    try {
+        const resources = await OwnerService.getResources(venueId);
+        res.json({ success: true, data: resources });
+    } catch (error) {
+        logger.error('Error fetching resources', error);
+        res.status(500).json({ success: false, message: 'Fehler beim Laden der Ressourcen' });
+    }
+});
+
+router.post('/resources', async (req: Request, res: Response) => {
+    const venueId = getVenueId(req);
+    if (!venueId) {
+        res.status(403).json({ success: false, message: 'Kein Venue zugewiesen' });
+        return;
+    }
+    const body = req.body ?? {};
+    const validationError = validateResourceBody(body, true);
+    if (validationError) {
+        res.status(400).json({ success: false, message: validationError });
+        return;
+    }
+    try {
+        const resource = await OwnerService.createResource(venueId, parseResourceBody(body));
+        res.status(201).json({ success: true, message: 'Ressource erfolgreich angelegt', data: resource });
+    } catch (error) {
+        logger.error('Error creating resource', error);
+        res.status(500).json({ success: false, message: 'Fehler beim Anlegen der Ressource' });
+    }
+});
+
+router.patch('/resources/:id', async (req: Request, res: Response) => {
+    const venueId = getVenueId(req);
+    if (!venueId) {
+        res.status(403).json({ success: false, message: 'Kein Venue zugewiesen' });
+        return;
+    }
+    const resourceId = parseInt(req.params.id);
+    const body = req.body ?? {};
+    const validationError = validateResourceBody(body, false);
+    if (validationError) {
+        res.status(400).json({ success: false, message: validationError });
+        return;
+    }
+    try {
+        await OwnerService.updateResource(resourceId, parseResourceBody(body), venueId);
+        res.json({ success: true, message: 'Ressource erfolgreich aktualisiert' });
+    } catch (error) {
+        const msg = (error as Error).message;
+        if (msg === 'Ressource nicht gefunden') res.status(404).json({ success: false, message: msg });
+        else if (msg === 'Kein Zugriff auf diese Ressource') res.status(403).json({ success: false, message: msg });
+        else if (RESOURCE_CLIENT_ERRORS.includes(msg)) res.status(400).json({ success: false, message: msg });
+        else res.status(500).json({ success: false, message: 'Fehler beim Aktualisieren der Ressource' });
+    }
+});
+
+router.delete('/resources/:id', async (req: Request, res: Response) => {
+    const venueId = getVenueId(req);
+    if (!venueId) {
+        res.status(403).json({ success: false, message: 'Kein Venue zugewiesen' });
+        return;
+    }
+    const resourceId = parseInt(req.params.id);
+    try {
+        await OwnerService.deleteResource(resourceId, venueId);
+        res.json({ success: true, message: 'Ressource gelöscht' });
+    } catch (error) {
+        const msg = (error as Error).message;
+        if (msg === 'Ressource nicht gefunden') res.status(404).json({ success: false, message: msg });
+        else if (msg === 'Kein Zugriff auf diese Ressource') res.status(403).json({ success: false, message: msg });
+        else if (RESOURCE_CLIENT_ERRORS.includes(msg)) res.status(400).json({ success: false, message: msg });
+        else res.status(500).json({ success: false, message: 'Fehler beim Löschen der Ressource' });
+    }
+});
+
+const MAX_PACING_NAME = 100;
+const MAX_PACING_LIMIT = 500;
+
+/** Prüft Format der Pacing-Felder; liefert Fehlermeldung oder null. */
+function validatePacingBody(body: Record<string, unknown>, requireFields: boolean): string | null {
+    if (requireFields && (body.name == null || String(body.name).trim() === '')) return 'Name ist erforderlich';
+    if (requireFields && (!body.start_time || !body.end_time)) return 'Start- und Endzeit sind erforderlich';
+    if (body.name != null && String(body.name).length > MAX_PACING_NAME) return `name darf maximal ${MAX_PACING_NAME} Zeichen haben`;
+    for (const field of ['start_time', 'end_time']) {
+        const value = body[field];
+        if (value !== undefined && !TIME_PATTERN.test(String(value))) return `Ungültige Uhrzeit für ${field} (HH:MM)`;
+    }
+    if (body.day_of_week != null && body.day_of_week !== '' && !(Number.isInteger(Number(body.day_of_week)) && Number(body.day_of_week) >= 0 && Number(body.day_of_week) <= 6)) {
+        return 'day_of_week muss zwischen 0 und 6 liegen';
+    }
+    if (body.interval_minutes != null && !(Number.isInteger(Number(body.interval_minutes)) && Number(body.interval_minutes) >= 5 && Number(body.interval_minutes) <= 240)) {
+        return 'interval_minutes muss zwischen 5 und 240 liegen';
+    }
+    for (const field of ['max_covers', 'max_parties']) {
+        const value = body[field];
+        if (value != null && value !== '' && !(Number.isInteger(Number(value)) && Number(value) >= 1 && Number(value) <= MAX_PACING_LIMIT)) return `${field} muss zwischen 1 und ${MAX_PACING_LIMIT} liegen`;
+    }
+    if (body.is_active !== undefined && typeof body.is_active !== 'boolean') return 'is_active muss true oder false sein';
+    return null;
+}
+
+/** Normalisiert den Request-Body auf die Pacing-Felder (Uhrzeiten als "HH:MM", leere Limits/Wochentag als null = ohne). */
+function parsePacingBody(body: Record<string, unknown>) {
+    const optionalNumber = (v: unknown) => v === undefined ? undefined : (v === null || v === '' ? null : Number(v));
+    const time = (v: unknown) => v === undefined ? undefined : String(v).padStart(5, '0');
+    return {
+        name: body.name !== undefined ? String(body.name).trim() : undefined,
+        day_of_week: optionalNumber(body.day_of_week),
+        start_time: time(body.start_time),
+        end_time: time(body.end_time),
+        interval_minutes: body.interval_minutes != null ? Number(body.interval_minutes) : undefined,
+        max_covers: optionalNumber(body.max_covers),
+        max_parties: optionalNumber(body.max_parties),
+        is_active: body.is_active as boolean | undefined,
+    };
+}
+
+const PACING_CLIENT_ERRORS = [
+    'Startzeit muss vor der Endzeit liegen',
+    'Mindestens ein Limit (Gäste oder Gruppen) angeben',
+];
+
+router.get('/pacing-rules', async (req: Request, res: Response) => {
+    const venueId = getVenueId(req);
+    if (!venueId) {
+        res.status(403).json({ success: false, message: 'Kein Venue zugewiesen' });
+        return;
+    }
+    try {
+        const rules = await OwnerService.getPacingRules(venueId);
+        res.json({ success: true, data: rules });
+    } catch (error) {
+        logger.error('Error fetching pacing rules', error);
+        res.status(500).json({ success: false, message: 'Fehler beim Laden der Pacing-Regeln' });
+    }
+});
+
+router.post('/pacing-rules', async (req: Request, res: Response) => {
+    const venueId = getVenueId(req);
+    if (!venueId) {
+        res.status(403).json({ success: false, message: 'Kein Venue zugewiesen' });
+        return;
+    }
+    const body = req.body ?? {};
+    const validationError = validatePacingBody(body, true);
+    if (validationError) {
+        res.status(400).json({ success: false, message: validationError });
+        return;
+    }
+    try {
+        const rule = await OwnerService.createPacingRule(venueId, parsePacingBody(body));
+        res.status(201).json({ success: true, message: 'Pacing-Regel erfolgreich angelegt', data: rule });
+    } catch (error) {
+        const msg = (error as Error).message;
+        if (PACING_CLIENT_ERRORS.includes(msg)) res.status(400).json({ success: false, message: msg });
+        else res.status(500).json({ success: false, message: 'Fehler beim Anlegen der Pacing-Regel' });
+    }
+});
+
+router.patch('/pacing-rules/:id', async (req: Request, res: Response) => {
+    const venueId = getVenueId(req);
+    if (!venueId) {
+        res.status(403).json({ success: false, message: 'Kein Venue zugewiesen' });
+        return;
+    }
+    const ruleId = parseInt(req.params.id);
+    const body = req.body ?? {};
+    const validationError = validatePacingBody(body, false);
+    if (validationError) {
+        res.status(400).json({ success: false, message: validationError });
+        return;
+    }
+    try {
+        await OwnerService.updatePacingRule(ruleId, parsePacingBody(body), venueId);
+        res.json({ success: true, message: 'Pacing-Regel erfolgreich aktualisiert' });
+    } catch (error) {
+        const msg = (error as Error).message;
+        if (msg === 'Pacing-Regel nicht gefunden') res.status(404).json({ success: false, message: msg });
+        else if (msg === 'Kein Zugriff auf diese Pacing-Regel') res.status(403).json({ success: false, message: msg });
+        else if (PACING_CLIENT_ERRORS.includes(msg)) res.status(400).json({ success: false, message: msg });
+        else res.status(500).json({ success: false, message: 'Fehler beim Aktualisieren der Pacing-Regel' });
+    }
+});
+
+router.delete('/pacing-rules/:id', async (req: Request, res: Response) => {
+    const venueId = getVenueId(req);
+    if (!venueId) {
+        res.status(403).json({ success: false, message: 'Kein Venue zugewiesen' });
+        return;
+    }
+    const ruleId = parseInt(req.params.id);
+    try {
+        await OwnerService.deletePacingRule(ruleId, venueId);
+        res.json({ success: true, message: 'Pacing-Regel gelöscht' });
+    } catch (error) {
+        const msg = (error as Error).message;
+        if (msg === 'Pacing-Regel nicht gefunden') res.status(404).json({ success: false, message: msg });
+        else if (msg === 'Kein Zugriff auf diese Pacing-Regel') res.status(403).json({ success: false, message: msg });
+        else res.status(500).json({ success: false, message: 'Fehler beim Löschen der Pacing-Regel' });
+    }
+});
+
+const MAX_STAFF_PRIORITY = 100;
+const STAFF_ASSIGNMENT_STRATEGIES: StaffAssignmentStrategy[] = ['round_robin', 'least_booked', 'priority'];
+
+router.get('/staff', async (req: Request, res: Response) => {
+    const venueId = getVenueId(req);
+    if (!venueId) {
+        res.status(403).json({ success: false, message: 'Kein Venue zugewiesen' });
+        return;
+    }
+    try {
+        const staff = await OwnerService.getStaffMembers(venueId);
+        res.json({ success: true, data: staff });
+    } catch (error) {
+        logger.error('Error fetching staff members', error);
+        res.status(500).json({ success: false, message: 'Fehler beim Laden der Mitarbeiter' });
+    }
+});
+
+router.patch('/staff/:id', async (req: Request, res: Response) => {
+    const venueId = getVenueId(req);
+    if (!venueId) {
+        res.status(403).json({ success: false, message: 'Kein Venue zugewiesen' });
+        return;
+    }
+    const staffMemberId = parseInt(req.params.id);
+    const priority = Number(req.body?.assignment_priority);
+    if (!Number.isInteger(priority) || priority < 0 || priority > MAX_STAFF_PRIORITY) {
+        res.status(400).json({ success: false, message: `assignment_priority muss zwischen 0 und ${MAX_STAFF_PRIORITY} liegen` });
+        return;
+    }
+    try {
+        await OwnerService.updateStaffPriority(staffMemberId, priority, venueId);
+        res.json({ success: true, message: 'Mitarbeiter erfolgreich aktualisiert' });
+    } catch (error) {
+        const msg = (error as Error).message;
+        if (msg === 'Mitarbeiter nicht gefunden') res.status(404).json({ success: false, message: msg });
+        else if (msg === 'Kein Zugriff auf diesen Mitarbeiter') res.status(403).json({ success: false, message: msg });
+        else res.status(500).json({ success: false, message: 'Fehler beim Aktualisieren des Mitarbeiters' });
+    }
+});
+
+router.get('/calendar-feeds', async (req: Request, res: Response) => {
+    const venueId = getVenueId(req);
+    if (!venueId) {
+        res.status(403).json({ success: false, message: 'Kein Venue zugewiesen' });
+        return;
+    }
+    try {
+        const feeds = await CalendarFeedService.getFeeds(venueId);
+        res.json({ success: true, data: feeds });
+    } catch (error) {
+        logger.error('Error fetching calendar feeds', error);
+        res.status(500).json({ success: false, message: 'Fehler beim Laden der Kalender-Feeds' });
+    }
+});
+
+router.post('/calendar-feeds/venue/regenerate', async (req: Request, res: Response) => {
+    const venueId = getVenueId(req);
+    if (!venueId) {
+        res.status(403).json({ success: false, message: 'Kein Venue zugewiesen' });
+        return;
+    }
+    try {
+        const feed = await CalendarFeedService.regenerateToken(venueId, null);
+        res.json({ success: true, message: 'Neue Feed-URL erzeugt', data: feed });
+    } catch (error) {
+        logger.error('Error regenerating calendar feed', error);
+        res.status(500).json({ success: false, message: 'Fehler beim Erzeugen der Feed-URL' });
+    }
+});
+
+router.post('/calendar-feeds/staff/:id/regenerate', async (req: Request, res: Response) => {
+    const venueId = getVenueId(req);
+    if (!venueId) {
+        res.status(403).json({ success: false, message: 'Kein Venue zugewiesen' });
+        return;
+    }
+    const staffMemberId = parseInt(req.params.id);
+    if (!Number.isInteger(staffMemberId) || staffMemberId < 1) {
+        res.status(400).json({ success: false, message: 'Ungültige Mitarbeiter-ID' });
+        return;
+    }
+    try {
+        const feed = await CalendarFeedService.regenerateToken(venueId, staffMemberId);
+        res.json({ success: true, message: 'Neue Feed-URL erzeugt', data: feed });
+    } catch (error) {
+        const msg = (error as Error).message;
+        if (msg === 'Mitarbeiter nicht gefunden') res.status(404).json({ success: false, message: msg });
+        else {
+            logger.error('Error regenerating calendar feed', error);
+            res.status(500).json({ success: false, message: 'Fehler beim Erzeugen der Feed-URL' });
+        }
+    }
+});
+
+const WAITLIST_STATUSES: WaitlistEntry['status'][] = ['waiting', 'offered', 'claiming', 'booked', 'expired', 'cancelled'];
+
+router.get('/waitlist', async (req: Request, res: Response) => {
+    const venueId = getVenueId(req);
+    if (!venueId) {
+        res.status(403).json({ success: false, message: 'Kein Venue zugewiesen' });
+        return;
+    }
+    const date = req.query.date as string | undefined;
+    const status = req.query.status as WaitlistEntry['status'] | undefined;
+    if ((date && !DATE_PATTERN.test(date)) || (status && !WAITLIST_STATUSES.includes(status))) {
+        res.status(400).json({ success: false, message: 'Ungültiger Filter' });
+        return;
+    }
+    try {
+        const entries = await OwnerService.getWaitlist(venueId, { date, status });
+        res.json({ success: true, data: entries });
+    } catch (error) {
+        logger.error('Error fetching waitlist', error);
+        res.status(500).json({ success: false, message: 'Fehler beim Laden der Warteliste' });
+    }
+});
+
+router.delete('/waitlist/:id', async (req: Request, res: Response) => {
+    const venueId = getVenueId(req);
+    if (!venueId) {
+        res.status(403).json({ success: false, message: 'Kein Venue zugewiesen' });
+        return;
+    }
+    try {
+        await OwnerService.cancelWaitlistEntry(parseInt(req.params.id), venueId);
+        res.json({ success: true, message: 'Eintrag von der Warteliste entfernt' });
+    } catch (error) {
+        const msg = (error as Error).message;
+        if (msg === 'Wartelisten-Eintrag nicht gefunden') res.status(404).json({ success: false, message: msg });
+        else if (msg === 'Kein Zugriff auf diesen Eintrag') res.status(403).json({ success: false, message: msg });
+        else if (msg === 'Eintrag ist nicht mehr aktiv') res.status(400).json({ success: false, message: msg });
+        else res.status(500).json({ success: false, message: 'Fehler beim Entfernen des Eintrags' });
+    }
+});
+
+const GROUP_REQUEST_STATUSES: GroupRequestStatus[] = ['pending', 'accepted', 'declined'];
+const MAX_DECLINE_REASON = 500;
+
+router.get('/group-requests', async (req: Request, res: Response) => {
+    const venueId = getVenueId(req);
+    if (!venueId) {
+        res.status(403).json({ success: false, message: 'Kein Venue zugewiesen' });
+        return;
+    }
+    const status = req.query.status as GroupRequestStatus | undefined;
+    if (status && !GROUP_REQUEST_STATUSES.includes(status)) {
+        res.status(400).json({ success: false, message: 'Ungültiger Filter' });
+        return;
+    }
+    try {
+        const requests = await GroupRequestService.getRequests(venueId, { status });
+        res.json({ success: true, data: requests });
+    } catch (error) {
+        logger.error('Error fetching group requests', error);
+        res.status(500).json({ success: false, message: 'Fehler beim Laden der Gruppenanfragen' });
+    }
+});
+
+router.post('/group-requests/:id/accept', async (req: Request, res: Response) => {
+    const venueId = getVenueId(req);
+    if (!venueId) {
+        res.status(403).json({ success: false, message: 'Kein Venue zugewiesen' });
+        return;
+    }
+    const data: AcceptGroupRequestData = req.body ?? {};
+    if (!data.booking_date || !DATE_PATTERN.test(data.booking_date) || !data.start_time || !/^\d{2}:\d{2}$/.test(data.start_time)) {
+        res.status(400).json({ success: false, message: 'Datum (YYYY-MM-DD) und Uhrzeit (HH:MM) erforderlich' });
+        return;
+    }
+    const isPositiveId = (v: unknown) => Number.isInteger(v) && (v as number) > 0;
+    if ((data.service_id != null && !isPositiveId(data.service_id))
+        || (data.staff_member_id != null && !isPositiveId(data.staff_member_id))
+        || (data.table_ids != null && (!Array.isArray(data.table_ids) || !data.table_ids.every(isPositiveId)))) {
+        res.status(400).json({ success: false, message: 'Ungültige Leistung, Mitarbeiter oder Tische' });
+        return;
+    }
+    try {
+        const booking = await GroupRequestService.acceptRequest(parseInt(req.params.id), venueId, data);
+        res.json({ success: true, data: booking, message: 'Gruppenanfrage angenommen' });
+    } catch (error) {
+        const msg = (error as Error).message || '';
+        if (msg === 'Gruppenanfrage nicht gefunden') res.status(404).json({ success: false, message: msg });
+        else if (msg === 'Kein Zugriff auf diese Anfrage') res.status(403).json({ success: false, message: msg });
+        else if (msg === 'Anfrage wurde bereits bearbeitet' || msg === 'Bitte eine Leistung wählen') res.status(400).json({ success: false, message: msg });
+        else if (msg === 'Service not found') res.status(400).json({ success: false, message: 'Service nicht gefunden' });
+        else if (msg.includes('not available')) res.status(409).json({ success: false, message: 'Zeitslot oder Tische nicht verfügbar' });
+        else {
+            logger.error('Error accepting group request', error);
+            res.status(500).json({ success: false, message: 'Fehler beim Annehmen der Gruppenanfrage' });
+        }
+    }
+});
+
+router.post('/group-requests/:id/decline', async (req: Request, res: Response) => {
+    const venueId = getVenueId(req);
+    if (!venueId) {
+        res.status(403).json({ success: false, message: 'Kein Venue zugewiesen' });
+        return;
+    }
+    const reason = req.body?.reason;
+    if (reason != null && (typeof reason !== 'string' || reason.length > MAX_DECLINE_REASON)) {
+        res.status(400).json({ success: false, message: `Begründung darf maximal ${MAX_DECLINE_REASON} Zeichen haben` });
+        return;
+    }
+    try {
+        await GroupRequestService.declineRequest(parseInt(req.params.id), venueId, reason?.trim() || undefined);
+        res.json({ success: true, message: 'Gruppenanfrage abgesagt' });
+    } catch (error) {
+        const msg = (error as Error).message;
+        if (msg === 'Gruppenanfrage nicht gefunden') res.status(404).json({ success: false, message: msg });
+        else if (msg === 'Kein Zugriff auf diese Anfrage') res.status(403).json({ success: false, message: msg });
+        else if (msg === 'Anfrage wurde bereits bearbeitet') res.status(400).json({ success: false, message: msg });
+        else res.status(500).json({ success: false, message: 'Fehler beim Absagen der Gruppenanfrage' });
+    }
+});
+
+router.patch('/availability/:id', async (req: Request, res: Response) => {
+    const venueId = getVenueId(req);
+    if (!venueId) {
+        res.status(403).json({ success: false, message: 'Kein Venue zugewiesen' });
+        return;
+    }
+    const ruleId = parseInt(req.params.id);
+    const { start_time, end_time, is_active } = req.body;
+    try {
+        await OwnerService.updateAvailabilityRule(ruleId, { start_time, end_time, is_active }, venueId);
+        res.json({ success: true, message: 'Verfügbarkeit erfolgreich aktualisiert' });
+    } catch (error) {
+        const msg = (error as Error).message;
+        if (msg === 'Verfügbarkeitsregel nicht gefunden') res.status(404).json({ success: false, message: msg });
+        else if (msg === 'Kein Zugriff auf diese Verfügbarkeitsregel') res.status(403).json({ success: false, message: msg });
+        else res.status(500).json({ success: false, message: 'Fehler beim Aktualisieren der Verfügbarkeit' });
+    }
+});
+
+router.post('/bookings', async (req: Request, res: Response) => {
+    const venueId = getVenueId(req);
+    if (!venueId) {
+        res.status(403).json({ success: false, message: 'Kein Venue zugewiesen' });
+        return;
+    }
+    const bookingData: CreateBookingData = { ...req.body, venue_id: venueId };
+    // Mehrere Leistungen nacheinander: service_id/end_time ergeben sich aus der Kette
+    const hasServiceChain = bookingData.services !== undefined;
+    if (hasServiceChain) {
+        const services = bookingData.services;
+        if (!Array.isArray(services) || services.length < 1 || services.length > 5
+            || !services.every(step => step != null && Number.isInteger(step.service_id) && step.service_id > 0
+                && (step.staff_member_id == null || (Number.isInteger(step.staff_member_id) && step.staff_member_id > 0)))) {
+            res.status(400).json({ success: false, message: 'Leistungen: 1–5 Einträge mit gültiger service_id erforderlich' });
+            return;
+        }
+        bookingData.service_id = services[0].service_id;
+    }
+    const requiredFields = ['service_id', 'customer_name', 'customer_email', 'booking_date', 'start_time', ...(hasServiceChain ? [] : ['end_time']), 'party_size'];
+    const missingFields = requiredFields.filter(field => !bookingData[field as keyof CreateBookingData]);
+    if (missingFields.length > 0) {
+        res.status(400).json({ success: false, message: `Fehlende Felder: ${missingFields.join(', ')}` });
+        return;
+    }
+    if (String(bookingData.customer_name ?? '').length > MAX_CUSTOMER_NAME) {
+        res.status(400).json({ success: false, message: `customer_name darf maximal ${MAX_CUSTOMER_NAME} Zeichen haben` });
+        return;
+    }
+    if (bookingData.customer_phone != null && String(bookingData.customer_phone).length > MAX_CUSTOMER_PHONE) {
+        res.status(400).json({ success: false, message: `customer_phone darf maximal ${MAX_CUSTOMER_PHONE} Zeichen haben` });
+        return;
+    }
+    if (bookingData.special_requests != null && String(bookingData.special_requests).length > MAX_SPECIAL_REQUESTS) {
+        res.status(400).json({ success: false, message: `special_requests darf maximal ${MAX_SPECIAL_REQUESTS} Zeichen haben` });
+        return;
+    }
+    // Owner-Buchungen dürfen über der Online-Höchstzahl liegen (z. B. telefonisch angefragte Gruppen)
+    if (!Number.isInteger(bookingData.party_size) || bookingData.party_size < 1) {
+        res.status(400).json({ success: false, message: 'Anzahl Personen muss mindestens 1 sein' });
+        return;
+    }
+    try {
+        const booking = await BookingService.createBooking(bookingData, true);
+        res.status(201).json({ success: true, data: booking, message: 'Buchung erfolgreich erstellt' });
+    } catch (error) {
+        const msg = (error as Error).message || '';
+        if (msg.includes('not available')) res.status(409).json({ success: false, message: 'Zeitslot nicht verfügbar' });
+        else res.status(500).json({ success: false, message: 'Fehler beim Erstellen der Buchung' });
+    }
+});
+
+router.get('/overbooking', async (req: Request, res: Response) => {
+    const venueId = getVenueId(req);
+    if (!venueId) {
+        res.status(403).json({ success: false, message: 'Kein Venue zugewiesen' });
+        return;
+    }
+    const from = req.query.from as string | undefined;
+    const to = req.query.to as string | undefined;
+    if (!from || !to || !DATE_PATTERN.test(from) || !DATE_PATTERN.test(to) || to < from) {
+        res.status(400).json({ success: false, message: 'from und to erforderlich (YYYY-MM-DD)' });
+        return;
+    }
+    if (getDaysBetween(from, to) >= MAX_OVERBOOKING_RANGE_DAYS) {
+        res.status(400).json({ success: false, message: `Zeitraum darf höchstens ${MAX_OVERBOOKING_RANGE_DAYS} Tage umfassen` });
+        return;
+    }
+    try {
+        const overview = await OwnerService.getOverbookingOverview(venueId, from, to);
+        res.json({ success: true, data: overview });
+    } catch (error) {
+        const msg = (error as Error).message;
+        if (msg === 'Venue nicht gefunden') res.status(404).json({ success: false, message: msg });
+        else {
+            logger.error('Error fetching overbooking overview', error);
+            res.status(500).json({ success: false, message: 'Fehler beim Laden der Überbuchung' });
+        }
+    }
+});
+
+router.get('/venue/settings', async (req: Request, res: Response) => {
+    const venueId = getVenueId(req);
+    if (!venueId) {
+        res.status(403).json({ success: false, message: 'Kein Venue zugewiesen' });
+        return;
+    }
+    try {
+        const venue = await VenueService.getVenueById(venueId);
+        if (!venue) {
+            res.status(404).json({ success: false, message: 'Venue nicht gefunden' });
+            return;
+        }
+        res.json({ success: true, data: venue });
+    } catch (error) {
+        logger.error('Error fetching venue settings', error);
+        res.status(500).json({ success: false, message: 'Fehler beim Laden der Einstellungen' });
+    }
+});
+
+router.patch('/venue/settings', async (req: Request, res: Response) => {
+    const venueId = getVenueId(req);
+    if (!venueId) {
+        res.status(403).json({ success: false, message: 'Kein Venue zugewiesen' });
+        return;
+    }
+    const { booking_advance_hours: rawAdvance, cancellation_hours: rawCancel, slot_interval_minutes: rawInterval, staff_assignment_strategy, image_url, timezone, min_party_size: rawMinParty, max_party_size: rawMaxParty, overbooking_mode, overbooking_value: rawOverbookingValue, overbooking_cap: rawOverbookingCap } = req.body;
+    const parseNonNegative = (v: unknown): number | undefined => {
+        if (v === undefined || v === null) return undefined;
+        const n = typeof v === 'number' ? v : Number(v);
+        return (Number.isNaN(n) || n < 0) ? undefined : n;
+    };
+    const booking_advance_hours = parseNonNegative(rawAdvance);
+    const cancellation_hours = parseNonNegative(rawCancel);
+    const imageUrl = image_url === undefined ? undefined : (typeof image_url === 'string' ? image_url : image_url === null ? null : undefined);
+    if (rawAdvance !== undefined && rawAdvance !== null && booking_advance_hours === undefined) {
+        res.status(400).json({ success: false, message: 'booking_advance_hours muss eine positive Zahl sein' });
+        return;
+    }
+    if (rawCancel !== undefined && rawCancel !== null && cancellation_hours === undefined) {
+        res.status(400).json({ success: false, message: 'cancellation_hours muss eine positive Zahl sein' });
+        return;
+    }
+    const slot_interval_minutes = parseSlotInterval(rawInterval);
+    if (Number.isNaN(slot_interval_minutes)) {
+        res.status(400).json({ success: false, message: `slot_interval_minutes muss zwischen ${MIN_SLOT_INTERVAL} und ${MAX_SLOT_INTERVAL} liegen` });
+        return;
+    }
+    if (staff_assignment_strategy !== undefined && !STAFF_ASSIGNMENT_STRATEGIES.includes(staff_assignment_strategy)) {
+        res.status(400).json({ success: false, message: `staff_assignment_strategy muss einer von ${STAFF_ASSIGNMENT_STRATEGIES.join(', ')} sein` });
+        return;
+    }
+    if (timezone !== undefined && !isValidTimeZone(timezone)) {
+        res.status(400).json({ success: false, message: 'timezone muss eine gültige IANA-Zeitzone sein (z. B. Europe/Berlin)' });
+        return;
+    }
+    // Venue-Grenzen sind Pflichtwerte (kein Zurücksetzen auf null)
+    const min_party_size = parsePartySizeLimit(rawMinParty);
+    const max_party_size = parsePartySizeLimit(rawMaxParty);
+    if (min_party_size === null || max_party_size === null || Number.isNaN(min_party_size) || Number.isNaN(max_party_size)) {
+        res.status(400).json({ success: false, message: `min_party_size/max_party_size müssen zwischen 1 und ${MAX_PARTY_SIZE_LIMIT} liegen` });
+        return;
+    }
+    // Überbuchung des Venues: Modus und Zahlen sind Pflichtwerte (Obergrenze 0 = keine Überbuchung)
+    if (overbooking_mode !== undefined && !OVERBOOKING_MODES.includes(overbooking_mode)) {
+        res.status(400).json({ success: false, message: `overbooking_mode muss einer von ${OVERBOOKING_MODES.join(', ')} sein` });
+        return;
+    }
+    const overbooking_value = parseOverbookingNumber(rawOverbookingValue);
+    const overbooking_cap = parseOverbookingNumber(rawOverbookingCap);
+    if (overbooking_value === null || overbooking_cap === null || Number.isNaN(overbooking_value) || Number.isNaN(overbooking_cap)) {
+        res.status(400).json({ success: false, message: `overbooking_value/overbooking_cap müssen zwischen 0 und ${MAX_OVERBOOKING} liegen` });
+        return;
+    }
+    try {
+        await OwnerService.updateVenueSettings(venueId, { booking_advance_hours, cancellation_hours, slot_interval_minutes, staff_assignment_strategy, image_url: imageUrl, timezone, min_party_size, max_party_size, overbooking_mode, overbooking_value, overbooking_cap });
+        res.json({ success: true, message: 'Einstellungen erfolgreich aktualisiert' });
+    } catch (error) {
+        const msg = (error as Error).message;
+        if (msg === 'Mindest-Personenzahl darf die Höchst-Personenzahl nicht überschreiten') res.status(400).json({ success: false, message: msg });
+        else res.status(500).json({ success: false, message: 'Fehler beim Aktualisieren der Einstellungen' });
     }
 });
 
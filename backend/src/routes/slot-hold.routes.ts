@@ -0,0 +1,114 @@
+/**
+ * SLOT HOLD ROUTES
+ *
+ * Öffentliche Endpunkte für vorläufige Reservierungen während des Checkouts:
+ * - POST   /holds              -> Slot für einige Minuten reservieren (liefert hold_token)
+ * - DELETE /holds/:token       -> Reservierung vorzeitig freigeben
+ *
+ * Eingelöst wird der Hold über hold_token in POST /bookings.
+ */
+
+import express, { Request, Response } from 'express';
+import { createLogger } from '../config/utils/logger';
+import { SlotHoldService } from '../services/slot-hold.service';
+import { ApiResponse, CreateSlotHoldData, SlotHold } from '../config/utils/types';
+import { validateBookingToken } from '../config/utils/helper';
+
+const router = express.Router();
+const logger = createLogger('slot-hold.routes');
+
+
+/**
+ * POST /holds
+ * Reserviert einen Slot, bis der Kunde die Buchung abschickt (oder der Hold abläuft).
+ * Bei "egal wer" wird der Mitarbeiter schon hier vergeben und in der Antwort mitgeliefert.
+ *
+ * REQUEST BODY (CreateSlotHoldData):
+ * {
+ *   venue_id: number,
+ *   service_id: number,
+ *   staff_member_id?: number,
+ *   date: string,                  // Format: "YYYY-MM-DD"
+ *   start_time: string,            // Format: "HH:MM"
+ *   end_time: string,              // Format: "HH:MM"
+ *   party_size: number             // mind. 1; Online-Grenzen je Venue/Service
+ * }
+ *
+ * Je Client (IP) sind nur wenige gleichzeitige Holds erlaubt (SLOT_HOLD_MAX_PER_CLIENT).
+ *
+ * RESPONSE: 201 mit Hold (hold_token, expires_at, expires_in_seconds, end_time und price für den Mitarbeiter), 400 bei Validierungsfehlern,
+ *           409 Slot nicht frei, 429 zu viele aktive Holds
+ */
+router.post('/', async (req: Request, res: Response) =>
+{
+    const data: CreateSlotHoldData = req.body ?? {};
+
+    if (!data.venue_id || !data.service_id || !data.date || !data.start_time || !data.end_time || !data.party_size)
+    {
+        return res.status(400).json({
+            success: false,
+            message: 'Missing required fields: venue_id, service_id, date, start_time, end_time, party_size'
+        } as ApiResponse<void>);
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(data.date))
+    {
+        return res.status(400).json({ success: false, message: 'Invalid date format. Expected: YYYY-MM-DD' } as ApiResponse<void>);
+    }
+    const timeRegex = /^\d{2}:\d{2}$/;
+    if (!timeRegex.test(data.start_time) || !timeRegex.test(data.end_time))
+    {
+        return res.status(400).json({ success: false, message: 'Invalid time format. Expected: HH:MM' } as ApiResponse<void>);
+    }
+    if (!Number.isInteger(data.party_size) || data.party_size < 1)
+    {
+        return res.status(400).json({ success: false, message: 'Party size must be at least 1' } as ApiResponse<void>);
+    }
+    if (data.staff_member_id != null && (!Number.isInteger(data.staff_member_id) || data.staff_member_id < 1))
+    {
+        return res.status(400).json({ success: false, message: 'Invalid staff_member_id' } as ApiResponse<void>);
+    }
+
+    try
+    {
+        const hold = await SlotHoldService.createHold(data, req.ip ?? null);
+        return res.status(201).json({
+            success: true,
+            message: 'Slot held',
+            data: hold
+        } as ApiResponse<SlotHold>);
+    }
+    catch (error)
+    {
+        const msg = error instanceof Error ? error.message : 'Unknown error';
+        if (msg.includes('not available')) return res.status(409).json({ success: false, message: msg } as ApiResponse<void>);
+        if (msg === 'Too many active slot holds') return res.status(429).json({ success: false, message: msg } as ApiResponse<void>);
+        logger.error('Error creating slot hold', error);
+        return res.status(500).json({ success: false, message: 'Failed to hold slot' } as ApiResponse<void>);
+    }
+});
+
+
+/**
+ * DELETE /holds/:token
+ * Gibt einen Hold frei (andere Zeit gewählt, Checkout abgebrochen). 404, wenn er nicht mehr existiert.
+ */
+router.delete('/:token', async (req: Request<{ token: string }>, res: Response) =>
+{
+    if (!validateBookingToken(req.params.token))
+    {
+        return res.status(400).json({ success: false, message: 'Invalid token format' } as ApiResponse<void>);
+    }
+    try
+    {
+        const released = await SlotHoldService.releaseHold(req.params.token);
+        if (!released) return res.status(404).json({ success: false, message: 'Hold not found' } as ApiResponse<void>);
+        return res.json({ success: true, message: 'Hold released' } as ApiResponse<void>);
+    }
+    catch (error)
+    {
+        logger.error('Error releasing slot hold', error);
+        return res.status(500).json({ success: false, message: 'Failed to release hold' } as ApiResponse<void>);
+    }
+});
+
+export default router;
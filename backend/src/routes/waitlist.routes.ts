@@ -0,0 +1,168 @@
+/**
+ * WAITLIST ROUTES
+ * 
+ * Öffentliche Endpunkte für die Warteliste:
+ * - POST /waitlist                     -> Auf die Warteliste eintragen (ausgebuchter Tag)
+ * - GET  /waitlist/claim/:token        -> Angebot zum Einlöse-Link abrufen
+ * - POST /waitlist/claim/:token        -> Angebot einlösen (legt die Buchung an)
+ * 
+ * Owner-Verwaltung der Warteliste: siehe owner.routes (GET/DELETE /owner/waitlist)
+ */
+
+import express, { Request, Response } from 'express';
+import { createLogger } from '../config/utils/logger';
+import { WaitlistService, WaitlistOffer } from '../services/waitlist.service';
+import { ApiResponse, Booking, CreateWaitlistData, WaitlistEntry } from '../config/utils/types';
+import { optionalCustomerAuth } from '../middleware/customer-auth.middleware';
+
+const router = express.Router();
+const logger = createLogger('waitlist.routes');
+
+/** Max-Längen (wie bei Buchungen) */
+const MAX_CUSTOMER_NAME = 200;
+const MAX_CUSTOMER_PHONE = 50;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+
+/**
+ * POST /waitlist
+ * Trägt einen Kunden für Venue, Leistung und Datum (optional Zeitfenster) auf die Warteliste ein.
+ * 
+ * REQUEST BODY (CreateWaitlistData):
+ * {
+ *   venue_id: number,
+ *   service_id: number,
+ *   customer_name: string,
+ *   customer_email: string,
+ *   customer_phone?: string,
+ *   date: string,                  // Format: "YYYY-MM-DD"
+ *   time_from?: string,            // Optional: frühester Start "HH:MM"
+ *   time_to?: string,              // Optional: spätester Start "HH:MM"
+ *   party_size: number             // mind. 1; Online-Grenzen je Venue/Service
+ * }
+ * 
+ * RESPONSE: 201 mit Eintrag, 400 bei Validierungsfehlern, 404 Leistung unbekannt, 409 bereits eingetragen
+ */
+router.post('/', optionalCustomerAuth, async (req: Request, res: Response) =>
+{
+    const data: CreateWaitlistData = req.body ?? {};
+
+    if (!data.venue_id || !data.service_id || !data.customer_name || !data.customer_email || !data.date || !data.party_size)
+    {
+        return res.status(400).json({
+            success: false,
+            message: 'Missing required fields: venue_id, service_id, customer_name, customer_email, date, party_size'
+        } as ApiResponse<void>);
+    }
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(data.customer_email))
+    {
+        return res.status(400).json({ success: false, message: 'Invalid email format' } as ApiResponse<void>);
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(data.date))
+    {
+        return res.status(400).json({ success: false, message: 'Invalid date format. Expected: YYYY-MM-DD' } as ApiResponse<void>);
+    }
+    const timeRegex = /^\d{2}:\d{2}$/;
+    if ((data.time_from && !timeRegex.test(data.time_from)) || (data.time_to && !timeRegex.test(data.time_to)))
+    {
+        return res.status(400).json({ success: false, message: 'Invalid time format. Expected: HH:MM' } as ApiResponse<void>);
+    }
+    if (data.time_from && data.time_to && data.time_from > data.time_to)
+    {
+        return res.status(400).json({ success: false, message: 'time_from must be before time_to' } as ApiResponse<void>);
+    }
+    if (!Number.isInteger(data.party_size) || data.party_size < 1)
+    {
+        return res.status(400).json({ success: false, message: 'Party size must be at least 1' } as ApiResponse<void>);
+    }
+    if (String(data.customer_name).length > MAX_CUSTOMER_NAME)
+    {
+        return res.status(400).json({ success: false, message: `customer_name darf maximal ${MAX_CUSTOMER_NAME} Zeichen haben` } as ApiResponse<void>);
+    }
+    if (data.customer_phone != null && String(data.customer_phone).length > MAX_CUSTOMER_PHONE)
+    {
+        return res.status(400).json({ success: false, message: `customer_phone darf maximal ${MAX_CUSTOMER_PHONE} Zeichen haben` } as ApiResponse<void>);
+    }
+
+    if (req.customerJwtPayload) data.customer_id = req.customerJwtPayload.customerId;
+
+    try
+    {
+        const entry = await WaitlistService.joinWaitlist(data);
+        return res.status(201).json({
+            success: true,
+            message: 'Added to waitlist',
+            data: entry
+        } as ApiResponse<WaitlistEntry>);
+    }
+    catch (error)
+    {
+        const msg = error instanceof Error ? error.message : 'Unknown error';
+        if (msg === 'Service not found') return res.status(404).json({ success: false, message: msg } as ApiResponse<void>);
+        if (msg === 'Already on the waitlist') return res.status(409).json({ success: false, message: msg } as ApiResponse<void>);
+        if (msg === 'Cannot join the waitlist for a past date') return res.status(400).json({ success: false, message: msg } as ApiResponse<void>);
+        if (msg.startsWith('Party size must be between')) return res.status(400).json({ success: false, message: msg } as ApiResponse<void>);
+        logger.error('Error joining waitlist', error);
+        return res.status(500).json({ success: false, message: 'Failed to join waitlist' } as ApiResponse<void>);
+    }
+});
+
+
+/**
+ * GET /waitlist/claim/:token
+ * Liefert das Angebot (Termin, Venue, Leistung, Ablaufzeit) für die Einlöse-Seite.
+ */
+router.get('/claim/:token', async (req: Request<{ token: string }>, res: Response) =>
+{
+    if (!UUID_PATTERN.test(req.params.token))
+    {
+        return res.status(400).json({ success: false, message: 'Invalid token format' } as ApiResponse<void>);
+    }
+    try
+    {
+        const offer = await WaitlistService.getOfferByToken(req.params.token);
+        if (!offer) return res.status(404).json({ success: false, message: 'Offer not found' } as ApiResponse<void>);
+        return res.json({ success: true, data: offer } as ApiResponse<WaitlistOffer>);
+    }
+    catch (error)
+    {
+        logger.error('Error fetching waitlist offer', error);
+        return res.status(500).json({ success: false, message: 'Failed to fetch offer' } as ApiResponse<void>);
+    }
+});
+
+
+/**
+ * POST /waitlist/claim/:token
+ * Löst das Angebot ein. 201 mit Buchung; 404 unbekannt, 410 abgelaufen/vergeben, 409 Slot nicht mehr frei
+ * oder Angebot wird gerade eingelöst.
+ */
+router.post('/claim/:token', async (req: Request<{ token: string }>, res: Response) =>
+{
+    if (!UUID_PATTERN.test(req.params.token))
+    {
+        return res.status(400).json({ success: false, message: 'Invalid token format' } as ApiResponse<void>);
+    }
+    try
+    {
+        const booking = await WaitlistService.claimOffer(req.params.token);
+        return res.status(201).json({
+            success: true,
+            message: 'Booking created successfully',
+            data: booking
+        } as ApiResponse<Booking>);
+    }
+    catch (error)
+    {
+        const msg = error instanceof Error ? error.message : 'Unknown error';
+        if (msg === 'Offer not found') return res.status(404).json({ success: false, message: msg } as ApiResponse<void>);
+        if (msg === 'Offer is being claimed') return res.status(409).json({ success: false, message: msg } as ApiResponse<void>);
+        if (msg.startsWith('Offer is ')) return res.status(410).json({ success: false, message: msg } as ApiResponse<void>);
+        if (msg.includes('not available')) return res.status(409).json({ success: false, message: msg } as ApiResponse<void>);
+        logger.error('Error claiming waitlist offer', error);
+        return res.status(500).json({ success: false, message: 'Failed to claim offer' } as ApiResponse<void>);
+    }
+});
+
+export default router;
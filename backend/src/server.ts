@@ -21,9 +21,16 @@ import customerRoutes from './routes/customer.routes';
 import favoritesRoutes from './routes/favorites.routes';
 import reviewsRoutes from './routes/reviews.routes';
 import loyaltyRoutes from './routes/loyalty.routes';
+import waitlistRoutes from './routes/waitlist.routes';
+import slotHoldRoutes from './routes/slot-hold.routes';
+import groupRequestRoutes from './routes/group-request.routes';
+import calendarRoutes from './routes/calendar.routes';
 import { assertSecureJwtSecret } from './services/auth.service';
 import { assertSecureJwtSecret as assertSecureCustomerJwtSecret } from './services/customer-auth.service';
 import { startReminderCron } from './jobs/reminder.job';
+import { startWaitlistCron } from './jobs/waitlist.job';
+import { startSlotHoldCron } from './jobs/slot-hold.job';
+import { startExternalCalendarCron } from './jobs/external-calendar.job';
 
 dotenv.config();
 
@@ -31,6 +38,17 @@ const app = express();
 const PORT = process.env.PORT || 5001;
 const logger = createLogger('backend.server');
 
+// Hinter einem Reverse-Proxy (Railway) ist die Socket-Adresse die des Proxys – req.ip kommt dann aus X-Forwarded-For.
+// TRUST_PROXY = Anzahl Proxy-Hops, true/false oder Liste vertrauenswürdiger Adressen; Standard: 1 in Production
+function parseTrustProxy(value: string | undefined): boolean | number | string {
+    const raw = value?.trim();
+    if (!raw) return process.env.NODE_ENV === 'production' ? 1 : false;
+    if (/^\d+$/.test(raw)) return Number(raw);
+    if (raw === 'true' || raw === 'false') return raw === 'true';
+    return raw;
+}
+app.set('trust proxy', parseTrustProxy(process.env.TRUST_PROXY));
+
 // Security headers (Helmet)
 app.use(helmet());
 
@@ -124,6 +142,18 @@ app.use('/availability', availabilityRoutes);
 // Booking routes
 app.use('/bookings', bookingRoutes);
 
+// Waitlist routes (join, claim offer)
+app.use('/waitlist', waitlistRoutes);
+
+// Slot holds (vorläufige Reservierung während des Checkouts)
+app.use('/holds', slotHoldRoutes);
+
+// Gruppenanfragen (über der Online-Höchstzahl)
+app.use('/group-requests', groupRequestRoutes);
+
+// Kalender-Feeds (ICS, über geheimen Token in der URL)
+app.use('/calendar', calendarRoutes);
+
 // Admin routes (protected, role admin = System: Venues, User, Stats)
 app.use('/admin', adminRoutes);
 
@@ -166,6 +196,9 @@ const startServer = async() => {
 
         app.listen(PORT, () => {
             startReminderCron();
+            startWaitlistCron();
+            startSlotHoldCron();
+            startExternalCalendarCron();
             logger.info(`🚀 Backend-Server running on http://localhost:${PORT}`);
             logger.info(`🌍 Environment: ${process.env.NODE_ENV}`);
             logger.info(`🔗 CORS enabled for: ${frontendUrls.length ? frontendUrls.join(', ') : process.env.FRONTEND_URL || 'none'}\n`);
@@ -185,8 +218,9 @@ const startServer = async() => {
             logger.info('   GET    /venues/:id - Venue by ID (with services & staff)');
             logger.info('');
             logger.info('   📅 Availability:');
-            logger.info('   GET    /availability/slots - Available slots for a day');
+            logger.info('   GET    /availability/slots - Available slots for a day (anyStaff=true merges all staff)');
             logger.info('   GET    /availability/week - Available slots for a week');
+            logger.info('   GET    /availability/chain - Start times for several services in a row');
             logger.info('   POST   /availability/check - Check if time slot is available');
             logger.info('   POST   /availability/validate - Validate booking request');
             logger.info('   GET    /availability/service/:serviceId - Service details');
@@ -194,6 +228,7 @@ const startServer = async() => {
             logger.info('');
             logger.info('   📖 Bookings:');
             logger.info('   POST   /bookings - Create new booking');
+            logger.info('   POST   /bookings/series - Create recurring booking series');
             logger.info('   GET    /bookings/:id - Get booking by ID');
             logger.info('   GET    /venues/:venueId/bookings - Get all bookings for venue');
             logger.info('   GET    /bookings/customer/:email - Get bookings by customer email');
@@ -202,6 +237,22 @@ const startServer = async() => {
             logger.info('   POST   /bookings/:id/cancel - Cancel booking (email verification required)');
             logger.info('   DELETE /bookings/:id - Delete booking (ADMIN ONLY)');
             logger.info('');
+            logger.info('   ⏳ Waitlist:');
+            logger.info('   POST   /waitlist - Join waitlist for a fully booked day');
+            logger.info('   GET    /waitlist/claim/:token - Get waitlist offer');
+            logger.info('   POST   /waitlist/claim/:token - Claim offer (creates booking)');
+            logger.info('');
+            logger.info('   ⏱️  Slot holds:');
+            logger.info('   POST   /holds - Hold a slot during checkout (returns hold_token)');
+            logger.info('   DELETE /holds/:token - Release a slot hold');
+            logger.info('');
+            logger.info('   👥 Group requests:');
+            logger.info('   POST   /group-requests - Send a request for a group above the online maximum');
+            logger.info('');
+            logger.info('   📆 Calendar feeds:');
+            logger.info('   GET    /calendar/venue/:token - ICS feed of all venue bookings');
+            logger.info('   GET    /calendar/staff/:token - ICS feed of a staff member');
+            logger.info('');
             logger.info('   👤 Admin – System (role admin):');
             logger.info('   GET    /admin/stats - Global stats');
             logger.info('   GET    /admin/venues - List venues');
@@ -215,12 +266,52 @@ const startServer = async() => {
             logger.info('   📊 Owner – Venue (role owner only):');
             logger.info('   GET    /owner/bookings - Get bookings');
             logger.info('   POST   /owner/bookings - Create manual booking');
-            logger.info('   PATCH  /owner/bookings/:id/status - Update booking status');
+            logger.info('   PATCH  /owner/bookings/:id - Reschedule booking (scope: single/following)');
+            logger.info('   PATCH  /owner/bookings/:id/status - Update booking status (cancel series: scope=following)');
             logger.info('   GET    /owner/stats - Venue stats');
             logger.info('   GET    /owner/services - Get services');
             logger.info('   PATCH  /owner/services/:id - Update service');
             logger.info('   GET    /owner/availability - Get availability rules');
+            logger.info('   POST   /owner/availability - Create availability rule (base schedule or rule set)');
             logger.info('   PATCH  /owner/availability/:id - Update availability rule');
+            logger.info('   GET    /owner/availability/schedule - Get schedule in force on a date');
+            logger.info('   GET    /owner/availability/explain - Explain why slots of a day are (not) bookable');
+            logger.info('   GET    /owner/availability/rule-sets - Get seasonal rule sets');
+            logger.info('   POST   /owner/availability/rule-sets - Create rule set (copy of the base schedule)');
+            logger.info('   PATCH  /owner/availability/rule-sets/:id - Update rule set');
+            logger.info('   DELETE /owner/availability/rule-sets/:id - Delete rule set');
+            logger.info('   GET    /owner/availability/exceptions - Get closures/holidays/extra opening windows');
+            logger.info('   POST   /owner/availability/exceptions - Create availability exception');
+            logger.info('   PATCH  /owner/availability/exceptions/:id - Update availability exception');
+            logger.info('   DELETE /owner/availability/exceptions/:id - Delete availability exception');
+            logger.info('   GET    /owner/tables - Get restaurant tables');
+            logger.info('   POST   /owner/tables - Create table');
+            logger.info('   PATCH  /owner/tables/:id - Update table');
+            logger.info('   DELETE /owner/tables/:id - Delete table');
+            logger.info('   GET    /owner/resources - Get shared resources (rooms, equipment)');
+            logger.info('   POST   /owner/resources - Create resource');
+            logger.info('   PATCH  /owner/resources/:id - Update resource');
+            logger.info('   DELETE /owner/resources/:id - Delete resource');
+            logger.info('   GET    /owner/pacing-rules - Get pacing rules');
+            logger.info('   POST   /owner/pacing-rules - Create pacing rule');
+            logger.info('   PATCH  /owner/pacing-rules/:id - Update pacing rule');
+            logger.info('   DELETE /owner/pacing-rules/:id - Delete pacing rule');
+            logger.info('   GET    /owner/overbooking - Overbooking per day (query: from, to)');
+            logger.info('   GET    /owner/staff - Get staff members (assignment priority)');
+            logger.info('   PATCH  /owner/staff/:id - Update staff assignment priority');
+            logger.info('   GET    /owner/external-calendars - Get external staff calendars (ICS)');
+            logger.info('   POST   /owner/external-calendars - Add external calendar by feed URL');
+            logger.info('   POST   /owner/external-calendars/upload - Upload ICS file (query: staff_member_id, name)');
+            logger.info('   POST   /owner/external-calendars/:id/sync - Re-import external calendar');
+            logger.info('   DELETE /owner/external-calendars/:id - Remove external calendar');
+            logger.info('   GET    /owner/calendar-feeds - Get ICS feed tokens (venue and staff)');
+            logger.info('   POST   /owner/calendar-feeds/venue/regenerate - Regenerate venue feed token');
+            logger.info('   POST   /owner/calendar-feeds/staff/:id/regenerate - Regenerate staff feed token');
+            logger.info('   GET    /owner/waitlist - Get waitlist entries');
+            logger.info('   DELETE /owner/waitlist/:id - Remove waitlist entry');
+            logger.info('   GET    /owner/group-requests - Get group requests');
+            logger.info('   POST   /owner/group-requests/:id/accept - Accept group request (creates confirmed booking)');
+            logger.info('   POST   /owner/group-requests/:id/decline - Decline group request');
             logger.info('   GET    /owner/venue/settings - Get venue settings');
             logger.info('   PATCH  /owner/venue/settings - Update venue settings');
             logger.info('   (Passwort ändern: PATCH /auth/me/password für alle Rollen)');
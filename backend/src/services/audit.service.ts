@@ -1,7 +1,7 @@
 /**
  * Booking Audit Service
  * Schreibt Änderungen an Buchungen in booking_audit_log (wer, wann, was).
- * Wird bei Admin-Statusänderung, Kunden-Stornierung und Kunden-Update (Manage-Link) aufgerufen.
+ * Wird bei Admin-Statusänderung, Kunden-Stornierung, Kunden-Update (Manage-Link) und automatischer Mitarbeiterzuweisung aufgerufen.
  */
 
 import { getConnection } from '../config/database';
@@ -9,7 +9,7 @@ import { createLogger } from '../config/utils/logger';
 
 const logger = createLogger('audit.service');
 
-export type AuditAction = 'status_change' | 'cancel' | 'update';
+export type AuditAction = 'status_change' | 'cancel' | 'update' | 'staff_assigned';
 export type AuditActorType = 'admin' | 'owner' | 'staff' | 'customer' | 'system';
 
 export interface LogBookingActionParams {
@@ -1,15 +1,262 @@
 import { createLogger } from '../config/utils/logger';
 import { getConnection } from '../config/database';
+import { addDaysToDate, getDayOfWeek, getDaysBetween, getZonedToday, hoursUntil } from '../config/utils/timezone';
 
 import {
     TimeSlot,
     DayAvailability,
-    Service
+    Service,
+    SpecialAvailability,
+    VenueTable,
+    BookingServiceRequest,
+    ServiceChainItem,
+    ServiceChainSlot,
+    StaffAssignmentStrategy,
+    MinuteRange,
+    StaffScheduleOverride,
+    StaffScheduleConflict,
+    MonthAvailability,
+    MonthDayAvailability,
+    NextAvailableSlot,
+    PacingRule,
+    ServiceDurationRule,
+    OverbookingMode,
+    ServiceResourceRequirement,
+    BookingResource,
+    AvailabilityRuleSet,
+    AvailabilityExplanation,
+    SlotExplanation,
+    SlotRejection
 } from '../config/utils/types';
 
 
 const logger = createLogger('availability.service');
 
+// Belegung je Termin: Einzelbuchungen als eine Zeile, Buchungen mit mehreren Leistungen als eine Zeile je Leistung
+// (eigene Zeit, eigener Service und ggf. anderer Mitarbeiter pro Schritt). Wird in Konfliktabfragen statt "bookings" verwendet.
+// day_shift = 1, wenn ein Schritt erst nach Mitternacht beginnt (Kette über Mitternacht, Startzeit vor der des Termins).
+const BOOKING_SEGMENTS = `(
+    SELECT b.id, b.venue_id, b.booking_date, b.status, b.party_size, b.service_id, b.staff_member_id, b.start_time, b.end_time,
+        0 AS day_shift
+    FROM bookings b
+    WHERE NOT EXISTS (SELECT 1 FROM booking_items bi WHERE bi.booking_id = b.id)
+    UNION ALL
+    SELECT b.id, b.venue_id, b.booking_date, b.status, b.party_size, bi.service_id, bi.staff_member_id, bi.start_time, bi.end_time,
+        IF(bi.start_time < b.start_time, 1, 0) AS day_shift
+    FROM bookings b
+    JOIN booking_items bi ON bi.booking_id = b.id
+)`;
+
+// Abwesenheiten und Schichtänderungen der Mitarbeiter plus belegte Zeiten aus importierten externen Kalendern.
+// Letztere wirken wie eine Abwesenheit ohne Grund (negative id, damit sie sich nie mit einem Eintrag überschneidet).
+const STAFF_OVERRIDES = `(
+    SELECT id, staff_member_id, type, start_date, end_date, start_time, end_time, reason
+    FROM staff_schedule_overrides
+    UNION ALL
+    SELECT -id, staff_member_id, 'time_off', start_date, end_date, start_time, end_time, NULL
+    FROM staff_busy_times
+)`;
+
+// Belegung für Verfügbarkeitsprüfungen: Buchungssegmente plus aktive Slot-Holds (status 'held', negative id,
+// damit "b.id != excludeBookingId" nie einen fremden Hold trifft; createBooking übergeht den eigenen Hold mit -hold.id).
+// Abgelaufene Holds zählen sofort nicht mehr, auch bevor der Cron sie löscht.
+const OCCUPYING_SEGMENTS = `(
+    SELECT * FROM ${BOOKING_SEGMENTS} bs
+    UNION ALL
+    SELECT -h.id, h.venue_id, h.hold_date, 'held', h.party_size, h.service_id, h.staff_member_id, h.start_time, h.end_time,
+        0 AS day_shift
+    FROM slot_holds h
+    WHERE h.expires_at > NOW()
+)`;
+
+// Tischzuweisungen offener Buchungen und aktiver Slot-Holds (Holds mit status 'held' und negativer id)
+const TABLE_ASSIGNMENTS = `(
+    SELECT b.id, bt.table_id, b.venue_id, b.service_id, b.booking_date, b.start_time, b.end_time, b.status
+    FROM booking_tables bt
+    JOIN bookings b ON bt.booking_id = b.id
+    UNION ALL
+    SELECT -h.id, ht.table_id, h.venue_id, h.service_id, h.hold_date, h.start_time, h.end_time, 'held'
+    FROM slot_hold_tables ht
+    JOIN slot_holds h ON ht.hold_id = h.id
+    WHERE h.expires_at > NOW()
+)`;
+
+// Ressourcenbelegung offener Buchungen (je Schritt mit eigener Zeit und eigenem Service) und aktiver Slot-Holds.
+// Holds belegen den aktuellen Bedarf ihres Services (service_resources); day_shift wie in BOOKING_SEGMENTS.
+const RESOURCE_ASSIGNMENTS = `(
+    SELECT b.id, br.resource_id, br.quantity, b.venue_id, br.service_id, b.booking_date, br.start_time, br.end_time, b.status,
+        IF(br.start_time < b.start_time, 1, 0) AS day_shift
+    FROM booking_resources br
+    JOIN bookings b ON br.booking_id = b.id
+    UNION ALL
+    SELECT -h.id, sr.resource_id, sr.quantity, h.venue_id, h.service_id, h.hold_date, h.start_time, h.end_time, 'held',
+        0 AS day_shift
+    FROM slot_holds h
+    JOIN service_resources sr ON sr.service_id = h.service_id
+    WHERE h.expires_at > NOW()
+)`;
+
+// Ankünfte für die Ankunftssteuerung (Pacing): offene Buchungen (pending + confirmed) mit ihrer Startzeit und aktive Slot-Holds.
+// Zählt nur kapazitätsbasierte Services (ohne Mitarbeiter); Holds haben wie in OCCUPYING_SEGMENTS eine negative id.
+const PACING_ARRIVALS = `(
+    SELECT b.id, b.venue_id, b.booking_date, b.start_time, b.party_size, b.status
+    FROM bookings b
+    JOIN services s ON b.service_id = s.id
+    WHERE s.requires_staff = false
+    UNION ALL
+    SELECT -h.id, h.venue_id, h.hold_date, h.start_time, h.party_size, 'held'
+    FROM slot_holds h
+    JOIN services s ON h.service_id = s.id
+    WHERE s.requires_staff = false
+    AND h.expires_at > NOW()
+)`;
+
+// Maximale Anzahl Tische pro Kombinationsgruppe, die beim Zusammenstellen durchprobiert werden (2^n Varianten)
+const MAX_COMBINABLE_TABLES = 12;
+
+// Zeiträume über Mitternacht werden in Minuten relativ zum Bezugstag gerechnet (Folgetag = +1440)
+const MINUTES_PER_DAY = 24 * 60;
+
+// Lebensdauer berechneter Tages-Slots im Cache; Änderungen an Buchungen und Regeln leeren ihn sofort (invalidateCache)
+const AVAILABILITY_CACHE_TTL_MS = 60 * 1000;
+
+// Tage, die getNextAvailableSlots pro Durchgang lädt
+const NEXT_AVAILABLE_BLOCK_DAYS = 14;
+
+// Obergrenze für Cache-Einträge (Venue × Service × Datum × Personenzahl), danach wird geleert
+const AVAILABILITY_CACHE_MAX_ENTRIES = 10000;
+
+// Online buchbare Personenzahl, wenn weder Venue noch Service etwas vorgeben
+const DEFAULT_MIN_PARTY_SIZE = 1;
+const DEFAULT_MAX_PARTY_SIZE = 8;
+
+// No-Show-Quote für die Überbuchung: abgeschlossene Buchungen der letzten Tage, erst ab einer Mindestanzahl aussagekräftig
+const NO_SHOW_RATE_DAYS = 90;
+const NO_SHOW_RATE_MIN_BOOKINGS = 20;
+
+interface AvailabilityRuleRow
+{
+    rule_set_id: number | null;     // null = Grundplan
+    day_of_week: number;
+    start_time: string;
+    end_time: string;
+}
+
+/** Bestehende Belegung (Buchungssegment bzw. belegter Tisch) mit Datum – day_offset wird je Bezugstag berechnet */
+interface OccupancyRow
+{
+    id: number;                     // Buchung (negativ = Slot-Hold)
+    booking_date: string;
+    start_time: string;
+    end_time: string;
+    buffer_before_minutes: number;
+    buffer_after_minutes: number;
+}
+
+interface BookingSegmentRow extends OccupancyRow
+{
+    venue_id: number;
+    service_id: number;
+    staff_member_id: number | null;
+    party_size: number;
+    day_shift: number;
+}
+
+interface TableOccupancyRow extends OccupancyRow
+{
+    venue_id: number;
+    table_id: number;
+}
+
+/** Belegte Einheiten einer Ressource (Buchungsschritt oder Slot-Hold) */
+interface ResourceOccupancyRow extends OccupancyRow
+{
+    venue_id: number;
+    resource_id: number;
+    quantity: number;
+    day_shift: number;
+}
+
+/** Bedarf eines Services an einer Ressource mit deren verfügbaren Einheiten (0, wenn deaktiviert) */
+interface ResourceRequirementRow extends ServiceResourceRequirement
+{
+    service_id: number;
+    resource_name: string;
+    resource_quantity: number;
+}
+
+/** Ankunft (Buchungsbeginn) für die Ankunftssteuerung */
+interface PacingArrivalRow
+{
+    venue_id: number;
+    booking_date: string;
+    start_time: string;
+    party_size: number;
+}
+
+interface VenueSlotSettings
+{
+    booking_advance_hours: number;
+    timezone: string;
+    min_party_size: number;
+    max_party_size: number;
+    overbooking_mode: OverbookingMode;
+    overbooking_value: number;
+    overbooking_cap: number;
+}
+
+/**
+ * Alle Daten für die Slot-Berechnung mehrerer Venues über einen Datumsbereich (inkl. Vortag/Folgetag),
+ * mit wenigen Abfragen geladen (loadAvailabilityData) und im Speicher ausgewertet (computeDaySlots).
+ */
+interface AvailabilityData
+{
+    venues: Map<number, VenueSlotSettings>;
+    services: Map<number, Service>;
+    staffByService: Map<number, number[]>;      // aktive Mitarbeiter, die den Service anbieten
+    staffDurations: Map<number, Map<number, number>>;   // je Service: abweichende Dauer je Mitarbeiter (nur gesetzte)
+    venueRules: Map<number, AvailabilityRuleRow[]>;
+    staffRules: Map<number, AvailabilityRuleRow[]>;
+    ruleSets: Map<number, AvailabilityRuleSet[]>;       // aktive saisonale Zeitpläne je Venue (gelten auch für dessen Mitarbeiter)
+    venueSpecials: Map<number, SpecialAvailability[]>;
+    staffSpecials: Map<number, SpecialAvailability[]>;
+    overrides: Map<number, StaffScheduleOverride[]>;
+    bookings: Map<number, BookingSegmentRow[]>;
+    tables: Map<number, VenueTable[]>;
+    tableOccupancy: Map<number, TableOccupancyRow[]>;
+    pacingRules: Map<number, PacingRule[]>;
+    pacingArrivals: Map<number, PacingArrivalRow[]>;
+    durationRules: Map<number, ServiceDurationRule[]>;   // je Service, nach min_party_size sortiert
+    noShowRates: Map<number, number | null>;              // nur für Venues/Services mit Überbuchung nach No-Show-Quote
+    resourceRequirements: Map<number, ResourceRequirementRow[]>;  // je Service, nur Services mit Ressourcenbedarf
+    resourceOccupancy: Map<number, ResourceOccupancyRow[]>;
+}
+
+/** Cache-Eintrag: Slots eines Tages vor den zeitabhängigen Filtern (Vorlaufzeit, Zeitfenster) */
+interface CachedDaySlots
+{
+    expiresAt: number;
+    day: DayAvailability;
+    venue: VenueSlotSettings;
+}
+
+const availabilityCache = new Map<string, CachedDaySlots>();
+
+/** Gruppiert Zeilen nach einer ID (Zeilen ohne ID werden übersprungen) */
+function groupById<T>(rows: T[], getId: (row: T) => number | null): Map<number, T[]>
+{
+    const grouped = new Map<number, T[]>();
+    for (const row of rows)
+    {
+        const id = getId(row);
+        if (id === null) continue;
+        const list = grouped.get(id) ?? [];
+        list.push(row);
+        grouped.set(id, list);
+    }
+    return grouped;
+}
+
 export class AvailabilityService 
 {
     /*
@@ -28,7 +275,36 @@ export class AvailabilityService
     }
 
     /*
-     * Prüft. ob sich zwei Zeitslots überschneiden
+     * Konvertiert Minuten seit Mitternacht in Zeitstring (HH:MM), z.B. 870 → "14:30".
+     */
+    static minutesToTimeString(totalMinutes: number): string
+    {
+        const hours = Math.floor(totalMinutes / 60);
+        const minutes = totalMinutes % 60;
+        return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
+    }
+
+    /*
+     * Wandelt einen Zeitraum (HH:MM) in Minuten relativ zu Mitternacht des Bezugstags um.
+     * Liegt das Ende nicht nach dem Beginn, läuft der Zeitraum über Mitternacht (z.B. 18:00-02:00 → 1080-1560).
+     * dayOffset verschiebt den Zeitraum auf den Vortag (-1) bzw. Folgetag (+1), z.B. für Buchungen vom Vortag.
+     */
+    static toMinuteRange(startTime: string, endTime: string, dayOffset: number = 0): MinuteRange
+    {
+        const start = this.timeStringToMinutes(startTime) + dayOffset * MINUTES_PER_DAY;
+        let end = this.timeStringToMinutes(endTime) + dayOffset * MINUTES_PER_DAY;
+
+        // Ende vor (oder gleich) Beginn → Ende liegt am Folgetag (00:00 als Ende = Mitternacht)
+        if (end <= start)
+        {
+            end += MINUTES_PER_DAY;
+        }
+
+        return { start, end };
+    }
+
+    /*
+     * Prüft. ob sich zwei Zeitslots überschneiden (auch über Mitternacht, z.B. 23:00-01:00 und 00:30-01:30)
      */
     static timeSlotsOverlap(
         slot1Start: string,         // Start von Slot 1 (z.B. "14:00")
@@ -38,26 +314,73 @@ export class AvailabilityService
     ): boolean
     {
         // Konvertiert alle Zeiten in Minuten (z.B. "14:00" → 840, "15:00" → 900)
-        const slot1StartMinutes = this.timeStringToMinutes(slot1Start);
-        const slot1EndMinutes = this.timeStringToMinutes(slot1End);
-        const slot2StartMinutes = this.timeStringToMinutes(slot2Start);
-        const slot2EndMinutes = this.timeStringToMinutes(slot2End);
+        const slot1 = this.toMinuteRange(slot1Start, slot1End);
+        const slot2 = this.toMinuteRange(slot2Start, slot2End);
 
         // Überschneidungslogik: Slot1 startet vor Ende von Slot2 UND Slot2 startet vor Ende von Slot1
         // Beispiel: 840 < 930 (14:00 < 15:30) UND 870 < 900 (14:30 < 15:00) = true → Überschneidung!
+        return slot1.start < slot2.end && slot2.start < slot1.end
+    }
+
+    /*
+     * Prüft, ob sich zwei Termine inkl. ihrer Pufferzeiten überschneiden.
+     * Puffer (Vorbereitung/Reinigung) blockieren Mitarbeiter bzw. Platz, gehören aber nicht zur Terminzeit des Kunden.
+     * day_offset: Termin liegt am Vortag (-1) bzw. Folgetag (+1) des Bezugstags – relevant für Termine über Mitternacht.
+     */
+    static timeSlotsOverlapWithBuffers(
+        slot1: { start_time: string; end_time: string; buffer_before_minutes?: number | null; buffer_after_minutes?: number | null; day_offset?: number | null },
+        slot2: { start_time: string; end_time: string; buffer_before_minutes?: number | null; buffer_after_minutes?: number | null; day_offset?: number | null }
+    ): boolean
+    {
+        const range1 = this.toMinuteRange(slot1.start_time, slot1.end_time, Number(slot1.day_offset || 0));
+        const range2 = this.toMinuteRange(slot2.start_time, slot2.end_time, Number(slot2.day_offset || 0));
+
+        // Blockierter Zeitraum = Terminzeit erweitert um Puffer davor/danach
+        // Beispiel: 10:00-10:45 mit 15 Min. Puffer danach blockiert 10:00-11:00
+        const slot1StartMinutes = range1.start - (slot1.buffer_before_minutes || 0);
+        const slot1EndMinutes = range1.end + (slot1.buffer_after_minutes || 0);
+        const slot2StartMinutes = range2.start - (slot2.buffer_before_minutes || 0);
+        const slot2EndMinutes = range2.end + (slot2.buffer_after_minutes || 0);
+
         return slot1StartMinutes < slot2EndMinutes && slot2StartMinutes < slot1EndMinutes
     }
 
     /**
      * Generate time slots between start and end time
-     * MVP: bufferAfter (Pufferzeit nach jedem Slot) nicht genutzt; für spätere Erweiterung vorgesehen.
+     * Ende vor Startzeit = Zeitfenster über Mitternacht (z.B. 18:00-02:00), siehe generateTimeSlotsInWindow.
      */
-    // Erstellt eine Liste aller theoretisch möglichen Zeitslots im gegebenen Zeitfenster
     static generateTimeSlots(
         startTime: string,          // Format: "HH:MM"
         endTime: string,            // Format: "HH:MM"
-        duration: number            // Dauer eines Slots in Minuten
-        // bufferAfter: number = 0  // MVP: deaktiviert; später optional Puffer nach Slot
+        duration: number,           // Dauer eines Slots in Minuten
+        bufferBefore: number = 0,   // Vorbereitungszeit vor jedem Termin
+        bufferAfter: number = 0,    // Pufferzeit (z.B. Reinigung) nach jedem Termin
+        interval?: number | null    // Optional: Raster der Startzeiten (z.B. 15 → 09:00, 09:15, ...)
+    ): TimeSlot[]
+    {
+        return this.generateTimeSlotsInWindow(
+            this.toMinuteRange(startTime, endTime),
+            duration,
+            bufferBefore,
+            bufferAfter,
+            interval
+        );
+    }
+
+    /**
+     * Generate time slots within a window (Minuten relativ zu Mitternacht des Tages)
+     * Pufferzeiten (bufferBefore/bufferAfter) bzw. das Slot-Raster (interval) bestimmen nur den nächsten Slot-Start;
+     * start_time/end_time eines Slots bleiben die reine Terminzeit für den Kunden.
+     * Ein Slot gehört zu dem Tag, an dem er beginnt: Slot-Starts vor Mitternacht (Fenster vom Vortag, negative Minuten)
+     * bzw. ab Mitternacht des Folgetags werden ausgelassen. Ein Slot darf über Mitternacht enden (z.B. 23:30-00:30).
+     */
+    // Erstellt eine Liste aller theoretisch möglichen Zeitslots im gegebenen Zeitfenster
+    static generateTimeSlotsInWindow(
+        window: MinuteRange,        // Zeitfenster, z.B. { start: 1080, end: 1560 } für 18:00-02:00
+        duration: number,           // Dauer eines Slots in Minuten
+        bufferBefore: number = 0,   // Vorbereitungszeit vor jedem Termin
+        bufferAfter: number = 0,    // Pufferzeit (z.B. Reinigung) nach jedem Termin
+        interval?: number | null    // Optional: Raster der Startzeiten (z.B. 15 → 09:00, 09:15, ...)
     ): TimeSlot[] 
     {
 
@@ -65,45 +388,31 @@ export class AvailabilityService
         //           Typ: Array    Wert: leeres Array
         const slots: TimeSlot[] = [];
 
-        // Konvertiert Startzeit/Endzeit in Gesamtminuten seit Mitternacht
-        const startTotalMinutes = this.timeStringToMinutes(startTime);      // Bei 14:30 Z.B. ist es dann 840 + 30 = 870
-        const endTotalMinutes = this.timeStringToMinutes(endTime);          // Bei 15:30 z.B. ist es dann 900 + 30 = 930
-
-        // Berechnet die Gesamtdauer inklusive optionalem Puffer (MVP: nur duration)
-        const slotDuration = duration;// + bufferAfter;
+        // Abstand zwischen zwei Slot-Starts: konfiguriertes Raster, sonst Gesamtdauer inklusive Puffer
+        // (z.B. 45 Min. Termin + 15 Min. Reinigung = alle 60 Min. ein Slot). Die Dauer bestimmt weiterhin die belegte Zeit.
+        const slotDuration = interval && interval > 0 ? interval : bufferBefore + duration + bufferAfter;
 
 
 
         // Loop durch alle möglichen Zeitslots
-        for ( let currentMinutes = startTotalMinutes;                       // Startet bei der Anfangszeit (z.B. 14:00 = 840 Minuten)
-              currentMinutes + duration <= endTotalMinutes;                 // Prüft, ob ein kompletter Termin noch reinpasst
+        for ( let currentMinutes = window.start;                            // Startet bei der Anfangszeit (z.B. 14:00 = 840 Minuten)
+              currentMinutes + duration <= window.end;                      // Prüft, ob ein kompletter Termin noch reinpasst
               currentMinutes += slotDuration )                              // Springt zum nächsten möglichen Slot
         {
-            // Beispiel: currentMinutes = 885 (das sind 14:45 Uhr)
-
-            // 1. Slot-STARTZEIT berechnen
-            const slotStartHour = Math.floor(currentMinutes / 60);          // = 14 (volle Stunden)
-            const slotStartMinute = currentMinutes % 60;                    // = 45 (Rest-Minuten)
-            // Ergebnis: 14:45
-
-            // 2. Slot-ENDZEIT in Minuten berechnen
-            const slotEndMinutes = currentMinutes + duration;               // = 945 (bei 60 Min duration)
+            // Slot beginnt am Vortag (Fenster über Mitternacht) → gehört zum Vortag, Raster läuft aber weiter
+            if (currentMinutes < 0) continue;
 
-            // 3. Slot-ENDZEIT in Stunden:Minuten umrechnen
-            const slotEndHour = Math.floor(slotEndMinutes / 60);            // = 15 (volle Stunden)
-            const slotEndMinuteRemainder = slotEndMinutes % 60;             // = 45 (Rest-Minuten)
-            // Ergebnis: 15:45
-
-
-            // Formatiert Start/End-Zeit als String mit führenden Nullen (z.B. "09:30")
-            const startTimeStr = `${slotStartHour.toString().padStart(2, '0')}:${slotStartMinute.toString().padStart(2, '0')}`;
-            const endTimeStr = `${slotEndHour.toString().padStart(2, '0')}:${slotEndMinuteRemainder.toString().padStart(2, '0')}`;
+            // Slot beginnt erst am Folgetag → gehört zum Folgetag
+            if (currentMinutes >= MINUTES_PER_DAY) break;
 
+            // Beispiel: currentMinutes = 885 (das sind 14:45 Uhr)
+            // Slot-Ende in Minuten (z.B. 945 bei 60 Min duration), nach Mitternacht wieder ab 00:00 gezählt
+            const slotEndMinutes = (currentMinutes + duration) % MINUTES_PER_DAY;
 
-            // Fügt den neuen Slot zum Array hinzu
+            // Fügt den neuen Slot zum Array hinzu, Zeiten mit führenden Nullen (z.B. "14:45"-"15:45")
             slots.push({
-                start_time: startTimeStr,
-                end_time: endTimeStr,
+                start_time: this.minutesToTimeString(currentMinutes),
+                end_time: this.minutesToTimeString(slotEndMinutes),
                 available: true                                             // Initial alle Slots als verfügbar markieren
             });
         }
@@ -111,306 +420,2116 @@ export class AvailabilityService
         return slots;
     }
 
+
     /**
-     * Prüft, ob ein spezifischer Zeitslot für eine Buchung verfügbar ist
+     * Lädt Sonderverfügbarkeiten (Schließungen, Feiertage, Urlaub, Zusatzöffnungen) für ein oder mehrere Daten.
+     * Liefert immer die Einträge des Geschäfts + die der angegebenen Mitarbeiter.
      */
-    static async isTimeSlotAvailable(
-        venueId: number,                // ID des Geschäfts
-        serviceId: number,              // ID des Services
-        staffMemberId: number | null,   // Optional: ID des Mitarbeiters
-        date: string,                   // Datum im Format YYYY-MM-DD
-        startTime: string,              // Startzeit in HH:MM
-        endTime: string,                // Endzeit in HH:MM
-        partySize: number = 1,          // Anzahl Personen (Standard: 1)
-        excludeBookingId?: number       // Optional: Buchung die ignoriert werden soll (für Updates)
-    ): Promise<{ available: boolean; reason?: string }> 
+    static async getSpecialAvailabilityForDate(
+        conn: Awaited<ReturnType<typeof getConnection>>,
+        venueId: number,
+        date: string | string[],
+        staffMemberIds: number[] = []
+    ): Promise<SpecialAvailability[]>
     {
-        logger.info('Validating slot availability...',{
-            venue_id: venueId,
-            service_id: serviceId,
-            staff_member_id: staffMemberId,
-            date: date,
-            start_time: startTime,
-            end_time: endTime,
-            party_size: partySize,
-            exclude_booking_id: excludeBookingId
-        });
+        const dates = Array.isArray(date) ? date : [date];
+
+        // Findet Ausnahmen für: Geschäft (immer) + Mitarbeiter (falls angegeben)
+        const staffFilter = staffMemberIds.length > 0
+            ? `OR staff_member_id IN (${staffMemberIds.map(() => '?').join(',')})`
+            : '';
+
+        return await conn.query(`
+            SELECT id, venue_id, staff_member_id, date, start_time, end_time, is_available, reason
+            FROM special_availability
+            WHERE (
+                venue_id = ?
+                ${staffFilter}
+            )
+            AND date IN (${dates.map(() => '?').join(',')})`,
+            [venueId, ...staffMemberIds, ...dates]
+        ) as SpecialAvailability[];
+    }
 
-        let conn;
-        try 
-        {
-            conn = await getConnection();
-            logger.debug('Database connection established');
 
-            const services = await conn.query(`
-                SELECT duration_minutes, requires_staff, capacity
-                FROM services
-                WHERE id = ?
-                AND venue_id = ?
-                AND is_active = true`,
-                [serviceId, venueId]
-            ) as Pick<Service, 'duration_minutes' | 'requires_staff' | 'capacity'>[];
+    /**
+     * Filtert die Sonderverfügbarkeiten, die für einen Mitarbeiter gelten:
+     * Schließungen des Geschäfts (Feiertag, Betriebsferien) + alle eigenen Einträge (Urlaub, Zusatzschicht).
+     * Zusätzliche Öffnungsfenster des Geschäfts erweitern NICHT die Schichten der Mitarbeiter.
+     */
+    static specialAvailabilityForStaff(specials: SpecialAvailability[], staffMemberId: number): SpecialAvailability[]
+    {
+        return specials.filter(special =>
+            special.staff_member_id === staffMemberId ||
+            (special.venue_id !== null && !special.is_available)
+        );
+    }
 
 
-            // Prüfe, ob Service existiert
-            if (services.length === 0)
+    /**
+     * Wendet Sonderverfügbarkeiten auf die regulären Zeitfenster (availability_rules) an.
+     * Gerechnet wird in Minuten relativ zum Bezugstag; Vortag (dayOffset -1) und Folgetag (+1) werden mitgegeben,
+     * da Fenster über Mitternacht reichen können (z.B. Fr 18:00-02:00 → Sa 00:00-02:00 gehört zur Öffnung vom Freitag).
+     * Reihenfolge: eine ganztägige Schließung verwirft die Wochenregeln ihres Tages, zusätzliche Öffnungsfenster
+     * werden ergänzt, partielle Schließungen werden zum Schluss aus allen Fenstern herausgeschnitten.
+     */
+    static applySpecialAvailability(
+        days: { dayOffset: number; rules: { start_time: string; end_time: string }[]; specials: SpecialAvailability[] }[]
+    ): MinuteRange[]
+    {
+        let result: MinuteRange[] = [];
+
+        for (const day of days)
+        {
+            // Ganztägige Schließung (kein Zeitfenster angegeben) → reguläre Zeiten dieses Tages entfallen komplett
+            const closedAllDay = day.specials.some(special => !special.is_available && (!special.start_time || !special.end_time));
+            if (!closedAllDay)
             {
-                logger.warn('Service not found or inactive');
+                result.push(...day.rules.map(rule => this.toMinuteRange(rule.start_time, rule.end_time, day.dayOffset)));
+            }
 
-                return {
-                    available: false,
-                    reason: 'Service not found or inactive'
-                };
+            // Zusätzliche Öffnungsfenster ergänzen (z.B. verkaufsoffener Sonntag, Zusatzschicht)
+            for (const special of day.specials)
+            {
+                if (special.is_available && special.start_time && special.end_time)
+                {
+                    result.push(this.toMinuteRange(special.start_time, special.end_time, day.dayOffset));
+                }
             }
+        }
 
+        // Partielle Schließungen herausschneiden – ein Fenster kann dabei in zwei Teile zerfallen
+        // Beispiel: 09:00-18:00 mit Schließung 12:00-14:00 → 09:00-12:00 und 14:00-18:00
+        for (const day of days)
+        {
+            for (const special of day.specials)
+            {
+                if (special.is_available || !special.start_time || !special.end_time) continue;
 
-            // Castet ersten Eintrag zu Service-Typ und nimmt nur die drei Werte
-            const service = services[0];
+                const closed = this.toMinuteRange(special.start_time, special.end_time, day.dayOffset);
 
+                result = result.flatMap(window => {
+                    if (!(window.start < closed.end && closed.start < window.end)) return [window];
 
-            // Prüfe, pb die Gruppengröße die Kapazität überschreitet
-            if (partySize > service.capacity)
-            {
-                logger.warn(`Party size exceeds capacity (max: ${service.capacity})`);
+                    const parts: MinuteRange[] = [];
+                    if (window.start < closed.start)
+                    {
+                        parts.push({ start: window.start, end: closed.start });
+                    }
+                    if (closed.end < window.end)
+                    {
+                        parts.push({ start: closed.end, end: window.end });
+                    }
+                    return parts;
+                });
+            }
+        }
 
-                return {
-                    available: false,
-                    reason: `Party size exceeds capacity (max: ${service.capacity})`
-                };
+        // Sortieren und überlappende/angrenzende Fenster zusammenführen (z.B. Regel 09:00-12:00 + Zusatz 12:00-14:00,
+        // oder Mo 18:00-24:00 + Di 00:00-03:00 → ein Fenster über Mitternacht)
+        result.sort((a, b) => a.start - b.start);
+        const merged: MinuteRange[] = [];
+        for (const window of result)
+        {
+            const last = merged[merged.length - 1];
+            if (last && window.start <= last.end)
+            {
+                last.end = Math.max(last.end, window.end);
+            }
+            else
+            {
+                merged.push({ ...window });
             }
+        }
 
+        return merged;
+    }
 
-            // Konvertiere Datumsstring zu Date-Objekt
-            const requestedDate = new Date(date);
-            // Ermittle Wochentag (0 = Sonntag, 1 = Montag,...)
-            const dayOfWeek = requestedDate.getDay();
 
+    /**
+     * Lädt die Abwesenheiten und Schichtänderungen eines Mitarbeiters, die den Datumsbereich berühren
+     * (inkl. belegter Zeiten aus externen Kalendern, siehe STAFF_OVERRIDES).
+     */
+    static async getStaffScheduleOverrides(
+        conn: Awaited<ReturnType<typeof getConnection>>,
+        staffMemberId: number,
+        fromDate: string,
+        toDate: string
+    ): Promise<StaffScheduleOverride[]>
+    {
+        return await conn.query(`
+            SELECT id, staff_member_id, type, start_date, end_date, start_time, end_time, reason
+            FROM ${STAFF_OVERRIDES} o
+            WHERE staff_member_id = ?
+            AND start_date <= ?
+            AND end_date >= ?`,
+            [staffMemberId, toDate, fromDate]
+        ) as StaffScheduleOverride[];
+    }
 
-            // Prüfe Verfüp - gbarkeitsregeln
-            // Wenn Staff benötigt wird, holen wir uns die 
-            if (service.requires_staff && staffMemberId)
-            {
-                const staffRules = await conn.query(`
-                    SELECT start_time, end_time
-                    FROM availability_rules
-                    WHERE staff_member_id = ?
-                    AND day_of_week = ?
-                    AND is_active = true`,
-                    [staffMemberId, dayOfWeek]
-                ) as { start_time: string; end_time: string }[];;
 
+    /**
+     * Lädt die aktiven saisonalen Zeitpläne der Venues (welcher an einem Datum gilt, siehe resolveRuleSet).
+     */
+    static async getRuleSets(
+        conn: Awaited<ReturnType<typeof getConnection>>,
+        venueIds: number[]
+    ): Promise<AvailabilityRuleSet[]>
+    {
+        if (venueIds.length === 0) return [];
+
+        return await conn.query(`
+            SELECT id, venue_id, name, valid_from, valid_until, is_active
+            FROM availability_rule_sets
+            WHERE venue_id IN (${venueIds.map(() => '?').join(',')})
+            AND is_active = true`,
+            venueIds
+        ) as AvailabilityRuleSet[];
+    }
 
-                // Prüfe, ob Mitarbeiter an diesem Tag arbeitet
-                if (staffRules.length === 0)
-                {
-                    logger.warn('Staff not available on this day');
 
-                    return {
-                        available: false,
-                        reason: 'Staff not available on this day'
-                    };
-                }
+    /**
+     * Ermittelt den Zeitplan, der an einem Datum gilt (null = Grundplan).
+     * Greifen mehrere Zeitpläne, gewinnt der spezifischste: der mit dem kürzesten Zeitraum
+     * (einseitig offene Zeiträume zuletzt), bei Gleichstand der später beginnende bzw. zuletzt angelegte.
+     * Beispiel: "Sommer" 01.05.–30.09. und "Stadtfest" 10.07.–12.07. → am 11.07. gilt "Stadtfest".
+     */
+    static resolveRuleSet(ruleSets: AvailabilityRuleSet[], date: string): AvailabilityRuleSet | null
+    {
+        const span = (ruleSet: AvailabilityRuleSet) => ruleSet.valid_from && ruleSet.valid_until
+            ? getDaysBetween(ruleSet.valid_from, ruleSet.valid_until)
+            : Infinity;
+
+        const candidates = ruleSets
+            .filter(ruleSet =>
+                ruleSet.is_active &&
+                (!ruleSet.valid_from || ruleSet.valid_from <= date) &&
+                (!ruleSet.valid_until || ruleSet.valid_until >= date)
+            )
+            .sort((a, b) =>
+                // Infinity - Infinity ergibt NaN → wie Gleichstand weiter vergleichen
+                span(a) - span(b) ||
+                (b.valid_from ?? '').localeCompare(a.valid_from ?? '') ||
+                b.id - a.id
+            );
 
+        return candidates[0] ?? null;
+    }
 
-                // Prüfe, ob gewünschte Uhrzeit innerhalb der Arbeitszeiten liegt
-                const isWithinStaffHours = staffRules.some((rule: any) =>                                       // Durchläuft alle Schichten (z.B. 09:00-12:00, 14:00-18:00) und prüft, ob der Slot in EINE davon passt
-                    this.timeStringToMinutes(startTime) >= this.timeStringToMinutes(rule.start_time) &&         // Meine gewünschte startTime muss größer gleich wie start_time vom Mitarbeiter sein
-                    this.timeStringToMinutes(endTime) <= this.timeStringToMinutes(rule.end_time)                // Meine gewünschte endTime muss kleiner gleich wie end_time vom Mitarbeiter sein 
-                );
-                
-                // Gebe Fehler zurück, wenn außerhalb Arbeitszeiten
-                if (!isWithinStaffHours)
-                {
-                    logger.warn('Requested time is outside staff working hours');
 
-                    return {
-                        available: false,
-                        reason: 'Requested time is outside staff working hours'
-                    };
-                }
-            } else {
+    /**
+     * Wochenregeln des Geschäfts bzw. eines Mitarbeiters, die an einem Datum gelten (alle Wochentage):
+     * die des gültigen Zeitplans, sofern er Regeln für ihn enthält – sonst der Grundplan (rule_set_id = null).
+     */
+    static rulesInForce<T extends AvailabilityRuleRow>(rules: T[], ruleSets: AvailabilityRuleSet[], date: string): T[]
+    {
+        const ruleSet = this.resolveRuleSet(ruleSets, date);
+        const seasonalRules = ruleSet ? rules.filter(rule => rule.rule_set_id === ruleSet.id) : [];
 
-                // Für Services ohne spezifischen Mitarbeiter: Prüfe Geschäftszeiten
-                const venueRules = await conn.query(`
-                    SELECT start_time, end_time
-                    FROM availability_rules
-                    WHERE venue_id = ?
-                    AND day_of_week = ?
-                    AND is_active = true`,
-                    [venueId, dayOfWeek]
-                ) as { start_time: string; end_time: string }[];;
+        return seasonalRules.length > 0
+            ? seasonalRules
+            : rules.filter(rule => rule.rule_set_id === null);
+    }
 
 
-                // Prüfe, ob Geschäft an dem Tag offen ist
-                if (venueRules.length === 0)
-                {
-                    logger.warn('Venue closed on this day');
+    /**
+     * Lädt die Zeitfenster eines Tages für das Geschäft (staffMemberId = null) bzw. einen Mitarbeiter,
+     * inkl. Sonderverfügbarkeit und der Fenster vom Vortag, die über Mitternacht in den Tag hineinreichen.
+     * Berechnung siehe buildOpeningWindows.
+     */
+    static async getOpeningWindows(
+        conn: Awaited<ReturnType<typeof getConnection>>,
+        venueId: number,
+        date: string,
+        staffMemberId: number | null
+    ): Promise<{ windows: MinuteRange[]; specials: SpecialAvailability[] }>
+    {
+        // Vortag, Tag, Folgetag – ihre Wochentage sind immer verschieden
+        const dates = [-1, 0, 1].map(dayOffset => addDaysToDate(date, dayOffset));
+
+        const rules = await conn.query(`
+            SELECT rule_set_id, day_of_week, start_time, end_time
+            FROM availability_rules
+            WHERE ${staffMemberId !== null ? 'staff_member_id' : 'venue_id'} = ?
+            AND is_active = true`,
+            [staffMemberId ?? venueId]
+        ) as AvailabilityRuleRow[];
+        const ruleSets = await this.getRuleSets(conn, [venueId]);
+
+        // Mitarbeiter: Schließungen des Geschäfts + eigene Einträge; Geschäft: nur eigene Einträge
+        const allSpecials = await this.getSpecialAvailabilityForDate(
+            conn,
+            venueId,
+            dates,
+            staffMemberId !== null ? [staffMemberId] : []
+        );
+        const specials = staffMemberId !== null
+            ? this.specialAvailabilityForStaff(allSpecials, staffMemberId)
+            : allSpecials;
+
+        const overrides = staffMemberId !== null
+            ? await this.getStaffScheduleOverrides(conn, staffMemberId, dates[0], dates[2])
+            : [];
+
+        return this.buildOpeningWindows(date, rules, ruleSets, specials, overrides);
+    }
 
-                    return {
-                        available: false,
-                        reason: 'Venue closed on this day'
-                    };
-                }
 
+    /**
+     * Berechnet die Zeitfenster eines Tages aus bereits geladenen Daten (ohne Datenbankzugriff).
+     * rules: Wochenregeln (beliebige Wochentage, Grundplan und Zeitpläne), ruleSets: Zeitpläne des Venues –
+     * je Tag gelten nur die Regeln des dort gültigen Zeitplans (rulesInForce).
+     * specials/overrides: mindestens für Vortag, Tag und Folgetag.
+     * Bei Mitarbeitern zusätzlich: Schichtänderungen ersetzen die Wochenregeln des Tages,
+     * Abwesenheiten (Pause, Arzttermin, Urlaub) werden wie Schließungen herausgeschnitten.
+     * windows: Minuten relativ zu Mitternacht des Datums (negativ = Vortag, ab 1440 = Folgetag)
+     * specials: Sonderverfügbarkeiten/Abwesenheiten des Datums selbst (für Schließungsgründe)
+     */
+    static buildOpeningWindows(
+        date: string,
+        rules: AvailabilityRuleRow[],
+        ruleSets: AvailabilityRuleSet[],
+        specials: SpecialAvailability[],
+        overrides: StaffScheduleOverride[]
+    ): { windows: MinuteRange[]; specials: SpecialAvailability[] }
+    {
+        const dayInputs = [-1, 0, 1].map(dayOffset => {
+            const dayDate = addDaysToDate(date, dayOffset);
+            const dayOfWeek = getDayOfWeek(dayDate);
+            const dayOverrides = overrides.filter(override => override.start_date <= dayDate && override.end_date >= dayDate);
+            const shifts = dayOverrides.filter(override => override.type === 'shift' && override.start_time && override.end_time);
+
+            // Abwesenheit = Schließung des Mitarbeiters an diesem Tag (ohne Zeiten ganztägig)
+            const timeOff: SpecialAvailability[] = dayOverrides
+                .filter(override => override.type === 'time_off')
+                .map(override => ({
+                    id: override.id,
+                    venue_id: null,
+                    staff_member_id: override.staff_member_id,
+                    date: dayDate,
+                    start_time: override.start_time,
+                    end_time: override.end_time,
+                    is_available: false,
+                    reason: override.reason || 'Staff member is absent'
+                }));
 
-                // Prüfe, ob gewünschte Zeit innerhalb der Öffnungszeiten liegt
-                const isWithinVenueHours = venueRules.some((rule: any) =>
-                    this.timeStringToMinutes(startTime) >= this.timeStringToMinutes(rule.start_time) &&
-                    this.timeStringToMinutes(endTime) <= this.timeStringToMinutes(rule.end_time)
-                );
+            return {
+                dayOffset,
+                // Schichtänderung ersetzt die Wochenregeln dieses Tages (z.B. Dienstag frei, dafür Donnerstag)
+                rules: shifts.length > 0
+                    ? shifts.map(shift => ({ start_time: shift.start_time!, end_time: shift.end_time! }))
+                    : this.rulesInForce(rules, ruleSets, dayDate).filter(rule => rule.day_of_week === dayOfWeek),
+                specials: [...specials.filter(special => special.date === dayDate), ...timeOff]
+            };
+        });
 
+        const windows = this.applySpecialAvailability(dayInputs);
 
-                // Gebe Fehler zurück, wenn außerhalb Öffnungszeiten
-                if (!isWithinVenueHours)
-                {
-                    logger.warn('Requested time is outside venue working hours');
+        return {
+            // Nur Fenster, die den Tag selbst berühren
+            windows: windows.filter(window => window.end > 0 && window.start < MINUTES_PER_DAY),
+            specials: dayInputs[1].specials
+        };
+    }
 
-                    return {
-                        available: false,
-                        reason: 'Requested time is outside venue working hours'
-                    };
-                }
-            }
 
+    /**
+     * Findet offene Termine (pending/confirmed) im Datumsbereich, die nicht mehr in die Arbeitszeiten
+     * ihres Mitarbeiters passen – z.B. nach einer neuen Abwesenheit oder geänderten Schicht.
+     * Bei Terminen mit mehreren Leistungen wird jeder Schritt einzeln geprüft. staffMemberId = null → alle Mitarbeiter.
+     */
+    static async getStaffScheduleConflicts(
+        conn: Awaited<ReturnType<typeof getConnection>>,
+        venueId: number,
+        fromDate: string,
+        toDate: string,
+        staffMemberId: number | null = null
+    ): Promise<StaffScheduleConflict[]>
+    {
+        const segments = await conn.query(`
+            SELECT b.id, b.booking_date, b.staff_member_id, b.start_time, b.end_time, b.day_shift,
+                bk.start_time AS booking_start_time, bk.end_time AS booking_end_time, bk.status,
+                bk.customer_name, s.name AS service_name, sm.name AS staff_member_name
+            FROM ${BOOKING_SEGMENTS} b
+            JOIN bookings bk ON bk.id = b.id
+            JOIN services s ON b.service_id = s.id
+            JOIN staff_members sm ON b.staff_member_id = sm.id
+            WHERE b.venue_id = ?
+            AND b.booking_date BETWEEN ? AND ?
+            AND b.status IN ('pending', 'confirmed')
+            ${staffMemberId !== null ? 'AND b.staff_member_id = ?' : ''}
+            ORDER BY b.booking_date, bk.start_time`,
+            staffMemberId !== null ? [venueId, fromDate, toDate, staffMemberId] : [venueId, fromDate, toDate]
+        ) as {
+            id: number; booking_date: string; staff_member_id: number; start_time: string; end_time: string; day_shift: number;
+            booking_start_time: string; booking_end_time: string; status: StaffScheduleConflict['status'];
+            customer_name: string; service_name: string; staff_member_name: string
+        }[];
+
+        // Zeitfenster je Mitarbeiter und Tag nur einmal laden
+        const windowCache = new Map<string, MinuteRange[]>();
+        const conflicts = new Map<number, StaffScheduleConflict>();
+
+        for (const segment of segments)
+        {
+            if (conflicts.has(segment.id)) continue;
 
-            /*
-             * MVP: deaktiviert. Für spätere Erweiterung vorgesehen.
-             * Sonderverfügbarkeit (Schließungen, Feiertage, Urlaub) über Tabelle special_availability.
-             * Reaktivieren, sobald Tabelle und UI dafür existieren.
-             *
-             * // Prüfe auf Sonderverfügbarkeit (Schließungen, Feiertage,..)
-             * // Findet Ausnahmen für: Geschäft (immer) + Mitarbeiter (falls angegeben)
-             * const [specialAvailability] = await conn.query(`
-                    SELECT start_time, end_time, is_available, reason
-                    FROM special_availability
-                    WHERE (
-                        venue_id = ? 
-                        
-                        ${staffMemberId ? 
-                            'OR staff_member_id = ?' : ''
-                        }
-                    )
-                    AND date = ?`,
-                    staffMemberId ? [venueId, staffMemberId, date] : [venueId, date]
-                );
+            // Schritte nach Mitternacht gehören zum Folgetag
+            const segmentDate = Number(segment.day_shift) ? addDaysToDate(segment.booking_date, 1) : segment.booking_date;
+            const cacheKey = `${segment.staff_member_id}:${segmentDate}`;
+            let windows = windowCache.get(cacheKey);
+            if (!windows)
+            {
+                windows = (await this.getOpeningWindows(conn, venueId, segmentDate, segment.staff_member_id)).windows;
+                windowCache.set(cacheKey, windows);
+            }
 
+            const range = this.toMinuteRange(segment.start_time, segment.end_time);
+            if (windows.some(window => range.start >= window.start && range.end <= window.end)) continue;
+
+            conflicts.set(segment.id, {
+                booking_id: segment.id,
+                booking_date: segment.booking_date,
+                start_time: segment.booking_start_time,
+                end_time: segment.booking_end_time,
+                status: segment.status,
+                customer_name: segment.customer_name,
+                service_name: segment.service_name,
+                staff_member_id: segment.staff_member_id,
+                staff_member_name: segment.staff_member_name
+            });
+        }
 
-                // Iteriere durch alle Sonderverfügbarkeitsregeln
-                for (const special of specialAvailability)
-                {
-                    // Wenn nicht als verfügbar markiert
-                    if (!special.is_available)
-                    {
-                        //Prüfe, ob partielle Schließung (nur bestimmte Zeiten)
-                        if (special.start_time && special.end_time)
-                        {
-                            // Prüfe, ob Überschneidung mit Schließungszeit
-                            if (this.timeSlotsOverlap(startTime, endTime, special.start_time, special.end_time))
-                            {
-                                return {
-                                    available: false,
-                                    reason: special.reason || 'Special closure during requested time'
-                                };
-                            }
-                        } 
-                        else 
-                        {
-                            // Ganztägige Schließung
-                            return {
-                                available: false,
-                                reason: special.reason || 'Venue/Staff not available on this date'
-                            };
-                        }
-                    }
-                }
-            */
+        return [...conflicts.values()];
+    }
 
 
-            // Erstelle Query zum Prüfen existierender Buchungen
-            // Bei Mitarbeiter-Services: Konflikt = alle Buchungen dieses Mitarbeiters an dem Tag (jeder Service),
-            // da eine Person nur einen Termin gleichzeitig haben kann.
-            let conflictQuery: string;
-            let conflictParams: any[];
+    /**
+     * Liefert den Grund einer Sonderschließung, die den angefragten Zeitraum betrifft (oder null).
+     * Ganztägige Schließungen betreffen immer, partielle nur bei Überschneidung.
+     */
+    static getSpecialClosureReason(specials: SpecialAvailability[], startTime: string, endTime: string): string | null
+    {
+        for (const special of specials)
+        {
+            if (special.is_available) continue;
 
-            if (service.requires_staff && staffMemberId)
+            if (special.start_time && special.end_time)
             {
-                conflictQuery = `
-                    SELECT id, start_time, end_time, party_size, status
-                    FROM bookings
-                    WHERE venue_id = ?
-                    AND staff_member_id = ?
-                    AND booking_date = ?
-                    AND status = 'confirmed'
-                `;
-                conflictParams = [venueId, staffMemberId, date];
+                if (this.timeSlotsOverlap(startTime, endTime, special.start_time, special.end_time))
+                {
+                    return special.reason || 'Special closure during requested time';
+                }
             }
             else
             {
-                conflictQuery = `
-                    SELECT id, start_time, end_time, party_size, status
-                    FROM bookings
-                    WHERE venue_id = ?
-                    AND service_id = ?
-                    AND booking_date = ?
-                    AND status = 'confirmed'
-                `;
-                conflictParams = [venueId, serviceId, date];
+                return special.reason || 'Venue/Staff not available on this date';
             }
+        }
 
+        return null;
+    }
 
-            if (excludeBookingId)                                                                           // Bei Updates: Schließt die zu bearbeitende Buchung aus, damit sie nicht als Konflikt erkannt wird         
-            {                                                                                               // (z.B. beim Verschieben von 14:00-15:00 auf 14:30-15:30)
-                conflictQuery += ' AND id != ?';
-                conflictParams.push(excludeBookingId);
-            }
 
+    /**
+     * Online buchbare Personenzahl: Einstellung des Services vor der des Venues, sonst 1–8.
+     * Größere Gruppen buchen nicht online, sondern senden eine Gruppenanfrage an den Owner.
+     */
+    static resolvePartySizeLimits(
+        venue: { min_party_size?: number | null; max_party_size?: number | null } | null,
+        service: { min_party_size?: number | null; max_party_size?: number | null } | null
+    ): { min: number; max: number }
+    {
+        return {
+            min: service?.min_party_size ?? venue?.min_party_size ?? DEFAULT_MIN_PARTY_SIZE,
+            max: service?.max_party_size ?? venue?.max_party_size ?? DEFAULT_MAX_PARTY_SIZE
+        };
+    }
 
-            const existingBookings = await conn.query(
-                conflictQuery, 
-                conflictParams
-            ) as { id: number; start_time: string; end_time: string; party_size: number; status: string }[];;
 
-            // Prüfe, ob für den Zeitraum bereits eine Buchung existiert
-            for (const booking of existingBookings)
+    /**
+     * Dauer einer Buchung: Dauer-Regel der Leistung für die Personenzahl, sonst duration_minutes der Leistung.
+     * Regeln sind nach min_party_size sortiert – bei Überschneidung gewinnt die erste passende.
+     */
+    static resolveDuration(durationMinutes: number, rules: ServiceDurationRule[], partySize: number): number
+    {
+        const rule = rules.find(rule =>
+            partySize >= rule.min_party_size &&
+            (rule.max_party_size == null || partySize <= rule.max_party_size)
+        );
+        return rule ? rule.duration_minutes : durationMinutes;
+    }
+
+
+    /**
+     * Lädt die Dauer-Regeln der angegebenen Services (gruppiert je Service, nach min_party_size sortiert).
+     */
+    static async getDurationRules(
+        conn: Awaited<ReturnType<typeof getConnection>>,
+        serviceIds: number[]
+    ): Promise<Map<number, ServiceDurationRule[]>>
+    {
+        if (serviceIds.length === 0) return new Map();
+
+        const rules = await conn.query(`
+            SELECT id, service_id, min_party_size, max_party_size, duration_minutes
+            FROM service_duration_rules
+            WHERE service_id IN (${serviceIds.map(() => '?').join(',')})
+            ORDER BY service_id, min_party_size`,
+            serviceIds
+        ) as ServiceDurationRule[];
+
+        const result = new Map<number, ServiceDurationRule[]>();
+        for (const rule of rules)
+        {
+            const list = result.get(rule.service_id) ?? [];
+            list.push(rule);
+            result.set(rule.service_id, list);
+        }
+        return result;
+    }
+
+
+    /**
+     * Endzeit einer Buchung aus Startzeit und Dauer für die Personenzahl (über Mitternacht: Ende vor Start).
+     * Mit Mitarbeiter gilt dessen abweichende Dauer für die Leistung (staff_services.duration_minutes), falls gesetzt.
+     * Wird serverseitig statt der vom Client gesendeten Endzeit verwendet. null, wenn der Service nicht zum Venue gehört.
+     */
+    static async getBookingEndTime(
+        conn: Awaited<ReturnType<typeof getConnection>>,
+        venueId: number,
+        serviceId: number,
+        startTime: string,
+        partySize: number,
+        staffMemberId: number | null = null
+    ): Promise<string | null>
+    {
+        const services = await conn.query(
+            'SELECT duration_minutes FROM services WHERE id = ? AND venue_id = ?',
+            [serviceId, venueId]
+        ) as { duration_minutes: number }[];
+
+        if (services.length === 0) return null;
+
+        const staffService = await this.getStaffServiceOverride(conn, serviceId, staffMemberId);
+        const rules = await this.getDurationRules(conn, [serviceId]);
+        const duration = staffService?.duration_minutes ?? this.resolveDuration(services[0].duration_minutes, rules.get(serviceId) ?? [], partySize);
+        return this.minutesToTimeString((this.timeStringToMinutes(startTime) + duration) % MINUTES_PER_DAY);
+    }
+
+
+    /**
+     * Abweichende Dauer und abweichender Preis eines Mitarbeiters für eine Leistung (null-Werte = Werte der Leistung).
+     * null, wenn kein Mitarbeiter angegeben ist oder er die Leistung nicht anbietet.
+     */
+    static async getStaffServiceOverride(
+        conn: Awaited<ReturnType<typeof getConnection>>,
+        serviceId: number,
+        staffMemberId: number | null
+    ): Promise<{ duration_minutes: number | null; price: number | null } | null>
+    {
+        if (staffMemberId === null) return null;
+
+        const rows = await conn.query(
+            'SELECT duration_minutes, price FROM staff_services WHERE service_id = ? AND staff_member_id = ?',
+            [serviceId, staffMemberId]
+        ) as { duration_minutes: number | null; price: number | null }[];
+
+        return rows[0] ?? null;
+    }
+
+
+    /**
+     * Preis einer Buchung einer Leistung: abweichender Preis des Mitarbeiters, sonst Preis der Leistung (null = ohne Preis).
+     */
+    static async getBookingPrice(
+        conn: Awaited<ReturnType<typeof getConnection>>,
+        serviceId: number,
+        staffMemberId: number | null
+    ): Promise<number | null>
+    {
+        const staffService = await this.getStaffServiceOverride(conn, serviceId, staffMemberId);
+        if (staffService?.price != null) return Number(staffService.price);
+
+        const services = await conn.query('SELECT price FROM services WHERE id = ?', [serviceId]) as { price: number | null }[];
+        return services[0]?.price != null ? Number(services[0].price) : null;
+    }
+
+
+    /**
+     * No-Show-Quote je Venue: Anteil no_show an abgeschlossenen Buchungen (completed + no_show) der letzten NO_SHOW_RATE_DAYS Tage.
+     * null, wenn weniger als NO_SHOW_RATE_MIN_BOOKINGS Buchungen abgeschlossen sind (Quote nicht aussagekräftig).
+     * Der Zeitraum endet vor "heute" in der Zeitzone des jeweiligen Venues (nicht CURDATE() des Datenbankservers).
+     */
+    static async getNoShowRates(
+        conn: Awaited<ReturnType<typeof getConnection>>,
+        venueIds: number[]
+    ): Promise<Map<number, number | null>>
+    {
+        const result = new Map<number, number | null>(venueIds.map(venueId => [venueId, null]));
+        if (venueIds.length === 0) return result;
+
+        const venues = await conn.query(
+            `SELECT id, timezone FROM venues WHERE id IN (${venueIds.map(() => '?').join(',')})`,
+            venueIds
+        ) as { id: number; timezone: string | null }[];
+        if (venues.length === 0) return result;
+
+        const params: (number | string)[] = [];
+        const ranges = venues.map(venue =>
+        {
+            const today = getZonedToday(venue.timezone);
+            params.push(venue.id, addDaysToDate(today, -NO_SHOW_RATE_DAYS), today);
+            return '(venue_id = ? AND booking_date >= ? AND booking_date < ?)';
+        });
+
+        const rows = await conn.query(`
+            SELECT venue_id, COUNT(*) AS total, SUM(status = 'no_show') AS no_shows
+            FROM bookings
+            WHERE (${ranges.join(' OR ')})
+            AND status IN ('completed', 'no_show')
+            GROUP BY venue_id`,
+            params
+        ) as { venue_id: number; total: bigint | number; no_shows: bigint | number | null }[];
+
+        for (const row of rows)
+        {
+            const total = Number(row.total);
+            if (total >= NO_SHOW_RATE_MIN_BOOKINGS) result.set(row.venue_id, Number(row.no_shows ?? 0) / total);
+        }
+        return result;
+    }
+
+
+    /**
+     * Zusätzliche Gäste je Slot über der Kapazität eines kapazitätsbasierten Services.
+     * Einstellung des Services vor der des Venues; 'fixed' = feste Zahl, 'no_show_rate' = Kapazität × No-Show-Quote (abgerundet).
+     * Nie mehr als die Obergrenze (overbooking_cap), ohne aussagekräftige Quote keine Überbuchung.
+     */
+    static resolveOverbookingAllowance(
+        venue: { overbooking_mode: OverbookingMode; overbooking_value: number; overbooking_cap: number },
+        service: { capacity: number; requires_staff: boolean; overbooking_mode?: OverbookingMode | null; overbooking_value?: number | null; overbooking_cap?: number | null },
+        noShowRate: number | null
+    ): number
+    {
+        if (service.requires_staff) return 0;
+
+        const mode = service.overbooking_mode ?? venue.overbooking_mode;
+        const cap = Math.max(0, service.overbooking_cap ?? venue.overbooking_cap);
+
+        let allowance = 0;
+        if (mode === 'fixed')
+        {
+            allowance = service.overbooking_value ?? venue.overbooking_value;
+        }
+        else if (mode === 'no_show_rate' && noShowRate !== null)
+        {
+            allowance = Math.floor(service.capacity * noShowRate);
+        }
+        return Math.max(0, Math.min(allowance, cap));
+    }
+
+
+    /**
+     * Überbuchung eines Services für Einzelprüfungen (isTimeSlotAvailable): lädt Venue-Einstellung und ggf. No-Show-Quote.
+     */
+    static async getOverbookingAllowance(
+        conn: Awaited<ReturnType<typeof getConnection>>,
+        venueId: number,
+        service: { capacity: number; requires_staff: boolean; overbooking_mode?: OverbookingMode | null; overbooking_value?: number | null; overbooking_cap?: number | null }
+    ): Promise<number>
+    {
+        if (service.requires_staff) return 0;
+
+        const venues = await conn.query(
+            'SELECT overbooking_mode, overbooking_value, overbooking_cap FROM venues WHERE id = ?',
+            [venueId]
+        ) as { overbooking_mode: OverbookingMode; overbooking_value: number; overbooking_cap: number }[];
+        if (venues.length === 0) return 0;
+
+        const mode = service.overbooking_mode ?? venues[0].overbooking_mode;
+        const noShowRate = mode === 'no_show_rate'
+            ? (await this.getNoShowRates(conn, [venueId])).get(venueId) ?? null
+            : null;
+        return this.resolveOverbookingAllowance(venues[0], service, noShowRate);
+    }
+
+
+    /**
+     * Lädt alle aktiven Tische eines Venues.
+     * Venues ohne Tische arbeiten weiter mit der Kapazität des Services.
+     */
+    static async getActiveTables(
+        conn: Awaited<ReturnType<typeof getConnection>>,
+        venueId: number
+    ): Promise<VenueTable[]>
+    {
+        return await conn.query(`
+            SELECT id, venue_id, name, area, min_seats, max_seats, combine_group, is_active
+            FROM venue_tables
+            WHERE venue_id = ?
+            AND is_active = true
+            ORDER BY id`,
+            [venueId]
+        ) as VenueTable[];
+    }
+
+
+    /**
+     * Lädt die Tischbelegung eines Tages: jede Zeile = ein Tisch einer offenen Buchung (inkl. Puffer des gebuchten Services).
+     * Offen sind 'pending' und 'confirmed' – ein zugewiesener Tisch ist reserviert, auch wenn der Owner noch nicht bestätigt hat.
+     * Tische aktiver Slot-Holds zählen ebenfalls als belegt.
+     * Buchungen von Vortag/Folgetag kommen mit day_offset mit, da sie über Mitternacht in den Tag reichen können.
+     */
+    static async getTableOccupancy(
+        conn: Awaited<ReturnType<typeof getConnection>>,
+        venueId: number,
+        date: string,
+        excludeBookingId?: number
+    ): Promise<{ table_id: number; start_time: string; end_time: string; buffer_before_minutes: number; buffer_after_minutes: number; day_offset: number }[]>
+    {
+        const params: (string | number)[] = [date, venueId, addDaysToDate(date, -1), addDaysToDate(date, 1)];
+        if (excludeBookingId) params.push(excludeBookingId);
+
+        return await conn.query(`
+            SELECT bt.table_id, b.start_time, b.end_time,
+                s.buffer_before_minutes, s.buffer_after_minutes,
+                DATEDIFF(b.booking_date, ?) AS day_offset
+            FROM ${TABLE_ASSIGNMENTS} b
+            JOIN services s ON b.service_id = s.id
+            WHERE b.venue_id = ?
+            AND b.booking_date BETWEEN ? AND ?
+            AND b.status IN ('pending', 'confirmed', 'held')
+            ${excludeBookingId ? 'AND b.id != ?' : ''}`,
+            params
+        ) as { table_id: number; start_time: string; end_time: string; buffer_before_minutes: number; buffer_after_minutes: number; day_offset: number }[];
+    }
+
+
+    /**
+     * Liefert die IDs der Tische, die im angefragten Zeitraum (inkl. Puffer) belegt sind.
+     */
+    static getOccupiedTableIds(
+        occupancy: { table_id: number; start_time: string; end_time: string; buffer_before_minutes?: number | null; buffer_after_minutes?: number | null; day_offset?: number | null }[],
+        slot: { start_time: string; end_time: string; buffer_before_minutes?: number | null; buffer_after_minutes?: number | null }
+    ): Set<number>
+    {
+        const occupied = new Set<number>();
+
+        for (const entry of occupancy)
+        {
+            if (this.timeSlotsOverlapWithBuffers(slot, entry))
+            {
+                occupied.add(entry.table_id);
+            }
+        }
+
+        return occupied;
+    }
+
+
+    /**
+     * Findet den passendsten freien Tisch bzw. die passendste Tischkombination für eine Gruppe.
+     * Reihenfolge: möglichst wenige Tische, dann möglichst wenige leere Plätze, dann niedrigste Tisch-ID.
+     * Kombiniert werden nur Tische derselben combine_group. Gibt null zurück, wenn nichts passt.
+     */
+    static findBestTableCombination(
+        tables: VenueTable[],
+        occupiedTableIds: Set<number>,
+        partySize: number
+    ): VenueTable[] | null
+    {
+        const freeTables = tables.filter(table => !occupiedTableIds.has(table.id));
+
+        // 1. Einzelner Tisch, bei dem die Gruppe innerhalb min/max Plätze liegt (z.B. 3 Personen → 4er-Tisch)
+        const singleTables = freeTables
+            .filter(table => partySize >= table.min_seats && partySize <= table.max_seats)
+            .sort((a, b) => (a.max_seats - b.max_seats) || (a.id - b.id));
+
+        if (singleTables.length > 0)
+        {
+            return [singleTables[0]];
+        }
+
+        // 2. Kombination aus Tischen derselben Gruppe (z.B. zwei 4er-Tische für 7 Personen)
+        const groups = new Map<string, VenueTable[]>();
+        for (const table of freeTables)
+        {
+            if (!table.combine_group) continue;
+            const group = groups.get(table.combine_group) ?? [];
+            group.push(table);
+            groups.set(table.combine_group, group);
+        }
+
+        let best: VenueTable[] | null = null;
+        let bestWaste = Infinity;
+
+        for (const group of groups.values())
+        {
+            // Obergrenze für die Aufzählung aller Teilmengen (2^n) – größere Gruppen werden nur teilweise betrachtet
+            const candidates = group.slice(0, MAX_COMBINABLE_TABLES);
+
+            for (let mask = 1; mask < (1 << candidates.length); mask++)
+            {
+                const combination = candidates.filter((_, index) => mask & (1 << index));
+                if (combination.length < 2) continue;
+
+                const seats = combination.reduce((sum, table) => sum + table.max_seats, 0);
+                if (seats < partySize) continue;
+
+                const waste = seats - partySize;
+                const isBetter = best === null
+                    || combination.length < best.length
+                    || (combination.length === best.length && waste < bestWaste)
+                    || (combination.length === best.length && waste === bestWaste && combination[0].id < best[0].id);
+
+                if (isBetter)
+                {
+                    best = combination;
+                    bestWaste = waste;
+                }
+            }
+        }
+
+        return best;
+    }
+
+
+    /**
+     * Größte Gruppe, die mit den freien Tischen noch platziert werden kann
+     * (größter Einzeltisch oder alle freien Tische einer Kombinationsgruppe zusammen).
+     */
+    static maxSeatablePartySize(tables: VenueTable[], occupiedTableIds: Set<number>): number
+    {
+        const groupSeats = new Map<string, number>();
+        let maxSeats = 0;
+
+        for (const table of tables)
+        {
+            if (occupiedTableIds.has(table.id)) continue;
+
+            maxSeats = Math.max(maxSeats, table.max_seats);
+
+            if (table.combine_group)
+            {
+                const seats = (groupSeats.get(table.combine_group) ?? 0) + table.max_seats;
+                groupSeats.set(table.combine_group, seats);
+                maxSeats = Math.max(maxSeats, seats);
+            }
+        }
+
+        return maxSeats;
+    }
+
+
+    /**
+     * Prüft vom Owner gewählte Tische (z.B. beim Annehmen einer Gruppenanfrage):
+     * alle müssen zum Venue gehören, aktiv und im Zeitraum (inkl. Puffer) frei sein.
+     * Gibt null zurück, wenn einer der Tische nicht passt – die Kapazität legt der Owner selbst fest.
+     */
+    static async checkChosenTables(
+        conn: Awaited<ReturnType<typeof getConnection>>,
+        venueId: number,
+        serviceId: number,
+        date: string,
+        startTime: string,
+        endTime: string,
+        tableIds: number[]
+    ): Promise<VenueTable[] | null>
+    {
+        const services = await conn.query(`
+            SELECT buffer_before_minutes, buffer_after_minutes
+            FROM services
+            WHERE id = ?
+            AND venue_id = ?`,
+            [serviceId, venueId]
+        ) as Pick<Service, 'buffer_before_minutes' | 'buffer_after_minutes'>[];
+
+        if (services.length === 0)
+        {
+            return null;
+        }
+
+        const activeTables = await this.getActiveTables(conn, venueId);
+        const chosen = activeTables.filter(table => tableIds.includes(table.id));
+        if (chosen.length !== new Set(tableIds).size)
+        {
+            return null;
+        }
+
+        const occupancy = await this.getTableOccupancy(conn, venueId, date);
+        const occupiedTableIds = this.getOccupiedTableIds(occupancy, {
+            start_time: startTime,
+            end_time: endTime,
+            buffer_before_minutes: services[0].buffer_before_minutes,
+            buffer_after_minutes: services[0].buffer_after_minutes
+        });
+
+        return chosen.some(table => occupiedTableIds.has(table.id)) ? null : chosen;
+    }
+
+
+    /**
+     * Ermittelt die Tische für eine (neue oder geänderte) Buchung.
+     * Gibt [] zurück, wenn kein Tischplan greift (Venue ohne Tische oder Mitarbeiter-Service),
+     * null, wenn kein passender Tisch frei ist – sonst die zuzuweisenden Tische.
+     */
+    static async findTablesForBooking(
+        conn: Awaited<ReturnType<typeof getConnection>>,
+        venueId: number,
+        serviceId: number,
+        date: string,
+        startTime: string,
+        endTime: string,
+        partySize: number,
+        excludeBookingId?: number
+    ): Promise<VenueTable[] | null>
+    {
+        const services = await conn.query(`
+            SELECT requires_staff, buffer_before_minutes, buffer_after_minutes
+            FROM services
+            WHERE id = ?
+            AND venue_id = ?`,
+            [serviceId, venueId]
+        ) as Pick<Service, 'requires_staff' | 'buffer_before_minutes' | 'buffer_after_minutes'>[];
+
+        if (services.length === 0 || services[0].requires_staff)
+        {
+            return [];
+        }
+
+        const tables = await this.getActiveTables(conn, venueId);
+        if (tables.length === 0)
+        {
+            return [];
+        }
+
+        const occupancy = await this.getTableOccupancy(conn, venueId, date, excludeBookingId);
+        const occupiedTableIds = this.getOccupiedTableIds(occupancy, {
+            start_time: startTime,
+            end_time: endTime,
+            buffer_before_minutes: services[0].buffer_before_minutes,
+            buffer_after_minutes: services[0].buffer_after_minutes
+        });
+
+        return this.findBestTableCombination(tables, occupiedTableIds, partySize);
+    }
+
+    /**
+     * Lädt den Ressourcenbedarf mehrerer Services (Map je Service, Services ohne Bedarf fehlen).
+     * resource_quantity ist 0 bei deaktivierten Ressourcen – die Leistung ist dann nicht buchbar.
+     */
+    static async getResourceRequirements(
+        conn: Awaited<ReturnType<typeof getConnection>>,
+        serviceIds: number[]
+    ): Promise<Map<number, ResourceRequirementRow[]>>
+    {
+        if (serviceIds.length === 0)
+        {
+            return new Map();
+        }
+
+        const rows = await conn.query(`
+            SELECT sr.service_id, sr.resource_id, r.name AS resource_name, sr.quantity,
+                IF(r.is_active, r.quantity, 0) AS resource_quantity
+            FROM service_resources sr
+            JOIN resources r ON sr.resource_id = r.id
+            WHERE sr.service_id IN (${serviceIds.map(() => '?').join(',')})
+            ORDER BY r.name`,
+            serviceIds
+        ) as ResourceRequirementRow[];
+
+        return groupById(rows, row => row.service_id);
+    }
+
+
+    /**
+     * Lädt die Ressourcenbelegung eines Tages: offene Buchungen (pending + confirmed, wie bei Tischen) und aktive Slot-Holds,
+     * inkl. Puffer des jeweiligen Services. Vortag/Folgetag kommen mit day_offset mit (Termine über Mitternacht).
+     */
+    static async getResourceOccupancy(
+        conn: Awaited<ReturnType<typeof getConnection>>,
+        venueId: number,
+        date: string,
+        excludeBookingId?: number
+    ): Promise<{ resource_id: number; quantity: number; start_time: string; end_time: string; buffer_before_minutes: number; buffer_after_minutes: number; day_offset: number }[]>
+    {
+        const params: (string | number)[] = [date, venueId, addDaysToDate(date, -1), addDaysToDate(date, 1)];
+        if (excludeBookingId) params.push(excludeBookingId);
+
+        return await conn.query(`
+            SELECT r.resource_id, r.quantity, r.start_time, r.end_time,
+                s.buffer_before_minutes, s.buffer_after_minutes,
+                DATEDIFF(r.booking_date, ?) + r.day_shift AS day_offset
+            FROM ${RESOURCE_ASSIGNMENTS} r
+            JOIN services s ON r.service_id = s.id
+            WHERE r.venue_id = ?
+            AND r.booking_date BETWEEN ? AND ?
+            AND r.status IN ('pending', 'confirmed', 'held')
+            ${excludeBookingId ? 'AND r.id != ?' : ''}`,
+            params
+        ) as { resource_id: number; quantity: number; start_time: string; end_time: string; buffer_before_minutes: number; buffer_after_minutes: number; day_offset: number }[];
+    }
+
+
+    /**
+     * Sucht die erste benötigte Ressource, von der im Zeitraum (inkl. Puffer) nicht mehr genug Einheiten frei sind.
+     * Wie bei der Kapazität zählen alle überschneidenden Belegungen zusammen. Gibt null zurück, wenn alles frei ist.
+     */
+    static findResourceShortage(
+        requirements: ResourceRequirementRow[],
+        occupancy: { resource_id: number; quantity: number; start_time: string; end_time: string; buffer_before_minutes?: number | null; buffer_after_minutes?: number | null; day_offset?: number | null }[],
+        slot: { start_time: string; end_time: string; buffer_before_minutes?: number | null; buffer_after_minutes?: number | null; day_offset?: number | null }
+    ): ResourceRequirementRow | null
+    {
+        for (const requirement of requirements)
+        {
+            const used = occupancy
+                .filter(entry => entry.resource_id === requirement.resource_id && this.timeSlotsOverlapWithBuffers(slot, entry))
+                .reduce((sum, entry) => sum + entry.quantity, 0);
+
+            if (used + requirement.quantity > requirement.resource_quantity)
+            {
+                return requirement;
+            }
+        }
+
+        return null;
+    }
+
+
+    /**
+     * Ermittelt die Ressourcen für eine (neue oder geänderte) Buchung – je Leistung bzw. je Schritt einer Kette.
+     * Schritte, die vor dem ersten Schritt beginnen, liegen nach Mitternacht (Folgetag).
+     * Gibt [] zurück, wenn keine Leistung Ressourcen benötigt, null, wenn eine Ressource nicht mehr frei ist.
+     */
+    static async findResourcesForBooking(
+        conn: Awaited<ReturnType<typeof getConnection>>,
+        venueId: number,
+        date: string,
+        segments: { service_id: number; start_time: string; end_time: string }[],
+        excludeBookingId?: number
+    ): Promise<BookingResource[] | null>
+    {
+        const serviceIds = [...new Set(segments.map(segment => segment.service_id))];
+        const requirements = await this.getResourceRequirements(conn, serviceIds);
+        if (requirements.size === 0)
+        {
+            return [];
+        }
+
+        const services = await conn.query(`
+            SELECT id, buffer_before_minutes, buffer_after_minutes
+            FROM services
+            WHERE id IN (${serviceIds.map(() => '?').join(',')})`,
+            serviceIds
+        ) as Pick<Service, 'id' | 'buffer_before_minutes' | 'buffer_after_minutes'>[];
+        const serviceById = new Map(services.map(service => [service.id, service]));
+
+        const occupancy = await this.getResourceOccupancy(conn, venueId, date, excludeBookingId);
+        const firstStart = segments[0]?.start_time;
+        const assigned: BookingResource[] = [];
+
+        for (const segment of segments)
+        {
+            const segmentRequirements = requirements.get(segment.service_id) ?? [];
+            if (segmentRequirements.length === 0) continue;
+
+            const service = serviceById.get(segment.service_id);
+            const slot = {
+                start_time: segment.start_time,
+                end_time: segment.end_time,
+                buffer_before_minutes: service?.buffer_before_minutes,
+                buffer_after_minutes: service?.buffer_after_minutes,
+                day_offset: segment.start_time < firstStart ? 1 : 0
+            };
+
+            const shortage = this.findResourceShortage(segmentRequirements, occupancy, slot);
+            if (shortage)
+            {
+                logger.warn('Required resource not available', { resource: shortage.resource_name, start_time: segment.start_time });
+                return null;
+            }
+
+            assigned.push(...segmentRequirements.map(requirement => ({
+                resource_id: requirement.resource_id,
+                resource_name: requirement.resource_name,
+                service_id: segment.service_id,
+                quantity: requirement.quantity,
+                start_time: segment.start_time,
+                end_time: segment.end_time
+            })));
+        }
+
+        return assigned;
+    }
+
+
+    /**
+     * Freie Ankünfte im Intervall einer Startzeit über alle greifenden Pacing-Regeln (jeweils die knappste Grenze).
+     * Das Intervall liegt im Raster der Regel ab deren start_time, z.B. 18:00-22:00 alle 15 Minuten: 19:05 → 19:00-19:15.
+     * Gibt null zurück, wenn keine aktive Regel für Wochentag und Uhrzeit greift (Infinity = Grenze nicht gesetzt).
+     */
+    static getPacingHeadroom(
+        rules: PacingRule[],
+        arrivals: { booking_date: string; start_time: string; party_size: number }[],
+        date: string,
+        startTime: string
+    ): { covers: number; parties: number } | null
+    {
+        const dayOfWeek = getDayOfWeek(date);
+        const start = this.timeStringToMinutes(startTime);
+        let matched = false;
+        let freeCovers = Infinity;
+        let freeParties = Infinity;
+
+        for (const rule of rules)
+        {
+            if (!rule.is_active || (rule.day_of_week !== null && rule.day_of_week !== dayOfWeek)) continue;
+
+            const ruleStart = this.timeStringToMinutes(rule.start_time);
+            const ruleEnd = this.timeStringToMinutes(rule.end_time);
+            if (start < ruleStart || start >= ruleEnd) continue;
+
+            const intervalStart = ruleStart + Math.floor((start - ruleStart) / rule.interval_minutes) * rule.interval_minutes;
+            const intervalEnd = Math.min(intervalStart + rule.interval_minutes, ruleEnd);
+
+            let covers = 0;
+            let parties = 0;
+            for (const arrival of arrivals)
+            {
+                if (arrival.booking_date !== date) continue;
+                const arrivalStart = this.timeStringToMinutes(arrival.start_time);
+                if (arrivalStart < intervalStart || arrivalStart >= intervalEnd) continue;
+                covers += arrival.party_size;
+                parties++;
+            }
+
+            matched = true;
+            if (rule.max_covers != null) freeCovers = Math.min(freeCovers, Math.max(0, rule.max_covers - covers));
+            if (rule.max_parties != null) freeParties = Math.min(freeParties, Math.max(0, rule.max_parties - parties));
+        }
+
+        return matched ? { covers: freeCovers, parties: freeParties } : null;
+    }
+
+
+    /**
+     * Prüft die Pacing-Regeln des Venues für eine neue Ankunft (Startzeit + Personenzahl).
+     * Gibt den Ablehnungsgrund zurück oder null, wenn die Ankunft noch ins Intervall passt.
+     */
+    static async checkPacing(
+        conn: Awaited<ReturnType<typeof getConnection>>,
+        venueId: number,
+        date: string,
+        startTime: string,
+        partySize: number,
+        excludeBookingId?: number
+    ): Promise<string | null>
+    {
+        const rules = await conn.query(`
+            SELECT id, venue_id, name, day_of_week, start_time, end_time, interval_minutes, max_covers, max_parties, is_active
+            FROM pacing_rules
+            WHERE venue_id = ?
+            AND is_active = true`,
+            [venueId]
+        ) as PacingRule[];
+
+        if (rules.length === 0)
+        {
+            return null;
+        }
+
+        const arrivals = await conn.query(`
+            SELECT a.booking_date, a.start_time, a.party_size
+            FROM ${PACING_ARRIVALS} a
+            WHERE a.venue_id = ?
+            AND a.booking_date = ?
+            AND a.status IN ('pending', 'confirmed', 'held')
+            ${excludeBookingId ? 'AND a.id != ?' : ''}`,
+            excludeBookingId ? [venueId, date, excludeBookingId] : [venueId, date]
+        ) as PacingArrivalRow[];
+
+        const headroom = this.getPacingHeadroom(rules, arrivals, date, startTime);
+        if (!headroom)
+        {
+            return null;
+        }
+        if (headroom.parties < 1)
+        {
+            return 'Pacing limit reached: too many parties starting in this interval';
+        }
+        if (headroom.covers < partySize)
+        {
+            return 'Pacing limit reached: too many guests starting in this interval';
+        }
+
+        return null;
+    }
+
+
+    /**
+     * Prüft, ob ein spezifischer Zeitslot für eine Buchung verfügbar ist
+     */
+    static async isTimeSlotAvailable(
+        venueId: number,                // ID des Geschäfts
+        serviceId: number,              // ID des Services
+        staffMemberId: number | null,   // Optional: ID des Mitarbeiters
+        date: string,                   // Datum im Format YYYY-MM-DD
+        startTime: string,              // Startzeit in HH:MM
+        endTime: string,                // Endzeit in HH:MM
+        partySize: number = 1,          // Anzahl Personen (Standard: 1)
+        excludeBookingId?: number       // Optional: Buchung die ignoriert werden soll (für Updates)
+    ): Promise<{ available: boolean; reason?: string }> 
+    {
+        logger.info('Validating slot availability...',{
+            venue_id: venueId,
+            service_id: serviceId,
+            staff_member_id: staffMemberId,
+            date: date,
+            start_time: startTime,
+            end_time: endTime,
+            party_size: partySize,
+            exclude_booking_id: excludeBookingId
+        });
+
+        let conn;
+        try 
+        {
+            conn = await getConnection();
+            logger.debug('Database connection established');
+
+            const services = await conn.query(`
+                SELECT duration_minutes, requires_staff, capacity, buffer_before_minutes, buffer_after_minutes,
+                    overbooking_mode, overbooking_value, overbooking_cap
+                FROM services
+                WHERE id = ?
+                AND venue_id = ?
+                AND is_active = true`,
+                [serviceId, venueId]
+            ) as Pick<Service, 'duration_minutes' | 'requires_staff' | 'capacity' | 'buffer_before_minutes' | 'buffer_after_minutes' | 'overbooking_mode' | 'overbooking_value' | 'overbooking_cap'>[];
+
+
+            // Prüfe, ob Service existiert
+            if (services.length === 0)
+            {
+                logger.warn('Service not found or inactive');
+
+                return {
+                    available: false,
+                    reason: 'Service not found or inactive'
+                };
+            }
+
+
+            // Castet ersten Eintrag zu Service-Typ und nimmt nur die benötigten Werte
+            const service = services[0];
+
+
+            // Prüfe, pb die Gruppengröße die Kapazität überschreitet
+            if (partySize > service.capacity)
+            {
+                logger.warn(`Party size exceeds capacity (max: ${service.capacity})`);
+
+                return {
+                    available: false,
+                    reason: `Party size exceeds capacity (max: ${service.capacity})`
+                };
+            }
+
+
+            // Angefragter Zeitraum in Minuten (Ende vor Start = über Mitternacht, z.B. 23:00-01:00)
+            const requestedRange = this.toMinuteRange(startTime, endTime);
+
+
+            // Gemeinsam genutzte Ressourcen (z.B. Paarraum, Waschbecken): alle benötigten Einheiten müssen frei sein
+            const resourceRequirements = (await this.getResourceRequirements(conn, [serviceId])).get(serviceId) ?? [];
+            if (resourceRequirements.length > 0)
+            {
+                const resourceOccupancy = await this.getResourceOccupancy(conn, venueId, date, excludeBookingId);
+                const shortage = this.findResourceShortage(resourceRequirements, resourceOccupancy, {
+                    start_time: startTime,
+                    end_time: endTime,
+                    buffer_before_minutes: service.buffer_before_minutes,
+                    buffer_after_minutes: service.buffer_after_minutes
+                });
+
+                if (shortage)
+                {
+                    logger.warn(`Required resource not available: ${shortage.resource_name}`);
+
+                    return {
+                        available: false,
+                        reason: `Required resource not available: ${shortage.resource_name}`
+                    };
+                }
+            }
+
+
+            // Prüfe Verfügbarkeitsregeln inkl. Sonderverfügbarkeit (Schließungen, Feiertage, Urlaub, Zusatzöffnungen)
+            // Wenn Staff benötigt wird, holen wir uns die Schichten des Mitarbeiters
+            if (service.requires_staff && staffMemberId)
+            {
+                // Schichten des Tages (+ Schichten vom Vortag, die über Mitternacht reichen) mit Urlaub, Feiertag, Zusatzschicht
+                const { windows: staffWindows, specials: staffSpecials } = await this.getOpeningWindows(conn, venueId, date, staffMemberId);
+
+
+                // Prüfe, ob Mitarbeiter an diesem Tag arbeitet
+                if (staffWindows.length === 0)
+                {
+                    const reason = this.getSpecialClosureReason(staffSpecials, startTime, endTime) ?? 'Staff not available on this day';
+                    logger.warn(reason);
+
+                    return {
+                        available: false,
+                        reason
+                    };
+                }
+
+
+                // Prüfe, ob gewünschte Uhrzeit innerhalb der Arbeitszeiten liegt
+                const isWithinStaffHours = staffWindows.some(window =>                                          // Durchläuft alle Schichten (z.B. 09:00-12:00, 14:00-18:00) und prüft, ob der Slot in EINE davon passt
+                    requestedRange.start >= window.start &&                                                     // Meine gewünschte startTime muss größer gleich wie start_time vom Mitarbeiter sein
+                    requestedRange.end <= window.end                                                            // Meine gewünschte endTime muss kleiner gleich wie end_time vom Mitarbeiter sein 
+                );
+                
+                // Gebe Fehler zurück, wenn außerhalb Arbeitszeiten (oder in einer Sonderschließung)
+                if (!isWithinStaffHours)
+                {
+                    const reason = this.getSpecialClosureReason(staffSpecials, startTime, endTime) ?? 'Requested time is outside staff working hours';
+                    logger.warn(reason);
+
+                    return {
+                        available: false,
+                        reason
+                    };
+                }
+            } else {
+
+                // Für Services ohne spezifischen Mitarbeiter: Prüfe Geschäftszeiten
+                // (inkl. Öffnung vom Vortag über Mitternacht, Feiertag, Betriebsferien, Zusatzöffnung)
+                const { windows: venueWindows, specials: specialAvailability } = await this.getOpeningWindows(conn, venueId, date, null);
+
+
+                // Prüfe, ob Geschäft an dem Tag offen ist
+                if (venueWindows.length === 0)
+                {
+                    const reason = this.getSpecialClosureReason(specialAvailability, startTime, endTime) ?? 'Venue closed on this day';
+                    logger.warn(reason);
+
+                    return {
+                        available: false,
+                        reason
+                    };
+                }
+
+
+                // Prüfe, ob gewünschte Zeit innerhalb der Öffnungszeiten liegt
+                const isWithinVenueHours = venueWindows.some(window =>
+                    requestedRange.start >= window.start &&
+                    requestedRange.end <= window.end
+                );
+
+
+                // Gebe Fehler zurück, wenn außerhalb Öffnungszeiten (oder in einer Sonderschließung)
+                if (!isWithinVenueHours)
+                {
+                    const reason = this.getSpecialClosureReason(specialAvailability, startTime, endTime) ?? 'Requested time is outside venue working hours';
+                    logger.warn(reason);
+
+                    return {
+                        available: false,
+                        reason
+                    };
+                }
+
+
+                // Ankunftssteuerung: Gäste/Gruppen mit Beginn im selben Intervall begrenzen
+                const pacingReason = await this.checkPacing(conn, venueId, date, startTime, partySize, excludeBookingId);
+                if (pacingReason)
+                {
+                    logger.warn(pacingReason);
+
+                    return {
+                        available: false,
+                        reason: pacingReason
+                    };
+                }
+
+
+                // Venue mit Tischplan: Verfügbar, wenn ein passender Tisch (oder eine Kombination) frei ist.
+                // Ersetzt die Kapazitätssumme des Services, da Plätze an Tischen nicht beliebig aufteilbar sind.
+                const tables = await this.getActiveTables(conn, venueId);
+                if (tables.length > 0)
+                {
+                    const occupancy = await this.getTableOccupancy(conn, venueId, date, excludeBookingId);
+                    const occupiedTableIds = this.getOccupiedTableIds(occupancy, {
+                        start_time: startTime,
+                        end_time: endTime,
+                        buffer_before_minutes: service.buffer_before_minutes,
+                        buffer_after_minutes: service.buffer_after_minutes
+                    });
+
+                    if (!this.findBestTableCombination(tables, occupiedTableIds, partySize))
+                    {
+                        logger.warn('No suitable table available');
+
+                        return {
+                            available: false,
+                            reason: 'No suitable table available'
+                        };
+                    }
+
+                    logger.info('Time slot availability check passed (table assigned)');
+
+                    return {
+                        available: true
+                    };
+                }
+            }
+
+
+            // Erstelle Query zum Prüfen existierender Buchungen
+            // Bei Mitarbeiter-Services: Konflikt = alle Buchungen dieses Mitarbeiters an dem Tag (jeder Service),
+            // da eine Person nur einen Termin gleichzeitig haben kann.
+            // Vortag und Folgetag kommen mit (day_offset), da Termine über Mitternacht hineinreichen können.
+            // Offene (pending) und bestätigte Termine sowie aktive Slot-Holds anderer Kunden belegen den Slot –
+            // sonst wäre ein gerade angelegter, noch unbestätigter Termin für die nächste Anfrage wieder frei.
+            let conflictQuery: string;
+            let conflictParams: any[];
+
+            // Pufferzeiten der bestehenden Buchungen kommen über deren Service mit
+            if (service.requires_staff && staffMemberId)
+            {
+                conflictQuery = `
+                    SELECT b.id, b.start_time, b.end_time, b.party_size, b.status,
+                        s.buffer_before_minutes, s.buffer_after_minutes,
+                        DATEDIFF(b.booking_date, ?) + b.day_shift AS day_offset
+                    FROM ${OCCUPYING_SEGMENTS} b
+                    JOIN services s ON b.service_id = s.id
+                    WHERE b.venue_id = ?
+                    AND b.staff_member_id = ?
+                    AND b.booking_date BETWEEN ? AND ?
+                    AND b.status IN ('pending', 'confirmed', 'held')
+                `;
+                conflictParams = [date, venueId, staffMemberId, addDaysToDate(date, -1), addDaysToDate(date, 1)];
+            }
+            else
+            {
+                conflictQuery = `
+                    SELECT b.id, b.start_time, b.end_time, b.party_size, b.status,
+                        s.buffer_before_minutes, s.buffer_after_minutes,
+                        DATEDIFF(b.booking_date, ?) + b.day_shift AS day_offset
+                    FROM ${OCCUPYING_SEGMENTS} b
+                    JOIN services s ON b.service_id = s.id
+                    WHERE b.venue_id = ?
+                    AND b.service_id = ?
+                    AND b.booking_date BETWEEN ? AND ?
+                    AND b.status IN ('pending', 'confirmed', 'held')
+                `;
+                conflictParams = [date, venueId, serviceId, addDaysToDate(date, -1), addDaysToDate(date, 1)];
+            }
+
+
+            if (excludeBookingId)                                                                           // Bei Updates: Schließt die zu bearbeitende Buchung aus, damit sie nicht als Konflikt erkannt wird         
+            {                                                                                               // (z.B. beim Verschieben von 14:00-15:00 auf 14:30-15:30)
+                conflictQuery += ' AND b.id != ?';
+                conflictParams.push(excludeBookingId);
+            }
+
+
+            const existingBookings = await conn.query(
+                conflictQuery, 
+                conflictParams
+            ) as { id: number; start_time: string; end_time: string; party_size: number; status: string; buffer_before_minutes: number; buffer_after_minutes: number; day_offset: number }[];;
+
+            // Angefragter Termin inkl. Puffer des gebuchten Services
+            const requestedSlot = {
+                start_time: startTime,
+                end_time: endTime,
+                buffer_before_minutes: service.buffer_before_minutes,
+                buffer_after_minutes: service.buffer_after_minutes
+            };
+
+            // Kapazitätsbasierte Services: erlaubte Überbuchung (feste Zahl oder aus No-Show-Quote, mit Obergrenze)
+            const overbookingAllowance = await this.getOverbookingAllowance(conn, venueId, service);
+
+            // Überschneidende Buchungen und Holds (inkl. Pufferzeiten beider Termine)
+            const overlapping = existingBookings.filter(booking => this.timeSlotsOverlapWithBuffers(requestedSlot, booking));
+
+            if (service.requires_staff)
+            {
+                // Mitarbeiter-Services: jede überschneidende Buchung desselben Mitarbeiters blockiert
+                if (overlapping.length > 0)
+                {
+                    logger.warn('Time slot already booked');
+
+                    return {
+                        available: false,
+                        reason: 'Time slot already booked'
+                    };
+                }
+            }
+            else
+            {
+                // Kapazitätsbasierte Services (z.B. Restaurant mit 6 Plätzen): alle überschneidenden Gäste zusammen
+                // plus die neue Anfrage dürfen Kapazität + Überbuchung nicht übersteigen – harte Obergrenze wie in computeDaySlots
+                const occupied = overlapping.reduce((sum, booking) => sum + booking.party_size, 0);
+                if (occupied + partySize > service.capacity + overbookingAllowance)
+                {
+                    logger.warn('Time slot capacity exceeded', {
+                        occupied,
+                        party_size: partySize,
+                        capacity: service.capacity,
+                        overbooking_allowance: overbookingAllowance
+                    });
+
+                    return {
+                        available: false,
+                        reason: 'Time slot already booked'
+                    };
+                }
+            }
+
+            // Alles ok – Slot verfügbar
+            logger.info('Time slot availability check passed');
+
+            return {
+                available: true
+            };
+            
+        } 
+        catch (error) 
+        {
+            logger.error('Error checking availability: ', error);
+            return {
+                available: false,
+                reason: 'Error checking availability'
+            };
+        }
+        finally
+        {
+            if (conn) 
+            {
+                conn.release();
+                logger.debug('Database connection released');
+            }
+        }
+    }
+
+
+
+    /**
+     * Leert den Slot-Cache eines Venues (nach Änderungen an Buchungen, Regeln, Ausnahmen, Tischen, Services
+     * oder Einstellungen), ohne venueId den ganzen Cache. Der Cache liegt im Speicher des Prozesses –
+     * bei mehreren Instanzen sorgt die kurze Lebensdauer dafür, dass Änderungen schnell überall ankommen.
+     */
+    static invalidateCache(venueId?: number): void
+    {
+        if (venueId === undefined)
+        {
+            availabilityCache.clear();
+            return;
+        }
+
+        const prefix = `${venueId}:`;
+        for (const key of availabilityCache.keys())
+        {
+            if (key.startsWith(prefix)) availabilityCache.delete(key);
+        }
+    }
+
+
+    /**
+     * Lädt alle Daten für die Slot-Berechnung mehrerer Venues in einem Datumsbereich mit einer festen Anzahl Abfragen
+     * (unabhängig von der Anzahl Venues, Services und Mitarbeiter). Vortag und Folgetag werden mitgeladen,
+     * da Öffnungszeiten und Termine über Mitternacht reichen können.
+     * excludeBookingId: Für Reschedule – eigene Buchung nicht als "blockiert" zählen
+     */
+    static async loadAvailabilityData(
+        conn: Awaited<ReturnType<typeof getConnection>>,
+        venueIds: number[],
+        fromDate: string,
+        toDate: string,
+        excludeBookingId?: number
+    ): Promise<AvailabilityData>
+    {
+        const loadFrom = addDaysToDate(fromDate, -1);
+        const loadTo = addDaysToDate(toDate, 1);
+        const venuePlaceholders = venueIds.map(() => '?').join(',');
+
+        const venues = await conn.query(`
+            SELECT id, booking_advance_hours, timezone, min_party_size, max_party_size, overbooking_mode, overbooking_value, overbooking_cap
+            FROM venues
+            WHERE id IN (${venuePlaceholders})`,
+            venueIds
+        ) as ({ id: number } & VenueSlotSettings)[];
+
+        // Slot-Raster: Service-Einstellung vor Venue-Einstellung, sonst Dauer + Puffer
+        const services = await conn.query(`
+            SELECT s.id, s.venue_id, s.duration_minutes, s.requires_staff, s.capacity, s.buffer_before_minutes, s.buffer_after_minutes,
+                COALESCE(s.slot_interval_minutes, v.slot_interval_minutes) AS slot_interval_minutes,
+                s.min_party_size, s.max_party_size, s.overbooking_mode, s.overbooking_value, s.overbooking_cap
+            FROM services s
+            JOIN venues v ON s.venue_id = v.id
+            WHERE s.venue_id IN (${venuePlaceholders})
+            AND s.is_active = true`,
+            venueIds
+        ) as Service[];
+
+        const staffServiceIds = services.filter(service => service.requires_staff).map(service => service.id);
+        const staffServices = staffServiceIds.length > 0
+            ? await conn.query(`
+                SELECT ss.service_id, sm.id AS staff_id, ss.duration_minutes
+                FROM staff_services ss
+                JOIN staff_members sm ON ss.staff_member_id = sm.id
+                WHERE ss.service_id IN (${staffServiceIds.map(() => '?').join(',')})
+                AND sm.is_active = true`,
+                staffServiceIds
+            ) as { service_id: number; staff_id: number; duration_minutes: number | null }[]
+            : [];
+        const staffIds = [...new Set(staffServices.map(row => row.staff_id))];
+        const staffFilter = staffIds.length > 0
+            ? `OR staff_member_id IN (${staffIds.map(() => '?').join(',')})`
+            : '';
+
+        const rules = await conn.query(`
+            SELECT venue_id, staff_member_id, rule_set_id, day_of_week, start_time, end_time
+            FROM availability_rules
+            WHERE (venue_id IN (${venuePlaceholders}) ${staffFilter})
+            AND is_active = true`,
+            [...venueIds, ...staffIds]
+        ) as (AvailabilityRuleRow & { venue_id: number | null; staff_member_id: number | null })[];
+        const ruleSets = await this.getRuleSets(conn, venueIds);
+
+        const specials = await conn.query(`
+            SELECT id, venue_id, staff_member_id, date, start_time, end_time, is_available, reason
+            FROM special_availability
+            WHERE (venue_id IN (${venuePlaceholders}) ${staffFilter})
+            AND date BETWEEN ? AND ?`,
+            [...venueIds, ...staffIds, loadFrom, loadTo]
+        ) as SpecialAvailability[];
+
+        const overrides = staffIds.length > 0
+            ? await conn.query(`
+                SELECT id, staff_member_id, type, start_date, end_date, start_time, end_time, reason
+                FROM ${STAFF_OVERRIDES} o
+                WHERE staff_member_id IN (${staffIds.map(() => '?').join(',')})
+                AND start_date <= ?
+                AND end_date >= ?`,
+                [...staffIds, loadTo, loadFrom]
+            ) as StaffScheduleOverride[]
+            : [];
+
+        // Offene und bestätigte Termine je Segment und aktive Slot-Holds (Pufferzeiten kommen über deren Service mit)
+        const bookings = await conn.query(`
+            SELECT b.id, b.venue_id, b.service_id, b.staff_member_id, b.booking_date, b.start_time, b.end_time, b.party_size, b.day_shift,
+                s.buffer_before_minutes, s.buffer_after_minutes
+            FROM ${OCCUPYING_SEGMENTS} b
+            JOIN services s ON b.service_id = s.id
+            WHERE b.venue_id IN (${venuePlaceholders})
+            AND b.booking_date BETWEEN ? AND ?
+            AND b.status IN ('pending', 'confirmed', 'held')
+            ${excludeBookingId ? 'AND b.id != ?' : ''}`,
+            excludeBookingId
+                ? [...venueIds, loadFrom, loadTo, excludeBookingId]
+                : [...venueIds, loadFrom, loadTo]
+        ) as BookingSegmentRow[];
+
+        const tables = await conn.query(`
+            SELECT id, venue_id, name, area, min_seats, max_seats, combine_group, is_active
+            FROM venue_tables
+            WHERE venue_id IN (${venuePlaceholders})
+            AND is_active = true
+            ORDER BY id`,
+            venueIds
+        ) as VenueTable[];
+
+        // Tischbelegung nur für Venues mit Tischplan (offen = pending + confirmed, wie getTableOccupancy)
+        const tableVenueIds = [...new Set(tables.map(table => table.venue_id))];
+        const tableOccupancy = tableVenueIds.length > 0
+            ? await conn.query(`
+                SELECT b.id, b.venue_id, b.table_id, b.booking_date, b.start_time, b.end_time,
+                    s.buffer_before_minutes, s.buffer_after_minutes
+                FROM ${TABLE_ASSIGNMENTS} b
+                JOIN services s ON b.service_id = s.id
+                WHERE b.venue_id IN (${tableVenueIds.map(() => '?').join(',')})
+                AND b.booking_date BETWEEN ? AND ?
+                AND b.status IN ('pending', 'confirmed', 'held')
+                ${excludeBookingId ? 'AND b.id != ?' : ''}`,
+                excludeBookingId
+                    ? [...tableVenueIds, loadFrom, loadTo, excludeBookingId]
+                    : [...tableVenueIds, loadFrom, loadTo]
+            ) as TableOccupancyRow[]
+            : [];
+
+        // Ankunftssteuerung: Regeln und Ankünfte nur für Venues mit aktiven Pacing-Regeln
+        const pacingRules = await conn.query(`
+            SELECT id, venue_id, name, day_of_week, start_time, end_time, interval_minutes, max_covers, max_parties, is_active
+            FROM pacing_rules
+            WHERE venue_id IN (${venuePlaceholders})
+            AND is_active = true`,
+            venueIds
+        ) as PacingRule[];
+
+        const pacingVenueIds = [...new Set(pacingRules.map(rule => rule.venue_id))];
+        const pacingArrivals = pacingVenueIds.length > 0
+            ? await conn.query(`
+                SELECT a.venue_id, a.booking_date, a.start_time, a.party_size
+                FROM ${PACING_ARRIVALS} a
+                WHERE a.venue_id IN (${pacingVenueIds.map(() => '?').join(',')})
+                AND a.booking_date BETWEEN ? AND ?
+                AND a.status IN ('pending', 'confirmed', 'held')
+                ${excludeBookingId ? 'AND a.id != ?' : ''}`,
+                excludeBookingId
+                    ? [...pacingVenueIds, fromDate, toDate, excludeBookingId]
+                    : [...pacingVenueIds, fromDate, toDate]
+            ) as PacingArrivalRow[]
+            : [];
+
+        // Personenzahl-abhängige Dauer je Service
+        const durationRules = await this.getDurationRules(conn, services.map(service => service.id));
+
+        // No-Show-Quote nur für Venues, bei denen sie die Überbuchung bestimmt
+        const noShowVenueIds = [...new Set([
+            ...venues.filter(venue => venue.overbooking_mode === 'no_show_rate').map(venue => venue.id),
+            ...services.filter(service => service.overbooking_mode === 'no_show_rate').map(service => service.venue_id)
+        ])];
+        const noShowRates = await this.getNoShowRates(conn, noShowVenueIds);
+
+        // Gemeinsam genutzte Ressourcen: Belegung nur für Venues, deren Services Ressourcen benötigen
+        const resourceRequirements = await this.getResourceRequirements(conn, services.map(service => service.id));
+        const resourceVenueIds = [...new Set(services.filter(service => resourceRequirements.has(service.id)).map(service => service.venue_id))];
+        const resourceOccupancy = resourceVenueIds.length > 0
+            ? await conn.query(`
+                SELECT r.id, r.venue_id, r.resource_id, r.quantity, r.booking_date, r.start_time, r.end_time, r.day_shift,
+                    s.buffer_before_minutes, s.buffer_after_minutes
+                FROM ${RESOURCE_ASSIGNMENTS} r
+                JOIN services s ON r.service_id = s.id
+                WHERE r.venue_id IN (${resourceVenueIds.map(() => '?').join(',')})
+                AND r.booking_date BETWEEN ? AND ?
+                AND r.status IN ('pending', 'confirmed', 'held')
+                ${excludeBookingId ? 'AND r.id != ?' : ''}`,
+                excludeBookingId
+                    ? [...resourceVenueIds, loadFrom, loadTo, excludeBookingId]
+                    : [...resourceVenueIds, loadFrom, loadTo]
+            ) as ResourceOccupancyRow[]
+            : [];
+
+        logger.debug('Availability data loaded', {
+            venues: venues.length,
+            services: services.length,
+            staff: staffIds.length,
+            bookings: bookings.length,
+            from: loadFrom,
+            to: loadTo
+        });
+
+        const staffByService = new Map<number, number[]>();
+        const staffDurations = new Map<number, Map<number, number>>();
+        for (const [serviceId, rows] of groupById(staffServices, row => row.service_id))
+        {
+            staffByService.set(serviceId, rows.map(row => row.staff_id));
+            staffDurations.set(serviceId, new Map(rows
+                .filter(row => row.duration_minutes != null)
+                .map(row => [row.staff_id, row.duration_minutes as number])));
+        }
+
+        return {
+            venues: new Map(venues.map(venue => [venue.id, {
+                booking_advance_hours: venue.booking_advance_hours,
+                timezone: venue.timezone,
+                min_party_size: venue.min_party_size,
+                max_party_size: venue.max_party_size,
+                overbooking_mode: venue.overbooking_mode,
+                overbooking_value: venue.overbooking_value,
+                overbooking_cap: venue.overbooking_cap
+            }])),
+            services: new Map(services.map(service => [service.id, service])),
+            staffByService,
+            staffDurations,
+            venueRules: groupById(rules, rule => rule.venue_id),
+            staffRules: groupById(rules, rule => rule.staff_member_id),
+            ruleSets: groupById(ruleSets, ruleSet => ruleSet.venue_id),
+            venueSpecials: groupById(specials, special => special.venue_id),
+            staffSpecials: groupById(specials, special => special.staff_member_id),
+            overrides: groupById(overrides, override => override.staff_member_id),
+            bookings: groupById(bookings, booking => booking.venue_id),
+            tables: groupById(tables, table => table.venue_id),
+            tableOccupancy: groupById(tableOccupancy, entry => entry.venue_id),
+            pacingRules: groupById(pacingRules, rule => rule.venue_id),
+            pacingArrivals: groupById(pacingArrivals, arrival => arrival.venue_id),
+            durationRules,
+            noShowRates,
+            resourceRequirements,
+            resourceOccupancy: groupById(resourceOccupancy, entry => entry.venue_id)
+        };
+    }
+
+
+    /**
+     * Berechnet alle Zeitslots eines Services an einem Tag aus geladenen Daten (ohne Datenbankzugriff).
+     * Liefert die Slots vor den zeitabhängigen Filtern (Vorlaufzeit, Zeitfenster) – diese wendet filterBookableSlots an.
+     * partySize: bei kapazitätsbasierten Services nur Slots mit remaining_capacity >= partySize verfügbar.
+     * anyStaff: "egal wer" – Slots aller qualifizierten Mitarbeiter als eine Liste (ohne staff_member_id).
+     */
+    static computeDaySlots(
+        data: AvailabilityData,
+        venueId: number,
+        serviceId: number,
+        date: string,
+        partySize: number = 1,
+        anyStaff: boolean = false
+    ): DayAvailability
+    {
+        const service = data.services.get(serviceId);
+        if (!service || service.venue_id !== venueId)
+        {
+            throw new Error('Service not found');
+        }
+
+        // Dauer je nach Personenzahl (z.B. 2 Personen 90 Minuten, 8 Personen 150 Minuten)
+        const durationMinutes = this.resolveDuration(service.duration_minutes, data.durationRules.get(serviceId) ?? [], partySize);
+
+        //                  Typ: Array   Wert: leeres Array
+        let availableSlots: TimeSlot[] = [];
+
+        // Logik für Mitarbeitergebundene Services
+        if (service.requires_staff)
+        {
+            // Generiere Slots für jeden Mitarbeiter, der diesen Service anbieten kann
+            for (const staffId of data.staffByService.get(serviceId) ?? [])
+            {
+                // Schichten des Mitarbeiters für diesen Tag inkl. Sonderverfügbarkeit (Urlaub/Feiertag entfernt Zeiten,
+                // Zusatzschicht ergänzt) und Schichten vom Vortag, die über Mitternacht reichen.
+                // Sonderverfügbarkeit: Schließungen des Geschäfts + eigene Einträge des Mitarbeiters
+                const specials = this.specialAvailabilityForStaff(
+                    [...(data.venueSpecials.get(venueId) ?? []), ...(data.staffSpecials.get(staffId) ?? [])]
+                        .filter((special, index, array) => array.findIndex(s => s.id === special.id) === index),
+                    staffId
+                );
+                const { windows: staffWindows } = this.buildOpeningWindows(
+                    date,
+                    data.staffRules.get(staffId) ?? [],
+                    data.ruleSets.get(venueId) ?? [],
+                    specials,
+                    data.overrides.get(staffId) ?? []
+                );
+
+                // Abweichende Dauer des Mitarbeiters (z.B. Auszubildende brauchen länger) ersetzt die Dauer der Leistung
+                const staffDuration = data.staffDurations.get(serviceId)?.get(staffId) ?? durationMinutes;
+
+                // Generiere Zeitslots für jede Schicht und füge staff_member_id zu jedem Slot hinzu
+                for (const window of staffWindows)
+                {
+                    const staffSlots = this.generateTimeSlotsInWindow(
+                        window,
+                        staffDuration,
+                        service.buffer_before_minutes || 0,
+                        service.buffer_after_minutes || 0,
+                        service.slot_interval_minutes
+                    );
+                    availableSlots.push(...staffSlots.map(slot => ({ ...slot, staff_member_id: staffId })));
+                }
+            }
+        }
+        else
+        {
+            // Geschäftslevel-Service (z.B. Restaurant-Tische): Öffnungszeiten inkl. Sonderverfügbarkeit
+            // (Schließungen/Feiertage entfernen Zeiten, Zusatzöffnungen ergänzen) und Öffnung vom Vortag über Mitternacht
+            const { windows: venueWindows } = this.buildOpeningWindows(
+                date,
+                data.venueRules.get(venueId) ?? [],
+                data.ruleSets.get(venueId) ?? [],
+                data.venueSpecials.get(venueId) ?? [],
+                []
+            );
+
+            for (const window of venueWindows)
+            {
+                availableSlots.push(...this.generateTimeSlotsInWindow(
+                    window,
+                    durationMinutes,
+                    service.buffer_before_minutes || 0,
+                    service.buffer_after_minutes || 0,
+                    service.slot_interval_minutes
+                ));
+            }
+        }
+
+        // Existierende Buchungen (inkl. Vortag/Folgetag mit day_offset – Termine über Mitternacht)
+        // Bei Mitarbeiter-Services: alle Buchungen mit Mitarbeiter (jeder Service),
+        // damit Slots blockiert werden, wenn der Mitarbeiter schon einen anderen Service hat.
+        const previousDate = addDaysToDate(date, -1);
+        const nextDate = addDaysToDate(date, 1);
+        const existingBookings = (data.bookings.get(venueId) ?? [])
+            .filter(booking =>
+                booking.booking_date >= previousDate &&
+                booking.booking_date <= nextDate &&
+                (service.requires_staff ? booking.staff_member_id !== null : booking.service_id === serviceId)
+            )
+            .map(booking => ({ ...booking, day_offset: getDaysBetween(date, booking.booking_date) + booking.day_shift }));
+
+        // Venue mit Tischplan: Verfügbarkeit ergibt sich aus freien Tischen statt aus der Kapazitätssumme
+        const tables = service.requires_staff ? [] : data.tables.get(venueId) ?? [];
+        const tableOccupancy = tables.length > 0
+            ? (data.tableOccupancy.get(venueId) ?? [])
+                .filter(entry => entry.booking_date >= previousDate && entry.booking_date <= nextDate)
+                .map(entry => ({ ...entry, day_offset: getDaysBetween(date, entry.booking_date) }))
+            : [];
+
+        // Überbuchung (nur kapazitätsbasierte Services ohne Tischplan): zusätzliche Gäste je Slot
+        const venueSettings = data.venues.get(venueId);
+        const overbookingAllowance = venueSettings && tables.length === 0
+            ? this.resolveOverbookingAllowance(venueSettings, service, data.noShowRates.get(venueId) ?? null)
+            : 0;
+
+        // Ankunftssteuerung (nur kapazitätsbasierte Services): Ankünfte des Tages für die Intervall-Grenzen
+        const pacingRules = service.requires_staff ? [] : data.pacingRules.get(venueId) ?? [];
+        const pacingArrivals = pacingRules.length > 0
+            ? (data.pacingArrivals.get(venueId) ?? []).filter(arrival => arrival.booking_date === date)
+            : [];
+
+        // Gemeinsam genutzte Ressourcen (z.B. Paarraum): Belegung von Vortag bis Folgetag für alle benötigten Ressourcen
+        const resourceRequirements = data.resourceRequirements.get(serviceId) ?? [];
+        const resourceOccupancy = resourceRequirements.length > 0
+            ? (data.resourceOccupancy.get(venueId) ?? [])
+                .filter(entry => entry.booking_date >= previousDate && entry.booking_date <= nextDate)
+                .map(entry => ({ ...entry, day_offset: getDaysBetween(date, entry.booking_date) + entry.day_shift }))
+            : [];
+
+        // Markiere konfliktbehaften Slots als nicht verfügbar
+        availableSlots = availableSlots.map(slot => {
+            const slotWithBuffers = {
+                ...slot,
+                buffer_before_minutes: service.buffer_before_minutes,
+                buffer_after_minutes: service.buffer_after_minutes
+            };
+
+            // Ohne freie Einheiten einer benötigten Ressource ist der Slot belegt – unabhängig von Mitarbeiter, Tisch und Kapazität
+            if (resourceRequirements.length > 0 && this.findResourceShortage(resourceRequirements, resourceOccupancy, slotWithBuffers))
+            {
+                return service.requires_staff
+                    ? { ...slot, available: false }
+                    : { ...slot, available: false, remaining_capacity: 0 };
+            }
+
+            // Freie Ankünfte im Intervall des Slots (null = keine Pacing-Regel greift)
+            const pacingHeadroom = this.getPacingHeadroom(pacingRules, pacingArrivals, date, slot.start_time);
+            const pacingCovers = pacingHeadroom ? (pacingHeadroom.parties > 0 ? pacingHeadroom.covers : 0) : Infinity;
+
+            if (tables.length > 0)
+            {
+                const occupiedTableIds = this.getOccupiedTableIds(tableOccupancy, slotWithBuffers);
+
+                // remaining_capacity = größte Gruppe, die noch einen Tisch bekommt (max. Kapazität des Services und Pacing)
+                return {
+                    ...slot,
+                    available: partySize <= service.capacity && partySize <= pacingCovers && this.findBestTableCombination(tables, occupiedTableIds, partySize) !== null,
+                    remaining_capacity: Math.min(service.capacity, this.maxSeatablePartySize(tables, occupiedTableIds), pacingCovers)
+                };
+            }
+
+            let totalOccupancy = 0;
+
+            // Prüfe jede existierende Buchung (inkl. Pufferzeiten – Puffer selbst erscheinen nicht im Slot)
+            for (const booking of existingBookings)
+            {
+                if (!this.timeSlotsOverlapWithBuffers(slotWithBuffers, booking)) continue;
+
+                if (service.requires_staff)
+                {
+                    // Mitarbeiter-Services: belegt, wenn die Buchung zum selben Mitarbeiter gehört
+                    if (slot.staff_member_id === booking.staff_member_id)
+                    {
+                        return { ...slot, available: false };
+                    }
+                }
+                else
+                {
+                    // Kapazitätsbasierte Services (z.B. Restaurant): Summiere auf
+                    totalOccupancy += booking.party_size;
+                }
+            }
+
+            // Für kapazitätsbasierte Services: nur verfügbar wenn genug Plätze für partySize
+            if (!service.requires_staff)
+            {
+                const remainingCapacity = Math.min(service.capacity + overbookingAllowance - totalOccupancy, pacingCovers);
+                return {
+                    ...slot,
+                    available: remainingCapacity >= partySize,
+                    remaining_capacity: Math.max(0, remainingCapacity)
+                };
+            }
+
+            return slot;
+        });
+
+        // Sortiere Slots nach Zeit
+        availableSlots.sort((a, b) =>
+            this.timeStringToMinutes(a.start_time) - this.timeStringToMinutes(b.start_time)
+        );
+
+        // Entferne doppelte Slots (z.B. durch mehrfache Verfügbarkeitsregeln desselben Mitarbeiters)
+        let uniqueSlots = availableSlots.filter((slot, index, array) =>
+            index === array.findIndex(s =>
+                s.start_time === slot.start_time &&
+                s.end_time === slot.end_time &&
+                s.staff_member_id === slot.staff_member_id
+            )
+        );
+
+        // Personenzahl außerhalb der Online-Grenzen von Venue/Service: keine Zeit online buchbar (→ Gruppenanfrage)
+        const venue = data.venues.get(venueId);
+        const partySizeLimits = this.resolvePartySizeLimits(venue ?? null, service);
+        if (partySize < partySizeLimits.min || partySize > partySizeLimits.max)
+        {
+            uniqueSlots = uniqueSlots.map(slot => ({ ...slot, available: false }));
+        }
+
+        // "Egal wer": Slots aller qualifizierten Mitarbeiter zu einer Liste zusammenführen
+        // Eine Zeit ist frei, sobald mindestens ein Mitarbeiter frei ist – zugeordnet wird erst beim Buchen (assignStaffMember)
+        // Bei abweichender Dauer je Mitarbeiter zählt die Startzeit; end_time ist die des ersten freien Mitarbeiters
+        if (anyStaff && service.requires_staff)
+        {
+            const staffSlots = uniqueSlots;
+            uniqueSlots = staffSlots
+                .filter((slot, index, array) =>
+                    index === array.findIndex(s => s.start_time === slot.start_time)
+                )
+                .map(slot =>
+                {
+                    const freeSlot = staffSlots.find(s => s.start_time === slot.start_time && s.available);
+                    return {
+                        start_time: slot.start_time,
+                        end_time: (freeSlot ?? slot).end_time,
+                        available: freeSlot !== undefined
+                    };
+                });
+        }
+
+        return {
+            date,
+            day_of_week: getDayOfWeek(date),
+            time_slots: uniqueSlots
+        };
+    }
+
+
+    /**
+     * Wendet die zeitabhängigen Filter auf berechnete Slots an: Mindestvorlaufzeit (booking_advance_hours,
+     * gerechnet in Ortszeit des Venues) und optional ein Zeitfenster (z.B. 18:00–20:00 für Suche "ca. 19:00").
+     */
+    static filterBookableSlots(
+        day: DayAvailability,
+        venue: VenueSlotSettings,
+        options?: { timeWindowStart?: string; timeWindowEnd?: string }
+    ): DayAvailability
+    {
+        const bookingAdvanceHours = venue.booking_advance_hours || 0;
+        const now = Date.now();
+        let slots = day.time_slots.filter(slot =>
+            hoursUntil(day.date, slot.start_time, venue.timezone, now) >= bookingAdvanceHours
+        );
+
+        if (options?.timeWindowStart && options?.timeWindowEnd)
+        {
+            const windowStartMins = this.timeStringToMinutes(options.timeWindowStart);
+            const windowEndMins = this.timeStringToMinutes(options.timeWindowEnd);
+            slots = slots.filter(slot => {
+                const slotMins = this.timeStringToMinutes(slot.start_time);
+                return slotMins >= windowStartMins && slotMins <= windowEndMins;
+            });
+        }
+
+        return { ...day, time_slots: slots };
+    }
+
+
+    /**
+     * Holt verfügbare Zeitslots für viele Venues/Services über einen Datumsbereich (z.B. Suche nach Datum,
+     * Monatsüberblick). Fehlende Tage werden für alle betroffenen Venues gemeinsam geladen und berechnet,
+     * berechnete Tage kommen für kurze Zeit aus dem Cache.
+     * Ergebnis: Map mit Schlüssel "venueId:serviceId:date"; unbekannte/inaktive Services fehlen darin.
+     */
+    static async getAvailableSlotsForRange(
+        requests: { venueId: number; serviceId: number }[],
+        fromDate: string,
+        toDate: string,
+        options?: { partySize?: number; timeWindowStart?: string; timeWindowEnd?: string; anyStaff?: boolean }
+    ): Promise<Map<string, DayAvailability>>
+    {
+        const partySize = options?.partySize ?? 1;
+        const anyStaff = options?.anyStaff ?? false;
+        const result = new Map<string, DayAvailability>();
+        const now = Date.now();
+
+        const dates: string[] = [];
+        for (let date = fromDate; date <= toDate; date = addDaysToDate(date, 1)) dates.push(date);
+
+        // Aus dem Cache bedienen, Rest sammeln
+        const missingVenueIds = new Set<number>();
+        const missing: { venueId: number; serviceId: number; date: string; cacheKey: string }[] = [];
+        for (const request of requests)
+        {
+            for (const date of dates)
             {
-                // Prüfe, ob Zeitüberschneidung existiert
-                if (this.timeSlotsOverlap(startTime, endTime, booking.start_time, booking.end_time))
+                const cacheKey = `${request.venueId}:${request.serviceId}:${date}:${partySize}:${anyStaff ? 1 : 0}`;
+                const cached = availabilityCache.get(cacheKey);
+                if (cached && cached.expiresAt > now)
                 {
-                    // SONDERFALL: Service ohne festen Mitarbeiter + genug Kapazität
-                    if (!service.requires_staff && partySize + booking.party_size <= service.capacity)
-                    {                                                                                       // Für kapazitätsbasierte Services ohne Mitarbeiter (z.B. Restaurant mit 6 Plätzen)
-                        continue; // ← Überspringe diese Buchung, mache mit nächster weiter                 // Beispiel: 2 Personen bereits gebucht + 3 neue = 5 Gesamt → passt noch rein (continue zur nächsten Buchung)
-                    }
+                    result.set(`${request.venueId}:${request.serviceId}:${date}`, this.filterBookableSlots(cached.day, cached.venue, options));
+                    continue;
+                }
+                missing.push({ ...request, date, cacheKey });
+                missingVenueIds.add(request.venueId);
+            }
+        }
 
-                    // Slot bereits gebucht
-                    logger.warn('Time slot already booked');
+        logger.info('Getting available slots for range...', {
+            requests: requests.length,
+            from: fromDate,
+            to: toDate,
+            party_size: partySize,
+            cached: result.size,
+            missing: missing.length
+        });
 
-                    return {
-                        available: false,
-                        reason: 'Time slot already booked'
-                    };
-                }
+        if (missing.length === 0) return result;
+
+        let conn;
+        try
+        {
+            conn = await getConnection();
+            const data = await this.loadAvailabilityData(conn, [...missingVenueIds], fromDate, toDate);
+
+            if (availabilityCache.size + missing.length > AVAILABILITY_CACHE_MAX_ENTRIES)
+            {
+                availabilityCache.clear();
             }
 
-            // Alles ok – Slot verfügbar
-            logger.info('Time slot availability check passed');
+            for (const entry of missing)
+            {
+                const venue = data.venues.get(entry.venueId);
+                const service = data.services.get(entry.serviceId);
+                if (!venue || !service || service.venue_id !== entry.venueId) continue;
 
-            return {
-                available: true
-            };
-            
-        } 
-        catch (error) 
+                const day = this.computeDaySlots(data, entry.venueId, entry.serviceId, entry.date, partySize, anyStaff);
+                availabilityCache.set(entry.cacheKey, { expiresAt: now + AVAILABILITY_CACHE_TTL_MS, day, venue });
+                result.set(`${entry.venueId}:${entry.serviceId}:${entry.date}`, this.filterBookableSlots(day, venue, options));
+            }
+
+            return result;
+        }
+        catch (error)
         {
-            logger.error('Error checking availability: ', error);
-            return {
-                available: false,
-                reason: 'Error checking availability'
-            };
+            logger.error('Error fetching available slots for range', error);
+            throw error;
         }
         finally
         {
-            if (conn) 
+            if (conn)
             {
                 conn.release();
                 logger.debug('Database connection released');
@@ -419,353 +2538,752 @@ export class AvailabilityService
     }
 
 
-
     /** 
      * Holt alle verfügbaren Zeitslots für einen Service an einem bestimmten Datum.
      * Optional: partySize (nur Slots mit remaining_capacity >= partySize),
      * timeWindowStart/timeWindowEnd (nur Slots in diesem Zeitfenster),
-     * excludeBookingId (für Reschedule – eigene Buchung nicht als "blockiert" zählen).
+     * excludeBookingId (für Reschedule – eigene Buchung nicht als "blockiert" zählen, ohne Cache).
      */
     static async getAvailableSlots(
         venueId: number,
         serviceId: number,
         date: string,
-        options?: { partySize?: number; timeWindowStart?: string; timeWindowEnd?: string; excludeBookingId?: number }
+        options?: { partySize?: number; timeWindowStart?: string; timeWindowEnd?: string; excludeBookingId?: number; anyStaff?: boolean }
     ): Promise<DayAvailability>
     {
-        const partySize = options?.partySize ?? 1;
-        logger.info('Getting available slots...', {
+        if (!options?.excludeBookingId)
+        {
+            const days = await this.getAvailableSlotsForRange([{ venueId, serviceId }], date, date, options);
+            const day = days.get(`${venueId}:${serviceId}:${date}`);
+            if (!day)
+            {
+                logger.warn('Service not found');
+                throw new Error('Service not found');
+            }
+
+            logger.info(`${day.time_slots.filter(s => s.available).length} Available (${day.time_slots.length} total) slots fetched successfully`);
+            return day;
+        }
+
+        logger.info('Getting available slots...', {
+            venue_id: venueId,
+            service_id: serviceId,
+            date,
+            excludeBookingId: options.excludeBookingId
+        });
+
+        let conn;
+        try
+        {
+            conn = await getConnection();
+            const data = await this.loadAvailabilityData(conn, [venueId], date, date, options.excludeBookingId);
+
+            const venue = data.venues.get(venueId);
+            if (!venue)
+            {
+                logger.warn('Service not found');
+                throw new Error('Service not found');
+            }
+
+            const day = this.computeDaySlots(data, venueId, serviceId, date, options.partySize ?? 1, options.anyStaff ?? false);
+            return this.filterBookableSlots(day, venue, options);
+        }
+        catch (error)
+        {
+            logger.error('Error fetching available slots', error);
+            throw error;
+        }
+        finally
+        {
+            if (conn)
+            {
+                conn.release();
+                logger.debug('Database connection released');
+            }
+        }
+    }
+
+
+    /**
+     * Diagnose für Owner: erklärt, warum Slots eines Tages (nicht) buchbar sind.
+     * Kandidaten sind die Slots im Raster der Wochenregeln bzw. Schichten (ohne Ausnahmen und Abwesenheiten) und der
+     * tatsächlichen Zeitfenster – so erscheinen auch Zeiten, die eine Schließung entfernt. Anders als computeDaySlots
+     * bricht die Prüfung nicht beim ersten Grund ab, sondern sammelt alle Gründe je Kandidat (inkl. beteiligter Buchungen).
+     * Es gelten dieselben Regeln wie in computeDaySlots und filterBookableSlots, zusätzlich der Buchungszeitraum
+     * (booking_advance_days). Ohne Cache.
+     * staffMemberId: nur dieser Mitarbeiter; null = alle Mitarbeiter, die den Service anbieten (bei Services ohne Mitarbeiter ignoriert).
+     */
+    static async explainDaySlots(
+        conn: Awaited<ReturnType<typeof getConnection>>,
+        venueId: number,
+        serviceId: number,
+        date: string,
+        staffMemberId: number | null,
+        partySize: number
+    ): Promise<AvailabilityExplanation>
+    {
+        const data = await this.loadAvailabilityData(conn, [venueId], date, date);
+        const venue = data.venues.get(venueId);
+        const service = data.services.get(serviceId);
+        if (!venue || !service || service.venue_id !== venueId)
+        {
+            throw new Error('Service not found');
+        }
+
+        const staffIds = service.requires_staff
+            ? (data.staffByService.get(serviceId) ?? []).filter(staffId => staffMemberId === null || staffId === staffMemberId)
+            : [];
+        if (service.requires_staff && staffMemberId !== null && staffIds.length === 0)
+        {
+            throw new Error('Mitarbeiter bietet diese Leistung nicht an');
+        }
+
+        const durationMinutes = this.resolveDuration(service.duration_minutes, data.durationRules.get(serviceId) ?? [], partySize);
+        const bufferBefore = service.buffer_before_minutes || 0;
+        const bufferAfter = service.buffer_after_minutes || 0;
+
+        // Gründe, die für den ganzen Tag gelten: Buchungszeitraum und Online-Grenzen der Personenzahl
+        const dayReasons: SlotRejection[] = [];
+        const advanceRows = await conn.query(`
+            SELECT booking_advance_days
+            FROM venues
+            WHERE id = ?`,
+            [venueId]
+        ) as { booking_advance_days: number | null }[];
+        const advanceDays = advanceRows[0]?.booking_advance_days ?? 30;
+        const lastBookableDate = addDaysToDate(getZonedToday(venue.timezone), advanceDays);
+        if (date > lastBookableDate)
+        {
+            dayReasons.push({
+                code: 'booking_window',
+                message: `Liegt nach dem Buchungszeitraum (höchstens ${advanceDays} Tage im Voraus, bis ${lastBookableDate})`
+            });
+        }
+
+        const partySizeLimits = this.resolvePartySizeLimits(venue, service);
+        if (partySize < partySizeLimits.min || partySize > partySizeLimits.max)
+        {
+            dayReasons.push({
+                code: 'party_size',
+                message: `Online buchbar für ${partySizeLimits.min}–${partySizeLimits.max} Personen, darüber nur als Gruppenanfrage`
+            });
+        }
+
+        // Belegung von Vortag bis Folgetag wie in computeDaySlots (day_offset relativ zum Datum)
+        const previousDate = addDaysToDate(date, -1);
+        const nextDate = addDaysToDate(date, 1);
+        const existingBookings = (data.bookings.get(venueId) ?? [])
+            .filter(booking =>
+                booking.booking_date >= previousDate &&
+                booking.booking_date <= nextDate &&
+                (service.requires_staff ? booking.staff_member_id !== null : booking.service_id === serviceId)
+            )
+            .map(booking => ({ ...booking, day_offset: getDaysBetween(date, booking.booking_date) + booking.day_shift }));
+
+        const tables = service.requires_staff ? [] : data.tables.get(venueId) ?? [];
+        const tableOccupancy = (data.tableOccupancy.get(venueId) ?? [])
+            .filter(entry => entry.booking_date >= previousDate && entry.booking_date <= nextDate)
+            .map(entry => ({ ...entry, day_offset: getDaysBetween(date, entry.booking_date) }));
+
+        const overbookingAllowance = tables.length === 0
+            ? this.resolveOverbookingAllowance(venue, service, data.noShowRates.get(venueId) ?? null)
+            : 0;
+
+        const pacingRules = service.requires_staff ? [] : data.pacingRules.get(venueId) ?? [];
+        const pacingArrivals = (data.pacingArrivals.get(venueId) ?? []).filter(arrival => arrival.booking_date === date);
+
+        const resourceRequirements = data.resourceRequirements.get(serviceId) ?? [];
+        const resourceOccupancy = (data.resourceOccupancy.get(venueId) ?? [])
+            .filter(entry => entry.booking_date >= previousDate && entry.booking_date <= nextDate)
+            .map(entry => ({ ...entry, day_offset: getDaysBetween(date, entry.booking_date) + entry.day_shift }));
+
+        // Geschäft (staffId null) bzw. jeder geprüfte Mitarbeiter mit Regeln, Sonderverfügbarkeit und Dauer
+        const targets = service.requires_staff
+            ? staffIds.map(staffId => ({
+                staffId: staffId as number | null,
+                rules: data.staffRules.get(staffId) ?? [],
+                specials: this.specialAvailabilityForStaff(
+                    [...(data.venueSpecials.get(venueId) ?? []), ...(data.staffSpecials.get(staffId) ?? [])]
+                        .filter((special, index, array) => array.findIndex(s => s.id === special.id) === index),
+                    staffId
+                ),
+                overrides: data.overrides.get(staffId) ?? [],
+                duration: data.staffDurations.get(serviceId)?.get(staffId) ?? durationMinutes
+            }))
+            : [{
+                staffId: null as number | null,
+                rules: data.venueRules.get(venueId) ?? [],
+                specials: data.venueSpecials.get(venueId) ?? [],
+                overrides: [] as StaffScheduleOverride[],
+                duration: durationMinutes
+            }];
+
+        const now = Date.now();
+        const ruleSets = data.ruleSets.get(venueId) ?? [];
+        const candidates: SlotExplanation[] = [];
+
+        for (const target of targets)
+        {
+            // Tatsächliche Zeitfenster und die geplanten laut Wochenregeln/Schichten (ohne Ausnahmen und Abwesenheiten)
+            const opening = this.buildOpeningWindows(date, target.rules, ruleSets, target.specials, target.overrides);
+            const planned = this.buildOpeningWindows(
+                date,
+                target.rules,
+                ruleSets,
+                [],
+                target.overrides.filter(override => override.type === 'shift')
+            );
+
+            const generate = (windows: MinuteRange[]) => windows.flatMap(window =>
+                this.generateTimeSlotsInWindow(window, target.duration, bufferBefore, bufferAfter, service.slot_interval_minutes)
+            );
+            const offeredStarts = new Set(generate(opening.windows).map(slot => slot.start_time));
+            const slots = [...generate(opening.windows), ...generate(planned.windows)]
+                .filter((slot, index, array) => index === array.findIndex(s => s.start_time === slot.start_time));
+
+            for (const slot of slots)
+            {
+                const reasons: SlotRejection[] = [...dayReasons];
+                const range = this.toMinuteRange(slot.start_time, slot.end_time);
+                const contains = (window: MinuteRange) => range.start >= window.start && range.end <= window.end;
+
+                // Regeln, Ausnahmen/Abwesenheiten und Slot-Raster
+                if (!offeredStarts.has(slot.start_time))
+                {
+                    if (opening.windows.some(contains))
+                    {
+                        reasons.push({ code: 'off_grid', message: 'Liegt nicht im Slot-Raster des Tages (Zeitfenster beginnt zu anderer Zeit)' });
+                    }
+                    else if (planned.windows.some(contains))
+                    {
+                        const closureReason = this.getSpecialClosureReason(opening.specials, slot.start_time, slot.end_time);
+                        reasons.push({
+                            code: 'closure',
+                            message: closureReason
+                                ? `Ausnahme oder Abwesenheit: ${closureReason}`
+                                : 'Durch eine Ausnahme oder Abwesenheit geschlossen'
+                        });
+                    }
+                    else
+                    {
+                        reasons.push({
+                            code: 'outside_rules',
+                            message: target.staffId !== null ? 'Außerhalb der Arbeitszeiten des Mitarbeiters' : 'Außerhalb der Öffnungszeiten'
+                        });
+                    }
+                }
+
+                // Vorlaufzeit (Ortszeit des Venues)
+                const hoursUntilSlot = hoursUntil(date, slot.start_time, venue.timezone, now);
+                if (hoursUntilSlot < 0)
+                {
+                    reasons.push({ code: 'past', message: 'Startzeit liegt in der Vergangenheit' });
+                }
+                else if (hoursUntilSlot < (venue.booking_advance_hours || 0))
+                {
+                    reasons.push({
+                        code: 'advance_notice',
+                        message: `Mindestvorlauf von ${venue.booking_advance_hours} Stunden unterschritten (noch ${Math.floor(hoursUntilSlot)} Stunden)`
+                    });
+                }
+
+                const slotWithBuffers = {
+                    ...slot,
+                    buffer_before_minutes: service.buffer_before_minutes,
+                    buffer_after_minutes: service.buffer_after_minutes
+                };
+                // Beteiligte Buchungen je Grund; Slot-Holds (negative ID) sind keine Buchungen und werden gesammelt als 'hold' gemeldet
+                const blockingHoldIds = new Set<number>();
+                const bookingIds = (entries: { id: number }[]) =>
+                {
+                    entries.filter(entry => entry.id < 0).forEach(entry => blockingHoldIds.add(entry.id));
+                    return [...new Set(entries.filter(entry => entry.id > 0).map(entry => entry.id))];
+                };
+
+                // Gemeinsam genutzte Ressourcen: jede knappe Ressource einzeln
+                for (const requirement of resourceRequirements)
+                {
+                    const used = resourceOccupancy.filter(entry =>
+                        entry.resource_id === requirement.resource_id && this.timeSlotsOverlapWithBuffers(slotWithBuffers, entry)
+                    );
+                    const usedQuantity = used.reduce((sum, entry) => sum + entry.quantity, 0);
+                    if (usedQuantity + requirement.quantity > requirement.resource_quantity)
+                    {
+                        reasons.push({
+                            code: 'resource',
+                            message: `Ressource „${requirement.resource_name}“: ${usedQuantity} von ${requirement.resource_quantity} belegt, ${requirement.quantity} benötigt`,
+                            booking_ids: bookingIds(used)
+                        });
+                    }
+                }
+
+                const overlapping = existingBookings.filter(booking => this.timeSlotsOverlapWithBuffers(slotWithBuffers, booking));
+                let remainingCapacity: number | undefined;
+
+                if (target.staffId !== null)
+                {
+                    // Mitarbeiter-Services: jede überschneidende Buchung desselben Mitarbeiters blockiert
+                    const staffBookings = overlapping.filter(booking => booking.staff_member_id === target.staffId);
+                    if (staffBookings.length > 0)
+                    {
+                        reasons.push({
+                            code: 'staff_booked',
+                            message: 'Mitarbeiter hat in dieser Zeit (inkl. Pufferzeiten) bereits einen Termin',
+                            booking_ids: bookingIds(staffBookings)
+                        });
+                    }
+                }
+                else
+                {
+                    // Ankunftssteuerung: freie Ankünfte im Intervall des Slots
+                    const pacingHeadroom = this.getPacingHeadroom(pacingRules, pacingArrivals, date, slot.start_time);
+                    const pacingCovers = pacingHeadroom ? (pacingHeadroom.parties > 0 ? pacingHeadroom.covers : 0) : Infinity;
+                    if (pacingCovers < partySize)
+                    {
+                        reasons.push({
+                            code: 'pacing',
+                            message: pacingHeadroom && pacingHeadroom.parties > 0
+                                ? `Ankunftssteuerung: nur noch ${pacingCovers} Gäste im Intervall frei`
+                                : 'Ankunftssteuerung: keine weiteren Gruppen im Intervall'
+                        });
+                    }
+
+                    if (tables.length > 0)
+                    {
+                        if (partySize > service.capacity)
+                        {
+                            reasons.push({ code: 'capacity', message: `Mehr Personen als die Kapazität der Leistung (${service.capacity})` });
+                        }
+
+                        const occupiedTableIds = this.getOccupiedTableIds(tableOccupancy, slotWithBuffers);
+                        if (this.findBestTableCombination(tables, occupiedTableIds, partySize) === null)
+                        {
+                            reasons.push({
+                                code: 'no_table',
+                                message: `Kein passender freier Tisch bzw. keine Tischkombination für ${partySize} Personen`,
+                                booking_ids: bookingIds(tableOccupancy.filter(entry => this.timeSlotsOverlapWithBuffers(slotWithBuffers, entry)))
+                            });
+                        }
+                        remainingCapacity = Math.min(service.capacity, this.maxSeatablePartySize(tables, occupiedTableIds), pacingCovers);
+                    }
+                    else
+                    {
+                        const totalOccupancy = overlapping.reduce((sum, booking) => sum + booking.party_size, 0);
+                        const slotCapacity = service.capacity + overbookingAllowance;
+                        if (slotCapacity - totalOccupancy < partySize)
+                        {
+                            const overbookingNote = overbookingAllowance > 0 ? ` (inkl. ${overbookingAllowance} Überbuchung)` : '';
+                            reasons.push(totalOccupancy > 0
+                                ? {
+                                    code: 'capacity',
+                                    message: `${totalOccupancy} von ${slotCapacity} Plätzen belegt${overbookingNote}, ${partySize} angefragt`,
+                                    booking_ids: bookingIds(overlapping)
+                                }
+                                : { code: 'capacity', message: `Mehr Personen als die Kapazität der Leistung (${slotCapacity}${overbookingNote})` });
+                        }
+                        remainingCapacity = Math.max(0, Math.min(slotCapacity - totalOccupancy, pacingCovers));
+                    }
+                }
+
+                if (blockingHoldIds.size > 0)
+                {
+                    reasons.push({
+                        code: 'hold',
+                        message: blockingHoldIds.size === 1
+                            ? 'Ein Kunde hält diese Zeit gerade vorläufig (Checkout oder Wartelisten-Angebot), der Hold läuft automatisch ab'
+                            : `${blockingHoldIds.size} Kunden halten diese Zeit gerade vorläufig (Checkout oder Wartelisten-Angebot), die Holds laufen automatisch ab`
+                    });
+                }
+
+                candidates.push({
+                    start_time: slot.start_time,
+                    end_time: slot.end_time,
+                    ...(target.staffId !== null ? { staff_member_id: target.staffId } : { remaining_capacity: remainingCapacity }),
+                    available: reasons.length === 0,
+                    reasons
+                });
+            }
+        }
+
+        candidates.sort((a, b) =>
+            this.timeStringToMinutes(a.start_time) - this.timeStringToMinutes(b.start_time) ||
+            (a.staff_member_id ?? 0) - (b.staff_member_id ?? 0)
+        );
+
+        logger.info('Availability explained', {
+            venue_id: venueId,
+            service_id: serviceId,
+            date,
+            candidates: candidates.length,
+            available: candidates.filter(candidate => candidate.available).length
+        });
+
+        return {
+            date,
+            service_id: serviceId,
+            staff_member_id: service.requires_staff ? staffMemberId : null,
+            party_size: partySize,
+            duration_minutes: durationMinutes,
+            candidates
+        };
+    }
+
+
+    /**
+     * Vergibt für eine Buchung ohne Mitarbeiterwunsch ("egal wer") einen freien, qualifizierten Mitarbeiter.
+     * Die Reihenfolge der Kandidaten bestimmt die Strategie des Venues:
+     * - round_robin:   wer am längsten keine neue Buchung bekommen hat, zuerst
+     * - least_booked:  wer an diesem Tag die wenigsten Termine hat, zuerst
+     * - priority:      höchste assignment_priority zuerst
+     * Der erste Kandidat, für den der Slot frei ist, wird zurückgegeben (sonst null + Grund).
+     * Hat ein Kandidat eine abweichende Dauer für die Leistung, wird mit seiner Endzeit geprüft – endTime im Ergebnis
+     * ist die Endzeit des vergebenen Mitarbeiters.
+     */
+    static async assignStaffMember(
+        venueId: number,
+        serviceId: number,
+        date: string,                   // Datum im Format YYYY-MM-DD
+        startTime: string,              // Startzeit in HH:MM
+        endTime: string,                // Endzeit in HH:MM
+        partySize: number = 1,
+        excludeBookingId?: number       // Optional: Buchung die ignoriert werden soll (für Updates)
+    ): Promise<{ staffMemberId: number | null; strategy: StaffAssignmentStrategy; endTime: string; reason?: string }>
+    {
+        logger.info('Assigning staff member...', {
+            venue_id: venueId,
+            service_id: serviceId,
+            date,
+            start_time: startTime,
+            end_time: endTime
+        });
+
+        let strategy: StaffAssignmentStrategy = 'least_booked';
+        let candidates: { staff_member_id: number; assignment_priority: number; sort_key: number; duration_minutes: number | null }[] = [];
+
+        let conn;
+        try
+        {
+            conn = await getConnection();
+
+            const venues = await conn.query(`
+                SELECT staff_assignment_strategy
+                FROM venues
+                WHERE id = ?`,
+                [venueId]
+            ) as { staff_assignment_strategy: StaffAssignmentStrategy | null }[];
+
+            strategy = venues[0]?.staff_assignment_strategy ?? 'least_booked';
+
+            // Qualifizierte Mitarbeiter inkl. Kennzahl für die Strategie:
+            // round_robin = Zeitpunkt der letzten Zuweisung (0 = noch nie), least_booked = Termine an diesem Tag
+            const sortKeySelect = strategy === 'round_robin'
+                ? `COALESCE((SELECT UNIX_TIMESTAMP(MAX(b.created_at)) FROM bookings b
+                        WHERE b.staff_member_id = sm.id AND b.venue_id = ?), 0)`
+                : `(SELECT COUNT(DISTINCT b.id) FROM ${BOOKING_SEGMENTS} b
+                        WHERE b.staff_member_id = sm.id AND b.venue_id = ? AND b.booking_date = ?
+                        AND b.status IN ('pending', 'confirmed'))`;
+
+            candidates = await conn.query(`
+                SELECT sm.id as staff_member_id, COALESCE(sm.assignment_priority, 0) as assignment_priority,
+                    ${sortKeySelect} as sort_key, ss.duration_minutes
+                FROM staff_services ss
+                JOIN staff_members sm ON ss.staff_member_id = sm.id
+                WHERE ss.service_id = ?
+                AND sm.venue_id = ?
+                AND sm.is_active = true`,
+                strategy === 'round_robin'
+                    ? [venueId, serviceId, venueId]
+                    : [venueId, date, serviceId, venueId]
+            ) as { staff_member_id: number; assignment_priority: number; sort_key: number; duration_minutes: number | null }[];
+        }
+        finally
+        {
+            if (conn)
+            {
+                conn.release();
+                logger.debug('Database connection released');
+            }
+        }
+
+        if (candidates.length === 0)
+        {
+            logger.warn('No staff member offers this service');
+            return { staffMemberId: null, strategy, endTime, reason: 'No staff member offers this service' };
+        }
+
+        // Reihenfolge nach Strategie, bei Gleichstand nach ID (stabil und nachvollziehbar)
+        candidates.sort((a, b) =>
+        {
+            const byStrategy = strategy === 'priority'
+                ? b.assignment_priority - a.assignment_priority
+                : Number(a.sort_key) - Number(b.sort_key);
+            return byStrategy !== 0 ? byStrategy : a.staff_member_id - b.staff_member_id;
+        });
+
+        for (const candidate of candidates)
+        {
+            // Abweichende Dauer des Mitarbeiters ersetzt die Dauer der Leistung (inkl. Dauer-Regeln)
+            const candidateEndTime = candidate.duration_minutes != null
+                ? this.minutesToTimeString((this.timeStringToMinutes(startTime) + candidate.duration_minutes) % MINUTES_PER_DAY)
+                : endTime;
+
+            const check = await this.isTimeSlotAvailable(
+                venueId,
+                serviceId,
+                candidate.staff_member_id,
+                date,
+                startTime,
+                candidateEndTime,
+                partySize,
+                excludeBookingId
+            );
+
+            if (check.available)
+            {
+                logger.info('Staff member assigned', { staff_member_id: candidate.staff_member_id, strategy, end_time: candidateEndTime });
+                return { staffMemberId: candidate.staff_member_id, strategy, endTime: candidateEndTime };
+            }
+        }
+
+        logger.warn('No staff member available for this time slot');
+        return { staffMemberId: null, strategy, endTime, reason: 'No staff member available for this time slot' };
+    }
+
+
+    /**
+     * Sucht für mehrere Leistungen nacheinander (z.B. Schnitt → Farbe → Föhnen) eine lückenlose Kette ab startTime.
+     * Jeder Schritt beginnt, wenn der vorherige endet. Bevorzugt wird derselbe Mitarbeiter wie im vorherigen Schritt,
+     * sonst ein anderer Mitarbeiter, der die Leistung anbietet. Vorgegebene staff_member_id werden nicht ersetzt.
+     * Dauer und Preis eines Schritts hängen vom Mitarbeiter ab (abweichende Werte in staff_services).
+     * Gibt die geplanten Schritte zurück oder null + Grund, wenn keine Kette möglich ist.
+     */
+    static async findServiceChain(
+        venueId: number,
+        date: string,                           // Datum im Format YYYY-MM-DD
+        startTime: string,                      // Start der ersten Leistung (HH:MM)
+        steps: BookingServiceRequest[],         // Leistungen in gewünschter Reihenfolge
+        partySize: number = 1,
+        excludeBookingId?: number               // Optional: Buchung die ignoriert werden soll (für Umbuchungen)
+    ): Promise<{ items: ServiceChainItem[] | null; reason?: string }>
+    {
+        logger.info('Searching service chain...', {
             venue_id: venueId,
-            service_id: serviceId,
             date,
-            partySize,
-            excludeBookingId: options?.excludeBookingId,
-            timeWindow: options?.timeWindowStart && options?.timeWindowEnd
-                ? `${options.timeWindowStart}-${options.timeWindowEnd}`
-                : undefined
+            start_time: startTime,
+            service_ids: steps.map(step => step.service_id)
         });
 
+        if (steps.length === 0)
+        {
+            return { items: null, reason: 'No services selected' };
+        }
+
+        let services: Pick<Service, 'id' | 'name' | 'duration_minutes' | 'price' | 'requires_staff'>[];
+        let staffServices: { service_id: number; staff_member_id: number; duration_minutes: number | null; price: number | null }[];
+
         let conn;
         try
         {
-            const requestedDate = new Date(date);
-            const dayOfWeek = requestedDate.getDay();
-
             conn = await getConnection();
-            logger.debug('Database connection established');
 
-            // Eigentlich noch mit buffer_after_minutes nach requires_staff, ABER MVP
-            const services = await conn.query(`
-                SELECT id, duration_minutes, requires_staff, capacity
+            const serviceIds = [...new Set(steps.map(step => step.service_id))];
+            const placeholders = serviceIds.map(() => '?').join(',');
+
+            services = await conn.query(`
+                SELECT id, name, duration_minutes, price, requires_staff
                 FROM services
-                WHERE id = ?
-                AND venue_id = ?
+                WHERE venue_id = ?
+                AND id IN (${placeholders})
                 AND is_active = true`,
-                [serviceId, venueId]
-            ) as Service[];
-
-            if (services.length === 0)
+                [venueId, ...serviceIds]
+            ) as Pick<Service, 'id' | 'name' | 'duration_minutes' | 'price' | 'requires_staff'>[];
+
+            // Dauer je Leistung für die Personenzahl (Dauer-Regeln vor duration_minutes)
+            const durationRules = await this.getDurationRules(conn, serviceIds);
+            services = services.map(service => ({
+                ...service,
+                duration_minutes: this.resolveDuration(service.duration_minutes, durationRules.get(service.id) ?? [], partySize)
+            }));
+
+            // Alle Mitarbeiter, die eine der Leistungen anbieten (sortiert für stabile Zuordnung)
+            staffServices = await conn.query(`
+                SELECT ss.service_id, ss.staff_member_id, ss.duration_minutes, ss.price
+                FROM staff_services ss
+                JOIN staff_members sm ON ss.staff_member_id = sm.id
+                WHERE ss.service_id IN (${placeholders})
+                AND sm.is_active = true
+                ORDER BY ss.staff_member_id`,
+                serviceIds
+            ) as { service_id: number; staff_member_id: number; duration_minutes: number | null; price: number | null }[];
+        }
+        finally
+        {
+            if (conn)
             {
-                logger.warn('Service not found');
-                throw new Error('Service not found');
+                conn.release();
+                logger.debug('Database connection released');
             }
+        }
 
+        const serviceById = new Map(services.map(service => [service.id, service]));
+        if (steps.some(step => !serviceById.has(step.service_id)))
+        {
+            logger.warn('Service not found or inactive');
+            return { items: null, reason: 'Service not found or inactive' };
+        }
 
-            const service = services[0]
-            //                  Typ: Array   Wert: leeres Array
-            let availableSlots: TimeSlot[] = [];
+        let lastReason = 'No continuous time slot available for the selected services';
 
-            // Logik für Mitarbeitergebundene Services
-            if (service.requires_staff)
-            {
-                // Hole alle Mitarbeiter, die diesen Service anbieten können
-                const staffMembers = await conn.query(`
-                    SELECT sm.id as staff_id, sm.name as staff_name
-                    FROM staff_services ss
-                    JOIN staff_members sm 
-                    ON ss.staff_member_id = sm.id
-                    WHERE ss.service_id = ?
-                    AND sm.is_active = true`,
-                    [serviceId]
-                ) as { staff_id: number; staff_name: string }[];
-
-                // Generiere Slots für jeden verfügbaren Mitarbeiter
-                for (const staffMember of staffMembers)
-                {
-                    const staffId = staffMember.staff_id;
-
-                    // Hole Availability Rules des Mitarbeiters für diesen Tag
-                    const staffRules = await conn.query(`
-                        SELECT start_time, end_time
-                        FROM availability_rules
-                        WHERE staff_member_id = ?
-                        AND day_of_week = ?
-                        AND is_active = true`,
-                        [staffId, dayOfWeek]
-                    ) as { start_time: string; end_time: string }[];;
-
-                    // Generiere Zeitslots für jede Availability Rule
-                    for(const rule of staffRules)
-                    {                                                               // So könnte das Array aussehen
-                        const staffSlots = this.generateTimeSlots(                  // const staffSlots = [
-                            rule.start_time,                                        //   { start_time: '09:00', end_time: '09:30', duration_minutes: 30 },      // <-- slot 1
-                            rule.end_time,                                          //   { start_time: '09:30', end_time: '10:00', duration_minutes: 30 },      // <-- slot 2
-                            service.duration_minutes                                //   { start_time: '10:00', end_time: '10:30', duration_minutes: 30 }       // <-- slot 3
-                            //,service.buffer_after_minutes || 0                    // ];   
-                        );
+        // Rekursive Suche: Schritt für Schritt, bei Konflikt nächsten Mitarbeiter probieren (Backtracking)
+        // Schritte werden in Minuten ab Mitternacht des Buchungstags geplant – die Kette darf über Mitternacht laufen,
+        // Schritte ab Mitternacht werden dann gegen den Folgetag geprüft (gehören aber weiter zur Buchung vom date)
+        const chainStartMinutes = this.timeStringToMinutes(startTime);
 
-                        // Erstelle einen neuen Array und füge staff_member_id zu jedem Slot hinzu
-                        const slotsWithStaff = staffSlots.map(slot => ({            // So würde das Array danach aussehen
-                            ...slot, // Kopiert alle Properties von staffSlots      // const slotsWithStaff = [
-                            staff_member_id: staffId                                //   { start_time: '09:00', end_time: '09:30', duration_minutes: 30, staff_member_id: 5 }
-                        }));                                                        // ];
+        const searchStep = async (index: number, stepStartMinutes: number, previousStaffId: number | null): Promise<ServiceChainItem[] | null> =>
+        {
+            if (index === steps.length) return [];
 
-                        // Füge alle Slots zum Gesamtarray hinzu
-                        availableSlots.push(...slotsWithStaff);                     // Ohne das ... würde ich ein Array in ein Array pushen. So wird davor das Array 'entpackt'
-                    }
-                }
+            const step = steps[index];
+            const service = serviceById.get(step.service_id)!;
+
+            const stepDate = stepStartMinutes >= MINUTES_PER_DAY ? addDaysToDate(date, 1) : date;
+            const stepStart = this.minutesToTimeString(stepStartMinutes % MINUTES_PER_DAY);
+
+            // Kandidaten: vorgegebener Mitarbeiter, sonst alle passenden – der Mitarbeiter des vorherigen Schritts zuerst
+            let candidates: (number | null)[];
+            if (!service.requires_staff)
+            {
+                candidates = [null];
             }
-            else 
+            else
             {
-                // Geschäftslevel-Service (z.B. Restaurant-Tische)
-                const venueRules = await conn.query(`
-                    SELECT start_time, end_time
-                    FROM availability_rules
-                    WHERE venue_id = ?
-                    AND day_of_week = ?
-                    AND is_active = true`,
-                    [venueId, dayOfWeek]
-                ) as { start_time: string; end_time: string }[];;
+                const qualified = staffServices
+                    .filter(entry => entry.service_id === service.id)
+                    .map(entry => entry.staff_member_id);
 
-                // Generiere Zeitslots für jede Geschäfts-Availability-Rule
-                for (const rule of venueRules)
+                if (step.staff_member_id)
                 {
-                    const venueSlots = this.generateTimeSlots(
-                        rule.start_time,
-                        rule.end_time,
-                        service.duration_minutes
-                        //,service.buffer_after_minutes || 0
-                    );
-
-                    // Füge die Slots hinzu
-                    availableSlots.push(...venueSlots);
+                    candidates = qualified.includes(step.staff_member_id) ? [step.staff_member_id] : [];
+                    if (candidates.length === 0) lastReason = 'Selected staff member cannot perform this service';
+                }
+                else
+                {
+                    candidates = previousStaffId !== null && qualified.includes(previousStaffId)
+                        ? [previousStaffId, ...qualified.filter(id => id !== previousStaffId)]
+                        : qualified;
                 }
             }
 
-            /*
-             * MVP: deaktiviert. Für spätere Erweiterung vorgesehen.
-             * Sonderverfügbarkeit (Schließungen, Feiertage) – Slots in Schließzeiten herausfiltern.
-             * Reaktivieren, sobald Tabelle special_availability und UI existieren.
-             *
-             * // Wende Sonderverfügbarkeitsregeln an (Schließungen/Feiertage)
-             * // Findet Ausnahmen für: Geschäft (immer) + Mitarbeiter (falls angegeben)
-             * const [specialAvailability] = await conn.query(`
-                    SELECT start_time, end_time, is_available, reason
-                    FROM special_availability
-                    WHERE (
-                        venue_id = ? 
-                        
-                        ${service.requires_staff ? 
-                            'OR staff_member_id IN (SELECT staff_member_id FROM staff_services WHERE service_id = ?)' : ''
-                        }
-                    )
-                    AND date = ?`,
-                    service.requires_staff ? [venueId, serviceId, date] : [venueId, date]
-                );
+            for (const staffId of candidates)
+            {
+                // Abweichende Dauer/Preis des Mitarbeiters für diese Leistung, sonst Werte der Leistung
+                const staffService = staffServices.find(entry => entry.service_id === service.id && entry.staff_member_id === staffId);
+                const durationMinutes = staffService?.duration_minutes ?? service.duration_minutes;
+                const stepEndMinutes = stepStartMinutes + durationMinutes;
 
-                // Filter Slots während Sonderschließungen heraus
-                if (specialAvailability.length > 0)
+                // Kette darf höchstens 24 Stunden umfassen
+                if (stepEndMinutes - chainStartMinutes >= MINUTES_PER_DAY)
                 {
-                    for (const special of specialAvailability)
-                    {
-                        // Wenn, nicht verfügbar
-                        if (!special.is_available)
-                        {
-                            if (special.start_time && special.end_time)                     // Es gibt Start- und Endzeit -- d.h. Partielle Schließung nur
-                            {
-                                // Filtere überschneidene Slots bei Partieller Schließung
-                                availableSlots = availableSlots.filter(slot =>
-                                    !this.timeSlotsOverlap(                                 // falls true kommt (ja, überlappt), soll es inverted werden, sodass der Filter weiß, dass eine Überlappung rausgefiltert wird
-                                        slot.start_time,
-                                        slot.end_time,
-                                        special.start_time,
-                                        special.end_time
-                                    )
-                                );
-                            }
-                            else
-                            {
-                                // Ganztägige Schließung -- leert alle Slots
-                                availableSlots = [];
-                                break;
-                            }
-                        }
-                    }
+                    lastReason = 'Selected services do not fit into the day';
+                    continue;
                 }
-            */
-
-
-            // Hole existierende Buchungen
-            // Bei Mitarbeiter-Services: alle Buchungen mit Mitarbeiter an dem Tag (jeder Service),
-            // damit Slots blockiert werden, wenn der Mitarbeiter schon einen anderen Service hat.
-            // excludeBookingId: Für Reschedule – eigene Buchung nicht als "blockiert" zählen
-            const existingBookings = service.requires_staff
-                ? (await conn.query(`
-                    SELECT start_time, end_time, staff_member_id, party_size
-                    FROM bookings
-                    WHERE venue_id = ?
-                    AND booking_date = ?
-                    AND staff_member_id IS NOT NULL
-                    AND status = 'confirmed'
-                    ${options?.excludeBookingId ? 'AND id != ?' : ''}`,
-                    options?.excludeBookingId 
-                        ? [venueId, date, options.excludeBookingId]
-                        : [venueId, date]
-                ) as { start_time: string; end_time: string; staff_member_id: number | null; party_size: number }[])
-                : (await conn.query(`
-                    SELECT start_time, end_time, staff_member_id, party_size
-                    FROM bookings
-                    WHERE venue_id = ?
-                    AND service_id = ?
-                    AND booking_date = ?
-                    AND status = 'confirmed'
-                    ${options?.excludeBookingId ? 'AND id != ?' : ''}`,
-                    options?.excludeBookingId 
-                        ? [venueId, serviceId, date, options.excludeBookingId]
-                        : [venueId, serviceId, date]
-                ) as { start_time: string; end_time: string; staff_member_id: number | null; party_size: number }[]);
-
-            // Markiere konfliktbehaften Slots als nicht verfügbar
-            availableSlots = availableSlots.map(slot => {
-                let totalOccupancy = 0;
-
-                // Prüfe jede existierende Buchung
-                for (const booking of existingBookings)
-                {
-                    // Prüfe auf Zeitüberschneidung
-                    const conflicts = this.timeSlotsOverlap(
-                        slot.start_time,
-                        slot.end_time,
-                        booking.start_time,
-                        booking.end_time
-                    );
 
-                    // Kein Konflikt - weiter zum nächsten Buchung
-                    if (!conflicts) continue;
+                const stepEnd = this.minutesToTimeString(stepEndMinutes % MINUTES_PER_DAY);
 
-                    // Für Mitarbeiter-Services
-                    if (service.requires_staff)
-                    {
-                        // Prüfe, ob die Buchung zum selben Mitarbeiter gehört
-                        if (slot.staff_member_id === booking.staff_member_id)
-                        {
-                            return {
-                                ...slot,
-                                available: false
-                            };
-                        }
-                    }
-                    else
-                    {
-                        // Kapazitätsbasierte Services (z.B. Restaurant): Summiere auf
-                        totalOccupancy += booking.party_size;
-                    }
-                }        
+                const result = await this.isTimeSlotAvailable(
+                    venueId,
+                    service.id,
+                    staffId,
+                    stepDate,
+                    stepStart,
+                    stepEnd,
+                    partySize,
+                    excludeBookingId
+                );
 
-                // Für kapazitätsbasierte Services: nur verfügbar wenn genug Plätze für partySize
-                if (!service.requires_staff)
+                if (!result.available)
                 {
-                    const remainingCapacity = service.capacity - totalOccupancy;
-                    const hasEnoughCapacity = remainingCapacity >= partySize;
-                    return {
-                        ...slot,
-                        available: hasEnoughCapacity,
-                        remaining_capacity: Math.max(0, remainingCapacity)
-                    }
+                    lastReason = result.reason || lastReason;
+                    continue;
                 }
 
-                // Slot bleibt
-                return slot;
-            });
+                const rest = await searchStep(index + 1, stepEndMinutes, staffId ?? previousStaffId);
+                if (rest)
+                {
+                    return [
+                        {
+                            position: index,
+                            service_id: service.id,
+                            service_name: service.name,
+                            staff_member_id: staffId,
+                            start_time: stepStart,
+                            end_time: stepEnd,
+                            duration_minutes: durationMinutes,
+                            price: staffService?.price ?? service.price ?? null
+                        },
+                        ...rest
+                    ];
+                }
+            }
 
+            return null;
+        };
 
-            // Sortiere Slots nach Zeit
-            availableSlots.sort((a, b) => 
-                this.timeStringToMinutes(a.start_time) - this.timeStringToMinutes(b.start_time)
-            );
+        const items = await searchStep(0, chainStartMinutes, null);
 
-            // Entferne doppelte Slots (kann bei mehreren Mitarbeitern vorkommen)
-            let uniqueSlots = availableSlots.filter((slot, index, array) =>
-                index === array.findIndex(s =>
-                    s.start_time === slot.start_time &&         // Entfernt potenzielle Duplikate die durch mehrfache Verfügbarkeitsregeln
-                    s.end_time === slot.end_time &&             // desselben Mitarbeiters oder Datenbank-Inkonsistenzen entstehen könnten.
-                    s.staff_member_id === slot.staff_member_id  // Defensive Programmierung: In 99% der Fälle ändert dieser Filter nichts.
-                )
-            );
+        if (!items)
+        {
+            logger.warn('No service chain found', { reason: lastReason });
+            return { items: null, reason: lastReason };
+        }
 
-            // Hole booking_advance_hours für Vorlaufzeit-Filter
-            const venueData = await conn.query(`
-                SELECT booking_advance_hours
-                FROM venues
-                WHERE id = ?`,
-                [venueId]
-            ) as Pick<import('../config/utils/types').Venue, 'booking_advance_hours'>[];
-
-            const bookingAdvanceHours = venueData[0]?.booking_advance_hours || 0;
-
-            // Filter Slots basierend auf Mindestvorlaufzeit (booking_advance_hours)
-            const now = new Date();
-            uniqueSlots = uniqueSlots.filter(slot => {
-                const [hours, minutes] = slot.start_time.split(':').map(Number);
-                const slotDateTime = new Date(date);
-                slotDateTime.setHours(hours, minutes, 0, 0);
-                const hoursUntilSlot = (slotDateTime.getTime() - now.getTime()) / (1000 * 60 * 60);
-                return hoursUntilSlot >= bookingAdvanceHours;
-            });
+        logger.info('Service chain found', {
+            staff_member_ids: items.map(item => item.staff_member_id),
+            end_time: items[items.length - 1].end_time
+        });
 
-            // Optional: nur Slots im Zeitfenster (z.B. 18:00–20:00 für Suche "ca. 19:00")
-            if (options?.timeWindowStart && options?.timeWindowEnd) {
-                const windowStartMins = this.timeStringToMinutes(options.timeWindowStart);
-                const windowEndMins = this.timeStringToMinutes(options.timeWindowEnd);
-                uniqueSlots = uniqueSlots.filter(slot => {
-                    const slotMins = this.timeStringToMinutes(slot.start_time);
-                    return slotMins >= windowStartMins && slotMins <= windowEndMins;
-                });
-            }
+        return { items };
+    }
 
-            const available_slots = uniqueSlots.filter(s => s.available).length;
-            const total_slots = uniqueSlots.length;
 
+    /**
+     * Holt alle möglichen Startzeiten für mehrere Leistungen nacheinander an einem Datum.
+     * Kandidaten sind die freien Slots der ersten Leistung; für jeden wird eine lückenlose Kette gesucht.
+     */
+    static async getServiceChainSlots(
+        venueId: number,
+        steps: BookingServiceRequest[],
+        date: string,
+        partySize: number = 1
+    ): Promise<ServiceChainSlot[]>
+    {
+        const firstStepSlots = await this.getAvailableSlots(venueId, steps[0].service_id, date, { partySize });
 
-            /*  
-                logger.info(`${available_slots}/${total_slots} Available slots fetched successfully`, {
-                    total_slots: uniqueSlots.length,
-                    available_slots: uniqueSlots.filter(s => s.available).length,
-                    unavailable_slots: uniqueSlots.filter(s => !s.available).length
-                });
-            */
-           logger.info(`${available_slots} Available (${total_slots} total) slots fetched successfully`);
+        // Eine Startzeit nur einmal prüfen (bei mehreren Mitarbeitern kommt sie mehrfach vor)
+        const startTimes = [...new Set(
+            firstStepSlots.time_slots
+                .filter(slot => slot.available)
+                .map(slot => slot.start_time)
+        )];
 
-            // Return Day-Availability
-            return {
-                date: date,
-                day_of_week: dayOfWeek,
-                time_slots: uniqueSlots
-            };
-        }
-        catch (error)
-        {
-            logger.error('Error fetching available slots', error);
-            throw error;
-        }
-        finally
+        const chainSlots: ServiceChainSlot[] = [];
+
+        for (const startTime of startTimes)
         {
-            if (conn)
-            {
-                conn.release();
-                logger.debug('Database connection released');
-            }
+            const chain = await this.findServiceChain(venueId, date, startTime, steps, partySize);
+            if (!chain.items) continue;
+
+            chainSlots.push({
+                start_time: startTime,
+                end_time: chain.items[chain.items.length - 1].end_time,
+                total_price: chain.items.reduce((sum, item) => sum + Number(item.price ?? 0), 0),
+                items: chain.items
+            });
         }
+
+        logger.info(`${chainSlots.length} service chain slots found (${startTimes.length} candidates)`);
+
+        return chainSlots;
     }
 
 
@@ -830,10 +3348,10 @@ export class AvailabilityService
         {
             conn = await getConnection();
 
-            // Eigentlich noch buffer_before_minutes & buffer_after_minutes nach requires_staff, ABER MVP
+            // Pufferzeiten bewusst nicht im öffentlichen Service-Detail (nur intern für Slot-Berechnung)
             const services = await conn.query(`
                 SELECT id, venue_id, name, description, duration_minutes, 
-                    price, capacity, requires_staff, is_active
+                    price, capacity, requires_staff, min_party_size, max_party_size, is_active
                 FROM services
                 WHERE id = ?
                 AND venue_id = ?
@@ -954,57 +3472,250 @@ export class AvailabilityService
                 throw new Error('Venue not found or inactive');
             }
 
+            // Hole Verfügbarkeit für 7 Tage in einem Durchgang
+            const endDate = addDaysToDate(startDate, 6);
+            const slotsByDay = await this.getAvailableSlotsForRange([{ venueId, serviceId }], startDate, endDate);
+
             // Initialisiere Array für Wochen-Verfügbarkeit
             //                      Typ: Array          Wert: leeres Array
             const weekAvailability: DayAvailability[] = [];
 
-            // Konvertiere Start-Datum
-            const start = new Date(startDate);
+            for (let i = 0; i < 7; i++)
+            {
+                // Datum als String (YYYY-MM-DD), unabhängig von der Server-Zeitzone
+                const dateString = addDaysToDate(startDate, i);
+
+                // Leerer Tag, falls der Service nicht (mehr) buchbar ist
+                weekAvailability.push(slotsByDay.get(`${venueId}:${serviceId}:${dateString}`) ?? {
+                    date: dateString,
+                    day_of_week: getDayOfWeek(dateString),
+                    time_slots: []
+                });
+            }
 
+            logger.info('Week availability fetched successfully', {
+                days_with_slots: weekAvailability.filter(d => d.time_slots.length > 0).length,
+                total_days: weekAvailability.length
+            });
 
-            // Hole Verfügbarkeit für 7 Tage
-            for (let i = 0; i < 7; i++)
+            // Return komplette Wochen-Verfügbarkeit
+            return weekAvailability;
+        }
+        catch (error)
+        {
+            logger.error('Error fetching week availability', error);
+            throw error;
+        }
+    }
+
+
+    /**
+     * Buchbarer Zeitraum eines Venues: von "heute" (Ortszeit) bis heute + booking_advance_days
+     */
+    static async getBookableDateRange(venueId: number): Promise<{ from: string; to: string }>
+    {
+        let conn;
+        try
+        {
+            conn = await getConnection();
+
+            const venues = await conn.query(`
+                SELECT booking_advance_days, timezone
+                FROM venues
+                WHERE id = ?
+                AND is_active = true`,
+                [venueId]
+            ) as Pick<import('../config/utils/types').Venue, 'booking_advance_days' | 'timezone'>[];
+
+            if (venues.length === 0)
+            {
+                logger.warn('Venue not found or inactive');
+                throw new Error('Venue not found or inactive');
+            }
+
+            const today = getZonedToday(venues[0].timezone);
+            return {
+                from: today,
+                to: addDaysToDate(today, venues[0].booking_advance_days ?? 30)
+            };
+        }
+        finally
+        {
+            if (conn)
             {
-                // Erstelle neues Date-Objekt für aktuellen Tag
-                const currentDate = new Date(start);
+                conn.release();
+                logger.debug('Database connection released');
+            }
+        }
+    }
 
-                // Addiere Tage
-                currentDate.setDate(start.getDate() + i);
 
-                // Konvertiere zu String (YYYY-MM-DD)
-                const dateString = currentDate.toISOString().split('T')[0];
+    /**
+     * Freie Startzeiten eines Tages (eine je Uhrzeit – bei feinem Raster kann dieselbe Startzeit
+     * mit unterschiedlichem Ende vorkommen, bei "egal wer" mit mehreren Mitarbeitern)
+     */
+    static getFreeStartTimes(day: DayAvailability): TimeSlot[]
+    {
+        return day.time_slots
+            .filter(slot => slot.available)
+            .filter((slot, index, array) => index === array.findIndex(s => s.start_time === slot.start_time));
+    }
 
 
-                try 
-                {
-                    // Hole Verfügbarkeit für diesen Tag
-                    const dayAvailability = await this.getAvailableSlots(venueId, serviceId, dateString);
-                    weekAvailability.push(dayAvailability);    
-                } 
-                catch (error) 
-                {
-                    logger.error(`Error getting availability for ${dateString}: `, error);
+    /**
+     * Monatsüberblick für den Buchungskalender: je Tag geschlossen, ausgebucht oder Anzahl freier Startzeiten
+     * für Service und Personenzahl. Tage außerhalb des buchbaren Zeitraums gelten als geschlossen.
+     */
+    static async getMonthAvailability(
+        venueId: number,            // ID des Geschäfts
+        serviceId: number,          // ID des Services
+        month: string,              // Monat im Format YYYY-MM
+        partySize: number = 1       // Personenzahl (Restaurant)
+    ): Promise<MonthAvailability>
+    {
+        logger.info('Fetching month availability...', {
+            venue_id: venueId,
+            service_id: serviceId,
+            month,
+            party_size: partySize
+        });
 
-                    // Füge leeren Tag bei Fehler hinzu
-                    weekAvailability.push({
-                        date: dateString,
-                        day_of_week: currentDate.getDay(),
-                        time_slots: []
-                    });
+        try
+        {
+            const range = await this.getBookableDateRange(venueId);
+
+            const service = await this.getServiceDetails(serviceId, venueId);
+            if (!service)
+            {
+                throw new Error('Service not found');
+            }
+
+            const days: MonthDayAvailability[] = [];
+            const firstDate = `${month}-01`;
+            // Letzter Tag des Monats: 1. des Folgemonats minus ein Tag
+            const lastDate = addDaysToDate(`${addDaysToDate(firstDate, 31).slice(0, 7)}-01`, -1);
+
+            // Alle buchbaren Tage des Monats in einem Durchgang laden
+            // "Egal wer" bei Mitarbeiter-Services: eine Startzeit zählt, sobald irgendein Mitarbeiter frei ist
+            const fromDate = firstDate > range.from ? firstDate : range.from;
+            const toDate = lastDate < range.to ? lastDate : range.to;
+            const slotsByDay = fromDate <= toDate
+                ? await this.getAvailableSlotsForRange([{ venueId, serviceId }], fromDate, toDate, {
+                    partySize,
+                    anyStaff: service.requires_staff
+                })
+                : new Map<string, DayAvailability>();
+
+            // Alle Tage des Monats (Datumsrechnung ohne Zeitzonen-Einfluss); außerhalb des buchbaren Zeitraums geschlossen
+            for (let date = firstDate; date <= lastDate; date = addDaysToDate(date, 1))
+            {
+                const dayAvailability = slotsByDay.get(`${venueId}:${serviceId}:${date}`);
+                if (!dayAvailability)
+                {
+                    days.push({ date, day_of_week: getDayOfWeek(date), status: 'closed', available_slots: 0 });
+                    continue;
                 }
+
+                const freeSlots = this.getFreeStartTimes(dayAvailability).length;
+
+                days.push({
+                    date,
+                    day_of_week: dayAvailability.day_of_week,
+                    status: dayAvailability.time_slots.length === 0 ? 'closed' : freeSlots === 0 ? 'full' : 'available',
+                    available_slots: freeSlots
+                });
             }
 
-            logger.info('Week availability fetched successfully', {
-                days_with_slots: weekAvailability.filter(d => d.time_slots.length > 0).length,
-                total_days: weekAvailability.length
+            const firstAvailable = days.find(d => d.status === 'available');
+
+            logger.info('Month availability fetched successfully', {
+                days_available: days.filter(d => d.status === 'available').length,
+                days_full: days.filter(d => d.status === 'full').length
             });
 
-            // Return komplette Wochen-Verfügbarkeit
-            return weekAvailability;
+            return {
+                month,
+                service_id: serviceId,
+                party_size: partySize,
+                first_available_date: firstAvailable ? firstAvailable.date : null,
+                days
+            };
         }
         catch (error)
         {
-            logger.error('Error fetching week availability', error);
+            logger.error('Error fetching month availability', error);
+            throw error;
+        }
+    }
+
+
+    /**
+     * Früheste buchbare Slots ab einem Datum (Standard: heute), tageweise bis zum Ende des buchbaren Zeitraums
+     */
+    static async getNextAvailableSlots(
+        venueId: number,            // ID des Geschäfts
+        serviceId: number,          // ID des Services
+        options?: { partySize?: number; from?: string; limit?: number }
+    ): Promise<NextAvailableSlot[]>
+    {
+        const partySize = options?.partySize ?? 1;
+        const limit = options?.limit ?? 1;
+        logger.info('Searching next available slots...', {
+            venue_id: venueId,
+            service_id: serviceId,
+            party_size: partySize,
+            from: options?.from,
+            limit
+        });
+
+        try
+        {
+            const range = await this.getBookableDateRange(venueId);
+
+            const service = await this.getServiceDetails(serviceId, venueId);
+            if (!service)
+            {
+                throw new Error('Service not found');
+            }
+
+            const nextSlots: NextAvailableSlot[] = [];
+            const startDate = options?.from && options.from > range.from ? options.from : range.from;
+
+            // Blockweise laden (meist liegt der nächste freie Termin in den ersten Tagen)
+            for (let blockStart = startDate; blockStart <= range.to && nextSlots.length < limit; blockStart = addDaysToDate(blockStart, NEXT_AVAILABLE_BLOCK_DAYS))
+            {
+                const blockEnd = addDaysToDate(blockStart, NEXT_AVAILABLE_BLOCK_DAYS - 1);
+                const slotsByDay = await this.getAvailableSlotsForRange(
+                    [{ venueId, serviceId }],
+                    blockStart,
+                    blockEnd < range.to ? blockEnd : range.to,
+                    { partySize, anyStaff: service.requires_staff }
+                );
+
+                for (let date = blockStart; date <= blockEnd && nextSlots.length < limit; date = addDaysToDate(date, 1))
+                {
+                    const dayAvailability = slotsByDay.get(`${venueId}:${serviceId}:${date}`);
+                    if (!dayAvailability) continue;
+
+                    for (const slot of this.getFreeStartTimes(dayAvailability))
+                    {
+                        if (nextSlots.length >= limit) break;
+                        nextSlots.push({
+                            date,
+                            start_time: slot.start_time,
+                            end_time: slot.end_time,
+                            ...(slot.remaining_capacity != null ? { remaining_capacity: slot.remaining_capacity } : {})
+                        });
+                    }
+                }
+            }
+
+            logger.info(`${nextSlots.length} next available slot(s) found`);
+            return nextSlots;
+        }
+        catch (error)
+        {
+            logger.error('Error searching next available slots', error);
             throw error;
         }
     }
@@ -1022,7 +3733,7 @@ export class AvailabilityService
         endTime: string,                // Endzeit
         partySize: number,              // Gruppengröße
         excludeBookingId?: number,      // Optional: zu ignorierende Buchungs-ID
-        bypassAdvanceCheck?: boolean    // Optional: Für Admin-Buchungen (ignoriert booking_advance_hours)
+        bypassAdvanceCheck?: boolean    // Optional: Für Admin-Buchungen (ignoriert booking_advance_hours und Personenzahl-Grenzen)
     ): Promise<{ valid: boolean; errors: string[] }>
     {
         logger.info('Validating booking request...', {
@@ -1047,11 +3758,6 @@ export class AvailabilityService
                 logger.warn('Party size must be at least 1');
                 errors.push('Party size must be at least 1');
             }
-            if (partySize > 8)
-            {
-                logger.warn('Party size must be at most 8 (for larger groups please call)');
-                errors.push('Party size must be between 1 and 8. For larger groups please call.');
-            }
 
             // Validiere Zeitformat mit Regex (HH:MM)
             if (!/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/.test(startTime) || 
@@ -1061,36 +3767,26 @@ export class AvailabilityService
                 errors.push('Invalid time format. Use HH:MM');
             }
 
-            // Prüfe, ob Endzeit nach Startzeit liegt
-            if (this.timeStringToMinutes(endTime) <= this.timeStringToMinutes(startTime))
+            // Prüfe, ob Endzeit von Startzeit abweicht – Endzeit vor Startzeit = Termin über Mitternacht (z.B. 23:00-01:00)
+            if (this.timeStringToMinutes(endTime) === this.timeStringToMinutes(startTime))
             {
                 logger.warn('End time must be after start time');
                 errors.push('End time must be after start time');
             }
 
-            // Prüfe, ob Buchungsdatum nicht in der Vergangenheit liegt
-            const bookingDateObj = new Date(bookingDate);
-            const today = new Date();
-            today.setHours(0, 0, 0, 0); // Setze auf Mitternacht
-
-            if (bookingDateObj < today)
-            {
-                logger.warn('Cannot book in the past');
-                errors.push('Cannot book in the past');
-            }
-
-            // Hole Venue-Details für booking_advance_hours Check
+            // Hole Venue-Details für booking_advance_hours Check (Zeitzone für "heute" und "jetzt")
+            let venuePartySize: { min_party_size: number; max_party_size: number } | null = null;
             let conn;
             try 
             {
                 conn = await getConnection();
                 const venues = await conn.query(`
-                    SELECT booking_advance_hours
+                    SELECT booking_advance_hours, timezone, min_party_size, max_party_size
                     FROM venues
                     WHERE id = ?
                     AND is_active = true`,
                     [venueId]
-                ) as Pick<import('../config/utils/types').Venue, 'booking_advance_hours'>[];
+                ) as Pick<import('../config/utils/types').Venue, 'booking_advance_hours' | 'timezone' | 'min_party_size' | 'max_party_size'>[];
 
                 if (venues.length === 0)
                 {
@@ -1100,18 +3796,20 @@ export class AvailabilityService
                 }
 
                 const venue = venues[0];
+                venuePartySize = venue;
+
+                // Prüfe, ob Buchungsdatum nicht in der Vergangenheit liegt (heute = Ortszeit des Venues)
+                if (bookingDate < getZonedToday(venue.timezone))
+                {
+                    logger.warn('Cannot book in the past');
+                    errors.push('Cannot book in the past');
+                }
 
                 // Prüfe Mindestvorlaufzeit (außer bei Admin-Bypass)
                 if (!bypassAdvanceCheck)
                 {
-                    // Erstelle vollständiges Datetime-Objekt für den Buchungstermin
-                    const [hours, minutes] = startTime.split(':').map(Number);
-                    const bookingDateTime = new Date(bookingDate);
-                    bookingDateTime.setHours(hours, minutes, 0, 0);
-
-                    // Berechne Zeitdifferenz in Stunden
-                    const now = new Date();
-                    const hoursUntilBooking = (bookingDateTime.getTime() - now.getTime()) / (1000 * 60 * 60);
+                    // Zeitdifferenz in Stunden bis zum Termin (Ortszeit des Venues, inkl. Zeitumstellung)
+                    const hoursUntilBooking = hoursUntil(bookingDate, startTime, venue.timezone);
 
                     if (hoursUntilBooking < venue.booking_advance_hours)
                     {
@@ -1147,6 +3845,17 @@ export class AvailabilityService
                 };
             }
 
+            // Prüfe die online buchbare Personenzahl (Service vor Venue); Admin-/Owner-Buchungen dürfen darüber liegen
+            const partySizeLimits = this.resolvePartySizeLimits(venuePartySize, service);
+            if (!bypassAdvanceCheck && partySize > 0 && (partySize < partySizeLimits.min || partySize > partySizeLimits.max))
+            {
+                logger.warn('Party size outside online limits', { party_size: partySize, ...partySizeLimits });
+                errors.push(
+                    `Party size must be between ${partySizeLimits.min} and ${partySizeLimits.max}. ` +
+                    'For larger groups please send a group request.'
+                );
+            }
+
             // Validiere Mitarbeiter-Anforderung
             if (service.requires_staff)
             {
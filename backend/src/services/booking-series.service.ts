@@ -0,0 +1,314 @@
+/**
+ * Booking Series Service
+ * Terminserien für Stammkunden: z. B. alle N Wochen am selben Wochentag zur selben Zeit beim selben Mitarbeiter,
+ * bis zu einem Enddatum oder einer Anzahl Termine. Jeder Termin ist eine normale Buchung (series_id/series_index)
+ * und wird einzeln über validateBookingRequest geprüft; Konflikte werden pro Termin gemeldet.
+ * Änderung/Stornierung wahlweise für „nur diesen“ oder „diesen und alle folgenden“ Termin.
+ */
+
+import { getConnection } from '../config/database';
+import { createLogger } from '../config/utils/logger';
+import { addDaysToDate, getDaysBetween } from '../config/utils/timezone';
+import {
+    Booking,
+    BookingSeries,
+    CreateBookingSeriesData,
+    SeriesConflict,
+    SeriesScope,
+    UpdateBookingData,
+} from '../config/utils/types';
+import { AvailabilityService } from './availability.service';
+import { BookingService } from './booking.service';
+import { OwnerService } from './owner.service';
+
+const logger = createLogger('booking-series.service');
+
+/** Obergrenze für Termine pro Serie (z. B. ein Jahr wöchentlich) */
+export const MAX_SERIES_OCCURRENCES = 52;
+
+/** Ergebnis beim Anlegen einer Serie: angelegte Termine + Konflikte pro Termin */
+export interface SeriesCreateResult
+{
+    series: BookingSeries | null;
+    bookings: Booking[];
+    conflicts: SeriesConflict[];
+}
+
+/** Ergebnis bei Änderung mehrerer Termine: bei Konflikten wird nichts geändert */
+export interface SeriesUpdateResult
+{
+    bookings: Booking[];
+    conflicts: SeriesConflict[];
+}
+
+export class BookingSeriesService
+{
+    /**
+     * Termine der Serie: ab startDate alle intervalWeeks Wochen, bis endDate (inkl.) oder count Termine.
+     * Begrenzt auf MAX_SERIES_OCCURRENCES.
+     */
+    static buildOccurrenceDates(startDate: string, intervalWeeks: number, endDate?: string, count?: number): string[]
+    {
+        const limit = Math.min(count ?? MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+        const dates: string[] = [];
+        for (let i = 0; i < limit; i++)
+        {
+            const date = addDaysToDate(startDate, i * intervalWeeks * 7);
+            if (endDate && date > endDate) break;
+            dates.push(date);
+        }
+        return dates;
+    }
+
+    /**
+     * Legt eine Terminserie an.
+     * Alle Termine werden vorab geprüft; bei Konflikten wird ohne skipConflicts nichts angelegt
+     * (Ergebnis enthält dann nur die Konflikte), mit skipConflicts werden nur die freien Termine gebucht.
+     * Ohne Mitarbeiterwunsch wird der Mitarbeiter für den ersten Termin vergeben und für alle Termine beibehalten.
+     */
+    static async createSeries(
+        data: CreateBookingSeriesData,
+        options: { skipConflicts?: boolean; bypassAdvanceCheck?: boolean } = {}
+    ): Promise<SeriesCreateResult>
+    {
+        const dates = this.buildOccurrenceDates(data.booking_date, data.interval_weeks, data.end_date, data.occurrence_count);
+        if (dates.length < 2) throw new Error('Series needs at least 2 occurrences');
+        logger.info(`Creating booking series for venue ${data.venue_id}`, { occurrences: dates.length, interval_weeks: data.interval_weeks });
+
+        // Ende wie bei Einzelbuchungen aus der Dauer für die Personenzahl bzw. des Mitarbeiters (nicht aus dem Request)
+        let conn;
+        try
+        {
+            conn = await getConnection();
+            const endTime = await AvailabilityService.getBookingEndTime(
+                conn, data.venue_id, data.service_id, data.start_time, data.party_size, data.staff_member_id ?? null
+            );
+            if (endTime) data = { ...data, end_time: endTime };
+        }
+        finally
+        {
+            if (conn) conn.release();
+        }
+
+        // Gleicher Mitarbeiter für alle Termine: bei "egal wer" einmal für den ersten Termin vergeben
+        let staffMemberId = data.staff_member_id ?? null;
+        if (!staffMemberId)
+        {
+            const service = await AvailabilityService.getServiceDetails(data.service_id, data.venue_id);
+            if (service?.requires_staff)
+            {
+                const assignment = await AvailabilityService.assignStaffMember(
+                    data.venue_id, data.service_id, dates[0], data.start_time, data.end_time, data.party_size
+                );
+                if (!assignment.staffMemberId) throw new Error(`Booking not available: ${assignment.reason}`);
+                staffMemberId = assignment.staffMemberId;
+                data = { ...data, end_time: assignment.endTime };
+            }
+        }
+
+        // Jeder Termin einzeln durch validateBookingRequest
+        const conflicts: SeriesConflict[] = [];
+        const freeDates: string[] = [];
+        for (const date of dates)
+        {
+            const validation = await AvailabilityService.validateBookingRequest(
+                data.venue_id, data.service_id, staffMemberId, date, data.start_time, data.end_time,
+                data.party_size, undefined, options.bypassAdvanceCheck
+            );
+            if (validation.valid) freeDates.push(date);
+            else conflicts.push({ booking_date: date, errors: validation.errors });
+        }
+        if (freeDates.length === 0 || (conflicts.length > 0 && !options.skipConflicts))
+        {
+            logger.warn('Booking series has conflicts', { conflicts: conflicts.length });
+            return { series: null, bookings: [], conflicts };
+        }
+
+        let series: BookingSeries;
+        try
+        {
+            conn = await getConnection();
+            const result = await conn.query(`
+                INSERT INTO booking_series (venue_id, service_id, staff_member_id, customer_id, customer_email, interval_weeks, start_date, end_date, occurrence_count, start_time, end_time)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            `, [
+                data.venue_id,
+                data.service_id,
+                staffMemberId,
+                data.customer_id ?? null,
+                data.customer_email,
+                data.interval_weeks,
+                dates[0],
+                data.end_date ?? null,
+                data.end_date ? null : dates.length,
+                data.start_time,
+                data.end_time,
+            ]) as { insertId: number };
+            const rows = await conn.query('SELECT * FROM booking_series WHERE id = ?', [Number(result.insertId)]) as BookingSeries[];
+            series = rows[0];
+        }
+        finally
+        {
+            if (conn) conn.release();
+        }
+
+        // Termine anlegen; eine Sammel-Mail beim ersten angelegten Termin, die übrigen ohne Mail
+        const bookings: Booking[] = [];
+        for (const date of freeDates)
+        {
+            try
+            {
+                const booking = await BookingService.createBooking(
+                    { ...data, staff_member_id: staffMemberId ?? undefined, booking_date: date },
+                    options.bypassAdvanceCheck,
+                    {
+                        seriesId: series.id,
+                        seriesIndex: dates.indexOf(date),
+                        skipEmail: bookings.length > 0,
+                        seriesDates: freeDates.filter(d => d !== date),
+                    }
+                );
+                bookings.push(booking);
+            }
+            catch (error)
+            {
+                // Zwischen Prüfung und Anlage vergeben (parallele Buchung)
+                conflicts.push({ booking_date: date, errors: [(error as Error).message] });
+            }
+        }
+        logger.info(`Booking series ${series.id} created`, { bookings: bookings.length, conflicts: conflicts.length });
+        return { series, bookings, conflicts };
+    }
+
+    /**
+     * Termine im Geltungsbereich: nur die Buchung selbst oder (bei Serie) sie und alle folgenden offenen Termine.
+     */
+    static async getScopedBookings(booking: Booking, scope: SeriesScope): Promise<Booking[]>
+    {
+        if (scope === 'single' || !booking.series_id) return [booking];
+        let conn;
+        try
+        {
+            conn = await getConnection();
+            return await conn.query(`
+                SELECT * FROM bookings
+                WHERE series_id = ? AND series_index >= ? AND status IN ('pending', 'confirmed')
+                ORDER BY series_index
+            `, [booking.series_id, booking.series_index ?? 0]) as Booking[];
+        }
+        finally
+        {
+            if (conn) conn.release();
+        }
+    }
+
+    /**
+     * Storniert über den Manage-Link: nur diesen oder diesen und alle folgenden Termine.
+     * Eine Stornierungsmail mit allen betroffenen Terminen.
+     */
+    static async cancelByToken(token: string, scope: SeriesScope, reason?: string): Promise<Booking[]>
+    {
+        const booking = await BookingService.getBookingByToken(token);
+        if (!booking) throw new Error('Booking not found');
+        if (scope === 'single' || !booking.series_id) return [await BookingService.cancelBooking(token, reason)];
+
+        const scoped = await this.getScopedBookings(booking, scope);
+        if (!scoped.some(b => b.id === booking.id)) return [await BookingService.cancelBooking(token, reason)];
+        const dates = scoped.filter(b => b.id !== booking.id).map(b => b.booking_date);
+
+        // Erst den gewählten Termin (Stornierungsfrist wird hier geprüft), dann die folgenden
+        const cancelled = [await BookingService.cancelBooking(token, reason, false, { seriesDates: dates })];
+        for (const b of scoped)
+        {
+            if (b.id === booking.id) continue;
+            cancelled.push(await BookingService.cancelBooking(b.booking_token, reason, false, { skipEmail: true }));
+        }
+        logger.info(`Series ${booking.series_id}: ${cancelled.length} occurrence(s) cancelled by customer`);
+        return cancelled;
+    }
+
+    /**
+     * Ändert über den Manage-Link (bzw. als Owner mit auditContext) nur diesen oder diesen und alle folgenden Termine.
+     * Eine Datumsänderung wird als Verschiebung um dieselbe Anzahl Tage auf alle Termine übertragen.
+     * Alle Termine werden vorab geprüft – bei einem Konflikt wird kein Termin geändert.
+     */
+    static async updateByToken(
+        token: string,
+        scope: SeriesScope,
+        updates: UpdateBookingData,
+        auditContext?: { userId: number; actorType: 'admin' | 'owner' | 'staff' }
+    ): Promise<SeriesUpdateResult>
+    {
+        const booking = await BookingService.getBookingByToken(token);
+        if (!booking) throw new Error('Booking not found');
+        if (scope === 'single' || !booking.series_id)
+        {
+            return { bookings: [await BookingService.updateBooking(token, updates, auditContext)], conflicts: [] };
+        }
+
+        const scoped = await this.getScopedBookings(booking, scope);
+        const shiftDays = updates.booking_date ? getDaysBetween(booking.booking_date, updates.booking_date) : 0;
+        const planned = scoped.map(b => ({
+            booking: b,
+            updates: { ...updates, booking_date: shiftDays !== 0 ? addDaysToDate(b.booking_date, shiftDays) : undefined },
+        }));
+
+        const conflicts: SeriesConflict[] = [];
+        for (const { booking: b, updates: u } of planned)
+        {
+            if (!u.booking_date && !u.start_time && !u.end_time && u.staff_member_id === undefined && u.party_size === undefined) continue;
+            const validation = await AvailabilityService.validateBookingRequest(
+                b.venue_id,
+                b.service_id,
+                u.staff_member_id !== undefined ? u.staff_member_id : (b.staff_member_id ?? null),
+                u.booking_date ?? b.booking_date,
+                u.start_time ?? b.start_time,
+                u.end_time ?? b.end_time,
+                u.party_size ?? b.party_size,
+                b.id,
+                !!auditContext
+            );
+            if (!validation.valid) conflicts.push({ booking_date: u.booking_date ?? b.booking_date, booking_id: b.id, errors: validation.errors });
+        }
+        if (conflicts.length > 0)
+        {
+            logger.warn(`Series ${booking.series_id}: update rejected`, { conflicts: conflicts.length });
+            return { bookings: [], conflicts };
+        }
+
+        const updated: Booking[] = [];
+        for (const { booking: b, updates: u } of planned)
+        {
+            updated.push(await BookingService.updateBooking(b.booking_token, u, auditContext));
+        }
+        logger.info(`Series ${booking.series_id}: ${updated.length} occurrence(s) updated`);
+        return { bookings: updated, conflicts: [] };
+    }
+
+    /**
+     * Storniert als Owner: nur diesen oder diesen und alle folgenden Termine (Statuswechsel auf cancelled).
+     */
+    static async cancelAsOwner(
+        bookingId: number,
+        scope: SeriesScope,
+        reason: string | undefined,
+        auditContext: { userId: number; actorType: 'admin' | 'owner' | 'staff' },
+        venueId: number
+    ): Promise<Booking[]>
+    {
+        const booking = await BookingService.getBookingById(bookingId);
+        if (!booking) throw new Error('Booking not found');
+        if (booking.venue_id !== venueId) throw new Error('Kein Zugriff auf diese Buchung');
+
+        const scoped = await this.getScopedBookings(booking, scope);
+        const others = scoped.filter(b => b.id !== booking.id);
+        const cancelled = [await OwnerService.updateBookingStatus(
+            bookingId, 'cancelled', reason, auditContext, venueId, { seriesDates: others.map(b => b.booking_date) }
+        )];
+        for (const b of others)
+        {
+            cancelled.push(await OwnerService.updateBookingStatus(b.id, 'cancelled', reason, auditContext, venueId, { skipEmail: true }));
+        }
+        return cancelled;
+    }
+}
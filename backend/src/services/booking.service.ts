@@ -9,21 +9,50 @@
  * - Verwalten von Buchungsstatus (Dashboard/Admin)
  */
 
-import { getConnection } from "../config/database";
+import { BOOKING_LOCK_CONNECTION_LIMIT, getConnection, getLockConnection } from "../config/database";
 import { createLogger } from "../config/utils/logger";
 import { AvailabilityService } from "./availability.service";
 import { logBookingAction } from "./audit.service";
 import { 
     Booking,
+    BookingItem,
+    BookingResource,
     CreateBookingData,
+    ServiceChainItem,
+    SlotHold,
+    StaffAssignmentStrategy,
     UpdateBookingData
  } from "../config/utils/types";
 import { getTokenPrefix } from "../config/utils/helper";
+import { addDaysToDate, getEndDate, getZonedToday, hoursUntil, zonedTimeToUtc } from "../config/utils/timezone";
 import { randomUUID } from 'crypto';
 
 
  const logger = createLogger('booking.service');
 
+// Maximale Wartezeit auf die Sperre eines Buchungstages, danach 409 ("bitte erneut versuchen")
+const BOOKING_LOCK_TIMEOUT_SECONDS = 10;
+
+// Anfragen, die in diesem Prozess eine Buchungssperre halten oder darauf warten (höchstens BOOKING_LOCK_CONNECTION_LIMIT)
+let activeBookingLocks = 0;
+
+/** Gehaltene Sperren der Buchungstage samt eigener Verbindung aus dem Sperr-Pool (siehe lockBookingDates) */
+export interface BookingDateLock
+{
+    conn: Awaited<ReturnType<typeof getLockConnection>>;
+    lockNames: string[];
+}
+
+/**
+ * Kunden-E-Mail bei Terminserien: statt einer Mail pro Termin eine Sammel-Mail
+ * (erster Termin + Liste der weiteren Termine), die übrigen Termine ohne Mail
+ */
+export interface SeriesEmailOptions
+{
+    skipEmail?: boolean;
+    seriesDates?: string[];
+}
+
 
 
  export class BookingService
@@ -31,13 +60,23 @@ import { randomUUID } from 'crypto';
    /**
     * ERSTELLE NEUE BUCHUNG
     * 
-    * Prüft zuerst die Verfügbarkeit, dann erstellt die Buchung in der DB
+    * Prüft zuerst die Verfügbarkeit, dann erstellt die Buchung in der DB.
+    * Prüfung und Speichern laufen unter einer Sperre der Buchungstage des Venues (lockBookingDates),
+    * gespeichert wird in einer Transaktion – bei gleichzeitigen Anfragen für denselben Slot gewinnt eine,
+    * die andere scheitert mit "Booking not available" (409).
     * 
     * @param bookingData - Daten für die neue Buchung
-    * @param bypassAdvanceCheck - Optional: Für Admin-Buchungen (ignoriert booking_advance_hours)
+    * @param bypassAdvanceCheck - Optional: Für Admin-Buchungen (ignoriert booking_advance_hours und Personenzahl-Grenzen)
+    * @param series - Optional: Termin einer Serie (Verknüpfung + E-Mail-Steuerung)
+    * @param tableIds - Optional: vom Owner gewählte Tische (statt automatischer Tischzuweisung)
     * @returns Die erstellte Buchung mit ID oder Exception, welche dann von der Route abgefangen wird
     */
-   static async createBooking(bookingData: CreateBookingData, bypassAdvanceCheck: boolean = false): Promise<Booking>
+   static async createBooking(
+        bookingData: CreateBookingData,
+        bypassAdvanceCheck: boolean = false,
+        series?: { seriesId: number; seriesIndex: number } & SeriesEmailOptions,
+        tableIds?: number[]
+    ): Promise<Booking>
     {
         logger.info('Creating new booking...', {
             venue_id: bookingData.venue_id,
@@ -48,22 +87,137 @@ import { randomUUID } from 'crypto';
         });
 
         let conn;
+        let lock: BookingDateLock | null = null;
+        let inTransaction = false;
         try 
         {
+            // SCHRITT 0.1: Buchungstage des Venues sperren – gleichzeitige Anfragen für denselben Slot
+            // laufen nacheinander durch Prüfung und Speichern, die zweite sieht die erste Buchung
+            lock = await this.lockBookingDates(bookingData.venue_id, bookingData.booking_date, 'Booking not available');
+
             conn = await getConnection();
             logger.debug('Database connection established');
+
+            // SCHRITT 0.2: Slot-Hold aus dem Checkout – er soll nicht als Konflikt mit der eigenen Buchung zählen,
+            // alle Prüfungen übergehen ihn (negative ID), gelöscht wird er erst mit dem Speichern der Buchung.
+            // Bei "egal wer" übernimmt die Buchung den beim Halten vergebenen Mitarbeiter.
+            // Unbekannte oder abgelaufene Holds werden ignoriert, der Slot wird dann ganz normal geprüft.
+            let hold: SlotHold | null = null;
+            if (bookingData.hold_token)
+            {
+                const { SlotHoldService } = await import('./slot-hold.service');
+                hold = await SlotHoldService.getHoldForBooking(conn, bookingData.hold_token, bookingData);
+
+                if (hold?.staff_member_id && !bookingData.staff_member_id && !bookingData.services?.length)
+                {
+                    bookingData = { ...bookingData, staff_member_id: hold.staff_member_id };
+                }
+            }
+            const excludeHoldId = hold ? -hold.id : undefined;
+
+            // SCHRITT 0: Mehrere Leistungen nacheinander → lückenlose Kette suchen
+            // Die Buchung selbst übernimmt Service/Mitarbeiter des ersten Schritts, Ende der letzten Leistung und den Gesamtpreis
+            let items: ServiceChainItem[] = [];
+            if (bookingData.services && bookingData.services.length > 0)
+            {
+                const chain = await AvailabilityService.findServiceChain(
+                    bookingData.venue_id,
+                    bookingData.booking_date,
+                    bookingData.start_time,
+                    bookingData.services,
+                    bookingData.party_size,
+                    excludeHoldId
+                );
+
+                if (!chain.items)
+                {
+                    logger.warn('No service chain available');
+                    throw new Error(`Booking not available: ${chain.reason}`);
+                }
+
+                items = chain.items;
+                bookingData = {
+                    ...bookingData,
+                    service_id: items[0].service_id,
+                    staff_member_id: items[0].staff_member_id ?? undefined,
+                    end_time: items[items.length - 1].end_time,
+                    total_amount: items.reduce((sum, item) => sum + Number(item.price ?? 0), 0)
+                };
+            }
+
+            // SCHRITT 0.4: Einzelne Leistung – Endzeit serverseitig aus Startzeit und Dauer für die Personenzahl
+            // (Dauer-Regeln der Leistung bzw. abweichende Dauer des gewählten Mitarbeiters),
+            // die vom Client gesendete Endzeit wird nicht übernommen
+            if (items.length === 0)
+            {
+                const endTime = await AvailabilityService.getBookingEndTime(
+                    conn,
+                    bookingData.venue_id,
+                    bookingData.service_id,
+                    bookingData.start_time,
+                    bookingData.party_size,
+                    bookingData.staff_member_id ?? null
+                );
+
+                if (endTime) bookingData = { ...bookingData, end_time: endTime };
+            }
+
+            // SCHRITT 0.5: "Egal wer" – Mitarbeiter-Service ohne Mitarbeiterwunsch
+            // Der Server vergibt einen freien, qualifizierten Mitarbeiter nach der Strategie des Venues
+            let assignmentStrategy: StaffAssignmentStrategy | null = null;
+            if (items.length === 0 && !bookingData.staff_member_id)
+            {
+                const services = await conn.query(`
+                    SELECT requires_staff
+                    FROM services
+                    WHERE id = ?
+                    AND venue_id = ?`,
+                    [bookingData.service_id, bookingData.venue_id]
+                ) as { requires_staff: boolean }[];
+
+                if (services.length > 0 && services[0].requires_staff)
+                {
+                    const assignment = await AvailabilityService.assignStaffMember(
+                        bookingData.venue_id,
+                        bookingData.service_id,
+                        bookingData.booking_date,
+                        bookingData.start_time,
+                        bookingData.end_time,
+                        bookingData.party_size,
+                        excludeHoldId
+                    );
+
+                    if (!assignment.staffMemberId)
+                    {
+                        logger.warn('No staff member could be assigned');
+                        throw new Error(`Booking not available: ${assignment.reason}`);
+                    }
+
+                    // Endzeit des vergebenen Mitarbeiters (abweichende Dauer für die Leistung)
+                    bookingData = { ...bookingData, staff_member_id: assignment.staffMemberId, end_time: assignment.endTime };
+                    assignmentStrategy = assignment.strategy;
+                }
+            }
+
+            // SCHRITT 0.6: Einzelne Leistung – Preis serverseitig: abweichender Preis des Mitarbeiters, sonst Preis der Leistung
+            if (items.length === 0)
+            {
+                const price = await AvailabilityService.getBookingPrice(conn, bookingData.service_id, bookingData.staff_member_id ?? null);
+                bookingData = { ...bookingData, total_amount: price ?? undefined };
+            }
             
             // SCHRITT 1: Validiere die Verfügbarkeit
             // Bevor wir buchen, müssen wir sicherstellen, dass der Slot verfügbar ist
+            // (bei mehreren Leistungen: allgemeine Prüfungen + erster Schritt, die Kette ist oben bereits geprüft)
             const validation = await AvailabilityService.validateBookingRequest(
                 bookingData.venue_id,
                 bookingData.service_id,
                 bookingData.staff_member_id || null,
                 bookingData.booking_date,
                 bookingData.start_time,
-                bookingData.end_time,
+                items.length > 0 ? items[0].end_time : bookingData.end_time,
                 bookingData.party_size,
-                undefined,              // excludeBookingId
+                excludeHoldId,          // eigener Slot-Hold zählt nicht als Konflikt
                 bypassAdvanceCheck      // Admin kann Vorlaufzeit umgehen
             );
 
@@ -77,8 +231,56 @@ import { randomUUID } from 'crypto';
             // SCHRITT 1.5: Erstelle booking_token
             const bookingToken = randomUUID();
 
+            // SCHRITT 1.6: Bei Venues mit Tischplan den passendsten Tisch bzw. die passendste Tischkombination ermitteln
+            // (oder die vom Owner gewählten Tische prüfen)
+            const tables = tableIds && tableIds.length > 0
+                ? await AvailabilityService.checkChosenTables(
+                    conn,
+                    bookingData.venue_id,
+                    bookingData.service_id,
+                    bookingData.booking_date,
+                    bookingData.start_time,
+                    bookingData.end_time,
+                    tableIds
+                )
+                : await AvailabilityService.findTablesForBooking(
+                    conn,
+                    bookingData.venue_id,
+                    bookingData.service_id,
+                    bookingData.booking_date,
+                    bookingData.start_time,
+                    bookingData.end_time,
+                    bookingData.party_size,
+                    excludeHoldId
+                );
+
+            if (tables === null)
+            {
+                logger.warn('No suitable table available');
+                throw new Error('Booking not available: No suitable table available');
+            }
+
+            // SCHRITT 1.7: Gemeinsam genutzte Ressourcen (Räume, Geräte) für die Leistung bzw. jeden Schritt der Kette belegen
+            const resources = await AvailabilityService.findResourcesForBooking(
+                conn,
+                bookingData.venue_id,
+                bookingData.booking_date,
+                items.length > 0
+                    ? items
+                    : [{ service_id: bookingData.service_id, start_time: bookingData.start_time, end_time: bookingData.end_time }],
+                excludeHoldId
+            );
+
+            if (resources === null)
+            {
+                throw new Error('Booking not available: Required resource not available');
+            }
+
+
+            // SCHRITT 2: Füge die Buchung in die Datenbank ein (Buchung, Leistungen, Tische und Ressourcen in einer Transaktion)
+            await conn.beginTransaction();
+            inTransaction = true;
 
-            // SCHRITT 2: Füge die Buchung in die Datenbank ein
             const result = await conn.query(`
                 INSERT INTO bookings (
                     customer_id,
@@ -95,10 +297,12 @@ import { randomUUID } from 'crypto';
                     party_size,
                     special_requests,
                     total_amount,
+                    series_id,
+                    series_index,
                     status
                 ) 
                 VALUES
-                (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending')`,
+                (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending')`,
                 [
                     bookingData.customer_id || null,
                     bookingToken,
@@ -113,12 +317,59 @@ import { randomUUID } from 'crypto';
                     bookingData.end_time,
                     bookingData.party_size,
                     bookingData.special_requests || null,
-                    bookingData.total_amount || null
+                    bookingData.total_amount || null,
+                    series?.seriesId ?? null,
+                    series?.seriesIndex ?? null
                 ]
             ) as { insertId: number };
 
+            // SCHRITT 2.4: Einzelne Leistungen speichern (nur bei mehreren Leistungen)
+            if (items.length > 0)
+            {
+                await this.saveBookingItems(conn, Number(result.insertId), items);
+            }
+
+            // SCHRITT 2.5: Tische zuweisen (leer bei Venues ohne Tischplan)
+            if (tables.length > 0)
+            {
+                await this.assignTables(conn, Number(result.insertId), tables.map(table => table.id));
+                logger.info(`Tables assigned to booking ${result.insertId}`, { tables: tables.map(table => table.name) });
+            }
+
+            // Ressourcen festhalten (leer, wenn keine Leistung Ressourcen benötigt)
+            if (resources.length > 0)
+            {
+                await this.assignResources(conn, Number(result.insertId), resources);
+            }
+
+            // SCHRITT 2.6: Slot-Hold einlösen – erst jetzt, damit er bei einer gescheiterten Buchung bestehen bleibt
+            if (hold)
+            {
+                const { SlotHoldService } = await import('./slot-hold.service');
+                await SlotHoldService.consumeHold(conn, hold);
+            }
+
+            await conn.commit();
+            inTransaction = false;
+            AvailabilityService.invalidateCache(bookingData.venue_id);
+            await this.releaseBookingLocks(lock);
+            lock = null;
+
             logger.info(`Booking created successfully with ID: ${result.insertId}`);
 
+            // SCHRITT 2.6: Automatische Mitarbeiterzuweisung im Audit-Log festhalten (inkl. Strategie)
+            if (assignmentStrategy)
+            {
+                await logBookingAction({
+                    bookingId: Number(result.insertId),
+                    venueId: bookingData.venue_id,
+                    action: 'staff_assigned',
+                    newStatus: 'pending',
+                    reason: `Mitarbeiter automatisch zugewiesen (Strategie: ${assignmentStrategy})`,
+                    actorType: 'system',
+                });
+            }
+
 
             // SCHRITT 3: Hole die vollständige Buchung mit der neuen ID
             const newBooking = await this.getBookingById(result.insertId);
@@ -129,8 +380,9 @@ import { randomUUID } from 'crypto';
             }
 
             // E-Mail „Buchung eingegangen“ (Status pending): Vielen Dank – wir prüfen und bestätigen in Kürze
+            // (bei Serien nur eine Sammel-Mail mit allen Terminen)
             try {
-                const withDetails = await this.getBookingByIdWithDetails(result.insertId);
+                const withDetails = series?.skipEmail ? null : await this.getBookingByIdWithDetails(result.insertId);
                 if (withDetails) {
                     const { sendBookingReceived } = await import('./email.service');
                     await sendBookingReceived({
@@ -145,6 +397,9 @@ import { randomUUID } from 'crypto';
                         service_name: withDetails.service_name,
                         staff_member_name: withDetails.staff_member_name,
                         booking_token: withDetails.booking_token,
+                        items: withDetails.items,
+                        total_amount: withDetails.total_amount,
+                        series_dates: series?.seriesDates,
                     });
                 }
             } catch (emailErr) {
@@ -155,6 +410,10 @@ import { randomUUID } from 'crypto';
         } 
         catch (error) 
         {
+            if (conn && inTransaction)
+            {
+                await conn.rollback();
+            }
             logger.error('Error creating booking');
             throw error;
         }
@@ -165,6 +424,255 @@ import { randomUUID } from 'crypto';
                 conn.release();
                 logger.debug('Database connection released');
             }
+            await this.releaseBookingLocks(lock);
+        }
+    }
+
+
+
+
+    /**
+     * SPERRE BUCHUNGSTAGE
+     * 
+     * Serialisiert Buchungen eines Venues über benannte Sperren (GET_LOCK): Zwei gleichzeitige Anfragen für denselben
+     * Slot können so nicht beide die Verfügbarkeitsprüfung bestehen – die zweite wartet und sieht danach die erste Buchung.
+     * Gesperrt werden Vortag, Tag und Folgetag (Termine über Mitternacht reichen in den Nachbartag), immer in
+     * aufsteigender Reihenfolge, damit sich zwei Anfragen nicht gegenseitig blockieren.
+     * Eine Sperre je Venue und Tag (nicht je Mitarbeiter), da "egal wer", Tische und Kapazität venue-weit gelten.
+     * 
+     * Die Sperren laufen über eine eigene Verbindung aus dem Sperr-Pool: Wartende Anfragen halten so keine Verbindung
+     * aus dem Haupt-Pool, die der Inhaber der Sperre für seine Prüfungen braucht. Warten bereits
+     * BOOKING_LOCK_CONNECTION_LIMIT Anfragen, wird sofort abgelehnt (409, bitte erneut versuchen).
+     * Aufruf deshalb vor getConnection(), Freigabe mit releaseBookingLocks.
+     * 
+     * @param venueId - ID des Venues
+     * @param date - Buchungsdatum (YYYY-MM-DD)
+     * @param errorPrefix - Präfix der Fehlermeldung, wenn die Sperre nicht rechtzeitig frei wird (→ 409 in der Route)
+     * @returns Gehaltene Sperren (für releaseBookingLocks)
+     */
+    static async lockBookingDates(
+        venueId: number,
+        date: string,
+        errorPrefix: string
+    ): Promise<BookingDateLock>
+    {
+        if (activeBookingLocks >= BOOKING_LOCK_CONNECTION_LIMIT)
+        {
+            logger.warn('Too many booking lock requests', { active: activeBookingLocks });
+            throw new Error(`${errorPrefix}: Too many bookings are being processed, please try again`);
+        }
+        activeBookingLocks++;
+
+        let conn: BookingDateLock['conn'] | undefined;
+        const lockNames: string[] = [];
+        try
+        {
+            conn = await getLockConnection();
+
+            for (const lockDate of [addDaysToDate(date, -1), date, addDaysToDate(date, 1)])
+            {
+                const lockName = `easyseat_booking_${venueId}_${lockDate}`;
+                const rows = await conn.query(
+                    'SELECT GET_LOCK(?, ?) AS acquired',
+                    [lockName, BOOKING_LOCK_TIMEOUT_SECONDS]
+                ) as { acquired: number | bigint | null }[];
+
+                if (Number(rows[0]?.acquired) !== 1)
+                {
+                    logger.warn('Booking lock not acquired', { lock: lockName });
+                    throw new Error(`${errorPrefix}: Another booking for this time is being processed, please try again`);
+                }
+
+                lockNames.push(lockName);
+            }
+
+            return { conn, lockNames };
+        }
+        catch (error)
+        {
+            if (conn)
+            {
+                await this.releaseBookingLocks({ conn, lockNames });
+            }
+            else
+            {
+                activeBookingLocks--;
+            }
+            throw error;
+        }
+    }
+
+
+    /**
+     * GEBE BUCHUNGSTAGE FREI
+     * 
+     * Gibt die Sperren aus lockBookingDates frei und die Verbindung an den Sperr-Pool zurück.
+     * null (keine Sperre genommen bzw. bereits freigegeben) wird ignoriert.
+     */
+    static async releaseBookingLocks(lock: BookingDateLock | null): Promise<void>
+    {
+        if (!lock)
+        {
+            return;
+        }
+
+        for (const lockName of lock.lockNames)
+        {
+            try
+            {
+                await lock.conn.query('SELECT RELEASE_LOCK(?)', [lockName]);
+            }
+            catch (error)
+            {
+                logger.error('Failed to release booking lock', { lock: lockName, error });
+            }
+        }
+        lock.conn.release();
+        activeBookingLocks--;
+    }
+
+
+
+
+    /**
+     * WEISE TISCHE ZU
+     * 
+     * Ersetzt die bisherige Tischzuweisung einer Buchung (z.B. nach Umbuchung oder geänderter Personenzahl)
+     * 
+     * @param conn - Offene Datenbankverbindung
+     * @param bookingId - ID der Buchung
+     * @param tableIds - IDs der zugewiesenen Tische (leer = Zuweisung entfernen)
+     */
+    static async assignTables(
+        conn: Awaited<ReturnType<typeof getConnection>>,
+        bookingId: number,
+        tableIds: number[]
+    ): Promise<void>
+    {
+        await conn.query('DELETE FROM booking_tables WHERE booking_id = ?', [bookingId]);
+
+        for (const tableId of tableIds)
+        {
+            await conn.query(
+                'INSERT INTO booking_tables (booking_id, table_id) VALUES (?, ?)',
+                [bookingId, tableId]
+            );
+        }
+    }
+
+
+
+
+    /**
+     * WEISE RESSOURCEN ZU
+     * 
+     * Ersetzt die bisher belegten Ressourcen einer Buchung (z.B. nach Umbuchung, mit neuen Zeiten je Schritt)
+     * 
+     * @param conn - Offene Datenbankverbindung
+     * @param bookingId - ID der Buchung
+     * @param resources - Belegte Ressourcen je Leistung bzw. Schritt (leer = Zuweisung entfernen)
+     */
+    static async assignResources(
+        conn: Awaited<ReturnType<typeof getConnection>>,
+        bookingId: number,
+        resources: BookingResource[]
+    ): Promise<void>
+    {
+        await conn.query('DELETE FROM booking_resources WHERE booking_id = ?', [bookingId]);
+
+        for (const resource of resources)
+        {
+            await conn.query(
+                'INSERT INTO booking_resources (booking_id, resource_id, service_id, quantity, start_time, end_time) VALUES (?, ?, ?, ?, ?, ?)',
+                [bookingId, resource.resource_id, resource.service_id, resource.quantity, resource.start_time, resource.end_time]
+            );
+        }
+    }
+
+
+
+
+    /**
+     * SPEICHERE LEISTUNGEN EINER BUCHUNG
+     * 
+     * Ersetzt die bisherigen Leistungen einer Buchung mit mehreren Leistungen (z.B. nach Umbuchung)
+     * 
+     * @param conn - Offene Datenbankverbindung
+     * @param bookingId - ID der Buchung
+     * @param items - Geplante Schritte in Reihenfolge
+     */
+    static async saveBookingItems(
+        conn: Awaited<ReturnType<typeof getConnection>>,
+        bookingId: number,
+        items: ServiceChainItem[]
+    ): Promise<void>
+    {
+        await conn.query('DELETE FROM booking_items WHERE booking_id = ?', [bookingId]);
+
+        for (const item of items)
+        {
+            await conn.query(`
+                INSERT INTO booking_items (
+                    booking_id,
+                    position,
+                    service_id,
+                    staff_member_id,
+                    start_time,
+                    end_time,
+                    duration_minutes,
+                    price
+                )
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+                [
+                    bookingId,
+                    item.position,
+                    item.service_id,
+                    item.staff_member_id ?? null,
+                    item.start_time,
+                    item.end_time,
+                    item.duration_minutes,
+                    item.price ?? null
+                ]
+            );
+        }
+    }
+
+
+
+
+    /**
+     * HÄNGE LEISTUNGEN AN BUCHUNGEN AN
+     * 
+     * Lädt die einzelnen Leistungen (inkl. Service-/Mitarbeiter-Namen) für mehrere Buchungen in einer Abfrage
+     * und setzt booking.items – nur bei Buchungen mit mehreren Leistungen.
+     * 
+     * @param conn - Offene Datenbankverbindung
+     * @param bookings - Buchungen (werden direkt ergänzt)
+     */
+    static async attachBookingItems<T extends { id: number; items?: BookingItem[] }>(
+        conn: Awaited<ReturnType<typeof getConnection>>,
+        bookings: T[]
+    ): Promise<void>
+    {
+        if (bookings.length === 0) return;
+
+        const items = await conn.query(`
+            SELECT bi.*, s.name as service_name, sm.name as staff_member_name
+            FROM booking_items bi
+            LEFT JOIN services s ON bi.service_id = s.id
+            LEFT JOIN staff_members sm ON bi.staff_member_id = sm.id
+            WHERE bi.booking_id IN (${bookings.map(() => '?').join(',')})
+            ORDER BY bi.booking_id, bi.position`,
+            bookings.map(booking => booking.id)
+        ) as BookingItem[];
+
+        for (const booking of bookings)
+        {
+            const bookingItems = items.filter(item => item.booking_id === booking.id);
+            if (bookingItems.length > 0)
+            {
+                booking.items = bookingItems;
+            }
         }
     }
 
@@ -225,13 +733,14 @@ import { randomUUID } from 'crypto';
         try {
             conn = await getConnection();
             const rows = await conn.query(`
-                SELECT b.*, v.name as venue_name, s.name as service_name, sm.name as staff_member_name
+                SELECT b.*, v.name as venue_name, v.timezone as venue_timezone, s.name as service_name, sm.name as staff_member_name
                 FROM bookings b
                 LEFT JOIN venues v ON b.venue_id = v.id
                 LEFT JOIN services s ON b.service_id = s.id
                 LEFT JOIN staff_members sm ON b.staff_member_id = sm.id
                 WHERE b.id = ?
             `, [bookingId]) as Array<Booking & { venue_name?: string; service_name?: string; staff_member_name?: string }>;
+            await this.attachBookingItems(conn, rows);
             return rows.length ? rows[0] : null;
         } finally {
             if (conn) conn.release();
@@ -269,6 +778,7 @@ import { randomUUID } from 'crypto';
                 SELECT 
                     b.*,
                     v.name as venue_name,
+                    v.timezone as venue_timezone,
                     v.cancellation_hours,
                     s.name as service_name,
                     sm.name as staff_member_name
@@ -289,6 +799,7 @@ import { randomUUID } from 'crypto';
             let booking = bookings[0] as Booking;
 
             await this.markPastBookingsCompleted(conn, [booking]);
+            await this.attachBookingItems(conn, [booking]);
 
             logger.info('Booking found', { 
                 booking_id: booking.id,
@@ -315,16 +826,25 @@ import { randomUUID } from 'crypto';
 
     /**
      * Vergangene Termine (pending/confirmed) in der DB und im Array auf 'completed' setzen.
+     * Das Terminende wird in der Zeitzone des jeweiligen Venues ausgewertet (bei Terminen über Mitternacht am Folgetag).
      * Wird von getBookingByToken, getBookingsByVenue, getBookingsByEmail und Admin getBookings genutzt.
      */
-    static async markPastBookingsCompleted<T extends { id: number; booking_date: string; end_time: string; status: string }>(
+    static async markPastBookingsCompleted<T extends { id: number; booking_date: string; start_time: string; end_time: string; status: string }>(
         conn: Awaited<ReturnType<typeof getConnection>>,
         bookings: T[]
     ): Promise<T[]> {
+        const active = bookings.filter(b => b.status === 'pending' || b.status === 'confirmed');
+        if (active.length === 0) return bookings;
+        const zoneRows = await conn.query(
+            `SELECT b.id, v.timezone FROM bookings b JOIN venues v ON b.venue_id = v.id
+             WHERE b.id IN (${active.map(() => '?').join(',')})`,
+            active.map(b => b.id)
+        ) as { id: number; timezone: string }[];
+        const timeZones = new Map(zoneRows.map(r => [r.id, r.timezone]));
+
         const now = Date.now();
-        for (const b of bookings) {
-            if (b.status !== 'pending' && b.status !== 'confirmed') continue;
-            const endDateTime = new Date(`${b.booking_date}T${b.end_time}`);
+        for (const b of active) {
+            const endDateTime = zonedTimeToUtc(getEndDate(b.booking_date, b.start_time, b.end_time), b.end_time, timeZones.get(b.id));
             if (endDateTime.getTime() > now) continue;
             await conn.query(
                 `UPDATE bookings SET status = 'completed', updated_at = NOW() WHERE id = ?`,
@@ -349,6 +869,8 @@ import { randomUUID } from 'crypto';
                             service_name: withDetails.service_name,
                             staff_member_name: withDetails.staff_member_name,
                             booking_token: withDetails.booking_token,
+                            items: withDetails.items,
+                            total_amount: withDetails.total_amount,
                         },
                         withDetails.venue_id
                     );
@@ -497,6 +1019,7 @@ import { randomUUID } from 'crypto';
             let query = `
                 SELECT b.*,
                     v.name as venue_name,
+                    v.timezone as venue_timezone,
                     s.name as service_name
                 FROM bookings b
                 LEFT JOIN venues v ON b.venue_id = v.id
@@ -506,15 +1029,22 @@ import { randomUUID } from 'crypto';
 
             const params: (string | number)[] = [customerEmail];
 
-            // Wenn nur zukünftige Buchungen gewünscht, füge Datumsfilter hinzu
+            // Vorfilter: "heute" liegt in jeder Zeitzone frühestens auf dem gestrigen UTC-Datum
             if (onlyFuture)
             {
-                query += ' AND b.booking_date >= CURDATE()';
+                query += ' AND b.booking_date >= ?';
+                params.push(addDaysToDate(getZonedToday('UTC'), -1));
             }
 
             query += ' ORDER BY b.booking_date DESC, b.start_time DESC';
 
-            const bookings = await conn.query(query, params) as Booking[];
+            let bookings = await conn.query(query, params) as Array<Booking & { venue_timezone?: string }>;
+
+            // Wenn nur zukünftige Buchungen gewünscht: "heute" in der Zeitzone des jeweiligen Venues
+            if (onlyFuture)
+            {
+                bookings = bookings.filter(b => b.booking_date >= getZonedToday(b.venue_timezone));
+            }
 
             await this.markPastBookingsCompleted(conn, bookings);
 
@@ -563,6 +1093,7 @@ import { randomUUID } from 'crypto';
             let query = `
                 SELECT b.*,
                     v.name as venue_name,
+                    v.timezone as venue_timezone,
                     s.name as service_name,
                     sm.name as staff_member_name
                 FROM bookings b
@@ -574,15 +1105,22 @@ import { randomUUID } from 'crypto';
 
             const params: (string | number)[] = [customerId];
 
-            // Wenn nur zukünftige Buchungen gewünscht, füge Datumsfilter hinzu
+            // Vorfilter: "heute" liegt in jeder Zeitzone frühestens auf dem gestrigen UTC-Datum
             if (onlyFuture)
             {
-                query += ' AND b.booking_date >= CURDATE()';
+                query += ' AND b.booking_date >= ?';
+                params.push(addDaysToDate(getZonedToday('UTC'), -1));
             }
 
             query += ' ORDER BY b.booking_date DESC, b.start_time DESC';
 
-            const bookings = await conn.query(query, params) as Booking[];
+            let bookings = await conn.query(query, params) as Array<Booking & { venue_timezone?: string }>;
+
+            // Wenn nur zukünftige Buchungen gewünscht: "heute" in der Zeitzone des jeweiligen Venues
+            if (onlyFuture)
+            {
+                bookings = bookings.filter(b => b.booking_date >= getZonedToday(b.venue_timezone));
+            }
 
             await this.markPastBookingsCompleted(conn, bookings);
 
@@ -617,21 +1155,23 @@ import { randomUUID } from 'crypto';
      * 
      * @param token - booking_token der zu aktualisierenden Buchung
      * @param updates - Objekt mit den zu ändernden Feldern
+     * @param auditContext - Optional: Änderung durch Owner/Admin (sonst Kunde über Manage-Link)
      * 
      * @returns Die aktualisierte Buchung
      */
     static async updateBooking(
         token: string,
-        updates: UpdateBookingData
+        updates: UpdateBookingData,
+        auditContext?: { userId: number; actorType: 'admin' | 'owner' | 'staff' }
     ): Promise<Booking>
     {
         logger.info(`Updating booking ${token}...`, { updates });
 
         let conn;
+        let lock: BookingDateLock | null = null;
+        let inTransaction = false;
         try 
         {
-            conn = await getConnection();
-            
             // SCHRITT 1: Hole aktuelle Buchung
             const currentBooking = await this.getBookingByToken(token);
 
@@ -647,6 +1187,77 @@ import { randomUUID } from 'crypto';
                 throw new Error(`Cannot update booking with status: ${currentBooking.status}`);
             }
 
+            // SCHRITT 2.2: Neuer Termin oder andere Personenzahl → Zieltag sperren (wie bei createBooking),
+            // damit keine gleichzeitige Buchung zwischen Prüfung und Speichern denselben Slot belegt
+            if (updates.booking_date || updates.start_time || updates.end_time || updates.staff_member_id !== undefined || updates.party_size !== undefined)
+            {
+                lock = await this.lockBookingDates(
+                    currentBooking.venue_id,
+                    updates.booking_date ?? currentBooking.booking_date,
+                    'Update not possible'
+                );
+            }
+
+            // Verbindung erst nach der Sperre holen (wartende Anfragen belegen keine Verbindung aus dem Haupt-Pool)
+            conn = await getConnection();
+
+            // SCHRITT 2.5: Mehrere Leistungen – bei neuem Datum/neuer Zeit/Personenzahl die Kette neu planen
+            // Ende und Mitarbeiter ergeben sich dann aus der Kette (eigene Buchung ausgenommen)
+            let chainItems: ServiceChainItem[] = [];
+            if (
+                currentBooking.items && currentBooking.items.length > 0 &&
+                (updates.booking_date || updates.start_time || updates.party_size !== undefined)
+            )
+            {
+                const chain = await AvailabilityService.findServiceChain(
+                    currentBooking.venue_id,
+                    updates.booking_date ?? currentBooking.booking_date,
+                    updates.start_time ?? currentBooking.start_time,
+                    currentBooking.items.map(item => ({ service_id: item.service_id })),
+                    updates.party_size ?? currentBooking.party_size,
+                    currentBooking.id
+                );
+
+                if (!chain.items)
+                {
+                    logger.warn('No service chain available for updated booking');
+                    throw new Error(`Update not possible: ${chain.reason}`);
+                }
+
+                chainItems = chain.items;
+                const chainEnd = chainItems[chainItems.length - 1].end_time;
+                const chainStaff = chainItems[0].staff_member_id ?? null;
+                updates = {
+                    ...updates,
+                    end_time: chainEnd !== currentBooking.end_time ? chainEnd : undefined,
+                    staff_member_id: chainStaff !== (currentBooking.staff_member_id ?? null) ? (chainStaff ?? undefined) : undefined
+                };
+            }
+
+            // SCHRITT 2.6: Einzelne Leistung – bei neuer Startzeit, Personenzahl oder neuem Mitarbeiter Ende aus der Dauer ableiten
+            // (Dauer für die Personenzahl bzw. abweichende Dauer des Mitarbeiters).
+            // Kunden können keine eigene Endzeit setzen; Owner/Admin dürfen eine abweichende Endzeit angeben.
+            const explicitEndTime = !!auditContext && !!updates.end_time;
+            if (
+                !(currentBooking.items && currentBooking.items.length > 0) && !explicitEndTime &&
+                (updates.start_time || updates.party_size !== undefined || updates.end_time || updates.staff_member_id !== undefined)
+            )
+            {
+                const endTime = await AvailabilityService.getBookingEndTime(
+                    conn,
+                    currentBooking.venue_id,
+                    currentBooking.service_id,
+                    updates.start_time ?? currentBooking.start_time,
+                    updates.party_size ?? currentBooking.party_size,
+                    updates.staff_member_id !== undefined ? updates.staff_member_id : (currentBooking.staff_member_id ?? null)
+                );
+
+                if (endTime)
+                {
+                    updates = { ...updates, end_time: endTime !== currentBooking.end_time ? endTime : undefined };
+                }
+            }
+
             // SCHRITT 3: Wenn Datum/Zeit/Mitarbeiter geändert wird -> Verfügbarkeit prüfen
             // Wenn etwas von diesen Parametern da ist -> hat sich was geändert (Was wenn genau das gleiche eingegeben wird? - wird vlt abgefangen von excludebookingid)
             const dateTimeChanged = 
@@ -655,7 +1266,8 @@ import { randomUUID } from 'crypto';
                 updates.end_time ||
                 updates.staff_member_id !== undefined;
 
-            if (dateTimeChanged)
+            // Neue Personenzahl eines Kunden: Online-Grenzen und Kapazität ebenfalls prüfen
+            if (dateTimeChanged || (updates.party_size !== undefined && !auditContext))
             {
                 logger.info('Date/time/staff changed - validating availability...');    // Wenn genau das gleiche geändert wurde - stimmt das dann?...
 
@@ -667,9 +1279,10 @@ import { randomUUID } from 'crypto';
                         : (currentBooking.staff_member_id ?? null),                     // In currentBooking MUSS NICHT staff_member_id enthalten sein (dann wäre es undefined, aber validateBookingRequest akzeptiert kein undefined)
                     updates.booking_date ?? currentBooking.booking_date,                // Wenn links was drin ist, nimm das, ansonsten rechts
                     updates.start_time ?? currentBooking.start_time,
-                    updates.end_time ?? currentBooking.end_time,
+                    chainItems.length > 0 ? chainItems[0].end_time : (updates.end_time ?? currentBooking.end_time),
                     updates.party_size ?? currentBooking.party_size,
-                    currentBooking.id
+                    currentBooking.id,
+                    !!auditContext                                                      // Owner/Admin: wie bei Neuanlage ohne Vorlaufzeit und Personenzahl-Grenzen
                 );
 
                 if (!validation.valid)
@@ -679,6 +1292,52 @@ import { randomUUID } from 'crypto';
                 }
             }
 
+            // SCHRITT 3.5: Tischplan – bei neuer Zeit oder Personenzahl passenden Tisch neu ermitteln
+            // (eigene Buchung ausgenommen, damit der bisherige Tisch wieder in Frage kommt)
+            const tablesNeedUpdate = dateTimeChanged || updates.party_size !== undefined;
+            const tables = tablesNeedUpdate
+                ? await AvailabilityService.findTablesForBooking(
+                    conn,
+                    currentBooking.venue_id,
+                    currentBooking.service_id,
+                    updates.booking_date ?? currentBooking.booking_date,
+                    updates.start_time ?? currentBooking.start_time,
+                    updates.end_time ?? currentBooking.end_time,
+                    updates.party_size ?? currentBooking.party_size,
+                    currentBooking.id
+                )
+                : [];
+
+            if (tables === null)
+            {
+                logger.warn('No suitable table available for updated booking');
+                throw new Error('Update not possible: No suitable table available');
+            }
+
+            // SCHRITT 3.6: Ressourcen mit den neuen Zeiten je Leistung bzw. Schritt neu belegen (eigene Buchung ausgenommen)
+            const resources = tablesNeedUpdate
+                ? await AvailabilityService.findResourcesForBooking(
+                    conn,
+                    currentBooking.venue_id,
+                    updates.booking_date ?? currentBooking.booking_date,
+                    chainItems.length > 0
+                        ? chainItems
+                        : currentBooking.items && currentBooking.items.length > 0
+                            ? currentBooking.items
+                            : [{
+                                service_id: currentBooking.service_id,
+                                start_time: updates.start_time ?? currentBooking.start_time,
+                                end_time: updates.end_time ?? currentBooking.end_time
+                            }],
+                    currentBooking.id
+                )
+                : [];
+
+            if (resources === null)
+            {
+                throw new Error('Update not possible: Required resource not available');
+            }
+
             // SCHRITT 4: Baue UPDATE Query dynamisch
             const updateFields: string[] = [];
             const updateValues: (string | number)[] = [];
@@ -739,9 +1398,12 @@ import { randomUUID } from 'crypto';
             }
 
 
-            // SCHRITT 5: Führe Update aus
+            // SCHRITT 5: Führe Update aus (Buchung, Tische, Ressourcen und Leistungen in einer Transaktion)
             updateValues.push(token);       // Für WHERE clause
 
+            await conn.beginTransaction();
+            inTransaction = true;
+
             await conn.query(`
                 UPDATE bookings
                 SET ${updateFields.join(', ')}
@@ -749,9 +1411,30 @@ import { randomUUID } from 'crypto';
                 updateValues                    // Ist schon ein Array, daher kein [updateValues]
             );
 
+            if (tablesNeedUpdate && tables.length > 0)
+            {
+                await this.assignTables(conn, currentBooking.id, tables.map(table => table.id));
+            }
+
+            if (tablesNeedUpdate)
+            {
+                await this.assignResources(conn, currentBooking.id, resources);
+            }
+
+            if (chainItems.length > 0)
+            {
+                await this.saveBookingItems(conn, currentBooking.id, chainItems);
+            }
+
+            await conn.commit();
+            inTransaction = false;
+            AvailabilityService.invalidateCache(currentBooking.venue_id);
+            await this.releaseBookingLocks(lock);
+            lock = null;
+
             logger.info('Booking updated successfully');
 
-            // Audit: Kunde hat über Manage-Link Datum/Zeit/Details geändert
+            // Audit: Kunde hat über Manage-Link (bzw. Owner im Dashboard) Datum/Zeit/Details geändert
             const newStatusAfterUpdate = dateTimeChanged ? 'pending' : currentBooking.status;
             await logBookingAction({
                 bookingId: currentBooking.id,
@@ -760,8 +1443,9 @@ import { randomUUID } from 'crypto';
                 oldStatus: currentBooking.status,
                 newStatus: newStatusAfterUpdate,
                 reason: null,
-                actorType: 'customer',
-                customerIdentifier: 'manage_link',
+                actorType: auditContext?.actorType ?? 'customer',
+                userId: auditContext?.userId,
+                customerIdentifier: auditContext ? undefined : 'manage_link',
             });
 
             // SCHRITT 7: Hole aktualisierte Buchung
@@ -776,6 +1460,10 @@ import { randomUUID } from 'crypto';
         } 
         catch (error) 
         {
+            if (conn && inTransaction)
+            {
+                await conn.rollback();
+            }
             logger.error('Error updating booking', error);
             throw error;
         }
@@ -786,6 +1474,7 @@ import { randomUUID } from 'crypto';
                 conn.release();
                 logger.debug('Database connection released');
             }
+            await this.releaseBookingLocks(lock);
         }
     }
 
@@ -801,12 +1490,14 @@ import { randomUUID } from 'crypto';
      * @param token - Token zur Verifizierung
      * @param reason - Optional: Grund für die Stornierung
      * @param bypassPolicy - Optional: Für Admin-Stornierungen (ignoriert Stornierungsfrist)
+     * @param emailOptions - Optional: Serien-Stornierung (Sammel-Mail bzw. keine Mail)
      * @returns Die stornierte Buchung
      */
     static async cancelBooking(
         token: string,
         reason?: string,
-        bypassPolicy: boolean = false  // Für Admin-Stornierungen
+        bypassPolicy: boolean = false,  // Für Admin-Stornierungen
+        emailOptions?: SeriesEmailOptions
     ): Promise<Booking>
     {
         logger.info(`Cancelling booking ${token.substring(0, 8)}...` ,{ reason, bypassPolicy });
@@ -818,12 +1509,12 @@ import { randomUUID } from 'crypto';
             
             // SCHRITT 1: Hole Buchung MIT Venue-Daten (für cancellation_hours)
             const bookings = await conn.query(`
-                SELECT b.*, v.cancellation_hours
+                SELECT b.*, v.cancellation_hours, v.timezone
                 FROM bookings b
                 JOIN venues v ON b.venue_id = v.id
                 WHERE b.booking_token = ?`,
                 [token]
-            ) as Array<Booking & { cancellation_hours: number }>;
+            ) as Array<Booking & { cancellation_hours: number; timezone: string }>;
 
             if (bookings.length === 0)
             {
@@ -851,9 +1542,8 @@ import { randomUUID } from 'crypto';
             // SCHRITT 3: Prüfe Stornierungsfrist (außer bei Admin-Bypass)
             if (!bypassPolicy)
             {
-                const bookingDateTime = new Date(`${booking.booking_date}T${booking.start_time}`);
-                const now = new Date();
-                const hoursUntilBooking = (bookingDateTime.getTime() - now.getTime()) / (1000 * 60 * 60);
+                // Stunden bis zum Termin in Ortszeit des Venues
+                const hoursUntilBooking = hoursUntil(booking.booking_date, booking.start_time, booking.timezone);
 
                 if (hoursUntilBooking < booking.cancellation_hours)
                 {
@@ -880,6 +1570,7 @@ import { randomUUID } from 'crypto';
             );
 
             logger.info('Booking cancelled successfully');
+            AvailabilityService.invalidateCache(booking.venue_id);
 
             // Audit: Kunde hat über Manage-Link storniert (kein Token speichern)
             await logBookingAction({
@@ -904,7 +1595,7 @@ import { randomUUID } from 'crypto';
 
             // Stornierungsmail an Kunden (gemäß Doku 1.5)
             try {
-                const withDetails = await this.getBookingByIdWithDetails(booking.id);
+                const withDetails = emailOptions?.skipEmail ? null : await this.getBookingByIdWithDetails(booking.id);
                 if (withDetails) {
                     const { sendCancellation } = await import('./email.service');
                     await sendCancellation({
@@ -919,12 +1610,23 @@ import { randomUUID } from 'crypto';
                         service_name: withDetails.service_name,
                         staff_member_name: withDetails.staff_member_name,
                         booking_token: withDetails.booking_token,
+                        items: withDetails.items,
+                        total_amount: withDetails.total_amount,
+                        series_dates: emailOptions?.seriesDates,
                     });
                 }
             } catch (emailErr) {
                 logger.error('Email after cancel failed (booking already cancelled)', emailErr);
             }
 
+            // Warteliste: frei gewordenen Termin den wartenden Kunden anbieten
+            try {
+                const { WaitlistService } = await import('./waitlist.service');
+                await WaitlistService.offerForCancelledBooking(booking.id);
+            } catch (waitlistErr) {
+                logger.error('Waitlist offer after cancel failed (booking already cancelled)', waitlistErr);
+            }
+
             return cancelledBooking;
         } 
         catch (error) 
@@ -989,6 +1691,7 @@ import { randomUUID } from 'crypto';
             // confirmation_sent_at wird vom E-Mail-Service nach Versand der Bestätigungsmail gesetzt
 
             logger.info(`Booking confirmed`);
+            AvailabilityService.invalidateCache(booking.venue_id);
 
             const confirmedBooking = await this.getBookingById(bookingId);
 
@@ -1015,6 +1718,8 @@ import { randomUUID } from 'crypto';
                             service_name: withDetails.service_name,
                             staff_member_name: withDetails.staff_member_name,
                             booking_token: withDetails.booking_token,
+                            items: withDetails.items,
+                            total_amount: withDetails.total_amount,
                         },
                         booking.status === 'cancelled'
                     );
@@ -1076,6 +1781,7 @@ import { randomUUID } from 'crypto';
             );
 
             logger.info('Booking deleted permanently');
+            AvailabilityService.invalidateCache(booking.venue_id);
         } 
         catch (error) 
         {
@@ -0,0 +1,274 @@
+/**
+ * Calendar Feed Service
+ * Abonnierbare iCalendar-Feeds (ICS) je Venue und je Mitarbeiter. Der Feed ist nur über einen geheimen Token in der
+ * URL erreichbar; Kalender-Apps rufen ihn regelmäßig neu ab, Änderungen an Buchungen erscheinen so beim nächsten Abruf.
+ * Enthalten sind offene und bestätigte Buchungen; Zeiten werden als UTC ausgegeben (Ortszeit des Venues umgerechnet).
+ */
+
+import { randomUUID } from 'crypto';
+import { getConnection } from '../config/database';
+import { CalendarFeed } from '../config/utils/types';
+import { addDaysToDate, getEndDate, getZonedToday, resolveTimeZone, zonedTimeToUtc } from '../config/utils/timezone';
+
+/** Wie weit vergangene Termine noch im Feed stehen */
+const FEED_PAST_DAYS = 30;
+
+/** Empfohlenes Abrufintervall für Kalender-Apps */
+const FEED_REFRESH = 'PT15M';
+
+export type CalendarFeedKind = 'venue' | 'staff';
+
+interface FeedEvent {
+    id: number;
+    position: number | null;
+    booking_date: string;
+    start_time: string;
+    end_time: string;
+    day_shift: number;
+    status: 'pending' | 'confirmed';
+    party_size: number;
+    customer_name: string;
+    customer_phone: string | null;
+    special_requests: string | null;
+    service_name: string;
+    staff_member_name: string | null;
+}
+
+/**
+ * Escaping für TEXT-Werte nach RFC 5545: Zeilenumbrüche jeder Art (CRLF, LF, einzelnes CR) werden zu \n,
+ * übrige Steuerzeichen (außer Tab) entfernt. Lange Zeilen faltet buildCalendar anschließend mit foldLine.
+ */
+function escapeText(value: string): string {
+    return value
+        .replace(/\\/g, '\\\\')
+        .replace(/;/g, '\\;')
+        .replace(/,/g, '\\,')
+        .replace(/\r\n|\r|\n/g, '\\n')
+        .replace(/[\x00-\x08\x0b-\x1f\x7f]/g, '');
+}
+
+/** Faltet eine Zeile nach 75 Oktetten (Folgezeilen beginnen mit einem Leerzeichen), ohne UTF-8-Zeichen zu trennen */
+function foldLine(line: string): string {
+    const parts: string[] = [];
+    let current = '';
+    let bytes = 0;
+    for (const char of line) {
+        const size = Buffer.byteLength(char, 'utf8');
+        if (bytes + size > 75) {
+            parts.push(current);
+            current = ' ';
+            bytes = 1;
+        }
+        current += char;
+        bytes += size;
+    }
+    parts.push(current);
+    return parts.join('\r\n');
+}
+
+/** Zeitpunkt im ICS-Format (UTC), z. B. 20250307T180000Z */
+function formatUtc(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function buildEvent(event: FeedEvent, timeZone: string, dtStamp: string): string[] {
+    const startDate = event.day_shift ? addDaysToDate(event.booking_date, 1) : event.booking_date;
+    const endDate = getEndDate(startDate, event.start_time, event.end_time);
+    const start = zonedTimeToUtc(startDate, event.start_time, timeZone);
+    const end = zonedTimeToUtc(endDate, event.end_time, timeZone);
+
+    const summary = `${event.service_name} – ${event.customer_name}${event.party_size > 1 ? ` (${event.party_size} Pers.)` : ''}`;
+    const description = [
+        event.staff_member_name ? `Mitarbeiter: ${event.staff_member_name}` : null,
+        `Personen: ${event.party_size}`,
+        event.customer_phone ? `Telefon: ${event.customer_phone}` : null,
+        event.special_requests ? `Wünsche: ${event.special_requests}` : null,
+        event.status === 'pending' ? 'Status: offen (noch nicht bestätigt)' : 'Status: bestätigt',
+    ].filter((line): line is string => line !== null).join('\n');
+
+    return [
+        'BEGIN:VEVENT',
+        `UID:booking-${event.id}${event.position != null ? `-${event.position}` : ''}@easyseat`,
+        `DTSTAMP:${dtStamp}`,
+        `DTSTART:${formatUtc(start)}`,
+        `DTEND:${formatUtc(end)}`,
+        `SUMMARY:${escapeText(summary)}`,
+        `DESCRIPTION:${escapeText(description)}`,
+        `STATUS:${event.status === 'pending' ? 'TENTATIVE' : 'CONFIRMED'}`,
+        'END:VEVENT',
+    ];
+}
+
+function buildCalendar(name: string, timeZone: string, events: FeedEvent[]): string {
+    const dtStamp = formatUtc(new Date());
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//easyseat//Buchungen//DE',
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapeText(name)}`,
+        `X-WR-TIMEZONE:${timeZone}`,
+        `REFRESH-INTERVAL;VALUE=DURATION:${FEED_REFRESH}`,
+        `X-PUBLISHED-TTL:${FEED_REFRESH}`,
+        ...events.flatMap((event) => buildEvent(event, timeZone, dtStamp)),
+        'END:VCALENDAR',
+    ];
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+export class CalendarFeedService {
+    /**
+     * Feeds eines Venues: einer für das ganze Venue und einer je Mitarbeiter.
+     * Fehlende Tokens werden beim ersten Abruf angelegt.
+     */
+    static async getFeeds(venueId: number): Promise<CalendarFeed[]> {
+        let conn;
+        try {
+            conn = await getConnection();
+            const staff = await conn.query(
+                'SELECT id, name FROM staff_members WHERE venue_id = ? ORDER BY name',
+                [venueId]
+            ) as { id: number; name: string }[];
+            const rows = await conn.query(
+                'SELECT staff_member_id, token FROM calendar_feeds WHERE venue_id = ? ORDER BY id',
+                [venueId]
+            ) as { staff_member_id: number | null; token: string }[];
+
+            const tokens = new Map<number | null, string>();
+            for (const row of rows) {
+                if (!tokens.has(row.staff_member_id)) tokens.set(row.staff_member_id, row.token);
+            }
+
+            const feeds: CalendarFeed[] = [];
+            for (const owner of [{ id: null, name: null }, ...staff]) {
+                let token = tokens.get(owner.id);
+                if (!token) {
+                    token = randomUUID();
+                    await conn.query(
+                        'INSERT INTO calendar_feeds (venue_id, staff_member_id, token) VALUES (?, ?, ?)',
+                        [venueId, owner.id, token]
+                    );
+                }
+                feeds.push({ staff_member_id: owner.id, staff_member_name: owner.name, token });
+            }
+            return feeds;
+        } finally {
+            if (conn) conn.release();
+        }
+    }
+
+    /**
+     * Erzeugt einen neuen Token für den Venue-Feed (staffMemberId null) bzw. den Feed eines Mitarbeiters.
+     * Die bisherige URL liefert danach 404.
+     */
+    static async regenerateToken(venueId: number, staffMemberId: number | null): Promise<CalendarFeed> {
+        let conn;
+        try {
+            conn = await getConnection();
+            let staffName: string | null = null;
+            if (staffMemberId !== null) {
+                const staff = await conn.query(
+                    'SELECT name FROM staff_members WHERE id = ? AND venue_id = ?',
+                    [staffMemberId, venueId]
+                ) as { name: string }[];
+                if (staff.length === 0) throw new Error('Mitarbeiter nicht gefunden');
+                staffName = staff[0].name;
+            }
+
+            const token = randomUUID();
+            await conn.beginTransaction();
+            try {
+                await conn.query(
+                    'DELETE FROM calendar_feeds WHERE venue_id = ? AND staff_member_id <=> ?',
+                    [venueId, staffMemberId]
+                );
+                await conn.query(
+                    'INSERT INTO calendar_feeds (venue_id, staff_member_id, token) VALUES (?, ?, ?)',
+                    [venueId, staffMemberId, token]
+                );
+                await conn.commit();
+            } catch (error) {
+                await conn.rollback();
+                throw error;
+            }
+            return { staff_member_id: staffMemberId, staff_member_name: staffName, token };
+        } finally {
+            if (conn) conn.release();
+        }
+    }
+
+    /**
+     * ICS-Inhalt zu einem Feed-Token; null, wenn der Token unbekannt ist oder nicht zur Art des Feeds passt.
+     * Venue-Feed: eine Veranstaltung je Buchung (mehrere Leistungen zusammengefasst).
+     * Mitarbeiter-Feed: nur die Schritte, die der Mitarbeiter selbst ausführt.
+     */
+    static async getCalendar(token: string, kind: CalendarFeedKind): Promise<string | null> {
+        let conn;
+        try {
+            conn = await getConnection();
+            const feeds = await conn.query(
+                `SELECT cf.venue_id, cf.staff_member_id, v.name AS venue_name, v.timezone, sm.name AS staff_member_name
+                 FROM calendar_feeds cf
+                 JOIN venues v ON cf.venue_id = v.id
+                 LEFT JOIN staff_members sm ON cf.staff_member_id = sm.id
+                 WHERE cf.token = ?`,
+                [token]
+            ) as { venue_id: number; staff_member_id: number | null; venue_name: string; timezone: string; staff_member_name: string | null }[];
+            if (feeds.length === 0) return null;
+            const feed = feeds[0];
+            if ((kind === 'staff') !== (feed.staff_member_id !== null)) return null;
+
+            const timeZone = resolveTimeZone(feed.timezone);
+            const fromDate = addDaysToDate(getZonedToday(timeZone), -FEED_PAST_DAYS);
+
+            let events: FeedEvent[];
+            if (feed.staff_member_id === null) {
+                events = await conn.query(
+                    `SELECT b.id, NULL AS position, b.booking_date, b.start_time, b.end_time, 0 AS day_shift, b.status,
+                        b.party_size, b.customer_name, b.customer_phone, b.special_requests,
+                        COALESCE(
+                            (SELECT GROUP_CONCAT(s2.name ORDER BY bi.position SEPARATOR ' + ')
+                             FROM booking_items bi JOIN services s2 ON bi.service_id = s2.id
+                             WHERE bi.booking_id = b.id),
+                            s.name
+                        ) AS service_name,
+                        sm.name AS staff_member_name
+                     FROM bookings b
+                     JOIN services s ON b.service_id = s.id
+                     LEFT JOIN staff_members sm ON b.staff_member_id = sm.id
+                     WHERE b.venue_id = ? AND b.status IN ('pending', 'confirmed') AND b.booking_date >= ?
+                     ORDER BY b.booking_date, b.start_time`,
+                    [feed.venue_id, fromDate]
+                ) as FeedEvent[];
+            } else {
+                events = await conn.query(
+                    `SELECT seg.*, s.name AS service_name, ? AS staff_member_name
+                     FROM (
+                        SELECT b.id, NULL AS position, b.booking_date, b.start_time, b.end_time, 0 AS day_shift, b.status,
+                            b.party_size, b.customer_name, b.customer_phone, b.special_requests, b.service_id
+                        FROM bookings b
+                        WHERE b.staff_member_id = ?
+                            AND NOT EXISTS (SELECT 1 FROM booking_items bi WHERE bi.booking_id = b.id)
+                        UNION ALL
+                        SELECT b.id, bi.position, b.booking_date, bi.start_time, bi.end_time,
+                            IF(bi.start_time < b.start_time, 1, 0) AS day_shift, b.status,
+                            b.party_size, b.customer_name, b.customer_phone, b.special_requests, bi.service_id
+                        FROM bookings b
+                        JOIN booking_items bi ON bi.booking_id = b.id
+                        WHERE bi.staff_member_id = ?
+                     ) seg
+                     JOIN services s ON seg.service_id = s.id
+                     WHERE seg.status IN ('pending', 'confirmed') AND seg.booking_date >= ?
+                     ORDER BY seg.booking_date, seg.day_shift, seg.start_time`,
+                    [feed.staff_member_name, feed.staff_member_id, feed.staff_member_id, fromDate]
+                ) as FeedEvent[];
+            }
+
+            const name = feed.staff_member_name ? `${feed.venue_name} – ${feed.staff_member_name}` : feed.venue_name;
+            return buildCalendar(name, timeZone, events);
+        } finally {
+            if (conn) conn.release();
+        }
+    }
+}
@@ -7,6 +7,7 @@
 import nodemailer, { Transporter } from 'nodemailer';
 import { createLogger } from '../config/utils/logger';
 import { getConnection } from '../config/database';
+import type { BookingItem } from '../config/utils/types';
 
 const logger = createLogger('email.service');
 
@@ -23,6 +24,9 @@ export interface BookingForEmail {
   service_name?: string | null;
   staff_member_name?: string | null;
   booking_token?: string | null;
+  items?: BookingItem[];          // nur bei mehreren Leistungen
+  total_amount?: number | null;
+  series_dates?: string[];        // nur bei Terminserien: weitere Termine (YYYY-MM-DD)
 }
 
 const MAIL_FROM = process.env.MAIL_FROM || process.env.SMTP_USER || 'noreply@easyseat.local';
@@ -193,9 +197,59 @@ function notesBlock(booking: BookingForEmail): { html: string; text: string } {
   };
 }
 
+function formatPrice(amount: number | string): string {
+  return Number(amount).toLocaleString('de-DE', { style: 'currency', currency: 'EUR' });
+}
+
+/** Service-Bezeichnung; bei mehreren Leistungen z. B. „Schnitt + Farbe + Föhnen“. */
+function serviceLabel(booking: BookingForEmail): string {
+  if (booking.items && booking.items.length > 0) {
+    return booking.items.map((item) => item.service_name || 'Leistung').join(' + ');
+  }
+  return booking.service_name || 'Ihre Buchung';
+}
+
+/** Ablauf bei mehreren Leistungen: je Leistung Zeit, Mitarbeiter und Preis, dazu der Gesamtpreis. */
+function itemsBlock(booking: BookingForEmail): { html: string; text: string } {
+  if (!booking.items || booking.items.length === 0) return { html: '', text: '' };
+  const line = (item: BookingItem) =>
+    `${item.start_time}–${item.end_time} ${item.service_name || 'Leistung'}` +
+    (item.staff_member_name ? ` (${item.staff_member_name})` : '') +
+    (item.price != null ? ` · ${formatPrice(item.price)}` : '');
+  const total = booking.total_amount != null ? `Gesamt: ${formatPrice(booking.total_amount)}` : '';
+  return {
+    html: `
+    <tr>
+      <td style="padding-top: 16px;">
+        <p style="margin: 0; font-size: 12px; font-weight: 700; text-transform: uppercase; letter-spacing: 0.05em; color: ${EMAIL_STYLE.muted};">Ablauf</p>
+        ${booking.items.map((item) => `<p style="margin: 4px 0 0 0; font-size: 15px; color: ${EMAIL_STYLE.text};">${line(item).replace(/</g, '&lt;')}</p>`).join('\n        ')}
+        ${total ? `<p style="margin: 8px 0 0 0; font-size: 15px; font-weight: 700; color: ${EMAIL_STYLE.text};">${total}</p>` : ''}
+      </td>
+    </tr>`,
+    text: `\n${booking.items.map(line).join('\n')}${total ? `\n${total}` : ''}`,
+  };
+}
+
+/** Weitere Termine einer Serie (Anlage oder Stornierung mehrerer Termine auf einmal). */
+function seriesBlock(booking: BookingForEmail): { html: string; text: string } {
+  if (!booking.series_dates || booking.series_dates.length === 0) return { html: '', text: '' };
+  const label = `Weitere Termine der Serie (${booking.start_time} – ${booking.end_time} Uhr)`;
+  return {
+    html: `
+    <tr>
+      <td style="padding-top: 16px;">
+        <p style="margin: 0; font-size: 12px; font-weight: 700; text-transform: uppercase; letter-spacing: 0.05em; color: ${EMAIL_STYLE.muted};">${label}</p>
+        ${booking.series_dates.map((d) => `<p style="margin: 4px 0 0 0; font-size: 15px; color: ${EMAIL_STYLE.text};">${formatDate(d)}</p>`).join('\n        ')}
+      </td>
+    </tr>`,
+    text: `\n${label}:\n${booking.series_dates.map(formatDate).join('\n')}`,
+  };
+}
+
 /** Buchungsdetails als moderne Info-Box. */
 function bookingDetailsBlock(booking: BookingForEmail): string {
-  const staff = booking.staff_member_name
+  const items = itemsBlock(booking).html;
+  const staff = booking.staff_member_name && !items
     ? `
     <tr>
       <td style="padding-top: 12px; border-top: 1px solid ${EMAIL_STYLE.border}; margin-top: 12px;">
@@ -213,7 +267,7 @@ function bookingDetailsBlock(booking: BookingForEmail): string {
           <tr>
             <td style="padding-bottom: 8px;">
               <p style="margin: 0; font-size: 12px; font-weight: 700; text-transform: uppercase; letter-spacing: 0.05em; color: ${EMAIL_STYLE.muted};">Service</p>
-              <p style="margin: 4px 0 0 0; font-size: 18px; font-weight: 700; color: ${EMAIL_STYLE.text}; line-height: 1.3;">${(booking.service_name || 'Ihre Buchung').replace(/</g, '&lt;')}</p>
+              <p style="margin: 4px 0 0 0; font-size: 18px; font-weight: 700; color: ${EMAIL_STYLE.text}; line-height: 1.3;">${serviceLabel(booking).replace(/</g, '&lt;')}</p>
             </td>
           </tr>
           <tr>
@@ -223,7 +277,9 @@ function bookingDetailsBlock(booking: BookingForEmail): string {
               <p style="margin: 0; font-size: 16px; color: ${EMAIL_STYLE.text};">${booking.start_time} – ${booking.end_time} Uhr</p>
             </td>
           </tr>
+          ${items}
           ${staff}
+          ${seriesBlock(booking).html}
         </table>
       </td>
     </tr>
@@ -265,7 +321,7 @@ export async function setReminderSentAt(bookingId: number): Promise<void> {
  */
 export async function sendBookingReceived(booking: BookingForEmail): Promise<boolean> {
   const venueName = booking.venue_name || 'Unser Betrieb';
-  const serviceName = booking.service_name || 'Ihre Buchung';
+  const serviceName = serviceLabel(booking);
   const subject = `Vielen Dank für Ihre Buchung bei ${venueName}`;
 
   const bodyContent = `
@@ -284,7 +340,8 @@ export async function sendBookingReceived(booking: BookingForEmail): Promise<boo
   });
 
   const notesT = notesBlock(booking).text;
-  const text = `Hallo ${booking.customer_name},\n\nVielen Dank für Ihre Buchung. Wir haben Ihre Anfrage erhalten und prüfen sie. Sie erhalten in Kürze eine Bestätigung, sobald Ihr Termin freigegeben ist.\n\n${serviceName}\n${formatDate(booking.booking_date)} · ${booking.start_time}–${booking.end_time} Uhr${booking.staff_member_name ? `\nAnsprechpartner: ${booking.staff_member_name}` : ''}${notesT}\nBuchung verwalten: ${manageLink(booking)}\n\nMit freundlichen Grüßen\n${venueName}`;
+  const itemsT = itemsBlock(booking).text;
+  const text = `Hallo ${booking.customer_name},\n\nVielen Dank für Ihre Buchung. Wir haben Ihre Anfrage erhalten und prüfen sie. Sie erhalten in Kürze eine Bestätigung, sobald Ihr Termin freigegeben ist.\n\n${serviceName}\n${formatDate(booking.booking_date)} · ${booking.start_time}–${booking.end_time} Uhr${itemsT || (booking.staff_member_name ? `\nAnsprechpartner: ${booking.staff_member_name}` : '')}${seriesBlock(booking).text}${notesT}\nBuchung verwalten: ${manageLink(booking)}\n\nMit freundlichen Grüßen\n${venueName}`;
 
   return sendMail({
     to: booking.customer_email,
@@ -305,7 +362,7 @@ export async function sendConfirmation(
   isReactivation = false
 ): Promise<boolean> {
   const venueName = booking.venue_name || 'Unser Betrieb';
-  const serviceName = booking.service_name || 'Ihre Buchung';
+  const serviceName = serviceLabel(booking);
   const subject = isReactivation
     ? `Ihre Buchung bei ${venueName} ist wieder bestätigt`
     : `Ihre Buchung bei ${venueName} ist bestätigt`;
@@ -330,7 +387,8 @@ export async function sendConfirmation(
   });
 
   const notesT = notesBlock(booking).text;
-  const text = `Hallo ${booking.customer_name},\n\n${intro}\n\n${serviceName}\n${formatDate(booking.booking_date)} · ${booking.start_time}–${booking.end_time} Uhr${booking.staff_member_name ? `\nAnsprechpartner: ${booking.staff_member_name}` : ''}${notesT}\nBuchung verwalten: ${manageLink(booking)}\n\nMit freundlichen Grüßen\n${venueName}`;
+  const itemsT = itemsBlock(booking).text;
+  const text = `Hallo ${booking.customer_name},\n\n${intro}\n\n${serviceName}\n${formatDate(booking.booking_date)} · ${booking.start_time}–${booking.end_time} Uhr${itemsT || (booking.staff_member_name ? `\nAnsprechpartner: ${booking.staff_member_name}` : '')}${notesT}\nBuchung verwalten: ${manageLink(booking)}\n\nMit freundlichen Grüßen\n${venueName}`;
 
   return sendMail({
     to: booking.customer_email,
@@ -348,7 +406,7 @@ export async function sendConfirmation(
  */
 export async function sendCancellation(booking: BookingForEmail): Promise<boolean> {
   const venueName = booking.venue_name || 'Unser Betrieb';
-  const serviceName = booking.service_name || 'Ihre Buchung';
+  const serviceName = serviceLabel(booking);
   const subject = `Ihre Buchung bei ${venueName} wurde storniert`;
 
   const bodyContent = `
@@ -366,7 +424,8 @@ export async function sendCancellation(booking: BookingForEmail): Promise<boolea
   });
 
   const notesT = notesBlock(booking).text;
-  const text = `Hallo ${booking.customer_name},\n\nIhre folgende Buchung wurde storniert:\n\n${serviceName}\n${formatDate(booking.booking_date)} · ${booking.start_time}–${booking.end_time} Uhr${notesT}\nBei Fragen wenden Sie sich bitte an ${venueName}.\n\nMit freundlichen Grüßen\n${venueName}`;
+  const itemsT = itemsBlock(booking).text;
+  const text = `Hallo ${booking.customer_name},\n\nIhre folgende Buchung wurde storniert:\n\n${serviceName}\n${formatDate(booking.booking_date)} · ${booking.start_time}–${booking.end_time} Uhr${itemsT}${seriesBlock(booking).text}${notesT}\nBei Fragen wenden Sie sich bitte an ${venueName}.\n\nMit freundlichen Grüßen\n${venueName}`;
 
   return sendMail({
     to: booking.customer_email,
@@ -383,7 +442,7 @@ export async function sendCancellation(booking: BookingForEmail): Promise<boolea
  */
 export async function sendReminder(booking: BookingForEmail): Promise<boolean> {
   const venueName = booking.venue_name || 'Unser Betrieb';
-  const serviceName = booking.service_name || 'Ihre Buchung';
+  const serviceName = serviceLabel(booking);
   const subject = `Erinnerung: Ihr Termin bei ${venueName} morgen`;
 
   const bodyContent = `
@@ -402,7 +461,8 @@ export async function sendReminder(booking: BookingForEmail): Promise<boolean> {
   });
 
   const notesT = notesBlock(booking).text;
-  const text = `Hallo ${booking.customer_name},\n\nWir erinnern Sie an Ihren Termin:\n\n${serviceName}\n${formatDate(booking.booking_date)} · ${booking.start_time}–${booking.end_time} Uhr${booking.staff_member_name ? `\nAnsprechpartner: ${booking.staff_member_name}` : ''}${notesT}\nBuchung ansehen oder ändern: ${manageLink(booking)}\n\nMit freundlichen Grüßen\n${venueName}`;
+  const itemsT = itemsBlock(booking).text;
+  const text = `Hallo ${booking.customer_name},\n\nWir erinnern Sie an Ihren Termin:\n\n${serviceName}\n${formatDate(booking.booking_date)} · ${booking.start_time}–${booking.end_time} Uhr${itemsT || (booking.staff_member_name ? `\nAnsprechpartner: ${booking.staff_member_name}` : '')}${notesT}\nBuchung ansehen oder ändern: ${manageLink(booking)}\n\nMit freundlichen Grüßen\n${venueName}`;
 
   return sendMail({
     to: booking.customer_email,
@@ -449,6 +509,88 @@ export async function sendReviewInvitation(booking: BookingForEmail, venueId: nu
   });
 }
 
+/** Daten für die Angebots-Mail an einen Wartelisten-Eintrag */
+export interface WaitlistOfferForEmail {
+  customer_name: string;
+  customer_email: string;
+  venue_name?: string | null;
+  service_name?: string | null;
+  date: string;
+  start_time: string;
+  end_time: string;
+  claim_token: string;
+  offer_expires_at: Date;
+}
+
+/**
+ * Warteliste: ein Termin ist frei geworden – Kunde kann ihn über den Link bis zum Ablauf des Angebots einlösen.
+ */
+export async function sendWaitlistOffer(offer: WaitlistOfferForEmail): Promise<boolean> {
+  const venueName = offer.venue_name || 'Unser Betrieb';
+  const serviceName = offer.service_name || 'Ihr Termin';
+  const claimUrl = `${PUBLIC_APP_URL.replace(/\/$/, '')}/waitlist/claim/${encodeURIComponent(offer.claim_token)}`;
+  const expires = offer.offer_expires_at.toLocaleString('de-DE', { day: 'numeric', month: 'long', hour: '2-digit', minute: '2-digit' });
+  const subject = `Ein Termin bei ${venueName} ist frei geworden`;
+
+  const bodyContent = `
+  <h1 style="margin: 0 0 24px 0; font-size: 24px; font-weight: 700; color: ${EMAIL_STYLE.text}; letter-spacing: -0.5px;">Termin frei geworden</h1>
+  <p style="margin: 0 0 24px 0; font-size: 16px; color: ${EMAIL_STYLE.textSoft};">Hallo ${offer.customer_name.replace(/</g, '&lt;')},</p>
+  <p style="margin: 0 0 24px 0; font-size: 16px; color: ${EMAIL_STYLE.textSoft};">Sie stehen auf der Warteliste – jetzt ist ein passender Termin frei geworden. Wir halten ihn bis <strong>${expires} Uhr</strong> für Sie.</p>
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="margin: 32px 0; background-color: #f9fafb; border-radius: 12px; overflow: hidden;">
+    <tr>
+      <td style="padding: 24px;">
+        <p style="margin: 0; font-size: 18px; font-weight: 700; color: ${EMAIL_STYLE.text};">${serviceName.replace(/</g, '&lt;')}</p>
+        <p style="margin: 4px 0 0 0; font-size: 16px; color: ${EMAIL_STYLE.text};">${formatDate(offer.date)}</p>
+        <p style="margin: 0; font-size: 16px; color: ${EMAIL_STYLE.text};">${offer.start_time} – ${offer.end_time} Uhr</p>
+      </td>
+    </tr>
+  </table>
+  <p style="margin: 24px 0 0 0; font-size: 14px; color: ${EMAIL_STYLE.muted};">Danach wird der Termin der nächsten Person auf der Warteliste angeboten.</p>`;
+
+  const html = emailLayout({
+    title: 'Termin frei geworden',
+    bodyContent,
+    cta: { text: 'Termin jetzt sichern', url: claimUrl },
+    preheader: `Ein Termin bei ${venueName} ist frei geworden.`,
+  });
+  const text = `Hallo ${offer.customer_name},\n\nSie stehen auf der Warteliste – jetzt ist ein passender Termin frei geworden:\n\n${serviceName}\n${formatDate(offer.date)} · ${offer.start_time}–${offer.end_time} Uhr\n\nTermin sichern (gültig bis ${expires} Uhr): ${claimUrl}\n\nMit freundlichen Grüßen\n${venueName}`;
+  return sendCustomerMail(offer.customer_email, subject, html, text);
+}
+
+export interface GroupRequestForEmail {
+  customer_name: string;
+  customer_email: string;
+  venue_name?: string | null;
+  preferred_date: string;
+  party_size: number;
+  decline_reason?: string | null;
+}
+
+/**
+ * Absage einer Gruppenanfrage (über der Online-Höchstzahl) durch den Betrieb.
+ * Bei Annahme erhält der Kunde stattdessen die normale Buchungsbestätigung.
+ */
+export async function sendGroupRequestDeclined(request: GroupRequestForEmail): Promise<boolean> {
+  const venueName = request.venue_name || 'Unser Betrieb';
+  const subject = `Ihre Gruppenanfrage bei ${venueName}`;
+  const reason = request.decline_reason?.trim();
+
+  const bodyContent = `
+  <h1 style="margin: 0 0 24px 0; font-size: 24px; font-weight: 700; color: ${EMAIL_STYLE.text}; letter-spacing: -0.5px;">Gruppenanfrage</h1>
+  <p style="margin: 0 0 24px 0; font-size: 16px; color: ${EMAIL_STYLE.textSoft};">Hallo ${request.customer_name.replace(/</g, '&lt;')},</p>
+  <p style="margin: 0 0 24px 0; font-size: 16px; color: ${EMAIL_STYLE.textSoft};">vielen Dank für Ihre Anfrage für <strong>${request.party_size} Personen</strong> am <strong>${formatDate(request.preferred_date)}</strong>. Leider können wir sie nicht annehmen.</p>${reason ? `
+  <p style="margin: 0 0 24px 0; font-size: 16px; color: ${EMAIL_STYLE.textSoft};">${reason.replace(/</g, '&lt;')}</p>` : ''}
+  <p style="margin: 24px 0 0 0; font-size: 14px; color: ${EMAIL_STYLE.muted};">Gerne können Sie eine Anfrage für einen anderen Tag senden.</p>`;
+
+  const html = emailLayout({
+    title: 'Gruppenanfrage',
+    bodyContent,
+    preheader: `Ihre Gruppenanfrage bei ${venueName}`,
+  });
+  const text = `Hallo ${request.customer_name},\n\nvielen Dank für Ihre Anfrage für ${request.party_size} Personen am ${formatDate(request.preferred_date)}. Leider können wir sie nicht annehmen.${reason ? `\n\n${reason}` : ''}\n\nGerne können Sie eine Anfrage für einen anderen Tag senden.\n\nMit freundlichen Grüßen\n${venueName}`;
+  return sendCustomerMail(request.customer_email, subject, html, text);
+}
+
 interface SendMailOptions {
   to: string;
   subject: string;
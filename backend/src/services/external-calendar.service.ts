@@ -0,0 +1,653 @@
+/**
+ * External Calendar Service
+ * Belegte Zeiten aus externen Kalendern (ICS) der Mitarbeiter, z. B. einer zweiten Arbeitsstelle. Der Owner lädt je
+ * Mitarbeiter eine ICS-Datei hoch oder hinterlegt eine Feed-URL; die Termine werden als staff_busy_times gespeichert und
+ * blockieren den Mitarbeiter wie eine Abwesenheit (siehe STAFF_OVERRIDES in availability.service).
+ * Kalender mit URL liest der Cron regelmäßig neu ein.
+ */
+
+import dns from 'dns';
+import https from 'https';
+import { isIP, isIPv4, LookupFunction } from 'net';
+import { getConnection } from '../config/database';
+import { createLogger } from '../config/utils/logger';
+import { ExternalCalendar, StaffScheduleConflict } from '../config/utils/types';
+import { addDaysToDate, getDayOfWeek, getDaysBetween, getZonedDateTime, getZonedToday, isValidTimeZone, resolveTimeZone, zonedTimeToUtc } from '../config/utils/timezone';
+import { AvailabilityService } from './availability.service';
+
+const logger = createLogger('external-calendar.service');
+
+/** Wie weit in die Zukunft Termine eingelesen werden (Tage ab heute) */
+const IMPORT_DAYS = 365;
+
+/** Obergrenzen je Kalender: Dateigröße, gespeicherte Zeiträume, Schritte beim Auflösen einer Wiederholung */
+const MAX_ICS_BYTES = 2 * 1024 * 1024;
+const MAX_BUSY_TIMES = 5000;
+const MAX_RULE_STEPS = 5000;
+
+const FETCH_TIMEOUT_MS = 15000;
+const MAX_REDIRECTS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+export interface ExternalCalendarInput {
+    staff_member_id: number;
+    name: string;
+    url?: string | null;
+    content?: string;
+}
+
+/** Eingelesener Kalender + offene Termine, die nun mit einem externen Termin kollidieren (Warnung für den Owner) */
+export interface ExternalCalendarImportResult {
+    calendar: ExternalCalendar;
+    conflicts: StaffScheduleConflict[];
+}
+
+/** Belegter Zeitraum in Ortszeit des Venues, aufgebaut wie eine Abwesenheit (ohne Zeiten = ganztägig) */
+interface BusyTime {
+    start_date: string;
+    end_date: string;
+    start_time: string | null;
+    end_time: string | null;
+}
+
+interface IcsProperty {
+    name: string;
+    params: Record<string, string>;
+    value: string;
+}
+
+/** Datum/Zeit aus dem Kalender in der Ortszeit des Termins; time null = ganztägig */
+interface IcsDateValue {
+    date: string;
+    time: string | null;
+    timeZone: string;
+}
+
+const CALENDAR_SELECT = `
+    SELECT c.id, c.staff_member_id, sm.name AS staff_member_name, c.name, c.url, c.event_count, c.last_synced_at, c.last_error
+    FROM staff_external_calendars c
+    JOIN staff_members sm ON c.staff_member_id = sm.id`;
+
+/** Eine Inhaltszeile "NAME;PARAM=WERT:Wert" (Doppelpunkte in Anführungszeichen gehören zum Parameter) */
+function parseProperty(line: string): IcsProperty | null {
+    let inQuotes = false;
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (char === '"') inQuotes = !inQuotes;
+        else if (char === ':' && !inQuotes) {
+            const [name, ...paramParts] = line.slice(0, i).split(';');
+            const params: Record<string, string> = {};
+            for (const part of paramParts) {
+                const eq = part.indexOf('=');
+                if (eq > 0) params[part.slice(0, eq).toUpperCase()] = part.slice(eq + 1).replace(/^"|"$/g, '');
+            }
+            return { name: name.toUpperCase(), params, value: line.slice(i + 1).trim() };
+        }
+    }
+    return null;
+}
+
+/** Eigenschaften aller VEVENTs (ohne eingebettete Komponenten wie VALARM) */
+function parseEvents(content: string): IcsProperty[][] {
+    const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+    if (!lines.some(line => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+        throw new Error('Kalender: keine gültige ICS-Datei');
+    }
+
+    const events: IcsProperty[][] = [];
+    let current: IcsProperty[] | null = null;
+    let depth = 0;
+    for (const line of lines) {
+        const upper = line.trim().toUpperCase();
+        if (upper === 'BEGIN:VEVENT') {
+            current = [];
+            depth = 0;
+        } else if (!current) {
+            continue;
+        } else if (upper === 'END:VEVENT') {
+            events.push(current);
+            current = null;
+        } else if (upper.startsWith('BEGIN:')) {
+            depth++;
+        } else if (upper.startsWith('END:')) {
+            depth--;
+        } else if (depth === 0) {
+            const property = parseProperty(line);
+            if (property) current.push(property);
+        }
+    }
+    return events;
+}
+
+/** DTSTART/DTEND/EXDATE-Wert: UTC (…Z), mit TZID oder "floating" (= Zeitzone des Venues) */
+function parseDateValue(property: IcsProperty, value: string, defaultTimeZone: string): IcsDateValue | null {
+    const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z?))?$/.exec(value.trim());
+    if (!match) return null;
+    const date = `${match[1]}-${match[2]}-${match[3]}`;
+    if (!match[4] || property.params.VALUE === 'DATE') return { date, time: null, timeZone: defaultTimeZone };
+    const tzid = property.params.TZID;
+    const timeZone = match[7] ? 'UTC' : tzid && isValidTimeZone(tzid) ? tzid : defaultTimeZone;
+    return { date, time: `${match[4]}:${match[5]}:${match[6]}`, timeZone };
+}
+
+/** Vergleichsschlüssel eines Termins: Zeitpunkt (ms) bzw. bei ganztägigen Terminen das Datum */
+function occurrenceKey(value: IcsDateValue): string {
+    return value.time === null ? value.date : String(zonedTimeToUtc(value.date, value.time, value.timeZone).getTime());
+}
+
+/** DURATION wie "PT1H30M" oder "P1D" in Millisekunden; null bei ungültigem Wert */
+function parseDuration(value: string): number | null {
+    const match = /^\+?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+    if (!match) return null;
+    const [weeks, days, hours, minutes, seconds] = match.slice(1).map(part => parseInt(part ?? '0', 10));
+    return ((((weeks * 7 + days) * 24 + hours) * 60 + minutes) * 60 + seconds) * 1000;
+}
+
+function pad(value: number): string {
+    return String(value).padStart(2, '0');
+}
+
+/**
+ * Termindaten einer Wiederholung (RRULE) in der Ortszeit des Termins, aufsteigend und beginnend mit startDate.
+ * Unterstützt FREQ=DAILY/WEEKLY/MONTHLY/YEARLY mit INTERVAL und bei WEEKLY BYDAY; andere Regeln
+ * (z. B. "jeden 2. Dienstag im Monat") liefern nur den ersten Termin. skipTo überspringt Termine weit vor dem
+ * Importzeitraum (nur ohne COUNT, da dort jeder Termin mitzählt).
+ */
+function* ruleDates(startDate: string, rule: Record<string, string>, skipTo: string | null): Generator<string> {
+    yield startDate;
+
+    const interval = Math.max(1, parseInt(rule.INTERVAL ?? '1', 10) || 1);
+    const unsupported = ['BYMONTH', 'BYMONTHDAY', 'BYYEARDAY', 'BYWEEKNO', 'BYSETPOS', 'BYHOUR', 'BYMINUTE'].some(key => key in rule)
+        || (rule.BYDAY !== undefined && rule.FREQ !== 'WEEKLY');
+    if (unsupported) return;
+
+    if (rule.FREQ === 'DAILY') {
+        const first = skipTo ? Math.max(1, Math.floor(getDaysBetween(startDate, skipTo) / interval)) : 1;
+        for (let k = first; k < first + MAX_RULE_STEPS; k++) yield addDaysToDate(startDate, k * interval);
+    } else if (rule.FREQ === 'WEEKLY') {
+        const weekdays = rule.BYDAY
+            ? rule.BYDAY.split(',').map(day => WEEKDAYS.indexOf(day.slice(-2))).filter(day => day >= 0)
+            : [getDayOfWeek(startDate)];
+        // Wochen beginnen montags; Abstand der Wochentage zum Montag
+        const offsets = [...new Set(weekdays.map(day => (day + 6) % 7))].sort((a, b) => a - b);
+        const weekStart = addDaysToDate(startDate, -((getDayOfWeek(startDate) + 6) % 7));
+        const first = skipTo ? Math.max(0, Math.floor(getDaysBetween(weekStart, skipTo) / (7 * interval))) : 0;
+        for (let k = first; k < first + MAX_RULE_STEPS; k++) {
+            for (const offset of offsets) {
+                const date = addDaysToDate(weekStart, k * 7 * interval + offset);
+                if (date > startDate) yield date;
+            }
+        }
+    } else if (rule.FREQ === 'MONTHLY' || rule.FREQ === 'YEARLY') {
+        const [year, month, day] = startDate.split('-').map(Number);
+        const monthStep = rule.FREQ === 'MONTHLY' ? interval : 12 * interval;
+        for (let k = 1; k < MAX_RULE_STEPS; k++) {
+            const months = month - 1 + k * monthStep;
+            const date = `${year + Math.floor(months / 12)}-${pad(months % 12 + 1)}-${pad(day)}`;
+            // Monate ohne diesen Tag (z. B. 31. oder 29.02.) werden übersprungen
+            if (new Date(`${date}T00:00:00Z`).getUTCDate() === day) yield date;
+        }
+    }
+}
+
+/**
+ * Zerlegt einen belegten Zeitraum (Ortszeit) in Einträge wie bei Abwesenheiten:
+ * angebrochener erster Tag bis Mitternacht, volle Tage ganztägig, angebrochener letzter Tag ab Mitternacht.
+ */
+function splitBusyTime(startDate: string, startTime: string, endDate: string, endTime: string): BusyTime[] {
+    if (startDate === endDate) {
+        return startTime < endTime ? [{ start_date: startDate, end_date: endDate, start_time: startTime, end_time: endTime }] : [];
+    }
+
+    const result: BusyTime[] = [];
+    let firstFullDay = startDate;
+    if (startTime !== '00:00') {
+        result.push({ start_date: startDate, end_date: startDate, start_time: startTime, end_time: '00:00' });
+        firstFullDay = addDaysToDate(startDate, 1);
+    }
+    const lastFullDay = addDaysToDate(endDate, -1);
+    if (firstFullDay <= lastFullDay) {
+        result.push({ start_date: firstFullDay, end_date: lastFullDay, start_time: null, end_time: null });
+    }
+    if (endTime !== '00:00') {
+        result.push({ start_date: endDate, end_date: endDate, start_time: '00:00', end_time: endTime });
+    }
+    return result;
+}
+
+/**
+ * Belegte Zeiten eines Kalenders im Importzeitraum (heute bis IMPORT_DAYS) in Ortszeit des Venues.
+ * Übersprungen werden abgesagte (STATUS:CANCELLED) und als "frei" markierte Termine (TRANSP:TRANSPARENT);
+ * EXDATE und geänderte Einzeltermine (RECURRENCE-ID) einer Wiederholung werden berücksichtigt.
+ */
+function parseBusyTimes(content: string, timeZone: string): { busyTimes: BusyTime[]; eventCount: number } {
+    const fromDate = getZonedToday(timeZone);
+    const toDate = addDaysToDate(fromDate, IMPORT_DAYS);
+    const events = parseEvents(content);
+
+    // Geänderte Einzeltermine ersetzen den ursprünglichen Termin der Wiederholung
+    const movedOccurrences = new Set<string>();
+    for (const event of events) {
+        const uid = event.find(p => p.name === 'UID')?.value;
+        const recurrenceId = event.find(p => p.name === 'RECURRENCE-ID');
+        const value = recurrenceId && parseDateValue(recurrenceId, recurrenceId.value, timeZone);
+        if (uid && value) movedOccurrences.add(`${uid}|${occurrenceKey(value)}`);
+    }
+
+    const busyTimes: BusyTime[] = [];
+    let eventCount = 0;
+
+    for (const event of events) {
+        const property = (name: string) => event.find(p => p.name === name);
+        if (property('STATUS')?.value.toUpperCase() === 'CANCELLED') continue;
+        if (property('TRANSP')?.value.toUpperCase() === 'TRANSPARENT') continue;
+
+        const dtStart = property('DTSTART');
+        const start = dtStart && parseDateValue(dtStart, dtStart.value, timeZone);
+        if (!start) continue;
+
+        // Dauer: bei ganztägigen Terminen in Tagen, sonst in Millisekunden
+        const dtEnd = property('DTEND');
+        const end = dtEnd && parseDateValue(dtEnd, dtEnd.value, timeZone);
+        const duration = property('DURATION') ? parseDuration(property('DURATION')!.value) : null;
+        let durationDays = 1;
+        let durationMs = 0;
+        if (start.time === null) {
+            if (end) durationDays = Math.max(1, getDaysBetween(start.date, end.date));
+            else if (duration !== null) durationDays = Math.max(1, Math.round(duration / DAY_MS));
+        } else {
+            if (end && end.time !== null) {
+                durationMs = zonedTimeToUtc(end.date, end.time, end.timeZone).getTime() - zonedTimeToUtc(start.date, start.time, start.timeZone).getTime();
+            } else if (duration !== null) {
+                durationMs = duration;
+            }
+            if (durationMs <= 0) continue;
+        }
+
+        const uid = property('UID')?.value;
+        const isOverride = property('RECURRENCE-ID') !== undefined;
+        const rrule = property('RRULE');
+        const rule: Record<string, string> = rrule && !isOverride
+            ? Object.fromEntries(rrule.value.split(';').map(part => part.split('=')).filter(part => part.length === 2)
+                .map(([key, value]) => [key.toUpperCase(), value.toUpperCase()]))
+            : {};
+
+        const excluded = new Set<string>();
+        for (const exdate of event.filter(p => p.name === 'EXDATE')) {
+            for (const value of exdate.value.split(',')) {
+                const parsed = parseDateValue(exdate, value, start.timeZone);
+                if (parsed) excluded.add(occurrenceKey(parsed));
+            }
+        }
+
+        const count = rule.COUNT ? parseInt(rule.COUNT, 10) : null;
+        const untilMatch = rule.UNTIL ? /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(rule.UNTIL) : null;
+        const untilMs = untilMatch
+            ? untilMatch[4]
+                ? Date.UTC(+untilMatch[1], +untilMatch[2] - 1, +untilMatch[3], +untilMatch[4], +untilMatch[5], +untilMatch[6])
+                : Date.UTC(+untilMatch[1], +untilMatch[2] - 1, +untilMatch[3]) + DAY_MS
+            : null;
+        const spanDays = start.time === null ? durationDays : Math.ceil(durationMs / DAY_MS);
+        const skipTo = count === null ? addDaysToDate(fromDate, -(spanDays + 2)) : null;
+
+        let index = 0;
+        for (const date of ruleDates(start.date, rule, skipTo)) {
+            // Ein Tag Puffer für Zeitzonen-Unterschiede zwischen Termin und Venue
+            if (date > addDaysToDate(toDate, 1)) break;
+            index++;
+            if (count !== null && index > count) break;
+
+            const occurrence: IcsDateValue = { ...start, date };
+            const startMs = start.time === null ? Date.parse(`${date}T00:00:00Z`) : zonedTimeToUtc(date, start.time, start.timeZone).getTime();
+            if (untilMs !== null && startMs > untilMs) break;
+
+            const key = occurrenceKey(occurrence);
+            if (excluded.has(key)) continue;
+            if (rrule && !isOverride && uid && movedOccurrences.has(`${uid}|${key}`)) continue;
+
+            let pieces: BusyTime[];
+            if (start.time === null) {
+                pieces = splitBusyTime(date, '00:00', addDaysToDate(date, durationDays), '00:00');
+            } else {
+                const localStart = getZonedDateTime(timeZone, new Date(startMs));
+                const localEnd = getZonedDateTime(timeZone, new Date(startMs + durationMs));
+                pieces = splitBusyTime(localStart.date, localStart.time.slice(0, 5), localEnd.date, localEnd.time.slice(0, 5));
+            }
+            pieces = pieces.filter(piece => piece.end_date >= fromDate && piece.start_date <= toDate);
+            if (pieces.length === 0) continue;
+
+            busyTimes.push(...pieces);
+            eventCount++;
+            if (busyTimes.length > MAX_BUSY_TIMES) {
+                throw new Error(`Kalender: zu viele Termine (höchstens ${MAX_BUSY_TIMES} in den nächsten ${IMPORT_DAYS} Tagen)`);
+            }
+        }
+    }
+
+    return { busyTimes, eventCount };
+}
+
+/**
+ * Nicht öffentliche Adressen (Loopback, privat, Link-Local, CGNAT, Multicast, reserviert) – Feed-URLs dürfen
+ * nicht ins interne Netz des Servers zeigen (SSRF). IPv4-gemappte IPv6-Adressen werden als IPv4 geprüft.
+ */
+function isPrivateAddress(address: string): boolean {
+    const normalized = address.toLowerCase();
+    const mapped = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (mapped) return isPrivateAddress(mapped[1]);
+    const mappedHex = normalized.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+    if (mappedHex) {
+        const high = parseInt(mappedHex[1], 16);
+        const low = parseInt(mappedHex[2], 16);
+        return isPrivateAddress(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+    }
+
+    if (isIPv4(normalized)) {
+        const [a, b, c] = normalized.split('.').map(Number);
+        return a === 0 || a === 10 || a === 127 || a >= 224 ||
+            (a === 100 && b >= 64 && b <= 127) ||
+            (a === 169 && b === 254) ||
+            (a === 172 && b >= 16 && b <= 31) ||
+            (a === 192 && b === 168) ||
+            (a === 192 && b === 0 && c === 0) ||
+            (a === 198 && (b === 18 || b === 19));
+    }
+
+    return normalized.startsWith('::') ||       // unspezifiziert, Loopback, IPv4-kompatibel
+        /^f[cd]/.test(normalized) ||            // fc00::/7 Unique Local
+        /^fe[89ab]/.test(normalized) ||         // fe80::/10 Link-Local
+        normalized.startsWith('ff');            // Multicast
+}
+
+const INTERNAL_ADDRESS_ERROR = 'Kalender: Feed-URL zeigt auf eine interne Adresse';
+
+/** DNS-Auflösung für den Abruf: lehnt ab, sobald der Host auf eine nicht öffentliche Adresse zeigt */
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+    dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+        if (error) return callback(error, '', 0);
+        if (addresses.length === 0 || addresses.some(entry => isPrivateAddress(entry.address))) {
+            return callback(new Error(INTERNAL_ADDRESS_ERROR), '', 0);
+        }
+        if (options.all) return callback(null, addresses);
+        callback(null, addresses[0].address, addresses[0].family);
+    });
+};
+
+/** Prüft eine Feed-URL: nur https (webcal:// wird wie https:// abgerufen), keine IP-Literale aus internen Netzen */
+function parseFeedUrl(raw: string): URL {
+    let url: URL;
+    try {
+        url = new URL(raw.replace(/^webcal:\/\//i, 'https://'));
+    } catch {
+        throw new Error('Kalender: ungültige Feed-URL');
+    }
+    if (url.protocol !== 'https:') throw new Error('Kalender: Feed-URL muss https verwenden');
+    const host = url.hostname.replace(/^\[|\]$/g, '');
+    if (isIP(host) && isPrivateAddress(host)) throw new Error(INTERNAL_ADDRESS_ERROR);
+    return url;
+}
+
+/**
+ * Ein Abruf ohne automatische Weiterleitung; liefert das Ziel einer Weiterleitung oder den Inhalt.
+ * Zu große Dateien werden schon anhand von Content-Length bzw. beim Überschreiten von MAX_ICS_BYTES abgebrochen.
+ */
+function requestCalendar(url: URL, signal: AbortSignal): Promise<{ location: string | null; content: string }> {
+    return new Promise((resolve, reject) => {
+        const unreachable = () => reject(new Error('Kalender: Feed-URL nicht erreichbar'));
+        const request = https.get(url, { headers: { Accept: 'text/calendar' }, lookup: publicOnlyLookup, signal }, response => {
+            const status = response.statusCode ?? 0;
+            if (status >= 300 && status < 400 && response.headers.location) {
+                response.resume();
+                resolve({ location: response.headers.location, content: '' });
+                return;
+            }
+            if (status < 200 || status >= 300) {
+                response.resume();
+                reject(new Error(`Kalender: Abruf fehlgeschlagen (HTTP ${status})`));
+                return;
+            }
+            const tooLarge = () => {
+                request.destroy();
+                reject(new Error('Kalender: Datei ist zu groß'));
+            };
+            if (Number(response.headers['content-length']) > MAX_ICS_BYTES) {
+                tooLarge();
+                return;
+            }
+            const chunks: Buffer[] = [];
+            let size = 0;
+            response.on('data', (chunk: Buffer) => {
+                size += chunk.length;
+                if (size > MAX_ICS_BYTES) tooLarge();
+                else chunks.push(chunk);
+            });
+            response.on('end', () => resolve({ location: null, content: Buffer.concat(chunks).toString('utf8') }));
+            response.on('error', unreachable);
+        });
+        request.on('error', error => error.message === INTERNAL_ADDRESS_ERROR ? reject(error) : unreachable());
+    });
+}
+
+/**
+ * Lädt einen Kalender-Feed. Nur https und nur öffentliche Adressen – geprüft bei der DNS-Auflösung des
+ * Verbindungsaufbaus selbst (kein Umweg über DNS-Rebinding) und für jede Weiterleitung erneut.
+ */
+async function fetchCalendar(rawUrl: string): Promise<string> {
+    const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+    let url = parseFeedUrl(rawUrl);
+    for (let redirects = 0; ; redirects++) {
+        const { location, content } = await requestCalendar(url, signal);
+        if (location === null) return content;
+        if (redirects >= MAX_REDIRECTS) throw new Error('Kalender: zu viele Weiterleitungen');
+        url = parseFeedUrl(new URL(location, url).toString());
+    }
+}
+
+export class ExternalCalendarService {
+    static async getCalendars(venueId: number): Promise<ExternalCalendar[]> {
+        let conn;
+        try {
+            conn = await getConnection();
+            return await conn.query(`${CALENDAR_SELECT} WHERE sm.venue_id = ? ORDER BY sm.name, c.name`, [venueId]) as ExternalCalendar[];
+        } finally {
+            if (conn) conn.release();
+        }
+    }
+
+    /**
+     * Legt einen externen Kalender an und liest ihn sofort ein (Feed-URL abrufen bzw. hochgeladene Datei).
+     * Ist der Kalender nicht lesbar, wird nichts gespeichert.
+     */
+    static async createCalendar(venueId: number, data: ExternalCalendarInput): Promise<ExternalCalendarImportResult> {
+        let conn;
+        try {
+            conn = await getConnection();
+            const staff = await conn.query(
+                `SELECT sm.id, v.timezone FROM staff_members sm JOIN venues v ON sm.venue_id = v.id
+                 WHERE sm.id = ? AND sm.venue_id = ?`,
+                [data.staff_member_id, venueId]
+            ) as { id: number; timezone: string }[];
+            if (staff.length === 0) throw new Error('Mitarbeiter nicht gefunden');
+
+            const content = data.url ? await fetchCalendar(data.url) : data.content ?? '';
+            const { busyTimes, eventCount } = parseBusyTimes(content, resolveTimeZone(staff[0].timezone));
+
+            await conn.beginTransaction();
+            let calendarId: number;
+            try {
+                const result = await conn.query(
+                    'INSERT INTO staff_external_calendars (staff_member_id, name, url) VALUES (?, ?, ?)',
+                    [data.staff_member_id, data.name, data.url || null]
+                );
+                calendarId = Number(result.insertId);
+                await this.replaceBusyTimes(conn, calendarId, data.staff_member_id, busyTimes, eventCount);
+                await conn.commit();
+            } catch (error) {
+                await conn.rollback();
+                throw error;
+            }
+            AvailabilityService.invalidateCache(venueId);
+            logger.info(`Owner: External calendar created for venue ${venueId}`, { calendar_id: calendarId, staff_member_id: data.staff_member_id, events: eventCount });
+            return await this.getImportResult(conn, calendarId, venueId, busyTimes);
+        } finally {
+            if (conn) conn.release();
+        }
+    }
+
+    /**
+     * Liest einen Kalender neu ein: Feed-URL erneut abrufen bzw. die neu hochgeladene Datei (content) übernehmen.
+     * Schlägt der Abruf fehl, bleiben die bisherigen Termine gültig und der Fehler wird am Kalender vermerkt.
+     */
+    static async syncCalendar(calendarId: number, venueId: number, content?: string): Promise<ExternalCalendarImportResult> {
+        let conn;
+        try {
+            conn = await getConnection();
+            const calendar = await this.getOwnedCalendar(conn, calendarId, venueId);
+            if (!calendar.url && !content) throw new Error('Kalender: bitte eine neue ICS-Datei hochladen');
+
+            let busyTimes: BusyTime[];
+            try {
+                const parsed = parseBusyTimes(calendar.url ? await fetchCalendar(calendar.url) : content!, resolveTimeZone(calendar.timezone));
+                busyTimes = parsed.busyTimes;
+                await conn.beginTransaction();
+                try {
+                    await this.replaceBusyTimes(conn, calendarId, calendar.staff_member_id, busyTimes, parsed.eventCount);
+                    await conn.commit();
+                } catch (error) {
+                    await conn.rollback();
+                    throw error;
+                }
+            } catch (error) {
+                await this.recordError(conn, calendarId, error);
+                throw error;
+            }
+            AvailabilityService.invalidateCache(venueId);
+            return await this.getImportResult(conn, calendarId, venueId, busyTimes);
+        } finally {
+            if (conn) conn.release();
+        }
+    }
+
+    static async deleteCalendar(calendarId: number, venueId: number): Promise<void> {
+        let conn;
+        try {
+            conn = await getConnection();
+            await this.getOwnedCalendar(conn, calendarId, venueId);
+            await conn.query('DELETE FROM staff_external_calendars WHERE id = ?', [calendarId]);
+            AvailabilityService.invalidateCache(venueId);
+            logger.info(`Owner: External calendar ${calendarId} deleted for venue ${venueId}`);
+        } finally {
+            if (conn) conn.release();
+        }
+    }
+
+    /**
+     * Cron: liest alle Kalender mit Feed-URL neu ein. Fehler einzelner Feeds werden am Kalender vermerkt
+     * und halten die übrigen nicht auf. Liefert die Anzahl erfolgreich eingelesener Kalender.
+     */
+    static async syncAllCalendars(): Promise<number> {
+        let conn;
+        try {
+            conn = await getConnection();
+            const calendars = await conn.query(`
+                SELECT c.id, c.staff_member_id, c.url, sm.venue_id, v.timezone
+                FROM staff_external_calendars c
+                JOIN staff_members sm ON c.staff_member_id = sm.id
+                JOIN venues v ON sm.venue_id = v.id
+                WHERE c.url IS NOT NULL`
+            ) as { id: number; staff_member_id: number; url: string; venue_id: number; timezone: string }[];
+
+            let synced = 0;
+            const changedVenues = new Set<number>();
+            for (const calendar of calendars) {
+                try {
+                    const { busyTimes, eventCount } = parseBusyTimes(await fetchCalendar(calendar.url), resolveTimeZone(calendar.timezone));
+                    await conn.beginTransaction();
+                    try {
+                        await this.replaceBusyTimes(conn, calendar.id, calendar.staff_member_id, busyTimes, eventCount);
+                        await conn.commit();
+                    } catch (error) {
+                        await conn.rollback();
+                        throw error;
+                    }
+                    changedVenues.add(calendar.venue_id);
+                    synced++;
+                } catch (error) {
+                    logger.warn(`External calendar ${calendar.id} could not be synced`, { error: (error as Error).message });
+                    await this.recordError(conn, calendar.id, error);
+                }
+            }
+            for (const venueId of changedVenues) AvailabilityService.invalidateCache(venueId);
+            if (calendars.length > 0) logger.info(`Synced ${synced} of ${calendars.length} external calendar(s)`);
+            return synced;
+        } finally {
+            if (conn) conn.release();
+        }
+    }
+
+    /** Ersetzt die belegten Zeiten eines Kalenders (innerhalb der Transaktion des Aufrufers) */
+    private static async replaceBusyTimes(
+        conn: Awaited<ReturnType<typeof getConnection>>,
+        calendarId: number,
+        staffMemberId: number,
+        busyTimes: BusyTime[],
+        eventCount: number
+    ): Promise<void> {
+        await conn.query('DELETE FROM staff_busy_times WHERE calendar_id = ?', [calendarId]);
+        if (busyTimes.length > 0) {
+            await conn.batch(
+                'INSERT INTO staff_busy_times (calendar_id, staff_member_id, start_date, end_date, start_time, end_time) VALUES (?, ?, ?, ?, ?, ?)',
+                busyTimes.map(busy => [calendarId, staffMemberId, busy.start_date, busy.end_date, busy.start_time, busy.end_time])
+            );
+        }
+        await conn.query(
+            'UPDATE staff_external_calendars SET event_count = ?, last_synced_at = NOW(), last_error = NULL WHERE id = ?',
+            [eventCount, calendarId]
+        );
+    }
+
+    private static async recordError(conn: Awaited<ReturnType<typeof getConnection>>, calendarId: number, error: unknown): Promise<void> {
+        const message = (error as Error).message.replace(/^Kalender: /, '').slice(0, 255);
+        await conn.query('UPDATE staff_external_calendars SET last_error = ? WHERE id = ?', [message, calendarId]);
+    }
+
+    private static async getOwnedCalendar(
+        conn: Awaited<ReturnType<typeof getConnection>>,
+        calendarId: number,
+        venueId: number
+    ): Promise<{ id: number; staff_member_id: number; url: string | null; timezone: string }> {
+        const rows = await conn.query(`
+            SELECT c.id, c.staff_member_id, c.url, sm.venue_id, v.timezone
+            FROM staff_external_calendars c
+            JOIN staff_members sm ON c.staff_member_id = sm.id
+            JOIN venues v ON sm.venue_id = v.id
+            WHERE c.id = ?`,
+            [calendarId]
+        ) as { id: number; staff_member_id: number; url: string | null; venue_id: number; timezone: string }[];
+        if (rows.length === 0) throw new Error('Kalender nicht gefunden');
+        if (rows[0].venue_id !== venueId) throw new Error('Kein Zugriff auf diesen Kalender');
+        return rows[0];
+    }
+
+    /** Lädt den Kalender mit Namen und die offenen Termine, die nun in eine belegte Zeit fallen. */
+    private static async getImportResult(
+        conn: Awaited<ReturnType<typeof getConnection>>,
+        calendarId: number,
+        venueId: number,
+        busyTimes: BusyTime[]
+    ): Promise<ExternalCalendarImportResult> {
+        const rows = await conn.query(`${CALENDAR_SELECT} WHERE c.id = ?`, [calendarId]) as ExternalCalendar[];
+        const calendar = rows[0];
+        if (busyTimes.length === 0) return { calendar, conflicts: [] };
+
+        const fromDate = busyTimes.reduce((min, busy) => busy.start_date < min ? busy.start_date : min, busyTimes[0].start_date);
+        const toDate = busyTimes.reduce((max, busy) => busy.end_date > max ? busy.end_date : max, busyTimes[0].end_date);
+        const conflicts = await AvailabilityService.getStaffScheduleConflicts(conn, venueId, fromDate, toDate, calendar.staff_member_id);
+        if (conflicts.length > 0) {
+            logger.warn(`Owner: ${conflicts.length} booking(s) now conflict with an external calendar`, { calendar_id: calendarId, booking_ids: conflicts.map(c => c.booking_id) });
+        }
+        return { calendar, conflicts };
+    }
+}
@@ -27,6 +27,7 @@ export async function getCustomerFavorites(customerId: number): Promise<ApiRespo
                 v.city as v_city,
                 v.postal_code as v_postal_code,
                 v.country as v_country,
+                v.timezone as v_timezone,
                 v.description as v_description,
                 v.image_url as v_image_url,
                 v.website_url as v_website_url,
@@ -60,6 +61,7 @@ export async function getCustomerFavorites(customerId: number): Promise<ApiRespo
                 city: row.v_city,
                 postal_code: row.v_postal_code,
                 country: row.v_country,
+                timezone: row.v_timezone,
                 description: row.v_description,
                 image_url: row.v_image_url,
                 website_url: row.v_website_url,
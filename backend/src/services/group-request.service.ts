@@ -0,0 +1,193 @@
+/**
+ * Group Request Service
+ * Gruppenanfragen über der Online-Höchstzahl: Der Kunde schickt Wunschtermin und Personenzahl,
+ * der Owner nimmt die Anfrage mit gewählter Zeit (und optional Tischen) an – daraus wird eine bestätigte Buchung –
+ * oder sagt sie mit Begründung ab.
+ */
+
+import { getConnection } from '../config/database';
+import { createLogger } from '../config/utils/logger';
+import { getZonedToday } from '../config/utils/timezone';
+import { AcceptGroupRequestData, Booking, CreateGroupRequestData, GroupRequest, GroupRequestStatus } from '../config/utils/types';
+import { AvailabilityService } from './availability.service';
+import { BookingService } from './booking.service';
+import { sendGroupRequestDeclined } from './email.service';
+
+const logger = createLogger('group-request.service');
+
+export class GroupRequestService {
+    /**
+     * Speichert eine Gruppenanfrage. Nur für Gruppen über der Online-Höchstzahl der Leistung bzw. des Venues –
+     * kleinere Gruppen buchen direkt.
+     */
+    static async createRequest(data: CreateGroupRequestData): Promise<GroupRequest> {
+        let conn;
+        try {
+            conn = await getConnection();
+            const venues = await conn.query(
+                'SELECT id, timezone, min_party_size, max_party_size FROM venues WHERE id = ? AND is_active = true',
+                [data.venue_id]
+            ) as { id: number; timezone: string; min_party_size: number; max_party_size: number }[];
+            if (venues.length === 0) throw new Error('Venue not found');
+
+            let service: { min_party_size: number | null; max_party_size: number | null } | null = null;
+            if (data.service_id) {
+                const services = await conn.query(
+                    'SELECT min_party_size, max_party_size FROM services WHERE id = ? AND venue_id = ? AND is_active = true',
+                    [data.service_id, data.venue_id]
+                ) as { min_party_size: number | null; max_party_size: number | null }[];
+                if (services.length === 0) throw new Error('Service not found');
+                service = services[0];
+            }
+
+            const limits = AvailabilityService.resolvePartySizeLimits(venues[0], service);
+            if (data.party_size <= limits.max) {
+                throw new Error(`Group requests are only needed for more than ${limits.max} guests`);
+            }
+            if (data.preferred_date < getZonedToday(venues[0].timezone)) throw new Error('Cannot send a group request for a past date');
+
+            const result = await conn.query(`
+                INSERT INTO group_requests (venue_id, service_id, customer_id, customer_name, customer_email, customer_phone, preferred_date, preferred_time, party_size, message)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            `, [
+                data.venue_id,
+                data.service_id ?? null,
+                data.customer_id ?? null,
+                data.customer_name,
+                data.customer_email,
+                data.customer_phone || null,
+                data.preferred_date,
+                data.preferred_time || null,
+                data.party_size,
+                data.message || null,
+            ]) as { insertId: number };
+
+            const rows = await conn.query('SELECT * FROM group_requests WHERE id = ?', [Number(result.insertId)]) as GroupRequest[];
+            logger.info(`Group request created for venue ${data.venue_id}`, { party_size: data.party_size, date: data.preferred_date });
+            return rows[0];
+        } catch (error) {
+            logger.error('Error creating group request', error);
+            throw error;
+        } finally {
+            if (conn) conn.release();
+        }
+    }
+
+    /** Gruppenanfragen eines Venues (neueste zuerst), optional nach Status gefiltert. */
+    static async getRequests(venueId: number, filters?: { status?: GroupRequestStatus }): Promise<GroupRequest[]> {
+        let conn;
+        try {
+            conn = await getConnection();
+            let query = `
+                SELECT g.*, s.name as service_name
+                FROM group_requests g
+                LEFT JOIN services s ON g.service_id = s.id
+                WHERE g.venue_id = ?`;
+            const params: (string | number)[] = [venueId];
+            if (filters?.status) { query += ' AND g.status = ?'; params.push(filters.status); }
+            query += ' ORDER BY g.created_at DESC';
+            return await conn.query(query, params) as GroupRequest[];
+        } catch (error) {
+            logger.error('Owner: Error fetching group requests', error);
+            throw error;
+        } finally {
+            if (conn) conn.release();
+        }
+    }
+
+    /** Lädt eine offene Anfrage des Venues (wirft bei fremdem Venue oder bereits entschiedener Anfrage). */
+    private static async getPendingRequest(requestId: number, venueId: number): Promise<GroupRequest> {
+        let conn;
+        try {
+            conn = await getConnection();
+            const rows = await conn.query('SELECT * FROM group_requests WHERE id = ?', [requestId]) as GroupRequest[];
+            if (rows.length === 0) throw new Error('Gruppenanfrage nicht gefunden');
+            if (rows[0].venue_id !== venueId) throw new Error('Kein Zugriff auf diese Anfrage');
+            if (rows[0].status !== 'pending') throw new Error('Anfrage wurde bereits bearbeitet');
+            return rows[0];
+        } finally {
+            if (conn) conn.release();
+        }
+    }
+
+    /**
+     * Nimmt eine Gruppenanfrage an: legt zur gewählten Zeit eine bestätigte Buchung an (Owner-Buchung,
+     * Online-Grenzen gelten nicht) und verknüpft sie mit der Anfrage. Der Kunde erhält die normale Bestätigung.
+     * Fehler 'Booking not available: ...' wenn Zeit oder Tische nicht frei sind.
+     */
+    static async acceptRequest(requestId: number, venueId: number, data: AcceptGroupRequestData): Promise<Booking> {
+        const request = await this.getPendingRequest(requestId, venueId);
+        const serviceId = data.service_id ?? request.service_id;
+        if (!serviceId) throw new Error('Bitte eine Leistung wählen');
+
+        let conn;
+        let endTime: string | null;
+        try {
+            conn = await getConnection();
+            endTime = await AvailabilityService.getBookingEndTime(conn, venueId, serviceId, data.start_time, request.party_size, data.staff_member_id ?? null);
+            if (!endTime) throw new Error('Service not found');
+        } finally {
+            if (conn) conn.release();
+        }
+
+        const booking = await BookingService.createBooking({
+            customer_id: request.customer_id ?? undefined,
+            venue_id: venueId,
+            service_id: serviceId,
+            staff_member_id: data.staff_member_id,
+            customer_name: request.customer_name,
+            customer_email: request.customer_email,
+            customer_phone: request.customer_phone ?? undefined,
+            booking_date: data.booking_date,
+            start_time: data.start_time,
+            end_time: endTime,
+            party_size: request.party_size,
+            special_requests: request.message ?? undefined,
+        }, true, undefined, data.table_ids);
+        await BookingService.confirmBooking(booking.id);
+
+        try {
+            conn = await getConnection();
+            await conn.query(
+                "UPDATE group_requests SET status = 'accepted', booking_id = ?, decided_at = NOW(), updated_at = NOW() WHERE id = ?",
+                [booking.id, requestId]
+            );
+        } finally {
+            if (conn) conn.release();
+        }
+        logger.info(`Group request ${requestId} accepted`, { booking_id: booking.id });
+        return { ...booking, status: 'confirmed' };
+    }
+
+    /** Sagt eine Gruppenanfrage ab und informiert den Kunden per E-Mail (optional mit Begründung). */
+    static async declineRequest(requestId: number, venueId: number, reason?: string): Promise<void> {
+        const request = await this.getPendingRequest(requestId, venueId);
+        let conn;
+        let venueName: string | null = null;
+        try {
+            conn = await getConnection();
+            await conn.query(
+                "UPDATE group_requests SET status = 'declined', decline_reason = ?, decided_at = NOW(), updated_at = NOW() WHERE id = ?",
+                [reason || null, requestId]
+            );
+            const venues = await conn.query('SELECT name FROM venues WHERE id = ?', [venueId]) as { name: string }[];
+            venueName = venues[0]?.name ?? null;
+        } finally {
+            if (conn) conn.release();
+        }
+        logger.info(`Group request ${requestId} declined`);
+
+        try {
+            await sendGroupRequestDeclined({
+                customer_name: request.customer_name,
+                customer_email: request.customer_email,
+                venue_name: venueName,
+                preferred_date: request.preferred_date,
+                party_size: request.party_size,
+                decline_reason: reason,
+            });
+        } catch (emailErr) {
+            logger.error('Group request decline email failed (request updated)', emailErr);
+        }
+    }
+}
@@ -1,13 +1,17 @@
 /**
  * Owner Service (Venue-Management)
- * Nur Rolle owner: Buchungen, Stats, Leistungen, Verfügbarkeit, Venue-Einstellungen
+ * Nur Rolle owner: Buchungen, Stats, Leistungen, Verfügbarkeit (inkl. saisonaler Zeitpläne), Tische, Ressourcen, Pacing-Regeln, Mitarbeiter-Zuweisung, Venue-Einstellungen
  */
 
 import { getConnection } from '../config/database';
 import { createLogger } from '../config/utils/logger';
-import { Booking, Service } from '../config/utils/types';
+import { addDaysToDate, getDayOfWeek, getEndDate, getZonedToday, zonedTimeToUtc } from '../config/utils/timezone';
+import { AvailabilityExplanation, AvailabilityRuleSet, Booking, OverbookingMode, OverbookingOverview, OverbookingServiceDay, PacingRule, Resource, Service, ServiceResourceRequirement, SpecialAvailability, StaffAssignmentStrategy, StaffMember, StaffServiceLink, StaffScheduleConflict, StaffScheduleOverride, StaffScheduleOverrideType, VenueTable, WaitlistEntry } from '../config/utils/types';
 import { BookingService } from './booking.service';
+import type { SeriesEmailOptions } from './booking.service';
+import { AvailabilityService } from './availability.service';
 import { logBookingAction } from './audit.service';
+import { SlotHoldService } from './slot-hold.service';
 import { sendConfirmation, sendCancellation } from './email.service';
 import type { BookingForEmail } from './email.service';
 
@@ -15,12 +19,221 @@ const logger = createLogger('owner.service');
 
 export interface BookingWithDetails extends Booking {
     venue_name?: string;
+    venue_timezone?: string;
     service_name?: string;
     staff_member_name?: string;
     service_price?: number;
     service_duration?: number;
+    table_names?: string | null;
+    resource_names?: string | null;
 }
 
+/** Zugewiesene Tische einer Buchung als Text, z. B. "T4 (Terrasse), T5 (Terrasse)" */
+const TABLE_NAMES_SELECT = `(SELECT GROUP_CONCAT(IF(vt.area IS NULL OR vt.area = '', vt.name, CONCAT(vt.name, ' (', vt.area, ')')) ORDER BY vt.name SEPARATOR ', ')
+                        FROM booking_tables bt JOIN venue_tables vt ON bt.table_id = vt.id
+                        WHERE bt.booking_id = b.id) as table_names`;
+
+/** Belegte Ressourcen einer Buchung als Text, z. B. "Paarraum, 2× Waschbecken" (je Ressource einmal, auch bei mehreren Schritten) */
+const RESOURCE_NAMES_SELECT = `(SELECT GROUP_CONCAT(DISTINCT IF(br.quantity > 1, CONCAT(br.quantity, '× ', r.name), r.name) ORDER BY r.name SEPARATOR ', ')
+                        FROM booking_resources br JOIN resources r ON br.resource_id = r.id
+                        WHERE br.booking_id = b.id) as resource_names`;
+
+/** Ressourcenbedarf einer Leistung für die Owner-Ansicht (ohne interne Bestandszahlen) */
+function toServiceResources(rows: ServiceResourceRequirement[] | undefined): ServiceResourceRequirement[] {
+    return (rows ?? []).map(row => ({ resource_id: row.resource_id, resource_name: row.resource_name, quantity: row.quantity }));
+}
+
+/** Mitarbeiter je Leistung (staff_services) inkl. abweichender Dauer und Preis, nach Name sortiert */
+async function getStaffLinks(conn: Awaited<ReturnType<typeof getConnection>>, serviceIds: number[]): Promise<Map<number, StaffServiceLink[]>> {
+    const result = new Map<number, StaffServiceLink[]>();
+    if (serviceIds.length === 0) return result;
+    const rows = await conn.query(`
+        SELECT ss.service_id, ss.staff_member_id, sm.name AS staff_member_name, ss.duration_minutes, ss.price
+        FROM staff_services ss
+        JOIN staff_members sm ON ss.staff_member_id = sm.id
+        WHERE ss.service_id IN (${serviceIds.map(() => '?').join(',')})
+        ORDER BY sm.name`,
+        serviceIds
+    ) as (StaffServiceLink & { service_id: number })[];
+    for (const { service_id, ...link } of rows) {
+        const list = result.get(service_id) ?? [];
+        list.push({ ...link, price: link.price != null ? Number(link.price) : null });
+        result.set(service_id, list);
+    }
+    return result;
+}
+
+/** Zeitzone des Venues – "heute" und "jetzt" werden in Ortszeit des Venues gerechnet */
+async function getVenueTimeZone(conn: Awaited<ReturnType<typeof getConnection>>, venueId: number): Promise<string | undefined> {
+    const rows = await conn.query('SELECT timezone FROM venues WHERE id = ?', [venueId]) as { timezone: string }[];
+    return rows[0]?.timezone;
+}
+
+export interface VenueTableInput {
+    name?: string;
+    area?: string | null;
+    min_seats?: number;
+    max_seats?: number;
+    combine_group?: string | null;
+    is_active?: boolean;
+}
+
+export interface ResourceInput {
+    name?: string;
+    quantity?: number;
+    is_active?: boolean;
+}
+
+export interface ServiceResourceInput {
+    resource_id: number;
+    quantity: number;
+}
+
+export interface StaffServiceInput {
+    staff_member_id: number;
+    duration_minutes: number | null;
+    price: number | null;
+}
+
+export interface DurationRuleInput {
+    min_party_size: number;
+    max_party_size: number | null;
+    duration_minutes: number;
+}
+
+/** Dauer-Regeln einer Leistung: Bereiche gültig (min <= max) und ohne Überschneidung. */
+function checkDurationRules(rules: DurationRuleInput[]): void {
+    const sorted = [...rules].sort((a, b) => a.min_party_size - b.min_party_size);
+    for (let i = 0; i < sorted.length; i++) {
+        const rule = sorted[i];
+        if (rule.max_party_size != null && rule.min_party_size > rule.max_party_size) {
+            throw new Error('Dauer-Regel: Mindest-Personenzahl darf die Höchst-Personenzahl nicht überschreiten');
+        }
+        const next = sorted[i + 1];
+        if (next && (rule.max_party_size == null || rule.max_party_size >= next.min_party_size)) {
+            throw new Error('Dauer-Regeln dürfen sich nicht überschneiden');
+        }
+    }
+}
+
+export interface PacingRuleInput {
+    name?: string;
+    day_of_week?: number | null;
+    start_time?: string;
+    end_time?: string;
+    interval_minutes?: number;
+    max_covers?: number | null;
+    max_parties?: number | null;
+    is_active?: boolean;
+}
+
+export interface AvailabilityRule {
+    id: number;
+    venue_id: number | null;
+    staff_member_id: number | null;
+    staff_member_name?: string;
+    rule_set_id: number | null;
+    day_of_week: number;
+    start_time: string;
+    end_time: string;
+    is_active: boolean;
+}
+
+export interface AvailabilityRuleInput {
+    staff_member_id?: number | null;
+    rule_set_id?: number | null;
+    day_of_week: number;
+    start_time: string;
+    end_time: string;
+}
+
+export interface AvailabilityRuleSetInput {
+    name?: string;
+    valid_from?: string | null;
+    valid_until?: string | null;
+    is_active?: boolean;
+}
+
+/** Zeitplan, der an einem Datum gilt, mit den Regeln dieses Wochentags (Venue und Mitarbeiter) */
+export interface AvailabilitySchedule {
+    date: string;
+    rule_set: AvailabilityRuleSet | null;   // null = Grundplan
+    rules: AvailabilityRule[];              // Mitarbeiter ohne Regeln im Zeitplan behalten den Grundplan (rule_set_id null)
+}
+
+export interface AvailabilityException extends SpecialAvailability {
+    staff_member_name?: string | null;
+}
+
+export interface AvailabilityExceptionInput {
+    staff_member_id?: number | null;
+    date?: string;
+    start_time?: string | null;
+    end_time?: string | null;
+    is_available?: boolean;
+    reason?: string | null;
+}
+
+/**
+ * Prüft die Zeitangaben einer Ausnahme (ganztägig = beide leer; Zusatzöffnung braucht ein Zeitfenster).
+ * Endzeit vor Startzeit = Zeitfenster bis in den Folgetag (z.B. 20:00–03:00).
+ */
+function validateExceptionTimes(startTime: string | null, endTime: string | null, isAvailable: boolean): void {
+    if ((startTime == null) !== (endTime == null)) throw new Error('Start- und Endzeit nur gemeinsam angeben');
+    if (isAvailable && startTime == null) throw new Error('Zusätzliche Öffnungszeiten benötigen Start- und Endzeit');
+    if (startTime != null && endTime != null
+        && AvailabilityService.timeStringToMinutes(endTime) === AvailabilityService.timeStringToMinutes(startTime)) {
+        throw new Error('Start- und Endzeit dürfen nicht gleich sein');
+    }
+}
+
+export interface StaffScheduleOverrideWithNames extends StaffScheduleOverride {
+    staff_member_name?: string;
+    approved_by_name?: string | null;
+}
+
+export interface StaffScheduleOverrideInput {
+    staff_member_id?: number;
+    type?: StaffScheduleOverrideType;
+    start_date?: string;
+    end_date?: string;
+    start_time?: string | null;
+    end_time?: string | null;
+    reason?: string | null;
+}
+
+/** Gespeicherter Eintrag + offene Termine, die dadurch außerhalb der Arbeitszeit liegen (Warnung für den Owner) */
+export interface StaffScheduleOverrideResult {
+    override: StaffScheduleOverrideWithNames;
+    conflicts: StaffScheduleConflict[];
+}
+
+/** Längster Zeitraum einer Abwesenheit/Schichtänderung (Tage) */
+const MAX_OVERRIDE_DAYS = 366;
+
+/**
+ * Prüft Datumsbereich und Zeiten einer Abwesenheit/Schichtänderung.
+ * Abwesenheit ohne Zeiten = ganztägig; eine Schicht braucht immer Start- und Endzeit (Ende vor Start = bis in den Folgetag).
+ */
+function validateOverride(type: StaffScheduleOverrideType, startDate: string, endDate: string, startTime: string | null, endTime: string | null): void {
+    if (endDate < startDate) throw new Error('Enddatum muss am oder nach dem Startdatum liegen');
+    if (addDaysToDate(startDate, MAX_OVERRIDE_DAYS - 1) < endDate) throw new Error(`Zeitraum darf maximal ${MAX_OVERRIDE_DAYS} Tage umfassen`);
+    if ((startTime == null) !== (endTime == null)) throw new Error('Start- und Endzeit nur gemeinsam angeben');
+    if (type === 'shift' && startTime == null) throw new Error('Eine Schicht benötigt Start- und Endzeit');
+    if (startTime != null && endTime != null
+        && AvailabilityService.timeStringToMinutes(endTime) === AvailabilityService.timeStringToMinutes(startTime)) {
+        throw new Error('Start- und Endzeit dürfen nicht gleich sein');
+    }
+}
+
+const STAFF_SCHEDULE_OVERRIDE_SELECT = `
+    SELECT o.id, o.staff_member_id, o.type, o.start_date, o.end_date, o.start_time, o.end_time, o.reason,
+        o.approved_by, o.approved_at, o.created_at, sm.name as staff_member_name, u.name as approved_by_name
+    FROM staff_schedule_overrides o
+    JOIN staff_members sm ON o.staff_member_id = sm.id
+    LEFT JOIN users u ON o.approved_by = u.id
+`;
+
 export interface OwnerStats {
     bookings: {
         today: number;
@@ -47,6 +260,8 @@ export interface OwnerStats {
         hour: number;
         booking_count: number;
     }>;
+    /** Offene Gruppenanfragen (über der Online-Höchstzahl) */
+    groupRequestsPending: number;
 }
 
 export class OwnerService {
@@ -67,7 +282,9 @@ export class OwnerService {
         try {
             conn = await getConnection();
             let query = `
-                SELECT b.*, v.name as venue_name, s.name as service_name, s.price as service_price, s.duration_minutes as service_duration, sm.name as staff_member_name
+                SELECT b.*, v.name as venue_name, v.timezone as venue_timezone, s.name as service_name, s.price as service_price, s.duration_minutes as service_duration, sm.name as staff_member_name,
+                    ${TABLE_NAMES_SELECT},
+                    ${RESOURCE_NAMES_SELECT}
                 FROM bookings b
                 LEFT JOIN venues v ON b.venue_id = v.id
                 LEFT JOIN services s ON b.service_id = s.id
@@ -97,6 +314,7 @@ export class OwnerService {
             ]);
             const total = Number(countResult[0]?.total || 0);
             await BookingService.markPastBookingsCompleted(conn, bookings);
+            await BookingService.attachBookingItems(conn, bookings);
             return { bookings, total };
         } catch (error) {
             logger.error('Owner: Error fetching bookings', error);
@@ -111,7 +329,9 @@ export class OwnerService {
         try {
             conn = await getConnection();
             const query = `
-                SELECT b.*, v.name as venue_name, s.name as service_name, s.price as service_price, s.duration_minutes as service_duration, sm.name as staff_member_name
+                SELECT b.*, v.name as venue_name, v.timezone as venue_timezone, s.name as service_name, s.price as service_price, s.duration_minutes as service_duration, sm.name as staff_member_name,
+                    ${TABLE_NAMES_SELECT},
+                    ${RESOURCE_NAMES_SELECT}
                 FROM bookings b
                 LEFT JOIN venues v ON b.venue_id = v.id
                 LEFT JOIN services s ON b.service_id = s.id
@@ -121,6 +341,7 @@ export class OwnerService {
             const rows = await conn.query(query, [venueId, bookingId]) as BookingWithDetails[];
             if (rows.length === 0) return null;
             await BookingService.markPastBookingsCompleted(conn, rows);
+            await BookingService.attachBookingItems(conn, rows);
             return rows[0];
         } catch (error) {
             logger.error('Owner: Error fetching booking by id', error);
@@ -135,7 +356,8 @@ export class OwnerService {
         status: 'pending' | 'confirmed' | 'cancelled' | 'completed' | 'no_show',
         reason?: string,
         auditContext?: { userId: number; actorType: 'admin' | 'owner' | 'staff' },
-        allowedVenueId?: number | null
+        allowedVenueId?: number | null,
+        emailOptions?: SeriesEmailOptions
     ): Promise<Booking> {
         logger.info(`Owner: Updating booking ${bookingId} status to ${status}`);
         let conn;
@@ -149,7 +371,7 @@ export class OwnerService {
             const currentStatus = booking.status;
             const venueId = booking.venue_id;
 
-            const endDateTime = new Date(`${booking.booking_date}T${booking.end_time}`);
+            const endDateTime = zonedTimeToUtc(getEndDate(booking.booking_date, booking.start_time, booking.end_time), booking.end_time, await getVenueTimeZone(conn, venueId));
             const now = new Date();
             if (endDateTime < now && (status === 'pending' || status === 'confirmed')) {
                 throw new Error('Für vergangene Buchungen kann der Status nur auf „Abgeschlossen“, „No-Show“ oder „Storniert“ gesetzt werden.');
@@ -167,6 +389,7 @@ export class OwnerService {
             updateQuery += ' WHERE id = ?';
             params.push(bookingId);
             await conn.query(updateQuery, params);
+            AvailabilityService.invalidateCache(venueId);
             const updated = await conn.query('SELECT * FROM bookings WHERE id = ?', [bookingId]) as Booking[];
             if (auditContext) {
                 await logBookingAction({
@@ -181,7 +404,7 @@ export class OwnerService {
                 });
             }
             try {
-                const forEmail = await BookingService.getBookingByIdWithDetails(bookingId);
+                const forEmail = emailOptions?.skipEmail ? null : await BookingService.getBookingByIdWithDetails(bookingId);
                 if (forEmail) {
                     const bookingForEmail: BookingForEmail = {
                         id: forEmail.id,
@@ -195,6 +418,9 @@ export class OwnerService {
                         service_name: forEmail.service_name,
                         staff_member_name: forEmail.staff_member_name,
                         booking_token: forEmail.booking_token,
+                        items: forEmail.items,
+                        total_amount: forEmail.total_amount,
+                        series_dates: emailOptions?.seriesDates,
                     };
                     if (status === 'confirmed') {
                         await sendConfirmation(bookingForEmail, currentStatus === 'cancelled');
@@ -208,6 +434,14 @@ export class OwnerService {
             } catch (emailErr) {
                 logger.error('Owner: Email after status update failed (booking updated)', emailErr);
             }
+            if (status === 'cancelled' && currentStatus !== 'cancelled') {
+                try {
+                    const { WaitlistService } = await import('./waitlist.service');
+                    await WaitlistService.offerForCancelledBooking(bookingId);
+                } catch (waitlistErr) {
+                    logger.error('Owner: Waitlist offer after cancel failed (booking updated)', waitlistErr);
+                }
+            }
             if (status === 'completed' && booking.customer_id) {
                 try {
                     const { awardPointsForBooking } = await import('./loyalty.service');
@@ -236,23 +470,33 @@ export class OwnerService {
             conn = await getConnection();
             const activeCondition = "status IN ('confirmed', 'completed')";
             const completedCondition = "status = 'completed'";
+            // Zeiträume in Ortszeit des Venues: heute, Woche ab Montag bis heute, ganzer Kalendermonat
+            const today = getZonedToday(await getVenueTimeZone(conn, venueId));
+            const weekStart = addDaysToDate(today, -((getDayOfWeek(today) + 6) % 7));
+            const monthStart = `${today.slice(0, 8)}01`;
+            const nextMonthStart = `${addDaysToDate(monthStart, 31).slice(0, 8)}01`;
+            const periodParams = [today, weekStart, addDaysToDate(today, 1), monthStart, nextMonthStart];
             const [bookingStats] = await conn.query(`
-                SELECT COUNT(CASE WHEN booking_date = CURDATE() AND ${activeCondition} THEN 1 END) as today,
-                    COUNT(CASE WHEN booking_date >= DATE_SUB(CURDATE(), INTERVAL (WEEKDAY(CURDATE())) DAY) AND booking_date < DATE_ADD(CURDATE(), INTERVAL 1 DAY) AND ${activeCondition} THEN 1 END) as this_week,
-                    COUNT(CASE WHEN MONTH(booking_date) = MONTH(CURDATE()) AND YEAR(booking_date) = YEAR(CURDATE()) AND ${activeCondition} THEN 1 END) as this_month,
+                SELECT COUNT(CASE WHEN booking_date = ? AND ${activeCondition} THEN 1 END) as today,
+                    COUNT(CASE WHEN booking_date >= ? AND booking_date < ? AND ${activeCondition} THEN 1 END) as this_week,
+                    COUNT(CASE WHEN booking_date >= ? AND booking_date < ? AND ${activeCondition} THEN 1 END) as this_month,
                     COUNT(CASE WHEN status = 'pending' THEN 1 END) as pending,
                     COUNT(CASE WHEN status = 'confirmed' THEN 1 END) as confirmed,
                     COUNT(CASE WHEN status = 'cancelled' THEN 1 END) as cancelled,
                     COUNT(CASE WHEN status = 'completed' THEN 1 END) as completed
                 FROM bookings WHERE venue_id = ?
-            `, [venueId]) as [{ today: bigint; this_week: bigint; this_month: bigint; pending: bigint; confirmed: bigint; cancelled: bigint; completed: bigint }];
+            `, [...periodParams, venueId]) as [{ today: bigint; this_week: bigint; this_month: bigint; pending: bigint; confirmed: bigint; cancelled: bigint; completed: bigint }];
             const [revenueStats] = await conn.query(`
-                SELECT COALESCE(SUM(CASE WHEN booking_date = CURDATE() AND ${completedCondition} THEN total_amount END), 0) as today,
-                    COALESCE(SUM(CASE WHEN booking_date >= DATE_SUB(CURDATE(), INTERVAL (WEEKDAY(CURDATE())) DAY) AND booking_date < DATE_ADD(CURDATE(), INTERVAL 1 DAY) AND ${completedCondition} THEN total_amount END), 0) as this_week,
-                    COALESCE(SUM(CASE WHEN MONTH(booking_date) = MONTH(CURDATE()) AND YEAR(booking_date) = YEAR(CURDATE()) AND ${completedCondition} THEN total_amount END), 0) as this_month,
+                SELECT COALESCE(SUM(CASE WHEN booking_date = ? AND ${completedCondition} THEN total_amount END), 0) as today,
+                    COALESCE(SUM(CASE WHEN booking_date >= ? AND booking_date < ? AND ${completedCondition} THEN total_amount END), 0) as this_week,
+                    COALESCE(SUM(CASE WHEN booking_date >= ? AND booking_date < ? AND ${completedCondition} THEN total_amount END), 0) as this_month,
                     COALESCE(SUM(CASE WHEN ${completedCondition} THEN total_amount END), 0) as total
                 FROM bookings WHERE venue_id = ?
-            `, [venueId]) as [{ today: string; this_week: string; this_month: string; total: string }];
+            `, [...periodParams, venueId]) as [{ today: string; this_week: string; this_month: string; total: string }];
+            const [groupRequestStats] = await conn.query(
+                "SELECT COUNT(*) as pending FROM group_requests WHERE venue_id = ? AND status = 'pending'",
+                [venueId]
+            ) as [{ pending: bigint }];
             const popularServices = await conn.query(`
                 SELECT b.service_id, s.name as service_name, COUNT(*) as booking_count, COALESCE(SUM(b.total_amount), 0) as total_revenue
                 FROM bookings b JOIN services s ON b.service_id = s.id
@@ -282,6 +526,7 @@ export class OwnerService {
                 },
                 popularServices: popularServices.map(s => ({ service_id: s.service_id, service_name: s.service_name, booking_count: Number(s.booking_count), total_revenue: parseFloat(s.total_revenue || '0') })),
                 popularTimeSlots: popularTimeSlots.map(t => ({ hour: t.hour, booking_count: Number(t.booking_count) })),
+                groupRequestsPending: Number(groupRequestStats?.pending || 0),
             };
         } catch (error) {
             logger.error('Owner: Error fetching stats', error);
@@ -296,7 +541,10 @@ export class OwnerService {
         try {
             conn = await getConnection();
             const services = await conn.query('SELECT * FROM services WHERE venue_id = ? ORDER BY name ASC', [venueId]) as Service[];
-            return services;
+            const durationRules = await AvailabilityService.getDurationRules(conn, services.map(s => s.id));
+            const resources = await AvailabilityService.getResourceRequirements(conn, services.map(s => s.id));
+            const staff = await getStaffLinks(conn, services.map(s => s.id));
+            return services.map(s => ({ ...s, duration_rules: durationRules.get(s.id) ?? [], resources: toServiceResources(resources.get(s.id)), staff: staff.get(s.id) ?? [] }));
         } catch (error) {
             logger.error('Owner: Error fetching services', error);
             throw error;
@@ -305,26 +553,84 @@ export class OwnerService {
         }
     }
 
-    static async updateService(serviceId: number, updates: { name?: string; description?: string; duration_minutes?: number; price?: number; is_active?: boolean }, venueId: number): Promise<Service> {
+    static async updateService(serviceId: number, updates: { name?: string; description?: string; duration_minutes?: number; price?: number; buffer_before_minutes?: number; buffer_after_minutes?: number; slot_interval_minutes?: number | null; min_party_size?: number | null; max_party_size?: number | null; overbooking_mode?: OverbookingMode | null; overbooking_value?: number | null; overbooking_cap?: number | null; duration_rules?: DurationRuleInput[]; resources?: ServiceResourceInput[]; staff?: StaffServiceInput[]; is_active?: boolean }, venueId: number): Promise<Service> {
         let conn;
         try {
             conn = await getConnection();
             const existing = await conn.query('SELECT * FROM services WHERE id = ?', [serviceId]) as Service[];
             if (existing.length === 0) throw new Error('Service not found');
             if (existing[0].venue_id !== venueId) throw new Error('Kein Zugriff auf diesen Service');
+            const minPartySize = updates.min_party_size !== undefined ? updates.min_party_size : existing[0].min_party_size;
+            const maxPartySize = updates.max_party_size !== undefined ? updates.max_party_size : existing[0].max_party_size;
+            if (minPartySize != null && maxPartySize != null && minPartySize > maxPartySize) {
+                throw new Error('Mindest-Personenzahl darf die Höchst-Personenzahl nicht überschreiten');
+            }
+            if (updates.duration_rules) checkDurationRules(updates.duration_rules);
+            if (updates.resources) await this.checkServiceResources(conn, updates.resources, venueId);
+            if (updates.staff) await this.checkServiceStaff(conn, updates.staff, serviceId);
             const updateFields: string[] = [];
-            const params: (string | number | boolean)[] = [];
+            const params: (string | number | boolean | null)[] = [];
             if (updates.name !== undefined) { updateFields.push('name = ?'); params.push(updates.name); }
             if (updates.description !== undefined) { updateFields.push('description = ?'); params.push(updates.description); }
             if (updates.duration_minutes !== undefined) { updateFields.push('duration_minutes = ?'); params.push(updates.duration_minutes); }
             if (updates.price !== undefined) { updateFields.push('price = ?'); params.push(updates.price); }
+            if (updates.buffer_before_minutes !== undefined) { updateFields.push('buffer_before_minutes = ?'); params.push(updates.buffer_before_minutes); }
+            if (updates.buffer_after_minutes !== undefined) { updateFields.push('buffer_after_minutes = ?'); params.push(updates.buffer_after_minutes); }
+            if (updates.slot_interval_minutes !== undefined) { updateFields.push('slot_interval_minutes = ?'); params.push(updates.slot_interval_minutes); }
+            if (updates.min_party_size !== undefined) { updateFields.push('min_party_size = ?'); params.push(updates.min_party_size); }
+            if (updates.max_party_size !== undefined) { updateFields.push('max_party_size = ?'); params.push(updates.max_party_size); }
+            if (updates.overbooking_mode !== undefined) { updateFields.push('overbooking_mode = ?'); params.push(updates.overbooking_mode); }
+            if (updates.overbooking_value !== undefined) { updateFields.push('overbooking_value = ?'); params.push(updates.overbooking_value); }
+            if (updates.overbooking_cap !== undefined) { updateFields.push('overbooking_cap = ?'); params.push(updates.overbooking_cap); }
             if (updates.is_active !== undefined) { updateFields.push('is_active = ?'); params.push(updates.is_active); }
-            if (updateFields.length === 0) return existing[0];
-            updateFields.push('updated_at = NOW()');
-            params.push(serviceId);
-            await conn.query(`UPDATE services SET ${updateFields.join(', ')} WHERE id = ?`, params);
+            if (updateFields.length === 0 && !updates.duration_rules && !updates.resources && !updates.staff) return existing[0];
+            await conn.beginTransaction();
+            try {
+                if (updateFields.length > 0) {
+                    updateFields.push('updated_at = NOW()');
+                    params.push(serviceId);
+                    await conn.query(`UPDATE services SET ${updateFields.join(', ')} WHERE id = ?`, params);
+                }
+                // Dauer-Regeln werden als Ganzes ersetzt
+                if (updates.duration_rules) {
+                    await conn.query('DELETE FROM service_duration_rules WHERE service_id = ?', [serviceId]);
+                    for (const rule of updates.duration_rules) {
+                        await conn.query(
+                            'INSERT INTO service_duration_rules (service_id, min_party_size, max_party_size, duration_minutes) VALUES (?, ?, ?, ?)',
+                            [serviceId, rule.min_party_size, rule.max_party_size, rule.duration_minutes]
+                        );
+                    }
+                }
+                // Ressourcenbedarf ebenso (bestehende Buchungen behalten ihre belegten Ressourcen)
+                if (updates.resources) {
+                    await conn.query('DELETE FROM service_resources WHERE service_id = ?', [serviceId]);
+                    for (const resource of updates.resources) {
+                        await conn.query(
+                            'INSERT INTO service_resources (service_id, resource_id, quantity) VALUES (?, ?, ?)',
+                            [serviceId, resource.resource_id, resource.quantity]
+                        );
+                    }
+                }
+                // Abweichende Dauer/Preis je Mitarbeiter (nur angegebene Mitarbeiter; wer die Leistung anbietet, ändert sich nicht)
+                if (updates.staff) {
+                    for (const link of updates.staff) {
+                        await conn.query(
+                            'UPDATE staff_services SET duration_minutes = ?, price = ? WHERE service_id = ? AND staff_member_id = ?',
+                            [link.duration_minutes, link.price, serviceId, link.staff_member_id]
+                        );
+                    }
+                }
+                await conn.commit();
+            } catch (error) {
+                await conn.rollback();
+                throw error;
+            }
+            AvailabilityService.invalidateCache(venueId);
             const updated = await conn.query('SELECT * FROM services WHERE id = ?', [serviceId]) as Service[];
-            return updated[0];
+            const durationRules = await AvailabilityService.getDurationRules(conn, [serviceId]);
+            const resources = await AvailabilityService.getResourceRequirements(conn, [serviceId]);
+            const staff = await getStaffLinks(conn, [serviceId]);
+            return { ...updated[0], duration_rules: durationRules.get(serviceId) ?? [], resources: toServiceResources(resources.get(serviceId)), staff: staff.get(serviceId) ?? [] };
         } catch (error) {
             logger.error('Owner: Error updating service', error);
             throw error;
@@ -333,7 +639,7 @@ export class OwnerService {
         }
     }
 
-    static async getAvailabilityRules(venueId: number): Promise<Array<{ id: number; venue_id: number | null; staff_member_id: number | null; staff_member_name?: string; day_of_week: number; start_time: string; end_time: string; is_active: boolean }>> {
+    static async getAvailabilityRules(venueId: number): Promise<AvailabilityRule[]> {
         let conn;
         try {
             conn = await getConnection();
@@ -344,7 +650,7 @@ export class OwnerService {
                 WHERE ar.venue_id = ? OR ar.staff_member_id IN (SELECT id FROM staff_members WHERE venue_id = ?)
                 ORDER BY ar.day_of_week, ar.start_time
             `, [venueId, venueId]);
-            return rules as Array<{ id: number; venue_id: number | null; staff_member_id: number | null; staff_member_name?: string; day_of_week: number; start_time: string; end_time: string; is_active: boolean }>;
+            return rules as AvailabilityRule[];
         } catch (error) {
             logger.error('Owner: Error fetching availability rules', error);
             throw error;
@@ -376,6 +682,7 @@ export class OwnerService {
             if (updateFields.length === 0) return;
             params.push(ruleId);
             await conn.query(`UPDATE availability_rules SET ${updateFields.join(', ')} WHERE id = ?`, params);
+            AvailabilityService.invalidateCache(venueId);
         } catch (error) {
             logger.error('Owner: Error updating availability rule', error);
             throw error;
@@ -384,18 +691,937 @@ export class OwnerService {
         }
     }
 
-    static async updateVenueSettings(venueId: number, updates: { booking_advance_hours?: number; cancellation_hours?: number; image_url?: string | null }): Promise<void> {
+    /** Legt eine Wochenregel im Grundplan (rule_set_id null) oder in einem Zeitplan an; Endzeit vor Startzeit = über Mitternacht. */
+    static async createAvailabilityRule(venueId: number, data: AvailabilityRuleInput): Promise<AvailabilityRule> {
+        let conn;
+        try {
+            conn = await getConnection();
+            const staffMemberId = data.staff_member_id ?? null;
+            if (staffMemberId !== null) {
+                const staff = await conn.query('SELECT id FROM staff_members WHERE id = ? AND venue_id = ?', [staffMemberId, venueId]) as Array<{ id: number }>;
+                if (staff.length === 0) throw new Error('Mitarbeiter nicht gefunden');
+            }
+            const ruleSetId = data.rule_set_id ?? null;
+            if (ruleSetId !== null) await this.getOwnedRuleSet(conn, ruleSetId, venueId);
+            if (AvailabilityService.timeStringToMinutes(data.start_time) === AvailabilityService.timeStringToMinutes(data.end_time)) {
+                throw new Error('Start- und Endzeit dürfen nicht gleich sein');
+            }
+            // Mitarbeiter-Regeln ohne venue_id (sonst würden sie als Öffnungszeiten des Geschäfts gelten)
+            const result = await conn.query(`
+                INSERT INTO availability_rules (venue_id, staff_member_id, rule_set_id, day_of_week, start_time, end_time, is_active)
+                VALUES (?, ?, ?, ?, ?, ?, true)
+            `, [staffMemberId === null ? venueId : null, staffMemberId, ruleSetId, data.day_of_week, data.start_time, data.end_time]);
+            AvailabilityService.invalidateCache(venueId);
+            const rows = await conn.query(`
+                SELECT ar.*, sm.name as staff_member_name
+                FROM availability_rules ar
+                LEFT JOIN staff_members sm ON ar.staff_member_id = sm.id
+                WHERE ar.id = ?
+            `, [Number(result.insertId)]) as AvailabilityRule[];
+            logger.info(`Owner: Availability rule created for venue ${venueId}`, { rule_set_id: ruleSetId, staff_member_id: staffMemberId });
+            return rows[0];
+        } catch (error) {
+            logger.error('Owner: Error creating availability rule', error);
+            throw error;
+        } finally {
+            if (conn) conn.release();
+        }
+    }
+
+    static async getAvailabilityRuleSets(venueId: number): Promise<AvailabilityRuleSet[]> {
+        let conn;
+        try {
+            conn = await getConnection();
+            return await conn.query(
+                'SELECT * FROM availability_rule_sets WHERE venue_id = ? ORDER BY valid_from IS NULL, valid_from, name',
+                [venueId]
+            ) as AvailabilityRuleSet[];
+        } catch (error) {
+            logger.error('Owner: Error fetching availability rule sets', error);
+            throw error;
+        } finally {
+            if (conn) conn.release();
+        }
+    }
+
+    /** Lädt einen Zeitplan und prüft, ob er zum Venue gehört. */
+    private static async getOwnedRuleSet(conn: Awaited<ReturnType<typeof getConnection>>, ruleSetId: number, venueId: number): Promise<AvailabilityRuleSet> {
+        const rows = await conn.query('SELECT * FROM availability_rule_sets WHERE id = ?', [ruleSetId]) as AvailabilityRuleSet[];
+        if (rows.length === 0) throw new Error('Zeitplan nicht gefunden');
+        if (rows[0].venue_id !== venueId) throw new Error('Kein Zugriff auf diesen Zeitplan');
+        return rows[0];
+    }
+
+    private static checkRuleSetRange(validFrom: string | null, validUntil: string | null): void {
+        if (validFrom && validUntil && validFrom > validUntil) throw new Error('Gültig ab darf nicht nach Gültig bis liegen');
+    }
+
+    /**
+     * Legt einen saisonalen Zeitplan an. Er startet als Kopie des Grundplans (Venue und Mitarbeiter),
+     * damit nur die abweichenden Zeiten angepasst werden müssen.
+     */
+    static async createAvailabilityRuleSet(venueId: number, data: AvailabilityRuleSetInput): Promise<AvailabilityRuleSet> {
+        let conn;
+        try {
+            conn = await getConnection();
+            const validFrom = data.valid_from ?? null;
+            const validUntil = data.valid_until ?? null;
+            this.checkRuleSetRange(validFrom, validUntil);
+            await conn.beginTransaction();
+            let ruleSetId: number;
+            try {
+                const result = await conn.query(
+                    'INSERT INTO availability_rule_sets (venue_id, name, valid_from, valid_until, is_active) VALUES (?, ?, ?, ?, ?)',
+                    [venueId, data.name, validFrom, validUntil, data.is_active ?? true]
+                );
+                ruleSetId = Number(result.insertId);
+                await conn.query(`
+                    INSERT INTO availability_rules (venue_id, staff_member_id, rule_set_id, day_of_week, start_time, end_time, is_active)
+                    SELECT venue_id, staff_member_id, ?, day_of_week, start_time, end_time, is_active
+                    FROM availability_rules
+                    WHERE rule_set_id IS NULL
+                    AND (venue_id = ? OR staff_member_id IN (SELECT id FROM staff_members WHERE venue_id = ?))
+                `, [ruleSetId, venueId, venueId]);
+                await conn.commit();
+            } catch (error) {
+                await conn.rollback();
+                throw error;
+            }
+            AvailabilityService.invalidateCache(venueId);
+            const rows = await conn.query('SELECT * FROM availability_rule_sets WHERE id = ?', [ruleSetId]) as AvailabilityRuleSet[];
+            logger.info(`Owner: Availability rule set created for venue ${venueId}`, { name: data.name, valid_from: validFrom, valid_until: validUntil });
+            return rows[0];
+        } catch (error) {
+            logger.error('Owner: Error creating availability rule set', error);
+            throw error;
+        } finally {
+            if (conn) conn.release();
+        }
+    }
+
+    static async updateAvailabilityRuleSet(ruleSetId: number, updates: AvailabilityRuleSetInput, venueId: number): Promise<void> {
+        let conn;
+        try {
+            conn = await getConnection();
+            const ruleSet = await this.getOwnedRuleSet(conn, ruleSetId, venueId);
+            this.checkRuleSetRange(
+                updates.valid_from !== undefined ? updates.valid_from : ruleSet.valid_from,
+                updates.valid_until !== undefined ? updates.valid_until : ruleSet.valid_until
+            );
+            const updateFields: string[] = [];
+            const params: (string | number | boolean | null)[] = [];
+            if (updates.name !== undefined) { updateFields.push('name = ?'); params.push(updates.name); }
+            if (updates.valid_from !== undefined) { updateFields.push('valid_from = ?'); params.push(updates.valid_from); }
+            if (updates.valid_until !== undefined) { updateFields.push('valid_until = ?'); params.push(updates.valid_until); }
+            if (updates.is_active !== undefined) { updateFields.push('is_active = ?'); params.push(updates.is_active); }
+            if (updateFields.length === 0) return;
+            params.push(ruleSetId);
+            await conn.query(`UPDATE availability_rule_sets SET ${updateFields.join(', ')}, updated_at = NOW() WHERE id = ?`, params);
+            AvailabilityService.invalidateCache(venueId);
+        } catch (error) {
+            logger.error('Owner: Error updating availability rule set', error);
+            throw error;
+        } finally {
+            if (conn) conn.release();
+        }
+    }
+
+    /** Löscht einen Zeitplan samt seinen Regeln (ON DELETE CASCADE); danach gilt wieder der Grundplan bzw. ein anderer Zeitplan. */
+    static async deleteAvailabilityRuleSet(ruleSetId: number, venueId: number): Promise<void> {
+        let conn;
+        try {
+            conn = await getConnection();
+            await this.getOwnedRuleSet(conn, ruleSetId, venueId);
+            await conn.query('DELETE FROM availability_rule_sets WHERE id = ?', [ruleSetId]);
+            AvailabilityService.invalidateCache(venueId);
+        } catch (error) {
+            logger.error('Owner: Error deleting availability rule set', error);
+            throw error;
+        } finally {
+            if (conn) conn.release();
+        }
+    }
+
+    /**
+     * Welcher Zeitplan gilt an einem Datum und mit welchen Regeln (Auswahl wie bei der Slot-Berechnung,
+     * siehe AvailabilityService.rulesInForce). Sonderverfügbarkeiten und Schichtänderungen sind nicht enthalten.
+     */
+    static async getAvailabilitySchedule(venueId: number, date: string): Promise<AvailabilitySchedule> {
+        let conn;
+        try {
+            conn = await getConnection();
+            const rules = await conn.query(`
+                SELECT ar.*, sm.name as staff_member_name
+                FROM availability_rules ar
+                LEFT JOIN staff_members sm ON ar.staff_member_id = sm.id
+                WHERE (ar.venue_id = ? OR ar.staff_member_id IN (SELECT id FROM staff_members WHERE venue_id = ?))
+                AND ar.is_active = true
+                ORDER BY ar.start_time
+            `, [venueId, venueId]) as AvailabilityRule[];
+            const ruleSets = await AvailabilityService.getRuleSets(conn, [venueId]);
+            const dayOfWeek = getDayOfWeek(date);
+            // Je Geschäft bzw. Mitarbeiter auswählen – wer im Zeitplan keine Regeln hat, behält den Grundplan
+            const ownerKeys = [...new Set(rules.map(rule => rule.staff_member_id ?? 0))];
+            const rulesInForce = ownerKeys.flatMap(ownerKey =>
+                AvailabilityService.rulesInForce(rules.filter(rule => (rule.staff_member_id ?? 0) === ownerKey), ruleSets, date)
+            );
+            return {
+                date,
+                rule_set: AvailabilityService.resolveRuleSet(ruleSets, date),
+                rules: rulesInForce
+                    .filter(rule => rule.day_of_week === dayOfWeek)
+                    .sort((a, b) => (a.staff_member_id ?? 0) - (b.staff_member_id ?? 0) || a.start_time.localeCompare(b.start_time)),
+            };
+        } catch (error) {
+            logger.error('Owner: Error fetching availability schedule', error);
+            throw error;
+        } finally {
+            if (conn) conn.release();
+        }
+    }
+
+    /** Diagnose: alle Kandidaten eines Tages mit den Gründen, warum sie (nicht) buchbar sind (siehe AvailabilityService.explainDaySlots). */
+    static async explainAvailability(venueId: number, params: { date: string; service_id: number; staff_member_id: number | null; party_size: number }): Promise<AvailabilityExplanation> {
+        let conn;
+        try {
+            conn = await getConnection();
+            return await AvailabilityService.explainDaySlots(conn, venueId, params.service_id, params.date, params.staff_member_id, params.party_size);
+        } catch (error) {
+            logger.error('Owner: Error explaining availability', error);
+            throw error;
+        } finally {
+            if (conn) conn.release();
+        }
+    }
+
+    static async getAvailabilityExceptions(venueId: number, filters?: { from?: string; to?: string }): Promise<AvailabilityException[]> {
+        let conn;
+        try {
+            conn = await getConnection();
+            let query = `
+                SELECT sa.*, sm.name as staff_member_name
+                FROM special_availability sa
+                LEFT JOIN staff_members sm ON sa.staff_member_id = sm.id
+                WHERE (sa.venue_id = ? OR sa.staff_member_id IN (SELECT id FROM staff_members WHERE venue_id = ?))
+            `;
+            const params: (number | string)[] = [venueId, venueId];
+            if (filters?.from) { query += ' AND sa.date >= ?'; params.push(filters.from); }
+            if (filters?.to) { query += ' AND sa.date <= ?'; params.push(filters.to); }
+            query += ' ORDER BY sa.date, sa.start_time';
+            return await conn.query(query, params) as AvailabilityException[];
+        } catch (error) {
+            logger.error('Owner: Error fetching availability exceptions', error);
+            throw error;
+        } finally {
+            if (conn) conn.release();
+        }
+    }
+
+    /** Lädt eine Ausnahme und prüft, ob sie zum Venue (oder einem seiner Mitarbeiter) gehört. */
+    private static async getOwnedAvailabilityException(conn: Awaited<ReturnType<typeof getConnection>>, exceptionId: number, venueId: number): Promise<SpecialAvailability> {
+        const rows = await conn.query('SELECT * FROM special_availability WHERE id = ?', [exceptionId]) as SpecialAvailability[];
+        if (rows.length === 0) throw new Error('Ausnahme nicht gefunden');
+        const exception = rows[0];
+        if (exception.venue_id !== null) {
+            if (exception.venue_id !== venueId) throw new Error('Kein Zugriff auf diese Ausnahme');
+        } else if (exception.staff_member_id != null) {
+            const staff = await conn.query('SELECT venue_id FROM staff_members WHERE id = ?', [exception.staff_member_id]) as Array<{ venue_id: number }>;
+            if (staff.length === 0 || staff[0].venue_id !== venueId) throw new Error('Kein Zugriff auf diese Ausnahme');
+        } else {
+            throw new Error('Kein Zugriff auf diese Ausnahme');
+        }
+        return exception;
+    }
+
+    static async createAvailabilityException(venueId: number, data: AvailabilityExceptionInput): Promise<AvailabilityException> {
+        let conn;
+        try {
+            conn = await getConnection();
+            const staffMemberId = data.staff_member_id ?? null;
+            if (staffMemberId !== null) {
+                const staff = await conn.query('SELECT id FROM staff_members WHERE id = ? AND venue_id = ?', [staffMemberId, venueId]) as Array<{ id: number }>;
+                if (staff.length === 0) throw new Error('Mitarbeiter nicht gefunden');
+            }
+            const startTime = data.start_time || null;
+            const endTime = data.end_time || null;
+            const isAvailable = data.is_available === true;
+            validateExceptionTimes(startTime, endTime, isAvailable);
+            // Mitarbeiter-Ausnahmen ohne venue_id (analog availability_rules), sonst würde der Urlaub das ganze Venue schließen
+            const result = await conn.query(`
+                INSERT INTO special_availability (venue_id, staff_member_id, date, start_time, end_time, is_available, reason)
+                VALUES (?, ?, ?, ?, ?, ?, ?)
+            `, [staffMemberId === null ? venueId : null, staffMemberId, data.date, startTime, endTime, isAvailable, data.reason || null]);
+            AvailabilityService.invalidateCache(venueId);
+            const rows = await conn.query(`
+                SELECT sa.*, sm.name as staff_member_name
+                FROM special_availability sa
+                LEFT JOIN staff_members sm ON sa.staff_member_id = sm.id
+                WHERE sa.id = ?
+            `, [Number(result.insertId)]) as AvailabilityException[];
+            logger.info(`Owner: Availability exception created for venue ${venueId}`, { date: data.date, staff_member_id: staffMemberId });
+            return rows[0];
+        } catch (error) {
+            logger.error('Owner: Error creating availability exception', error);
+            throw error;
+        } finally {
+            if (conn) conn.release();
+        }
+    }
+
+    static async updateAvailabilityException(exceptionId: number, updates: AvailabilityExceptionInput, venueId: number): Promise<void> {
         let conn;
         try {
             conn = await getConnection();
+            const exception = await this.getOwnedAvailabilityException(conn, exceptionId, venueId);
+            const startTime = updates.start_time !== undefined ? (updates.start_time || null) : exception.start_time;
+            const endTime = updates.end_time !== undefined ? (updates.end_time || null) : exception.end_time;
+            const isAvailable = updates.is_available !== undefined ? updates.is_available : !!exception.is_available;
+            validateExceptionTimes(startTime, endTime, isAvailable);
+            const updateFields: string[] = [];
+            const params: (string | boolean | number | null)[] = [];
+            if (updates.date !== undefined) { updateFields.push('date = ?'); params.push(updates.date); }
+            if (updates.start_time !== undefined) { updateFields.push('start_time = ?'); params.push(startTime); }
+            if (updates.end_time !== undefined) { updateFields.push('end_time = ?'); params.push(endTime); }
+            if (updates.is_available !== undefined) { updateFields.push('is_available = ?'); params.push(isAvailable); }
+            if (updates.reason !== undefined) { updateFields.push('reason = ?'); params.push(updates.reason || null); }
+            if (updateFields.length === 0) return;
+            params.push(exceptionId);
+            await conn.query(`UPDATE special_availability SET ${updateFields.join(', ')} WHERE id = ?`, params);
+            AvailabilityService.invalidateCache(venueId);
+        } catch (error) {
+            logger.error('Owner: Error updating availability exception', error);
+            throw error;
+        } finally {
+            if (conn) conn.release();
+        }
+    }
+
+    static async deleteAvailabilityException(exceptionId: number, venueId: number): Promise<void> {
+        let conn;
+        try {
+            conn = await getConnection();
+            await this.getOwnedAvailabilityException(conn, exceptionId, venueId);
+            await conn.query('DELETE FROM special_availability WHERE id = ?', [exceptionId]);
+            AvailabilityService.invalidateCache(venueId);
+        } catch (error) {
+            logger.error('Owner: Error deleting availability exception', error);
+            throw error;
+        } finally {
+            if (conn) conn.release();
+        }
+    }
+
+    static async getStaffScheduleOverrides(venueId: number, filters?: { from?: string; to?: string; staff_member_id?: number }): Promise<StaffScheduleOverrideWithNames[]> {
+        let conn;
+        try {
+            conn = await getConnection();
+            let query = `${STAFF_SCHEDULE_OVERRIDE_SELECT} WHERE sm.venue_id = ?`;
+            const params: (number | string)[] = [venueId];
+            // Einträge, die den Zeitraum berühren (auch mehrtägige, die vorher beginnen)
+            if (filters?.from) { query += ' AND o.end_date >= ?'; params.push(filters.from); }
+            if (filters?.to) { query += ' AND o.start_date <= ?'; params.push(filters.to); }
+            if (filters?.staff_member_id) { query += ' AND o.staff_member_id = ?'; params.push(filters.staff_member_id); }
+            query += ' ORDER BY o.start_date, o.start_time, sm.name';
+            return await conn.query(query, params) as StaffScheduleOverrideWithNames[];
+        } catch (error) {
+            logger.error('Owner: Error fetching staff schedule overrides', error);
+            throw error;
+        } finally {
+            if (conn) conn.release();
+        }
+    }
+
+    /** Lädt eine Abwesenheit/Schichtänderung und prüft, ob der Mitarbeiter zum Venue gehört. */
+    private static async getOwnedStaffScheduleOverride(conn: Awaited<ReturnType<typeof getConnection>>, overrideId: number, venueId: number): Promise<StaffScheduleOverride> {
+        const rows = await conn.query(`
+            SELECT o.*, sm.venue_id FROM staff_schedule_overrides o
+            JOIN staff_members sm ON o.staff_member_id = sm.id
+            WHERE o.id = ?
+        `, [overrideId]) as Array<StaffScheduleOverride & { venue_id: number }>;
+        if (rows.length === 0) throw new Error('Eintrag nicht gefunden');
+        if (rows[0].venue_id !== venueId) throw new Error('Kein Zugriff auf diesen Eintrag');
+        return rows[0];
+    }
+
+    /** Lädt einen Eintrag mit Namen und die Termine, die nun außerhalb der Arbeitszeit des Mitarbeiters liegen. */
+    private static async getStaffScheduleOverrideResult(conn: Awaited<ReturnType<typeof getConnection>>, overrideId: number, venueId: number): Promise<StaffScheduleOverrideResult> {
+        const rows = await conn.query(`${STAFF_SCHEDULE_OVERRIDE_SELECT} WHERE o.id = ?`, [overrideId]) as StaffScheduleOverrideWithNames[];
+        const override = rows[0];
+        const conflicts = await AvailabilityService.getStaffScheduleConflicts(
+            conn, venueId, override.start_date, override.end_date, override.staff_member_id
+        );
+        if (conflicts.length > 0) {
+            logger.warn(`Owner: ${conflicts.length} booking(s) now outside staff schedule`, { override_id: overrideId, booking_ids: conflicts.map(c => c.booking_id) });
+        }
+        return { override, conflicts };
+    }
+
+    static async createStaffScheduleOverride(venueId: number, userId: number | null, data: StaffScheduleOverrideInput): Promise<StaffScheduleOverrideResult> {
+        let conn;
+        try {
+            conn = await getConnection();
+            const staff = await conn.query('SELECT id FROM staff_members WHERE id = ? AND venue_id = ?', [data.staff_member_id, venueId]) as Array<{ id: number }>;
+            if (staff.length === 0) throw new Error('Mitarbeiter nicht gefunden');
+            const type = data.type ?? 'time_off';
+            const startDate = data.start_date!;
+            const endDate = data.end_date || startDate;
+            const startTime = data.start_time || null;
+            const endTime = data.end_time || null;
+            validateOverride(type, startDate, endDate, startTime, endTime);
+            // Angelegt vom Owner = freigegeben durch ihn
+            const result = await conn.query(`
+                INSERT INTO staff_schedule_overrides (staff_member_id, type, start_date, end_date, start_time, end_time, reason, approved_by, approved_at)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+            `, [data.staff_member_id, type, startDate, endDate, startTime, endTime, data.reason || null, userId, userId !== null ? new Date() : null]);
+            AvailabilityService.invalidateCache(venueId);
+            logger.info(`Owner: Staff schedule override created for venue ${venueId}`, { staff_member_id: data.staff_member_id, type, start_date: startDate, end_date: endDate });
+            return await this.getStaffScheduleOverrideResult(conn, Number(result.insertId), venueId);
+        } catch (error) {
+            logger.error('Owner: Error creating staff schedule override', error);
+            throw error;
+        } finally {
+            if (conn) conn.release();
+        }
+    }
+
+    static async updateStaffScheduleOverride(overrideId: number, userId: number | null, updates: StaffScheduleOverrideInput, venueId: number): Promise<StaffScheduleOverrideResult> {
+        let conn;
+        try {
+            conn = await getConnection();
+            const existing = await this.getOwnedStaffScheduleOverride(conn, overrideId, venueId);
+            const type = updates.type ?? existing.type;
+            const startDate = updates.start_date ?? existing.start_date;
+            const endDate = updates.end_date ?? existing.end_date;
+            const startTime = updates.start_time !== undefined ? (updates.start_time || null) : existing.start_time;
+            const endTime = updates.end_time !== undefined ? (updates.end_time || null) : existing.end_time;
+            validateOverride(type, startDate, endDate, startTime, endTime);
+            const updateFields: string[] = [];
+            const params: (string | number | Date | null)[] = [];
+            if (updates.type !== undefined) { updateFields.push('type = ?'); params.push(type); }
+            if (updates.start_date !== undefined) { updateFields.push('start_date = ?'); params.push(startDate); }
+            if (updates.end_date !== undefined) { updateFields.push('end_date = ?'); params.push(endDate); }
+            if (updates.start_time !== undefined) { updateFields.push('start_time = ?'); params.push(startTime); }
+            if (updates.end_time !== undefined) { updateFields.push('end_time = ?'); params.push(endTime); }
+            if (updates.reason !== undefined) { updateFields.push('reason = ?'); params.push(updates.reason || null); }
+            if (updateFields.length > 0) {
+                // Änderung = erneute Freigabe durch den bearbeitenden Owner
+                updateFields.push('approved_by = ?', 'approved_at = ?');
+                params.push(userId, userId !== null ? new Date() : null, overrideId);
+                await conn.query(`UPDATE staff_schedule_overrides SET ${updateFields.join(', ')} WHERE id = ?`, params);
+                AvailabilityService.invalidateCache(venueId);
+            }
+            return await this.getStaffScheduleOverrideResult(conn, overrideId, venueId);
+        } catch (error) {
+            logger.error('Owner: Error updating staff schedule override', error);
+            throw error;
+        } finally {
+            if (conn) conn.release();
+        }
+    }
+
+    static async deleteStaffScheduleOverride(overrideId: number, venueId: number): Promise<void> {
+        let conn;
+        try {
+            conn = await getConnection();
+            await this.getOwnedStaffScheduleOverride(conn, overrideId, venueId);
+            await conn.query('DELETE FROM staff_schedule_overrides WHERE id = ?', [overrideId]);
+            AvailabilityService.invalidateCache(venueId);
+        } catch (error) {
+            logger.error('Owner: Error deleting staff schedule override', error);
+            throw error;
+        } finally {
+            if (conn) conn.release();
+        }
+    }
+
+    /** Offene Termine im Zeitraum, die nicht (mehr) in die Arbeitszeiten ihres Mitarbeiters passen (Kalender-Warnung). */
+    static async getStaffScheduleConflicts(venueId: number, from: string, to: string): Promise<StaffScheduleConflict[]> {
+        let conn;
+        try {
+            conn = await getConnection();
+            return await AvailabilityService.getStaffScheduleConflicts(conn, venueId, from, to);
+        } catch (error) {
+            logger.error('Owner: Error fetching staff schedule conflicts', error);
+            throw error;
+        } finally {
+            if (conn) conn.release();
+        }
+    }
+
+    static async getTables(venueId: number): Promise<VenueTable[]> {
+        let conn;
+        try {
+            conn = await getConnection();
+            return await conn.query('SELECT * FROM venue_tables WHERE venue_id = ? ORDER BY area, name', [venueId]) as VenueTable[];
+        } catch (error) {
+            logger.error('Owner: Error fetching tables', error);
+            throw error;
+        } finally {
+            if (conn) conn.release();
+        }
+    }
+
+    /** Lädt einen Tisch und prüft, ob er zum Venue gehört. */
+    private static async getOwnedTable(conn: Awaited<ReturnType<typeof getConnection>>, tableId: number, venueId: number): Promise<VenueTable> {
+        const rows = await conn.query('SELECT * FROM venue_tables WHERE id = ?', [tableId]) as VenueTable[];
+        if (rows.length === 0) throw new Error('Tisch nicht gefunden');
+        if (rows[0].venue_id !== venueId) throw new Error('Kein Zugriff auf diesen Tisch');
+        return rows[0];
+    }
+
+    static async createTable(venueId: number, data: VenueTableInput): Promise<VenueTable> {
+        let conn;
+        try {
+            conn = await getConnection();
+            const minSeats = data.min_seats ?? 1;
+            const maxSeats = data.max_seats as number;
+            if (minSeats > maxSeats) throw new Error('Mindestplätze dürfen die maximalen Plätze nicht überschreiten');
+            const result = await conn.query(`
+                INSERT INTO venue_tables (venue_id, name, area, min_seats, max_seats, combine_group, is_active)
+                VALUES (?, ?, ?, ?, ?, ?, ?)
+            `, [venueId, data.name, data.area || null, minSeats, maxSeats, data.combine_group || null, data.is_active ?? true]);
+            AvailabilityService.invalidateCache(venueId);
+            const rows = await conn.query('SELECT * FROM venue_tables WHERE id = ?', [Number(result.insertId)]) as VenueTable[];
+            logger.info(`Owner: Table created for venue ${venueId}`, { name: data.name });
+            return rows[0];
+        } catch (error) {
+            logger.error('Owner: Error creating table', error);
+            throw error;
+        } finally {
+            if (conn) conn.release();
+        }
+    }
+
+    static async updateTable(tableId: number, updates: VenueTableInput, venueId: number): Promise<void> {
+        let conn;
+        try {
+            conn = await getConnection();
+            const table = await this.getOwnedTable(conn, tableId, venueId);
+            if ((updates.min_seats ?? table.min_seats) > (updates.max_seats ?? table.max_seats)) {
+                throw new Error('Mindestplätze dürfen die maximalen Plätze nicht überschreiten');
+            }
+            const updateFields: string[] = [];
+            const params: (string | number | boolean | null)[] = [];
+            if (updates.name !== undefined) { updateFields.push('name = ?'); params.push(updates.name); }
+            if (updates.area !== undefined) { updateFields.push('area = ?'); params.push(updates.area || null); }
+            if (updates.min_seats !== undefined) { updateFields.push('min_seats = ?'); params.push(updates.min_seats); }
+            if (updates.max_seats !== undefined) { updateFields.push('max_seats = ?'); params.push(updates.max_seats); }
+            if (updates.combine_group !== undefined) { updateFields.push('combine_group = ?'); params.push(updates.combine_group || null); }
+            if (updates.is_active !== undefined) { updateFields.push('is_active = ?'); params.push(updates.is_active); }
+            if (updateFields.length === 0) return;
+            params.push(tableId);
+            await conn.query(`UPDATE venue_tables SET ${updateFields.join(', ')}, updated_at = NOW() WHERE id = ?`, params);
+            AvailabilityService.invalidateCache(venueId);
+        } catch (error) {
+            logger.error('Owner: Error updating table', error);
+            throw error;
+        } finally {
+            if (conn) conn.release();
+        }
+    }
+
+    static async deleteTable(tableId: number, venueId: number): Promise<void> {
+        let conn;
+        try {
+            conn = await getConnection();
+            await this.getOwnedTable(conn, tableId, venueId);
+            // Tische mit kommenden Buchungen nicht löschen (Zuweisung würde verloren gehen) – stattdessen deaktivieren
+            const upcoming = await conn.query(`
+                SELECT COUNT(*) as count
+                FROM booking_tables bt
+                JOIN bookings b ON bt.booking_id = b.id
+                WHERE bt.table_id = ? AND b.booking_date >= ? AND b.status IN ('pending', 'confirmed')
+            `, [tableId, getZonedToday(await getVenueTimeZone(conn, venueId))]) as [{ count: bigint }];
+            if (Number(upcoming[0]?.count || 0) > 0) throw new Error('Tisch hat kommende Buchungen und kann nur deaktiviert werden');
+            await conn.query('DELETE FROM venue_tables WHERE id = ?', [tableId]);
+            AvailabilityService.invalidateCache(venueId);
+        } catch (error) {
+            logger.error('Owner: Error deleting table', error);
+            throw error;
+        } finally {
+            if (conn) conn.release();
+        }
+    }
+
+    static async getResources(venueId: number): Promise<Resource[]> {
+        let conn;
+        try {
+            conn = await getConnection();
+            return await conn.query('SELECT * FROM resources WHERE venue_id = ? ORDER BY name', [venueId]) as Resource[];
+        } catch (error) {
+            logger.error('Owner: Error fetching resources', error);
+            throw error;
+        } finally {
+            if (conn) conn.release();
+        }
+    }
+
+    /** Lädt eine Ressource und prüft, ob sie zum Venue gehört. */
+    private static async getOwnedResource(conn: Awaited<ReturnType<typeof getConnection>>, resourceId: number, venueId: number): Promise<Resource> {
+        const rows = await conn.query('SELECT * FROM resources WHERE id = ?', [resourceId]) as Resource[];
+        if (rows.length === 0) throw new Error('Ressource nicht gefunden');
+        if (rows[0].venue_id !== venueId) throw new Error('Kein Zugriff auf diese Ressource');
+        return rows[0];
+    }
+
+    /** Ressourcenbedarf einer Leistung: nur Ressourcen des Venues, jede einmal und höchstens mit ihrem Bestand. */
+    private static async checkServiceResources(conn: Awaited<ReturnType<typeof getConnection>>, requirements: ServiceResourceInput[], venueId: number): Promise<void> {
+        if (new Set(requirements.map(r => r.resource_id)).size !== requirements.length) throw new Error('Ressource: jede Ressource nur einmal angeben');
+        for (const requirement of requirements) {
+            const rows = await conn.query('SELECT * FROM resources WHERE id = ? AND venue_id = ?', [requirement.resource_id, venueId]) as Resource[];
+            if (rows.length === 0) throw new Error('Ressource nicht gefunden');
+            if (requirement.quantity > rows[0].quantity) throw new Error(`Ressource: ${rows[0].name} hat nur ${rows[0].quantity} Einheiten`);
+        }
+    }
+
+    /** Abweichende Werte je Mitarbeiter: nur für Mitarbeiter, die die Leistung anbieten, jeder einmal. */
+    private static async checkServiceStaff(conn: Awaited<ReturnType<typeof getConnection>>, links: StaffServiceInput[], serviceId: number): Promise<void> {
+        if (new Set(links.map(l => l.staff_member_id)).size !== links.length) throw new Error('Mitarbeiter: jeden Mitarbeiter nur einmal angeben');
+        const rows = await conn.query('SELECT staff_member_id FROM staff_services WHERE service_id = ?', [serviceId]) as { staff_member_id: number }[];
+        const offered = new Set(rows.map(row => row.staff_member_id));
+        if (links.some(l => !offered.has(l.staff_member_id))) throw new Error('Mitarbeiter bietet diese Leistung nicht an');
+    }
+
+    static async createResource(venueId: number, data: ResourceInput): Promise<Resource> {
+        let conn;
+        try {
+            conn = await getConnection();
+            const result = await conn.query(
+                'INSERT INTO resources (venue_id, name, quantity, is_active) VALUES (?, ?, ?, ?)',
+                [venueId, data.name, data.quantity ?? 1, data.is_active ?? true]
+            );
+            const rows = await conn.query('SELECT * FROM resources WHERE id = ?', [Number(result.insertId)]) as Resource[];
+            logger.info(`Owner: Resource created for venue ${venueId}`, { name: data.name });
+            return rows[0];
+        } catch (error) {
+            logger.error('Owner: Error creating resource', error);
+            throw error;
+        } finally {
+            if (conn) conn.release();
+        }
+    }
+
+    static async updateResource(resourceId: number, updates: ResourceInput, venueId: number): Promise<void> {
+        let conn;
+        try {
+            conn = await getConnection();
+            await this.getOwnedResource(conn, resourceId, venueId);
+            if (updates.quantity !== undefined) {
+                // Bestand nicht unter den Bedarf einer Leistung senken – sie wäre sonst nie buchbar
+                const needed = await conn.query('SELECT MAX(quantity) as max_quantity FROM service_resources WHERE resource_id = ?', [resourceId]) as [{ max_quantity: number | null }];
+                if (needed[0]?.max_quantity != null && updates.quantity < needed[0].max_quantity) {
+                    throw new Error('Anzahl ist kleiner als der Bedarf einer Leistung');
+                }
+            }
+            const updateFields: string[] = [];
+            const params: (string | number | boolean)[] = [];
+            if (updates.name !== undefined) { updateFields.push('name = ?'); params.push(updates.name); }
+            if (updates.quantity !== undefined) { updateFields.push('quantity = ?'); params.push(updates.quantity); }
+            if (updates.is_active !== undefined) { updateFields.push('is_active = ?'); params.push(updates.is_active); }
+            if (updateFields.length === 0) return;
+            params.push(resourceId);
+            await conn.query(`UPDATE resources SET ${updateFields.join(', ')}, updated_at = NOW() WHERE id = ?`, params);
+            AvailabilityService.invalidateCache(venueId);
+        } catch (error) {
+            logger.error('Owner: Error updating resource', error);
+            throw error;
+        } finally {
+            if (conn) conn.release();
+        }
+    }
+
+    static async deleteResource(resourceId: number, venueId: number): Promise<void> {
+        let conn;
+        try {
+            conn = await getConnection();
+            await this.getOwnedResource(conn, resourceId, venueId);
+            // Ressourcen mit kommenden Buchungen nicht löschen (Belegung würde verloren gehen) – stattdessen deaktivieren
+            const upcoming = await conn.query(`
+                SELECT COUNT(*) as count
+                FROM booking_resources br
+                JOIN bookings b ON br.booking_id = b.id
+                WHERE br.resource_id = ? AND b.booking_date >= ? AND b.status IN ('pending', 'confirmed')
+            `, [resourceId, getZonedToday(await getVenueTimeZone(conn, venueId))]) as [{ count: bigint }];
+            if (Number(upcoming[0]?.count || 0) > 0) throw new Error('Ressource hat kommende Buchungen und kann nur deaktiviert werden');
+            await conn.query('DELETE FROM resources WHERE id = ?', [resourceId]);
+            AvailabilityService.invalidateCache(venueId);
+        } catch (error) {
+            logger.error('Owner: Error deleting resource', error);
+            throw error;
+        } finally {
+            if (conn) conn.release();
+        }
+    }
+
+    static async getPacingRules(venueId: number): Promise<PacingRule[]> {
+        let conn;
+        try {
+            conn = await getConnection();
+            return await conn.query(
+                'SELECT * FROM pacing_rules WHERE venue_id = ? ORDER BY day_of_week IS NOT NULL, day_of_week, start_time',
+                [venueId]
+            ) as PacingRule[];
+        } catch (error) {
+            logger.error('Owner: Error fetching pacing rules', error);
+            throw error;
+        } finally {
+            if (conn) conn.release();
+        }
+    }
+
+    /** Lädt eine Pacing-Regel und prüft, ob sie zum Venue gehört. */
+    private static async getOwnedPacingRule(conn: Awaited<ReturnType<typeof getConnection>>, ruleId: number, venueId: number): Promise<PacingRule> {
+        const rows = await conn.query('SELECT * FROM pacing_rules WHERE id = ?', [ruleId]) as PacingRule[];
+        if (rows.length === 0) throw new Error('Pacing-Regel nicht gefunden');
+        if (rows[0].venue_id !== venueId) throw new Error('Kein Zugriff auf diese Pacing-Regel');
+        return rows[0];
+    }
+
+    /** Mindestens ein Limit (Gäste oder Gruppen) muss gesetzt sein, sonst begrenzt die Regel nichts. */
+    private static checkPacingRule(rule: { start_time: string; end_time: string; max_covers: number | null; max_parties: number | null }): void {
+        if (rule.start_time >= rule.end_time) throw new Error('Startzeit muss vor der Endzeit liegen');
+        if (rule.max_covers == null && rule.max_parties == null) throw new Error('Mindestens ein Limit (Gäste oder Gruppen) angeben');
+    }
+
+    static async createPacingRule(venueId: number, data: PacingRuleInput): Promise<PacingRule> {
+        let conn;
+        try {
+            conn = await getConnection();
+            const rule = {
+                start_time: data.start_time as string,
+                end_time: data.end_time as string,
+                max_covers: data.max_covers ?? null,
+                max_parties: data.max_parties ?? null,
+            };
+            this.checkPacingRule(rule);
+            const result = await conn.query(`
+                INSERT INTO pacing_rules (venue_id, name, day_of_week, start_time, end_time, interval_minutes, max_covers, max_parties, is_active)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+            `, [venueId, data.name, data.day_of_week ?? null, rule.start_time, rule.end_time, data.interval_minutes ?? 15, rule.max_covers, rule.max_parties, data.is_active ?? true]);
+            AvailabilityService.invalidateCache(venueId);
+            const rows = await conn.query('SELECT * FROM pacing_rules WHERE id = ?', [Number(result.insertId)]) as PacingRule[];
+            logger.info(`Owner: Pacing rule created for venue ${venueId}`, { name: data.name });
+            return rows[0];
+        } catch (error) {
+            logger.error('Owner: Error creating pacing rule', error);
+            throw error;
+        } finally {
+            if (conn) conn.release();
+        }
+    }
+
+    static async updatePacingRule(ruleId: number, updates: PacingRuleInput, venueId: number): Promise<void> {
+        let conn;
+        try {
+            conn = await getConnection();
+            const rule = await this.getOwnedPacingRule(conn, ruleId, venueId);
+            this.checkPacingRule({
+                start_time: updates.start_time ?? rule.start_time,
+                end_time: updates.end_time ?? rule.end_time,
+                max_covers: updates.max_covers !== undefined ? updates.max_covers : rule.max_covers,
+                max_parties: updates.max_parties !== undefined ? updates.max_parties : rule.max_parties,
+            });
+            const updateFields: string[] = [];
+            const params: (string | number | boolean | null)[] = [];
+            if (updates.name !== undefined) { updateFields.push('name = ?'); params.push(updates.name); }
+            if (updates.day_of_week !== undefined) { updateFields.push('day_of_week = ?'); params.push(updates.day_of_week); }
+            if (updates.start_time !== undefined) { updateFields.push('start_time = ?'); params.push(updates.start_time); }
+            if (updates.end_time !== undefined) { updateFields.push('end_time = ?'); params.push(updates.end_time); }
+            if (updates.interval_minutes !== undefined) { updateFields.push('interval_minutes = ?'); params.push(updates.interval_minutes); }
+            if (updates.max_covers !== undefined) { updateFields.push('max_covers = ?'); params.push(updates.max_covers); }
+            if (updates.max_parties !== undefined) { updateFields.push('max_parties = ?'); params.push(updates.max_parties); }
+            if (updates.is_active !== undefined) { updateFields.push('is_active = ?'); params.push(updates.is_active); }
+            if (updateFields.length === 0) return;
+            params.push(ruleId);
+            await conn.query(`UPDATE pacing_rules SET ${updateFields.join(', ')}, updated_at = NOW() WHERE id = ?`, params);
+            AvailabilityService.invalidateCache(venueId);
+        } catch (error) {
+            logger.error('Owner: Error updating pacing rule', error);
+            throw error;
+        } finally {
+            if (conn) conn.release();
+        }
+    }
+
+    static async deletePacingRule(ruleId: number, venueId: number): Promise<void> {
+        let conn;
+        try {
+            conn = await getConnection();
+            await this.getOwnedPacingRule(conn, ruleId, venueId);
+            await conn.query('DELETE FROM pacing_rules WHERE id = ?', [ruleId]);
+            AvailabilityService.invalidateCache(venueId);
+        } catch (error) {
+            logger.error('Owner: Error deleting pacing rule', error);
+            throw error;
+        } finally {
+            if (conn) conn.release();
+        }
+    }
+
+    /**
+     * Überbuchung je Tag und kapazitätsbasierter Leistung: erlaubte zusätzliche Gäste je Slot (nach Obergrenze)
+     * und wie viele Gäste tatsächlich über der Kapazität gleichzeitig gebucht sind.
+     */
+    static async getOverbookingOverview(venueId: number, from: string, to: string): Promise<OverbookingOverview> {
+        let conn;
+        try {
+            conn = await getConnection();
+            const venues = await conn.query(
+                'SELECT overbooking_mode, overbooking_value, overbooking_cap FROM venues WHERE id = ?',
+                [venueId]
+            ) as { overbooking_mode: OverbookingMode; overbooking_value: number; overbooking_cap: number }[];
+            if (venues.length === 0) throw new Error('Venue nicht gefunden');
+            const settings = venues[0];
+
+            const services = await conn.query(
+                'SELECT * FROM services WHERE venue_id = ? AND requires_staff = false AND is_active = true ORDER BY name',
+                [venueId]
+            ) as Service[];
+            const noShowRate = (await AvailabilityService.getNoShowRates(conn, [venueId])).get(venueId) ?? null;
+            const hasTables = (await AvailabilityService.getActiveTables(conn, venueId)).length > 0;
+
+            const bookings = services.length > 0
+                ? await conn.query(`
+                    SELECT service_id, booking_date, start_time, end_time, party_size
+                    FROM bookings
+                    WHERE venue_id = ? AND booking_date BETWEEN ? AND ? AND status IN ('pending', 'confirmed')
+                `, [venueId, from, to]) as { service_id: number; booking_date: string; start_time: string; end_time: string; party_size: number }[]
+                : [];
+
+            const days: OverbookingOverview['days'] = [];
+            for (let date = from; date <= to; date = addDaysToDate(date, 1)) {
+                const dayServices: OverbookingServiceDay[] = services.map(service => {
+                    // Mit Tischplan entscheidet die Tischzuweisung – dort wird nicht überbucht
+                    const allowance = hasTables ? 0 : AvailabilityService.resolveOverbookingAllowance(settings, service, noShowRate);
+                    const ranges = bookings
+                        .filter(b => b.service_id === service.id && b.booking_date === date)
+                        .map(b => ({ ...AvailabilityService.toMinuteRange(b.start_time, b.end_time), party_size: b.party_size }));
+                    // Höchste gleichzeitige Belegung: an jedem Buchungsbeginn alle laufenden Buchungen summieren
+                    const peak = ranges.reduce((max, r) => Math.max(max, ranges
+                        .filter(other => other.start <= r.start && r.start < other.end)
+                        .reduce((sum, other) => sum + other.party_size, 0)), 0);
+                    return {
+                        service_id: service.id,
+                        service_name: service.name,
+                        capacity: service.capacity,
+                        mode: service.overbooking_mode ?? settings.overbooking_mode,
+                        allowance,
+                        cap: service.overbooking_cap ?? settings.overbooking_cap,
+                        peak_covers: peak,
+                        overbooked_covers: Math.max(0, peak - service.capacity),
+                    };
+                });
+                days.push({ date, services: dayServices });
+            }
+            return { settings, no_show_rate: noShowRate, days };
+        } catch (error) {
+            logger.error('Owner: Error fetching overbooking overview', error);
+            throw error;
+        } finally {
+            if (conn) conn.release();
+        }
+    }
+
+    static async getStaffMembers(venueId: number): Promise<StaffMember[]> {
+        let conn;
+        try {
+            conn = await getConnection();
+            return await conn.query('SELECT * FROM staff_members WHERE venue_id = ? ORDER BY assignment_priority DESC, name', [venueId]) as StaffMember[];
+        } catch (error) {
+            logger.error('Owner: Error fetching staff members', error);
+            throw error;
+        } finally {
+            if (conn) conn.release();
+        }
+    }
+
+    /** Setzt die Priorität für die automatische Zuweisung (Strategie 'priority'). */
+    static async updateStaffPriority(staffMemberId: number, assignmentPriority: number, venueId: number): Promise<void> {
+        let conn;
+        try {
+            conn = await getConnection();
+            const rows = await conn.query('SELECT venue_id FROM staff_members WHERE id = ?', [staffMemberId]) as Pick<StaffMember, 'venue_id'>[];
+            if (rows.length === 0) throw new Error('Mitarbeiter nicht gefunden');
+            if (rows[0].venue_id !== venueId) throw new Error('Kein Zugriff auf diesen Mitarbeiter');
+            await conn.query('UPDATE staff_members SET assignment_priority = ?, updated_at = NOW() WHERE id = ?', [assignmentPriority, staffMemberId]);
+        } catch (error) {
+            logger.error('Owner: Error updating staff priority', error);
+            throw error;
+        } finally {
+            if (conn) conn.release();
+        }
+    }
+
+    /** Warteliste des Venues (optional gefiltert nach Datum/Status), älteste Einträge zuerst */
+    static async getWaitlist(venueId: number, filters?: { date?: string; status?: WaitlistEntry['status'] }): Promise<Array<WaitlistEntry & { service_name: string }>> {
+        let conn;
+        try {
+            conn = await getConnection();
+            let query = `
+                SELECT w.*, s.name as service_name
+                FROM waitlist_entries w
+                JOIN services s ON w.service_id = s.id
+                WHERE w.venue_id = ?`;
+            const params: (string | number)[] = [venueId];
+            if (filters?.date) { query += ' AND w.date = ?'; params.push(filters.date); }
+            else { query += ' AND w.date >= ?'; params.push(getZonedToday(await getVenueTimeZone(conn, venueId))); }
+            if (filters?.status) { query += ' AND w.status = ?'; params.push(filters.status); }
+            query += ' ORDER BY w.date, w.created_at, w.id';
+            return await conn.query(query, params) as Array<WaitlistEntry & { service_name: string }>;
+        } catch (error) {
+            logger.error('Owner: Error fetching waitlist', error);
+            throw error;
+        } finally {
+            if (conn) conn.release();
+        }
+    }
+
+    /** Entfernt einen Kunden von der Warteliste (Status cancelled, Angebot verfällt, reservierter Slot wird frei). */
+    static async cancelWaitlistEntry(entryId: number, venueId: number): Promise<void> {
+        let conn;
+        try {
+            conn = await getConnection();
+            const rows = await conn.query('SELECT venue_id, status, hold_token FROM waitlist_entries WHERE id = ?', [entryId]) as Pick<WaitlistEntry, 'venue_id' | 'status' | 'hold_token'>[];
+            if (rows.length === 0) throw new Error('Wartelisten-Eintrag nicht gefunden');
+            if (rows[0].venue_id !== venueId) throw new Error('Kein Zugriff auf diesen Eintrag');
+            if (rows[0].status !== 'waiting' && rows[0].status !== 'offered') throw new Error('Eintrag ist nicht mehr aktiv');
+            await conn.query(`UPDATE waitlist_entries SET status = 'cancelled' WHERE id = ?`, [entryId]);
+            if (rows[0].status === 'offered' && rows[0].hold_token) await SlotHoldService.releaseHold(rows[0].hold_token);
+        } catch (error) {
+            logger.error('Owner: Error cancelling waitlist entry', error);
+            throw error;
+        } finally {
+            if (conn) conn.release();
+        }
+    }
+
+    static async updateVenueSettings(venueId: number, updates: { booking_advance_hours?: number; cancellation_hours?: number; slot_interval_minutes?: number | null; staff_assignment_strategy?: StaffAssignmentStrategy; image_url?: string | null; timezone?: string; min_party_size?: number; max_party_size?: number; overbooking_mode?: OverbookingMode; overbooking_value?: number; overbooking_cap?: number }): Promise<void> {
+        let conn;
+        try {
+            conn = await getConnection();
+            if (updates.min_party_size !== undefined || updates.max_party_size !== undefined) {
+                const current = await conn.query('SELECT min_party_size, max_party_size FROM venues WHERE id = ?', [venueId]) as { min_party_size: number; max_party_size: number }[];
+                const minPartySize = updates.min_party_size ?? current[0]?.min_party_size;
+                const maxPartySize = updates.max_party_size ?? current[0]?.max_party_size;
+                if (minPartySize > maxPartySize) throw new Error('Mindest-Personenzahl darf die Höchst-Personenzahl nicht überschreiten');
+            }
             const updateFields: string[] = [];
             const params: (number | string | null)[] = [];
             if (updates.booking_advance_hours !== undefined) { updateFields.push('booking_advance_hours = ?'); params.push(updates.booking_advance_hours); }
             if (updates.cancellation_hours !== undefined) { updateFields.push('cancellation_hours = ?'); params.push(updates.cancellation_hours); }
+            if (updates.slot_interval_minutes !== undefined) { updateFields.push('slot_interval_minutes = ?'); params.push(updates.slot_interval_minutes); }
+            if (updates.staff_assignment_strategy !== undefined) { updateFields.push('staff_assignment_strategy = ?'); params.push(updates.staff_assignment_strategy); }
             if (updates.image_url !== undefined) { updateFields.push('image_url = ?'); params.push(updates.image_url); }
+            if (updates.timezone !== undefined) { updateFields.push('timezone = ?'); params.push(updates.timezone); }
+            if (updates.min_party_size !== undefined) { updateFields.push('min_party_size = ?'); params.push(updates.min_party_size); }
+            if (updates.max_party_size !== undefined) { updateFields.push('max_party_size = ?'); params.push(updates.max_party_size); }
+            if (updates.overbooking_mode !== undefined) { updateFields.push('overbooking_mode = ?'); params.push(updates.overbooking_mode); }
+            if (updates.overbooking_value !== undefined) { updateFields.push('overbooking_value = ?'); params.push(updates.overbooking_value); }
+            if (updates.overbooking_cap !== undefined) { updateFields.push('overbooking_cap = ?'); params.push(updates.overbooking_cap); }
             if (updateFields.length === 0) return;
             params.push(venueId);
             await conn.query(`UPDATE venues SET ${updateFields.join(', ')}, updated_at = NOW() WHERE id = ?`, params);
+            AvailabilityService.invalidateCache(venueId);
         } catch (error) {
             logger.error('Owner: Error updating venue settings', error);
             throw error;
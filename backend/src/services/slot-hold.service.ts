@@ -0,0 +1,231 @@
+/**
+ * Slot Hold Service
+ * Vorläufige Reservierung eines Slots während des Checkouts: Der Kunde wählt eine Zeit, der Slot zählt für
+ * einige Minuten als belegt (inkl. Mitarbeiter und Tische). POST /bookings löst den Hold über hold_token ein,
+ * abgelaufene Holds zählen sofort nicht mehr und werden vom Cron gelöscht.
+ */
+
+import { randomUUID } from 'crypto';
+import { getConnection } from '../config/database';
+import { createLogger } from '../config/utils/logger';
+import { CreateSlotHoldData, SlotHold } from '../config/utils/types';
+import { AvailabilityService } from './availability.service';
+import { BookingDateLock, BookingService } from './booking.service';
+
+const logger = createLogger('slot-hold.service');
+
+/** Wie lange ein gewählter Slot während des Checkouts reserviert bleibt */
+const SLOT_HOLD_MINUTES = parseInt(process.env.SLOT_HOLD_MINUTES ?? '10', 10) || 10;
+
+/** Wie viele Slots ein Client (IP) gleichzeitig halten darf – verhindert, dass ein Client ganze Tage blockiert */
+const SLOT_HOLD_MAX_PER_CLIENT = parseInt(process.env.SLOT_HOLD_MAX_PER_CLIENT ?? '3', 10) || 3;
+
+export class SlotHoldService {
+    /**
+     * Reserviert einen Slot für holdMinutes (Standard: SLOT_HOLD_MINUTES) und liefert den Hold inkl. Token.
+     * Läuft unter derselben Tagessperre wie createBooking: Prüfung und Speichern können sich nicht mit
+     * einer gleichzeitigen Buchung oder einem anderen Hold überschneiden.
+     * Bei "egal wer" wird der Mitarbeiter schon hier vergeben, bei Venues mit Tischplan die Tische.
+     * @param clientIp - IP des Kunden; hält er bereits SLOT_HOLD_MAX_PER_CLIENT aktive Slots, wird abgelehnt
+     * @param holdMinutes - Laufzeit des Holds (Warteliste: so lange wie das Angebot gilt)
+     */
+    static async createHold(
+        data: CreateSlotHoldData,
+        clientIp: string | null = null,
+        holdMinutes: number = SLOT_HOLD_MINUTES
+    ): Promise<SlotHold> {
+        let conn;
+        let lock: BookingDateLock | null = null;
+        try {
+            lock = await BookingService.lockBookingDates(data.venue_id, data.date, 'Slot not available');
+            conn = await getConnection();
+
+            if (clientIp) {
+                const active = await conn.query(
+                    'SELECT COUNT(*) AS count FROM slot_holds WHERE client_ip = ? AND expires_at > NOW()',
+                    [clientIp]
+                ) as { count: number | bigint }[];
+                if (Number(active[0].count) >= SLOT_HOLD_MAX_PER_CLIENT) {
+                    throw new Error('Too many active slot holds');
+                }
+            }
+
+            // Ende wie bei der Buchung aus der Dauer für die Personenzahl (bzw. des Mitarbeiters), nicht aus dem Request
+            const endTime = await AvailabilityService.getBookingEndTime(
+                conn, data.venue_id, data.service_id, data.start_time, data.party_size, data.staff_member_id ?? null
+            );
+            if (endTime) data = { ...data, end_time: endTime };
+
+            let staffMemberId = data.staff_member_id ?? null;
+            if (!staffMemberId) {
+                const services = await conn.query(
+                    'SELECT requires_staff FROM services WHERE id = ? AND venue_id = ?',
+                    [data.service_id, data.venue_id]
+                ) as { requires_staff: boolean }[];
+                if (services.length > 0 && services[0].requires_staff) {
+                    const assignment = await AvailabilityService.assignStaffMember(
+                        data.venue_id, data.service_id, data.date, data.start_time, data.end_time, data.party_size
+                    );
+                    if (!assignment.staffMemberId) throw new Error(`Slot not available: ${assignment.reason}`);
+                    staffMemberId = assignment.staffMemberId;
+                    data = { ...data, end_time: assignment.endTime };
+                }
+            }
+
+            const validation = await AvailabilityService.validateBookingRequest(
+                data.venue_id, data.service_id, staffMemberId, data.date, data.start_time, data.end_time, data.party_size
+            );
+            if (!validation.valid) throw new Error(`Slot not available: ${validation.errors?.join(', ')}`);
+
+            const tables = await AvailabilityService.findTablesForBooking(
+                conn, data.venue_id, data.service_id, data.date, data.start_time, data.end_time, data.party_size
+            );
+            if (tables === null) throw new Error('Slot not available: No suitable table available');
+
+            const holdToken = randomUUID();
+            await conn.beginTransaction();
+            try {
+                const result = await conn.query(`
+                    INSERT INTO slot_holds (hold_token, venue_id, service_id, staff_member_id, hold_date, start_time, end_time, party_size, client_ip, expires_at)
+                    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, NOW() + INTERVAL ? MINUTE)
+                `, [
+                    holdToken,
+                    data.venue_id,
+                    data.service_id,
+                    staffMemberId,
+                    data.date,
+                    data.start_time,
+                    data.end_time,
+                    data.party_size,
+                    clientIp,
+                    holdMinutes,
+                ]) as { insertId: number };
+                for (const table of tables) {
+                    await conn.query('INSERT INTO slot_hold_tables (hold_id, table_id) VALUES (?, ?)', [Number(result.insertId), table.id]);
+                }
+                await conn.commit();
+            } catch (error) {
+                await conn.rollback();
+                throw error;
+            }
+            AvailabilityService.invalidateCache(data.venue_id);
+
+            const hold = await this.getActiveHold(conn, holdToken);
+            if (!hold) throw new Error('Failed to retrieve slot hold');
+            // Preis für den gehaltenen Mitarbeiter, damit das Widget bei "egal wer" den tatsächlichen Preis zeigt
+            hold.price = await AvailabilityService.getBookingPrice(conn, data.service_id, staffMemberId);
+            logger.info(`Slot hold created for venue ${data.venue_id}`, {
+                service_id: data.service_id,
+                date: data.date,
+                start_time: data.start_time,
+                staff_member_id: staffMemberId,
+                tables: tables.map(table => table.id),
+            });
+            return hold;
+        } catch (error) {
+            logger.error('Error creating slot hold', error);
+            throw error;
+        } finally {
+            if (conn) conn.release();
+            await BookingService.releaseBookingLocks(lock);
+        }
+    }
+
+    /** Lädt einen noch nicht abgelaufenen Hold inkl. Restlaufzeit (null = unbekannt oder abgelaufen). */
+    static async getActiveHold(
+        conn: Awaited<ReturnType<typeof getConnection>>,
+        holdToken: string
+    ): Promise<SlotHold | null> {
+        const rows = await conn.query(`
+            SELECT id, hold_token, venue_id, service_id, staff_member_id, hold_date, start_time, end_time, party_size,
+                expires_at, created_at, TIMESTAMPDIFF(SECOND, NOW(), expires_at) AS expires_in_seconds
+            FROM slot_holds
+            WHERE hold_token = ? AND expires_at > NOW()
+        `, [holdToken]) as SlotHold[];
+        if (rows.length === 0) return null;
+        return { ...rows[0], expires_in_seconds: Number(rows[0].expires_in_seconds) };
+    }
+
+    /**
+     * Gibt einen Hold vorzeitig frei (Kunde wählt eine andere Zeit oder bricht ab).
+     * @returns false, wenn der Token unbekannt ist (bereits eingelöst, freigegeben oder vom Cron gelöscht)
+     */
+    static async releaseHold(holdToken: string): Promise<boolean> {
+        let conn;
+        try {
+            conn = await getConnection();
+            const rows = await conn.query('SELECT venue_id FROM slot_holds WHERE hold_token = ?', [holdToken]) as { venue_id: number }[];
+            if (rows.length === 0) return false;
+            await conn.query('DELETE FROM slot_holds WHERE hold_token = ?', [holdToken]);
+            AvailabilityService.invalidateCache(rows[0].venue_id);
+            logger.info(`Slot hold released for venue ${rows[0].venue_id}`);
+            return true;
+        } catch (error) {
+            logger.error('Error releasing slot hold', error);
+            throw error;
+        } finally {
+            if (conn) conn.release();
+        }
+    }
+
+    /**
+     * Liefert den Hold zur Buchung aus dem Checkout. Aufruf nur unter der Tagessperre aus createBooking:
+     * die Verfügbarkeitsprüfungen übergehen den Hold (excludeBookingId = -hold.id), gelöscht wird er erst
+     * mit dem Speichern der Buchung (consumeHold) – scheitert die Buchung, bleibt der Slot weiter gehalten.
+     * Der Hold muss zu Venue, Leistung, Datum und Startzeit der Buchung passen.
+     * @returns den Hold oder null, wenn er unbekannt oder abgelaufen ist (Buchung wird dann normal geprüft)
+     */
+    static async getHoldForBooking(
+        conn: Awaited<ReturnType<typeof getConnection>>,
+        holdToken: string,
+        booking: { venue_id: number; service_id: number; booking_date: string; start_time: string }
+    ): Promise<SlotHold | null> {
+        const hold = await this.getActiveHold(conn, holdToken);
+        if (!hold) {
+            logger.warn('Slot hold not found or expired');
+            return null;
+        }
+        if (
+            hold.venue_id !== booking.venue_id ||
+            hold.service_id !== booking.service_id ||
+            hold.hold_date !== booking.booking_date ||
+            hold.start_time !== booking.start_time
+        ) {
+            throw new Error('Booking not available: Slot hold does not match the booking');
+        }
+        return hold;
+    }
+
+    /**
+     * Löst einen Hold ein: löscht ihn in der Transaktion der Buchung, nachdem diese gespeichert ist.
+     * Den Verfügbarkeits-Cache leert createBooking nach dem Commit.
+     */
+    static async consumeHold(conn: Awaited<ReturnType<typeof getConnection>>, hold: SlotHold): Promise<void> {
+        await conn.query('DELETE FROM slot_holds WHERE id = ?', [hold.id]);
+        logger.info(`Slot hold ${hold.id} consumed`);
+    }
+
+    /** Löscht abgelaufene Holds (Cron); leert den Verfügbarkeits-Cache der betroffenen Venues. */
+    static async releaseExpiredHolds(): Promise<number> {
+        let conn;
+        try {
+            conn = await getConnection();
+            const expired = await conn.query(
+                'SELECT id, venue_id FROM slot_holds WHERE expires_at <= NOW()'
+            ) as { id: number; venue_id: number }[];
+            if (expired.length === 0) return 0;
+
+            await conn.query(
+                `DELETE FROM slot_holds WHERE id IN (${expired.map(() => '?').join(',')})`,
+                expired.map(hold => hold.id)
+            );
+            for (const venueId of new Set(expired.map(hold => hold.venue_id))) {
+                AvailabilityService.invalidateCache(venueId);
+            }
+            logger.info(`Released ${expired.length} expired slot hold(s)`);
+            return expired.length;
+        } finally {
+            if (conn) conn.release();
+        }
+    }
+}
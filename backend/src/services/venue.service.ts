@@ -7,6 +7,7 @@ import {
 } from '../config/utils/types';
 import { getConnection } from '../config/database';
 import { AvailabilityService } from './availability.service';
+import { DEFAULT_TIMEZONE, getZonedToday } from '../config/utils/timezone';
 
 const logger = createLogger('venue.service');
 
@@ -46,7 +47,7 @@ export class VenueService
             logger.debug('Database connection established');
 
             let query = `
-                SELECT id, name, type, email, phone, address, city, postal_code, country,
+                SELECT id, name, type, email, phone, address, city, postal_code, country, timezone,
                     description, image_url, website_url, booking_advance_days, booking_advance_hours, cancellation_hours,
                     require_phone, require_deposit, deposit_amount, is_active, created_at, updated_at
                 FROM venues
@@ -99,37 +100,22 @@ export class VenueService
                     WHERE venue_id IN (${venueIds.map(() => '?').join(',')})
                     AND is_active = true
                 `, venueIds) as { venue_id: number; id: number }[];
-
-                const venueToServiceIds = new Map<number, number[]>();
-                for (const row of servicesByVenue) {
-                    const list = venueToServiceIds.get(row.venue_id) ?? [];
-                    list.push(row.id);
-                    venueToServiceIds.set(row.venue_id, list);
-                }
                 conn.release();
                 conn = null!;
 
+                // Slots aller Services aller Venues gemeinsam laden und im Speicher berechnen (bzw. aus dem Cache)
+                const dayAvailability = await AvailabilityService.getAvailableSlotsForRange(
+                    servicesByVenue.map(row => ({ venueId: row.venue_id, serviceId: row.id })),
+                    date,
+                    date,
+                    slotOptions
+                );
+
                 const venueIdsWithAvailability = new Set<number>();
-                await Promise.all(venues.map(async (venue) => {
-                    const serviceIds = venueToServiceIds.get(venue.id) ?? [];
-                    for (const serviceId of serviceIds) {
-                        try {
-                            const dayAvailability = await AvailabilityService.getAvailableSlots(
-                                venue.id,
-                                serviceId,
-                                date,
-                                slotOptions
-                            );
-                            const hasSlot = (dayAvailability.time_slots ?? []).some(s => s.available);
-                            if (hasSlot) {
-                                venueIdsWithAvailability.add(venue.id);
-                                return;
-                            }
-                        } catch {
-                            // Einzelner Service-Fehler ignorieren, nächsten versuchen
-                        }
-                    }
-                }));
+                for (const row of servicesByVenue) {
+                    const day = dayAvailability.get(`${row.venue_id}:${row.id}:${date}`);
+                    if (day?.time_slots.some(s => s.available)) venueIdsWithAvailability.add(row.venue_id);
+                }
 
                 venues = venues.filter(v => venueIdsWithAvailability.has(v.id));
                 logger.info(`${venues.length} Venues with availability on ${date}`);
@@ -169,9 +155,9 @@ export class VenueService
 
             // Venue abrufen
             const venues = await conn.query(`
-                SELECT id, name, type, email, phone, address, city, postal_code, country,
+                SELECT id, name, type, email, phone, address, city, postal_code, country, timezone,
                        description, image_url, website_url, booking_advance_days, booking_advance_hours, cancellation_hours,
-                       require_phone, require_deposit, deposit_amount, is_active, created_at, updated_at
+                       slot_interval_minutes, min_party_size, max_party_size, require_phone, require_deposit, deposit_amount, is_active, created_at, updated_at
                 FROM venues
                 WHERE id = ?
                 AND is_active = true
@@ -188,14 +174,21 @@ export class VenueService
             const venue = venues[0];
             //logger.debug('Venue found');
 
-            // Services abrufen
+            // Services abrufen (price_from: günstigster Preis über die aktiven Mitarbeiter mit abweichendem Preis)
             const services = await conn.query(`
-                SELECT id, venue_id, name, description, duration_minutes, price,
-                       capacity, requires_staff, is_active, created_at, updated_at
-                FROM services
-                WHERE venue_id = ?
-                AND is_active = true
-                ORDER BY name ASC`,
+                SELECT s.id, s.venue_id, s.name, s.description, s.duration_minutes, s.price,
+                       COALESCE((
+                           SELECT MIN(COALESCE(ss.price, s.price))
+                           FROM staff_services ss
+                           JOIN staff_members sm ON ss.staff_member_id = sm.id
+                           WHERE ss.service_id = s.id
+                           AND sm.is_active = true
+                       ), s.price) AS price_from,
+                       s.capacity, s.requires_staff, s.min_party_size, s.max_party_size, s.is_active, s.created_at, s.updated_at
+                FROM services s
+                WHERE s.venue_id = ?
+                AND s.is_active = true
+                ORDER BY s.name ASC`,
                 [venueId]
             ) as Service[];
 
@@ -210,16 +203,20 @@ export class VenueService
                 [venueId]
             ) as StaffMember[];
 
-            // Öffnungszeiten: zuerst Venue-Level, sonst aus Staff-Regeln aggregieren
+            // Öffnungszeiten: zuerst Venue-Level, sonst aus Staff-Regeln aggregieren –
+            // jeweils aus dem heute gültigen Zeitplan (Saison), sonst dem Grundplan
+            type OpeningRuleRow = { staff_member_id: number | null; rule_set_id: number | null; day_of_week: number; start_time: string; end_time: string };
+            const today = getZonedToday(venue.timezone);
+            const ruleSets = await AvailabilityService.getRuleSets(conn, [venueId]);
             let openingHours: { day_of_week: number; start_time: string; end_time: string }[] = [];
-            const venueRules = await conn.query(`
-                SELECT day_of_week, start_time, end_time
+            const venueRules = AvailabilityService.rulesInForce(await conn.query(`
+                SELECT staff_member_id, rule_set_id, day_of_week, start_time, end_time
                 FROM availability_rules
                 WHERE venue_id = ?
                 AND is_active = true
                 ORDER BY day_of_week, start_time`,
                 [venueId]
-            ) as { day_of_week: number; start_time: string; end_time: string }[];
+            ) as OpeningRuleRow[], ruleSets, today);
 
             if (venueRules.length > 0) {
                 openingHours = venueRules;
@@ -227,15 +224,19 @@ export class VenueService
                 const staffIds = staffMembers.map((s) => s.id);
                 const placeholders = staffIds.map(() => '?').join(',');
                 const staffRules = await conn.query(`
-                    SELECT day_of_week, start_time, end_time
+                    SELECT staff_member_id, rule_set_id, day_of_week, start_time, end_time
                     FROM availability_rules
                     WHERE staff_member_id IN (${placeholders})
                     AND is_active = true
                     ORDER BY day_of_week, start_time`,
                     staffIds
-                ) as { day_of_week: number; start_time: string; end_time: string }[];
-                openingHours = staffRules;
+                ) as OpeningRuleRow[];
+                // Zeitplan gilt je Mitarbeiter (ohne eigene Regeln darin behält er den Grundplan)
+                openingHours = staffIds
+                    .flatMap((staffId) => AvailabilityService.rulesInForce(staffRules.filter((rule) => rule.staff_member_id === staffId), ruleSets, today))
+                    .sort((a, b) => a.day_of_week - b.day_of_week || a.start_time.localeCompare(b.start_time));
             }
+            openingHours = openingHours.map(({ day_of_week, start_time, end_time }) => ({ day_of_week, start_time, end_time }));
 
             // Venue mit Services, Staff und Öffnungszeiten kombinieren
             const venueWithDetails: VenueWithStaff = {
@@ -276,7 +277,7 @@ export class VenueService
         try {
             conn = await getConnection();
             const venues = await conn.query(`
-                SELECT id, name, type, email, phone, address, city, postal_code, country,
+                SELECT id, name, type, email, phone, address, city, postal_code, country, timezone,
                     description, image_url, website_url, booking_advance_days, booking_advance_hours, cancellation_hours,
                     require_phone, require_deposit, deposit_amount, is_active, created_at, updated_at
                 FROM venues
@@ -304,6 +305,7 @@ export class VenueService
         city?: string;
         postal_code?: string;
         country?: string;
+        timezone?: string;
         description?: string;
         image_url?: string;
         website_url?: string;
@@ -321,10 +323,10 @@ export class VenueService
             conn = await getConnection();
             const result = await conn.query(
                 `INSERT INTO venues (
-                    name, type, email, phone, address, city, postal_code, country,
+                    name, type, email, phone, address, city, postal_code, country, timezone,
                     description, image_url, website_url, booking_advance_days, booking_advance_hours, cancellation_hours,
                     require_phone, require_deposit, deposit_amount, is_active
-                ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
                 [
                     data.name,
                     data.type,
@@ -334,6 +336,7 @@ export class VenueService
                     data.city ?? null,
                     data.postal_code ?? null,
                     data.country ?? 'DE',
+                    data.timezone ?? DEFAULT_TIMEZONE,
                     data.description ?? null,
                     data.image_url ?? null,
                     data.website_url ?? null,
@@ -349,7 +352,7 @@ export class VenueService
             const insertResult = result as { insertId: number };
             const id = insertResult.insertId;
             const rows = await conn.query(
-                'SELECT id, name, type, email, phone, address, city, postal_code, country, description, image_url, website_url, booking_advance_days, booking_advance_hours, cancellation_hours, require_phone, require_deposit, deposit_amount, is_active, created_at, updated_at FROM venues WHERE id = ?',
+                'SELECT id, name, type, email, phone, address, city, postal_code, country, timezone, description, image_url, website_url, booking_advance_days, booking_advance_hours, cancellation_hours, require_phone, require_deposit, deposit_amount, is_active, created_at, updated_at FROM venues WHERE id = ?',
                 [id]
             ) as Venue[];
             return rows[0];
@@ -375,6 +378,7 @@ export class VenueService
             city?: string;
             postal_code?: string;
             country?: string;
+            timezone?: string;
             description?: string;
             image_url?: string;
             website_url?: string;
@@ -406,6 +410,7 @@ export class VenueService
                 city: updates.city,
                 postal_code: updates.postal_code,
                 country: updates.country,
+                timezone: updates.timezone,
                 description: updates.description,
                 image_url: updates.image_url,
                 website_url: updates.website_url,
@@ -425,7 +430,7 @@ export class VenueService
             }
             if (fields.length === 0) {
                 const rows = await conn.query(
-                    'SELECT id, name, type, email, phone, address, city, postal_code, country, description, image_url, website_url, booking_advance_days, booking_advance_hours, cancellation_hours, require_phone, require_deposit, deposit_amount, is_active, created_at, updated_at FROM venues WHERE id = ?',
+                    'SELECT id, name, type, email, phone, address, city, postal_code, country, timezone, description, image_url, website_url, booking_advance_days, booking_advance_hours, cancellation_hours, require_phone, require_deposit, deposit_amount, is_active, created_at, updated_at FROM venues WHERE id = ?',
                     [venueId]
                 ) as Venue[];
                 return rows[0];
@@ -435,8 +440,9 @@ export class VenueService
                 `UPDATE venues SET ${fields.join(', ')}, updated_at = NOW() WHERE id = ?`,
                 values
             );
+            AvailabilityService.invalidateCache(venueId);
             const rows = await conn.query(
-                'SELECT id, name, type, email, phone, address, city, postal_code, country, description, image_url, website_url, booking_advance_days, booking_advance_hours, cancellation_hours, require_phone, require_deposit, deposit_amount, is_active, created_at, updated_at FROM venues WHERE id = ?',
+                'SELECT id, name, type, email, phone, address, city, postal_code, country, timezone, description, image_url, website_url, booking_advance_days, booking_advance_hours, cancellation_hours, require_phone, require_deposit, deposit_amount, is_active, created_at, updated_at FROM venues WHERE id = ?',
                 [venueId]
             ) as Venue[];
             return rows[0];
@@ -456,7 +462,7 @@ export class VenueService
         try {
             conn = await getConnection();
             const venues = await conn.query(`
-                SELECT id, name, type, email, phone, address, city, postal_code, country,
+                SELECT id, name, type, email, phone, address, city, postal_code, country, timezone,
                     description, image_url, website_url, booking_advance_days, booking_advance_hours, cancellation_hours,
                     require_phone, require_deposit, deposit_amount, is_active, created_at, updated_at
                 FROM venues WHERE id = ?
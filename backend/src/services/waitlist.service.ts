@@ -0,0 +1,376 @@
+/**
+ * Waitlist Service
+ * Warteliste für ausgebuchte Tage: Kunden tragen sich für Venue, Leistung, Datum (optional Zeitfenster) ein.
+ * Wird Kapazität frei (Stornierung), wird der Termin der Reihe nach per E-Mail mit befristetem Einlöse-Link angeboten.
+ */
+
+import { randomUUID } from 'crypto';
+import { getConnection } from '../config/database';
+import { createLogger } from '../config/utils/logger';
+import { addDaysToDate, getZonedToday } from '../config/utils/timezone';
+import { Booking, CreateWaitlistData, TimeSlot, WaitlistEntry } from '../config/utils/types';
+import { AvailabilityService } from './availability.service';
+import { BookingService } from './booking.service';
+import { sendWaitlistOffer } from './email.service';
+import { SlotHoldService } from './slot-hold.service';
+
+const logger = createLogger('waitlist.service');
+
+/** Wie lange ein angebotener Termin für den Kunden reserviert bleibt */
+const WAITLIST_OFFER_MINUTES = parseInt(process.env.WAITLIST_OFFER_MINUTES ?? '120', 10) || 120;
+
+/** Angebot inkl. Namen für die Einlöse-Seite */
+export interface WaitlistOffer extends WaitlistEntry {
+    venue_name?: string;
+    service_name?: string;
+}
+
+export class WaitlistService {
+    /**
+     * Trägt einen Kunden auf die Warteliste ein.
+     * Pro E-Mail, Leistung und Datum ist nur ein offener Eintrag erlaubt.
+     */
+    static async joinWaitlist(data: CreateWaitlistData): Promise<WaitlistEntry> {
+        let conn;
+        try {
+            conn = await getConnection();
+            const services = await conn.query(`
+                SELECT s.id, v.timezone, s.min_party_size, s.max_party_size,
+                    v.min_party_size AS venue_min_party_size, v.max_party_size AS venue_max_party_size
+                FROM services s
+                JOIN venues v ON s.venue_id = v.id
+                WHERE s.id = ? AND s.venue_id = ? AND s.is_active = true AND v.is_active = true
+            `, [data.service_id, data.venue_id]) as {
+                id: number; timezone: string;
+                min_party_size: number | null; max_party_size: number | null;
+                venue_min_party_size: number; venue_max_party_size: number;
+            }[];
+            if (services.length === 0) throw new Error('Service not found');
+
+            // Angebote werden online eingelöst – nur Gruppengrößen, die auch online buchbar sind
+            const limits = AvailabilityService.resolvePartySizeLimits(
+                { min_party_size: services[0].venue_min_party_size, max_party_size: services[0].venue_max_party_size },
+                services[0]
+            );
+            if (data.party_size < limits.min || data.party_size > limits.max) {
+                throw new Error(`Party size must be between ${limits.min} and ${limits.max}`);
+            }
+
+            if (data.date < getZonedToday(services[0].timezone)) throw new Error('Cannot join the waitlist for a past date');
+
+            const existing = await conn.query(`
+                SELECT id FROM waitlist_entries
+                WHERE customer_email = ? AND service_id = ? AND date = ? AND status IN ('waiting', 'offered', 'claiming')
+            `, [data.customer_email, data.service_id, data.date]) as { id: number }[];
+            if (existing.length > 0) throw new Error('Already on the waitlist');
+
+            const result = await conn.query(`
+                INSERT INTO waitlist_entries (venue_id, service_id, customer_id, customer_name, customer_email, customer_phone, date, time_from, time_to, party_size)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            `, [
+                data.venue_id,
+                data.service_id,
+                data.customer_id ?? null,
+                data.customer_name,
+                data.customer_email,
+                data.customer_phone || null,
+                data.date,
+                data.time_from || null,
+                data.time_to || null,
+                data.party_size,
+            ]) as { insertId: number };
+
+            const rows = await conn.query('SELECT * FROM waitlist_entries WHERE id = ?', [Number(result.insertId)]) as WaitlistEntry[];
+            logger.info(`Waitlist entry created for venue ${data.venue_id}`, { service_id: data.service_id, date: data.date });
+            return rows[0];
+        } catch (error) {
+            logger.error('Error joining waitlist', error);
+            throw error;
+        } finally {
+            if (conn) conn.release();
+        }
+    }
+
+    /**
+     * Bietet frei gewordene Kapazität den wartenden Einträgen an (Reihenfolge = Eintragungszeitpunkt).
+     * Jeder Eintrag bekommt den ersten freien Slot in seinem Zeitfenster, der nicht schon einem anderen
+     * offenen Angebot gehört. Gibt die Anzahl neuer Angebote zurück.
+     */
+    static async offerFreedCapacity(venueId: number, serviceIds: number[], date: string): Promise<number> {
+        let offered = 0;
+        for (const serviceId of [...new Set(serviceIds)]) {
+            let entries: WaitlistEntry[];
+            let heldStarts: Set<string>;
+            let conn;
+            try {
+                conn = await getConnection();
+                entries = await conn.query(`
+                    SELECT * FROM waitlist_entries
+                    WHERE venue_id = ? AND service_id = ? AND date = ? AND status = 'waiting'
+                    ORDER BY created_at, id
+                `, [venueId, serviceId, date]) as WaitlistEntry[];
+                const held = await conn.query(`
+                    SELECT offered_start_time FROM waitlist_entries
+                    WHERE venue_id = ? AND service_id = ? AND date = ? AND status = 'offered' AND offer_expires_at > NOW()
+                `, [venueId, serviceId, date]) as { offered_start_time: string }[];
+                heldStarts = new Set(held.map(h => h.offered_start_time));
+            } finally {
+                if (conn) conn.release();
+            }
+            if (entries.length === 0) continue;
+
+            // Slots je Personenzahl nur einmal laden
+            const slotsByPartySize = new Map<number, TimeSlot[]>();
+            for (const entry of entries) {
+                if (!slotsByPartySize.has(entry.party_size)) {
+                    const day = await AvailabilityService.getAvailableSlots(venueId, serviceId, date, { partySize: entry.party_size, anyStaff: true });
+                    slotsByPartySize.set(entry.party_size, day.time_slots.filter(slot => slot.available));
+                }
+                const slot = slotsByPartySize.get(entry.party_size)!.find(s =>
+                    !heldStarts.has(s.start_time) &&
+                    (!entry.time_from || s.start_time >= entry.time_from) &&
+                    (!entry.time_to || s.start_time <= entry.time_to)
+                );
+                if (!slot) continue;
+
+                heldStarts.add(slot.start_time);
+                if (await this.makeOffer(entry, slot)) offered++;
+            }
+        }
+        if (offered > 0) logger.info(`Waitlist: ${offered} offer(s) sent`, { venue_id: venueId, date });
+        return offered;
+    }
+
+    /**
+     * Einstieg nach einer Stornierung: bietet die frei gewordene Kapazität der Buchung
+     * (Hauptleistung und ggf. alle Leistungen der Kette) der Warteliste an.
+     */
+    static async offerForCancelledBooking(bookingId: number): Promise<number> {
+        let booking: { venue_id: number; service_id: number; booking_date: string } | undefined;
+        let serviceIds: number[] = [];
+        let conn;
+        try {
+            conn = await getConnection();
+            const rows = await conn.query(
+                'SELECT venue_id, service_id, booking_date FROM bookings WHERE id = ?',
+                [bookingId]
+            ) as { venue_id: number; service_id: number; booking_date: string }[];
+            booking = rows[0];
+            if (booking) {
+                const items = await conn.query('SELECT service_id FROM booking_items WHERE booking_id = ?', [bookingId]) as { service_id: number }[];
+                serviceIds = [booking.service_id, ...items.map(i => i.service_id)];
+            }
+        } finally {
+            if (conn) conn.release();
+        }
+        if (!booking) return 0;
+        return this.offerFreedCapacity(booking.venue_id, serviceIds, booking.booking_date);
+    }
+
+    /**
+     * Reserviert den Slot per Slot-Hold für die Dauer des Angebots, setzt das Angebot (Token + Ablaufzeit)
+     * und verschickt die E-Mail mit dem Einlöse-Link. Beim Einlösen wird der Hold mit der Buchung eingelöst.
+     * Die Ablaufzeit rechnet die Datenbank (NOW()), verglichen wird ebenfalls nur dort – die Uhr des
+     * Node-Prozesses spielt keine Rolle. Für die E-Mail zählt die Restlaufzeit laut Datenbank.
+     * @returns false, wenn der Slot inzwischen vergeben ist oder der Eintrag nicht mehr wartet
+     */
+    private static async makeOffer(entry: WaitlistEntry, slot: TimeSlot): Promise<boolean> {
+        let hold;
+        try {
+            hold = await SlotHoldService.createHold({
+                venue_id: entry.venue_id,
+                service_id: entry.service_id,
+                date: entry.date,
+                start_time: slot.start_time,
+                end_time: slot.end_time,
+                party_size: entry.party_size,
+            }, null, WAITLIST_OFFER_MINUTES);
+        } catch (error) {
+            if (error instanceof Error && error.message.includes('not available')) {
+                logger.info(`Waitlist entry ${entry.id}: ${slot.start_time} no longer available`);
+                return false;
+            }
+            throw error;
+        }
+
+        const claimToken = randomUUID();
+        let names: { venue_name: string; service_name: string }[];
+        let expiresInSeconds: number;
+        let offered = false;
+        let conn;
+        try {
+            conn = await getConnection();
+            const result = await conn.query(`
+                UPDATE waitlist_entries
+                SET status = 'offered', claim_token = ?, hold_token = ?, offered_start_time = ?, offered_end_time = ?,
+                    offer_expires_at = NOW() + INTERVAL ? MINUTE
+                WHERE id = ? AND status = 'waiting'
+            `, [claimToken, hold.hold_token, hold.start_time, hold.end_time, WAITLIST_OFFER_MINUTES, entry.id]) as { affectedRows: number };
+            if (result.affectedRows === 0) {
+                await SlotHoldService.releaseHold(hold.hold_token);
+                return false;
+            }
+            offered = true;
+            const expiry = await conn.query(
+                'SELECT TIMESTAMPDIFF(SECOND, NOW(), offer_expires_at) AS expires_in_seconds FROM waitlist_entries WHERE id = ?',
+                [entry.id]
+            ) as { expires_in_seconds: number | bigint }[];
+            expiresInSeconds = Number(expiry[0]?.expires_in_seconds ?? WAITLIST_OFFER_MINUTES * 60);
+            names = await conn.query(`
+                SELECT v.name as venue_name, s.name as service_name
+                FROM venues v JOIN services s ON s.id = ?
+                WHERE v.id = ?
+            `, [entry.service_id, entry.venue_id]) as { venue_name: string; service_name: string }[];
+        } catch (error) {
+            // Hold nicht bis zum Ablauf liegen lassen; ein bereits gesetztes Angebot geht zurück auf 'waiting'
+            await SlotHoldService.releaseHold(hold.hold_token);
+            if (offered) {
+                await this.updateOffer(`
+                    UPDATE waitlist_entries
+                    SET status = 'waiting', claim_token = NULL, hold_token = NULL, offered_start_time = NULL,
+                        offered_end_time = NULL, offer_expires_at = NULL
+                    WHERE id = ? AND claim_token = ? AND status = 'offered'
+                `, [entry.id, claimToken]);
+            }
+            throw error;
+        } finally {
+            if (conn) conn.release();
+        }
+        logger.info(`Waitlist entry ${entry.id} offered ${hold.start_time}`);
+        try {
+            await sendWaitlistOffer({
+                customer_name: entry.customer_name,
+                customer_email: entry.customer_email,
+                venue_name: names[0]?.venue_name,
+                service_name: names[0]?.service_name,
+                date: entry.date,
+                start_time: hold.start_time,
+                end_time: hold.end_time,
+                claim_token: claimToken,
+                offer_expires_at: new Date(Date.now() + expiresInSeconds * 1000),
+            });
+        } catch (emailErr) {
+            logger.error(`Waitlist offer email failed for entry ${entry.id}`, emailErr);
+        }
+        return true;
+    }
+
+    /**
+     * Lässt abgelaufene Angebote verfallen und bietet den Termin dem nächsten Eintrag an.
+     * Einträge für vergangene Tage verfallen ebenfalls. Wird vom Wartelisten-Job aufgerufen.
+     */
+    static async expireOffers(): Promise<void> {
+        let expired: { venue_id: number; service_id: number; date: string }[];
+        let conn;
+        try {
+            conn = await getConnection();
+            // "Heute" je Venue in dessen Zeitzone; Vorfilter über das gestrige/morgige UTC-Datum
+            const utcToday = getZonedToday('UTC');
+            const candidates = await conn.query(`
+                SELECT DISTINCT w.venue_id, w.service_id, w.date, v.timezone FROM waitlist_entries w
+                JOIN venues v ON w.venue_id = v.id
+                WHERE w.status = 'offered' AND w.offer_expires_at <= NOW() AND w.date >= ?
+            `, [addDaysToDate(utcToday, -1)]) as { venue_id: number; service_id: number; date: string; timezone: string }[];
+            expired = candidates.filter(c => c.date >= getZonedToday(c.timezone));
+            await conn.query(`UPDATE waitlist_entries SET status = 'expired' WHERE status = 'offered' AND offer_expires_at <= NOW()`);
+
+            const pastWaiting = await conn.query(`
+                SELECT w.id, w.date, v.timezone FROM waitlist_entries w
+                JOIN venues v ON w.venue_id = v.id
+                WHERE w.status = 'waiting' AND w.date <= ?
+            `, [addDaysToDate(utcToday, 1)]) as { id: number; date: string; timezone: string }[];
+            const pastIds = pastWaiting.filter(w => w.date < getZonedToday(w.timezone)).map(w => w.id);
+            if (pastIds.length > 0) {
+                await conn.query(`UPDATE waitlist_entries SET status = 'expired' WHERE id IN (${pastIds.map(() => '?').join(',')})`, pastIds);
+            }
+        } finally {
+            if (conn) conn.release();
+        }
+        for (const group of expired) {
+            await this.offerFreedCapacity(group.venue_id, [group.service_id], group.date);
+        }
+    }
+
+    /** Angebot zum Einlöse-Link (inkl. Venue-/Leistungsnamen); null wenn Token unbekannt. */
+    static async getOfferByToken(claimToken: string): Promise<WaitlistOffer | null> {
+        let conn;
+        try {
+            conn = await getConnection();
+            const rows = await conn.query(`
+                SELECT w.*, v.name as venue_name, s.name as service_name, w.offer_expires_at <= NOW() AS offer_expired
+                FROM waitlist_entries w
+                JOIN venues v ON w.venue_id = v.id
+                JOIN services s ON w.service_id = s.id
+                WHERE w.claim_token = ?
+            `, [claimToken]) as (WaitlistOffer & { offer_expired: number | null })[];
+            if (rows.length === 0) return null;
+            const { offer_expired, ...offer } = rows[0];
+            // Abgelaufen, aber vom Job noch nicht umgestellt
+            if (offer.status === 'offered' && Number(offer_expired) === 1) {
+                offer.status = 'expired';
+            }
+            return offer;
+        } finally {
+            if (conn) conn.release();
+        }
+    }
+
+    /**
+     * Löst ein Angebot ein: legt die Buchung für den angebotenen Termin an.
+     * Das Angebot wird zuerst atomar auf 'claiming' gesetzt (nur wenn noch 'offered' und nicht abgelaufen) –
+     * doppelte Klicks oder parallele Anfragen buchen so höchstens einmal. Scheitert die Buchung,
+     * geht das Angebot zurück auf 'offered'.
+     * Fehler 'Booking not available: ...' wenn der Slot inzwischen anderweitig vergeben wurde.
+     */
+    static async claimOffer(claimToken: string): Promise<Booking> {
+        const offer = await this.getOfferByToken(claimToken);
+        if (!offer) throw new Error('Offer not found');
+
+        const claimed = await this.updateOffer(`
+            UPDATE waitlist_entries SET status = 'claiming'
+            WHERE claim_token = ? AND status = 'offered' AND offer_expires_at > NOW()
+        `, [claimToken]);
+        if (!claimed) {
+            // Bereits eingelöst, gerade in Einlösung oder abgelaufen (ggf. erst seit dem Lesen)
+            const current = (await this.getOfferByToken(claimToken)) ?? offer;
+            if (current.status === 'claiming') throw new Error('Offer is being claimed');
+            throw new Error(`Offer is ${current.status === 'offered' ? 'expired' : current.status}`);
+        }
+
+        let booking: Booking;
+        try {
+            booking = await BookingService.createBooking({
+                customer_id: offer.customer_id ?? undefined,
+                venue_id: offer.venue_id,
+                service_id: offer.service_id,
+                customer_name: offer.customer_name,
+                customer_email: offer.customer_email,
+                customer_phone: offer.customer_phone ?? undefined,
+                booking_date: offer.date,
+                start_time: offer.offered_start_time as string,
+                end_time: offer.offered_end_time as string,
+                party_size: offer.party_size,
+                hold_token: offer.hold_token ?? undefined,
+            });
+        } catch (error) {
+            await this.updateOffer(`UPDATE waitlist_entries SET status = 'offered' WHERE id = ? AND status = 'claiming'`, [offer.id]);
+            throw error;
+        }
+
+        await this.updateOffer(`UPDATE waitlist_entries SET status = 'booked', booking_id = ? WHERE id = ?`, [booking.id, offer.id]);
+        logger.info(`Waitlist offer ${offer.id} claimed`, { booking_id: booking.id });
+        return booking;
+    }
+
+    /** Führt ein UPDATE auf waitlist_entries aus; true, wenn eine Zeile betroffen war. */
+    private static async updateOffer(sql: string, params: unknown[]): Promise<boolean> {
+        let conn;
+        try {
+            conn = await getConnection();
+            const result = await conn.query(sql, params) as { affectedRows: number };
+            return result.affectedRows > 0;
+        } finally {
+            if (conn) conn.release();
+        }
+    }
+}
@@ -37,7 +37,7 @@ export async function DELETE(
   return proxy(request, await params);
 }
 
-const ALLOWED_PREFIXES = ["admin", "auth", "owner", "venues", "bookings", "availability", "customer"];
+const ALLOWED_PREFIXES = ["admin", "auth", "owner", "venues", "bookings", "availability", "customer", "calendar"];
 
 async function proxy(
   request: NextRequest,
@@ -47,7 +47,7 @@ async function proxy(
   const prefix = path[0]?.toLowerCase();
   if (!path.length || !prefix || !ALLOWED_PREFIXES.includes(prefix)) {
     return new NextResponse(
-      JSON.stringify({ success: false, message: "Proxy only allows /admin, /auth, /owner, /venues, /bookings, /availability, /customer" }),
+      JSON.stringify({ success: false, message: "Proxy only allows /admin, /auth, /owner, /venues, /bookings, /availability, /customer, /calendar" }),
       { status: 403, headers: { "Content-Type": "application/json" } }
     );
   }
@@ -5,22 +5,28 @@ import { useRouter } from "next/navigation";
 import { toast } from "sonner";
 import { cancelBooking } from "@/lib/api/bookings";
 import { Button } from "@/components/shared/button";
+import { SeriesScopeChoice } from "@/components/shared/series-scope";
+import type { SeriesScope } from "@/lib/types";
 
 type Props = {
   token: string;
   status: string;
   cancellationHours?: number;
+  /** Teil einer Terminserie → Auswahl "nur dieser / alle folgenden" */
+  isSeries?: boolean;
 };
 
 export function ManageBookingActions({
   token,
   status,
   cancellationHours,
+  isSeries = false,
 }: Props) {
   const router = useRouter();
   const [cancelling, setCancelling] = useState(false);
   const [showCancelConfirm, setShowCancelConfirm] = useState(false);
   const [cancelReason, setCancelReason] = useState("");
+  const [scope, setScope] = useState<SeriesScope>("single");
 
   const canCancel =
     status === "pending" || status === "confirmed";
@@ -28,9 +34,9 @@ export function ManageBookingActions({
   const handleCancel = async () => {
     setCancelling(true);
     try {
-      const res = await cancelBooking(token, cancelReason || undefined);
+      const res = await cancelBooking(token, cancelReason || undefined, isSeries ? scope : undefined);
       if (res.success) {
-        toast.success("Buchung wurde storniert.");
+        toast.success(scope === "following" ? "Serientermine wurden storniert." : "Buchung wurde storniert.");
         router.refresh();
         setShowCancelConfirm(false);
         setCancelReason("");
@@ -67,6 +73,11 @@ export function ManageBookingActions({
               </span>
             )}
           </p>
+          {isSeries && (
+            <div className="mt-3">
+              <SeriesScopeChoice name="cancel-scope" value={scope} onChange={setScope} />
+            </div>
+          )}
           <div className="mt-3">
             <label className="mb-1 block text-sm text-[var(--color-muted)]">
               Grund (optional)
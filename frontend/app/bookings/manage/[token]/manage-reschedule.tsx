@@ -7,13 +7,18 @@ import { updateBooking } from "@/lib/api/bookings";
 import { getAvailableSlots } from "@/lib/api/availability";
 import { Button } from "@/components/shared/button";
 import {
-  today,
-  addDays,
-  formatDateForApi,
+  SeriesScopeChoice,
+  SeriesConflictList,
+  getSeriesConflicts,
+} from "@/components/shared/series-scope";
+import {
+  todayInTimeZone,
+  addDaysIso,
   formatDateDisplay,
   formatTimeDisplay,
 } from "@/lib/utils/date";
-import type { TimeSlot } from "@/lib/types";
+import { TimeZoneNote } from "@/components/shared/time-zone-note";
+import type { SeriesConflict, SeriesScope, TimeSlot } from "@/lib/types";
 
 type Props = {
   token: string;
@@ -28,6 +33,10 @@ type Props = {
   bookingAdvanceDays?: number;
   venueName?: string;
   serviceName?: string;
+  /** Teil einer Terminserie → Auswahl "nur dieser / alle folgenden" */
+  isSeries?: boolean;
+  /** Zeitzone des Venues – Zeiten sind Ortszeit */
+  timeZone?: string | null;
 };
 
 export function ManageRescheduleModal({
@@ -43,6 +52,8 @@ export function ManageRescheduleModal({
   bookingAdvanceDays = 30,
   venueName,
   serviceName,
+  isSeries = false,
+  timeZone,
 }: Props) {
   const router = useRouter();
   const [isOpen, setIsOpen] = useState(false);
@@ -51,10 +62,12 @@ export function ManageRescheduleModal({
   const [selectedSlot, setSelectedSlot] = useState<TimeSlot | null>(null);
   const [loadingSlots, setLoadingSlots] = useState(false);
   const [submitting, setSubmitting] = useState(false);
+  const [scope, setScope] = useState<SeriesScope>("single");
+  const [conflicts, setConflicts] = useState<SeriesConflict[]>([]);
 
   const canReschedule = status === "pending" || status === "confirmed";
-  const minDate = formatDateForApi(today());
-  const maxDate = formatDateForApi(addDays(today(), bookingAdvanceDays));
+  const minDate = todayInTimeZone(timeZone);
+  const maxDate = addDaysIso(minDate, bookingAdvanceDays);
 
   // Slots laden wenn Datum gewählt wird
   useEffect(() => {
@@ -95,12 +108,17 @@ export function ManageRescheduleModal({
     }
 
     setSubmitting(true);
+    setConflicts([]);
     try {
-      const res = await updateBooking(token, {
-        booking_date: date,
-        start_time: selectedSlot.start_time,
-        end_time: selectedSlot.end_time,
-      });
+      const res = await updateBooking(
+        token,
+        {
+          booking_date: date,
+          start_time: selectedSlot.start_time,
+          end_time: selectedSlot.end_time,
+        },
+        isSeries ? scope : undefined
+      );
       if (res.success) {
         toast.success("Termin wurde verschoben.");
         router.refresh();
@@ -109,7 +127,10 @@ export function ManageRescheduleModal({
         toast.error(res.message ?? "Verschieben fehlgeschlagen.");
       }
     } catch (e) {
-      toast.error((e as Error).message);
+      // Bei Serien: alle Konflikte anzeigen, es wurde nichts geändert
+      const seriesConflicts = getSeriesConflicts(e);
+      if (seriesConflicts.length > 0) setConflicts(seriesConflicts);
+      else toast.error((e as Error).message);
     } finally {
       setSubmitting(false);
     }
@@ -119,6 +140,8 @@ export function ManageRescheduleModal({
     setDate(currentDate);
     setSlots([]);
     setSelectedSlot(null);
+    setScope("single");
+    setConflicts([]);
     setIsOpen(true);
   };
 
@@ -169,6 +192,20 @@ export function ManageRescheduleModal({
                 </p>
               </div>
 
+              {isSeries && (
+                <div>
+                  <p className="mb-2 text-sm font-medium text-[var(--color-text)]">
+                    Serientermin
+                  </p>
+                  <SeriesScopeChoice name="reschedule-scope" value={scope} onChange={setScope} />
+                  {scope === "following" && (
+                    <p className="mt-2 text-xs text-[var(--color-muted)]">
+                      Alle folgenden Termine werden um denselben Abstand verschoben und erhalten die neue Uhrzeit.
+                    </p>
+                  )}
+                </div>
+              )}
+
               {/* Datum wählen */}
               <div>
                 <label
@@ -186,6 +223,7 @@ export function ManageRescheduleModal({
                   onChange={(e) => setDate(e.target.value)}
                   className="w-full rounded-lg border border-[var(--color-border)] bg-[var(--color-surface)] px-4 py-2.5 text-[var(--color-text)] focus:border-[var(--color-accent)] focus:outline-none focus:ring-2 focus:ring-[var(--color-accent)]"
                 />
+                <TimeZoneNote timeZone={timeZone} className="mt-1.5" />
               </div>
 
               {/* Slots */}
@@ -226,6 +264,8 @@ export function ManageRescheduleModal({
                   )}
                 </div>
               )}
+
+              <SeriesConflictList conflicts={conflicts} />
             </div>
 
             {/* Footer */}
@@ -3,6 +3,7 @@ import { notFound } from "next/navigation";
 import { getBookingByToken } from "@/lib/api/bookings";
 import { getVenueById } from "@/lib/api/venues";
 import { SiteLayout } from "@/components/layout/site-layout";
+import { TimeZoneNote } from "@/components/shared/time-zone-note";
 import { ManageBookingActions } from "./manage-actions";
 import { ManageBookingNotes } from "./manage-notes";
 import { ManageBookingReview } from "./manage-review";
@@ -64,6 +65,12 @@ export default async function ManageBookingPage({ params }: Props) {
           )}
           <p className="mt-2 text-[var(--color-text)]">{dateDisplay}</p>
           <p className="text-[var(--color-text)]">{timeDisplay}</p>
+          <TimeZoneNote timeZone={b.venue_timezone} />
+          {b.series_id != null && (
+            <p className="mt-1 text-sm text-[var(--color-muted)]">
+              Serientermin {(b.series_index ?? 0) + 1}
+            </p>
+          )}
           {b.special_requests && (
             <p className="mt-2 text-sm text-[var(--color-text)]">
               <span className="font-medium text-[var(--color-muted)]">Notizen: </span>
@@ -102,6 +109,8 @@ export default async function ManageBookingPage({ params }: Props) {
             bookingAdvanceDays={venue.booking_advance_days}
             venueName={b.venue_name ?? undefined}
             serviceName={b.service_name ?? undefined}
+            isSeries={b.series_id != null}
+            timeZone={venue.timezone}
           />
         )}
 
@@ -109,6 +118,7 @@ export default async function ManageBookingPage({ params }: Props) {
           token={token}
           status={b.status}
           cancellationHours={b.cancellation_hours ?? undefined}
+          isSeries={b.series_id != null}
         />
 
         <ManageBookingReview
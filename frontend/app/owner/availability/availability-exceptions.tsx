@@ -0,0 +1,265 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import { toast } from "sonner";
+import {
+  getAvailabilityExceptions,
+  createAvailabilityException,
+  deleteAvailabilityException,
+} from "@/lib/api/owner";
+import type { AvailabilityException } from "@/lib/types";
+import { formatDateForApi, formatDateDisplay, formatTimeRange, today } from "@/lib/utils/date";
+import { Card, CardTitle } from "@/components/shared/card";
+import { Button } from "@/components/shared/button";
+import { Input } from "@/components/shared/input";
+
+const inputClass =
+  "rounded-lg border border-[var(--color-border)] bg-[var(--color-surface)] px-3 py-2 text-[var(--color-text)] focus:outline-none focus:ring-2 focus:ring-[var(--color-accent)]";
+
+type ExceptionForm = {
+  date: string;
+  staff_member_id: string;
+  is_available: boolean;
+  all_day: boolean;
+  start_time: string;
+  end_time: string;
+  reason: string;
+};
+
+const EMPTY_FORM: ExceptionForm = {
+  date: "",
+  staff_member_id: "",
+  is_available: false,
+  all_day: true,
+  start_time: "09:00",
+  end_time: "18:00",
+  reason: "",
+};
+
+/**
+ * Sonderverfügbarkeit: Schließungen, Feiertage, Urlaub und zusätzliche Öffnungszeiten
+ * für das Venue oder einzelne Mitarbeiter an einem bestimmten Datum.
+ */
+export function AvailabilityExceptionsSection({
+  staffOptions,
+}: {
+  staffOptions: { id: number; name: string }[];
+}) {
+  const [exceptions, setExceptions] = useState<AvailabilityException[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<number | null>(null);
+  const [form, setForm] = useState<ExceptionForm>(EMPTY_FORM);
+
+  const loadExceptions = useCallback(() => {
+    setLoading(true);
+    getAvailabilityExceptions({ from: formatDateForApi(today()) })
+      .then((res) => {
+        if (res.success && res.data) setExceptions(res.data);
+        else toast.error(res.message ?? "Ausnahmen konnten nicht geladen werden.");
+      })
+      .catch((e) => toast.error((e as Error).message))
+      .finally(() => setLoading(false));
+  }, []);
+
+  useEffect(() => {
+    loadExceptions();
+  }, [loadExceptions]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.date) {
+      toast.error("Bitte ein Datum wählen.");
+      return;
+    }
+    // Zusätzliche Öffnung braucht immer ein Zeitfenster
+    const withTimes = form.is_available || !form.all_day;
+    setSaving(true);
+    try {
+      const res = await createAvailabilityException({
+        date: form.date,
+        staff_member_id: form.staff_member_id ? parseInt(form.staff_member_id, 10) : null,
+        is_available: form.is_available,
+        start_time: withTimes ? form.start_time : null,
+        end_time: withTimes ? form.end_time : null,
+        reason: form.reason.trim() || null,
+      });
+      if (res.success) {
+        toast.success("Ausnahme angelegt.");
+        setForm(EMPTY_FORM);
+        loadExceptions();
+      } else {
+        toast.error(res.message ?? "Speichern fehlgeschlagen.");
+      }
+    } catch (e) {
+      toast.error((e as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    setDeletingId(id);
+    try {
+      const res = await deleteAvailabilityException(id);
+      if (res.success) {
+        toast.success("Ausnahme gelöscht.");
+        loadExceptions();
+      } else {
+        toast.error(res.message ?? "Löschen fehlgeschlagen.");
+      }
+    } catch (e) {
+      toast.error((e as Error).message);
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <CardTitle className="text-lg">Ausnahmen & Feiertage</CardTitle>
+      <p className="mt-1 text-sm text-[var(--color-muted)]">
+        Schließungen, Urlaub oder zusätzliche Öffnungszeiten an einzelnen Tagen. Ausnahmen gehen den
+        wöchentlichen Zeiten vor.
+      </p>
+
+      <form onSubmit={handleSubmit} className="mt-6 space-y-4">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <Input
+            label="Datum"
+            type="date"
+            min={formatDateForApi(today())}
+            value={form.date}
+            onChange={(e) => setForm((f) => ({ ...f, date: e.target.value }))}
+            required
+          />
+          <div>
+            <label className="mb-1.5 block text-sm font-medium text-[var(--color-text)]">
+              Gilt für
+            </label>
+            <select
+              value={form.staff_member_id}
+              onChange={(e) => setForm((f) => ({ ...f, staff_member_id: e.target.value }))}
+              className={`h-11 w-full ${inputClass}`}
+            >
+              <option value="">Gesamtes Venue</option>
+              {staffOptions.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-4">
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              name="exception-type"
+              checked={!form.is_available}
+              onChange={() => setForm((f) => ({ ...f, is_available: false }))}
+              className="h-4 w-4 border-[var(--color-border)] text-[var(--color-accent)] focus:ring-[var(--color-accent)]"
+            />
+            <span className="text-sm text-[var(--color-text)]">Geschlossen / abwesend</span>
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              name="exception-type"
+              checked={form.is_available}
+              onChange={() => setForm((f) => ({ ...f, is_available: true, all_day: false }))}
+              className="h-4 w-4 border-[var(--color-border)] text-[var(--color-accent)] focus:ring-[var(--color-accent)]"
+            />
+            <span className="text-sm text-[var(--color-text)]">Zusätzlich geöffnet</span>
+          </label>
+          {!form.is_available && (
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={form.all_day}
+                onChange={(e) => setForm((f) => ({ ...f, all_day: e.target.checked }))}
+                className="h-4 w-4 rounded border-[var(--color-border)] text-[var(--color-accent)] focus:ring-[var(--color-accent)]"
+              />
+              <span className="text-sm text-[var(--color-text)]">Ganztägig</span>
+            </label>
+          )}
+        </div>
+        {(form.is_available || !form.all_day) && (
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div>
+              <label className="mb-1.5 block text-sm font-medium text-[var(--color-text)]">Von</label>
+              <input
+                type="time"
+                value={form.start_time}
+                onChange={(e) => setForm((f) => ({ ...f, start_time: e.target.value }))}
+                className={`w-full ${inputClass}`}
+              />
+            </div>
+            <div>
+              <label className="mb-1.5 block text-sm font-medium text-[var(--color-text)]">Bis</label>
+              <input
+                type="time"
+                value={form.end_time}
+                onChange={(e) => setForm((f) => ({ ...f, end_time: e.target.value }))}
+                className={`w-full ${inputClass}`}
+              />
+            </div>
+          </div>
+        )}
+        <Input
+          label="Grund (optional)"
+          value={form.reason}
+          maxLength={255}
+          onChange={(e) => setForm((f) => ({ ...f, reason: e.target.value }))}
+          placeholder="z. B. Weihnachten, Betriebsferien, Urlaub"
+        />
+        <Button type="submit" size="sm" isLoading={saving}>
+          Ausnahme hinzufügen
+        </Button>
+      </form>
+
+      <div className="mt-8 border-t border-[var(--color-border)] pt-6">
+        <h3 className="text-sm font-semibold text-[var(--color-text)]">Kommende Ausnahmen</h3>
+        {loading ? (
+          <p className="mt-3 text-sm text-[var(--color-muted)]">Lädt …</p>
+        ) : exceptions.length === 0 ? (
+          <p className="mt-3 text-sm text-[var(--color-muted)]">Keine Ausnahmen geplant.</p>
+        ) : (
+          <ul className="mt-3 divide-y divide-[var(--color-border)]">
+            {exceptions.map((ex) => (
+              <li key={ex.id} className="flex flex-col gap-2 py-3 sm:flex-row sm:items-center sm:justify-between">
+                <div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium text-[var(--color-text)]">{formatDateDisplay(ex.date)}</span>
+                    <span
+                      className={`rounded-full px-2 py-0.5 text-xs font-medium ${
+                        ex.is_available ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"
+                      }`}
+                    >
+                      {ex.is_available ? "Zusätzlich geöffnet" : "Geschlossen"}
+                    </span>
+                    <span className="text-sm text-[var(--color-muted)]">
+                      · {ex.staff_member_name ?? "Gesamtes Venue"}
+                    </span>
+                  </div>
+                  <p className="mt-1 text-sm text-[var(--color-muted)]">
+                    {ex.start_time && ex.end_time ? formatTimeRange(ex.start_time, ex.end_time) : "Ganztägig"}
+                    {ex.reason && ` · ${ex.reason}`}
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleDelete(ex.id)}
+                  isLoading={deletingId === ex.id}
+                >
+                  Löschen
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,269 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { getServices, explainAvailability } from "@/lib/api/owner";
+import type { AvailabilityExplanation, Service, SlotRejection, SlotRejectionCode } from "@/lib/types";
+import { formatDateDisplay, formatTimeRange, todayInTimeZone } from "@/lib/utils/date";
+import { Card, CardTitle } from "@/components/shared/card";
+import { Button } from "@/components/shared/button";
+import { Input } from "@/components/shared/input";
+
+const inputClass =
+  "rounded-lg border border-[var(--color-border)] bg-[var(--color-surface)] px-3 py-2 text-[var(--color-text)] focus:outline-none focus:ring-2 focus:ring-[var(--color-accent)]";
+
+const REASON_LABELS: Record<SlotRejectionCode, string> = {
+  outside_rules: "Regeln",
+  closure: "Ausnahme",
+  off_grid: "Raster",
+  past: "Vergangen",
+  advance_notice: "Vorlauf",
+  booking_window: "Zeitraum",
+  party_size: "Personen",
+  capacity: "Kapazität",
+  staff_booked: "Belegt",
+  no_table: "Tisch",
+  resource: "Ressource",
+  pacing: "Ankünfte",
+  hold: "Reserviert",
+};
+
+type ExplainForm = { date: string; service_id: string; staff_member_id: string; party_size: string };
+
+/** Beteiligte Buchungen als Links */
+function BookingRefs({ ids }: { ids: number[] }) {
+  return (
+    <>
+      {ids.map((id, i) => (
+        <span key={id}>
+          {i > 0 && ", "}
+          <Link href={`/owner/bookings/${id}`} className="underline hover:no-underline">
+            #{id}
+          </Link>
+        </span>
+      ))}
+    </>
+  );
+}
+
+function ReasonList({ reasons }: { reasons: SlotRejection[] }) {
+  return (
+    <ul className="space-y-1">
+      {reasons.map((reason, i) => (
+        <li key={i} className="flex flex-wrap items-baseline gap-x-2">
+          <span className="rounded bg-[var(--color-border)] px-1.5 py-0.5 text-xs font-medium text-[var(--color-text)]">
+            {REASON_LABELS[reason.code]}
+          </span>
+          <span>
+            {reason.message}
+            {reason.booking_ids && reason.booking_ids.length > 0 && (
+              <>
+                {" "}
+                (<BookingRefs ids={reason.booking_ids} />)
+              </>
+            )}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * Diagnose der Verfügbarkeit: zeigt für Datum, Leistung, Personenzahl und ggf. Mitarbeiter alle geprüften Startzeiten
+ * mit sämtlichen Gründen, warum sie online nicht buchbar sind – z. B. außerhalb der Regeln, Vorlauf, Kapazität
+ * oder Ausnahmen, mit den beteiligten Buchungen.
+ */
+export function AvailabilityExplainSection() {
+  const [services, setServices] = useState<Service[]>([]);
+  const [form, setForm] = useState<ExplainForm>(() => ({
+    date: todayInTimeZone(),
+    service_id: "",
+    staff_member_id: "",
+    party_size: "2",
+  }));
+  const [checking, setChecking] = useState(false);
+  const [result, setResult] = useState<AvailabilityExplanation | null>(null);
+  const [onlyRejected, setOnlyRejected] = useState(false);
+
+  useEffect(() => {
+    getServices()
+      .then((res) => {
+        if (res.success && res.data) setServices(res.data.filter((s) => s.is_active));
+      })
+      .catch((e) => toast.error((e as Error).message));
+  }, []);
+
+  const service = services.find((s) => String(s.id) === form.service_id) ?? null;
+  const staffOptions = service?.requires_staff ? service.staff ?? [] : [];
+  const staffName = (id: number) =>
+    staffOptions.find((s) => s.staff_member_id === id)?.staff_member_name ?? `Mitarbeiter #${id}`;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.date || !service) {
+      toast.error("Bitte Datum und Leistung wählen.");
+      return;
+    }
+    const partySize = service.requires_staff ? 1 : parseInt(form.party_size, 10);
+    if (!Number.isInteger(partySize) || partySize < 1) {
+      toast.error("Bitte eine gültige Personenzahl angeben.");
+      return;
+    }
+    setChecking(true);
+    try {
+      const res = await explainAvailability({
+        date: form.date,
+        service_id: service.id,
+        staff_member_id: form.staff_member_id ? parseInt(form.staff_member_id, 10) : null,
+        party_size: partySize,
+      });
+      if (res.success && res.data) setResult(res.data);
+      else toast.error(res.message ?? "Prüfen fehlgeschlagen.");
+    } catch (e) {
+      toast.error((e as Error).message);
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const candidates = result
+    ? result.candidates.filter((c) => !onlyRejected || !c.available)
+    : [];
+  const availableCount = result ? result.candidates.filter((c) => c.available).length : 0;
+  const showStaff = result?.candidates.some((c) => c.staff_member_id != null) ?? false;
+
+  return (
+    <Card className="p-6">
+      <CardTitle className="text-lg">Verfügbarkeit prüfen</CardTitle>
+      <p className="mt-1 text-sm text-[var(--color-muted)]">
+        Warum ist eine Zeit online nicht buchbar? Zeigt alle geprüften Startzeiten eines Tages mit sämtlichen Gründen –
+        z. B. außerhalb der Öffnungs- bzw. Arbeitszeiten, Ausnahmen und Abwesenheiten, Vorlaufzeit, Kapazität,
+        Tische oder Ressourcen – samt der Buchungen, die eine Zeit belegen.
+      </p>
+
+      <form onSubmit={handleSubmit} className="mt-6 grid gap-4 sm:grid-cols-2 lg:grid-cols-4 lg:items-end">
+        <Input
+          label="Datum"
+          type="date"
+          value={form.date}
+          onChange={(e) => setForm((f) => ({ ...f, date: e.target.value }))}
+          required
+        />
+        <div>
+          <label className="mb-1.5 block text-sm font-medium text-[var(--color-text)]">Leistung</label>
+          <select
+            value={form.service_id}
+            onChange={(e) => setForm((f) => ({ ...f, service_id: e.target.value, staff_member_id: "" }))}
+            className={`h-11 w-full ${inputClass}`}
+            required
+          >
+            <option value="">Bitte wählen</option>
+            {services.map((s) => (
+              <option key={s.id} value={s.id}>
+                {s.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        {service?.requires_staff ? (
+          <div>
+            <label className="mb-1.5 block text-sm font-medium text-[var(--color-text)]">Mitarbeiter</label>
+            <select
+              value={form.staff_member_id}
+              onChange={(e) => setForm((f) => ({ ...f, staff_member_id: e.target.value }))}
+              className={`h-11 w-full ${inputClass}`}
+            >
+              <option value="">Alle Mitarbeiter</option>
+              {staffOptions.map((s) => (
+                <option key={s.staff_member_id} value={s.staff_member_id}>
+                  {s.staff_member_name ?? `Mitarbeiter #${s.staff_member_id}`}
+                </option>
+              ))}
+            </select>
+          </div>
+        ) : (
+          <Input
+            label="Personen"
+            type="number"
+            min={1}
+            max={500}
+            value={form.party_size}
+            onChange={(e) => setForm((f) => ({ ...f, party_size: e.target.value }))}
+          />
+        )}
+        <Button type="submit" size="sm" isLoading={checking}>
+          Prüfen
+        </Button>
+      </form>
+
+      {result && (
+        <div className="mt-8 border-t border-[var(--color-border)] pt-6">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <p className="text-sm text-[var(--color-text)]">
+              {formatDateDisplay(result.date)}: {availableCount} von {result.candidates.length} Startzeiten buchbar ·
+              Dauer {result.duration_minutes} Min.
+            </p>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={onlyRejected}
+                onChange={(e) => setOnlyRejected(e.target.checked)}
+                className="h-4 w-4 rounded border-[var(--color-border)] text-[var(--color-accent)] focus:ring-[var(--color-accent)]"
+              />
+              <span className="text-sm text-[var(--color-text)]">Nur nicht buchbare Zeiten</span>
+            </label>
+          </div>
+
+          {result.candidates.length === 0 ? (
+            <p className="mt-3 text-sm text-[var(--color-muted)]">
+              An diesem Tag gibt es keine Öffnungs- bzw. Arbeitszeiten für diese Leistung.
+            </p>
+          ) : candidates.length === 0 ? (
+            <p className="mt-3 text-sm text-[var(--color-muted)]">Alle Startzeiten sind buchbar.</p>
+          ) : (
+            <div className="mt-3 overflow-x-auto">
+              <table className="w-full text-left text-sm">
+                <thead>
+                  <tr className="border-b border-[var(--color-border)] text-[var(--color-muted)]">
+                    <th className="py-2 pr-4 font-medium">Zeit</th>
+                    {showStaff && <th className="py-2 pr-4 font-medium">Mitarbeiter</th>}
+                    <th className="py-2 pr-4 font-medium">Status</th>
+                    <th className="py-2 font-medium">Gründe</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-[var(--color-border)]">
+                  {candidates.map((c) => (
+                    <tr key={`${c.start_time}-${c.staff_member_id ?? 0}`} className="align-top">
+                      <td className="whitespace-nowrap py-2 pr-4 text-[var(--color-text)]">
+                        {formatTimeRange(c.start_time, c.end_time)}
+                      </td>
+                      {showStaff && (
+                        <td className="py-2 pr-4 text-[var(--color-text)]">
+                          {c.staff_member_id != null ? staffName(c.staff_member_id) : "–"}
+                        </td>
+                      )}
+                      <td className="whitespace-nowrap py-2 pr-4">
+                        {c.available ? (
+                          <span className="text-green-700">
+                            Buchbar{c.remaining_capacity != null && ` · ${c.remaining_capacity} frei`}
+                          </span>
+                        ) : (
+                          <span className="text-red-600">Nicht buchbar</span>
+                        )}
+                      </td>
+                      <td className="py-2 text-[var(--color-text)]">
+                        {c.reasons.length > 0 ? <ReasonList reasons={c.reasons} /> : "–"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,321 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import { toast } from "sonner";
+import {
+  getExternalCalendars,
+  createExternalCalendar,
+  uploadExternalCalendar,
+  syncExternalCalendar,
+  deleteExternalCalendar,
+} from "@/lib/api/owner";
+import type { ExternalCalendar, ExternalCalendarImportResult, StaffScheduleConflict } from "@/lib/types";
+import { formatDateDisplay } from "@/lib/utils/date";
+import { Card, CardTitle } from "@/components/shared/card";
+import { Button } from "@/components/shared/button";
+import { Input } from "@/components/shared/input";
+import { StaffScheduleConflictList } from "@/components/shared/staff-schedule-conflicts";
+
+const inputClass =
+  "rounded-lg border border-[var(--color-border)] bg-[var(--color-surface)] px-3 py-2 text-[var(--color-text)] focus:outline-none focus:ring-2 focus:ring-[var(--color-accent)]";
+
+/** Größte ICS-Datei, die das Backend annimmt */
+const MAX_FILE_BYTES = 2 * 1024 * 1024;
+
+type CalendarForm = {
+  staff_member_id: string;
+  source: "url" | "file";
+  name: string;
+  url: string;
+  file: File | null;
+};
+
+const EMPTY_FORM: CalendarForm = { staff_member_id: "", source: "url", name: "", url: "", file: null };
+
+/** Zeitpunkt des letzten Imports, z. B. "19.10.2026, 14:30" */
+function formatSyncedAt(value: string): string {
+  const [date, time] = value.split(/[ T]/);
+  return `${formatDateDisplay(date)}, ${time?.slice(0, 5) ?? ""}`;
+}
+
+/**
+ * Externe Kalender (ICS) der Mitarbeiter, z. B. einer zweiten Arbeitsstelle: Termine darin blockieren die
+ * Verfügbarkeit wie eine Abwesenheit. Feed-URLs werden alle 30 Minuten neu eingelesen, hochgeladene Dateien
+ * nur beim erneuten Hochladen.
+ */
+export function ExternalCalendarsSection({
+  staffOptions,
+}: {
+  staffOptions: { id: number; name: string }[];
+}) {
+  const [calendars, setCalendars] = useState<ExternalCalendar[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [syncingId, setSyncingId] = useState<number | null>(null);
+  const [deletingId, setDeletingId] = useState<number | null>(null);
+  const [form, setForm] = useState<CalendarForm>(EMPTY_FORM);
+  const [conflicts, setConflicts] = useState<StaffScheduleConflict[]>([]);
+
+  const loadCalendars = useCallback(() => {
+    setLoading(true);
+    getExternalCalendars()
+      .then((res) => {
+        if (res.success && res.data) setCalendars(res.data);
+        else toast.error(res.message ?? "Externe Kalender konnten nicht geladen werden.");
+      })
+      .catch((e) => toast.error((e as Error).message))
+      .finally(() => setLoading(false));
+  }, []);
+
+  useEffect(() => {
+    loadCalendars();
+  }, [loadCalendars]);
+
+  /** Ergebnis eines Imports melden und Konflikte mit bestehenden Terminen anzeigen */
+  const handleImported = (result: ExternalCalendarImportResult) => {
+    setConflicts(result.conflicts);
+    const events = result.calendar.event_count === 1 ? "1 Termin" : `${result.calendar.event_count} Termine`;
+    if (result.conflicts.length > 0) {
+      toast.warning(`${events} eingelesen – ${result.conflicts.length} Buchung(en) überschneiden sich damit.`);
+    } else {
+      toast.success(`${events} eingelesen.`);
+    }
+    loadCalendars();
+  };
+
+  const readFile = async (file: File): Promise<string | null> => {
+    if (file.size > MAX_FILE_BYTES) {
+      toast.error("Die Datei ist zu groß (höchstens 2 MB).");
+      return null;
+    }
+    return file.text();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.staff_member_id) {
+      toast.error("Bitte einen Mitarbeiter wählen.");
+      return;
+    }
+    if (form.source === "url" && !form.url.trim()) {
+      toast.error("Bitte eine Feed-URL angeben.");
+      return;
+    }
+    if (form.source === "file" && !form.file) {
+      toast.error("Bitte eine ICS-Datei wählen.");
+      return;
+    }
+    setSaving(true);
+    try {
+      const staffMemberId = parseInt(form.staff_member_id, 10);
+      let res;
+      if (form.source === "url") {
+        res = await createExternalCalendar({ staff_member_id: staffMemberId, name: form.name.trim(), url: form.url.trim() });
+      } else {
+        const content = await readFile(form.file!);
+        if (content === null) return;
+        res = await uploadExternalCalendar(staffMemberId, (form.name.trim() || form.file!.name).slice(0, 100), content);
+      }
+      if (res.success && res.data) {
+        handleImported(res.data);
+        setForm(EMPTY_FORM);
+      } else {
+        toast.error(res.message ?? "Einlesen fehlgeschlagen.");
+      }
+    } catch (e) {
+      toast.error((e as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSync = async (calendar: ExternalCalendar, file?: File) => {
+    setSyncingId(calendar.id);
+    try {
+      const content = file ? await readFile(file) : undefined;
+      if (content === null) return;
+      const res = await syncExternalCalendar(calendar.id, content);
+      if (res.success && res.data) handleImported(res.data);
+      else toast.error(res.message ?? "Einlesen fehlgeschlagen.");
+    } catch (e) {
+      toast.error((e as Error).message);
+      loadCalendars();
+    } finally {
+      setSyncingId(null);
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    setDeletingId(id);
+    try {
+      const res = await deleteExternalCalendar(id);
+      if (res.success) {
+        toast.success("Kalender entfernt.");
+        setConflicts([]);
+        loadCalendars();
+      } else {
+        toast.error(res.message ?? "Entfernen fehlgeschlagen.");
+      }
+    } catch (e) {
+      toast.error((e as Error).message);
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  if (staffOptions.length === 0) return null;
+
+  return (
+    <Card className="p-6">
+      <CardTitle className="text-lg">Externe Kalender</CardTitle>
+      <p className="mt-1 text-sm text-[var(--color-muted)]">
+        Arbeitet ein Mitarbeiter auch woanders, blockieren die Termine aus seinem Kalender (ICS) hier seine Zeiten –
+        so entstehen keine Doppelbuchungen. Feed-URLs werden alle 30 Minuten neu eingelesen, hochgeladene Dateien nur
+        beim erneuten Hochladen. Als „frei“ markierte und abgesagte Termine zählen nicht.
+      </p>
+
+      <form onSubmit={handleSubmit} className="mt-6 space-y-4">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div>
+            <label className="mb-1.5 block text-sm font-medium text-[var(--color-text)]">Mitarbeiter</label>
+            <select
+              value={form.staff_member_id}
+              onChange={(e) => setForm((f) => ({ ...f, staff_member_id: e.target.value }))}
+              className={`h-11 w-full ${inputClass}`}
+              required
+            >
+              <option value="">Bitte wählen</option>
+              {staffOptions.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <Input
+            label="Name (optional)"
+            value={form.name}
+            maxLength={100}
+            onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))}
+            placeholder="z. B. Zweitsalon"
+          />
+        </div>
+        <div className="flex flex-wrap gap-4">
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              name="calendar-source"
+              checked={form.source === "url"}
+              onChange={() => setForm((f) => ({ ...f, source: "url" }))}
+              className="h-4 w-4 border-[var(--color-border)] text-[var(--color-accent)] focus:ring-[var(--color-accent)]"
+            />
+            <span className="text-sm text-[var(--color-text)]">Feed-URL</span>
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              name="calendar-source"
+              checked={form.source === "file"}
+              onChange={() => setForm((f) => ({ ...f, source: "file" }))}
+              className="h-4 w-4 border-[var(--color-border)] text-[var(--color-accent)] focus:ring-[var(--color-accent)]"
+            />
+            <span className="text-sm text-[var(--color-text)]">ICS-Datei hochladen</span>
+          </label>
+        </div>
+        {form.source === "url" ? (
+          <Input
+            label="Feed-URL"
+            type="url"
+            value={form.url}
+            maxLength={500}
+            onChange={(e) => setForm((f) => ({ ...f, url: e.target.value }))}
+            placeholder="https://… oder webcal://…"
+          />
+        ) : (
+          <div>
+            <label className="mb-1.5 block text-sm font-medium text-[var(--color-text)]">ICS-Datei</label>
+            <input
+              type="file"
+              accept=".ics,text/calendar"
+              onChange={(e) => setForm((f) => ({ ...f, file: e.target.files?.[0] ?? null }))}
+              className="block w-full text-sm text-[var(--color-text)]"
+            />
+          </div>
+        )}
+        <Button type="submit" size="sm" isLoading={saving}>
+          Kalender hinzufügen
+        </Button>
+      </form>
+
+      {conflicts.length > 0 && (
+        <div className="mt-4">
+          <StaffScheduleConflictList conflicts={conflicts} />
+        </div>
+      )}
+
+      <div className="mt-8 border-t border-[var(--color-border)] pt-6">
+        <h3 className="text-sm font-semibold text-[var(--color-text)]">Eingebundene Kalender</h3>
+        {loading ? (
+          <p className="mt-3 text-sm text-[var(--color-muted)]">Lädt …</p>
+        ) : calendars.length === 0 ? (
+          <p className="mt-3 text-sm text-[var(--color-muted)]">Keine externen Kalender eingebunden.</p>
+        ) : (
+          <ul className="mt-3 divide-y divide-[var(--color-border)]">
+            {calendars.map((c) => (
+              <li key={c.id} className="flex flex-col gap-2 py-3 sm:flex-row sm:items-center sm:justify-between">
+                <div className="min-w-0">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium text-[var(--color-text)]">{c.name}</span>
+                    <span className="text-sm text-[var(--color-muted)]">· {c.staff_member_name}</span>
+                  </div>
+                  <p className="mt-1 truncate text-sm text-[var(--color-muted)]">
+                    {c.url ?? "Hochgeladene Datei"} · {c.event_count === 1 ? "1 Termin" : `${c.event_count} Termine`}
+                    {c.last_synced_at && ` · eingelesen ${formatSyncedAt(c.last_synced_at)}`}
+                  </p>
+                  {c.last_error && (
+                    <p className="mt-1 text-sm text-red-600">
+                      Letzter Abruf fehlgeschlagen: {c.last_error} – die zuvor eingelesenen Termine gelten weiter.
+                    </p>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  {c.url ? (
+                    <Button variant="outline" size="sm" onClick={() => handleSync(c)} isLoading={syncingId === c.id}>
+                      Neu einlesen
+                    </Button>
+                  ) : (
+                    <label
+                      className={`inline-flex h-9 cursor-pointer items-center justify-center rounded-md border-2 border-[var(--color-border-strong)] bg-[var(--color-surface)] px-3 text-sm font-medium text-[var(--color-text)] transition-all duration-200 hover:border-[var(--color-accent)] hover:text-[var(--color-accent-strong)] ${
+                        syncingId === c.id ? "pointer-events-none opacity-50" : ""
+                      }`}
+                    >
+                      Datei ersetzen
+                      <input
+                        type="file"
+                        accept=".ics,text/calendar"
+                        className="sr-only"
+                        onChange={(e) => {
+                          const file = e.target.files?.[0];
+                          e.target.value = "";
+                          if (file) handleSync(c, file);
+                        }}
+                      />
+                    </label>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleDelete(c.id)}
+                    isLoading={deletingId === c.id}
+                  >
+                    Entfernen
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </Card>
+  );
+}
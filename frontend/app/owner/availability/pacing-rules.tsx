@@ -0,0 +1,284 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import { toast } from "sonner";
+import { getPacingRules, createPacingRule, updatePacingRule, deletePacingRule } from "@/lib/api/owner";
+import type { PacingRule } from "@/lib/types";
+import { formatTimeRange } from "@/lib/utils/date";
+import { Card, CardTitle } from "@/components/shared/card";
+import { Button } from "@/components/shared/button";
+import { Input } from "@/components/shared/input";
+
+const inputClass =
+  "rounded-lg border border-[var(--color-border)] bg-[var(--color-surface)] px-3 py-2 text-[var(--color-text)] focus:outline-none focus:ring-2 focus:ring-[var(--color-accent)]";
+
+const DAY_OPTIONS = [
+  { value: 1, label: "Montag" },
+  { value: 2, label: "Dienstag" },
+  { value: 3, label: "Mittwoch" },
+  { value: 4, label: "Donnerstag" },
+  { value: 5, label: "Freitag" },
+  { value: 6, label: "Samstag" },
+  { value: 0, label: "Sonntag" },
+];
+
+type PacingForm = {
+  name: string;
+  day_of_week: string;
+  start_time: string;
+  end_time: string;
+  interval_minutes: number;
+  max_covers: string;
+  max_parties: string;
+};
+
+const EMPTY_FORM: PacingForm = {
+  name: "",
+  day_of_week: "",
+  start_time: "18:00",
+  end_time: "22:00",
+  interval_minutes: 15,
+  max_covers: "12",
+  max_parties: "4",
+};
+
+function describeLimits(rule: PacingRule): string {
+  const parts: string[] = [];
+  if (rule.max_covers != null) parts.push(`max. ${rule.max_covers} Gäste`);
+  if (rule.max_parties != null) parts.push(`max. ${rule.max_parties} Gruppen`);
+  return `${parts.join(", ")} je ${rule.interval_minutes} Min.`;
+}
+
+/**
+ * Ankunftssteuerung (Pacing): begrenzt, wie viele Gäste bzw. Gruppen im selben Zeitfenster
+ * ankommen dürfen – damit Küche und Service nicht alle Gäste gleichzeitig bekommen.
+ * Gilt für Leistungen ohne Mitarbeiter (Tisch- bzw. Kapazitätsbuchungen).
+ */
+export function PacingRulesSection() {
+  const [rules, setRules] = useState<PacingRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [updatingId, setUpdatingId] = useState<number | null>(null);
+  const [deletingId, setDeletingId] = useState<number | null>(null);
+  const [form, setForm] = useState<PacingForm>(EMPTY_FORM);
+
+  const loadRules = useCallback(() => {
+    setLoading(true);
+    getPacingRules()
+      .then((res) => {
+        if (res.success && res.data) setRules(res.data);
+        else toast.error(res.message ?? "Pacing-Regeln konnten nicht geladen werden.");
+      })
+      .catch((e) => toast.error((e as Error).message))
+      .finally(() => setLoading(false));
+  }, []);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.name.trim()) {
+      toast.error("Bitte einen Namen angeben.");
+      return;
+    }
+    if (!form.max_covers && !form.max_parties) {
+      toast.error("Bitte mindestens ein Limit (Gäste oder Gruppen) angeben.");
+      return;
+    }
+    setSaving(true);
+    try {
+      const res = await createPacingRule({
+        name: form.name.trim(),
+        day_of_week: form.day_of_week ? parseInt(form.day_of_week, 10) : null,
+        start_time: form.start_time,
+        end_time: form.end_time,
+        interval_minutes: form.interval_minutes,
+        max_covers: form.max_covers ? parseInt(form.max_covers, 10) : null,
+        max_parties: form.max_parties ? parseInt(form.max_parties, 10) : null,
+      });
+      if (res.success) {
+        toast.success("Pacing-Regel angelegt.");
+        setForm(EMPTY_FORM);
+        loadRules();
+      } else {
+        toast.error(res.message ?? "Speichern fehlgeschlagen.");
+      }
+    } catch (e) {
+      toast.error((e as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = async (rule: PacingRule) => {
+    setUpdatingId(rule.id);
+    try {
+      const res = await updatePacingRule(rule.id, { is_active: !rule.is_active });
+      if (res.success) {
+        toast.success(rule.is_active ? "Pacing-Regel pausiert." : "Pacing-Regel aktiviert.");
+        loadRules();
+      } else {
+        toast.error(res.message ?? "Speichern fehlgeschlagen.");
+      }
+    } catch (e) {
+      toast.error((e as Error).message);
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    setDeletingId(id);
+    try {
+      const res = await deletePacingRule(id);
+      if (res.success) {
+        toast.success("Pacing-Regel gelöscht.");
+        loadRules();
+      } else {
+        toast.error(res.message ?? "Löschen fehlgeschlagen.");
+      }
+    } catch (e) {
+      toast.error((e as Error).message);
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <CardTitle className="text-lg">Ankunftssteuerung</CardTitle>
+      <p className="mt-1 text-sm text-[var(--color-muted)]">
+        Begrenzt, wie viele Gäste bzw. Gruppen pro Zeitfenster ankommen dürfen, z. B. höchstens 12 Gäste und
+        4 Gruppen je 15 Minuten. Gilt für Tisch- und Kapazitätsbuchungen; ohne Wochentag an allen Tagen.
+      </p>
+
+      <form onSubmit={handleSubmit} className="mt-6 space-y-4">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <Input
+            label="Name"
+            value={form.name}
+            maxLength={100}
+            onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))}
+            placeholder="z. B. Abendservice"
+            required
+          />
+          <div>
+            <label className="mb-1.5 block text-sm font-medium text-[var(--color-text)]">Wochentag</label>
+            <select
+              value={form.day_of_week}
+              onChange={(e) => setForm((f) => ({ ...f, day_of_week: e.target.value }))}
+              className={`h-11 w-full ${inputClass}`}
+            >
+              <option value="">Alle Tage</option>
+              {DAY_OPTIONS.map((d) => (
+                <option key={d.value} value={d.value}>
+                  {d.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="mb-1.5 block text-sm font-medium text-[var(--color-text)]">Von</label>
+            <input
+              type="time"
+              value={form.start_time}
+              onChange={(e) => setForm((f) => ({ ...f, start_time: e.target.value }))}
+              className={`w-full ${inputClass}`}
+            />
+          </div>
+          <div>
+            <label className="mb-1.5 block text-sm font-medium text-[var(--color-text)]">Bis</label>
+            <input
+              type="time"
+              value={form.end_time}
+              onChange={(e) => setForm((f) => ({ ...f, end_time: e.target.value }))}
+              className={`w-full ${inputClass}`}
+            />
+          </div>
+          <Input
+            label="Intervall (Minuten)"
+            type="number"
+            min={5}
+            max={240}
+            value={form.interval_minutes || ""}
+            onChange={(e) => setForm((f) => ({ ...f, interval_minutes: parseInt(e.target.value, 10) || 0 }))}
+          />
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              label="Max. Gäste"
+              type="number"
+              min={1}
+              max={500}
+              value={form.max_covers}
+              onChange={(e) => setForm((f) => ({ ...f, max_covers: e.target.value }))}
+              placeholder="ohne"
+            />
+            <Input
+              label="Max. Gruppen"
+              type="number"
+              min={1}
+              max={500}
+              value={form.max_parties}
+              onChange={(e) => setForm((f) => ({ ...f, max_parties: e.target.value }))}
+              placeholder="ohne"
+            />
+          </div>
+        </div>
+        <Button type="submit" size="sm" isLoading={saving}>
+          Regel hinzufügen
+        </Button>
+      </form>
+
+      <div className="mt-8 border-t border-[var(--color-border)] pt-6">
+        <h3 className="text-sm font-semibold text-[var(--color-text)]">Regeln</h3>
+        {loading ? (
+          <p className="mt-3 text-sm text-[var(--color-muted)]">Lädt …</p>
+        ) : rules.length === 0 ? (
+          <p className="mt-3 text-sm text-[var(--color-muted)]">Keine Regeln – Ankünfte sind nur durch Tische bzw. Kapazität begrenzt.</p>
+        ) : (
+          <ul className="mt-3 divide-y divide-[var(--color-border)]">
+            {rules.map((rule) => (
+              <li key={rule.id} className="flex flex-col gap-2 py-3 sm:flex-row sm:items-center sm:justify-between">
+                <div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium text-[var(--color-text)]">{rule.name}</span>
+                    {!rule.is_active && (
+                      <span className="rounded-full bg-gray-100 px-2 py-0.5 text-xs font-medium text-gray-600">
+                        Pausiert
+                      </span>
+                    )}
+                    <span className="text-sm text-[var(--color-muted)]">
+                      · {DAY_OPTIONS.find((d) => d.value === rule.day_of_week)?.label ?? "Alle Tage"},{" "}
+                      {formatTimeRange(rule.start_time, rule.end_time)}
+                    </span>
+                  </div>
+                  <p className="mt-1 text-sm text-[var(--color-muted)]">{describeLimits(rule)}</p>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => toggleActive(rule)}
+                    isLoading={updatingId === rule.id}
+                  >
+                    {rule.is_active ? "Pausieren" : "Aktivieren"}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleDelete(rule.id)}
+                    isLoading={deletingId === rule.id}
+                  >
+                    Löschen
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -2,12 +2,22 @@
 
 import { useEffect, useState, useCallback } from "react";
 import { toast } from "sonner";
-import { getAvailabilityRules, updateAvailabilityRule } from "@/lib/api/owner";
-import type { AvailabilityRule } from "@/lib/types";
+import { getAvailabilityRules, getAvailabilityRuleSets, createAvailabilityRule, updateAvailabilityRule } from "@/lib/api/owner";
+import type { AvailabilityRule, AvailabilityRuleSet } from "@/lib/types";
 import { Card, CardTitle } from "@/components/shared/card";
 import { Button } from "@/components/shared/button";
 import { PageLoader } from "@/components/shared/loading-spinner";
 import { ErrorMessage } from "@/components/shared/error-message";
+import { crossesMidnight, formatTimeRange } from "@/lib/utils/date";
+import { AvailabilityExceptionsSection } from "./availability-exceptions";
+import { StaffScheduleSection } from "./staff-schedule";
+import { ExternalCalendarsSection } from "./external-calendars";
+import { AvailabilityExplainSection } from "./explain";
+import { PacingRulesSection } from "./pacing-rules";
+import { RuleSetsSection, formatRuleSetRange } from "./rule-sets";
+
+const inputClass =
+  "rounded-lg border border-[var(--color-border)] bg-[var(--color-surface)] px-3 py-2 text-[var(--color-text)] focus:outline-none focus:ring-2 focus:ring-[var(--color-accent)]";
 
 const DAY_NAMES: Record<number, string> = {
   0: "Sonntag",
@@ -19,8 +29,17 @@ const DAY_NAMES: Record<number, string> = {
   6: "Samstag",
 };
 
+type NewRuleForm = { day_of_week: string; start_time: string; end_time: string; staff_member_id: string };
+
+const EMPTY_RULE_FORM: NewRuleForm = { day_of_week: "1", start_time: "09:00", end_time: "18:00", staff_member_id: "" };
+
 export default function OwnerAvailabilityPage() {
   const [rules, setRules] = useState<AvailabilityRule[]>([]);
+  const [ruleSets, setRuleSets] = useState<AvailabilityRuleSet[]>([]);
+  // Angezeigter Zeitplan: null = Grundplan
+  const [selectedRuleSetId, setSelectedRuleSetId] = useState<number | null>(null);
+  const [newRule, setNewRule] = useState<NewRuleForm>(EMPTY_RULE_FORM);
+  const [creating, setCreating] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [editingId, setEditingId] = useState<number | null>(null);
@@ -34,10 +53,11 @@ export default function OwnerAvailabilityPage() {
   const loadRules = useCallback(() => {
     setLoading(true);
     setError(null);
-    getAvailabilityRules()
-      .then((res) => {
+    Promise.all([getAvailabilityRules(), getAvailabilityRuleSets()])
+      .then(([res, ruleSetsRes]) => {
         if (res.success && res.data) setRules(res.data);
         else setError(res.message ?? "Fehler beim Laden.");
+        if (ruleSetsRes.success && ruleSetsRes.data) setRuleSets(ruleSetsRes.data);
       })
       .catch((e) => setError((e as Error).message))
       .finally(() => setLoading(false));
@@ -83,10 +103,48 @@ export default function OwnerAvailabilityPage() {
     }
   };
 
+  const handleCreateRule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreating(true);
+    try {
+      const res = await createAvailabilityRule({
+        day_of_week: parseInt(newRule.day_of_week, 10),
+        start_time: newRule.start_time,
+        end_time: newRule.end_time,
+        staff_member_id: newRule.staff_member_id ? parseInt(newRule.staff_member_id, 10) : null,
+        rule_set_id: selectedRuleSetId,
+      });
+      if (res.success) {
+        toast.success("Zeitfenster hinzugefügt.");
+        setNewRule(EMPTY_RULE_FORM);
+        loadRules();
+      } else {
+        toast.error(res.message ?? "Speichern fehlgeschlagen.");
+      }
+    } catch (e) {
+      toast.error((e as Error).message);
+    } finally {
+      setCreating(false);
+    }
+  };
+
   if (error) {
     return <ErrorMessage message={error} onRetry={loadRules} />;
   }
 
+  const selectedRuleSet = ruleSets.find((rs) => rs.id === selectedRuleSetId) ?? null;
+  const visibleRules = rules.filter((r) => (r.rule_set_id ?? null) === selectedRuleSetId);
+
+  // Mitarbeiter mit eigenen Regeln – für Ausnahmen, Abwesenheiten und Schichtänderungen auswählbar
+  const staffOptions = Array.from(
+    new Map(
+      rules
+        .filter((r) => r.staff_member_id != null)
+        .map((r) => [r.staff_member_id as number, r.staff_member_name ?? `Mitarbeiter #${r.staff_member_id}`])
+    ),
+    ([id, name]) => ({ id, name })
+  );
+
   return (
     <div className="space-y-6">
       <div>
@@ -98,15 +156,38 @@ export default function OwnerAvailabilityPage() {
         </p>
       </div>
 
+      {ruleSets.length > 0 && (
+        <div className="flex flex-wrap items-center gap-3">
+          <select
+            value={selectedRuleSetId ?? ""}
+            onChange={(e) => setSelectedRuleSetId(e.target.value ? parseInt(e.target.value, 10) : null)}
+            className={inputClass}
+            aria-label="Zeitplan"
+          >
+            <option value="">Grundplan</option>
+            {ruleSets.map((rs) => (
+              <option key={rs.id} value={rs.id}>
+                {rs.name}
+              </option>
+            ))}
+          </select>
+          <span className="text-sm text-[var(--color-muted)]">
+            {selectedRuleSet
+              ? `Gültig ${formatRuleSetRange(selectedRuleSet)}${selectedRuleSet.is_active ? "" : " · pausiert"}`
+              : "Gilt, solange kein Zeitplan greift"}
+          </span>
+        </div>
+      )}
+
       {loading ? (
         <PageLoader />
-      ) : rules.length === 0 ? (
+      ) : visibleRules.length === 0 ? (
         <Card className="py-12 text-center text-[var(--color-muted)]">
-          Keine Verfügbarkeitsregeln angelegt.
+          {selectedRuleSet ? "Keine Regeln in diesem Zeitplan – es gilt weiter der Grundplan." : "Keine Verfügbarkeitsregeln angelegt."}
         </Card>
       ) : (
         <ul className="space-y-4">
-          {rules
+          {visibleRules
             .slice()
             .sort((a, b) => a.day_of_week - b.day_of_week || a.start_time.localeCompare(b.start_time))
             .map((r) => (
@@ -142,6 +223,11 @@ export default function OwnerAvailabilityPage() {
                           className="rounded-lg border border-[var(--color-border)] bg-[var(--color-surface)] px-3 py-2 text-[var(--color-text)] focus:outline-none focus:ring-2 focus:ring-[var(--color-accent)]"
                         />
                       </div>
+                      {crossesMidnight(editForm.start_time, editForm.end_time) && (
+                        <p className="text-xs text-[var(--color-muted)]">
+                          Endet am Folgetag – z. B. 18:00 bis 02:00 für Öffnung über Mitternacht.
+                        </p>
+                      )}
                       <label className="flex items-center gap-2">
                         <input
                           type="checkbox"
@@ -181,7 +267,7 @@ export default function OwnerAvailabilityPage() {
                           )}
                         </div>
                         <p className="mt-1 text-sm text-[var(--color-muted)]">
-                          {r.start_time} – {r.end_time}
+                          {formatTimeRange(r.start_time, r.end_time)}
                         </p>
                       </div>
                       <Button variant="outline" size="sm" onClick={() => startEdit(r)}>
@@ -194,6 +280,77 @@ export default function OwnerAvailabilityPage() {
             ))}
         </ul>
       )}
+
+      {!loading && (
+        <Card className="p-6">
+          <CardTitle className="text-base">
+            Zeitfenster hinzufügen{selectedRuleSet ? ` · ${selectedRuleSet.name}` : " · Grundplan"}
+          </CardTitle>
+          <form onSubmit={handleCreateRule} className="mt-4 flex flex-wrap items-end gap-3">
+            <select
+              value={newRule.day_of_week}
+              onChange={(e) => setNewRule((f) => ({ ...f, day_of_week: e.target.value }))}
+              className={inputClass}
+              aria-label="Wochentag"
+            >
+              {[1, 2, 3, 4, 5, 6, 0].map((day) => (
+                <option key={day} value={day}>
+                  {DAY_NAMES[day]}
+                </option>
+              ))}
+            </select>
+            <input
+              type="time"
+              value={newRule.start_time}
+              onChange={(e) => setNewRule((f) => ({ ...f, start_time: e.target.value }))}
+              className={inputClass}
+              aria-label="Von"
+            />
+            <input
+              type="time"
+              value={newRule.end_time}
+              onChange={(e) => setNewRule((f) => ({ ...f, end_time: e.target.value }))}
+              className={inputClass}
+              aria-label="Bis"
+            />
+            {staffOptions.length > 0 && (
+              <select
+                value={newRule.staff_member_id}
+                onChange={(e) => setNewRule((f) => ({ ...f, staff_member_id: e.target.value }))}
+                className={inputClass}
+                aria-label="Für"
+              >
+                <option value="">Geschäft</option>
+                {staffOptions.map((s) => (
+                  <option key={s.id} value={s.id}>
+                    {s.name}
+                  </option>
+                ))}
+              </select>
+            )}
+            <Button type="submit" size="sm" isLoading={creating}>
+              Hinzufügen
+            </Button>
+          </form>
+        </Card>
+      )}
+
+      <RuleSetsSection
+        ruleSets={ruleSets}
+        selectedRuleSetId={selectedRuleSetId}
+        onSelect={setSelectedRuleSetId}
+        onChanged={loadRules}
+      />
+
+      {!loading && <AvailabilityExceptionsSection staffOptions={staffOptions} />}
+
+      {!loading && <StaffScheduleSection staffOptions={staffOptions} />}
+
+      {!loading && <ExternalCalendarsSection staffOptions={staffOptions} />}
+
+      {!loading && <PacingRulesSection />}
+
+      {!loading && <AvailabilityExplainSection />}
     </div>
   );
 }
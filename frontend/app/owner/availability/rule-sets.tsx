@@ -0,0 +1,267 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import {
+  createAvailabilityRuleSet,
+  updateAvailabilityRuleSet,
+  deleteAvailabilityRuleSet,
+  getAvailabilitySchedule,
+} from "@/lib/api/owner";
+import type { AvailabilityRuleSet, AvailabilitySchedule } from "@/lib/types";
+import { formatDateDisplay, formatTimeRange, todayInTimeZone } from "@/lib/utils/date";
+import { Card, CardTitle } from "@/components/shared/card";
+import { Button } from "@/components/shared/button";
+import { Input } from "@/components/shared/input";
+
+const inputClass =
+  "rounded-lg border border-[var(--color-border)] bg-[var(--color-surface)] px-3 py-2 text-[var(--color-text)] focus:outline-none focus:ring-2 focus:ring-[var(--color-accent)]";
+
+type RuleSetForm = { name: string; valid_from: string; valid_until: string };
+
+const EMPTY_FORM: RuleSetForm = { name: "", valid_from: "", valid_until: "" };
+
+function formatDate(iso: string): string {
+  return new Date(iso + "T12:00:00").toLocaleDateString("de-DE", { day: "2-digit", month: "2-digit", year: "numeric" });
+}
+
+export function formatRuleSetRange(ruleSet: AvailabilityRuleSet): string {
+  if (ruleSet.valid_from && ruleSet.valid_until) return `${formatDate(ruleSet.valid_from)} – ${formatDate(ruleSet.valid_until)}`;
+  if (ruleSet.valid_from) return `ab ${formatDate(ruleSet.valid_from)}`;
+  if (ruleSet.valid_until) return `bis ${formatDate(ruleSet.valid_until)}`;
+  return "unbefristet";
+}
+
+/**
+ * Saisonale Zeitpläne (z. B. Sommer- und Winteröffnungszeiten) mit Gültigkeitszeitraum.
+ * Ein neuer Zeitplan startet als Kopie des Grundplans; seine Regeln werden oben wie gewohnt bearbeitet.
+ * Darunter: welcher Zeitplan an einem gewählten Datum gilt.
+ */
+export function RuleSetsSection({
+  ruleSets,
+  selectedRuleSetId,
+  onSelect,
+  onChanged,
+}: {
+  ruleSets: AvailabilityRuleSet[];
+  selectedRuleSetId: number | null;
+  onSelect: (ruleSetId: number | null) => void;
+  onChanged: () => void;
+}) {
+  const [form, setForm] = useState<RuleSetForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [updatingId, setUpdatingId] = useState<number | null>(null);
+  const [deletingId, setDeletingId] = useState<number | null>(null);
+  const [checkDate, setCheckDate] = useState(() => todayInTimeZone());
+  const [schedule, setSchedule] = useState<AvailabilitySchedule | null>(null);
+
+  useEffect(() => {
+    if (!checkDate) return;
+    getAvailabilitySchedule(checkDate)
+      .then((res) => {
+        if (res.success && res.data) setSchedule(res.data);
+        else toast.error(res.message ?? "Gültiger Zeitplan konnte nicht geladen werden.");
+      })
+      .catch((e) => toast.error((e as Error).message));
+  }, [checkDate, ruleSets]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.name.trim()) {
+      toast.error("Bitte einen Namen angeben.");
+      return;
+    }
+    if (form.valid_from && form.valid_until && form.valid_from > form.valid_until) {
+      toast.error("„Gültig ab“ darf nicht nach „Gültig bis“ liegen.");
+      return;
+    }
+    setSaving(true);
+    try {
+      const res = await createAvailabilityRuleSet({
+        name: form.name.trim(),
+        valid_from: form.valid_from || null,
+        valid_until: form.valid_until || null,
+      });
+      if (res.success && res.data) {
+        toast.success("Zeitplan angelegt – die Zeiten wurden aus dem Grundplan übernommen.");
+        setForm(EMPTY_FORM);
+        onSelect(res.data.id);
+        onChanged();
+      } else {
+        toast.error(res.message ?? "Speichern fehlgeschlagen.");
+      }
+    } catch (e) {
+      toast.error((e as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = async (ruleSet: AvailabilityRuleSet) => {
+    setUpdatingId(ruleSet.id);
+    try {
+      const res = await updateAvailabilityRuleSet(ruleSet.id, { is_active: !ruleSet.is_active });
+      if (res.success) {
+        toast.success(ruleSet.is_active ? "Zeitplan pausiert." : "Zeitplan aktiviert.");
+        onChanged();
+      } else {
+        toast.error(res.message ?? "Speichern fehlgeschlagen.");
+      }
+    } catch (e) {
+      toast.error((e as Error).message);
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    setDeletingId(id);
+    try {
+      const res = await deleteAvailabilityRuleSet(id);
+      if (res.success) {
+        toast.success("Zeitplan gelöscht.");
+        if (selectedRuleSetId === id) onSelect(null);
+        onChanged();
+      } else {
+        toast.error(res.message ?? "Löschen fehlgeschlagen.");
+      }
+    } catch (e) {
+      toast.error((e as Error).message);
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <CardTitle className="text-lg">Saisonale Zeitpläne</CardTitle>
+      <p className="mt-1 text-sm text-[var(--color-muted)]">
+        Eigene Öffnungs- und Arbeitszeiten für einen Zeitraum, z. B. Sommer- und Winterzeiten – so lässt sich die
+        nächste Saison vorab planen. Überschneiden sich Zeiträume, gilt der kürzere. Außerhalb aller Zeitpläne gilt der Grundplan.
+      </p>
+
+      <form onSubmit={handleSubmit} className="mt-6 space-y-4">
+        <div className="grid gap-4 sm:grid-cols-3">
+          <Input
+            label="Name"
+            value={form.name}
+            maxLength={100}
+            onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))}
+            placeholder="z. B. Sommer 2027"
+            required
+          />
+          <div>
+            <label className="mb-1.5 block text-sm font-medium text-[var(--color-text)]">Gültig ab</label>
+            <input
+              type="date"
+              value={form.valid_from}
+              onChange={(e) => setForm((f) => ({ ...f, valid_from: e.target.value }))}
+              className={`w-full ${inputClass}`}
+            />
+          </div>
+          <div>
+            <label className="mb-1.5 block text-sm font-medium text-[var(--color-text)]">Gültig bis</label>
+            <input
+              type="date"
+              value={form.valid_until}
+              onChange={(e) => setForm((f) => ({ ...f, valid_until: e.target.value }))}
+              className={`w-full ${inputClass}`}
+            />
+          </div>
+        </div>
+        <p className="text-xs text-[var(--color-muted)]">Leere Datumsfelder = ohne Anfang bzw. ohne Ende.</p>
+        <Button type="submit" size="sm" isLoading={saving}>
+          Zeitplan anlegen
+        </Button>
+      </form>
+
+      <div className="mt-8 border-t border-[var(--color-border)] pt-6">
+        <h3 className="text-sm font-semibold text-[var(--color-text)]">Zeitpläne</h3>
+        {ruleSets.length === 0 ? (
+          <p className="mt-3 text-sm text-[var(--color-muted)]">Keine Zeitpläne – es gilt immer der Grundplan.</p>
+        ) : (
+          <ul className="mt-3 divide-y divide-[var(--color-border)]">
+            {ruleSets.map((ruleSet) => (
+              <li key={ruleSet.id} className="flex flex-col gap-2 py-3 sm:flex-row sm:items-center sm:justify-between">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium text-[var(--color-text)]">{ruleSet.name}</span>
+                  {!ruleSet.is_active && (
+                    <span className="rounded-full bg-gray-100 px-2 py-0.5 text-xs font-medium text-gray-600">
+                      Pausiert
+                    </span>
+                  )}
+                  <span className="text-sm text-[var(--color-muted)]">· {formatRuleSetRange(ruleSet)}</span>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant={selectedRuleSetId === ruleSet.id ? "primary" : "outline"}
+                    size="sm"
+                    onClick={() => onSelect(ruleSet.id)}
+                  >
+                    Zeiten bearbeiten
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => toggleActive(ruleSet)}
+                    isLoading={updatingId === ruleSet.id}
+                  >
+                    {ruleSet.is_active ? "Pausieren" : "Aktivieren"}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleDelete(ruleSet.id)}
+                    isLoading={deletingId === ruleSet.id}
+                  >
+                    Löschen
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="mt-8 border-t border-[var(--color-border)] pt-6">
+        <h3 className="text-sm font-semibold text-[var(--color-text)]">Gültig am</h3>
+        <div className="mt-3 flex flex-wrap items-center gap-3">
+          <input
+            type="date"
+            value={checkDate}
+            onChange={(e) => setCheckDate(e.target.value)}
+            className={inputClass}
+            aria-label="Datum"
+          />
+          {schedule && schedule.date === checkDate && (
+            <span className="text-sm text-[var(--color-text)]">
+              {formatDateDisplay(schedule.date)}:{" "}
+              <span className="font-medium">
+                {schedule.rule_set ? `${schedule.rule_set.name} (${formatRuleSetRange(schedule.rule_set)})` : "Grundplan"}
+              </span>
+            </span>
+          )}
+        </div>
+        {schedule && schedule.date === checkDate && (
+          schedule.rules.length === 0 ? (
+            <p className="mt-3 text-sm text-[var(--color-muted)]">An diesem Wochentag geschlossen.</p>
+          ) : (
+            <ul className="mt-3 space-y-1 text-sm">
+              {schedule.rules.map((rule) => (
+                <li key={rule.id} className="text-[var(--color-text)]">
+                  {rule.staff_member_name ?? "Geschäft"}: {formatTimeRange(rule.start_time, rule.end_time)}
+                  {schedule.rule_set && rule.rule_set_id === null && (
+                    <span className="ml-1 text-xs text-[var(--color-muted)]">(Grundplan)</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )
+        )}
+        <p className="mt-2 text-xs text-[var(--color-muted)]">
+          Ohne Ausnahmen und Schichtänderungen – diese gelten zusätzlich.
+        </p>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,303 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import { toast } from "sonner";
+import {
+  getStaffScheduleOverrides,
+  createStaffScheduleOverride,
+  deleteStaffScheduleOverride,
+} from "@/lib/api/owner";
+import type { StaffScheduleConflict, StaffScheduleOverride, StaffScheduleOverrideType } from "@/lib/types";
+import { formatDateForApi, formatDateDisplay, formatTimeRange, today } from "@/lib/utils/date";
+import { Card, CardTitle } from "@/components/shared/card";
+import { Button } from "@/components/shared/button";
+import { Input } from "@/components/shared/input";
+import { StaffScheduleConflictList } from "@/components/shared/staff-schedule-conflicts";
+
+const inputClass =
+  "rounded-lg border border-[var(--color-border)] bg-[var(--color-surface)] px-3 py-2 text-[var(--color-text)] focus:outline-none focus:ring-2 focus:ring-[var(--color-accent)]";
+
+type OverrideForm = {
+  staff_member_id: string;
+  type: StaffScheduleOverrideType;
+  start_date: string;
+  end_date: string;
+  all_day: boolean;
+  start_time: string;
+  end_time: string;
+  reason: string;
+};
+
+const EMPTY_FORM: OverrideForm = {
+  staff_member_id: "",
+  type: "time_off",
+  start_date: "",
+  end_date: "",
+  all_day: true,
+  start_time: "12:00",
+  end_time: "13:00",
+  reason: "",
+};
+
+/** Zeitraum eines Eintrags für die Anzeige (ein Tag oder "von – bis"). */
+function formatDateRange(o: StaffScheduleOverride): string {
+  return o.start_date === o.end_date
+    ? formatDateDisplay(o.start_date)
+    : `${formatDateDisplay(o.start_date)} – ${formatDateDisplay(o.end_date)}`;
+}
+
+/**
+ * Abwesenheiten (Pause, Arzttermin, Urlaub) und geänderte Schichten einzelner Mitarbeiter
+ * für einen Datumsbereich. Warnt, wenn bestehende Termine dadurch außerhalb der Arbeitszeit liegen.
+ */
+export function StaffScheduleSection({
+  staffOptions,
+}: {
+  staffOptions: { id: number; name: string }[];
+}) {
+  const [overrides, setOverrides] = useState<StaffScheduleOverride[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<number | null>(null);
+  const [form, setForm] = useState<OverrideForm>(EMPTY_FORM);
+  const [conflicts, setConflicts] = useState<StaffScheduleConflict[]>([]);
+
+  const loadOverrides = useCallback(() => {
+    setLoading(true);
+    getStaffScheduleOverrides({ from: formatDateForApi(today()) })
+      .then((res) => {
+        if (res.success && res.data) setOverrides(res.data);
+        else toast.error(res.message ?? "Abwesenheiten konnten nicht geladen werden.");
+      })
+      .catch((e) => toast.error((e as Error).message))
+      .finally(() => setLoading(false));
+  }, []);
+
+  useEffect(() => {
+    loadOverrides();
+  }, [loadOverrides]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.staff_member_id) {
+      toast.error("Bitte einen Mitarbeiter wählen.");
+      return;
+    }
+    if (!form.start_date) {
+      toast.error("Bitte ein Datum wählen.");
+      return;
+    }
+    // Schicht braucht immer Zeiten
+    const withTimes = form.type === "shift" || !form.all_day;
+    setSaving(true);
+    try {
+      const res = await createStaffScheduleOverride({
+        staff_member_id: parseInt(form.staff_member_id, 10),
+        type: form.type,
+        start_date: form.start_date,
+        end_date: form.end_date || form.start_date,
+        start_time: withTimes ? form.start_time : null,
+        end_time: withTimes ? form.end_time : null,
+        reason: form.reason.trim() || null,
+      });
+      if (res.success && res.data) {
+        const found = res.data.conflicts;
+        setConflicts(found);
+        if (found.length > 0) {
+          toast.warning(`Eintrag angelegt – ${found.length} Termin(e) liegen jetzt außerhalb der Arbeitszeit.`);
+        } else {
+          toast.success("Eintrag angelegt.");
+        }
+        setForm(EMPTY_FORM);
+        loadOverrides();
+      } else {
+        toast.error(res.message ?? "Speichern fehlgeschlagen.");
+      }
+    } catch (e) {
+      toast.error((e as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    setDeletingId(id);
+    try {
+      const res = await deleteStaffScheduleOverride(id);
+      if (res.success) {
+        toast.success("Eintrag gelöscht.");
+        setConflicts([]);
+        loadOverrides();
+      } else {
+        toast.error(res.message ?? "Löschen fehlgeschlagen.");
+      }
+    } catch (e) {
+      toast.error((e as Error).message);
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  if (staffOptions.length === 0) return null;
+
+  return (
+    <Card className="p-6">
+      <CardTitle className="text-lg">Abwesenheiten & Schichtänderungen</CardTitle>
+      <p className="mt-1 text-sm text-[var(--color-muted)]">
+        Pausen, Arzttermine, Urlaub oder getauschte Schichten einzelner Mitarbeiter für einen oder
+        mehrere Tage. Eine geänderte Schicht ersetzt an diesen Tagen die wöchentlichen Zeiten.
+      </p>
+
+      <form onSubmit={handleSubmit} className="mt-6 space-y-4">
+        <div>
+          <label className="mb-1.5 block text-sm font-medium text-[var(--color-text)]">Mitarbeiter</label>
+          <select
+            value={form.staff_member_id}
+            onChange={(e) => setForm((f) => ({ ...f, staff_member_id: e.target.value }))}
+            className={`h-11 w-full ${inputClass}`}
+            required
+          >
+            <option value="">Bitte wählen</option>
+            {staffOptions.map((s) => (
+              <option key={s.id} value={s.id}>
+                {s.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex flex-wrap gap-4">
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              name="override-type"
+              checked={form.type === "time_off"}
+              onChange={() => setForm((f) => ({ ...f, type: "time_off" }))}
+              className="h-4 w-4 border-[var(--color-border)] text-[var(--color-accent)] focus:ring-[var(--color-accent)]"
+            />
+            <span className="text-sm text-[var(--color-text)]">Abwesend / Pause</span>
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              name="override-type"
+              checked={form.type === "shift"}
+              onChange={() =>
+                setForm((f) => ({ ...f, type: "shift", all_day: false, start_time: "09:00", end_time: "17:00" }))
+              }
+              className="h-4 w-4 border-[var(--color-border)] text-[var(--color-accent)] focus:ring-[var(--color-accent)]"
+            />
+            <span className="text-sm text-[var(--color-text)]">Geänderte Schicht</span>
+          </label>
+          {form.type === "time_off" && (
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={form.all_day}
+                onChange={(e) => setForm((f) => ({ ...f, all_day: e.target.checked }))}
+                className="h-4 w-4 rounded border-[var(--color-border)] text-[var(--color-accent)] focus:ring-[var(--color-accent)]"
+              />
+              <span className="text-sm text-[var(--color-text)]">Ganztägig</span>
+            </label>
+          )}
+        </div>
+        <div className="grid gap-4 sm:grid-cols-2">
+          <Input
+            label="Von (Datum)"
+            type="date"
+            min={formatDateForApi(today())}
+            value={form.start_date}
+            onChange={(e) => setForm((f) => ({ ...f, start_date: e.target.value }))}
+            required
+          />
+          <Input
+            label="Bis (Datum, optional)"
+            type="date"
+            min={form.start_date || formatDateForApi(today())}
+            value={form.end_date}
+            onChange={(e) => setForm((f) => ({ ...f, end_date: e.target.value }))}
+          />
+        </div>
+        {(form.type === "shift" || !form.all_day) && (
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div>
+              <label className="mb-1.5 block text-sm font-medium text-[var(--color-text)]">Von</label>
+              <input
+                type="time"
+                value={form.start_time}
+                onChange={(e) => setForm((f) => ({ ...f, start_time: e.target.value }))}
+                className={`w-full ${inputClass}`}
+              />
+            </div>
+            <div>
+              <label className="mb-1.5 block text-sm font-medium text-[var(--color-text)]">Bis</label>
+              <input
+                type="time"
+                value={form.end_time}
+                onChange={(e) => setForm((f) => ({ ...f, end_time: e.target.value }))}
+                className={`w-full ${inputClass}`}
+              />
+            </div>
+          </div>
+        )}
+        <Input
+          label="Grund (optional)"
+          value={form.reason}
+          maxLength={255}
+          onChange={(e) => setForm((f) => ({ ...f, reason: e.target.value }))}
+          placeholder="z. B. Mittagspause, Arzttermin, Schichttausch"
+        />
+        <Button type="submit" size="sm" isLoading={saving}>
+          Eintrag hinzufügen
+        </Button>
+      </form>
+
+      {conflicts.length > 0 && (
+        <div className="mt-4">
+          <StaffScheduleConflictList conflicts={conflicts} />
+        </div>
+      )}
+
+      <div className="mt-8 border-t border-[var(--color-border)] pt-6">
+        <h3 className="text-sm font-semibold text-[var(--color-text)]">Kommende Einträge</h3>
+        {loading ? (
+          <p className="mt-3 text-sm text-[var(--color-muted)]">Lädt …</p>
+        ) : overrides.length === 0 ? (
+          <p className="mt-3 text-sm text-[var(--color-muted)]">Keine Abwesenheiten oder Schichtänderungen geplant.</p>
+        ) : (
+          <ul className="mt-3 divide-y divide-[var(--color-border)]">
+            {overrides.map((o) => (
+              <li key={o.id} className="flex flex-col gap-2 py-3 sm:flex-row sm:items-center sm:justify-between">
+                <div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium text-[var(--color-text)]">{formatDateRange(o)}</span>
+                    <span
+                      className={`rounded-full px-2 py-0.5 text-xs font-medium ${
+                        o.type === "shift" ? "bg-blue-100 text-blue-800" : "bg-red-100 text-red-800"
+                      }`}
+                    >
+                      {o.type === "shift" ? "Geänderte Schicht" : "Abwesend"}
+                    </span>
+                    <span className="text-sm text-[var(--color-muted)]">· {o.staff_member_name}</span>
+                  </div>
+                  <p className="mt-1 text-sm text-[var(--color-muted)]">
+                    {o.start_time && o.end_time ? formatTimeRange(o.start_time, o.end_time) : "Ganztägig"}
+                    {o.reason && ` · ${o.reason}`}
+                    {o.approved_by_name && ` · Freigegeben von ${o.approved_by_name}`}
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleDelete(o.id)}
+                  isLoading={deletingId === o.id}
+                >
+                  Löschen
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -31,6 +31,7 @@ function formatAuditAction(entry: BookingAuditLogEntry): string {
   }
   if (entry.action === "cancel") return "Stornierung";
   if (entry.action === "update") return "Details geändert";
+  if (entry.action === "staff_assigned") return "Mitarbeiter automatisch zugewiesen";
   return entry.action;
 }
 
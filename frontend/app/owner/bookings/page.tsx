@@ -7,6 +7,7 @@ import { getBookings, updateBookingStatus, getServices, createManualBooking } fr
 import type { BookingWithDetails } from "@/lib/types";
 import type { Service } from "@/lib/types";
 import { getStatusLabel, getStatusColor } from "@/lib/utils/bookingStatus";
+import { isPastInTimeZone } from "@/lib/utils/date";
 import { Button } from "@/components/shared/button";
 import { Card } from "@/components/shared/card";
 import { BookingDetailModal } from "@/components/admin/BookingDetailModal";
@@ -148,8 +149,8 @@ export default function OwnerBookingsPage() {
       return;
     }
     const partySize = manualForm.party_size || 2;
-    if (partySize < 1 || partySize > 8) {
-      toast.error("Anzahl Personen muss zwischen 1 und 8 liegen. Für mehr Gäste bitte anrufen.");
+    if (partySize < 1) {
+      toast.error("Anzahl Personen muss mindestens 1 sein.");
       return;
     }
     const service = services.find((s) => s.id === manualForm.service_id);
@@ -322,13 +323,17 @@ export default function OwnerBookingsPage() {
                       {b.customer_phone && ` · ${b.customer_phone}`}
                     </p>
                     <p className="mt-1 text-sm text-[var(--color-text)]">
-                      {b.service_name}
+                      {b.items && b.items.length > 0
+                        ? b.items.map((item) => item.service_name).join(" + ")
+                        : b.service_name}
                       {b.staff_member_name && ` · ${b.staff_member_name}`}
                     </p>
                     <p className="text-sm text-[var(--color-muted)]">
                       {formatDate(b.booking_date)} · {formatTime(b.start_time)}–
                       {formatTime(b.end_time)}
                       {b.party_size > 0 && ` · ${b.party_size} Pers.`}
+                      {b.table_names && ` · Tisch ${b.table_names}`}
+                      {b.resource_names && ` · ${b.resource_names}`}
                     </p>
                     <span
                       className={`mt-2 inline-block rounded-full px-2.5 py-0.5 text-xs font-medium ${getStatusColor(b.status)}`}
@@ -356,10 +361,10 @@ export default function OwnerBookingsPage() {
                         }
                         disabled={
                           updatingId === b.id ||
-                          new Date(`${b.booking_date}T${b.end_time}`).getTime() > Date.now()
+                          !isPastInTimeZone(b.booking_date, b.end_time, b.venue_timezone)
                         }
                         title={
-                          new Date(`${b.booking_date}T${b.end_time}`).getTime() > Date.now()
+                          !isPastInTimeZone(b.booking_date, b.end_time, b.venue_timezone)
                             ? "Nur für vergangene Termine"
                             : undefined
                         }
@@ -534,17 +539,16 @@ export default function OwnerBookingsPage() {
               />
               <div>
                 <label className="mb-1.5 block text-sm font-medium text-[var(--color-text)]">
-                  Anzahl Personen (1–8)
+                  Anzahl Personen
                 </label>
                 <input
                   type="number"
                   min={1}
-                  max={8}
                   value={manualForm.party_size}
-                  onChange={(e) => setManualForm((f) => ({ ...f, party_size: Math.min(8, Math.max(1, parseInt(e.target.value, 10) || 1)) }))}
+                  onChange={(e) => setManualForm((f) => ({ ...f, party_size: Math.max(1, parseInt(e.target.value, 10) || 1) }))}
                   className="w-full rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] px-3 py-2 text-[var(--color-text)]"
                 />
-                <p className="mt-1 text-xs text-[var(--color-muted)]">Für mehr als 8 Personen bitte anrufen.</p>
+                <p className="mt-1 text-xs text-[var(--color-muted)]">Manuelle Buchungen sind auch über der Online-Höchstzahl möglich.</p>
               </div>
               <div className="flex gap-3 pt-2">
                 <Button type="submit" isLoading={manualSaving} className="flex-1">
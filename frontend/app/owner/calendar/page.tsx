@@ -1,14 +1,15 @@
 "use client";
 
 import { useEffect, useState, useCallback } from "react";
-import { getBookings } from "@/lib/api/owner";
-import type { BookingWithDetails } from "@/lib/types";
+import { getBookings, getStaffScheduleConflicts, getStaffScheduleOverrides } from "@/lib/api/owner";
+import type { BookingWithDetails, StaffScheduleConflict, StaffScheduleOverride } from "@/lib/types";
 import { getStatusColorBlock } from "@/lib/utils/bookingStatus";
 import { Card } from "@/components/shared/card";
 import { Button } from "@/components/shared/button";
 import { PageLoader } from "@/components/shared/loading-spinner";
 import { ErrorMessage } from "@/components/shared/error-message";
 import { BookingDetailModal } from "@/components/admin/BookingDetailModal";
+import { StaffScheduleConflictList } from "@/components/shared/staff-schedule-conflicts";
 
 function getMonthYear(d: Date) {
   return { year: d.getFullYear(), month: d.getMonth() };
@@ -34,6 +35,8 @@ export default function OwnerCalendarPage() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [detailBooking, setDetailBooking] = useState<BookingWithDetails | null>(null);
+  const [overrides, setOverrides] = useState<StaffScheduleOverride[]>([]);
+  const [conflicts, setConflicts] = useState<StaffScheduleConflict[]>([]);
 
   const { year, month } = getMonthYear(viewDate);
   const start = getMonthStart(year, month);
@@ -51,6 +54,13 @@ export default function OwnerCalendarPage() {
       })
       .catch((e) => setError((e as Error).message))
       .finally(() => setLoading(false));
+    // Abwesenheiten/Schichtänderungen und Termine außerhalb der Arbeitszeit – Fehler hier blockieren den Kalender nicht
+    getStaffScheduleOverrides({ from: startStr, to: endStr })
+      .then((res) => setOverrides(res.success && res.data ? res.data : []))
+      .catch(() => setOverrides([]));
+    getStaffScheduleConflicts(startStr, endStr)
+      .then((res) => setConflicts(res.success && res.data ? res.data : []))
+      .catch(() => setConflicts([]));
   }, [startStr, endStr]);
 
   useEffect(() => {
@@ -75,6 +85,10 @@ export default function OwnerCalendarPage() {
     bookingsByDate[d].push(b);
   });
 
+  const conflictIds = new Set(conflicts.map((c) => c.booking_id));
+  const overridesForDate = (dateStr: string) =>
+    overrides.filter((o) => o.start_date <= dateStr && o.end_date >= dateStr);
+
   const firstDay = new Date(year, month, 1);
   const firstWeekday = firstDay.getDay();
   const offset = firstWeekday === 0 ? 6 : firstWeekday - 1;
@@ -99,7 +113,7 @@ export default function OwnerCalendarPage() {
             Kalender
           </h1>
           <p className="mt-1 text-sm text-[var(--color-muted)]">
-            Monatsansicht aller Buchungen.
+            Monatsansicht aller Buchungen, Abwesenheiten und Schichtänderungen.
           </p>
         </div>
         <div className="flex items-center gap-2">
@@ -128,6 +142,11 @@ export default function OwnerCalendarPage() {
         <PageLoader />
       ) : (
         <>
+          <StaffScheduleConflictList
+            conflicts={conflicts}
+            title="Diese Termine liegen außerhalb der Arbeitszeit (Abwesenheit oder geänderte Schicht):"
+          />
+
           <Card className="overflow-hidden p-0">
             <div className="grid grid-cols-7 border-b border-[var(--color-border)] bg-[var(--color-page)]">
               {WEEKDAY_LABELS.map((label) => (
@@ -146,6 +165,7 @@ export default function OwnerCalendarPage() {
                 }
                 const dateStr = `${year}-${String(month + 1).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
                 const dayBookings = bookingsByDate[dateStr] ?? [];
+                const dayOverrides = overridesForDate(dateStr);
                 const isToday =
                   today.getFullYear() === year &&
                   today.getMonth() === month &&
@@ -165,14 +185,31 @@ export default function OwnerCalendarPage() {
                       {day}
                     </div>
                     <div className="mt-1 min-h-0 flex-1 space-y-1 overflow-y-auto">
+                      {dayOverrides.map((o) => (
+                        <div
+                          key={`override-${o.id}`}
+                          className={`truncate rounded px-1.5 py-0.5 text-[10px] ${
+                            o.type === "shift" ? "bg-blue-50 text-blue-800" : "bg-gray-100 text-gray-700"
+                          }`}
+                          title={o.reason ?? undefined}
+                        >
+                          {o.staff_member_name}: {o.type === "shift" ? "Schicht" : "abwesend"}
+                          {o.start_time && o.end_time ? ` ${o.start_time}–${o.end_time}` : ""}
+                        </div>
+                      ))}
                       {dayBookings.map((b) => (
                         <button
                           key={b.id}
                           type="button"
                           onClick={() => setDetailBooking(b)}
-                          className={`block w-full rounded px-1.5 py-0.5 text-left text-xs truncate ${getStatusColorBlock(b.status)} text-white hover:opacity-90`}
-                          title={`${b.customer_name} · ${b.start_time} · ${b.service_name ?? ""}`}
+                          className={`block w-full rounded px-1.5 py-0.5 text-left text-xs truncate ${getStatusColorBlock(b.status)} text-white hover:opacity-90 ${
+                            conflictIds.has(b.id) ? "ring-2 ring-amber-400" : ""
+                          }`}
+                          title={`${b.customer_name} · ${b.start_time} · ${b.service_name ?? ""}${
+                            conflictIds.has(b.id) ? " · außerhalb der Arbeitszeit" : ""
+                          }`}
                         >
+                          {conflictIds.has(b.id) && "⚠ "}
                           {b.start_time} {b.customer_name}
                         </button>
                       ))}
@@ -204,6 +241,9 @@ export default function OwnerCalendarPage() {
             <span className="inline-flex items-center gap-1.5 text-sm text-[var(--color-muted)]">
               <span className="h-3 w-3 rounded bg-gray-500" /> Nicht erschienen
             </span>
+            <span className="inline-flex items-center gap-1.5 text-sm text-[var(--color-muted)]">
+              <span className="h-3 w-3 rounded ring-2 ring-amber-400" /> Außerhalb der Arbeitszeit
+            </span>
           </div>
 
           <BookingDetailModal
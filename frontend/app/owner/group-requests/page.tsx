@@ -0,0 +1,304 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import { toast } from "sonner";
+import { getGroupRequests, acceptGroupRequest, declineGroupRequest, getServices, getTables } from "@/lib/api/owner";
+import type { GroupRequest, GroupRequestStatus, Service, VenueTable } from "@/lib/types";
+import { formatDateDisplay } from "@/lib/utils/date";
+import { Card } from "@/components/shared/card";
+import { Button } from "@/components/shared/button";
+import { PageLoader } from "@/components/shared/loading-spinner";
+import { ErrorMessage } from "@/components/shared/error-message";
+
+const inputClass =
+  "rounded-lg border border-[var(--color-border)] bg-[var(--color-surface)] px-3 py-2 text-[var(--color-text)] focus:outline-none focus:ring-2 focus:ring-[var(--color-accent)]";
+
+const STATUS_LABELS: Record<GroupRequestStatus, string> = {
+  pending: "Offen",
+  accepted: "Angenommen",
+  declined: "Abgesagt",
+};
+
+const STATUS_COLORS: Record<GroupRequestStatus, string> = {
+  pending: "bg-amber-100 text-amber-800",
+  accepted: "bg-green-100 text-green-800",
+  declined: "bg-gray-100 text-gray-600",
+};
+
+type AcceptForm = { date: string; time: string; serviceId: string; tableIds: number[] };
+
+export default function OwnerGroupRequestsPage() {
+  const [requests, setRequests] = useState<GroupRequest[]>([]);
+  const [services, setServices] = useState<Service[]>([]);
+  const [tables, setTables] = useState<VenueTable[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<GroupRequestStatus | "">("pending");
+  const [acceptingId, setAcceptingId] = useState<number | null>(null);
+  const [acceptForm, setAcceptForm] = useState<AcceptForm>({ date: "", time: "", serviceId: "", tableIds: [] });
+  const [decliningId, setDecliningId] = useState<number | null>(null);
+  const [declineReason, setDeclineReason] = useState("");
+  const [savingId, setSavingId] = useState<number | null>(null);
+
+  const loadRequests = useCallback(() => {
+    setLoading(true);
+    setError(null);
+    Promise.all([getGroupRequests({ status: status || undefined }), getServices(), getTables()])
+      .then(([requestsRes, servicesRes, tablesRes]) => {
+        if (requestsRes.success && requestsRes.data) setRequests(requestsRes.data);
+        else setError(requestsRes.message ?? "Fehler beim Laden.");
+        if (servicesRes.success && servicesRes.data) setServices(servicesRes.data.filter((s) => s.is_active));
+        if (tablesRes.success && tablesRes.data) setTables(tablesRes.data.filter((t) => t.is_active));
+      })
+      .catch((e) => setError((e as Error).message))
+      .finally(() => setLoading(false));
+  }, [status]);
+
+  useEffect(() => {
+    loadRequests();
+  }, [loadRequests]);
+
+  const openAccept = (r: GroupRequest) => {
+    setDecliningId(null);
+    setAcceptingId(r.id);
+    setAcceptForm({
+      date: r.preferred_date,
+      time: r.preferred_time ?? "",
+      serviceId: r.service_id ? String(r.service_id) : "",
+      tableIds: [],
+    });
+  };
+
+  const toggleTable = (tableId: number) => {
+    setAcceptForm((f) => ({
+      ...f,
+      tableIds: f.tableIds.includes(tableId) ? f.tableIds.filter((id) => id !== tableId) : [...f.tableIds, tableId],
+    }));
+  };
+
+  const handleAccept = async (r: GroupRequest) => {
+    if (!acceptForm.date || !acceptForm.time || !acceptForm.serviceId) {
+      toast.error("Bitte Datum, Uhrzeit und Leistung wählen.");
+      return;
+    }
+    setSavingId(r.id);
+    try {
+      const res = await acceptGroupRequest(r.id, {
+        booking_date: acceptForm.date,
+        start_time: acceptForm.time,
+        service_id: Number(acceptForm.serviceId),
+        table_ids: acceptForm.tableIds.length > 0 ? acceptForm.tableIds : undefined,
+      });
+      if (res.success) {
+        toast.success("Anfrage angenommen – der Kunde erhält eine Bestätigung.");
+        setAcceptingId(null);
+        loadRequests();
+      } else {
+        toast.error(res.message ?? "Annehmen fehlgeschlagen.");
+      }
+    } catch (e) {
+      toast.error((e as Error).message);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleDecline = async (id: number) => {
+    setSavingId(id);
+    try {
+      const res = await declineGroupRequest(id, declineReason.trim() || undefined);
+      if (res.success) {
+        toast.success("Anfrage abgesagt.");
+        setDecliningId(null);
+        setDeclineReason("");
+        loadRequests();
+      } else {
+        toast.error(res.message ?? "Absagen fehlgeschlagen.");
+      }
+    } catch (e) {
+      toast.error((e as Error).message);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  if (error) {
+    return <ErrorMessage message={error} onRetry={loadRequests} />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="font-display text-2xl font-semibold text-[var(--color-text)]">
+          Gruppenanfragen
+        </h1>
+        <p className="mt-1 text-sm text-[var(--color-muted)]">
+          Anfragen für mehr Gäste als online buchbar. Beim Annehmen wählen Sie Uhrzeit und optional Tische –
+          daraus wird eine bestätigte Buchung, der Kunde erhält die Bestätigung per E-Mail.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-3">
+        <select
+          value={status}
+          onChange={(e) => setStatus(e.target.value as GroupRequestStatus | "")}
+          className={inputClass}
+          aria-label="Status"
+        >
+          <option value="">Alle Status</option>
+          {(Object.keys(STATUS_LABELS) as GroupRequestStatus[]).map((s) => (
+            <option key={s} value={s}>
+              {STATUS_LABELS[s]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {loading ? (
+        <PageLoader />
+      ) : requests.length === 0 ? (
+        <Card className="py-12 text-center text-[var(--color-muted)]">
+          Keine Gruppenanfragen.
+        </Card>
+      ) : (
+        <Card className="p-0">
+          <ul className="divide-y divide-[var(--color-border)]">
+            {requests.map((r) => (
+              <li key={r.id} className="space-y-3 p-4">
+                <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+                  <div>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium text-[var(--color-text)]">
+                        {formatDateDisplay(r.preferred_date)}
+                        {r.preferred_time && `, ${r.preferred_time} Uhr`}
+                      </span>
+                      <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${STATUS_COLORS[r.status]}`}>
+                        {STATUS_LABELS[r.status]}
+                      </span>
+                      <span className="text-sm text-[var(--color-muted)]">
+                        · {r.party_size} Personen{r.service_name && ` · ${r.service_name}`}
+                      </span>
+                    </div>
+                    <p className="mt-1 text-sm text-[var(--color-text)]">
+                      {r.customer_name} · {r.customer_email}
+                      {r.customer_phone && ` · ${r.customer_phone}`}
+                    </p>
+                    {r.message && <p className="mt-1 text-sm text-[var(--color-muted)]">„{r.message}“</p>}
+                    {r.status === "accepted" && r.booking_id && (
+                      <p className="mt-1 text-xs text-[var(--color-muted)]">Buchung #{r.booking_id}</p>
+                    )}
+                    {r.status === "declined" && r.decline_reason && (
+                      <p className="mt-1 text-xs text-[var(--color-muted)]">Begründung: {r.decline_reason}</p>
+                    )}
+                  </div>
+                  {r.status === "pending" && acceptingId !== r.id && decliningId !== r.id && (
+                    <div className="flex gap-2">
+                      <Button size="sm" onClick={() => openAccept(r)}>
+                        Annehmen
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => {
+                          setAcceptingId(null);
+                          setDecliningId(r.id);
+                          setDeclineReason("");
+                        }}
+                      >
+                        Absagen
+                      </Button>
+                    </div>
+                  )}
+                </div>
+
+                {acceptingId === r.id && (
+                  <div className="space-y-3 rounded-lg border border-[var(--color-border)] p-3">
+                    <div className="flex flex-wrap gap-3">
+                      <input
+                        type="date"
+                        value={acceptForm.date}
+                        onChange={(e) => setAcceptForm((f) => ({ ...f, date: e.target.value }))}
+                        className={inputClass}
+                        aria-label="Datum"
+                      />
+                      <input
+                        type="time"
+                        value={acceptForm.time}
+                        onChange={(e) => setAcceptForm((f) => ({ ...f, time: e.target.value }))}
+                        className={inputClass}
+                        aria-label="Uhrzeit"
+                      />
+                      <select
+                        value={acceptForm.serviceId}
+                        onChange={(e) => setAcceptForm((f) => ({ ...f, serviceId: e.target.value }))}
+                        className={inputClass}
+                        aria-label="Leistung"
+                      >
+                        <option value="">Leistung wählen</option>
+                        {services.map((s) => (
+                          <option key={s.id} value={s.id}>
+                            {s.name}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    {tables.length > 0 && (
+                      <div>
+                        <p className="mb-1.5 text-sm text-[var(--color-muted)]">
+                          Tische (optional – ohne Auswahl wird automatisch zugewiesen,{" "}
+                          gewählt: {tables.filter((t) => acceptForm.tableIds.includes(t.id)).reduce((sum, t) => sum + t.max_seats, 0)} Plätze)
+                        </p>
+                        <div className="flex flex-wrap gap-2">
+                          {tables.map((t) => (
+                            <label key={t.id} className="flex items-center gap-1.5 text-sm text-[var(--color-text)]">
+                              <input
+                                type="checkbox"
+                                checked={acceptForm.tableIds.includes(t.id)}
+                                onChange={() => toggleTable(t.id)}
+                              />
+                              {t.name}
+                              {t.area && ` (${t.area})`} · {t.max_seats}
+                            </label>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                    <div className="flex gap-2">
+                      <Button size="sm" onClick={() => handleAccept(r)} isLoading={savingId === r.id}>
+                        Buchung anlegen
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => setAcceptingId(null)}>
+                        Abbrechen
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
+                {decliningId === r.id && (
+                  <div className="space-y-3 rounded-lg border border-[var(--color-border)] p-3">
+                    <textarea
+                      value={declineReason}
+                      onChange={(e) => setDeclineReason(e.target.value)}
+                      maxLength={500}
+                      rows={2}
+                      placeholder="Begründung für den Kunden (optional)"
+                      className={`w-full ${inputClass}`}
+                    />
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" onClick={() => handleDecline(r.id)} isLoading={savingId === r.id}>
+                        Absage senden
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => setDecliningId(null)}>
+                        Abbrechen
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        </Card>
+      )}
+    </div>
+  );
+}
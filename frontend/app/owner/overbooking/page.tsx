@@ -0,0 +1,219 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import { toast } from "sonner";
+import { getVenueSettings, getOverbookingOverview, updateVenueSettings } from "@/lib/api/owner";
+import type { OverbookingMode, OverbookingOverview } from "@/lib/types";
+import { addDaysIso, formatDateDisplay, todayInTimeZone } from "@/lib/utils/date";
+import { Card, CardTitle } from "@/components/shared/card";
+import { Button } from "@/components/shared/button";
+import { Input } from "@/components/shared/input";
+import { PageLoader } from "@/components/shared/loading-spinner";
+import { ErrorMessage } from "@/components/shared/error-message";
+
+const inputClass =
+  "rounded-lg border border-[var(--color-border)] bg-[var(--color-surface)] px-3 py-2 text-[var(--color-text)] focus:outline-none focus:ring-2 focus:ring-[var(--color-accent)]";
+
+const MODE_LABELS: Record<OverbookingMode, string> = {
+  off: "Aus",
+  fixed: "Feste Zahl",
+  no_show_rate: "Nach No-Show-Quote",
+};
+
+/** Zeitraum der Übersicht ab heute (Ortszeit des Venues) */
+const OVERVIEW_DAYS = 14;
+
+type OverbookingForm = { mode: OverbookingMode; value: number; cap: number };
+
+export default function OwnerOverbookingPage() {
+  const [overview, setOverview] = useState<OverbookingOverview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState<OverbookingForm>({ mode: "off", value: 0, cap: 0 });
+
+  const loadOverview = useCallback(() => {
+    setLoading(true);
+    setError(null);
+    getVenueSettings()
+      .then((venueRes) => {
+        if (!venueRes.success || !venueRes.data) throw new Error(venueRes.message ?? "Fehler beim Laden.");
+        const from = todayInTimeZone(venueRes.data.timezone);
+        return getOverbookingOverview(from, addDaysIso(from, OVERVIEW_DAYS - 1));
+      })
+      .then((res) => {
+        if (res.success && res.data) {
+          setOverview(res.data);
+          setForm({
+            mode: res.data.settings.overbooking_mode,
+            value: res.data.settings.overbooking_value,
+            cap: res.data.settings.overbooking_cap,
+          });
+        } else {
+          setError(res.message ?? "Fehler beim Laden.");
+        }
+      })
+      .catch((e) => setError((e as Error).message))
+      .finally(() => setLoading(false));
+  }, []);
+
+  useEffect(() => {
+    loadOverview();
+  }, [loadOverview]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (form.mode === "no_show_rate" && form.cap < 1) {
+      toast.error("Bitte eine Obergrenze angeben – sonst wird nach No-Show-Quote nicht überbucht.");
+      return;
+    }
+    setSaving(true);
+    try {
+      const res = await updateVenueSettings({
+        overbooking_mode: form.mode,
+        overbooking_value: form.value,
+        overbooking_cap: form.cap,
+      });
+      if (res.success) {
+        toast.success("Überbuchung gespeichert.");
+        loadOverview();
+      } else {
+        toast.error(res.message ?? "Speichern fehlgeschlagen.");
+      }
+    } catch (e) {
+      toast.error((e as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (error) {
+    return <ErrorMessage message={error} onRetry={loadOverview} />;
+  }
+
+  if (loading && !overview) {
+    return <PageLoader />;
+  }
+
+  const rows = (overview?.days ?? []).flatMap((day) =>
+    day.services.map((s) => ({ date: day.date, ...s }))
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="font-display text-2xl font-semibold text-[var(--color-text)]">
+          Überbuchung
+        </h1>
+        <p className="mt-1 text-sm text-[var(--color-muted)]">
+          Erlaubt kontrolliert mehr Gäste als die Kapazität einer Leistung, um erwartete No-Shows auszugleichen.
+          Gilt nur für Kapazitätsbuchungen ohne Tischplan; die Obergrenze wird nie überschritten.
+        </p>
+      </div>
+
+      <Card className="p-6">
+        <CardTitle className="text-lg">Einstellung</CardTitle>
+        <p className="mt-1 text-sm text-[var(--color-muted)]">
+          No-Show-Quote der letzten 90 Tage:{" "}
+          {overview?.no_show_rate != null
+            ? `${(overview.no_show_rate * 100).toLocaleString("de-DE", { maximumFractionDigits: 1 })} %`
+            : "noch zu wenige abgeschlossene Buchungen"}
+        </p>
+        <form onSubmit={handleSave} className="mt-6 space-y-4">
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div>
+              <label className="mb-1.5 block text-sm font-medium text-[var(--color-text)]">Modus</label>
+              <select
+                value={form.mode}
+                onChange={(e) => setForm((f) => ({ ...f, mode: e.target.value as OverbookingMode }))}
+                className={`h-11 w-full ${inputClass}`}
+              >
+                {(Object.keys(MODE_LABELS) as OverbookingMode[]).map((m) => (
+                  <option key={m} value={m}>
+                    {MODE_LABELS[m]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {form.mode === "fixed" && (
+              <Input
+                label="Zusätzliche Gäste je Slot"
+                type="number"
+                min={0}
+                max={100}
+                value={form.value}
+                onChange={(e) => setForm((f) => ({ ...f, value: parseInt(e.target.value, 10) || 0 }))}
+              />
+            )}
+            {form.mode !== "off" && (
+              <Input
+                label="Obergrenze (Gäste je Slot)"
+                type="number"
+                min={0}
+                max={100}
+                value={form.cap}
+                onChange={(e) => setForm((f) => ({ ...f, cap: parseInt(e.target.value, 10) || 0 }))}
+              />
+            )}
+          </div>
+          <p className="text-xs text-[var(--color-muted)]">
+            Einzelne Leistungen können unter „Leistungen“ eine eigene Einstellung erhalten.
+          </p>
+          <Button type="submit" size="sm" isLoading={saving}>
+            Speichern
+          </Button>
+        </form>
+      </Card>
+
+      <Card className="p-0">
+        <div className="border-b border-[var(--color-border)] p-4">
+          <h2 className="font-semibold text-[var(--color-text)]">Nächste {OVERVIEW_DAYS} Tage</h2>
+          <p className="mt-1 text-sm text-[var(--color-muted)]">
+            Spitzenbelegung je Tag und Leistung; überbuchte Gäste sind die über der Kapazität angenommenen.
+          </p>
+        </div>
+        {rows.length === 0 ? (
+          <p className="p-4 text-sm text-[var(--color-muted)]">Keine Kapazitätsbuchungen im Zeitraum.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="text-left text-[var(--color-muted)]">
+                <tr>
+                  <th className="px-4 py-2 font-medium">Datum</th>
+                  <th className="px-4 py-2 font-medium">Leistung</th>
+                  <th className="px-4 py-2 font-medium">Kapazität</th>
+                  <th className="px-4 py-2 font-medium">Zusätzlich erlaubt</th>
+                  <th className="px-4 py-2 font-medium">Spitze</th>
+                  <th className="px-4 py-2 font-medium">Überbucht</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-[var(--color-border)]">
+                {rows.map((r) => (
+                  <tr key={`${r.date}-${r.service_id}`}>
+                    <td className="px-4 py-2 text-[var(--color-text)]">{formatDateDisplay(r.date)}</td>
+                    <td className="px-4 py-2 text-[var(--color-text)]">{r.service_name}</td>
+                    <td className="px-4 py-2 text-[var(--color-text)]">{r.capacity}</td>
+                    <td className="px-4 py-2 text-[var(--color-text)]">
+                      {r.allowance}
+                      <span className="ml-1 text-xs text-[var(--color-muted)]">({MODE_LABELS[r.mode]})</span>
+                    </td>
+                    <td className="px-4 py-2 text-[var(--color-text)]">{r.peak_covers}</td>
+                    <td className="px-4 py-2">
+                      {r.overbooked_covers > 0 ? (
+                        <span className="rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-800">
+                          +{r.overbooked_covers}
+                        </span>
+                      ) : (
+                        <span className="text-[var(--color-muted)]">–</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
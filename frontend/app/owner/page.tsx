@@ -68,6 +68,16 @@ export default function OwnerDashboardPage() {
             )}
           </Button>
         </Link>
+        {(s.groupRequestsPending ?? 0) > 0 && (
+          <Link href="/owner/group-requests">
+            <Button variant="outline" size="sm">
+              Gruppenanfragen
+              <span className="ml-2 rounded-full bg-[var(--color-accent)] px-2 py-0.5 text-xs text-white">
+                {s.groupRequestsPending}
+              </span>
+            </Button>
+          </Link>
+        )}
         <Link href="/owner/bookings">
           <Button variant="outline" size="sm">
             Alle Buchungen
@@ -0,0 +1,254 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import { toast } from "sonner";
+import { getResources, createResource, updateResource, deleteResource } from "@/lib/api/owner";
+import type { Resource } from "@/lib/types";
+import { Card, CardTitle } from "@/components/shared/card";
+import { Button } from "@/components/shared/button";
+import { Input } from "@/components/shared/input";
+import { PageLoader } from "@/components/shared/loading-spinner";
+import { ErrorMessage } from "@/components/shared/error-message";
+
+type ResourceForm = {
+  name: string;
+  quantity: number;
+  is_active: boolean;
+};
+
+const EMPTY_FORM: ResourceForm = {
+  name: "",
+  quantity: 1,
+  is_active: true,
+};
+
+function ResourceFormFields({
+  form,
+  setForm,
+}: {
+  form: ResourceForm;
+  setForm: React.Dispatch<React.SetStateAction<ResourceForm>>;
+}) {
+  return (
+    <div className="grid gap-4 sm:grid-cols-2">
+      <Input
+        label="Name"
+        value={form.name}
+        maxLength={100}
+        onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))}
+        placeholder="z. B. Paarraum, Waschbecken"
+        required
+      />
+      <Input
+        label="Anzahl"
+        type="number"
+        min={1}
+        max={100}
+        value={form.quantity || ""}
+        onChange={(e) => setForm((f) => ({ ...f, quantity: parseInt(e.target.value, 10) || 0 }))}
+      />
+    </div>
+  );
+}
+
+export default function OwnerResourcesPage() {
+  const [resources, setResources] = useState<Resource[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [createForm, setCreateForm] = useState<ResourceForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [savingId, setSavingId] = useState<number | null>(null);
+  const [deletingId, setDeletingId] = useState<number | null>(null);
+  const [editForm, setEditForm] = useState<ResourceForm>(EMPTY_FORM);
+
+  const loadResources = useCallback(() => {
+    setLoading(true);
+    setError(null);
+    getResources()
+      .then((res) => {
+        if (res.success && res.data) setResources(res.data);
+        else setError(res.message ?? "Fehler beim Laden.");
+      })
+      .catch((e) => setError((e as Error).message))
+      .finally(() => setLoading(false));
+  }, []);
+
+  useEffect(() => {
+    loadResources();
+  }, [loadResources]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!createForm.name.trim()) {
+      toast.error("Bitte einen Namen angeben.");
+      return;
+    }
+    setCreating(true);
+    try {
+      const res = await createResource({
+        name: createForm.name.trim(),
+        quantity: createForm.quantity,
+      });
+      if (res.success) {
+        toast.success("Ressource angelegt.");
+        setCreateForm(EMPTY_FORM);
+        loadResources();
+      } else {
+        toast.error(res.message ?? "Speichern fehlgeschlagen.");
+      }
+    } catch (e) {
+      toast.error((e as Error).message);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const startEdit = (r: Resource) => {
+    setEditingId(r.id);
+    setEditForm({
+      name: r.name,
+      quantity: r.quantity,
+      is_active: r.is_active,
+    });
+  };
+
+  const saveEdit = async () => {
+    if (editingId == null) return;
+    setSavingId(editingId);
+    try {
+      const res = await updateResource(editingId, {
+        name: editForm.name.trim(),
+        quantity: editForm.quantity,
+        is_active: editForm.is_active,
+      });
+      if (res.success) {
+        toast.success("Ressource aktualisiert.");
+        setEditingId(null);
+        loadResources();
+      } else {
+        toast.error(res.message ?? "Speichern fehlgeschlagen.");
+      }
+    } catch (e) {
+      toast.error((e as Error).message);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    setDeletingId(id);
+    try {
+      const res = await deleteResource(id);
+      if (res.success) {
+        toast.success("Ressource gelöscht.");
+        loadResources();
+      } else {
+        toast.error(res.message ?? "Löschen fehlgeschlagen.");
+      }
+    } catch (e) {
+      toast.error((e as Error).message);
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  if (error) {
+    return <ErrorMessage message={error} onRetry={loadResources} />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="font-display text-2xl font-semibold text-[var(--color-text)]">
+          Ressourcen
+        </h1>
+        <p className="mt-1 text-sm text-[var(--color-muted)]">
+          Räume, Stühle und Geräte, die sich mehrere Leistungen teilen. Welche Leistung was benötigt, legen Sie unter
+          „Leistungen“ fest – eine Zeit ist nur buchbar, wenn alle benötigten Ressourcen frei sind.
+        </p>
+      </div>
+
+      <Card className="p-6">
+        <CardTitle className="text-lg">Ressource hinzufügen</CardTitle>
+        <form onSubmit={handleCreate} className="mt-6 space-y-4">
+          <ResourceFormFields form={createForm} setForm={setCreateForm} />
+          <Button type="submit" size="sm" isLoading={creating}>
+            Ressource hinzufügen
+          </Button>
+        </form>
+      </Card>
+
+      {loading ? (
+        <PageLoader />
+      ) : resources.length === 0 ? (
+        <Card className="py-12 text-center text-[var(--color-muted)]">
+          Keine Ressourcen angelegt. Ohne Ressourcen begrenzen nur Mitarbeiter, Tische und Kapazität.
+        </Card>
+      ) : (
+        <ul className="space-y-4">
+          {resources.map((r) => (
+            <li key={r.id}>
+              <Card className="p-6">
+                {editingId === r.id ? (
+                  <div className="space-y-4">
+                    <CardTitle className="text-base">Ressource bearbeiten</CardTitle>
+                    <ResourceFormFields form={editForm} setForm={setEditForm} />
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={editForm.is_active}
+                        onChange={(e) => setEditForm((f) => ({ ...f, is_active: e.target.checked }))}
+                        className="h-4 w-4 rounded border-[var(--color-border)] text-[var(--color-accent)] focus:ring-[var(--color-accent)]"
+                      />
+                      <span className="text-sm text-[var(--color-text)]">
+                        Aktiv (inaktiv = außer Betrieb, Leistungen damit sind nicht buchbar)
+                      </span>
+                    </label>
+                    <div className="flex gap-3 pt-2">
+                      <Button size="sm" onClick={saveEdit} isLoading={savingId === r.id}>
+                        Speichern
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => setEditingId(null)} disabled={savingId === r.id}>
+                        Abbrechen
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <h3 className="font-semibold text-[var(--color-text)]">{r.name}</h3>
+                        {!r.is_active && (
+                          <span className="rounded-full bg-gray-100 px-2 py-0.5 text-xs font-medium text-gray-600">
+                            Außer Betrieb
+                          </span>
+                        )}
+                      </div>
+                      <p className="mt-2 text-sm text-[var(--color-text)]">
+                        {r.quantity === 1 ? "1 Einheit" : `${r.quantity} Einheiten`}
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" onClick={() => startEdit(r)}>
+                        Bearbeiten
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDelete(r.id)}
+                        isLoading={deletingId === r.id}
+                      >
+                        Löschen
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </Card>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -2,16 +2,49 @@
 
 import { useEffect, useState, useCallback } from "react";
 import { toast } from "sonner";
-import { getServices, updateService } from "@/lib/api/owner";
-import type { Service } from "@/lib/types";
+import { getServices, getResources, updateService } from "@/lib/api/owner";
+import type { OverbookingMode, Resource, Service, ServiceDurationRule, StaffServiceLink } from "@/lib/types";
 import { Card, CardTitle } from "@/components/shared/card";
 import { Button } from "@/components/shared/button";
 import { Input } from "@/components/shared/input";
 import { PageLoader } from "@/components/shared/loading-spinner";
 import { ErrorMessage } from "@/components/shared/error-message";
 
+const SLOT_INTERVAL_OPTIONS = [5, 10, 15, 20, 30, 60];
+
+const OVERBOOKING_LABELS: Record<OverbookingMode, string> = {
+  off: "Keine Überbuchung",
+  fixed: "Feste Zahl",
+  no_show_rate: "Nach No-Show-Quote",
+};
+
+type DurationRuleForm = { min_party_size: string; max_party_size: string; duration_minutes: string };
+
+type ResourceRequirementForm = { resource_id: string; quantity: string };
+
+type StaffLinkForm = { staff_member_id: number; staff_member_name: string; duration_minutes: string; price: string };
+
+function formatStaffLink(link: StaffServiceLink): string {
+  const values = [
+    link.duration_minutes != null && `${link.duration_minutes} Min.`,
+    link.price != null && `${Number(link.price).toFixed(2)} €`,
+  ].filter(Boolean);
+  return `${link.staff_member_name ?? `#${link.staff_member_id}`} ${values.join(", ")}`;
+}
+
+function formatDurationRule(rule: ServiceDurationRule): string {
+  const persons =
+    rule.max_party_size == null
+      ? `ab ${rule.min_party_size}`
+      : rule.min_party_size === rule.max_party_size
+        ? `${rule.min_party_size}`
+        : `${rule.min_party_size}–${rule.max_party_size}`;
+  return `${persons} Pers.: ${rule.duration_minutes} Min.`;
+}
+
 export default function OwnerServicesPage() {
   const [services, setServices] = useState<Service[]>([]);
+  const [resources, setResources] = useState<Resource[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [editingId, setEditingId] = useState<number | null>(null);
@@ -21,16 +54,28 @@ export default function OwnerServicesPage() {
     description: string;
     duration_minutes: number;
     price: number;
+    buffer_before_minutes: number;
+    buffer_after_minutes: number;
+    slot_interval_minutes: string;
+    min_party_size: string;
+    max_party_size: string;
+    duration_rules: DurationRuleForm[];
+    resources: ResourceRequirementForm[];
+    staff: StaffLinkForm[];
+    overbooking_mode: OverbookingMode | "";
+    overbooking_value: string;
+    overbooking_cap: string;
     is_active: boolean;
-  }>({ name: "", description: "", duration_minutes: 30, price: 0, is_active: true });
+  }>({ name: "", description: "", duration_minutes: 30, price: 0, buffer_before_minutes: 0, buffer_after_minutes: 0, slot_interval_minutes: "", min_party_size: "", max_party_size: "", duration_rules: [], resources: [], staff: [], overbooking_mode: "", overbooking_value: "", overbooking_cap: "", is_active: true });
 
   const loadServices = useCallback(() => {
     setLoading(true);
     setError(null);
-    getServices()
-      .then((res) => {
+    Promise.all([getServices(), getResources()])
+      .then(([res, resourcesRes]) => {
         if (res.success && res.data) setServices(res.data);
         else setError(res.message ?? "Fehler beim Laden.");
+        if (resourcesRes.success && resourcesRes.data) setResources(resourcesRes.data);
       })
       .catch((e) => setError((e as Error).message))
       .finally(() => setLoading(false));
@@ -47,16 +92,68 @@ export default function OwnerServicesPage() {
       description: s.description ?? "",
       duration_minutes: s.duration_minutes,
       price: s.price ?? 0,
+      buffer_before_minutes: s.buffer_before_minutes ?? 0,
+      buffer_after_minutes: s.buffer_after_minutes ?? 0,
+      slot_interval_minutes: s.slot_interval_minutes != null ? String(s.slot_interval_minutes) : "",
+      min_party_size: s.min_party_size != null ? String(s.min_party_size) : "",
+      max_party_size: s.max_party_size != null ? String(s.max_party_size) : "",
+      duration_rules: (s.duration_rules ?? []).map((r) => ({
+        min_party_size: String(r.min_party_size),
+        max_party_size: r.max_party_size != null ? String(r.max_party_size) : "",
+        duration_minutes: String(r.duration_minutes),
+      })),
+      resources: (s.resources ?? []).map((r) => ({
+        resource_id: String(r.resource_id),
+        quantity: String(r.quantity),
+      })),
+      staff: (s.staff ?? []).map((l) => ({
+        staff_member_id: l.staff_member_id,
+        staff_member_name: l.staff_member_name ?? `#${l.staff_member_id}`,
+        duration_minutes: l.duration_minutes != null ? String(l.duration_minutes) : "",
+        price: l.price != null ? String(l.price) : "",
+      })),
+      overbooking_mode: s.overbooking_mode ?? "",
+      overbooking_value: s.overbooking_value != null ? String(s.overbooking_value) : "",
+      overbooking_cap: s.overbooking_cap != null ? String(s.overbooking_cap) : "",
       is_active: s.is_active,
     });
   };
 
+  const updateDurationRule = (index: number, field: keyof DurationRuleForm, value: string) => {
+    setEditForm((f) => ({
+      ...f,
+      duration_rules: f.duration_rules.map((r, i) => (i === index ? { ...r, [field]: value } : r)),
+    }));
+  };
+
+  const updateResourceRequirement = (index: number, field: keyof ResourceRequirementForm, value: string) => {
+    setEditForm((f) => ({
+      ...f,
+      resources: f.resources.map((r, i) => (i === index ? { ...r, [field]: value } : r)),
+    }));
+  };
+
+  const updateStaffLink = (index: number, field: "duration_minutes" | "price", value: string) => {
+    setEditForm((f) => ({
+      ...f,
+      staff: f.staff.map((l, i) => (i === index ? { ...l, [field]: value } : l)),
+    }));
+  };
+
   const cancelEdit = () => {
     setEditingId(null);
   };
 
   const saveEdit = async () => {
     if (editingId == null) return;
+    if (editForm.duration_rules.some((r) => !r.min_party_size || !r.duration_minutes)) {
+      toast.error("Bitte für jede Dauer-Regel Personenzahl ab und Dauer angeben.");
+      return;
+    }
+    if (editForm.resources.some((r) => !r.resource_id || !r.quantity)) {
+      toast.error("Bitte für jede benötigte Ressource Ressource und Anzahl angeben.");
+      return;
+    }
     setSavingId(editingId);
     try {
       const res = await updateService(editingId, {
@@ -64,6 +161,28 @@ export default function OwnerServicesPage() {
         description: editForm.description.trim() || undefined,
         duration_minutes: editForm.duration_minutes,
         price: editForm.price,
+        buffer_before_minutes: editForm.buffer_before_minutes,
+        buffer_after_minutes: editForm.buffer_after_minutes,
+        slot_interval_minutes: editForm.slot_interval_minutes ? parseInt(editForm.slot_interval_minutes, 10) : null,
+        min_party_size: editForm.min_party_size ? parseInt(editForm.min_party_size, 10) : null,
+        max_party_size: editForm.max_party_size ? parseInt(editForm.max_party_size, 10) : null,
+        duration_rules: editForm.duration_rules.map((r) => ({
+          min_party_size: parseInt(r.min_party_size, 10),
+          max_party_size: r.max_party_size ? parseInt(r.max_party_size, 10) : null,
+          duration_minutes: parseInt(r.duration_minutes, 10),
+        })),
+        resources: editForm.resources.map((r) => ({
+          resource_id: parseInt(r.resource_id, 10),
+          quantity: parseInt(r.quantity, 10),
+        })),
+        staff: editForm.staff.map((l) => ({
+          staff_member_id: l.staff_member_id,
+          duration_minutes: l.duration_minutes ? parseInt(l.duration_minutes, 10) : null,
+          price: l.price ? parseFloat(l.price) : null,
+        })),
+        overbooking_mode: editForm.overbooking_mode || null,
+        overbooking_value: editForm.overbooking_value ? parseInt(editForm.overbooking_value, 10) : null,
+        overbooking_cap: editForm.overbooking_cap ? parseInt(editForm.overbooking_cap, 10) : null,
         is_active: editForm.is_active,
       });
       if (res.success) {
@@ -91,7 +210,7 @@ export default function OwnerServicesPage() {
           Leistungen
         </h1>
         <p className="mt-1 text-sm text-[var(--color-muted)]">
-          Leistungen bearbeiten: Name, Beschreibung, Dauer, Preis und Aktiv-Status.
+          Leistungen bearbeiten: Name, Beschreibung, Dauer (auch je Personenzahl), Preis (auch je Mitarbeiter), Pufferzeiten und Aktiv-Status.
         </p>
       </div>
 
@@ -148,7 +267,275 @@ export default function OwnerServicesPage() {
                           setEditForm((f) => ({ ...f, price: parseFloat(e.target.value) || 0 }))
                         }
                       />
+                      <Input
+                        label="Puffer vorher (Minuten)"
+                        type="number"
+                        min={0}
+                        max={240}
+                        value={editForm.buffer_before_minutes}
+                        onChange={(e) =>
+                          setEditForm((f) => ({ ...f, buffer_before_minutes: parseInt(e.target.value, 10) || 0 }))
+                        }
+                      />
+                      <Input
+                        label="Puffer nachher (Minuten)"
+                        type="number"
+                        min={0}
+                        max={240}
+                        value={editForm.buffer_after_minutes}
+                        onChange={(e) =>
+                          setEditForm((f) => ({ ...f, buffer_after_minutes: parseInt(e.target.value, 10) || 0 }))
+                        }
+                      />
+                    </div>
+                    <p className="text-xs text-[var(--color-muted)]">
+                      Puffer (z. B. Vorbereitung oder Reinigung) blockieren den Termin intern, werden Kunden aber nicht als Teil der Terminzeit angezeigt.
+                    </p>
+                    <div>
+                      <label className="mb-1.5 block text-sm font-medium text-[var(--color-text)]">
+                        Startzeiten-Raster
+                      </label>
+                      <select
+                        value={editForm.slot_interval_minutes}
+                        onChange={(e) => setEditForm((f) => ({ ...f, slot_interval_minutes: e.target.value }))}
+                        className="h-11 w-full rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] px-3.5 text-[var(--color-text)] focus:outline-none focus:ring-2 focus:ring-[var(--color-accent)]"
+                      >
+                        <option value="">Wie Venue-Einstellung</option>
+                        {SLOT_INTERVAL_OPTIONS.map((m) => (
+                          <option key={m} value={m}>
+                            Alle {m} Minuten
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="grid gap-4 sm:grid-cols-2">
+                      <Input
+                        label="Personen online (min.)"
+                        type="number"
+                        min={1}
+                        value={editForm.min_party_size}
+                        placeholder="Wie Venue"
+                        onChange={(e) => setEditForm((f) => ({ ...f, min_party_size: e.target.value }))}
+                      />
+                      <Input
+                        label="Personen online (max.)"
+                        type="number"
+                        min={1}
+                        value={editForm.max_party_size}
+                        placeholder="Wie Venue"
+                        onChange={(e) => setEditForm((f) => ({ ...f, max_party_size: e.target.value }))}
+                      />
                     </div>
+                    <p className="text-xs text-[var(--color-muted)]">
+                      Leer lassen, um die Grenzen aus den Einstellungen zu übernehmen. Größere Gruppen senden eine Gruppenanfrage.
+                    </p>
+                    <div>
+                      <label className="mb-1.5 block text-sm font-medium text-[var(--color-text)]">
+                        Dauer je Personenzahl
+                      </label>
+                      {editForm.duration_rules.length > 0 && (
+                        <div className="space-y-2">
+                          {editForm.duration_rules.map((r, i) => (
+                            <div key={i} className="flex flex-wrap items-end gap-2">
+                              <Input
+                                label="Personen ab"
+                                type="number"
+                                min={1}
+                                value={r.min_party_size}
+                                onChange={(e) => updateDurationRule(i, "min_party_size", e.target.value)}
+                              />
+                              <Input
+                                label="bis"
+                                type="number"
+                                min={1}
+                                value={r.max_party_size}
+                                placeholder="offen"
+                                onChange={(e) => updateDurationRule(i, "max_party_size", e.target.value)}
+                              />
+                              <Input
+                                label="Dauer (Minuten)"
+                                type="number"
+                                min={1}
+                                value={r.duration_minutes}
+                                onChange={(e) => updateDurationRule(i, "duration_minutes", e.target.value)}
+                              />
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="sm"
+                                onClick={() =>
+                                  setEditForm((f) => ({ ...f, duration_rules: f.duration_rules.filter((_, j) => j !== i) }))
+                                }
+                              >
+                                Entfernen
+                              </Button>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        className="mt-2"
+                        onClick={() =>
+                          setEditForm((f) => ({
+                            ...f,
+                            duration_rules: [...f.duration_rules, { min_party_size: "", max_party_size: "", duration_minutes: String(f.duration_minutes) }],
+                          }))
+                        }
+                      >
+                        Regel hinzufügen
+                      </Button>
+                      <p className="mt-1 text-xs text-[var(--color-muted)]">
+                        z. B. 1–2 Personen 90 Minuten, ab 7 Personen 150 Minuten. Ohne passende Regel gilt die Dauer oben;
+                        das Ende einer Buchung berechnet sich daraus automatisch.
+                      </p>
+                    </div>
+                    <div>
+                      <label className="mb-1.5 block text-sm font-medium text-[var(--color-text)]">
+                        Benötigte Ressourcen
+                      </label>
+                      {editForm.resources.length > 0 && (
+                        <div className="space-y-2">
+                          {editForm.resources.map((r, i) => (
+                            <div key={i} className="flex flex-wrap items-end gap-2">
+                              <select
+                                value={r.resource_id}
+                                onChange={(e) => updateResourceRequirement(i, "resource_id", e.target.value)}
+                                className="h-11 rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] px-3.5 text-[var(--color-text)] focus:outline-none focus:ring-2 focus:ring-[var(--color-accent)]"
+                                aria-label="Ressource"
+                              >
+                                <option value="">Ressource wählen</option>
+                                {resources.map((res) => (
+                                  <option key={res.id} value={res.id}>
+                                    {res.name}
+                                    {!res.is_active && " (außer Betrieb)"}
+                                  </option>
+                                ))}
+                              </select>
+                              <Input
+                                label="Anzahl"
+                                type="number"
+                                min={1}
+                                value={r.quantity}
+                                onChange={(e) => updateResourceRequirement(i, "quantity", e.target.value)}
+                              />
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="sm"
+                                onClick={() =>
+                                  setEditForm((f) => ({ ...f, resources: f.resources.filter((_, j) => j !== i) }))
+                                }
+                              >
+                                Entfernen
+                              </Button>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                      {resources.length > 0 ? (
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          className="mt-2"
+                          onClick={() =>
+                            setEditForm((f) => ({ ...f, resources: [...f.resources, { resource_id: "", quantity: "1" }] }))
+                          }
+                        >
+                          Ressource hinzufügen
+                        </Button>
+                      ) : (
+                        <p className="text-xs text-[var(--color-muted)]">
+                          Noch keine Ressourcen angelegt – siehe „Ressourcen“.
+                        </p>
+                      )}
+                      <p className="mt-1 text-xs text-[var(--color-muted)]">
+                        Eine Zeit ist nur buchbar, wenn alle benötigten Ressourcen für die gesamte Dauer frei sind.
+                      </p>
+                    </div>
+                    {s.requires_staff && editForm.staff.length > 0 && (
+                      <div>
+                        <label className="mb-1.5 block text-sm font-medium text-[var(--color-text)]">
+                          Dauer und Preis je Mitarbeiter
+                        </label>
+                        <div className="space-y-2">
+                          {editForm.staff.map((l, i) => (
+                            <div key={l.staff_member_id} className="flex flex-wrap items-end gap-2">
+                              <span className="flex h-11 min-w-32 items-center text-sm font-medium text-[var(--color-text)]">
+                                {l.staff_member_name}
+                              </span>
+                              <Input
+                                label="Dauer (Minuten)"
+                                type="number"
+                                min={1}
+                                value={l.duration_minutes}
+                                placeholder={String(editForm.duration_minutes)}
+                                onChange={(e) => updateStaffLink(i, "duration_minutes", e.target.value)}
+                              />
+                              <Input
+                                label="Preis (€)"
+                                type="number"
+                                min={0}
+                                step="0.01"
+                                value={l.price}
+                                placeholder={editForm.price ? editForm.price.toFixed(2) : ""}
+                                onChange={(e) => updateStaffLink(i, "price", e.target.value)}
+                              />
+                            </div>
+                          ))}
+                        </div>
+                        <p className="mt-1 text-xs text-[var(--color-muted)]">
+                          Leer lassen, um Dauer und Preis der Leistung zu übernehmen. Eine eigene Dauer gilt für jede Personenzahl;
+                          Kunden sehen „ab“ den günstigsten Preis und den tatsächlichen, sobald der Mitarbeiter feststeht.
+                        </p>
+                      </div>
+                    )}
+                    {!s.requires_staff && (
+                      <div>
+                        <label className="mb-1.5 block text-sm font-medium text-[var(--color-text)]">
+                          Überbuchung
+                        </label>
+                        <div className="grid gap-4 sm:grid-cols-3">
+                          <select
+                            value={editForm.overbooking_mode}
+                            onChange={(e) => setEditForm((f) => ({ ...f, overbooking_mode: e.target.value as OverbookingMode | "" }))}
+                            className="h-11 w-full rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] px-3.5 text-[var(--color-text)] focus:outline-none focus:ring-2 focus:ring-[var(--color-accent)]"
+                            aria-label="Überbuchung"
+                          >
+                            <option value="">Wie Venue-Einstellung</option>
+                            {(Object.keys(OVERBOOKING_LABELS) as OverbookingMode[]).map((m) => (
+                              <option key={m} value={m}>
+                                {OVERBOOKING_LABELS[m]}
+                              </option>
+                            ))}
+                          </select>
+                          <Input
+                            type="number"
+                            min={0}
+                            max={100}
+                            value={editForm.overbooking_value}
+                            placeholder="Zusätzliche Gäste"
+                            aria-label="Zusätzliche Gäste je Slot"
+                            onChange={(e) => setEditForm((f) => ({ ...f, overbooking_value: e.target.value }))}
+                          />
+                          <Input
+                            type="number"
+                            min={0}
+                            max={100}
+                            value={editForm.overbooking_cap}
+                            placeholder="Obergrenze"
+                            aria-label="Obergrenze je Slot"
+                            onChange={(e) => setEditForm((f) => ({ ...f, overbooking_cap: e.target.value }))}
+                          />
+                        </div>
+                        <p className="mt-1 text-xs text-[var(--color-muted)]">
+                          Leere Felder übernehmen die Einstellung unter „Überbuchung“. Gilt nur ohne Tischplan.
+                        </p>
+                      </div>
+                    )}
                     <label className="flex items-center gap-2">
                       <input
                         type="checkbox"
@@ -185,6 +572,36 @@ export default function OwnerServicesPage() {
                         {s.duration_minutes} Min.
                         {s.price != null && Number(s.price) > 0 && ` · ${Number(s.price).toFixed(2)} €`}
                       </p>
+                      {((s.buffer_before_minutes ?? 0) > 0 || (s.buffer_after_minutes ?? 0) > 0) && (
+                        <p className="mt-1 text-xs text-[var(--color-muted)]">
+                          Puffer: {s.buffer_before_minutes ?? 0} Min. vorher · {s.buffer_after_minutes ?? 0} Min. nachher
+                        </p>
+                      )}
+                      {(s.min_party_size != null || s.max_party_size != null) && (
+                        <p className="mt-1 text-xs text-[var(--color-muted)]">
+                          Online: {s.min_party_size ?? "…"} – {s.max_party_size ?? "…"} Personen
+                        </p>
+                      )}
+                      {s.duration_rules && s.duration_rules.length > 0 && (
+                        <p className="mt-1 text-xs text-[var(--color-muted)]">
+                          Dauer: {s.duration_rules.map(formatDurationRule).join(" · ")}
+                        </p>
+                      )}
+                      {s.resources && s.resources.length > 0 && (
+                        <p className="mt-1 text-xs text-[var(--color-muted)]">
+                          Ressourcen: {s.resources.map((r) => `${r.quantity > 1 ? `${r.quantity}× ` : ""}${r.resource_name ?? `#${r.resource_id}`}`).join(" · ")}
+                        </p>
+                      )}
+                      {s.staff && s.staff.some((l) => l.duration_minutes != null || l.price != null) && (
+                        <p className="mt-1 text-xs text-[var(--color-muted)]">
+                          Je Mitarbeiter: {s.staff.filter((l) => l.duration_minutes != null || l.price != null).map(formatStaffLink).join(" · ")}
+                        </p>
+                      )}
+                      {s.overbooking_mode != null && (
+                        <p className="mt-1 text-xs text-[var(--color-muted)]">
+                          Überbuchung: {OVERBOOKING_LABELS[s.overbooking_mode]}
+                        </p>
+                      )}
                     </div>
                     <Button variant="outline" size="sm" onClick={() => startEdit(s)}>
                       Bearbeiten
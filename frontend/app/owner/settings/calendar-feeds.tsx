@@ -0,0 +1,118 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import { toast } from "sonner";
+import { getCalendarFeeds, regenerateCalendarFeed } from "@/lib/api/owner";
+import type { CalendarFeed } from "@/lib/types";
+import { Card, CardTitle } from "@/components/shared/card";
+import { Button } from "@/components/shared/button";
+
+const inputClass =
+  "rounded-lg border border-[var(--color-border)] bg-[var(--color-surface)] px-3 py-2 text-[var(--color-text)] focus:outline-none focus:ring-2 focus:ring-[var(--color-accent)]";
+
+function feedUrl(feed: CalendarFeed): string {
+  const kind = feed.staff_member_id === null ? "venue" : "staff";
+  return `${window.location.origin}/api/calendar/${kind}/${feed.token}.ics`;
+}
+
+/**
+ * Kalender-Feeds (ICS) zum Abonnieren in Google Kalender, Outlook oder Apple Kalender:
+ * einer für alle Buchungen des Venues, einer je Mitarbeiter. Die URL ist geheim; „Neu erzeugen“ macht die alte ungültig.
+ */
+export function CalendarFeedsSection() {
+  const [feeds, setFeeds] = useState<CalendarFeed[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [regeneratingKey, setRegeneratingKey] = useState<string | null>(null);
+
+  const loadFeeds = useCallback(() => {
+    setLoading(true);
+    getCalendarFeeds()
+      .then((res) => {
+        if (res.success && res.data) setFeeds(res.data);
+        else toast.error(res.message ?? "Kalender-Feeds konnten nicht geladen werden.");
+      })
+      .catch((e) => toast.error((e as Error).message))
+      .finally(() => setLoading(false));
+  }, []);
+
+  useEffect(() => {
+    loadFeeds();
+  }, [loadFeeds]);
+
+  const handleCopy = async (feed: CalendarFeed) => {
+    try {
+      await navigator.clipboard.writeText(feedUrl(feed));
+      toast.success("Feed-URL kopiert.");
+    } catch {
+      toast.error("Kopieren nicht möglich – bitte die URL manuell markieren.");
+    }
+  };
+
+  const handleRegenerate = async (feed: CalendarFeed) => {
+    const key = String(feed.staff_member_id ?? "venue");
+    setRegeneratingKey(key);
+    try {
+      const res = await regenerateCalendarFeed(feed.staff_member_id);
+      if (res.success) {
+        toast.success("Neue Feed-URL erzeugt. Die alte URL funktioniert nicht mehr.");
+        loadFeeds();
+      } else {
+        toast.error(res.message ?? "Erzeugen fehlgeschlagen.");
+      }
+    } catch (e) {
+      toast.error((e as Error).message);
+    } finally {
+      setRegeneratingKey(null);
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <CardTitle className="text-lg">Kalender-Abo</CardTitle>
+      <p className="mt-1 text-sm text-[var(--color-muted)]">
+        Offene und bestätigte Buchungen als abonnierbarer Kalender (Google Kalender, Outlook, Apple Kalender).
+        Änderungen erscheinen beim nächsten Abruf der Kalender-App. Wer die URL kennt, sieht Kundennamen und Wünsche –
+        bei Verdacht auf Weitergabe neu erzeugen.
+      </p>
+      {loading ? (
+        <p className="mt-4 text-sm text-[var(--color-muted)]">Lädt …</p>
+      ) : (
+        <ul className="mt-4 divide-y divide-[var(--color-border)]">
+          {feeds.map((feed) => {
+            const key = String(feed.staff_member_id ?? "venue");
+            return (
+              <li key={key} className="space-y-2 py-3">
+                <span className="text-sm font-medium text-[var(--color-text)]">
+                  {feed.staff_member_name ?? "Alle Buchungen"}
+                </span>
+                <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+                  <input
+                    type="text"
+                    readOnly
+                    value={feedUrl(feed)}
+                    onFocus={(e) => e.target.select()}
+                    className={`min-w-0 flex-1 text-xs ${inputClass}`}
+                    aria-label={`Feed-URL ${feed.staff_member_name ?? "Alle Buchungen"}`}
+                  />
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => handleCopy(feed)}>
+                      Kopieren
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRegenerate(feed)}
+                      isLoading={regeneratingKey === key}
+                    >
+                      Neu erzeugen
+                    </Button>
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </Card>
+  );
+}
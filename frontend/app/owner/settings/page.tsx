@@ -4,12 +4,44 @@ import { useEffect, useState, useCallback } from "react";
 import { toast } from "sonner";
 import { getVenueSettings, updateVenueSettings } from "@/lib/api/owner";
 import { changePassword } from "@/lib/api/auth";
-import type { Venue } from "@/lib/types";
+import type { Venue, StaffAssignmentStrategy } from "@/lib/types";
 import { Card, CardTitle } from "@/components/shared/card";
 import { Button } from "@/components/shared/button";
 import { Input } from "@/components/shared/input";
 import { PageLoader } from "@/components/shared/loading-spinner";
 import { ErrorMessage } from "@/components/shared/error-message";
+import { StaffPrioritySection } from "./staff-priority";
+import { CalendarFeedsSection } from "./calendar-feeds";
+
+const SLOT_INTERVAL_OPTIONS = [5, 10, 15, 20, 30, 60];
+
+// Gängige Zeitzonen; eine abweichende gespeicherte Zeitzone wird zusätzlich angeboten
+const TIMEZONE_OPTIONS = [
+  "Europe/Berlin",
+  "Europe/Vienna",
+  "Europe/Zurich",
+  "Europe/Amsterdam",
+  "Europe/Paris",
+  "Europe/Madrid",
+  "Europe/Rome",
+  "Europe/London",
+  "Europe/Lisbon",
+  "Europe/Warsaw",
+  "Europe/Athens",
+  "Europe/Istanbul",
+  "America/New_York",
+  "America/Chicago",
+  "America/Los_Angeles",
+  "Asia/Dubai",
+  "Asia/Tokyo",
+  "Australia/Sydney",
+];
+
+const STAFF_ASSIGNMENT_OPTIONS: { value: StaffAssignmentStrategy; label: string }[] = [
+  { value: "least_booked", label: "Wenigste Termine am Tag" },
+  { value: "round_robin", label: "Reihum (abwechselnd)" },
+  { value: "priority", label: "Nach Priorität" },
+];
 
 export default function OwnerSettingsPage() {
   const [venue, setVenue] = useState<Venue | null>(null);
@@ -19,7 +51,12 @@ export default function OwnerSettingsPage() {
   const [venueForm, setVenueForm] = useState({
     booking_advance_hours: 48,
     cancellation_hours: 24,
+    slot_interval_minutes: "",
+    staff_assignment_strategy: "least_booked" as StaffAssignmentStrategy,
     image_url: "",
+    timezone: "Europe/Berlin",
+    min_party_size: 1,
+    max_party_size: 8,
   });
   const [passwordForm, setPasswordForm] = useState({
     currentPassword: "",
@@ -38,7 +75,12 @@ export default function OwnerSettingsPage() {
           setVenueForm({
             booking_advance_hours: res.data.booking_advance_hours ?? 48,
             cancellation_hours: res.data.cancellation_hours ?? 24,
+            slot_interval_minutes: res.data.slot_interval_minutes != null ? String(res.data.slot_interval_minutes) : "",
+            staff_assignment_strategy: res.data.staff_assignment_strategy ?? "least_booked",
             image_url: res.data.image_url ?? "",
+            timezone: res.data.timezone ?? "Europe/Berlin",
+            min_party_size: res.data.min_party_size ?? 1,
+            max_party_size: res.data.max_party_size ?? 8,
           });
         } else setError(res.message ?? "Fehler beim Laden.");
       })
@@ -52,12 +94,21 @@ export default function OwnerSettingsPage() {
 
   const handleVenueSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (venueForm.min_party_size > venueForm.max_party_size) {
+      toast.error("Mindest-Personenzahl darf die Höchst-Personenzahl nicht überschreiten.");
+      return;
+    }
     setVenueSaving(true);
     try {
       const res = await updateVenueSettings({
         booking_advance_hours: venueForm.booking_advance_hours,
         cancellation_hours: venueForm.cancellation_hours,
+        slot_interval_minutes: venueForm.slot_interval_minutes ? parseInt(venueForm.slot_interval_minutes, 10) : null,
+        staff_assignment_strategy: venueForm.staff_assignment_strategy,
         image_url: venueForm.image_url || null,
+        timezone: venueForm.timezone,
+        min_party_size: venueForm.min_party_size,
+        max_party_size: venueForm.max_party_size,
       });
       if (res.success) {
         toast.success("Einstellungen gespeichert.");
@@ -160,6 +211,101 @@ export default function OwnerSettingsPage() {
           <p className="text-xs text-[var(--color-muted)]">
             Kunden können bis zu dieser Stunde vor dem Termin kostenfrei stornieren.
           </p>
+          <div>
+            <label className="mb-1.5 block text-sm font-medium text-[var(--color-text)]">
+              Startzeiten-Raster
+            </label>
+            <select
+              value={venueForm.slot_interval_minutes}
+              onChange={(e) =>
+                setVenueForm((f) => ({ ...f, slot_interval_minutes: e.target.value }))
+              }
+              className="h-11 w-full rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] px-3.5 text-[var(--color-text)] focus:outline-none focus:ring-2 focus:ring-[var(--color-accent)]"
+            >
+              <option value="">Nach Dauer der Leistung</option>
+              {SLOT_INTERVAL_OPTIONS.map((m) => (
+                <option key={m} value={m}>
+                  Alle {m} Minuten
+                </option>
+              ))}
+            </select>
+          </div>
+          <p className="text-xs text-[var(--color-muted)]">
+            Bestimmt, zu welchen Uhrzeiten Termine beginnen können (z. B. alle 15 Minuten). Die Dauer der Leistung bleibt unverändert.
+          </p>
+          <div className="grid grid-cols-2 gap-3">
+            <Input
+              label="Personen online (min.)"
+              type="number"
+              min={1}
+              value={venueForm.min_party_size}
+              onChange={(e) =>
+                setVenueForm((f) => ({ ...f, min_party_size: parseInt(e.target.value, 10) || 1 }))
+              }
+            />
+            <Input
+              label="Personen online (max.)"
+              type="number"
+              min={1}
+              value={venueForm.max_party_size}
+              onChange={(e) =>
+                setVenueForm((f) => ({ ...f, max_party_size: parseInt(e.target.value, 10) || 1 }))
+              }
+            />
+          </div>
+          <p className="text-xs text-[var(--color-muted)]">
+            Online buchbare Gruppengröße. Größere Gruppen senden eine Gruppenanfrage, die Sie unter „Gruppenanfragen“ annehmen oder absagen. Einzelne Leistungen können eigene Grenzen haben.
+          </p>
+          {venue.type !== "restaurant" && (
+            <>
+              <div>
+                <label className="mb-1.5 block text-sm font-medium text-[var(--color-text)]">
+                  Mitarbeiterzuweisung bei „egal wer“
+                </label>
+                <select
+                  value={venueForm.staff_assignment_strategy}
+                  onChange={(e) =>
+                    setVenueForm((f) => ({
+                      ...f,
+                      staff_assignment_strategy: e.target.value as StaffAssignmentStrategy,
+                    }))
+                  }
+                  className="h-11 w-full rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] px-3.5 text-[var(--color-text)] focus:outline-none focus:ring-2 focus:ring-[var(--color-accent)]"
+                >
+                  {STAFF_ASSIGNMENT_OPTIONS.map((o) => (
+                    <option key={o.value} value={o.value}>
+                      {o.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <p className="text-xs text-[var(--color-muted)]">
+                Bucht ein Kunde ohne Mitarbeiterwunsch, wird automatisch ein freier Mitarbeiter nach dieser Regel vergeben.
+              </p>
+            </>
+          )}
+          <div>
+            <label className="mb-1.5 block text-sm font-medium text-[var(--color-text)]">
+              Zeitzone
+            </label>
+            <select
+              value={venueForm.timezone}
+              onChange={(e) => setVenueForm((f) => ({ ...f, timezone: e.target.value }))}
+              className="h-11 w-full rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] px-3.5 text-[var(--color-text)] focus:outline-none focus:ring-2 focus:ring-[var(--color-accent)]"
+            >
+              {(TIMEZONE_OPTIONS.includes(venueForm.timezone)
+                ? TIMEZONE_OPTIONS
+                : [venueForm.timezone, ...TIMEZONE_OPTIONS]
+              ).map((tz) => (
+                <option key={tz} value={tz}>
+                  {tz.replace(/_/g, " ")}
+                </option>
+              ))}
+            </select>
+          </div>
+          <p className="text-xs text-[var(--color-muted)]">
+            Alle Öffnungszeiten und Termine gelten in dieser Zeitzone. Vorlauf, Stornofrist und Erinnerungen werden danach berechnet.
+          </p>
           <Input
             label="Bild-URL (Cover für Ihren Ort)"
             type="url"
@@ -178,6 +324,12 @@ export default function OwnerSettingsPage() {
         </form>
       </Card>
 
+      {venue.type !== "restaurant" && venue.staff_assignment_strategy === "priority" && (
+        <StaffPrioritySection />
+      )}
+
+      <CalendarFeedsSection />
+
       <Card id="password" className="p-6 scroll-mt-6">
         <CardTitle className="text-lg">Passwort ändern</CardTitle>
         <p className="mt-1 text-sm text-[var(--color-muted)]">
@@ -0,0 +1,99 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import { toast } from "sonner";
+import { getStaffMembers, updateStaffPriority } from "@/lib/api/owner";
+import type { StaffMember } from "@/lib/types";
+import { Card, CardTitle } from "@/components/shared/card";
+import { Button } from "@/components/shared/button";
+
+/**
+ * Priorität je Mitarbeiter für die automatische Zuweisung (Strategie „Nach Priorität“):
+ * Bei „egal wer“ wird der freie Mitarbeiter mit der höchsten Priorität vergeben.
+ */
+export function StaffPrioritySection() {
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [priorities, setPriorities] = useState<Record<number, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [savingId, setSavingId] = useState<number | null>(null);
+
+  const loadStaff = useCallback(() => {
+    setLoading(true);
+    getStaffMembers()
+      .then((res) => {
+        if (res.success && res.data) {
+          setStaff(res.data);
+          setPriorities(
+            Object.fromEntries(res.data.map((s) => [s.id, String(s.assignment_priority ?? 0)]))
+          );
+        } else toast.error(res.message ?? "Mitarbeiter konnten nicht geladen werden.");
+      })
+      .catch((e) => toast.error((e as Error).message))
+      .finally(() => setLoading(false));
+  }, []);
+
+  useEffect(() => {
+    loadStaff();
+  }, [loadStaff]);
+
+  const handleSave = async (staffMemberId: number) => {
+    const value = parseInt(priorities[staffMemberId] ?? "", 10);
+    if (isNaN(value) || value < 0 || value > 100) {
+      toast.error("Priorität zwischen 0 und 100 angeben.");
+      return;
+    }
+    setSavingId(staffMemberId);
+    try {
+      const res = await updateStaffPriority(staffMemberId, value);
+      if (res.success) {
+        toast.success("Priorität gespeichert.");
+        loadStaff();
+      } else {
+        toast.error(res.message ?? "Speichern fehlgeschlagen.");
+      }
+    } catch (e) {
+      toast.error((e as Error).message);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <CardTitle className="text-lg">Mitarbeiter-Priorität</CardTitle>
+      <p className="mt-1 text-sm text-[var(--color-muted)]">
+        Höhere Priorität wird bei Buchungen ohne Mitarbeiterwunsch zuerst vergeben (0–100).
+      </p>
+      {loading ? (
+        <p className="mt-4 text-sm text-[var(--color-muted)]">Lädt …</p>
+      ) : staff.length === 0 ? (
+        <p className="mt-4 text-sm text-[var(--color-muted)]">Keine Mitarbeiter angelegt.</p>
+      ) : (
+        <ul className="mt-4 divide-y divide-[var(--color-border)]">
+          {staff.map((s) => (
+            <li key={s.id} className="flex items-center justify-between gap-4 py-3">
+              <span className="text-sm text-[var(--color-text)]">
+                {s.name}
+                {!s.is_active && <span className="ml-2 text-xs text-[var(--color-muted)]">(inaktiv)</span>}
+              </span>
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={priorities[s.id] ?? ""}
+                  onChange={(e) => setPriorities((p) => ({ ...p, [s.id]: e.target.value }))}
+                  aria-label={`Priorität ${s.name}`}
+                  className="h-9 w-20 rounded-lg border border-[var(--color-border)] bg-[var(--color-surface)] px-3 text-[var(--color-text)] focus:outline-none focus:ring-2 focus:ring-[var(--color-accent)]"
+                />
+                <Button size="sm" variant="outline" onClick={() => handleSave(s.id)} isLoading={savingId === s.id}>
+                  Speichern
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,293 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import { toast } from "sonner";
+import { getTables, createTable, updateTable, deleteTable } from "@/lib/api/owner";
+import type { VenueTable } from "@/lib/types";
+import { Card, CardTitle } from "@/components/shared/card";
+import { Button } from "@/components/shared/button";
+import { Input } from "@/components/shared/input";
+import { PageLoader } from "@/components/shared/loading-spinner";
+import { ErrorMessage } from "@/components/shared/error-message";
+
+type TableForm = {
+  name: string;
+  area: string;
+  min_seats: number;
+  max_seats: number;
+  combine_group: string;
+  is_active: boolean;
+};
+
+const EMPTY_FORM: TableForm = {
+  name: "",
+  area: "",
+  min_seats: 1,
+  max_seats: 4,
+  combine_group: "",
+  is_active: true,
+};
+
+function TableFormFields({
+  form,
+  setForm,
+}: {
+  form: TableForm;
+  setForm: React.Dispatch<React.SetStateAction<TableForm>>;
+}) {
+  return (
+    <div className="grid gap-4 sm:grid-cols-2">
+      <Input
+        label="Name"
+        value={form.name}
+        maxLength={50}
+        onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))}
+        placeholder="z. B. T4"
+        required
+      />
+      <Input
+        label="Bereich (optional)"
+        value={form.area}
+        maxLength={100}
+        onChange={(e) => setForm((f) => ({ ...f, area: e.target.value }))}
+        placeholder="z. B. Terrasse, Innen"
+      />
+      <Input
+        label="Plätze min."
+        type="number"
+        min={1}
+        max={50}
+        value={form.min_seats || ""}
+        onChange={(e) => setForm((f) => ({ ...f, min_seats: parseInt(e.target.value, 10) || 0 }))}
+      />
+      <Input
+        label="Plätze max."
+        type="number"
+        min={1}
+        max={50}
+        value={form.max_seats || ""}
+        onChange={(e) => setForm((f) => ({ ...f, max_seats: parseInt(e.target.value, 10) || 0 }))}
+      />
+      <Input
+        label="Kombinationsgruppe (optional)"
+        value={form.combine_group}
+        maxLength={50}
+        onChange={(e) => setForm((f) => ({ ...f, combine_group: e.target.value }))}
+        placeholder="z. B. Fensterreihe"
+      />
+    </div>
+  );
+}
+
+export default function OwnerTablesPage() {
+  const [tables, setTables] = useState<VenueTable[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [createForm, setCreateForm] = useState<TableForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [savingId, setSavingId] = useState<number | null>(null);
+  const [deletingId, setDeletingId] = useState<number | null>(null);
+  const [editForm, setEditForm] = useState<TableForm>(EMPTY_FORM);
+
+  const loadTables = useCallback(() => {
+    setLoading(true);
+    setError(null);
+    getTables()
+      .then((res) => {
+        if (res.success && res.data) setTables(res.data);
+        else setError(res.message ?? "Fehler beim Laden.");
+      })
+      .catch((e) => setError((e as Error).message))
+      .finally(() => setLoading(false));
+  }, []);
+
+  useEffect(() => {
+    loadTables();
+  }, [loadTables]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!createForm.name.trim()) {
+      toast.error("Bitte einen Namen angeben.");
+      return;
+    }
+    setCreating(true);
+    try {
+      const res = await createTable({
+        name: createForm.name.trim(),
+        area: createForm.area.trim() || null,
+        min_seats: createForm.min_seats,
+        max_seats: createForm.max_seats,
+        combine_group: createForm.combine_group.trim() || null,
+      });
+      if (res.success) {
+        toast.success("Tisch angelegt.");
+        setCreateForm(EMPTY_FORM);
+        loadTables();
+      } else {
+        toast.error(res.message ?? "Speichern fehlgeschlagen.");
+      }
+    } catch (e) {
+      toast.error((e as Error).message);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const startEdit = (t: VenueTable) => {
+    setEditingId(t.id);
+    setEditForm({
+      name: t.name,
+      area: t.area ?? "",
+      min_seats: t.min_seats,
+      max_seats: t.max_seats,
+      combine_group: t.combine_group ?? "",
+      is_active: t.is_active,
+    });
+  };
+
+  const saveEdit = async () => {
+    if (editingId == null) return;
+    setSavingId(editingId);
+    try {
+      const res = await updateTable(editingId, {
+        name: editForm.name.trim(),
+        area: editForm.area.trim() || null,
+        min_seats: editForm.min_seats,
+        max_seats: editForm.max_seats,
+        combine_group: editForm.combine_group.trim() || null,
+        is_active: editForm.is_active,
+      });
+      if (res.success) {
+        toast.success("Tisch aktualisiert.");
+        setEditingId(null);
+        loadTables();
+      } else {
+        toast.error(res.message ?? "Speichern fehlgeschlagen.");
+      }
+    } catch (e) {
+      toast.error((e as Error).message);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    setDeletingId(id);
+    try {
+      const res = await deleteTable(id);
+      if (res.success) {
+        toast.success("Tisch gelöscht.");
+        loadTables();
+      } else {
+        toast.error(res.message ?? "Löschen fehlgeschlagen.");
+      }
+    } catch (e) {
+      toast.error((e as Error).message);
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  if (error) {
+    return <ErrorMessage message={error} onRetry={loadTables} />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="font-display text-2xl font-semibold text-[var(--color-text)]">
+          Tische
+        </h1>
+        <p className="mt-1 text-sm text-[var(--color-muted)]">
+          Tischplan für Reservierungen: Jede Buchung erhält automatisch den passendsten freien Tisch. Tische mit
+          gleicher Kombinationsgruppe werden für größere Gruppen zusammengestellt.
+        </p>
+      </div>
+
+      <Card className="p-6">
+        <CardTitle className="text-lg">Tisch hinzufügen</CardTitle>
+        <form onSubmit={handleCreate} className="mt-6 space-y-4">
+          <TableFormFields form={createForm} setForm={setCreateForm} />
+          <Button type="submit" size="sm" isLoading={creating}>
+            Tisch hinzufügen
+          </Button>
+        </form>
+      </Card>
+
+      {loading ? (
+        <PageLoader />
+      ) : tables.length === 0 ? (
+        <Card className="py-12 text-center text-[var(--color-muted)]">
+          Keine Tische angelegt. Ohne Tischplan wird die Kapazität der Leistung verwendet.
+        </Card>
+      ) : (
+        <ul className="space-y-4">
+          {tables.map((t) => (
+            <li key={t.id}>
+              <Card className="p-6">
+                {editingId === t.id ? (
+                  <div className="space-y-4">
+                    <CardTitle className="text-base">Tisch bearbeiten</CardTitle>
+                    <TableFormFields form={editForm} setForm={setEditForm} />
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={editForm.is_active}
+                        onChange={(e) => setEditForm((f) => ({ ...f, is_active: e.target.checked }))}
+                        className="h-4 w-4 rounded border-[var(--color-border)] text-[var(--color-accent)] focus:ring-[var(--color-accent)]"
+                      />
+                      <span className="text-sm text-[var(--color-text)]">Aktiv (wird bei Reservierungen vergeben)</span>
+                    </label>
+                    <div className="flex gap-3 pt-2">
+                      <Button size="sm" onClick={saveEdit} isLoading={savingId === t.id}>
+                        Speichern
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => setEditingId(null)} disabled={savingId === t.id}>
+                        Abbrechen
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <h3 className="font-semibold text-[var(--color-text)]">{t.name}</h3>
+                        {!t.is_active && (
+                          <span className="rounded-full bg-gray-100 px-2 py-0.5 text-xs font-medium text-gray-600">
+                            Inaktiv
+                          </span>
+                        )}
+                      </div>
+                      <p className="mt-2 text-sm text-[var(--color-text)]">
+                        {t.min_seats === t.max_seats ? `${t.max_seats} Plätze` : `${t.min_seats}–${t.max_seats} Plätze`}
+                        {t.area && ` · ${t.area}`}
+                      </p>
+                      {t.combine_group && (
+                        <p className="mt-1 text-xs text-[var(--color-muted)]">Kombinierbar: {t.combine_group}</p>
+                      )}
+                    </div>
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" onClick={() => startEdit(t)}>
+                        Bearbeiten
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDelete(t.id)}
+                        isLoading={deletingId === t.id}
+                      >
+                        Löschen
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </Card>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
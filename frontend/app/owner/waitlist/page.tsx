@@ -0,0 +1,168 @@
+"use client";
+
+import { useEffect, useState, useCallback } from "react";
+import { toast } from "sonner";
+import { getWaitlist, cancelWaitlistEntry } from "@/lib/api/owner";
+import type { WaitlistEntry, WaitlistStatus } from "@/lib/types";
+import { formatDateDisplay } from "@/lib/utils/date";
+import { Card } from "@/components/shared/card";
+import { Button } from "@/components/shared/button";
+import { PageLoader } from "@/components/shared/loading-spinner";
+import { ErrorMessage } from "@/components/shared/error-message";
+
+const inputClass =
+  "rounded-lg border border-[var(--color-border)] bg-[var(--color-surface)] px-3 py-2 text-[var(--color-text)] focus:outline-none focus:ring-2 focus:ring-[var(--color-accent)]";
+
+const STATUS_LABELS: Record<WaitlistStatus, string> = {
+  waiting: "Wartet",
+  offered: "Angebot gesendet",
+  claiming: "Wird eingelöst",
+  booked: "Gebucht",
+  expired: "Abgelaufen",
+  cancelled: "Entfernt",
+};
+
+const STATUS_COLORS: Record<WaitlistStatus, string> = {
+  waiting: "bg-amber-100 text-amber-800",
+  offered: "bg-blue-100 text-blue-800",
+  claiming: "bg-blue-100 text-blue-800",
+  booked: "bg-green-100 text-green-800",
+  expired: "bg-gray-100 text-gray-600",
+  cancelled: "bg-gray-100 text-gray-600",
+};
+
+export default function OwnerWaitlistPage() {
+  const [entries, setEntries] = useState<WaitlistEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [date, setDate] = useState("");
+  const [status, setStatus] = useState<WaitlistStatus | "">("");
+  const [removingId, setRemovingId] = useState<number | null>(null);
+
+  const loadWaitlist = useCallback(() => {
+    setLoading(true);
+    setError(null);
+    getWaitlist({ date: date || undefined, status: status || undefined })
+      .then((res) => {
+        if (res.success && res.data) setEntries(res.data);
+        else setError(res.message ?? "Fehler beim Laden.");
+      })
+      .catch((e) => setError((e as Error).message))
+      .finally(() => setLoading(false));
+  }, [date, status]);
+
+  useEffect(() => {
+    loadWaitlist();
+  }, [loadWaitlist]);
+
+  const handleRemove = async (id: number) => {
+    setRemovingId(id);
+    try {
+      const res = await cancelWaitlistEntry(id);
+      if (res.success) {
+        toast.success("Eintrag entfernt.");
+        loadWaitlist();
+      } else {
+        toast.error(res.message ?? "Entfernen fehlgeschlagen.");
+      }
+    } catch (e) {
+      toast.error((e as Error).message);
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  if (error) {
+    return <ErrorMessage message={error} onRetry={loadWaitlist} />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="font-display text-2xl font-semibold text-[var(--color-text)]">
+          Warteliste
+        </h1>
+        <p className="mt-1 text-sm text-[var(--color-muted)]">
+          Kunden, die an ausgebuchten Tagen auf einen Termin warten. Wird durch eine Stornierung etwas frei,
+          erhalten sie der Reihe nach ein befristetes Angebot per E-Mail.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-3">
+        <input
+          type="date"
+          value={date}
+          onChange={(e) => setDate(e.target.value)}
+          className={inputClass}
+          aria-label="Datum"
+        />
+        <select
+          value={status}
+          onChange={(e) => setStatus(e.target.value as WaitlistStatus | "")}
+          className={inputClass}
+          aria-label="Status"
+        >
+          <option value="">Alle Status</option>
+          {(Object.keys(STATUS_LABELS) as WaitlistStatus[]).map((s) => (
+            <option key={s} value={s}>
+              {STATUS_LABELS[s]}
+            </option>
+          ))}
+        </select>
+        {(date || status) && (
+          <Button variant="outline" size="sm" onClick={() => { setDate(""); setStatus(""); }}>
+            Filter zurücksetzen
+          </Button>
+        )}
+      </div>
+
+      {loading ? (
+        <PageLoader />
+      ) : entries.length === 0 ? (
+        <Card className="py-12 text-center text-[var(--color-muted)]">
+          Keine Einträge auf der Warteliste.
+        </Card>
+      ) : (
+        <Card className="p-0">
+          <ul className="divide-y divide-[var(--color-border)]">
+            {entries.map((w) => (
+              <li key={w.id} className="flex flex-col gap-2 p-4 sm:flex-row sm:items-center sm:justify-between">
+                <div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium text-[var(--color-text)]">{formatDateDisplay(w.date)}</span>
+                    <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${STATUS_COLORS[w.status]}`}>
+                      {STATUS_LABELS[w.status]}
+                    </span>
+                    <span className="text-sm text-[var(--color-muted)]">· {w.service_name}</span>
+                  </div>
+                  <p className="mt-1 text-sm text-[var(--color-text)]">
+                    {w.customer_name} · {w.customer_email}
+                    {w.customer_phone && ` · ${w.customer_phone}`}
+                    {w.party_size > 1 && ` · ${w.party_size} Personen`}
+                  </p>
+                  <p className="mt-1 text-xs text-[var(--color-muted)]">
+                    {w.time_from || w.time_to
+                      ? `Gewünscht: ${w.time_from ?? "…"} – ${w.time_to ?? "…"}`
+                      : "Beliebige Uhrzeit"}
+                    {w.status === "offered" && w.offered_start_time &&
+                      ` · Angeboten: ${w.offered_start_time} – ${w.offered_end_time}`}
+                  </p>
+                </div>
+                {(w.status === "waiting" || w.status === "offered") && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRemove(w.id)}
+                    isLoading={removingId === w.id}
+                  >
+                    Entfernen
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -3,19 +3,23 @@
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { toast } from "sonner";
-import type { VenueWithStaff, Service, TimeSlot } from "@/lib/types";
-import { getAvailableSlots } from "@/lib/api/availability";
-import { createBooking } from "@/lib/api/bookings";
+import type { VenueWithStaff, Service, TimeSlot, ServiceChainSlot, SeriesConflict, SlotHold } from "@/lib/types";
+import { getAvailableSlots, getServiceChainSlots } from "@/lib/api/availability";
+import { createBooking, createBookingSeries, createSlotHold, releaseSlotHold } from "@/lib/api/bookings";
 import { useCustomerAuthOptional } from "@/contexts/CustomerAuthContext";
 import {
-  today,
-  addDays,
-  formatDateForApi,
+  todayInTimeZone,
+  addDaysIso,
   formatDateDisplay,
   formatTimeDisplay,
 } from "@/lib/utils/date";
 import { Button } from "@/components/shared/button";
+import { TimeZoneNote } from "@/components/shared/time-zone-note";
 import { Input } from "@/components/shared/input";
+import { WaitlistJoin } from "./waitlist-join";
+import { GroupRequestForm } from "./group-request-form";
+import { MonthCalendar } from "./month-calendar";
+import { SeriesConflictList, getSeriesConflicts } from "@/components/shared/series-scope";
 
 type Step = "service" | "date" | "time" | "details";
 
@@ -28,6 +32,20 @@ const STEPS: { key: Step; label: string }[] = [
 
 const DEFAULT_PARTY_SIZE = 2;
 
+/** Online buchbare Personenzahl: Leistung vor Venue, sonst 1–8 */
+function getPartySizeLimits(venue: VenueWithStaff, service: Service | null): { min: number; max: number } {
+  return {
+    min: service?.min_party_size ?? venue.min_party_size ?? 1,
+    max: service?.max_party_size ?? venue.max_party_size ?? 8,
+  };
+}
+
+function clampPartySize(n: number, limits: { min: number; max: number }): number {
+  return Math.min(limits.max, Math.max(limits.min, n));
+}
+/** Max. Leistungen nacheinander in einer Buchung (inkl. erster Leistung) */
+const MAX_SERVICES = 5;
+
 type BookingWidgetProps = {
   venue: VenueWithStaff;
   initialDate?: string;
@@ -43,11 +61,17 @@ export function BookingWidget({ venue, initialDate, initialTime, initialPartySiz
 
   const [step, setStep] = useState<Step>("service");
   const [service, setService] = useState<Service | null>(null);
+  // Weitere Leistungen direkt im Anschluss (z. B. Schnitt → Farbe → Föhnen)
+  const [extraServices, setExtraServices] = useState<Service[]>([]);
+  const [chainSlots, setChainSlots] = useState<ServiceChainSlot[]>([]);
   const [date, setDate] = useState(initialDate ?? "");
   const [slots, setSlots] = useState<TimeSlot[]>([]);
   const [selectedSlot, setSelectedSlot] = useState<TimeSlot | null>(null);
   const [loadingSlots, setLoadingSlots] = useState(false);
   const [submitting, setSubmitting] = useState(false);
+  // Gewählte Uhrzeit bleibt während der Dateneingabe einige Minuten für den Kunden reserviert
+  const [hold, setHold] = useState<(SlotHold & { expiresAtMs: number }) | null>(null);
+  const [holdingSlot, setHoldingSlot] = useState(false);
 
   const [name, setName] = useState("");
   const [email, setEmail] = useState("");
@@ -62,17 +86,37 @@ export function BookingWidget({ venue, initialDate, initialTime, initialPartySiz
     }
   }, [customer]);
   const [partySize, setPartySize] = useState(
-    initialPartySize != null ? Math.min(8, Math.max(1, initialPartySize)) : DEFAULT_PARTY_SIZE
+    clampPartySize(initialPartySize ?? DEFAULT_PARTY_SIZE, getPartySizeLimits(venue, null))
   );
   const [specialRequests, setSpecialRequests] = useState("");
   const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  // Serientermin: gleiche Zeit und gleicher Mitarbeiter alle N Wochen
+  const [repeat, setRepeat] = useState(false);
+  const [intervalWeeks, setIntervalWeeks] = useState(1);
+  const [occurrenceCount, setOccurrenceCount] = useState(4);
+  const [seriesConflicts, setSeriesConflicts] = useState<SeriesConflict[]>([]);
 
-  const minDate = formatDateForApi(today());
-  const maxDate = formatDateForApi(
-    addDays(today(), venue.booking_advance_days ?? 30)
-  );
+  // Buchbarer Zeitraum ab "heute" in Ortszeit des Venues
+  const minDate = todayInTimeZone(venue.timezone);
+  const maxDate = addDaysIso(minDate, venue.booking_advance_days ?? 30);
 
   const showPartySize = venue.type === "restaurant";
+  const partySizeLimits = getPartySizeLimits(venue, service);
+  const selectedServices = service ? [service, ...extraServices] : [];
+  const totalDuration = selectedServices.reduce((sum, s) => sum + (s.duration_minutes || 0), 0);
+  // Preis: tatsächlicher, sobald die Mitarbeiter feststehen (Hold bzw. Kette), vorher "ab" dem günstigsten Mitarbeiterpreis
+  const selectedChain = extraServices.length > 0 && selectedSlot
+    ? chainSlots.find((c) => c.start_time === selectedSlot.start_time)
+    : undefined;
+  const actualPrice = selectedChain ? Number(selectedChain.total_price) : hold?.price != null ? Number(hold.price) : null;
+  const fromPrice = selectedServices.reduce((sum, s) => sum + Number(s.price_from ?? s.price ?? 0), 0);
+  const priceVaries = selectedServices.some((s) => s.price_from != null && Number(s.price_from) !== Number(s.price ?? 0));
+  const priceLabel =
+    actualPrice != null && actualPrice > 0
+      ? `${actualPrice.toFixed(2)} €`
+      : actualPrice == null && fromPrice > 0
+        ? `${priceVaries ? "ab " : ""}${fromPrice.toFixed(2)} €`
+        : null;
   const currentStepIndex = STEPS.findIndex((s) => s.key === step);
 
   useEffect(() => {
@@ -103,18 +147,40 @@ export function BookingWidget({ venue, initialDate, initialTime, initialPartySiz
   useEffect(() => {
     if (step !== "date" || !date || !service) return;
     loadSlotsForDate(date);
-  }, [step, date, service]);
+  }, [step, date, service, extraServices]);
 
   const loadSlotsForDate = async (dateValue: string) => {
     if (!service || !dateValue) return;
     setLoadingSlots(true);
     setSlots([]);
+    setChainSlots([]);
     setSelectedSlot(null);
     setStep("time");
     try {
-      const slotOptions: { partySize?: number; timeWindowStart?: string; timeWindowEnd?: string } = {};
+      if (extraServices.length > 0) {
+        // Mehrere Leistungen: nur Startzeiten, ab denen alle Leistungen lückenlos hintereinander passen
+        const chain = await getServiceChainSlots(
+          venue.id,
+          selectedServices.map((s) => s.id),
+          dateValue,
+          1
+        );
+        setChainSlots(chain);
+        setSlots(
+          chain.map((c) => ({
+            start_time: c.start_time,
+            end_time: c.end_time,
+            available: true,
+            staff_member_id: c.items[0]?.staff_member_id ?? undefined,
+          }))
+        );
+        return;
+      }
+      const slotOptions: { partySize?: number; timeWindowStart?: string; timeWindowEnd?: string; anyStaff?: boolean } = {};
       if (showPartySize) slotOptions.partySize = partySize;
       else slotOptions.partySize = 1;
+      // "Egal wer": eine Liste über alle Mitarbeiter – der Betrieb vergibt den Mitarbeiter beim Buchen
+      if (service.requires_staff) slotOptions.anyStaff = true;
       if (initialTime && initialTime.length >= 4) {
         const [h, m] = initialTime.length === 5 ? initialTime.split(":") : [initialTime.slice(0, 2), initialTime.slice(2, 4) || "0"];
         const centerMins = parseInt(h, 10) * 60 + parseInt(m || "0", 10);
@@ -124,7 +190,11 @@ export function BookingWidget({ venue, initialDate, initialTime, initialPartySiz
         slotOptions.timeWindowEnd = `${Math.floor(endMins / 60)}:${String(endMins % 60).padStart(2, "0")}`;
       }
       const data = await getAvailableSlots(venue.id, service.id, dateValue, slotOptions);
-      const available = (data.time_slots ?? []).filter((s) => s.available);
+      // Eine Schaltfläche pro Startzeit: bei feinem Startzeiten-Raster kann die API dieselbe Uhrzeit
+      // mit unterschiedlichem Ende liefern – der erste freie Slot wird gebucht
+      const available = (data.time_slots ?? [])
+        .filter((s) => s.available)
+        .filter((s, i, arr) => arr.findIndex((o) => o.start_time === s.start_time) === i);
       setSlots(available);
     } catch (e) {
       toast.error((e as Error).message);
@@ -133,6 +203,49 @@ export function BookingWidget({ venue, initialDate, initialTime, initialPartySiz
     }
   };
 
+  /** Gibt die Reservierung der gewählten Uhrzeit frei (andere Zeit, Serie); Fehler sind unkritisch, sie läuft ohnehin ab. */
+  const releaseHold = async () => {
+    if (!hold) return;
+    setHold(null);
+    await releaseSlotHold(hold.hold_token).catch(() => undefined);
+  };
+
+  /**
+   * Uhrzeit gewählt: Slot reservieren, dann zur Dateneingabe. Bei mehreren Leistungen ohne Reservierung
+   * (die Kette wird erst beim Buchen vergeben). Ist die Zeit inzwischen vergeben, Zeiten neu laden.
+   */
+  const handleSelectSlot = async (slot: TimeSlot) => {
+    if (!service) return;
+    await releaseHold();
+    setSelectedSlot(slot);
+    if (extraServices.length > 0) {
+      setStep("details");
+      return;
+    }
+    setHoldingSlot(true);
+    try {
+      const res = await createSlotHold({
+        venue_id: venue.id,
+        service_id: service.id,
+        staff_member_id: slot.staff_member_id ?? undefined,
+        date,
+        start_time: slot.start_time,
+        end_time: slot.end_time,
+        party_size: showPartySize ? partySize : 1,
+      });
+      if (res.success && res.data) {
+        setHold({ ...res.data, expiresAtMs: Date.now() + (res.data.expires_in_seconds ?? 0) * 1000 });
+      }
+      setStep("details");
+    } catch (e) {
+      toast.error(`Diese Uhrzeit ist leider nicht mehr frei. ${(e as Error).message}`);
+      setSelectedSlot(null);
+      loadSlotsForDate(date);
+    } finally {
+      setHoldingSlot(false);
+    }
+  };
+
   const validateDetails = (): boolean => {
     const err: Record<string, string> = {};
     if (!isAuthenticated) {
@@ -143,16 +256,65 @@ export function BookingWidget({ venue, initialDate, initialTime, initialPartySiz
     }
     if (venue.require_phone && !phone.trim())
       err.phone = "Bitte Telefonnummer angeben.";
-    if (showPartySize && (partySize < 1 || partySize > 8))
-      err.partySize = "Anzahl zwischen 1 und 8 wählen. Für mehr Gäste bitte anrufen.";
+    if (showPartySize && (partySize < partySizeLimits.min || partySize > partySizeLimits.max))
+      err.partySize = `Anzahl zwischen ${partySizeLimits.min} und ${partySizeLimits.max} wählen. Für mehr Gäste bitte eine Gruppenanfrage senden.`;
     setFieldErrors(err);
     return Object.keys(err).length === 0;
   };
 
+  const handleSubmitSeries = async (skipConflicts = false) => {
+    if (!service || !selectedSlot || !date) return;
+    if (!validateDetails()) return;
+
+    setSubmitting(true);
+    setSeriesConflicts([]);
+    // Eigene Reservierung freigeben, sonst kollidiert der erste Serientermin mit ihr
+    await releaseHold();
+    try {
+      const res = await createBookingSeries({
+        venue_id: venue.id,
+        service_id: service.id,
+        staff_member_id: selectedSlot.staff_member_id ?? undefined,
+        customer_name: name.trim(),
+        customer_email: email.trim(),
+        customer_phone: venue.require_phone ? phone.trim() : undefined,
+        booking_date: date,
+        start_time: selectedSlot.start_time,
+        end_time: selectedSlot.end_time,
+        party_size: showPartySize ? partySize : 1,
+        special_requests: specialRequests.trim() || undefined,
+        interval_weeks: intervalWeeks,
+        occurrence_count: occurrenceCount,
+        skip_conflicts: skipConflicts || undefined,
+      });
+
+      const first = res.data?.bookings[0];
+      if (res.success && first?.booking_token) {
+        toast.success(`${res.data!.bookings.length} Termine wurden angefragt.`);
+        const params = new URLSearchParams({ token: first.booking_token });
+        if (email.trim()) params.set("email", email.trim());
+        router.push(`/bookings/confirmation?${params.toString()}`);
+        return;
+      }
+      toast.error(res.message ?? "Buchung fehlgeschlagen.");
+    } catch (e) {
+      // Einzelne Termine belegt → Liste anzeigen, Kunde kann nur die freien buchen
+      const conflicts = getSeriesConflicts(e);
+      if (conflicts.length > 0) setSeriesConflicts(conflicts);
+      else toast.error((e as Error).message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
   const handleSubmit = async () => {
     if (!service || !selectedSlot || !date) return;
+    if (repeat && extraServices.length === 0) return handleSubmitSeries();
     if (!validateDetails()) return;
 
+    // Bei mehreren Leistungen die angezeigte Planung (inkl. Mitarbeiter je Schritt) mitsenden
+    const chain = chainSlots.find((c) => c.start_time === selectedSlot.start_time);
+
     setSubmitting(true);
     try {
       const res = await createBooking({
@@ -167,6 +329,16 @@ export function BookingWidget({ venue, initialDate, initialTime, initialPartySiz
         end_time: selectedSlot.end_time,
         party_size: showPartySize ? partySize : 1,
         special_requests: specialRequests.trim() || undefined,
+        services:
+          extraServices.length === 0
+            ? undefined
+            : chain
+              ? chain.items.map((item) => ({
+                  service_id: item.service_id,
+                  staff_member_id: item.staff_member_id ?? undefined,
+                }))
+              : selectedServices.map((s) => ({ service_id: s.id })),
+        hold_token: hold?.hold_token,
       });
 
       if (res.success && res.data?.booking_token) {
@@ -243,8 +415,9 @@ export function BookingWidget({ venue, initialDate, initialTime, initialPartySiz
             Ihre Auswahl
           </p>
           <p className="mt-1 font-semibold text-[var(--color-text)]">
-            {service.name}
-            {service.duration_minutes > 0 && ` · ${service.duration_minutes} Min.`}
+            {selectedServices.map((s) => s.name).join(" + ")}
+            {totalDuration > 0 && ` · ${totalDuration} Min.`}
+            {priceLabel && ` · ${priceLabel}`}
           </p>
           {date && step !== "date" && (
             <p className="mt-0.5 text-sm text-[var(--color-text-soft)]">
@@ -268,6 +441,8 @@ export function BookingWidget({ venue, initialDate, initialTime, initialPartySiz
                   type="button"
                   onClick={() => {
                     setService(s);
+                    setPartySize((n) => clampPartySize(n, getPartySizeLimits(venue, s)));
+                    setExtraServices([]);
                     setDate("");
                     setSlots([]);
                     setSelectedSlot(null);
@@ -278,10 +453,16 @@ export function BookingWidget({ venue, initialDate, initialTime, initialPartySiz
                   <span className="font-semibold text-[var(--color-text)]">{s.name}</span>
                   <span className="flex shrink-0 items-center gap-2 text-sm text-[var(--color-muted)]">
                     {s.duration_minutes > 0 && <span>{s.duration_minutes} Min.</span>}
-                    {s.price != null && Number(s.price) > 0 && (
+                    {s.price_from != null && Number(s.price_from) !== Number(s.price ?? 0) ? (
                       <span className="font-semibold text-[var(--color-accent)]">
-                        {Number(s.price).toFixed(2)} €
+                        ab {Number(s.price_from).toFixed(2)} €
                       </span>
+                    ) : (
+                      s.price != null && Number(s.price) > 0 && (
+                        <span className="font-semibold text-[var(--color-accent)]">
+                          {Number(s.price).toFixed(2)} €
+                        </span>
+                      )
                     )}
                     <svg className="h-5 w-5 text-[var(--color-muted)]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
@@ -298,29 +479,113 @@ export function BookingWidget({ venue, initialDate, initialTime, initialPartySiz
       {step === "date" && service && (
         <div className="space-y-4">
           <p className="text-sm text-[var(--color-muted)]">
-            Wählen Sie ein Datum für <strong className="text-[var(--color-text)]">{service.name}</strong> – die verfügbaren Zeiten erscheinen automatisch.
+            Wählen Sie ein Datum für <strong className="text-[var(--color-text)]">{selectedServices.map((s) => s.name).join(" + ")}</strong> – die verfügbaren Zeiten erscheinen automatisch.
           </p>
           <div>
-            <label className="sr-only" htmlFor="booking-date">Datum</label>
-            <input
-              id="booking-date"
-              type="date"
-              min={minDate}
-              max={maxDate}
-              value={date}
-              onChange={(e) => {
-                const newDate = e.target.value;
-                setDate(newDate);
-                if (newDate) loadSlotsForDate(newDate);
-              }}
-              className="w-full rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] px-4 py-3 text-[var(--color-text)] focus:border-[var(--color-accent)] focus:outline-none focus:ring-2 focus:ring-[var(--color-accent)] focus:ring-offset-0"
-            />
+            {extraServices.length === 0 ? (
+              // Eine Leistung: Monatskalender mit ausgegrauten vollen/geschlossenen Tagen
+              <MonthCalendar
+                venueId={venue.id}
+                serviceId={service.id}
+                partySize={showPartySize ? partySize : 1}
+                minDate={minDate}
+                maxDate={maxDate}
+                value={date}
+                onSelect={(newDate) => {
+                  setDate(newDate);
+                  loadSlotsForDate(newDate);
+                }}
+              />
+            ) : (
+              <>
+                <label className="sr-only" htmlFor="booking-date">Datum</label>
+                <input
+                  id="booking-date"
+                  type="date"
+                  min={minDate}
+                  max={maxDate}
+                  value={date}
+                  onChange={(e) => {
+                    const newDate = e.target.value;
+                    setDate(newDate);
+                    if (newDate) loadSlotsForDate(newDate);
+                  }}
+                  className="w-full rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] px-4 py-3 text-[var(--color-text)] focus:border-[var(--color-accent)] focus:outline-none focus:ring-2 focus:ring-[var(--color-accent)] focus:ring-offset-0"
+                />
+              </>
+            )}
+            <TimeZoneNote timeZone={venue.timezone} className="mt-1.5" />
+            {showPartySize && extraServices.length === 0 && (
+              <GroupRequestForm
+                venueId={venue.id}
+                serviceId={service.id}
+                maxPartySize={partySizeLimits.max}
+                minDate={minDate}
+                maxDate={maxDate}
+                defaultDate={date}
+                defaultName={name}
+                defaultEmail={email}
+                defaultPhone={phone}
+              />
+            )}
           </div>
+          {!showPartySize && selectedServices.length < MAX_SERVICES && (
+            <div>
+              <label className="mb-1.5 block text-sm font-medium text-[var(--color-text)]" htmlFor="booking-extra-service">
+                Weitere Leistung im Anschluss (optional)
+              </label>
+              <select
+                id="booking-extra-service"
+                value=""
+                onChange={(e) => {
+                  const extra = services.find((s) => s.id === Number(e.target.value));
+                  if (!extra) return;
+                  setExtraServices((prev) => [...prev, extra]);
+                  setDate("");
+                  setSlots([]);
+                  setSelectedSlot(null);
+                }}
+                className="w-full h-11 rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] px-3.5 text-[var(--color-text)] focus:border-[var(--color-accent)] focus:outline-none focus:ring-2 focus:ring-[var(--color-accent)] focus:ring-offset-0"
+              >
+                <option value="">Weitere Leistung hinzufügen …</option>
+                {services
+                  .filter((s) => !selectedServices.some((sel) => sel.id === s.id))
+                  .map((s) => (
+                    <option key={s.id} value={s.id}>
+                      {s.name}
+                      {s.duration_minutes > 0 ? ` (${s.duration_minutes} Min.)` : ""}
+                    </option>
+                  ))}
+              </select>
+            </div>
+          )}
+          {extraServices.length > 0 && (
+            <ul className="flex flex-wrap gap-2" role="list">
+              {extraServices.map((s) => (
+                <li key={s.id}>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setExtraServices((prev) => prev.filter((x) => x.id !== s.id));
+                      setDate("");
+                      setSlots([]);
+                      setSelectedSlot(null);
+                    }}
+                    className="rounded-full border border-[var(--color-border)] bg-[var(--color-surface)] px-3 py-1 text-sm text-[var(--color-text)] hover:border-[var(--color-accent)]"
+                    aria-label={`${s.name} entfernen`}
+                  >
+                    + {s.name} ×
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
           <Button
             variant="ghost"
             size="sm"
             onClick={() => {
               setService(null);
+              setExtraServices([]);
               setDate("");
               setStep("service");
             }}
@@ -335,7 +600,8 @@ export function BookingWidget({ venue, initialDate, initialTime, initialPartySiz
       {step === "time" && service && (
         <div className="space-y-4">
           <p className="text-sm text-[var(--color-muted)]">
-            {date && formatDateDisplay(date)} – wählen Sie eine freie Uhrzeit.
+            {date && formatDateDisplay(date)} – wählen Sie eine freie Uhrzeit
+            {totalDuration ? ` (Dauer ${totalDuration} Min.)` : ""}.
           </p>
           {loadingSlots ? (
             <div className="flex flex-col items-center justify-center rounded-md border border-[var(--color-border)] bg-[var(--color-page)] py-10">
@@ -360,6 +626,17 @@ export function BookingWidget({ venue, initialDate, initialTime, initialPartySiz
               >
                 Anderes Datum wählen
               </Button>
+              {extraServices.length === 0 && (
+                <WaitlistJoin
+                  venueId={venue.id}
+                  serviceId={service.id}
+                  date={date}
+                  partySize={showPartySize ? partySize : 1}
+                  defaultName={name}
+                  defaultEmail={email}
+                  defaultPhone={phone}
+                />
+              )}
             </div>
           ) : (
             <>
@@ -374,11 +651,9 @@ export function BookingWidget({ venue, initialDate, initialTime, initialPartySiz
                       type="button"
                       role="option"
                       aria-selected={isSelected}
-                      onClick={() => {
-                        setSelectedSlot(slot);
-                        setStep("details");
-                      }}
-                      className={`rounded-md py-2.5 text-sm font-semibold transition-colors ${
+                      disabled={holdingSlot}
+                      onClick={() => handleSelectSlot(slot)}
+                      className={`rounded-md py-2.5 text-sm font-semibold transition-colors disabled:opacity-60 ${
                         isSelected
                           ? "border border-[var(--color-accent)] bg-[var(--color-accent)] text-white"
                           : "border border-[var(--color-border)] bg-[var(--color-surface)] text-[var(--color-text)] hover:border-[var(--color-accent)] hover:bg-[var(--color-accent-muted)]/40"
@@ -411,6 +686,13 @@ export function BookingWidget({ venue, initialDate, initialTime, initialPartySiz
         <div className="space-y-5">
           <div>
             <h3 className="text-sm font-semibold text-[var(--color-text)]">Ihre Angaben</h3>
+            {hold && (
+              <p className="mt-1 text-xs font-medium text-[var(--color-accent-strong)]">
+                Ihre Uhrzeit ist bis{" "}
+                {new Date(hold.expiresAtMs).toLocaleTimeString("de-DE", { hour: "2-digit", minute: "2-digit" })} Uhr
+                für Sie reserviert.
+              </p>
+            )}
             {isAuthenticated ? (
               <p className="mt-0.5 text-xs text-[var(--color-muted)]">
                 Es werden Ihre Kontodaten verwendet. Änderungen im Profil möglich.
@@ -480,15 +762,24 @@ export function BookingWidget({ venue, initialDate, initialTime, initialPartySiz
                   onChange={(e) => setPartySize(Number(e.target.value))}
                   className="w-full h-11 rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] px-3.5 text-[var(--color-text)] focus:border-[var(--color-accent)] focus:outline-none focus:ring-2 focus:ring-[var(--color-accent)] focus:ring-offset-0"
                 >
-                  {Array.from({ length: 8 }, (_, i) => i + 1).map((n) => (
+                  {Array.from({ length: partySizeLimits.max - partySizeLimits.min + 1 }, (_, i) => partySizeLimits.min + i).map((n) => (
                     <option key={n} value={n}>
                       {n} {n === 1 ? "Gast" : "Gäste"}
                     </option>
                   ))}
                 </select>
-                <p className="mt-1 text-xs text-[var(--color-muted)]">
-                  Für mehr als 8 Gäste bitte anrufen.
-                </p>
+                <GroupRequestForm
+                  venueId={venue.id}
+                  serviceId={service?.id}
+                  maxPartySize={partySizeLimits.max}
+                  minDate={minDate}
+                  maxDate={maxDate}
+                  defaultDate={date}
+                  defaultTime={selectedSlot?.start_time}
+                  defaultName={name}
+                  defaultEmail={email}
+                  defaultPhone={phone}
+                />
                 {fieldErrors.partySize && (
                   <p className="mt-1.5 text-sm text-[var(--color-error)]">
                     {fieldErrors.partySize}
@@ -508,6 +799,61 @@ export function BookingWidget({ venue, initialDate, initialTime, initialPartySiz
                 className="w-full rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] px-3.5 py-2.5 text-[var(--color-text)] placeholder:text-[var(--color-muted)] focus:border-[var(--color-accent)] focus:outline-none focus:ring-2 focus:ring-[var(--color-accent)] focus:ring-offset-0"
               />
             </div>
+            {extraServices.length === 0 && (
+              <div className="space-y-3">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={repeat}
+                    onChange={(e) => {
+                      setRepeat(e.target.checked);
+                      setSeriesConflicts([]);
+                    }}
+                    className="h-4 w-4 rounded border-[var(--color-border)] text-[var(--color-accent)] focus:ring-[var(--color-accent)]"
+                  />
+                  <span className="text-sm text-[var(--color-text)]">Als regelmäßigen Termin buchen</span>
+                </label>
+                {repeat && (
+                  <div className="grid gap-3 sm:grid-cols-2">
+                    <div>
+                      <label className="mb-1.5 block text-sm font-medium text-[var(--color-text)]">
+                        Wiederholung
+                      </label>
+                      <select
+                        value={intervalWeeks}
+                        onChange={(e) => setIntervalWeeks(Number(e.target.value))}
+                        className="w-full h-11 rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] px-3.5 text-[var(--color-text)] focus:border-[var(--color-accent)] focus:outline-none focus:ring-2 focus:ring-[var(--color-accent)] focus:ring-offset-0"
+                      >
+                        {[1, 2, 3, 4, 6, 8].map((n) => (
+                          <option key={n} value={n}>
+                            {n === 1 ? "Jede Woche" : `Alle ${n} Wochen`}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <Input
+                      label="Anzahl Termine"
+                      type="number"
+                      min={2}
+                      max={52}
+                      value={occurrenceCount || ""}
+                      onChange={(e) => setOccurrenceCount(parseInt(e.target.value, 10) || 0)}
+                    />
+                  </div>
+                )}
+                <SeriesConflictList conflicts={seriesConflicts} />
+                {seriesConflicts.length > 0 && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleSubmitSeries(true)}
+                    isLoading={submitting}
+                  >
+                    Nur freie Termine buchen
+                  </Button>
+                )}
+              </div>
+            )}
           </div>
 
           <div className="flex flex-col-reverse gap-2 pt-2 sm:flex-row">
@@ -515,6 +861,7 @@ export function BookingWidget({ venue, initialDate, initialTime, initialPartySiz
               variant="outline"
               className="sm:shrink-0"
               onClick={() => {
+                releaseHold();
                 setSelectedSlot(null);
                 setStep("time");
               }}
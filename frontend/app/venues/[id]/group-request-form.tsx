@@ -0,0 +1,141 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { createGroupRequest } from "@/lib/api/group-requests";
+import { Button } from "@/components/shared/button";
+import { Input } from "@/components/shared/input";
+
+type GroupRequestFormProps = {
+  venueId: number;
+  serviceId?: number;
+  /** Online-Höchstzahl: Anfragen gibt es erst darüber */
+  maxPartySize: number;
+  minDate: string;
+  maxDate: string;
+  defaultDate?: string;
+  defaultTime?: string;
+  defaultName?: string;
+  defaultEmail?: string;
+  defaultPhone?: string;
+};
+
+/**
+ * Gruppenanfrage für mehr Gäste als online buchbar: Der Betrieb meldet sich
+ * per E-Mail mit einer Bestätigung (inkl. Uhrzeit) oder einer Absage.
+ */
+export function GroupRequestForm({
+  venueId,
+  serviceId,
+  maxPartySize,
+  minDate,
+  maxDate,
+  defaultDate,
+  defaultTime,
+  defaultName,
+  defaultEmail,
+  defaultPhone,
+}: GroupRequestFormProps) {
+  const [open, setOpen] = useState(false);
+  const [sent, setSent] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [name, setName] = useState(defaultName ?? "");
+  const [email, setEmail] = useState(defaultEmail ?? "");
+  const [phone, setPhone] = useState(defaultPhone ?? "");
+  const [date, setDate] = useState(defaultDate ?? "");
+  const [time, setTime] = useState(defaultTime ?? "");
+  const [partySize, setPartySize] = useState(maxPartySize + 1);
+  const [message, setMessage] = useState("");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      toast.error("Bitte Namen und gültige E-Mail angeben.");
+      return;
+    }
+    if (!date) {
+      toast.error("Bitte Wunschdatum angeben.");
+      return;
+    }
+    if (!Number.isInteger(partySize) || partySize <= maxPartySize) {
+      toast.error(`Gruppenanfragen gibt es ab ${maxPartySize + 1} Gästen.`);
+      return;
+    }
+    setSubmitting(true);
+    try {
+      const res = await createGroupRequest({
+        venue_id: venueId,
+        service_id: serviceId,
+        customer_name: name.trim(),
+        customer_email: email.trim(),
+        customer_phone: phone.trim() || undefined,
+        preferred_date: date,
+        preferred_time: time || undefined,
+        party_size: partySize,
+        message: message.trim() || undefined,
+      });
+      if (res.success) setSent(true);
+      else toast.error(res.message ?? "Anfrage konnte nicht gesendet werden.");
+    } catch (e) {
+      toast.error((e as Error).message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (sent) {
+    return (
+      <p className="mt-2 rounded-md bg-emerald-50 p-3 text-sm text-emerald-800 dark:bg-emerald-950 dark:text-emerald-200">
+        Ihre Gruppenanfrage ist eingegangen. Sie erhalten eine E-Mail, sobald der Betrieb sie bestätigt oder absagt.
+      </p>
+    );
+  }
+
+  if (!open) {
+    return (
+      <p className="mt-1 text-xs text-[var(--color-muted)]">
+        Mehr als {maxPartySize} Gäste?{" "}
+        <button type="button" className="font-medium text-[var(--color-accent)] hover:underline" onClick={() => setOpen(true)}>
+          Gruppenanfrage senden
+        </button>
+      </p>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-3 space-y-3 rounded-md border border-[var(--color-border)] p-3 text-left">
+      <p className="text-sm text-[var(--color-muted)]">
+        Für Gruppen ab {maxPartySize + 1} Gästen stimmt der Betrieb Uhrzeit und Tische individuell ab.
+      </p>
+      <Input label="Name" value={name} maxLength={200} onChange={(e) => setName(e.target.value)} required />
+      <Input label="E-Mail" type="email" value={email} onChange={(e) => setEmail(e.target.value)} required />
+      <Input label="Telefon (optional)" type="tel" value={phone} maxLength={50} onChange={(e) => setPhone(e.target.value)} />
+      <div className="grid grid-cols-2 gap-3">
+        <Input label="Wunschdatum" type="date" value={date} min={minDate} max={maxDate} onChange={(e) => setDate(e.target.value)} required />
+        <Input label="Wunschzeit (optional)" type="time" value={time} onChange={(e) => setTime(e.target.value)} />
+      </div>
+      <Input
+        label="Anzahl Gäste"
+        type="number"
+        min={maxPartySize + 1}
+        value={partySize}
+        onChange={(e) => setPartySize(Number(e.target.value))}
+        required
+      />
+      <div>
+        <label className="mb-1.5 block text-sm font-medium text-[var(--color-muted)]">Nachricht (optional)</label>
+        <textarea
+          value={message}
+          maxLength={1000}
+          onChange={(e) => setMessage(e.target.value)}
+          rows={3}
+          className="w-full rounded-md border border-[var(--color-border)] bg-[var(--color-surface)] px-3.5 py-2.5 text-[var(--color-text)] placeholder:text-[var(--color-muted)] focus:border-[var(--color-accent)] focus:outline-none focus:ring-2 focus:ring-[var(--color-accent)] focus:ring-offset-0"
+          placeholder="z. B. Anlass, Menüwünsche"
+        />
+      </div>
+      <Button type="submit" size="sm" isLoading={submitting}>
+        Anfrage senden
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,145 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import type { MonthAvailability, MonthDayAvailability } from "@/lib/types";
+import { getMonthAvailability, getNextAvailableSlots } from "@/lib/api/availability";
+import { addMonthsIso, formatDateDisplay, formatMonthDisplay } from "@/lib/utils/date";
+import { Button } from "@/components/shared/button";
+
+const WEEKDAYS = ["Mo", "Di", "Mi", "Do", "Fr", "Sa", "So"];
+
+type MonthCalendarProps = {
+  venueId: number;
+  serviceId: number;
+  partySize: number;
+  minDate: string;
+  maxDate: string;
+  value: string;
+  onSelect: (date: string) => void;
+};
+
+function dayClassName(day: MonthDayAvailability, selected: boolean): string {
+  if (selected) return "bg-[var(--color-accent)] text-white";
+  if (day.status === "available")
+    return "border border-[var(--color-border)] bg-[var(--color-surface)] text-[var(--color-text)] hover:border-[var(--color-accent)]";
+  if (day.status === "full") return "bg-[var(--color-border)]/40 text-[var(--color-muted)] line-through";
+  return "text-[var(--color-muted)] opacity-50";
+}
+
+function dayLabel(day: MonthDayAvailability): string {
+  if (day.status === "available") return `${formatDateDisplay(day.date)}: ${day.available_slots} freie Zeiten`;
+  if (day.status === "full") return `${formatDateDisplay(day.date)}: ausgebucht`;
+  return `${formatDateDisplay(day.date)}: geschlossen`;
+}
+
+/**
+ * Monatskalender im Buchungswidget: ausgebuchte und geschlossene Tage sind ausgegraut,
+ * "Nächster freier Termin" springt direkt zum ersten Tag mit freien Zeiten.
+ */
+export function MonthCalendar({ venueId, serviceId, partySize, minDate, maxDate, value, onSelect }: MonthCalendarProps) {
+  const [month, setMonth] = useState((value || minDate).slice(0, 7));
+  const [availability, setAvailability] = useState<MonthAvailability | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [searchingNext, setSearchingNext] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    getMonthAvailability(venueId, serviceId, month, partySize)
+      .then((data) => {
+        if (!cancelled) setAvailability(data);
+      })
+      .catch((e) => {
+        if (!cancelled) toast.error((e as Error).message);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [venueId, serviceId, month, partySize]);
+
+  const handleNextAvailable = async () => {
+    setSearchingNext(true);
+    try {
+      const [next] = await getNextAvailableSlots(venueId, serviceId, { partySize });
+      if (!next) {
+        toast.info("Im buchbaren Zeitraum ist leider kein Termin mehr frei.");
+        return;
+      }
+      setMonth(next.date.slice(0, 7));
+      onSelect(next.date);
+    } catch (e) {
+      toast.error((e as Error).message);
+    } finally {
+      setSearchingNext(false);
+    }
+  };
+
+  const days = availability?.month === month ? availability.days : [];
+  // Montag als erster Wochentag: Leerfelder vor dem 1. des Monats
+  const leadingBlanks = days.length > 0 ? (days[0].day_of_week + 6) % 7 : 0;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setMonth((m) => addMonthsIso(m, -1))}
+          disabled={month <= minDate.slice(0, 7)}
+          aria-label="Vorheriger Monat"
+        >
+          ←
+        </Button>
+        <span className="text-sm font-semibold text-[var(--color-text)]">{formatMonthDisplay(month)}</span>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setMonth((m) => addMonthsIso(m, 1))}
+          disabled={month >= maxDate.slice(0, 7)}
+          aria-label="Nächster Monat"
+        >
+          →
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1 text-center text-xs text-[var(--color-muted)]">
+        {WEEKDAYS.map((d) => (
+          <span key={d}>{d}</span>
+        ))}
+      </div>
+      {loading && days.length === 0 ? (
+        <p className="py-6 text-center text-sm text-[var(--color-muted)]">Verfügbarkeit wird geladen …</p>
+      ) : (
+        <div className={`grid grid-cols-7 gap-1 ${loading ? "opacity-60" : ""}`}>
+          {Array.from({ length: leadingBlanks }, (_, i) => (
+            <span key={`blank-${i}`} />
+          ))}
+          {days.map((day) => (
+            <button
+              key={day.date}
+              type="button"
+              disabled={day.status !== "available"}
+              onClick={() => onSelect(day.date)}
+              aria-label={dayLabel(day)}
+              title={dayLabel(day)}
+              className={`h-10 rounded-md text-sm disabled:cursor-not-allowed ${dayClassName(day, day.date === value)}`}
+            >
+              {parseInt(day.date.slice(8), 10)}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {!loading && availability?.month === month && !availability.first_available_date && (
+        <p className="text-sm text-[var(--color-muted)]">In diesem Monat ist kein Termin mehr frei.</p>
+      )}
+      <Button variant="outline" size="sm" onClick={handleNextAvailable} isLoading={searchingNext} className="w-full sm:w-auto">
+        Nächster freier Termin
+      </Button>
+    </div>
+  );
+}
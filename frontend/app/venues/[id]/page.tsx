@@ -2,6 +2,7 @@ import Link from "next/link";
 import { notFound } from "next/navigation";
 import { getVenueById } from "@/lib/api/venues";
 import { getVenueTypeLabel } from "@/lib/utils/venueType";
+import { formatTimeRange, todayInTimeZone } from "@/lib/utils/date";
 import { SiteLayout } from "@/components/layout/site-layout";
 import { BookingWidget } from "./booking-widget";
 import { FavoriteButton } from "@/components/customer/FavoriteButton";
@@ -44,13 +45,14 @@ export default async function VenuePage({ params, searchParams }: Props) {
     (acc, slot) => {
       const key = slot.day_of_week;
       if (!acc[key]) acc[key] = [];
-      acc[key].push(`${slot.start_time}–${slot.end_time}`);
+      acc[key].push(formatTimeRange(slot.start_time, slot.end_time, "–"));
       return acc;
     },
     {} as Record<number, string[]>
   );
   const dayNames = ["Sonntag", "Montag", "Dienstag", "Mittwoch", "Donnerstag", "Freitag", "Samstag"];
-  const todayDay = new Date().getDay(); // 0 = Sun, 1 = Mon, ...
+  // Heutiger Wochentag in Ortszeit des Venues (0 = Sun, 1 = Mon, ...)
+  const todayDay = new Date(`${todayInTimeZone(venue.timezone)}T00:00:00Z`).getUTCDay();
 
   return (
     <SiteLayout>
@@ -0,0 +1,105 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { joinWaitlist } from "@/lib/api/waitlist";
+import { Button } from "@/components/shared/button";
+import { Input } from "@/components/shared/input";
+
+type WaitlistJoinProps = {
+  venueId: number;
+  serviceId: number;
+  date: string;
+  partySize: number;
+  defaultName?: string;
+  defaultEmail?: string;
+  defaultPhone?: string;
+};
+
+/**
+ * Warteliste für einen ausgebuchten Tag: Wird ein Termin frei, erhält der Kunde
+ * per E-Mail ein befristetes Angebot mit Link zum Buchen.
+ */
+export function WaitlistJoin({
+  venueId,
+  serviceId,
+  date,
+  partySize,
+  defaultName,
+  defaultEmail,
+  defaultPhone,
+}: WaitlistJoinProps) {
+  const [open, setOpen] = useState(false);
+  const [joined, setJoined] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [name, setName] = useState(defaultName ?? "");
+  const [email, setEmail] = useState(defaultEmail ?? "");
+  const [timeFrom, setTimeFrom] = useState("");
+  const [timeTo, setTimeTo] = useState("");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      toast.error("Bitte Namen und gültige E-Mail angeben.");
+      return;
+    }
+    if (timeFrom && timeTo && timeFrom > timeTo) {
+      toast.error("„Von“ muss vor „Bis“ liegen.");
+      return;
+    }
+    setSubmitting(true);
+    try {
+      const res = await joinWaitlist({
+        venue_id: venueId,
+        service_id: serviceId,
+        customer_name: name.trim(),
+        customer_email: email.trim(),
+        customer_phone: defaultPhone?.trim() || undefined,
+        date,
+        time_from: timeFrom || undefined,
+        time_to: timeTo || undefined,
+        party_size: partySize,
+      });
+      if (res.success) setJoined(true);
+      else toast.error(res.message ?? "Eintragen fehlgeschlagen.");
+    } catch (e) {
+      const status = (e as Error & { status?: number }).status;
+      toast.error(status === 409 ? "Sie stehen für diesen Tag bereits auf der Warteliste." : (e as Error).message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (joined) {
+    return (
+      <p className="mt-4 rounded-md bg-emerald-50 p-3 text-sm text-emerald-800 dark:bg-emerald-950 dark:text-emerald-200">
+        Sie stehen auf der Warteliste. Wird ein Termin frei, erhalten Sie eine E-Mail mit einem Link zum Buchen.
+      </p>
+    );
+  }
+
+  if (!open) {
+    return (
+      <Button size="sm" className="mt-4 ml-2" onClick={() => setOpen(true)}>
+        Auf die Warteliste
+      </Button>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-4 space-y-3 text-left">
+      <p className="text-sm text-[var(--color-muted)]">
+        Wir benachrichtigen Sie, sobald an diesem Tag ein Termin frei wird.
+      </p>
+      <Input label="Name" value={name} maxLength={200} onChange={(e) => setName(e.target.value)} required />
+      <Input label="E-Mail" type="email" value={email} onChange={(e) => setEmail(e.target.value)} required />
+      <div className="grid grid-cols-2 gap-3">
+        <Input label="Frühestens (optional)" type="time" value={timeFrom} onChange={(e) => setTimeFrom(e.target.value)} />
+        <Input label="Spätestens (optional)" type="time" value={timeTo} onChange={(e) => setTimeTo(e.target.value)} />
+      </div>
+      <Button type="submit" size="sm" isLoading={submitting}>
+        Eintragen
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,41 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { claimWaitlistOffer } from "@/lib/api/waitlist";
+import { Button } from "@/components/shared/button";
+
+/** Löst das Wartelisten-Angebot ein und leitet zur Buchungsbestätigung weiter. */
+export function ClaimOfferAction({ token, customerEmail }: { token: string; customerEmail: string }) {
+  const router = useRouter();
+  const [claiming, setClaiming] = useState(false);
+
+  const handleClaim = async () => {
+    setClaiming(true);
+    try {
+      const res = await claimWaitlistOffer(token);
+      if (res.success && res.data) {
+        router.push(
+          `/bookings/confirmation?token=${res.data.booking_token}&email=${encodeURIComponent(customerEmail)}`
+        );
+        return;
+      }
+      toast.error(res.message ?? "Buchung fehlgeschlagen.");
+    } catch (e) {
+      const status = (e as Error & { status?: number }).status;
+      if (status === 409) toast.error("Der Termin wurde leider inzwischen anderweitig vergeben.");
+      else if (status === 410) toast.error("Dieses Angebot ist nicht mehr gültig.");
+      else toast.error((e as Error).message);
+      router.refresh();
+    } finally {
+      setClaiming(false);
+    }
+  };
+
+  return (
+    <Button className="mt-6 w-full" onClick={handleClaim} isLoading={claiming}>
+      Termin jetzt buchen
+    </Button>
+  );
+}
@@ -0,0 +1,86 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { getWaitlistOffer } from "@/lib/api/waitlist";
+import { SiteLayout } from "@/components/layout/site-layout";
+import { ClaimOfferAction } from "./claim-action";
+
+type Props = { params: Promise<{ token: string }> };
+
+export const metadata = {
+  title: "Termin von der Warteliste – easyseat",
+};
+
+export default async function WaitlistClaimPage({ params }: Props) {
+  const { token } = await params;
+  const res = await getWaitlistOffer(token).catch(() => null);
+  if (!res?.success || !res.data) notFound();
+  const offer = res.data;
+
+  const dateDisplay = new Date(offer.date + "T12:00:00").toLocaleDateString("de-DE", {
+    weekday: "long",
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  });
+  const expiresDisplay = offer.offer_expires_at
+    ? new Date(offer.offer_expires_at).toLocaleString("de-DE", {
+        day: "numeric",
+        month: "long",
+        hour: "2-digit",
+        minute: "2-digit",
+      })
+    : "";
+
+  return (
+    <SiteLayout>
+      <div className="mx-auto max-w-xl px-4 py-10 sm:px-6 sm:py-12">
+        <h1 className="font-display text-2xl font-semibold text-[var(--color-text)] sm:text-3xl">
+          Ein Termin ist frei geworden
+        </h1>
+
+        <div className="mt-6 rounded-xl border border-[var(--color-border)] bg-[var(--color-surface)] p-6 shadow-[var(--shadow-sm)]">
+          {offer.venue_name && <p className="font-medium text-[var(--color-text)]">{offer.venue_name}</p>}
+          {offer.service_name && <p className="mt-1 text-sm text-[var(--color-muted)]">{offer.service_name}</p>}
+          <p className="mt-2 text-[var(--color-text)]">{dateDisplay}</p>
+          {offer.offered_start_time && offer.offered_end_time && (
+            <p className="text-[var(--color-text)]">
+              {offer.offered_start_time} – {offer.offered_end_time} Uhr
+            </p>
+          )}
+          <p className="mt-2 text-sm text-[var(--color-muted)]">
+            {offer.customer_name} · {offer.customer_email}
+            {offer.party_size > 1 && ` · ${offer.party_size} Personen`}
+          </p>
+        </div>
+
+        {offer.status === "offered" ? (
+          <>
+            {expiresDisplay && (
+              <p className="mt-4 text-sm text-[var(--color-muted)]">
+                Der Termin ist bis {expiresDisplay} Uhr für Sie reserviert.
+              </p>
+            )}
+            <ClaimOfferAction token={token} customerEmail={offer.customer_email} />
+          </>
+        ) : (
+          <p className="mt-6 rounded-md bg-[var(--color-page)] p-4 text-sm text-[var(--color-text)]">
+            {offer.status === "booked"
+              ? "Dieses Angebot wurde bereits eingelöst. Die Buchungsdetails finden Sie in Ihrer Bestätigungs-E-Mail."
+              : offer.status === "claiming"
+                ? "Dieses Angebot wird gerade eingelöst. Bitte laden Sie die Seite in einem Moment neu."
+                : "Dieses Angebot ist leider nicht mehr gültig."}
+          </p>
+        )}
+
+        <div className="mt-10 text-center">
+          <Link
+            href={`/venues/${offer.venue_id}`}
+            className="text-sm font-medium text-[var(--color-accent)] transition-colors hover:text-[var(--color-accent-hover)]"
+          >
+            Zum Ort
+          </Link>
+        </div>
+      </div>
+    </SiteLayout>
+  );
+}
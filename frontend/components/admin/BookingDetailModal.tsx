@@ -3,11 +3,17 @@
 import { useEffect, useState } from "react";
 import Link from "next/link";
 import { toast } from "sonner";
-import { updateBookingStatus } from "@/lib/api/owner";
-import type { BookingWithDetails } from "@/lib/types";
+import { updateBookingStatus, rescheduleBooking } from "@/lib/api/owner";
+import type { BookingWithDetails, SeriesConflict, SeriesScope } from "@/lib/types";
 import { getStatusLabel, getStatusColor } from "@/lib/utils/bookingStatus";
+import { isPastInTimeZone } from "@/lib/utils/date";
 import { Button } from "@/components/shared/button";
 import { Input } from "@/components/shared/input";
+import {
+  SeriesScopeChoice,
+  SeriesConflictList,
+  getSeriesConflicts,
+} from "@/components/shared/series-scope";
 
 const STATUS_OPTIONS = [
   { value: "pending", label: "Ausstehend" },
@@ -45,19 +51,31 @@ export function BookingDetailModal({
   const [status, setStatus] = useState<string>("");
   const [statusReason, setStatusReason] = useState("");
   const [saving, setSaving] = useState(false);
+  const [scope, setScope] = useState<SeriesScope>("single");
+  const [showReschedule, setShowReschedule] = useState(false);
+  const [reschedule, setReschedule] = useState({ booking_date: "", start_time: "", end_time: "" });
+  const [conflicts, setConflicts] = useState<SeriesConflict[]>([]);
 
   useEffect(() => {
     if (booking) {
       setStatus(booking.status);
       setStatusReason(booking.cancellation_reason ?? "");
+      setScope("single");
+      setShowReschedule(false);
+      setReschedule({
+        booking_date: booking.booking_date,
+        start_time: booking.start_time.slice(0, 5),
+        end_time: booking.end_time.slice(0, 5),
+      });
+      setConflicts([]);
     }
   }, [booking]);
 
   if (!open) return null;
 
+  const isSeries = booking?.series_id != null;
   const isPast =
-    booking &&
-    new Date(`${booking.booking_date}T${booking.end_time}`).getTime() <= Date.now();
+    booking && isPastInTimeZone(booking.booking_date, booking.end_time, booking.venue_timezone);
   const reasonRequired =
     booking &&
     status !== booking.status &&
@@ -77,7 +95,8 @@ export function BookingDetailModal({
       const res = await updateBookingStatus(
         booking.id,
         status,
-        reasonRequired ? statusReason.trim() || undefined : undefined
+        reasonRequired ? statusReason.trim() || undefined : undefined,
+        isSeries && status === "cancelled" ? scope : undefined
       );
       if (res.success) {
         toast.success("Status aktualisiert.");
@@ -112,6 +131,29 @@ export function BookingDetailModal({
     }
   };
 
+  const handleReschedule = async () => {
+    if (!booking) return;
+    setSaving(true);
+    setConflicts([]);
+    try {
+      const res = await rescheduleBooking(booking.id, reschedule, isSeries ? scope : undefined);
+      if (res.success) {
+        toast.success("Termin verschoben.");
+        onUpdated?.();
+        onClose();
+      } else {
+        toast.error(res.message ?? "Verschieben fehlgeschlagen.");
+      }
+    } catch (e) {
+      // Bei Serien: Konflikte pro Termin anzeigen, es wurde nichts geändert
+      const seriesConflicts = getSeriesConflicts(e);
+      if (seriesConflicts.length > 0) setConflicts(seriesConflicts);
+      else toast.error((e as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
   const handleBackdrop = (e: React.MouseEvent) => {
     if (e.target === e.currentTarget) onClose();
   };
@@ -155,15 +197,37 @@ export function BookingDetailModal({
               </div>
 
               <div className="text-sm">
-                <p className="text-[var(--color-text)]">
-                  {booking.service_name}
-                  {booking.staff_member_name && ` · ${booking.staff_member_name}`}
-                </p>
+                {booking.items && booking.items.length > 0 ? (
+                  <ul className="space-y-0.5 text-[var(--color-text)]">
+                    {booking.items.map((item) => (
+                      <li key={item.position}>
+                        {item.start_time}–{item.end_time} {item.service_name}
+                        {item.staff_member_name && ` · ${item.staff_member_name}`}
+                        {item.price != null && ` · ${Number(item.price).toFixed(2)} €`}
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-[var(--color-text)]">
+                    {booking.service_name}
+                    {booking.staff_member_name && ` · ${booking.staff_member_name}`}
+                  </p>
+                )}
                 <p className="text-[var(--color-muted)]">
                   {formatDate(booking.booking_date)} · {booking.start_time}–
                   {booking.end_time}
                   {booking.party_size > 0 && ` · ${booking.party_size} Pers.`}
                 </p>
+                {isSeries && (
+                  <p className="mt-1 text-[var(--color-text)]">
+                    Serientermin {(booking.series_index ?? 0) + 1}
+                  </p>
+                )}
+                {booking.table_names && (
+                  <p className="mt-1 text-[var(--color-text)]">
+                    Tisch: {booking.table_names}
+                  </p>
+                )}
                 {booking.special_requests && (
                   <p className="mt-1 text-[var(--color-muted)]">
                     Anmerkung: {booking.special_requests}
@@ -171,7 +235,7 @@ export function BookingDetailModal({
                 )}
                 {booking.total_amount != null && Number(booking.total_amount) > 0 && (
                   <p className="mt-1 text-[var(--color-text)]">
-                    Betrag: {Number(booking.total_amount).toFixed(2)} €
+                    {booking.items && booking.items.length > 0 ? "Gesamt" : "Betrag"}: {Number(booking.total_amount).toFixed(2)} €
                   </p>
                 )}
               </div>
@@ -222,6 +286,61 @@ export function BookingDetailModal({
                 </div>
               </div>
 
+              {isSeries && (showReschedule || (status === "cancelled" && booking.status !== "cancelled")) && (
+                <SeriesScopeChoice name="owner-series-scope" value={scope} onChange={setScope} />
+              )}
+
+              {(booking.status === "pending" || booking.status === "confirmed") && status === booking.status && (
+                <div>
+                  {!showReschedule ? (
+                    <Button type="button" variant="outline" size="sm" onClick={() => setShowReschedule(true)}>
+                      Termin verschieben
+                    </Button>
+                  ) : (
+                    <div className="space-y-3 rounded-lg border border-[var(--color-border)] p-3">
+                      <div className="grid gap-3 sm:grid-cols-3">
+                        <Input
+                          label="Datum"
+                          type="date"
+                          value={reschedule.booking_date}
+                          onChange={(e) => setReschedule((r) => ({ ...r, booking_date: e.target.value }))}
+                        />
+                        <Input
+                          label="Von"
+                          type="time"
+                          value={reschedule.start_time}
+                          onChange={(e) => setReschedule((r) => ({ ...r, start_time: e.target.value }))}
+                        />
+                        <Input
+                          label="Bis"
+                          type="time"
+                          value={reschedule.end_time}
+                          onChange={(e) => setReschedule((r) => ({ ...r, end_time: e.target.value }))}
+                        />
+                      </div>
+                      <SeriesConflictList conflicts={conflicts} />
+                      <div className="flex gap-2">
+                        <Button type="button" size="sm" onClick={handleReschedule} isLoading={saving}>
+                          Verschieben
+                        </Button>
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => {
+                            setShowReschedule(false);
+                            setConflicts([]);
+                          }}
+                          disabled={saving}
+                        >
+                          Abbrechen
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+
               {booking?.status === "cancelled" && status !== "cancelled" && (
                 <p className="text-sm text-[var(--color-accent)] bg-[var(--color-accent)]/10 rounded-lg px-3 py-2">
                   Stornierung aufheben – die Buchung wird reaktiviert. Bitte Grund angeben (z. B. Kunde kommt doch).
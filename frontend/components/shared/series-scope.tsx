@@ -0,0 +1,57 @@
+import type { SeriesConflict, SeriesScope } from "@/lib/types";
+import { formatDateDisplay } from "@/lib/utils/date";
+
+/** Auswahl bei Serienterminen: nur dieser Termin oder dieser und alle folgenden. */
+export function SeriesScopeChoice({
+  name,
+  value,
+  onChange,
+}: {
+  name: string;
+  value: SeriesScope;
+  onChange: (scope: SeriesScope) => void;
+}) {
+  const options: { value: SeriesScope; label: string }[] = [
+    { value: "single", label: "Nur dieser Termin" },
+    { value: "following", label: "Dieser und alle folgenden Termine" },
+  ];
+  return (
+    <div className="flex flex-col gap-2">
+      {options.map((o) => (
+        <label key={o.value} className="flex items-center gap-2">
+          <input
+            type="radio"
+            name={name}
+            checked={value === o.value}
+            onChange={() => onChange(o.value)}
+            className="h-4 w-4 border-[var(--color-border)] text-[var(--color-accent)] focus:ring-[var(--color-accent)]"
+          />
+          <span className="text-sm text-[var(--color-text)]">{o.label}</span>
+        </label>
+      ))}
+    </div>
+  );
+}
+
+/** Konflikte pro Serientermin aus einem API-Fehler (409) lesen; leer wenn keine vorhanden. */
+export function getSeriesConflicts(error: unknown): SeriesConflict[] {
+  const data = (error as Error & { data?: unknown })?.data;
+  return Array.isArray(data) ? (data as SeriesConflict[]) : [];
+}
+
+/** Liste der nicht verfügbaren Serientermine mit Grund. */
+export function SeriesConflictList({ conflicts }: { conflicts: SeriesConflict[] }) {
+  if (conflicts.length === 0) return null;
+  return (
+    <div className="rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900">
+      <p className="font-medium">Folgende Termine sind nicht verfügbar:</p>
+      <ul className="mt-1 list-inside list-disc">
+        {conflicts.map((c) => (
+          <li key={c.booking_date}>
+            {formatDateDisplay(c.booking_date)}: {c.errors.join(" ")}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import Link from "next/link";
+import type { StaffScheduleConflict } from "@/lib/types";
+import { formatDateDisplay } from "@/lib/utils/date";
+
+/** Warnung: offene Termine, die nach Abwesenheit/Schichtänderung außerhalb der Arbeitszeit liegen. */
+export function StaffScheduleConflictList({
+  conflicts,
+  title = "Diese Termine liegen außerhalb der Arbeitszeit:",
+}: {
+  conflicts: StaffScheduleConflict[];
+  title?: string;
+}) {
+  if (conflicts.length === 0) return null;
+  return (
+    <div className="rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900">
+      <p className="font-medium">{title}</p>
+      <ul className="mt-1 list-inside list-disc">
+        {conflicts.map((c) => (
+          <li key={c.booking_id}>
+            {formatDateDisplay(c.booking_date)}, {c.start_time}–{c.end_time} · {c.staff_member_name} ·{" "}
+            {c.customer_name} ({c.service_name}){" "}
+            <Link href={`/owner/bookings/${c.booking_id}`} className="underline hover:no-underline">
+              Öffnen
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
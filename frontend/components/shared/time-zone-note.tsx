@@ -0,0 +1,30 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { differsFromBrowserTimeZone } from "@/lib/utils/date";
+
+/**
+ * Hinweis, dass alle Zeiten Ortszeit des Venues sind – nur sichtbar,
+ * wenn der Browser in einer anderen Zeitzone ist (nach dem Mount, kein Hydration-Mismatch).
+ */
+export function TimeZoneNote({
+  timeZone,
+  className = "",
+}: {
+  timeZone?: string | null;
+  className?: string;
+}) {
+  const [show, setShow] = useState(false);
+
+  useEffect(() => {
+    setShow(differsFromBrowserTimeZone(timeZone));
+  }, [timeZone]);
+
+  if (!show || !timeZone) return null;
+
+  return (
+    <p className={`text-xs text-[var(--color-muted)] ${className}`}>
+      Alle Zeiten in Ortszeit ({timeZone.replace(/_/g, " ")}).
+    </p>
+  );
+}
@@ -1,17 +1,18 @@
 import { apiClient } from './client';
-import { DayAvailability } from '@/lib/types';
+import { DayAvailability, MonthAvailability, NextAvailableSlot, ServiceChainSlot } from '@/lib/types';
 
 /**
  * Lädt verfügbare Zeitslots für einen Tag.
  * Backend: GET /availability/slots?venueId=&serviceId=&date=&partySize=&timeWindowStart=&timeWindowEnd=
  * partySize: bei Restaurants nur Slots mit remaining_capacity >= partySize.
  * timeWindowStart/End: optional (HH:MM), z.B. 18:00–20:00 für Suche "ca. 19:00".
+ * anyStaff: "egal wer" – eine Liste über alle Mitarbeiter, der Mitarbeiter wird beim Buchen vergeben.
  */
 export async function getAvailableSlots(
   venueId: number,
   serviceId: number,
   date: string,
-  options?: { staffMemberId?: number; partySize?: number; timeWindowStart?: string; timeWindowEnd?: string; excludeBookingId?: number }
+  options?: { staffMemberId?: number; partySize?: number; timeWindowStart?: string; timeWindowEnd?: string; excludeBookingId?: number; anyStaff?: boolean }
 ): Promise<DayAvailability> {
   const params = new URLSearchParams({
     venueId: venueId.toString(),
@@ -29,6 +30,7 @@ export async function getAvailableSlots(
   if (options?.excludeBookingId != null) {
     params.append('excludeBookingId', options.excludeBookingId.toString());
   }
+  if (options?.anyStaff) params.append('anyStaff', 'true');
   const result = await apiClient<DayAvailability>(
     `/availability/slots?${params.toString()}`
   );
@@ -37,3 +39,85 @@ export async function getAvailableSlots(
   }
   return result.data;
 }
+
+/**
+ * Lädt mögliche Startzeiten für mehrere Leistungen nacheinander (z. B. Schnitt + Farbe + Föhnen).
+ * Backend: GET /availability/chain?venueId=&serviceIds=1,2,3&date=&partySize=
+ * Jeder Slot enthält die geplanten Schritte inkl. Mitarbeiter und Preis.
+ */
+export async function getServiceChainSlots(
+  venueId: number,
+  serviceIds: number[],
+  date: string,
+  partySize?: number
+): Promise<ServiceChainSlot[]> {
+  const params = new URLSearchParams({
+    venueId: venueId.toString(),
+    serviceIds: serviceIds.join(','),
+    date,
+  });
+  if (partySize != null && partySize >= 1) {
+    params.append('partySize', partySize.toString());
+  }
+  const result = await apiClient<ServiceChainSlot[]>(
+    `/availability/chain?${params.toString()}`
+  );
+  if (!result.success || result.data == null) {
+    throw new Error(result.message ?? 'Zeitslots konnten nicht geladen werden');
+  }
+  return result.data;
+}
+
+/**
+ * Lädt den Monatsüberblick: je Tag geschlossen, ausgebucht oder Anzahl freier Startzeiten.
+ * Backend: GET /availability/month?venueId=&serviceId=&month=YYYY-MM&partySize=
+ */
+export async function getMonthAvailability(
+  venueId: number,
+  serviceId: number,
+  month: string,
+  partySize?: number
+): Promise<MonthAvailability> {
+  const params = new URLSearchParams({
+    venueId: venueId.toString(),
+    serviceId: serviceId.toString(),
+    month,
+  });
+  if (partySize != null && partySize >= 1) {
+    params.append('partySize', partySize.toString());
+  }
+  const result = await apiClient<MonthAvailability>(
+    `/availability/month?${params.toString()}`
+  );
+  if (!result.success || result.data == null) {
+    throw new Error(result.message ?? 'Verfügbarkeit konnte nicht geladen werden');
+  }
+  return result.data;
+}
+
+/**
+ * Lädt die frühesten buchbaren Slots (leeres Array = im buchbaren Zeitraum nichts frei).
+ * Backend: GET /availability/next?venueId=&serviceId=&partySize=&from=&limit=
+ */
+export async function getNextAvailableSlots(
+  venueId: number,
+  serviceId: number,
+  options?: { partySize?: number; from?: string; limit?: number }
+): Promise<NextAvailableSlot[]> {
+  const params = new URLSearchParams({
+    venueId: venueId.toString(),
+    serviceId: serviceId.toString(),
+  });
+  if (options?.partySize != null && options.partySize >= 1) {
+    params.append('partySize', options.partySize.toString());
+  }
+  if (options?.from) params.append('from', options.from);
+  if (options?.limit != null) params.append('limit', options.limit.toString());
+  const result = await apiClient<NextAvailableSlot[]>(
+    `/availability/next?${params.toString()}`
+  );
+  if (!result.success || result.data == null) {
+    throw new Error(result.message ?? 'Nächster freier Termin konnte nicht gefunden werden');
+  }
+  return result.data;
+}
@@ -1,5 +1,13 @@
 import { apiClient } from "./client";
-import { Booking, CreateBookingData } from "../types";
+import {
+  Booking,
+  BookingSeriesResult,
+  CreateBookingData,
+  CreateBookingSeriesData,
+  CreateSlotHoldData,
+  SeriesScope,
+  SlotHold,
+} from "../types";
 
 export async function createBooking(data: CreateBookingData) {
   return apiClient<Booking>('/bookings', {
@@ -8,6 +16,28 @@ export async function createBooking(data: CreateBookingData) {
   });
 }
 
+/** Terminserie anlegen; bei 409 enthält der Fehler (err.data) die Konflikte pro Termin */
+export async function createBookingSeries(data: CreateBookingSeriesData) {
+  return apiClient<BookingSeriesResult>('/bookings/series', {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
+}
+
+/** Gewählten Slot während des Checkouts reservieren; hold_token beim Buchen mitschicken */
+export async function createSlotHold(data: CreateSlotHoldData) {
+  return apiClient<SlotHold>('/holds', {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
+}
+
+export async function releaseSlotHold(holdToken: string) {
+  return apiClient<void>(`/holds/${holdToken}`, {
+    method: 'DELETE',
+  });
+}
+
 export async function getBookingByToken(token: string) {
   return apiClient<Booking>(`/bookings/manage/${token}`);
 }
@@ -21,16 +51,17 @@ export type UpdateBookingData = Partial<{
   special_requests: string;
 }>;
 
-export async function updateBooking(token: string, data: UpdateBookingData) {
+/** scope: bei Serienterminen "following" = dieser und alle folgenden Termine */
+export async function updateBooking(token: string, data: UpdateBookingData, scope?: SeriesScope) {
   return apiClient<Booking>(`/bookings/manage/${token}`, {
     method: "PATCH",
-    body: JSON.stringify(data),
+    body: JSON.stringify({ ...data, scope }),
   });
 }
 
-export async function cancelBooking(token: string, reason?: string) {
+export async function cancelBooking(token: string, reason?: string, scope?: SeriesScope) {
   return apiClient<Booking>(`/bookings/manage/${token}/cancel`, {
     method: 'POST',
-    body: JSON.stringify({ reason: reason ?? undefined }),
+    body: JSON.stringify({ reason: reason ?? undefined, scope }),
   });
 }
\ No newline at end of file
@@ -34,8 +34,9 @@ export async function apiClient<T>(
         if (!response.ok)
         {
             const message = (data && typeof data.message === 'string') ? data.message : 'API request failed';
-            const err = new Error(message) as Error & { status?: number };
+            const err = new Error(message) as Error & { status?: number; data?: unknown };
             err.status = response.status;
+            err.data = data?.data;   // z. B. Konflikte pro Serientermin (409)
             throw err;
         }
 
@@ -0,0 +1,10 @@
+import { apiClient } from "./client";
+import { CreateGroupRequestData, GroupRequest } from "../types";
+
+/** Gruppenanfrage senden (mehr Personen als online buchbar). Backend: POST /group-requests */
+export async function createGroupRequest(data: CreateGroupRequestData) {
+  return apiClient<GroupRequest>("/group-requests", {
+    method: "POST",
+    body: JSON.stringify(data),
+  });
+}
@@ -3,10 +3,37 @@ import type {
   BookingWithDetails,
   BookingAuditLogEntry,
   Service,
+  ServiceDurationRule,
   AvailabilityRule,
+  AvailabilityRuleSet,
+  AvailabilitySchedule,
+  AvailabilityExplanation,
+  AvailabilityException,
+  StaffScheduleOverride,
+  StaffScheduleOverrideType,
+  StaffScheduleOverrideResult,
+  StaffScheduleConflict,
+  ExternalCalendar,
+  ExternalCalendarImportResult,
+  VenueTable,
+  Resource,
+  ServiceResourceRequirement,
+  StaffServiceLink,
+  PacingRule,
   CreateBookingData,
   Booking,
   Venue,
+  StaffMember,
+  CalendarFeed,
+  StaffAssignmentStrategy,
+  OverbookingMode,
+  OverbookingOverview,
+  WaitlistEntry,
+  WaitlistStatus,
+  GroupRequest,
+  GroupRequestStatus,
+  AcceptGroupRequestData,
+  SeriesScope,
 } from "@/lib/types";
 import { NETWORK_ERROR_MESSAGE, isNetworkError } from "./client";
 
@@ -37,9 +64,11 @@ async function ownerApiClient<T>(
     const data = await response.json().catch(() => ({}));
 
     if (!response.ok) {
-      throw new Error(
+      const err = new Error(
         data && typeof data.message === "string" ? data.message : "API request failed"
-      );
+      ) as Error & { data?: unknown };
+      err.data = data?.data;   // z. B. Konflikte pro Serientermin (409)
+      throw err;
     }
 
     return data;
@@ -104,17 +133,30 @@ export async function getBookingAuditLog(
 export async function updateBookingStatus(
   bookingId: number,
   status: string,
-  reason?: string
+  reason?: string,
+  scope?: SeriesScope
 ): Promise<{ success: boolean; data?: BookingWithDetails; message?: string }> {
   return ownerApiClient<BookingWithDetails>(
     `/owner/bookings/${bookingId}/status`,
     {
       method: "PATCH",
-      body: JSON.stringify({ status, reason }),
+      body: JSON.stringify({ status, reason, scope }),
     }
   );
 }
 
+/** Termin verschieben; bei Serien mit scope "following" auch alle folgenden Termine */
+export async function rescheduleBooking(
+  bookingId: number,
+  data: { booking_date?: string; start_time?: string; end_time?: string },
+  scope?: SeriesScope
+): Promise<{ success: boolean; data?: BookingWithDetails; message?: string }> {
+  return ownerApiClient<BookingWithDetails>(`/owner/bookings/${bookingId}`, {
+    method: "PATCH",
+    body: JSON.stringify({ ...data, scope }),
+  });
+}
+
 export async function getStats(): Promise<{
   success: boolean;
   data?: AdminStats;
@@ -138,6 +180,17 @@ export async function updateService(
     description?: string;
     duration_minutes?: number;
     price?: number;
+    buffer_before_minutes?: number;
+    buffer_after_minutes?: number;
+    slot_interval_minutes?: number | null;
+    min_party_size?: number | null;
+    max_party_size?: number | null;
+    overbooking_mode?: OverbookingMode | null;
+    overbooking_value?: number | null;
+    overbooking_cap?: number | null;
+    duration_rules?: ServiceDurationRule[];
+    resources?: ServiceResourceRequirement[];
+    staff?: StaffServiceLink[];
     is_active?: boolean;
   }
 ): Promise<{ success: boolean; data?: Service; message?: string }> {
@@ -155,6 +208,82 @@ export async function getAvailabilityRules(): Promise<{
   return ownerApiClient<AvailabilityRule[]>("/owner/availability");
 }
 
+export async function createAvailabilityRule(data: {
+  day_of_week: number;
+  start_time: string;
+  end_time: string;
+  staff_member_id?: number | null;
+  rule_set_id?: number | null;
+}): Promise<{ success: boolean; data?: AvailabilityRule; message?: string }> {
+  return ownerApiClient<AvailabilityRule>("/owner/availability", {
+    method: "POST",
+    body: JSON.stringify(data),
+  });
+}
+
+export async function getAvailabilitySchedule(date: string): Promise<{
+  success: boolean;
+  data?: AvailabilitySchedule;
+  message?: string;
+}> {
+  return ownerApiClient<AvailabilitySchedule>(`/owner/availability/schedule?date=${date}`);
+}
+
+/** Diagnose: alle Startzeiten eines Tages mit den Gründen, warum sie (nicht) buchbar sind */
+export async function explainAvailability(params: {
+  date: string;
+  service_id: number;
+  staff_member_id?: number | null;
+  party_size?: number;
+}): Promise<{ success: boolean; data?: AvailabilityExplanation; message?: string }> {
+  const search = new URLSearchParams({ date: params.date, service_id: String(params.service_id) });
+  if (params.staff_member_id) search.set("staff_member_id", String(params.staff_member_id));
+  if (params.party_size) search.set("party_size", String(params.party_size));
+  return ownerApiClient<AvailabilityExplanation>(`/owner/availability/explain?${search.toString()}`);
+}
+
+export async function getAvailabilityRuleSets(): Promise<{
+  success: boolean;
+  data?: AvailabilityRuleSet[];
+  message?: string;
+}> {
+  return ownerApiClient<AvailabilityRuleSet[]>("/owner/availability/rule-sets");
+}
+
+export async function createAvailabilityRuleSet(data: {
+  name: string;
+  valid_from?: string | null;
+  valid_until?: string | null;
+}): Promise<{ success: boolean; data?: AvailabilityRuleSet; message?: string }> {
+  return ownerApiClient<AvailabilityRuleSet>("/owner/availability/rule-sets", {
+    method: "POST",
+    body: JSON.stringify(data),
+  });
+}
+
+export async function updateAvailabilityRuleSet(
+  ruleSetId: number,
+  updates: {
+    name?: string;
+    valid_from?: string | null;
+    valid_until?: string | null;
+    is_active?: boolean;
+  }
+): Promise<{ success: boolean; message?: string }> {
+  return ownerApiClient(`/owner/availability/rule-sets/${ruleSetId}`, {
+    method: "PATCH",
+    body: JSON.stringify(updates),
+  });
+}
+
+export async function deleteAvailabilityRuleSet(
+  ruleSetId: number
+): Promise<{ success: boolean; message?: string }> {
+  return ownerApiClient(`/owner/availability/rule-sets/${ruleSetId}`, {
+    method: "DELETE",
+  });
+}
+
 export async function updateAvailabilityRule(
   ruleId: number,
   updates: {
@@ -169,6 +298,399 @@ export async function updateAvailabilityRule(
   });
 }
 
+export async function getAvailabilityExceptions(filters?: {
+  from?: string;
+  to?: string;
+}): Promise<{
+  success: boolean;
+  data?: AvailabilityException[];
+  message?: string;
+}> {
+  const params = new URLSearchParams();
+  if (filters?.from) params.append("from", filters.from);
+  if (filters?.to) params.append("to", filters.to);
+  const queryString = params.toString();
+  return ownerApiClient<AvailabilityException[]>(
+    `/owner/availability/exceptions${queryString ? `?${queryString}` : ""}`
+  );
+}
+
+export async function createAvailabilityException(data: {
+  staff_member_id?: number | null;
+  date: string;
+  start_time?: string | null;
+  end_time?: string | null;
+  is_available: boolean;
+  reason?: string | null;
+}): Promise<{ success: boolean; data?: AvailabilityException; message?: string }> {
+  return ownerApiClient<AvailabilityException>("/owner/availability/exceptions", {
+    method: "POST",
+    body: JSON.stringify(data),
+  });
+}
+
+export async function updateAvailabilityException(
+  exceptionId: number,
+  updates: {
+    date?: string;
+    start_time?: string | null;
+    end_time?: string | null;
+    is_available?: boolean;
+    reason?: string | null;
+  }
+): Promise<{ success: boolean; message?: string }> {
+  return ownerApiClient(`/owner/availability/exceptions/${exceptionId}`, {
+    method: "PATCH",
+    body: JSON.stringify(updates),
+  });
+}
+
+export async function deleteAvailabilityException(
+  exceptionId: number
+): Promise<{ success: boolean; message?: string }> {
+  return ownerApiClient(`/owner/availability/exceptions/${exceptionId}`, {
+    method: "DELETE",
+  });
+}
+
+export async function getStaffScheduleOverrides(filters?: {
+  from?: string;
+  to?: string;
+  staff_member_id?: number;
+}): Promise<{
+  success: boolean;
+  data?: StaffScheduleOverride[];
+  message?: string;
+}> {
+  const params = new URLSearchParams();
+  if (filters?.from) params.append("from", filters.from);
+  if (filters?.to) params.append("to", filters.to);
+  if (filters?.staff_member_id) params.append("staff_member_id", String(filters.staff_member_id));
+  const queryString = params.toString();
+  return ownerApiClient<StaffScheduleOverride[]>(
+    `/owner/staff-schedule${queryString ? `?${queryString}` : ""}`
+  );
+}
+
+export async function getStaffScheduleConflicts(
+  from: string,
+  to: string
+): Promise<{ success: boolean; data?: StaffScheduleConflict[]; message?: string }> {
+  const params = new URLSearchParams({ from, to });
+  return ownerApiClient<StaffScheduleConflict[]>(`/owner/staff-schedule/conflicts?${params.toString()}`);
+}
+
+export async function createStaffScheduleOverride(data: {
+  staff_member_id: number;
+  type: StaffScheduleOverrideType;
+  start_date: string;
+  end_date?: string;
+  start_time?: string | null;
+  end_time?: string | null;
+  reason?: string | null;
+}): Promise<{ success: boolean; data?: StaffScheduleOverrideResult; message?: string }> {
+  return ownerApiClient<StaffScheduleOverrideResult>("/owner/staff-schedule", {
+    method: "POST",
+    body: JSON.stringify(data),
+  });
+}
+
+export async function updateStaffScheduleOverride(
+  overrideId: number,
+  updates: {
+    type?: StaffScheduleOverrideType;
+    start_date?: string;
+    end_date?: string;
+    start_time?: string | null;
+    end_time?: string | null;
+    reason?: string | null;
+  }
+): Promise<{ success: boolean; data?: StaffScheduleOverrideResult; message?: string }> {
+  return ownerApiClient<StaffScheduleOverrideResult>(`/owner/staff-schedule/${overrideId}`, {
+    method: "PATCH",
+    body: JSON.stringify(updates),
+  });
+}
+
+export async function deleteStaffScheduleOverride(
+  overrideId: number
+): Promise<{ success: boolean; message?: string }> {
+  return ownerApiClient(`/owner/staff-schedule/${overrideId}`, {
+    method: "DELETE",
+  });
+}
+
+export async function getExternalCalendars(): Promise<{
+  success: boolean;
+  data?: ExternalCalendar[];
+  message?: string;
+}> {
+  return ownerApiClient<ExternalCalendar[]>("/owner/external-calendars");
+}
+
+/** Feed-URL eines externen Kalenders hinterlegen (wird sofort und danach regelmäßig eingelesen) */
+export async function createExternalCalendar(data: {
+  staff_member_id: number;
+  name?: string;
+  url: string;
+}): Promise<{ success: boolean; data?: ExternalCalendarImportResult; message?: string }> {
+  return ownerApiClient<ExternalCalendarImportResult>("/owner/external-calendars", {
+    method: "POST",
+    body: JSON.stringify(data),
+  });
+}
+
+/** ICS-Datei eines Mitarbeiters hochladen */
+export async function uploadExternalCalendar(
+  staffMemberId: number,
+  name: string,
+  content: string
+): Promise<{ success: boolean; data?: ExternalCalendarImportResult; message?: string }> {
+  const params = new URLSearchParams({ staff_member_id: String(staffMemberId), name });
+  return ownerApiClient<ExternalCalendarImportResult>(`/owner/external-calendars/upload?${params.toString()}`, {
+    method: "POST",
+    headers: { "Content-Type": "text/calendar" },
+    body: content,
+  });
+}
+
+/** Neu einlesen: Feed-URL erneut abrufen bzw. hochgeladenen Kalender durch eine neue Datei (content) ersetzen */
+export async function syncExternalCalendar(
+  calendarId: number,
+  content?: string
+): Promise<{ success: boolean; data?: ExternalCalendarImportResult; message?: string }> {
+  return ownerApiClient<ExternalCalendarImportResult>(`/owner/external-calendars/${calendarId}/sync`, {
+    method: "POST",
+    ...(content !== undefined && { headers: { "Content-Type": "text/calendar" }, body: content }),
+  });
+}
+
+export async function deleteExternalCalendar(
+  calendarId: number
+): Promise<{ success: boolean; message?: string }> {
+  return ownerApiClient(`/owner/external-calendars/${calendarId}`, {
+    method: "DELETE",
+  });
+}
+
+export async function getTables(): Promise<{
+  success: boolean;
+  data?: VenueTable[];
+  message?: string;
+}> {
+  return ownerApiClient<VenueTable[]>("/owner/tables");
+}
+
+export async function createTable(data: {
+  name: string;
+  area?: string | null;
+  min_seats?: number;
+  max_seats: number;
+  combine_group?: string | null;
+}): Promise<{ success: boolean; data?: VenueTable; message?: string }> {
+  return ownerApiClient<VenueTable>("/owner/tables", {
+    method: "POST",
+    body: JSON.stringify(data),
+  });
+}
+
+export async function updateTable(
+  tableId: number,
+  updates: {
+    name?: string;
+    area?: string | null;
+    min_seats?: number;
+    max_seats?: number;
+    combine_group?: string | null;
+    is_active?: boolean;
+  }
+): Promise<{ success: boolean; message?: string }> {
+  return ownerApiClient(`/owner/tables/${tableId}`, {
+    method: "PATCH",
+    body: JSON.stringify(updates),
+  });
+}
+
+export async function deleteTable(
+  tableId: number
+): Promise<{ success: boolean; message?: string }> {
+  return ownerApiClient(`/owner/tables/${tableId}`, {
+    method: "DELETE",
+  });
+}
+
+export async function getResources(): Promise<{
+  success: boolean;
+  data?: Resource[];
+  message?: string;
+}> {
+  return ownerApiClient<Resource[]>("/owner/resources");
+}
+
+export async function createResource(data: {
+  name: string;
+  quantity?: number;
+}): Promise<{ success: boolean; data?: Resource; message?: string }> {
+  return ownerApiClient<Resource>("/owner/resources", {
+    method: "POST",
+    body: JSON.stringify(data),
+  });
+}
+
+export async function updateResource(
+  resourceId: number,
+  updates: {
+    name?: string;
+    quantity?: number;
+    is_active?: boolean;
+  }
+): Promise<{ success: boolean; message?: string }> {
+  return ownerApiClient(`/owner/resources/${resourceId}`, {
+    method: "PATCH",
+    body: JSON.stringify(updates),
+  });
+}
+
+export async function deleteResource(
+  resourceId: number
+): Promise<{ success: boolean; message?: string }> {
+  return ownerApiClient(`/owner/resources/${resourceId}`, {
+    method: "DELETE",
+  });
+}
+
+export async function getPacingRules(): Promise<{
+  success: boolean;
+  data?: PacingRule[];
+  message?: string;
+}> {
+  return ownerApiClient<PacingRule[]>("/owner/pacing-rules");
+}
+
+export async function createPacingRule(data: {
+  name: string;
+  day_of_week?: number | null;
+  start_time: string;
+  end_time: string;
+  interval_minutes?: number;
+  max_covers?: number | null;
+  max_parties?: number | null;
+}): Promise<{ success: boolean; data?: PacingRule; message?: string }> {
+  return ownerApiClient<PacingRule>("/owner/pacing-rules", {
+    method: "POST",
+    body: JSON.stringify(data),
+  });
+}
+
+export async function updatePacingRule(
+  ruleId: number,
+  updates: {
+    name?: string;
+    day_of_week?: number | null;
+    start_time?: string;
+    end_time?: string;
+    interval_minutes?: number;
+    max_covers?: number | null;
+    max_parties?: number | null;
+    is_active?: boolean;
+  }
+): Promise<{ success: boolean; message?: string }> {
+  return ownerApiClient(`/owner/pacing-rules/${ruleId}`, {
+    method: "PATCH",
+    body: JSON.stringify(updates),
+  });
+}
+
+export async function deletePacingRule(
+  ruleId: number
+): Promise<{ success: boolean; message?: string }> {
+  return ownerApiClient(`/owner/pacing-rules/${ruleId}`, {
+    method: "DELETE",
+  });
+}
+
+export async function getStaffMembers(): Promise<{
+  success: boolean;
+  data?: StaffMember[];
+  message?: string;
+}> {
+  return ownerApiClient<StaffMember[]>("/owner/staff");
+}
+
+export async function updateStaffPriority(
+  staffMemberId: number,
+  assignmentPriority: number
+): Promise<{ success: boolean; message?: string }> {
+  return ownerApiClient(`/owner/staff/${staffMemberId}`, {
+    method: "PATCH",
+    body: JSON.stringify({ assignment_priority: assignmentPriority }),
+  });
+}
+
+export async function getCalendarFeeds(): Promise<{
+  success: boolean;
+  data?: CalendarFeed[];
+  message?: string;
+}> {
+  return ownerApiClient<CalendarFeed[]>("/owner/calendar-feeds");
+}
+
+/** Neue Feed-URL erzeugen (staffMemberId null = Feed des Venues); die bisherige URL wird ungültig */
+export async function regenerateCalendarFeed(staffMemberId: number | null): Promise<{
+  success: boolean;
+  data?: CalendarFeed;
+  message?: string;
+}> {
+  const path = staffMemberId === null
+    ? "/owner/calendar-feeds/venue/regenerate"
+    : `/owner/calendar-feeds/staff/${staffMemberId}/regenerate`;
+  return ownerApiClient<CalendarFeed>(path, { method: "POST" });
+}
+
+export async function getWaitlist(params?: {
+  date?: string;
+  status?: WaitlistStatus;
+}): Promise<{ success: boolean; data?: WaitlistEntry[]; message?: string }> {
+  const search = new URLSearchParams();
+  if (params?.date) search.set("date", params.date);
+  if (params?.status) search.set("status", params.status);
+  const q = search.toString();
+  return ownerApiClient<WaitlistEntry[]>(`/owner/waitlist${q ? `?${q}` : ""}`);
+}
+
+export async function cancelWaitlistEntry(
+  entryId: number
+): Promise<{ success: boolean; message?: string }> {
+  return ownerApiClient(`/owner/waitlist/${entryId}`, { method: "DELETE" });
+}
+
+export async function getGroupRequests(params?: {
+  status?: GroupRequestStatus;
+}): Promise<{ success: boolean; data?: GroupRequest[]; message?: string }> {
+  const q = params?.status ? `?status=${params.status}` : "";
+  return ownerApiClient<GroupRequest[]>(`/owner/group-requests${q}`);
+}
+
+export async function acceptGroupRequest(
+  requestId: number,
+  data: AcceptGroupRequestData
+): Promise<{ success: boolean; data?: Booking; message?: string }> {
+  return ownerApiClient<Booking>(`/owner/group-requests/${requestId}/accept`, {
+    method: "POST",
+    body: JSON.stringify(data),
+  });
+}
+
+export async function declineGroupRequest(
+  requestId: number,
+  reason?: string
+): Promise<{ success: boolean; message?: string }> {
+  return ownerApiClient(`/owner/group-requests/${requestId}/decline`, {
+    method: "POST",
+    body: JSON.stringify({ reason }),
+  });
+}
+
 export async function createManualBooking(
   bookingData: Omit<CreateBookingData, "venue_id">
 ): Promise<{ success: boolean; data?: Booking; message?: string }> {
@@ -186,10 +708,26 @@ export async function getVenueSettings(): Promise<{
   return ownerApiClient<Venue>("/owner/venue/settings");
 }
 
+export async function getOverbookingOverview(
+  from: string,
+  to: string
+): Promise<{ success: boolean; data?: OverbookingOverview; message?: string }> {
+  const params = new URLSearchParams({ from, to });
+  return ownerApiClient<OverbookingOverview>(`/owner/overbooking?${params.toString()}`);
+}
+
 export async function updateVenueSettings(updates: {
   booking_advance_hours?: number;
   cancellation_hours?: number;
+  slot_interval_minutes?: number | null;
+  staff_assignment_strategy?: StaffAssignmentStrategy;
   image_url?: string | null;
+  timezone?: string;
+  min_party_size?: number;
+  max_party_size?: number;
+  overbooking_mode?: OverbookingMode;
+  overbooking_value?: number;
+  overbooking_cap?: number;
 }): Promise<{ success: boolean; message?: string }> {
   return ownerApiClient("/owner/venue/settings", {
     method: "PATCH",
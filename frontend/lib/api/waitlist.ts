@@ -0,0 +1,20 @@
+import { apiClient } from "./client";
+import { Booking, CreateWaitlistData, WaitlistEntry } from "../types";
+
+/** Auf die Warteliste eintragen (Tag ausgebucht). Backend: POST /waitlist */
+export async function joinWaitlist(data: CreateWaitlistData) {
+  return apiClient<WaitlistEntry>("/waitlist", {
+    method: "POST",
+    body: JSON.stringify(data),
+  });
+}
+
+/** Angebot zum Einlöse-Link aus der E-Mail. Backend: GET /waitlist/claim/:token */
+export async function getWaitlistOffer(token: string) {
+  return apiClient<WaitlistEntry>(`/waitlist/claim/${token}`);
+}
+
+/** Angebot einlösen – legt die Buchung an. Backend: POST /waitlist/claim/:token */
+export async function claimWaitlistOffer(token: string) {
+  return apiClient<Booking>(`/waitlist/claim/${token}`, { method: "POST" });
+}
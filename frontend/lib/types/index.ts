@@ -1,4 +1,11 @@
 // lib/types/index.ts
+
+/** Wie bei "egal wer" ein Mitarbeiter vergeben wird */
+export type StaffAssignmentStrategy = 'round_robin' | 'least_booked' | 'priority';
+
+/** Überbuchung kapazitätsbasierter Leistungen: aus, feste Zahl oder aus der No-Show-Quote */
+export type OverbookingMode = 'off' | 'fixed' | 'no_show_rate';
+
 export interface Venue 
 {
     id: number;
@@ -10,12 +17,17 @@ export interface Venue
     city?: string;
     postal_code?: string;
     country: string;
+    timezone: string;                      // IANA-Zeitzone (z.B. Europe/Berlin); alle Termine sind Ortszeit des Venues
     description?: string;
     image_url?: string;
     website_url?: string;
     booking_advance_days: number;
     booking_advance_hours: number;         // Mindestvorlaufzeit für Kundenbuchungen (z.B. 48 Stunden)
     cancellation_hours: number;
+    slot_interval_minutes?: number | null; // Raster für Slot-Startzeiten; null = Dauer der Leistung
+    staff_assignment_strategy?: StaffAssignmentStrategy;  // Mitarbeiterwahl bei "egal wer"
+    min_party_size?: number;               // Online buchbare Personenzahl (darüber: Gruppenanfrage)
+    max_party_size?: number;
     require_phone: boolean;
     require_deposit: boolean;
     deposit_amount?: number;
@@ -32,13 +44,47 @@ export interface Service
     description?: string;
     duration_minutes: number;
     price?: number;
+    /** Öffentliche Ansicht: günstigster Preis über alle Mitarbeiter (abweichende Preise je Mitarbeiter) */
+    price_from?: number | null;
     capacity: number;
     requires_staff: boolean;
+    /** Nur im Owner-Bereich: Puffer vor/nach dem Termin (blockiert, aber nicht Teil der Kundenzeit) */
+    buffer_before_minutes?: number;
+    buffer_after_minutes?: number;
+    slot_interval_minutes?: number | null;
+    /** Personenzahl-Grenzen der Leistung; null = Grenzen des Venues */
+    min_party_size?: number | null;
+    max_party_size?: number | null;
+    /** Nur im Owner-Bereich: Überbuchung der Leistung; null = Einstellung des Venues */
+    overbooking_mode?: OverbookingMode | null;
+    overbooking_value?: number | null;
+    overbooking_cap?: number | null;
+    /** Nur im Owner-Bereich: Dauer je Personenzahl-Bereich (ohne passende Regel gilt duration_minutes) */
+    duration_rules?: ServiceDurationRule[];
+    /** Nur im Owner-Bereich: benötigte Ressourcen (z. B. Paarraum) */
+    resources?: ServiceResourceRequirement[];
+    /** Nur im Owner-Bereich: Mitarbeiter, die die Leistung anbieten, mit abweichender Dauer/Preis */
+    staff?: StaffServiceLink[];
     is_active: boolean;
     created_at: Date;
     updated_at: Date;
 }
 
+/** Abweichende Dauer/Preis eines Mitarbeiters für eine Leistung; null = Wert der Leistung */
+export interface StaffServiceLink {
+    staff_member_id: number;
+    staff_member_name?: string;
+    duration_minutes: number | null;
+    price: number | null;
+}
+
+export interface ServiceDurationRule {
+    id?: number;
+    min_party_size: number;
+    max_party_size: number | null;
+    duration_minutes: number;
+}
+
 export interface StaffMember 
 {
     id: number;
@@ -47,11 +93,19 @@ export interface StaffMember
     email?: string;
     phone?: string;
     description?: string;
+    assignment_priority?: number;     // Höher = wird bei Strategie 'priority' zuerst vergeben
     is_active: boolean;
     created_at: Date;
     updated_at: Date;
 }
 
+/** Abonnierbarer Kalender-Feed (ICS) des Venues oder eines Mitarbeiters; der token ist Teil der geheimen Feed-URL */
+export interface CalendarFeed {
+    staff_member_id: number | null;     // null = Feed des ganzen Venues
+    staff_member_name: string | null;
+    token: string;
+}
+
 export interface OpeningHoursSlot {
   day_of_week: number;
   start_time: string;
@@ -80,6 +134,66 @@ export interface DayAvailability
     time_slots: TimeSlot[];
 }
 
+/** Geplanter Schritt bzw. gespeicherte Leistung einer Buchung mit mehreren Leistungen */
+export interface BookingItem
+{
+    id?: number;
+    position: number;
+    service_id: number;
+    service_name?: string;
+    staff_member_id?: number | null;
+    staff_member_name?: string | null;
+    start_time: string;
+    end_time: string;
+    duration_minutes: number;
+    price?: number | null;
+}
+
+/** Möglicher Start für mehrere Leistungen nacheinander */
+export interface ServiceChainSlot
+{
+    start_time: string;
+    end_time: string;
+    total_price: number;
+    items: BookingItem[];
+}
+
+/** Tagesstatus im Monatsüberblick: geschlossen/nicht buchbar, ausgebucht oder mit freien Startzeiten */
+export type MonthDayStatus = "closed" | "full" | "available";
+
+export interface MonthDayAvailability
+{
+    date: string;
+    day_of_week: number;
+    status: MonthDayStatus;
+    available_slots: number;
+}
+
+/** Monatsüberblick für den Buchungskalender */
+export interface MonthAvailability
+{
+    month: string;
+    service_id: number;
+    party_size: number;
+    first_available_date: string | null;
+    days: MonthDayAvailability[];
+}
+
+/** Frühester buchbarer Slot ab einem Datum */
+export interface NextAvailableSlot
+{
+    date: string;
+    start_time: string;
+    end_time: string;
+    remaining_capacity?: number;
+}
+
+export interface BookingServiceRequest
+{
+    service_id: number;
+    staff_member_id?: number;
+}
+
 export interface CreateBookingData
 {
     venue_id: number;
@@ -94,6 +208,10 @@ export interface CreateBookingData
     party_size: number;
     special_requests?: string;
     total_amount?: number;
+    /** Optional: mehrere Leistungen nacheinander (service_id/end_time ergeben sich dann aus der Kette) */
+    services?: BookingServiceRequest[];
+    /** Optional: Slot-Hold aus dem Checkout, wird beim Buchen eingelöst */
+    hold_token?: string;
 }
 
 export interface Booking extends CreateBookingData
@@ -111,9 +229,161 @@ export interface Booking extends CreateBookingData
     updated_at: Date;
     /** Vom Backend bei getBookingByToken geliefert */
     venue_name?: string | null;
+    /** Zeitzone des Venues – Datum/Uhrzeit der Buchung sind Ortszeit */
+    venue_timezone?: string | null;
     cancellation_hours?: number | null;
     service_name?: string | null;
     staff_member_name?: string | null;
+    /** Nur bei Buchungen mit mehreren Leistungen (Reihenfolge = Ablauf) */
+    items?: BookingItem[];
+    /** Nur bei Terminserien: Serie und Position (0 = erster Termin) */
+    series_id?: number | null;
+    series_index?: number | null;
+}
+
+/** Serientermin ändern/stornieren: nur dieser oder dieser und alle folgenden */
+export type SeriesScope = 'single' | 'following';
+
+/** Terminserie: Buchungsdaten des ersten Termins + Wiederholung alle N Wochen bis Enddatum oder Anzahl */
+export interface CreateBookingSeriesData extends Omit<CreateBookingData, 'services'>
+{
+    interval_weeks: number;
+    end_date?: string;
+    occurrence_count?: number;
+    /** true = nur die freien Termine buchen */
+    skip_conflicts?: boolean;
+}
+
+/** Termin einer Serie, der nicht verfügbar ist */
+export interface SeriesConflict
+{
+    booking_date: string;
+    booking_id?: number;
+    errors: string[];
+}
+
+export interface BookingSeriesResult
+{
+    series: { id: number; interval_weeks: number } | null;
+    bookings: Booking[];
+    conflicts: SeriesConflict[];
+}
+
+/** Eintrag auf der Warteliste für einen ausgebuchten Tag (optional mit Zeitfenster) */
+export type WaitlistStatus = 'waiting' | 'offered' | 'claiming' | 'booked' | 'expired' | 'cancelled';
+
+export interface WaitlistEntry
+{
+    id: number;
+    venue_id: number;
+    service_id: number;
+    customer_id?: number | null;
+    customer_name: string;
+    customer_email: string;
+    customer_phone?: string | null;
+    date: string;
+    time_from?: string | null;
+    time_to?: string | null;
+    party_size: number;
+    status: WaitlistStatus;
+    offered_start_time?: string | null;
+    offered_end_time?: string | null;
+    offer_expires_at?: string | null;
+    booking_id?: number | null;
+    created_at: string;
+    /** Vom Backend bei Owner-Liste und Angebot geliefert */
+    service_name?: string;
+    venue_name?: string;
+}
+
+export interface CreateWaitlistData
+{
+    venue_id: number;
+    service_id: number;
+    customer_name: string;
+    customer_email: string;
+    customer_phone?: string;
+    date: string;
+    time_from?: string;
+    time_to?: string;
+    party_size: number;
+}
+
+/** Vorläufige Reservierung eines Slots während des Checkouts */
+export interface SlotHold
+{
+    id: number;
+    hold_token: string;
+    venue_id: number;
+    service_id: number;
+    /** Bei "egal wer" der beim Halten vergebene Mitarbeiter */
+    staff_member_id?: number | null;
+    hold_date: string;
+    start_time: string;
+    end_time: string;
+    party_size: number;
+    expires_at: string;
+    /** Restlaufzeit in Sekunden (unabhängig von der Uhr des Geräts) */
+    expires_in_seconds?: number;
+    /** Preis für den gehaltenen Mitarbeiter (abweichender Preis oder Preis der Leistung) */
+    price?: number | null;
+}
+
+export interface CreateSlotHoldData
+{
+    venue_id: number;
+    service_id: number;
+    staff_member_id?: number;
+    date: string;
+    start_time: string;
+    end_time: string;
+    party_size: number;
+}
+
+/** Anfrage für eine Gruppe über der Online-Höchstzahl; der Owner nimmt sie mit einer Zeit an oder sagt ab */
+export type GroupRequestStatus = 'pending' | 'accepted' | 'declined';
+
+export interface GroupRequest
+{
+    id: number;
+    venue_id: number;
+    service_id?: number | null;
+    customer_name: string;
+    customer_email: string;
+    customer_phone?: string | null;
+    preferred_date: string;
+    preferred_time?: string | null;
+    party_size: number;
+    message?: string | null;
+    status: GroupRequestStatus;
+    booking_id?: number | null;
+    decline_reason?: string | null;
+    decided_at?: string | null;
+    created_at: string;
+    /** Vom Backend bei der Owner-Liste geliefert */
+    service_name?: string | null;
+}
+
+export interface CreateGroupRequestData
+{
+    venue_id: number;
+    service_id?: number;
+    customer_name: string;
+    customer_email: string;
+    customer_phone?: string;
+    preferred_date: string;
+    preferred_time?: string;
+    party_size: number;
+    message?: string;
+}
+
+export interface AcceptGroupRequestData
+{
+    booking_date: string;
+    start_time: string;
+    service_id?: number;
+    staff_member_id?: number;
+    table_ids?: number[];
 }
 
 // Admin Types
@@ -158,11 +428,17 @@ export interface AdminStats {
         hour: number;
         booking_count: number;
     }>;
+    /** Nur Owner: offene Gruppenanfragen */
+    groupRequestsPending?: number;
 }
 
 export interface BookingWithDetails extends Booking {
     service_price?: number;
     service_duration?: number;
+    /** Zugewiesene Tische, z. B. "T4 (Terrasse), T5 (Terrasse)" */
+    table_names?: string | null;
+    /** Belegte Ressourcen, z. B. "Paarraum, 2× Waschbecken" */
+    resource_names?: string | null;
 }
 
 export interface AvailabilityRule {
@@ -170,15 +446,208 @@ export interface AvailabilityRule {
     venue_id: number | null;
     staff_member_id: number | null;
     staff_member_name?: string;
+    /** null = Grundplan */
+    rule_set_id: number | null;
     day_of_week: number;
     start_time: string;
     end_time: string;
     is_active: boolean;
 }
 
+/** Saisonaler Zeitplan (z. B. Sommer/Winter); bei überlappenden Zeiträumen gilt der kürzeste */
+export interface AvailabilityRuleSet {
+    id: number;
+    venue_id: number;
+    name: string;
+    /** null = ohne Anfang bzw. ohne Ende */
+    valid_from: string | null;
+    valid_until: string | null;
+    is_active: boolean;
+}
+
+/** Zeitplan, der an einem Datum gilt, mit den Regeln dieses Wochentags */
+export interface AvailabilitySchedule {
+    date: string;
+    /** null = Grundplan */
+    rule_set: AvailabilityRuleSet | null;
+    rules: AvailabilityRule[];
+}
+
+/** Grund, aus dem ein Slot nicht buchbar ist (Verfügbarkeits-Diagnose) */
+export type SlotRejectionCode =
+    | "outside_rules"
+    | "closure"
+    | "off_grid"
+    | "past"
+    | "advance_notice"
+    | "booking_window"
+    | "party_size"
+    | "capacity"
+    | "staff_booked"
+    | "no_table"
+    | "resource"
+    | "pacing"
+    | "hold";
+
+export interface SlotRejection {
+    code: SlotRejectionCode;
+    message: string;
+    /** Beteiligte Buchungen; vorläufige Reservierungen (Slot-Holds) meldet der Grund "hold" */
+    booking_ids?: number[];
+}
+
+/** Geprüfte Startzeit mit allen Ablehnungsgründen (available = keine Gründe) */
+export interface SlotExplanation {
+    start_time: string;
+    end_time: string;
+    staff_member_id?: number;
+    available: boolean;
+    remaining_capacity?: number;
+    reasons: SlotRejection[];
+}
+
+/** Verfügbarkeits-Diagnose eines Tages für Leistung, Personenzahl und ggf. Mitarbeiter */
+export interface AvailabilityExplanation {
+    date: string;
+    service_id: number;
+    staff_member_id: number | null;
+    party_size: number;
+    duration_minutes: number;
+    candidates: SlotExplanation[];
+}
+
+/** Sonderverfügbarkeit: Schließung/Urlaub (is_available=false) oder Zusatzöffnung (true) an einem Datum */
+export interface AvailabilityException {
+    id: number;
+    venue_id: number | null;
+    staff_member_id: number | null;
+    staff_member_name?: string | null;
+    date: string;
+    start_time: string | null;
+    end_time: string | null;
+    is_available: boolean;
+    reason?: string | null;
+}
+
+/** time_off = Pause/Abwesenheit, shift = geänderte Schicht (ersetzt an diesen Tagen die Wochenzeiten) */
+export type StaffScheduleOverrideType = "time_off" | "shift";
+
+/** Abwesenheit oder Schichtänderung eines Mitarbeiters von start_date bis end_date (ohne Zeiten = ganztägig) */
+export interface StaffScheduleOverride {
+    id: number;
+    staff_member_id: number;
+    staff_member_name?: string;
+    type: StaffScheduleOverrideType;
+    start_date: string;
+    end_date: string;
+    start_time: string | null;
+    end_time: string | null;
+    reason?: string | null;
+    approved_by?: number | null;
+    approved_by_name?: string | null;
+    approved_at?: string | null;
+}
+
+/** Offener Termin, der nicht mehr in die Arbeitszeiten seines Mitarbeiters passt */
+export interface StaffScheduleConflict {
+    booking_id: number;
+    booking_date: string;
+    start_time: string;
+    end_time: string;
+    status: "pending" | "confirmed";
+    customer_name: string;
+    service_name: string;
+    staff_member_id: number;
+    staff_member_name: string;
+}
+
+export interface StaffScheduleOverrideResult {
+    override: StaffScheduleOverride;
+    conflicts: StaffScheduleConflict[];
+}
+
+/** Externer Kalender (ICS) eines Mitarbeiters, z. B. einer zweiten Arbeitsstelle; seine Termine blockieren die Verfügbarkeit */
+export interface ExternalCalendar {
+    id: number;
+    staff_member_id: number;
+    staff_member_name?: string;
+    name: string;
+    url: string | null;                 // null = hochgeladene Datei (nur durch erneutes Hochladen aktualisiert)
+    event_count: number;
+    last_synced_at: string | null;
+    last_error: string | null;          // Fehler beim letzten Abruf; die zuvor eingelesenen Termine bleiben gültig
+}
+
+/** Eingelesener Kalender + offene Termine, die nun mit einem externen Termin kollidieren */
+export interface ExternalCalendarImportResult {
+    calendar: ExternalCalendar;
+    conflicts: StaffScheduleConflict[];
+}
+
+/** Tisch eines Restaurants; Tische mit gleicher combine_group können zusammengestellt werden */
+export interface VenueTable {
+    id: number;
+    venue_id: number;
+    name: string;
+    area?: string | null;
+    min_seats: number;
+    max_seats: number;
+    combine_group?: string | null;
+    is_active: boolean;
+}
+
+/** Gemeinsam genutzte Ressource (Raum, Stuhl, Gerät) mit quantity gleichwertigen Einheiten, z. B. 3 Waschbecken */
+export interface Resource {
+    id: number;
+    venue_id: number;
+    name: string;
+    quantity: number;
+    is_active: boolean;
+}
+
+/** Bedarf einer Leistung an einer Ressource (Einheiten je Buchung) */
+export interface ServiceResourceRequirement {
+    resource_id: number;
+    resource_name?: string;
+    quantity: number;
+}
+
+/** Ankunftssteuerung: höchstens max_covers Gäste bzw. max_parties Gruppen mit Startzeit im selben Intervall */
+export interface PacingRule {
+    id: number;
+    venue_id: number;
+    name: string;
+    day_of_week: number | null;
+    start_time: string;
+    end_time: string;
+    interval_minutes: number;
+    max_covers: number | null;
+    max_parties: number | null;
+    is_active: boolean;
+}
+
+export interface OverbookingServiceDay {
+    service_id: number;
+    service_name: string;
+    capacity: number;
+    mode: OverbookingMode;
+    /** Zusätzliche Gäste je Slot (bereits durch die Obergrenze begrenzt) */
+    allowance: number;
+    cap: number;
+    peak_covers: number;
+    overbooked_covers: number;
+}
+
+export interface OverbookingOverview {
+    settings: { overbooking_mode: OverbookingMode; overbooking_value: number; overbooking_cap: number };
+    /** No-Show-Quote der letzten 90 Tage (0–1); null = zu wenige abgeschlossene Buchungen */
+    no_show_rate: number | null;
+    days: { date: string; services: OverbookingServiceDay[] }[];
+}
+
 export interface BookingAuditLogEntry {
     id: number;
-    action: 'status_change' | 'cancel' | 'update';
+    action: 'status_change' | 'cancel' | 'update' | 'staff_assigned';
     old_status: string | null;
     new_status: string | null;
     reason: string | null;
@@ -41,3 +41,91 @@ export function formatDateDisplay(iso: string): string {
 export function formatTimeDisplay(time: string): string {
   return `${time} Uhr`;
 }
+
+/**
+ * Whether a time range runs past midnight (end not after start, e.g. 18:00–02:00)
+ */
+export function crossesMidnight(start: string, end: string): boolean {
+  return end.slice(0, 5) <= start.slice(0, 5);
+}
+
+/**
+ * Time range for display (e.g. "18:00 – 02:00 (Folgetag)")
+ */
+export function formatTimeRange(start: string, end: string, separator = " – "): string {
+  return `${start}${separator}${end}${crossesMidnight(start, end) ? " (Folgetag)" : ""}`;
+}
+
+/**
+ * Current date (YYYY-MM-DD) and time (HH:mm) in an IANA time zone,
+ * e.g. the venue's zone – independent of the browser's zone. Without zone: browser local.
+ */
+export function nowInTimeZone(timeZone?: string | null): { date: string; time: string } {
+  const parts: Record<string, string> = {};
+  const formatter = new Intl.DateTimeFormat("en-US", {
+    timeZone: timeZone || undefined,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+  for (const part of formatter.formatToParts(new Date())) parts[part.type] = part.value;
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    time: `${parts.hour}:${parts.minute}`,
+  };
+}
+
+/**
+ * Today (YYYY-MM-DD) in an IANA time zone (venue-local "today")
+ */
+export function todayInTimeZone(timeZone?: string | null): string {
+  return nowInTimeZone(timeZone).date;
+}
+
+/**
+ * Add days to a date string (YYYY-MM-DD) without time zone shifts
+ */
+export function addDaysIso(iso: string, days: number): string {
+  const d = new Date(`${iso}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Add months to a month string (YYYY-MM)
+ */
+export function addMonthsIso(month: string, months: number): string {
+  const [y, m] = month.split("-").map((x) => parseInt(x, 10));
+  const d = new Date(Date.UTC(y, m - 1 + months, 1));
+  return d.toISOString().slice(0, 7);
+}
+
+/**
+ * Format month (YYYY-MM) for display, e.g. "März 2025"
+ */
+export function formatMonthDisplay(month: string): string {
+  return new Date(`${month}-01T00:00:00Z`).toLocaleDateString("de-DE", {
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+/**
+ * Whether a venue-local date/time (YYYY-MM-DD, HH:mm[:ss]) has already passed
+ */
+export function isPastInTimeZone(date: string, time: string, timeZone?: string | null): boolean {
+  const now = nowInTimeZone(timeZone);
+  return `${date}T${time.slice(0, 5)}` <= `${now.date}T${now.time}`;
+}
+
+/**
+ * Whether the browser is in a different time zone than the venue
+ */
+export function differsFromBrowserTimeZone(timeZone?: string | null): boolean {
+  if (!timeZone) return false;
+  return Intl.DateTimeFormat().resolvedOptions().timeZone !== timeZone;
+}